@@ -32,6 +32,7 @@ const AboutheINF = lazy(() => import("./pages/AboutheINF"));
 const Contact = lazy(() => import("./pages/Contact"));
 const SetPassword = lazy(() => import("./pages/auth/SetPassword"));
 const AuthCallback = lazy(() => import("./pages/auth/Callback"));
+const JoinCompany = lazy(() => import("./pages/auth/JoinCompany"));
 const Login = lazy(() => import("./pages/Login"));
 const Signup = lazy(() => import("./pages/Signup"));
 const PendingApproval = lazy(() => import("./pages/PendingApproval"));
@@ -48,6 +49,9 @@ const AdminOffers = lazy(() => import("./pages/admin/Offers"));
 const AdminCreateOffer = lazy(() => import("./pages/admin/offers/CreateOffer"));
 const AdminEditOffer = lazy(() => import("./pages/admin/offers/EditOffer"));
 const AdminBookings = lazy(() => import("./pages/admin/Bookings"));
+const AdminNotifications = lazy(() => import("./pages/admin/Notifications"));
+const AdminEmails = lazy(() => import("./pages/admin/Emails"));
+const AdminAnnouncements = lazy(() => import("./pages/admin/Announcements"));
 const QuickInvite = lazy(() => import("./pages/admin/events/QuickInvite"));
 const Participants = lazy(() => import("./pages/admin/events/Participants"));
 const Sessions = lazy(() => import("./pages/admin/events/Sessions"));
@@ -63,13 +67,17 @@ const StudentOfferDetail = lazy(() => import("./pages/student/OfferDetail"));
 const StudentCompanies = lazy(() => import("./pages/student/Companies"));
 const StudentCompanyProfile = lazy(() => import("./pages/student/CompanyProfile"));
 const StudentBookings = lazy(() => import("./pages/student/Bookings"));
+const StudentPreferences = lazy(() => import("./pages/student/Preferences"));
 const StudentProfile = lazy(() => import("./pages/student/Profile"));
+const StudentNotifications = lazy(() => import("./pages/student/Notifications"));
 const CompanyDashboard = lazy(() => import("./pages/company/Dashboard"));
 const CompanyOffers = lazy(() => import("./pages/company/Offers"));
 const CompanyProfile = lazy(() => import("./pages/company/Profile"));
 const CompanySlots = lazy(() => import("./pages/company/Slots"));
+const CompanyNotifications = lazy(() => import("./pages/company/Notifications"));
 const CreateOffer = lazy(() => import("./pages/company/offers/CreateOffer"));
 const EditOffer = lazy(() => import("./pages/company/offers/EditOffer"));
+const OfferCandidates = lazy(() => import("./pages/company/offers/OfferCandidates"));
 const CompanyStudents = lazy(() => import("./pages/company/Students"));
 const StudentProfileView = lazy(
   () => import("./pages/company/students/StudentProfile")
@@ -95,6 +103,7 @@ function AppRoutes() {
           <Route path="/forgot-password" element={<ForgotPassword />} />
           <Route path="/reset-password" element={<ResetPassword />} />
           <Route path="/auth/callback" element={<AuthCallback />} />
+          <Route path="/company/join" element={<JoinCompany />} />
           <Route path="/offers" element={<Offers />} />
           <Route path="/privacy-policy" element={<PrivacyPolicy />} />
           <Route path="/report-2026" element={<Report2026 />} />
@@ -117,6 +126,9 @@ function AppRoutes() {
           <Route path="/admin/offers/new" element={<ProtectedRoute><AdminCreateOffer /></ProtectedRoute>} />
           <Route path="/admin/offers/:id/edit" element={<ProtectedRoute><AdminEditOffer /></ProtectedRoute>} />
           <Route path="/admin/bookings" element={<ProtectedRoute><AdminBookings /></ProtectedRoute>} />
+          <Route path="/admin/notifications" element={<ProtectedRoute><AdminNotifications /></ProtectedRoute>} />
+          <Route path="/admin/emails" element={<ProtectedRoute><AdminEmails /></ProtectedRoute>} />
+          <Route path="/admin/announcements" element={<ProtectedRoute><AdminAnnouncements /></ProtectedRoute>} />
           
           {/* Student Routes - Protected & Require Email Verification */}
           <Route path="/student" element={<ProtectedRoute><StudentDashboard /></ProtectedRoute>} />
@@ -125,7 +137,9 @@ function AppRoutes() {
           <Route path="/student/companies" element={<ProtectedRoute><StudentCompanies /></ProtectedRoute>} />
           <Route path="/student/companies/:companyId" element={<ProtectedRoute><StudentCompanyProfile /></ProtectedRoute>} />
           <Route path="/student/bookings" element={<ProtectedRoute><StudentBookings /></ProtectedRoute>} />
+          <Route path="/student/preferences" element={<ProtectedRoute><StudentPreferences /></ProtectedRoute>} />
           <Route path="/student/profile" element={<ProtectedRoute><StudentProfile /></ProtectedRoute>} />
+          <Route path="/student/notifications" element={<ProtectedRoute><StudentNotifications /></ProtectedRoute>} />
           <Route path="/verify-email" element={<VerifyEmail />} />
           
           {/* Company Routes - Protected */}
@@ -133,10 +147,12 @@ function AppRoutes() {
           <Route path="/company/offers" element={<ProtectedRoute><CompanyOffers /></ProtectedRoute>} />
           <Route path="/company/offers/new" element={<ProtectedRoute><CreateOffer /></ProtectedRoute>} />
           <Route path="/company/offers/:id/edit" element={<ProtectedRoute><EditOffer /></ProtectedRoute>} />
+          <Route path="/company/offers/:id/candidates" element={<ProtectedRoute><OfferCandidates /></ProtectedRoute>} />
           <Route path="/company/students" element={<ProtectedRoute><CompanyStudents /></ProtectedRoute>} />
           <Route path="/company/students/:id" element={<ProtectedRoute><StudentProfileView /></ProtectedRoute>} />
           <Route path="/company/profile" element={<ProtectedRoute><CompanyProfile /></ProtectedRoute>} />
           <Route path="/company/slots" element={<ProtectedRoute><CompanySlots /></ProtectedRoute>} />
+          <Route path="/company/notifications" element={<ProtectedRoute><CompanyNotifications /></ProtectedRoute>} />
           <Route path="/auth/set-password" element={<SetPassword />} />
 
           {/* Fallback */}
@@ -1,5 +1,6 @@
 import { ReactNode } from 'react';
 import AdminSidebar from './AdminSidebar';
+import AnnouncementBanner from '@/components/shared/AnnouncementBanner';
 
 interface AdminLayoutProps {
   children: ReactNode;
@@ -11,6 +12,7 @@ export default function AdminLayout({ children, onSignOut }: AdminLayoutProps) {
     <div className="min-h-screen bg-background flex">
       <AdminSidebar onSignOut={onSignOut} />
       <main className="flex-1 w-full md:w-auto overflow-auto pt-16 md:pt-0">
+        <AnnouncementBanner />
         {children}
       </main>
     </div>
@@ -7,10 +7,13 @@ import {
   Briefcase, 
   LogOut,
   Clock,
+  Mail,
+  Megaphone,
   Menu,
   X
 } from 'lucide-react';
 import { useState } from 'react';
+import NotificationBell from '@/components/shared/NotificationBell';
 
 interface AdminSidebarProps {
   onSignOut: () => void;
@@ -59,6 +62,16 @@ export default function AdminSidebar({ onSignOut }: AdminSidebarProps) {
       path: '/admin/bookings',
       icon: Clock,
     },
+    {
+      title: 'Announcements',
+      path: '/admin/announcements',
+      icon: Megaphone,
+    },
+    {
+      title: 'Emails',
+      path: '/admin/emails',
+      icon: Mail,
+    },
   ];
 
   return (
@@ -92,6 +105,7 @@ export default function AdminSidebar({ onSignOut }: AdminSidebarProps) {
             <h2 className="text-xl font-bold text-foreground">Admin Panel</h2>
             <p className="text-xs text-muted-foreground mt-1">Control Center</p>
           </div>
+          <NotificationBell notificationsPath="/admin/notifications" align="left" />
         </div>
 
         {/* Navigation */}
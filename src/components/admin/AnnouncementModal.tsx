@@ -0,0 +1,292 @@
+import { useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { X } from 'lucide-react';
+
+export type AnnouncementAudience = 'all' | 'students' | 'companies' | 'event_participants' | 'deprioritized_students';
+
+export type AdminAnnouncement = {
+  id: string;
+  title: string;
+  message: string;
+  audience: AnnouncementAudience;
+  event_id: string | null;
+  severity: 'info' | 'warning' | 'urgent';
+  starts_at: string;
+  ends_at: string | null;
+  send_email: boolean;
+  emailed_at: string | null;
+  created_at: string;
+  events: { name: string } | null;
+};
+
+export const AUDIENCE_LABELS: Record<AnnouncementAudience, string> = {
+  all: 'Everyone',
+  students: 'All students',
+  companies: 'All companies',
+  event_participants: 'Participants of one event',
+  deprioritized_students: 'Deprioritized students',
+};
+
+type EventOption = {
+  id: string;
+  name: string;
+};
+
+type AnnouncementModalProps = {
+  announcement: AdminAnnouncement | null;
+  events: EventOption[];
+  onClose: () => void;
+  onSaved: () => void;
+};
+
+// datetime-local inputs work in local time without a zone
+const toDateTimeLocal = (timestamp: string | null): string => {
+  if (!timestamp) return '';
+  const date = new Date(timestamp);
+  if (isNaN(date.getTime())) return '';
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+const toTimestampOrNull = (value: string): string | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+/**
+ * AnnouncementModal - Create or edit an announcement
+ *
+ * @component
+ * @param announcement - Announcement to edit, or null to create one
+ * @param events - Events an announcement can target
+ * @param onClose - Called when the modal closes
+ * @param onSaved - Called after the announcement is saved
+ *
+ * @example
+ * <AnnouncementModal announcement={null} events={events} onClose={close} onSaved={reload} />
+ */
+export default function AnnouncementModal({ announcement, events, onClose, onSaved }: AnnouncementModalProps) {
+  const [formData, setFormData] = useState({
+    title: announcement?.title ?? '',
+    message: announcement?.message ?? '',
+    audience: announcement?.audience ?? 'all' as AnnouncementAudience,
+    event_id: announcement?.event_id ?? '',
+    severity: announcement?.severity ?? 'info' as AdminAnnouncement['severity'],
+    starts_at: toDateTimeLocal(announcement?.starts_at ?? new Date().toISOString()),
+    ends_at: toDateTimeLocal(announcement?.ends_at ?? null),
+    send_email: announcement?.send_email ?? false,
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const alreadyEmailed = Boolean(announcement?.emailed_at);
+
+  const handleSave = async () => {
+    if (!formData.title.trim() || !formData.message.trim()) {
+      setError('Title and message are required');
+      return;
+    }
+    if (formData.audience === 'event_participants' && !formData.event_id) {
+      setError('Choose the event whose participants should see this');
+      return;
+    }
+
+    const startsAt = toTimestampOrNull(formData.starts_at);
+    const endsAt = toTimestampOrNull(formData.ends_at);
+    if (!startsAt) {
+      setError('Choose when the announcement starts');
+      return;
+    }
+    if (endsAt && new Date(endsAt) <= new Date(startsAt)) {
+      setError('The end must be after the start');
+      return;
+    }
+
+    const payload = {
+      title: formData.title.trim(),
+      message: formData.message.trim(),
+      audience: formData.audience,
+      event_id: formData.audience === 'event_participants' ? formData.event_id : null,
+      severity: formData.severity,
+      starts_at: startsAt,
+      ends_at: endsAt,
+      send_email: formData.send_email,
+    };
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      if (announcement) {
+        const { error: updateError } = await supabase
+          .from('announcements')
+          .update(payload)
+          .eq('id', announcement.id);
+        if (updateError) throw updateError;
+      } else {
+        const { data: { user } } = await supabase.auth.getUser();
+        const { error: insertError } = await supabase
+          .from('announcements')
+          .insert({ ...payload, created_by: user?.id ?? null });
+        if (insertError) throw insertError;
+      }
+
+      onSaved();
+      onClose();
+    } catch (err: any) {
+      console.error('Error saving announcement:', err);
+      setError(err?.message || 'Failed to save announcement');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-card rounded-xl border border-border max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-border">
+          <h2 className="text-xl font-semibold text-foreground">
+            {announcement ? 'Edit announcement' : 'New announcement'}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-5">
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-2">Title</label>
+            <input
+              type="text"
+              maxLength={120}
+              value={formData.title}
+              onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+              placeholder="e.g. Afternoon interviews move to Hall C"
+              className="w-full px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-2">Message</label>
+            <textarea
+              value={formData.message}
+              maxLength={2000}
+              onChange={(e) => setFormData({ ...formData, message: e.target.value })}
+              rows={5}
+              className="w-full px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-foreground mb-2">Audience</label>
+              <select
+                value={formData.audience}
+                onChange={(e) => setFormData({ ...formData, audience: e.target.value as AnnouncementAudience })}
+                className="w-full px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary"
+              >
+                {(Object.keys(AUDIENCE_LABELS) as AnnouncementAudience[]).map((audience) => (
+                  <option key={audience} value={audience}>{AUDIENCE_LABELS[audience]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-foreground mb-2">Severity</label>
+              <select
+                value={formData.severity}
+                onChange={(e) => setFormData({ ...formData, severity: e.target.value as AdminAnnouncement['severity'] })}
+                className="w-full px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary"
+              >
+                <option value="info">Info</option>
+                <option value="warning">Warning</option>
+                <option value="urgent">Urgent</option>
+              </select>
+            </div>
+          </div>
+
+          {formData.audience === 'event_participants' && (
+            <div>
+              <label className="block text-sm font-medium text-foreground mb-2">Event</label>
+              <select
+                value={formData.event_id}
+                onChange={(e) => setFormData({ ...formData, event_id: e.target.value })}
+                className="w-full px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary"
+              >
+                <option value="">Select an event</option>
+                {events.map((event) => (
+                  <option key={event.id} value={event.id}>{event.name}</option>
+                ))}
+              </select>
+              <p className="text-xs text-muted-foreground mt-1">
+                Students with a confirmed interview at the event and the companies taking part.
+              </p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-foreground mb-2">Starts</label>
+              <input
+                type="datetime-local"
+                value={formData.starts_at}
+                onChange={(e) => setFormData({ ...formData, starts_at: e.target.value })}
+                className="w-full px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-foreground mb-2">Ends (optional)</label>
+              <input
+                type="datetime-local"
+                value={formData.ends_at}
+                onChange={(e) => setFormData({ ...formData, ends_at: e.target.value })}
+                className="w-full px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary"
+              />
+            </div>
+          </div>
+
+          <label className="flex items-start gap-2 text-sm text-foreground cursor-pointer">
+            <input
+              type="checkbox"
+              checked={formData.send_email}
+              disabled={alreadyEmailed}
+              onChange={(e) => setFormData({ ...formData, send_email: e.target.checked })}
+              className="w-4 h-4 mt-0.5 text-primary border-border rounded focus:ring-primary"
+            />
+            <span>
+              Also send it by email
+              <span className="block text-xs text-muted-foreground">
+                {alreadyEmailed
+                  ? `Emailed on ${new Date(announcement!.emailed_at!).toLocaleString()}. Edits are not emailed again.`
+                  : 'Emails go out once, within a few minutes of the start.'}
+              </span>
+            </span>
+          </label>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        {/* Footer */}
+        <div className="flex flex-col sm:flex-row justify-end gap-3 p-6 border-t border-border">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 border border-border rounded-lg hover:bg-muted transition"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-6 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : announcement ? 'Save changes' : 'Create announcement'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
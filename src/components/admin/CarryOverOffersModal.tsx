@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { X, Copy } from 'lucide-react';
+import { copyOffersToEvent, type CarryOverOffer } from '@/utils/offerTemplates';
+
+type CarryOverOffersModalProps = {
+  company: { id: string; name: string };
+  eventId: string;
+  eventName: string;
+  offers: CarryOverOffer[];
+  onClose: () => void;
+};
+
+/**
+ * CarryOverOffersModal - Copy a company's offers from its previous event
+ *
+ * Shown after inviting a returning company. Lists the offers of the last
+ * event the company posted offers for; the selected ones are copied into the
+ * new event as inactive offers for the company to review and activate.
+ * Offers already carried over are listed but not selectable.
+ *
+ * @component
+ *
+ * @example
+ * <CarryOverOffersModal
+ *   company={{ id: companyId, name: companyName }}
+ *   eventId={eventId}
+ *   eventName={eventName}
+ *   offers={previousOffers}
+ *   onClose={() => setCarryOver(null)}
+ * />
+ */
+export default function CarryOverOffersModal({ company, eventId, eventName, offers, onClose }: CarryOverOffersModalProps) {
+  const [selected, setSelected] = useState<Set<string>>(
+    () => new Set(offers.filter((o) => !o.already_copied).map((o) => o.offer_id))
+  );
+  const [copying, setCopying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [doneMessage, setDoneMessage] = useState<string | null>(null);
+
+  const sourceEventName = offers[0]?.source_event_name;
+
+  const toggle = (offerId: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(offerId)) {
+        next.delete(offerId);
+      } else {
+        next.add(offerId);
+      }
+      return next;
+    });
+  };
+
+  const handleCarryOver = async () => {
+    try {
+      setCopying(true);
+      setError(null);
+      const result = await copyOffersToEvent([...selected], eventId);
+      setDoneMessage(result.message);
+    } catch (err: any) {
+      setError(err.message || 'Failed to carry offers over');
+    } finally {
+      setCopying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-card rounded-xl border border-border max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-border">
+          <div>
+            <h2 className="text-xl font-semibold text-foreground">Carry over offers</h2>
+            <p className="text-sm text-muted-foreground mt-1">
+              {company.name} posted {offers.length} offer{offers.length !== 1 ? 's' : ''} for {sourceEventName}.
+              Copy them to {eventName}?
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-muted-foreground hover:text-foreground transition-colors"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {doneMessage ? (
+            <p className="p-4 rounded-lg bg-success/10 text-success">{doneMessage}</p>
+          ) : (
+            <>
+              <div className="border border-border rounded-lg divide-y divide-border">
+                {offers.map((offer) => (
+                  <label
+                    key={offer.offer_id}
+                    className={`flex items-center gap-3 p-3 ${offer.already_copied ? 'opacity-60' : 'cursor-pointer'}`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selected.has(offer.offer_id)}
+                      disabled={offer.already_copied}
+                      onChange={() => toggle(offer.offer_id)}
+                      className="w-4 h-4"
+                    />
+                    <div className="flex-1">
+                      <p className="font-medium text-foreground">{offer.title}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {offer.interest_tag}
+                        {!offer.is_active && ' • was inactive'}
+                        {offer.already_copied && ' • already carried over'}
+                      </p>
+                    </div>
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Copies start inactive with their interview rubric. The company reviews and activates them.
+              </p>
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </>
+          )}
+        </div>
+
+        <div className="flex flex-col sm:flex-row justify-end gap-3 p-6 border-t border-border">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 border border-border rounded-lg hover:bg-muted transition"
+          >
+            {doneMessage ? 'Close' : 'Skip'}
+          </button>
+          {!doneMessage && (
+            <button
+              onClick={handleCarryOver}
+              disabled={selected.size === 0 || copying}
+              className="flex items-center justify-center gap-2 px-6 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition disabled:opacity-50"
+            >
+              <Copy className="w-4 h-4" />
+              {copying ? 'Copying...' : `Carry over ${selected.size} offer${selected.size !== 1 ? 's' : ''}`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/lib/supabase';
+import { X, History } from 'lucide-react';
+
+type HistoryEntry = {
+  id: string;
+  is_deprioritized: boolean;
+  source: string;
+  reason: string | null;
+  created_at: string;
+  events: { name: string } | null;
+};
+
+type DeprioritizationModalProps = {
+  student: {
+    id: string;
+    full_name: string;
+    is_deprioritized: boolean;
+    no_show_penalty_event_id?: string | null;
+  };
+  onClose: () => void;
+  onSaved: (isDeprioritized: boolean) => void;
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  no_show_policy: 'No-show policy',
+  admin: 'Admin',
+  student: 'Student',
+  system: 'System'
+};
+
+/**
+ * DeprioritizationModal - Admin override of a student's deprioritization
+ *
+ * Shows why the student is (or was) deprioritized, from the no-show policy,
+ * admins or the student's own "secured internship" flag, and lets the admin
+ * set or lift it with a reason that is kept in the history.
+ *
+ * @component
+ *
+ * @example
+ * <DeprioritizationModal
+ *   student={student}
+ *   onClose={() => setOverrideStudent(null)}
+ *   onSaved={(value) => updateStudent(student.id, value)}
+ * />
+ */
+export default function DeprioritizationModal({ student, onClose, onSaved }: DeprioritizationModalProps) {
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const nextValue = !student.is_deprioritized;
+
+  useEffect(() => {
+    loadHistory();
+  }, [student.id]);
+
+  const loadHistory = async () => {
+    try {
+      setLoading(true);
+      const { data, error: historyError } = await supabase
+        .from('deprioritization_history')
+        .select('id, is_deprioritized, source, reason, created_at, events(name)')
+        .eq('student_id', student.id)
+        .order('created_at', { ascending: false });
+
+      if (historyError) throw historyError;
+      setHistory((data || []) as HistoryEntry[]);
+    } catch (err) {
+      console.error('Error loading deprioritization history:', err);
+      setHistory([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!reason.trim()) {
+      setError('Give a reason for the change');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      const { data, error: saveError } = await supabase.rpc('fn_set_student_deprioritization', {
+        p_student_id: student.id,
+        p_deprioritized: nextValue,
+        p_reason: reason.trim()
+      });
+
+      if (saveError) throw saveError;
+
+      const result = data?.[0];
+      if (!result?.success) {
+        setError(result?.message || 'Failed to update student status');
+        return;
+      }
+
+      onSaved(nextValue);
+      onClose();
+    } catch (err: any) {
+      console.error('Error updating deprioritization:', err);
+      setError(err?.message || 'Failed to update student status');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-card rounded-xl border border-border max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-border">
+          <div>
+            <h2 className="text-xl font-semibold text-foreground">
+              {nextValue ? 'Deprioritize' : 'Prioritize'} {student.full_name}
+            </h2>
+            <p className="text-sm text-muted-foreground mt-1">
+              Currently {student.is_deprioritized ? 'deprioritized' : 'active'}
+              {student.no_show_penalty_event_id && ' (no-show penalty)'}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-2">Reason</label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+              placeholder={nextValue ? 'e.g. Repeated late cancellations' : 'e.g. No-show was caused by a scheduling error'}
+              className="w-full px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary"
+            />
+            {!nextValue && student.no_show_penalty_event_id && (
+              <p className="text-xs text-muted-foreground mt-1">Lifting ends the no-show penalty as well.</p>
+            )}
+            {error && <p className="text-sm text-destructive mt-2">{error}</p>}
+          </div>
+
+          <div>
+            <h3 className="font-medium text-foreground mb-2 flex items-center gap-2">
+              <History className="w-4 h-4 text-muted-foreground" />
+              History
+            </h3>
+            {loading ? (
+              <p className="text-sm text-muted-foreground">Loading history...</p>
+            ) : history.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No changes recorded.</p>
+            ) : (
+              <div className="border border-border rounded-lg divide-y divide-border text-sm">
+                {history.map((entry) => (
+                  <div key={entry.id} className="p-3">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <span className={`font-medium ${entry.is_deprioritized ? 'text-warning' : 'text-success'}`}>
+                        {entry.is_deprioritized ? 'Deprioritized' : 'Prioritized'}
+                      </span>
+                      <span className="text-xs text-muted-foreground">
+                        {SOURCE_LABELS[entry.source] || entry.source} · {new Date(entry.created_at).toLocaleString('en-US', {
+                          month: 'short',
+                          day: 'numeric',
+                          year: 'numeric',
+                          hour: '2-digit',
+                          minute: '2-digit'
+                        })}
+                      </span>
+                    </div>
+                    {entry.reason && <p className="text-foreground mt-1">{entry.reason}</p>}
+                    {entry.events?.name && <p className="text-xs text-muted-foreground mt-1">{entry.events.name}</p>}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex flex-col sm:flex-row justify-end gap-3 p-6 border-t border-border">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 border border-border rounded-lg hover:bg-muted transition"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-6 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : nextValue ? 'Deprioritize' : 'Prioritize'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
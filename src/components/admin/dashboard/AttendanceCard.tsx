@@ -0,0 +1,83 @@
+import { UserCheck } from 'lucide-react';
+import { useEventAttendance } from '@/hooks/useEventAttendance';
+
+/**
+ * AttendanceCard - Live event-day attendance
+ * 
+ * Shows the overall check-in rate of interviews that are already due and a
+ * per-company breakdown. Stays hidden until the event has confirmed bookings.
+ * 
+ * @component
+ * @param eventId - Current event ID
+ * 
+ * @example
+ * <AttendanceCard eventId={selectedEvent.id} />
+ */
+export default function AttendanceCard({ eventId }: { eventId: string }) {
+  const { rows, loading } = useEventAttendance(eventId);
+
+  if (loading || !rows.some((row) => row.booked > 0)) return null;
+
+  const totals = rows.reduce(
+    (acc, row) => ({
+      due: acc.due + row.due,
+      checkedIn: acc.checkedIn + row.checked_in,
+      noShows: acc.noShows + row.no_shows,
+    }),
+    { due: 0, checkedIn: 0, noShows: 0 }
+  );
+  const overallRate = totals.due > 0 ? Math.round((totals.checkedIn / totals.due) * 100) : null;
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-success/10 text-success">
+            <UserCheck className="w-5 h-5" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-foreground">Attendance</h2>
+            <p className="text-sm text-muted-foreground">
+              {totals.checkedIn} checked in · {totals.noShows} no-shows · {totals.due} interviews due
+            </p>
+          </div>
+        </div>
+        <div className="text-right">
+          <p className="text-3xl font-bold text-foreground">{overallRate !== null ? `${overallRate}%` : '—'}</p>
+          <p className="text-xs text-muted-foreground">check-in rate</p>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-muted-foreground border-b border-border">
+              <th className="py-2 pr-4 font-medium">Company</th>
+              <th className="py-2 px-2 font-medium text-right">Booked</th>
+              <th className="py-2 px-2 font-medium text-right">Due</th>
+              <th className="py-2 px-2 font-medium text-right">Checked in</th>
+              <th className="py-2 px-2 font-medium text-right">No-shows</th>
+              <th className="py-2 pl-2 font-medium text-right">Rate</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border">
+            {rows.map((row) => (
+              <tr key={row.company_id}>
+                <td className="py-2 pr-4 text-foreground">{row.company_name}</td>
+                <td className="py-2 px-2 text-right text-foreground">{row.booked}</td>
+                <td className="py-2 px-2 text-right text-foreground">{row.due}</td>
+                <td className="py-2 px-2 text-right text-foreground">{row.checked_in}</td>
+                <td className={`py-2 px-2 text-right ${row.no_shows > 0 ? 'text-destructive font-medium' : 'text-foreground'}`}>
+                  {row.no_shows}
+                </td>
+                <td className="py-2 pl-2 text-right text-foreground">
+                  {row.due > 0 ? `${Math.round(row.attendance_rate)}%` : '—'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { Briefcase } from 'lucide-react';
+import { useEventHiringOutcomes } from '@/hooks/useEventHiringOutcomes';
+
+/**
+ * HiringOutcomesCard - Placements that came out of an event
+ * 
+ * Aggregates the candidate pipelines companies keep after the event: students
+ * hired, offers extended, still in process and rejected. Stays hidden until
+ * a company has added candidates to its pipeline.
+ * 
+ * @component
+ * @param eventId - Current event ID
+ * 
+ * @example
+ * <HiringOutcomesCard eventId={selectedEvent.id} />
+ */
+export default function HiringOutcomesCard({ eventId }: { eventId: string }) {
+  const { rows, loading } = useEventHiringOutcomes(eventId);
+
+  if (loading || !rows.some((row) => row.candidates > 0)) return null;
+
+  const totals = rows.reduce(
+    (acc, row) => ({
+      candidates: acc.candidates + row.candidates,
+      inProgress: acc.inProgress + row.in_progress,
+      offers: acc.offers + row.offers,
+      hired: acc.hired + row.hired,
+      rejected: acc.rejected + row.rejected,
+    }),
+    { candidates: 0, inProgress: 0, offers: 0, hired: 0, rejected: 0 }
+  );
+  const placedStudents = rows[0]?.placed_students ?? 0;
+  const companiesHiring = rows.filter((row) => row.hired > 0).length;
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-primary/10 text-primary">
+            <Briefcase className="w-5 h-5" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-foreground">Hiring Outcomes</h2>
+            <p className="text-sm text-muted-foreground">
+              {totals.offers} offers extended · {totals.inProgress} in process · {totals.rejected} rejected · {companiesHiring} companies hiring
+            </p>
+          </div>
+        </div>
+        <div className="text-right">
+          <p className="text-3xl font-bold text-foreground">{placedStudents}</p>
+          <p className="text-xs text-muted-foreground">students placed</p>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-muted-foreground border-b border-border">
+              <th className="py-2 pr-4 font-medium">Company</th>
+              <th className="py-2 px-2 font-medium text-right">Candidates</th>
+              <th className="py-2 px-2 font-medium text-right">In process</th>
+              <th className="py-2 px-2 font-medium text-right">Offers</th>
+              <th className="py-2 px-2 font-medium text-right">Hired</th>
+              <th className="py-2 pl-2 font-medium text-right">Rejected</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border">
+            {rows.filter((row) => row.candidates > 0).map((row) => (
+              <tr key={row.company_id}>
+                <td className="py-2 pr-4 text-foreground">{row.company_name}</td>
+                <td className="py-2 px-2 text-right text-foreground">{row.candidates}</td>
+                <td className="py-2 px-2 text-right text-foreground">{row.in_progress}</td>
+                <td className="py-2 px-2 text-right text-foreground">{row.offers}</td>
+                <td className={`py-2 px-2 text-right ${row.hired > 0 ? 'text-success font-medium' : 'text-foreground'}`}>
+                  {row.hired}
+                </td>
+                <td className="py-2 pl-2 text-right text-foreground">{row.rejected}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-muted-foreground mt-3">
+        From the candidate pipelines companies keep after the event. {rows.length - rows.filter((row) => row.candidates > 0).length} participating companies have not reported yet.
+      </p>
+    </div>
+  );
+}
@@ -1,12 +1,16 @@
+import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { AlertCircle, Settings } from 'lucide-react';
+import { AlertCircle, Settings, Timer } from 'lucide-react';
 import { BOOKING_PHASES } from '@/utils/constants';
+import { formatCountdown } from '@/utils/dateUtils';
+import { usePhaseTransition } from '@/hooks/usePhaseTransition';
 
 /**
  * PhaseStatusCard - Displays current booking phase status
  * 
- * Shows the current phase (Closed, Phase 1, or Phase 2) with appropriate
- * styling and booking limits. Includes link to manage phases.
+ * Shows the current phase (Closed or one of the event's configured phases)
+ * with appropriate styling and booking limits. For date-based events, counts
+ * down to the next scheduled transition. Includes link to manage phases.
  * 
  * @component
  * @param event - Event object with phase information
@@ -22,9 +26,33 @@ export default function PhaseStatusCard({
     current_phase: number | null;
     phase1_max_bookings: number | null;
     phase2_max_bookings: number | null;
+    event_phases?: { phase_number: number; name: string; max_bookings: number }[];
   };
 }) {
   const isClosed = event.current_phase === BOOKING_PHASES.CLOSED;
+  const activePhase = event.event_phases?.find((phase) => phase.phase_number === event.current_phase);
+  // Events loaded without their phase list fall back to the legacy two-phase columns
+  const maxBookings = activePhase?.max_bookings
+    ?? (event.current_phase === BOOKING_PHASES.PHASE_1 ? event.phase1_max_bookings : event.phase2_max_bookings);
+
+  const { transition, refetch: refetchTransition } = usePhaseTransition(event.id);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!transition) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [transition]);
+
+  const remainingMs = transition ? new Date(transition.transition_at).getTime() - now : 0;
+
+  // Look up the following transition a minute after this one is due
+  useEffect(() => {
+    if (!transition) return;
+    if (remainingMs < -60000) {
+      refetchTransition();
+    }
+  }, [transition, remainingMs, refetchTransition]);
 
   return (
     <div className={`rounded-xl border p-6 mb-6 ${
@@ -42,15 +70,24 @@ export default function PhaseStatusCard({
           <div>
             <h3 className="font-semibold text-foreground mb-1">
               Booking Phase {event.current_phase}
-              {event.current_phase === BOOKING_PHASES.CLOSED && ' - Bookings Closed'}
-              {event.current_phase === BOOKING_PHASES.PHASE_1 && ' - Priority Phase'}
-              {event.current_phase === BOOKING_PHASES.PHASE_2 && ' - Open Phase'}
+              {isClosed ? ' - Bookings Closed' : activePhase && ` - ${activePhase.name}`}
             </h3>
             <p className="text-sm text-muted-foreground mb-2">
-              {event.current_phase === BOOKING_PHASES.CLOSED && 'Students cannot book interviews yet'}
-              {event.current_phase === BOOKING_PHASES.PHASE_1 && `Students can book up to ${event.phase1_max_bookings} interviews`}
-              {event.current_phase === BOOKING_PHASES.PHASE_2 && `Students can book up to ${event.phase2_max_bookings} interviews`}
+              {isClosed
+                ? 'Students cannot book interviews yet'
+                : `Eligible students can book up to ${maxBookings} interviews`}
             </p>
+            {transition && (
+              <p className="flex items-center gap-1.5 text-sm text-foreground">
+                <Timer className="w-4 h-4 text-primary" />
+                {transition.next_phase === BOOKING_PHASES.CLOSED
+                  ? 'Booking closes'
+                  : `Phase ${transition.next_phase}${transition.next_phase_name ? ` (${transition.next_phase_name})` : ''} starts`}
+                {remainingMs > 0
+                  ? <> in <span className="font-semibold tabular-nums">{formatCountdown(remainingMs)}</span></>
+                  : ' now, applied at the next scheduled run'}
+              </p>
+            )}
           </div>
         </div>
         <Link
@@ -0,0 +1,255 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/lib/supabase';
+import { Building2, RefreshCw, Save } from 'lucide-react';
+
+type OverrideRow = {
+  company_id: string;
+  company_name: string;
+  num_recruiters: number;
+  interview_duration_minutes: string;
+  buffer_minutes: string;
+  capacity: string;
+  max_slots_per_session: string;
+  has_override: boolean;
+};
+
+const OVERRIDE_FIELDS = ['interview_duration_minutes', 'buffer_minutes', 'capacity', 'max_slots_per_session'] as const;
+
+const cellInputClass = 'w-20 px-2 py-1 text-sm bg-background border border-border rounded-md focus:ring-2 focus:ring-primary';
+
+const toNullableInt = (value: string) => (value.trim() === '' ? null : parseInt(value));
+
+/**
+ * CompanySlotOverrides - Per-company slot settings for an event
+ *
+ * Shows every participating company with its number of recruiters and
+ * optional overrides for slot length, buffer, capacity and slot count per
+ * session. Empty fields use the session settings. Saving does not touch
+ * existing slots; "Regenerate" rebuilds the company's unbooked slots.
+ *
+ * @component
+ * @param eventId - Event whose participants are listed
+ *
+ * @example
+ * <CompanySlotOverrides eventId={eventId} />
+ */
+export default function CompanySlotOverrides({ eventId }: { eventId: string }) {
+  const [rows, setRows] = useState<OverrideRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyCompanyId, setBusyCompanyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadRows();
+  }, [eventId]);
+
+  const loadRows = async () => {
+    try {
+      const [participantsResult, overridesResult] = await Promise.all([
+        supabase
+          .from('event_participants')
+          .select('company_id, num_recruiters, companies!inner (company_name)')
+          .eq('event_id', eventId),
+        supabase
+          .from('company_slot_overrides')
+          .select('*')
+          .eq('event_id', eventId)
+      ]);
+
+      if (participantsResult.error) throw participantsResult.error;
+      if (overridesResult.error) throw overridesResult.error;
+
+      const overrides = new Map((overridesResult.data || []).map((o) => [o.company_id, o]));
+      const toText = (value: number | null | undefined) => (value == null ? '' : String(value));
+
+      const list: OverrideRow[] = (participantsResult.data || []).map((p: any) => {
+        const override = overrides.get(p.company_id);
+        return {
+          company_id: p.company_id,
+          company_name: p.companies.company_name,
+          num_recruiters: p.num_recruiters || 1,
+          interview_duration_minutes: toText(override?.interview_duration_minutes),
+          buffer_minutes: toText(override?.buffer_minutes),
+          capacity: toText(override?.capacity),
+          max_slots_per_session: toText(override?.max_slots_per_session),
+          has_override: !!override
+        };
+      });
+
+      list.sort((a, b) => a.company_name.localeCompare(b.company_name));
+      setRows(list);
+    } catch (err) {
+      console.error('Error loading company slot settings:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateRow = (companyId: string, changes: Partial<OverrideRow>) => {
+    setRows(rows.map((r) => (r.company_id === companyId ? { ...r, ...changes } : r)));
+  };
+
+  const handleSave = async (row: OverrideRow) => {
+    if (row.num_recruiters < 1) {
+      alert('A company needs at least 1 recruiter');
+      return;
+    }
+
+    const values = {
+      interview_duration_minutes: toNullableInt(row.interview_duration_minutes),
+      buffer_minutes: toNullableInt(row.buffer_minutes),
+      capacity: toNullableInt(row.capacity),
+      max_slots_per_session: toNullableInt(row.max_slots_per_session)
+    };
+
+    try {
+      setBusyCompanyId(row.company_id);
+
+      const { error: participantError } = await supabase
+        .from('event_participants')
+        .update({ num_recruiters: row.num_recruiters })
+        .eq('event_id', eventId)
+        .eq('company_id', row.company_id);
+
+      if (participantError) throw participantError;
+
+      if (OVERRIDE_FIELDS.every((field) => values[field] === null)) {
+        if (row.has_override) {
+          const { error } = await supabase
+            .from('company_slot_overrides')
+            .delete()
+            .eq('event_id', eventId)
+            .eq('company_id', row.company_id);
+          if (error) throw error;
+        }
+      } else {
+        const { error } = await supabase
+          .from('company_slot_overrides')
+          .upsert(
+            { event_id: eventId, company_id: row.company_id, ...values },
+            { onConflict: 'event_id,company_id' }
+          );
+        if (error) throw error;
+      }
+
+      await loadRows();
+    } catch (err: any) {
+      console.error('Error saving company slot settings:', err);
+      alert(`Error saving settings for ${row.company_name}: ${err?.message || 'Unknown error occurred'}`);
+    } finally {
+      setBusyCompanyId(null);
+    }
+  };
+
+  const handleRegenerate = async (row: OverrideRow) => {
+    if (!confirm(`Regenerate slots for ${row.company_name}?\n\nSlots are rebuilt using the current settings and booked interviews move to the closest new slot. If a booking cannot be placed, nothing changes.`)) {
+      return;
+    }
+
+    try {
+      setBusyCompanyId(row.company_id);
+      const { data, error } = await supabase.rpc('fn_regenerate_company_slots', {
+        p_event_id: eventId,
+        p_company_id: row.company_id
+      });
+
+      if (error) throw error;
+
+      const result = data?.[0];
+      alert(result?.success ? `✅ ${result.message}` : `❌ ${result?.message || 'Regeneration failed'}`);
+    } catch (err: any) {
+      console.error('Error regenerating company slots:', err);
+      alert('❌ Error regenerating slots: ' + err?.message);
+    } finally {
+      setBusyCompanyId(null);
+    }
+  };
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-6 mb-8">
+      <div className="mb-4">
+        <h2 className="text-lg font-semibold text-foreground flex items-center gap-2">
+          <Building2 className="w-5 h-5" />
+          Company Slot Settings
+        </h2>
+        <p className="text-sm text-muted-foreground mt-1">
+          Recruiters scale capacity in sessions that allow it. Empty fields use the session settings; an explicit capacity is not scaled.
+        </p>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      ) : rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No companies are participating in this event yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground border-b border-border">
+                <th className="py-2 pr-4 font-medium">Company</th>
+                <th className="py-2 pr-4 font-medium">Recruiters</th>
+                <th className="py-2 pr-4 font-medium">Duration (min)</th>
+                <th className="py-2 pr-4 font-medium">Buffer (min)</th>
+                <th className="py-2 pr-4 font-medium">Capacity</th>
+                <th className="py-2 pr-4 font-medium">Max slots / session</th>
+                <th className="py-2 font-medium"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.company_id} className="border-b border-border last:border-0">
+                  <td className="py-2 pr-4 font-medium text-foreground">
+                    {row.company_name}
+                    {row.has_override && (
+                      <span className="ml-2 px-2 py-0.5 bg-primary/10 text-primary text-xs rounded-full">Custom</span>
+                    )}
+                  </td>
+                  <td className="py-2 pr-4">
+                    <input
+                      type="number"
+                      min="1"
+                      value={row.num_recruiters}
+                      onChange={(e) => updateRow(row.company_id, { num_recruiters: parseInt(e.target.value) || 1 })}
+                      className={cellInputClass}
+                    />
+                  </td>
+                  {OVERRIDE_FIELDS.map((field) => (
+                    <td key={field} className="py-2 pr-4">
+                      <input
+                        type="number"
+                        min={field === 'buffer_minutes' ? 0 : 1}
+                        value={row[field]}
+                        onChange={(e) => updateRow(row.company_id, { [field]: e.target.value })}
+                        placeholder="Session"
+                        className={cellInputClass}
+                      />
+                    </td>
+                  ))}
+                  <td className="py-2">
+                    <div className="flex gap-2 justify-end">
+                      <button
+                        onClick={() => handleSave(row)}
+                        disabled={busyCompanyId === row.company_id}
+                        className="p-2 text-primary hover:bg-primary/10 rounded-lg transition disabled:opacity-50"
+                        title="Save settings"
+                      >
+                        <Save className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleRegenerate(row)}
+                        disabled={busyCompanyId === row.company_id}
+                        className="p-2 text-primary hover:bg-primary/10 rounded-lg transition disabled:opacity-50"
+                        title="Regenerate this company's slots"
+                      >
+                        <RefreshCw className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
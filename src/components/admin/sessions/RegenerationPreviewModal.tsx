@@ -0,0 +1,260 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/lib/supabase';
+import { X, AlertTriangle, ArrowRight, CheckCircle } from 'lucide-react';
+
+type PreviewRow = {
+  company_id: string;
+  company_name: string;
+  old_slot_id: string;
+  old_start_time: string;
+  old_end_time: string;
+  booking_id: string | null;
+  student_id: string | null;
+  student_name: string | null;
+  new_start_time: string | null;
+  new_end_time: string | null;
+  outcome: string;
+};
+
+type Resolution = 'keep' | 'cancel';
+
+type RegenerationPreviewModalProps = {
+  sessionId: string;
+  sessionName: string;
+  onClose: () => void;
+  onApplied: () => void;
+};
+
+const formatSlotTime = (value: string) =>
+  new Date(value).toLocaleString('en-US', { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * RegenerationPreviewModal - Dry run before regenerating a session's slots
+ *
+ * Lists the slots that would disappear, where each of their confirmed
+ * bookings would be moved (closest new slot of the same company) and the
+ * bookings that cannot be placed. Those need a decision (keep the old slot
+ * or cancel the booking) before the regeneration can be committed.
+ *
+ * @component
+ *
+ * @example
+ * <RegenerationPreviewModal
+ *   sessionId={session.id}
+ *   sessionName={session.name}
+ *   onClose={() => setPreviewSession(null)}
+ *   onApplied={loadData}
+ * />
+ */
+export default function RegenerationPreviewModal({
+  sessionId,
+  sessionName,
+  onClose,
+  onApplied
+}: RegenerationPreviewModalProps) {
+  const [rows, setRows] = useState<PreviewRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, Resolution>>({});
+
+  useEffect(() => {
+    loadPreview();
+  }, [sessionId]);
+
+  const loadPreview = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const { data, error: previewError } = await supabase.rpc('fn_preview_session_regeneration', {
+        p_session_id: sessionId
+      });
+
+      if (previewError) throw previewError;
+      setRows(data || []);
+      setResolutions({});
+    } catch (err: any) {
+      console.error('Error previewing regeneration:', err);
+      setError(err?.message || 'Failed to preview regeneration');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const removedSlots = rows.filter((r) => r.outcome === 'removed');
+  const moved = rows.filter((r) => r.outcome === 'moved');
+  const unplaced = rows.filter((r) => r.outcome === 'unplaced');
+  const unresolvedCount = unplaced.filter((r) => r.booking_id && !resolutions[r.booking_id]).length;
+  const affectedSlotCount = new Set(rows.map((r) => r.old_slot_id)).size;
+
+  const handleApply = async () => {
+    try {
+      setApplying(true);
+      const { data, error: applyError } = await supabase.rpc('fn_apply_session_regeneration', {
+        p_session_id: sessionId,
+        p_resolutions: resolutions
+      });
+
+      if (applyError) throw applyError;
+
+      const result = data?.[0];
+      if (!result?.success) {
+        alert(`❌ ${result?.message || 'Regeneration failed'}`);
+        // The schedule may have changed since the preview
+        await loadPreview();
+        return;
+      }
+
+      alert(`✅ Slot regeneration complete!\n\n${result.message}`);
+      onApplied();
+      onClose();
+    } catch (err: any) {
+      console.error('Error regenerating slots:', err);
+      alert('❌ Error regenerating slots: ' + err?.message);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-card rounded-xl border border-border max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-border">
+          <div>
+            <h2 className="text-xl font-semibold text-foreground">Regenerate Slots</h2>
+            <p className="text-sm text-muted-foreground mt-1">{sessionName}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6">
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Calculating impact...</p>
+          ) : error ? (
+            <p className="text-sm text-destructive">{error}</p>
+          ) : (
+            <>
+              {affectedSlotCount === 0 ? (
+                <div className="flex items-center gap-2 p-4 bg-muted/50 rounded-lg text-sm text-foreground">
+                  <CheckCircle className="w-5 h-5 text-primary" />
+                  No existing slot disappears. Regenerating only adds or updates slots to match the current settings.
+                </div>
+              ) : (
+                <div className="grid grid-cols-3 gap-4 text-center">
+                  <div className="p-4 bg-muted/50 rounded-lg">
+                    <p className="text-2xl font-bold text-foreground">{affectedSlotCount}</p>
+                    <p className="text-xs text-muted-foreground">slots disappear</p>
+                  </div>
+                  <div className="p-4 bg-muted/50 rounded-lg">
+                    <p className="text-2xl font-bold text-foreground">{moved.length}</p>
+                    <p className="text-xs text-muted-foreground">bookings moved</p>
+                  </div>
+                  <div className={`p-4 rounded-lg ${unplaced.length > 0 ? 'bg-destructive/10' : 'bg-muted/50'}`}>
+                    <p className={`text-2xl font-bold ${unplaced.length > 0 ? 'text-destructive' : 'text-foreground'}`}>{unplaced.length}</p>
+                    <p className="text-xs text-muted-foreground">need a decision</p>
+                  </div>
+                </div>
+              )}
+
+              {unplaced.length > 0 && (
+                <div>
+                  <h3 className="font-medium text-foreground mb-2 flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4 text-destructive" />
+                    Bookings that cannot be placed
+                  </h3>
+                  <p className="text-sm text-muted-foreground mb-3">
+                    No free slot of the same company fits these students. Keep their current slot or cancel the booking (the student is notified).
+                  </p>
+                  <div className="space-y-2">
+                    {unplaced.map((row) => (
+                      <div key={row.booking_id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 border border-border rounded-lg p-3 text-sm">
+                        <div>
+                          <p className="font-medium text-foreground">{row.student_name}</p>
+                          <p className="text-muted-foreground">{row.company_name} · {formatSlotTime(row.old_start_time)}</p>
+                        </div>
+                        <select
+                          value={(row.booking_id && resolutions[row.booking_id]) || ''}
+                          onChange={(e) => row.booking_id && setResolutions({
+                            ...resolutions,
+                            [row.booking_id]: e.target.value as Resolution
+                          })}
+                          className="px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary"
+                        >
+                          <option value="">Choose...</option>
+                          <option value="keep">Keep current slot</option>
+                          <option value="cancel">Cancel booking</option>
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {moved.length > 0 && (
+                <div>
+                  <h3 className="font-medium text-foreground mb-2">Bookings moved automatically</h3>
+                  <div className="border border-border rounded-lg divide-y divide-border text-sm">
+                    {moved.map((row) => (
+                      <div key={row.booking_id} className="flex flex-wrap items-center justify-between gap-2 p-3">
+                        <div>
+                          <p className="font-medium text-foreground">{row.student_name}</p>
+                          <p className="text-muted-foreground">{row.company_name}</p>
+                        </div>
+                        <div className="flex items-center gap-2 text-foreground">
+                          <span>{formatSlotTime(row.old_start_time)}</span>
+                          <ArrowRight className="w-4 h-4 text-muted-foreground" />
+                          <span className="font-medium">{row.new_start_time && formatSlotTime(row.new_start_time)}</span>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {removedSlots.length > 0 && (
+                <div>
+                  <h3 className="font-medium text-foreground mb-2">Empty slots removed ({removedSlots.length})</h3>
+                  <div className="flex flex-wrap gap-2">
+                    {removedSlots.map((row) => (
+                      <span key={row.old_slot_id} className="px-2 py-1 bg-muted text-muted-foreground text-xs rounded-full">
+                        {row.company_name} · {formatSlotTime(row.old_start_time)}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex flex-col sm:flex-row justify-end gap-3 p-6 border-t border-border">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 border border-border rounded-lg hover:bg-muted transition"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={loading || applying || !!error || unresolvedCount > 0}
+            className="px-6 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition disabled:opacity-50"
+          >
+            {applying
+              ? 'Regenerating...'
+              : unresolvedCount > 0
+                ? `Resolve ${unresolvedCount} booking(s) first`
+                : 'Regenerate Slots'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,627 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/lib/supabase';
+import { LayoutTemplate, Plus, Trash2, Edit, X } from 'lucide-react';
+
+export type TemplateBreak = {
+  label: string;
+  start_time: string;
+  end_time: string;
+};
+
+export type TemplateSession = {
+  name: string;
+  day_offset: number;
+  start_time: string;
+  end_time: string;
+  max_slots_per_company: number | null;
+  breaks: TemplateBreak[];
+};
+
+type SlotTemplate = {
+  id: string;
+  name: string;
+  description: string | null;
+  interview_duration_minutes: number;
+  buffer_minutes: number;
+  capacity: number;
+  scale_capacity_by_recruiters: boolean;
+  sessions: TemplateSession[];
+};
+
+type TemplateForm = Omit<SlotTemplate, 'id'>;
+
+const EMPTY_SESSION: TemplateSession = {
+  name: '',
+  day_offset: 0,
+  start_time: '09:00',
+  end_time: '12:00',
+  max_slots_per_company: null,
+  breaks: []
+};
+
+const EMPTY_FORM: TemplateForm = {
+  name: '',
+  description: '',
+  interview_duration_minutes: 10,
+  buffer_minutes: 5,
+  capacity: 2,
+  scale_capacity_by_recruiters: true,
+  sessions: [{ ...EMPTY_SESSION, name: 'Morning Session' }]
+};
+
+const inputClass = 'w-full px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary';
+const smallInputClass = 'w-full px-2 py-1.5 text-sm bg-background border border-border rounded-md focus:ring-2 focus:ring-primary';
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * SlotTemplatesPanel - Reusable interview schedules for an event
+ *
+ * Lists the slot templates, lets admins create and edit them (sessions,
+ * breaks, slot length, buffer, capacity) and applies one to the event on a
+ * chosen day. Applying replaces the event's sessions and generates slots for
+ * every participating company. Times are entered in the event's timezone.
+ *
+ * @component
+ * @param eventId - Event the template is applied to
+ * @param eventDate - Default day for the first template session
+ * @param eventTimezone - Timezone the template times are applied in
+ * @param onApplied - Called after sessions were replaced
+ *
+ * @example
+ * <SlotTemplatesPanel eventId={eventId} eventDate={event.date} eventTimezone={event.timezone} onApplied={loadData} />
+ */
+export default function SlotTemplatesPanel({
+  eventId,
+  eventDate,
+  eventTimezone,
+  onApplied
+}: {
+  eventId: string;
+  eventDate: string;
+  eventTimezone: string;
+  onApplied: () => void;
+}) {
+  const [templates, setTemplates] = useState<SlotTemplate[]>([]);
+  const [expanded, setExpanded] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<TemplateForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [selectedTemplateId, setSelectedTemplateId] = useState('');
+  const [applyDate, setApplyDate] = useState(eventDate.substring(0, 10));
+
+  const timezone = eventTimezone;
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  useEffect(() => {
+    setApplyDate(eventDate.substring(0, 10));
+  }, [eventDate]);
+
+  const loadTemplates = async () => {
+    const { data, error } = await supabase
+      .from('slot_templates')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error loading slot templates:', error);
+      return;
+    }
+
+    const list = (data || []).map((t) => ({
+      ...t,
+      sessions: (t.sessions as unknown as TemplateSession[]) || []
+    }));
+    setTemplates(list);
+    if (!selectedTemplateId && list.length > 0) {
+      setSelectedTemplateId(list[0].id);
+    }
+  };
+
+  const countSlots = (template: TemplateForm, session: TemplateSession) => {
+    const step = template.interview_duration_minutes + template.buffer_minutes;
+    let current = toMinutes(session.start_time);
+    const end = toMinutes(session.end_time);
+    let count = 0;
+    while (current + template.interview_duration_minutes <= end) {
+      if (session.max_slots_per_company && count >= session.max_slots_per_company) break;
+      const slotEnd = current + template.interview_duration_minutes;
+      const overlapping = session.breaks.filter(
+        (b) => toMinutes(b.start_time) < slotEnd && toMinutes(b.end_time) > current
+      );
+      if (overlapping.length > 0) {
+        current = Math.max(...overlapping.map((b) => toMinutes(b.end_time)));
+        continue;
+      }
+      count++;
+      current += step;
+    }
+    return count;
+  };
+
+  const startCreate = () => {
+    setEditingId(null);
+    setForm({ ...EMPTY_FORM, sessions: EMPTY_FORM.sessions.map((s) => ({ ...s, breaks: [] })) });
+  };
+
+  const startEdit = (template: SlotTemplate) => {
+    const { id, ...rest } = template;
+    setEditingId(id);
+    setForm({ ...rest, description: rest.description || '' });
+  };
+
+  const updateSession = (index: number, changes: Partial<TemplateSession>) => {
+    if (!form) return;
+    setForm({
+      ...form,
+      sessions: form.sessions.map((s, i) => (i === index ? { ...s, ...changes } : s))
+    });
+  };
+
+  const updateBreak = (sessionIndex: number, breakIndex: number, changes: Partial<TemplateBreak>) => {
+    if (!form) return;
+    const session = form.sessions[sessionIndex];
+    updateSession(sessionIndex, {
+      breaks: session.breaks.map((b, i) => (i === breakIndex ? { ...b, ...changes } : b))
+    });
+  };
+
+  const validate = (template: TemplateForm): string | null => {
+    if (!template.name.trim()) return 'Template name is required';
+    if (template.interview_duration_minutes < 1) return 'Interview duration must be at least 1 minute';
+    if (template.capacity < 1) return 'Capacity must be at least 1';
+    if (template.sessions.length === 0) return 'Add at least one session';
+    for (const session of template.sessions) {
+      const label = session.name || 'Unnamed session';
+      if (!session.name.trim()) return 'Every session needs a name';
+      if (toMinutes(session.start_time) >= toMinutes(session.end_time)) {
+        return `${label}: start time must be before end time`;
+      }
+      for (const b of session.breaks) {
+        if (toMinutes(b.start_time) >= toMinutes(b.end_time)) {
+          return `${label}: break start must be before break end`;
+        }
+        if (toMinutes(b.start_time) < toMinutes(session.start_time) || toMinutes(b.end_time) > toMinutes(session.end_time)) {
+          return `${label}: breaks must be inside the session`;
+        }
+      }
+    }
+    return null;
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    const validationError = validate(form);
+    if (validationError) {
+      alert(validationError);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const payload = {
+        name: form.name.trim(),
+        description: form.description?.trim() || null,
+        interview_duration_minutes: form.interview_duration_minutes,
+        buffer_minutes: form.buffer_minutes,
+        capacity: form.capacity,
+        scale_capacity_by_recruiters: form.scale_capacity_by_recruiters,
+        sessions: form.sessions
+      };
+
+      if (editingId) {
+        const { error } = await supabase
+          .from('slot_templates')
+          .update(payload)
+          .eq('id', editingId);
+        if (error) throw error;
+      } else {
+        const { data: { user } } = await supabase.auth.getUser();
+        const { error } = await supabase
+          .from('slot_templates')
+          .insert({ ...payload, created_by: user?.id ?? null });
+        if (error) throw error;
+      }
+
+      setForm(null);
+      setEditingId(null);
+      await loadTemplates();
+    } catch (err: any) {
+      console.error('Error saving template:', err);
+      alert(`Error saving template: ${err?.message || 'Unknown error occurred'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: SlotTemplate) => {
+    if (!confirm(`Delete template "${template.name}"? Sessions already created from it are kept.`)) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from('slot_templates')
+      .delete()
+      .eq('id', template.id);
+
+    if (error) {
+      console.error('Error deleting template:', error);
+      alert('Error deleting template');
+      return;
+    }
+
+    if (selectedTemplateId === template.id) setSelectedTemplateId('');
+    await loadTemplates();
+  };
+
+  const handleApply = async () => {
+    const template = templates.find((t) => t.id === selectedTemplateId);
+    if (!template || !applyDate) {
+      alert('Select a template and a date');
+      return;
+    }
+
+    if (!confirm(`Apply "${template.name}" on ${applyDate}?\n\nThis will:\n✓ Delete the existing sessions and their slots\n✓ Create ${template.sessions.length} session(s) from the template\n✓ Generate slots for every participating company\n\nTimes are interpreted in ${timezone}.`)) {
+      return;
+    }
+
+    try {
+      setApplying(true);
+      const { data, error } = await supabase.rpc('fn_apply_slot_template', {
+        p_event_id: eventId,
+        p_template_id: template.id,
+        p_date: applyDate,
+        p_timezone: timezone
+      });
+
+      if (error) throw error;
+
+      const result = data?.[0];
+      if (!result?.success) {
+        alert(`❌ ${result?.message || 'Template could not be applied'}`);
+        return;
+      }
+
+      alert(`✅ ${result.message}`);
+      onApplied();
+    } catch (err: any) {
+      console.error('Error applying template:', err);
+      alert('❌ Error applying template: ' + err?.message);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className="bg-gradient-to-r from-primary/10 to-primary/5 rounded-xl border-2 border-primary/20 p-6 mb-8">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-foreground flex items-center gap-2">
+            <LayoutTemplate className="w-5 h-5" />
+            Slot Templates
+          </h2>
+          <p className="text-sm text-muted-foreground mt-1">
+            Build the interview schedule from a reusable template: sessions, breaks, slot length, buffer and capacity
+          </p>
+        </div>
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition w-full sm:w-auto"
+        >
+          {expanded ? 'Hide Templates' : 'Use a Template'}
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="mt-6 space-y-6">
+          {/* Apply */}
+          <div className="bg-card rounded-lg border border-border p-4">
+            <h3 className="font-semibold text-foreground mb-3">Apply to this event</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div>
+                <label className="block text-sm font-medium text-foreground mb-1">Template</label>
+                <select
+                  value={selectedTemplateId}
+                  onChange={(e) => setSelectedTemplateId(e.target.value)}
+                  className={inputClass}
+                >
+                  <option value="">Select a template</option>
+                  {templates.map((t) => (
+                    <option key={t.id} value={t.id}>{t.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-foreground mb-1">Day</label>
+                <input
+                  type="date"
+                  value={applyDate}
+                  onChange={(e) => setApplyDate(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <button
+                onClick={handleApply}
+                disabled={applying || !selectedTemplateId}
+                className="px-6 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition disabled:opacity-50"
+              >
+                {applying ? 'Applying...' : 'Apply Template'}
+              </button>
+            </div>
+            <p className="text-xs text-muted-foreground mt-2">
+              Replaces all sessions of this event. Refused while students hold confirmed bookings. Times use {timezone}.
+            </p>
+          </div>
+
+          {/* List */}
+          <div className="bg-card rounded-lg border border-border p-4">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="font-semibold text-foreground">Templates ({templates.length})</h3>
+              {!form && (
+                <button
+                  onClick={startCreate}
+                  className="flex items-center gap-1 px-3 py-1.5 text-sm border border-border rounded-lg hover:bg-muted transition"
+                >
+                  <Plus className="w-4 h-4" />
+                  New Template
+                </button>
+              )}
+            </div>
+
+            {templates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No templates yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {templates.map((t) => (
+                  <div key={t.id} className="flex items-start justify-between border border-border rounded-lg p-3">
+                    <div>
+                      <p className="font-medium text-foreground">{t.name}</p>
+                      {t.description && <p className="text-sm text-muted-foreground">{t.description}</p>}
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {t.sessions.length} session(s) · {t.interview_duration_minutes} min + {t.buffer_minutes} min buffer ·{' '}
+                        {t.capacity} students/slot{t.scale_capacity_by_recruiters ? ' per recruiter' : ''} ·{' '}
+                        {t.sessions.reduce((sum, s) => sum + countSlots(t, s), 0)} slots per company
+                      </p>
+                    </div>
+                    <div className="flex gap-2 ml-4">
+                      <button
+                        onClick={() => startEdit(t)}
+                        className="p-2 text-primary hover:bg-primary/10 rounded-lg transition"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(t)}
+                        className="p-2 text-destructive hover:bg-destructive/10 rounded-lg transition"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Editor */}
+          {form && (
+            <div className="bg-card rounded-lg border border-border p-4">
+              <h3 className="font-semibold text-foreground mb-4">
+                {editingId ? 'Edit Template' : 'New Template'}
+              </h3>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-1">Name *</label>
+                  <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="e.g., Two-day fair"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-1">Description</label>
+                  <input
+                    type="text"
+                    value={form.description || ''}
+                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-1">Interview Duration (minutes) *</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={form.interview_duration_minutes}
+                    onChange={(e) => setForm({ ...form, interview_duration_minutes: parseInt(e.target.value) || 1 })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-1">Buffer Time (minutes)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={form.buffer_minutes}
+                    onChange={(e) => setForm({ ...form, buffer_minutes: parseInt(e.target.value) || 0 })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-1">Capacity (students per slot) *</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={form.capacity}
+                    onChange={(e) => setForm({ ...form, capacity: parseInt(e.target.value) || 1 })}
+                    className={inputClass}
+                  />
+                </div>
+                <div className="flex items-center">
+                  <label className="flex items-center gap-2 text-sm text-foreground">
+                    <input
+                      type="checkbox"
+                      checked={form.scale_capacity_by_recruiters}
+                      onChange={(e) => setForm({ ...form, scale_capacity_by_recruiters: e.target.checked })}
+                    />
+                    Multiply capacity by the company's number of recruiters
+                  </label>
+                </div>
+              </div>
+
+              <div className="mt-6 space-y-4">
+                {form.sessions.map((session, index) => (
+                  <div key={index} className="border border-border rounded-lg p-4">
+                    <div className="flex items-center justify-between mb-3">
+                      <h4 className="font-medium text-foreground">
+                        Session {index + 1}
+                        <span className="ml-2 text-xs text-muted-foreground">
+                          {countSlots(form, session)} slots per company
+                        </span>
+                      </h4>
+                      <button
+                        onClick={() => setForm({ ...form, sessions: form.sessions.filter((_, i) => i !== index) })}
+                        className="p-1 text-destructive hover:bg-destructive/10 rounded transition"
+                        title="Remove session"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                      <div className="col-span-2 md:col-span-1">
+                        <label className="block text-xs text-muted-foreground mb-1">Name</label>
+                        <input
+                          type="text"
+                          value={session.name}
+                          onChange={(e) => updateSession(index, { name: e.target.value })}
+                          className={smallInputClass}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs text-muted-foreground mb-1">Day (0 = first day)</label>
+                        <input
+                          type="number"
+                          min="0"
+                          value={session.day_offset}
+                          onChange={(e) => updateSession(index, { day_offset: parseInt(e.target.value) || 0 })}
+                          className={smallInputClass}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs text-muted-foreground mb-1">Start</label>
+                        <input
+                          type="time"
+                          value={session.start_time}
+                          onChange={(e) => updateSession(index, { start_time: e.target.value })}
+                          className={smallInputClass}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs text-muted-foreground mb-1">End</label>
+                        <input
+                          type="time"
+                          value={session.end_time}
+                          onChange={(e) => updateSession(index, { end_time: e.target.value })}
+                          className={smallInputClass}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs text-muted-foreground mb-1">Max slots / company</label>
+                        <input
+                          type="number"
+                          min="1"
+                          value={session.max_slots_per_company ?? ''}
+                          onChange={(e) => updateSession(index, { max_slots_per_company: e.target.value ? parseInt(e.target.value) : null })}
+                          placeholder="Fill session"
+                          className={smallInputClass}
+                        />
+                      </div>
+                    </div>
+
+                    <div className="mt-3 space-y-2">
+                      {session.breaks.map((b, breakIndex) => (
+                        <div key={breakIndex} className="grid grid-cols-[1fr_auto_auto_auto] gap-2 items-center">
+                          <input
+                            type="text"
+                            value={b.label}
+                            onChange={(e) => updateBreak(index, breakIndex, { label: e.target.value })}
+                            placeholder="Break"
+                            className={smallInputClass}
+                          />
+                          <input
+                            type="time"
+                            value={b.start_time}
+                            onChange={(e) => updateBreak(index, breakIndex, { start_time: e.target.value })}
+                            className={smallInputClass}
+                          />
+                          <input
+                            type="time"
+                            value={b.end_time}
+                            onChange={(e) => updateBreak(index, breakIndex, { end_time: e.target.value })}
+                            className={smallInputClass}
+                          />
+                          <button
+                            onClick={() => updateSession(index, { breaks: session.breaks.filter((_, i) => i !== breakIndex) })}
+                            className="p-1 text-destructive hover:bg-destructive/10 rounded transition"
+                            title="Remove break"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                      ))}
+                      <button
+                        onClick={() => updateSession(index, {
+                          breaks: [...session.breaks, { label: 'Break', start_time: session.start_time, end_time: session.start_time }]
+                        })}
+                        className="text-sm text-primary hover:underline"
+                      >
+                        + Add break
+                      </button>
+                    </div>
+                  </div>
+                ))}
+
+                <button
+                  onClick={() => setForm({
+                    ...form,
+                    sessions: [...form.sessions, { ...EMPTY_SESSION, name: `Session ${form.sessions.length + 1}`, breaks: [] }]
+                  })}
+                  className="flex items-center gap-1 px-3 py-1.5 text-sm border border-border rounded-lg hover:bg-muted transition"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add Session
+                </button>
+              </div>
+
+              <div className="mt-6 flex justify-end gap-3">
+                <button
+                  onClick={() => { setForm(null); setEditingId(null); }}
+                  className="px-6 py-2 border border-border rounded-lg hover:bg-muted transition"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="px-6 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Save Template'}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import jsQR from 'jsqr';
+import { supabase } from '@/lib/supabase';
+import { X, Camera, CameraOff, CheckCircle2, AlertCircle } from 'lucide-react';
+
+type CheckInResult = {
+  success: boolean;
+  message: string;
+  at: Date;
+};
+
+type CheckInScannerProps = {
+  eventId: string;
+  eventName: string;
+  onClose: () => void;
+  onCheckedIn: (bookingId: string) => void;
+};
+
+// Same QR read twice within this window is ignored
+const RESCAN_DELAY_MS = 4000;
+
+/**
+ * CheckInScanner - Recruiter check-in for event day
+ *
+ * Scans a student's check-in QR code with the device camera or accepts the
+ * short code typed by hand, then marks the student's interview with the
+ * company as attended through fn_check_in_student.
+ *
+ * @component
+ *
+ * @example
+ * <CheckInScanner
+ *   eventId={eventId}
+ *   eventName={eventName}
+ *   onClose={() => setScannerEvent(null)}
+ *   onCheckedIn={(bookingId) => markAttendedLocally(bookingId, true)}
+ * />
+ */
+export default function CheckInScanner({ eventId, eventName, onClose, onCheckedIn }: CheckInScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const busyRef = useRef(false);
+  const lastScanRef = useRef<{ code: string; at: number } | null>(null);
+
+  const [cameraOn, setCameraOn] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [shortCode, setShortCode] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [results, setResults] = useState<CheckInResult[]>([]);
+
+  const submitCode = useCallback(async (code: string) => {
+    if (busyRef.current) return;
+    busyRef.current = true;
+    setSubmitting(true);
+
+    try {
+      const { data, error } = await supabase.rpc('fn_check_in_student', {
+        p_event_id: eventId,
+        p_code: code
+      });
+
+      if (error) throw error;
+
+      const result = data?.[0];
+      setResults((prev) => [
+        { success: !!result?.success, message: result?.message || 'Check-in failed', at: new Date() },
+        ...prev
+      ].slice(0, 10));
+
+      if (result?.success && result.booking_id && !result.already_checked_in) {
+        onCheckedIn(result.booking_id);
+      }
+    } catch (err: any) {
+      console.error('Error checking in student:', err);
+      setResults((prev) => [
+        { success: false, message: err?.message || 'Check-in failed', at: new Date() },
+        ...prev
+      ].slice(0, 10));
+    } finally {
+      busyRef.current = false;
+      setSubmitting(false);
+    }
+  }, [eventId, onCheckedIn]);
+
+  const stopCamera = useCallback(() => {
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    }
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    setCameraOn(false);
+  }, []);
+
+  const scanFrame = useCallback(() => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+
+    if (video && canvas && video.readyState === video.HAVE_ENOUGH_DATA) {
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      const context = canvas.getContext('2d', { willReadFrequently: true });
+
+      if (context) {
+        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+        const image = context.getImageData(0, 0, canvas.width, canvas.height);
+        const qr = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+
+        if (qr?.data) {
+          const now = Date.now();
+          const last = lastScanRef.current;
+          if (!last || last.code !== qr.data || now - last.at > RESCAN_DELAY_MS) {
+            lastScanRef.current = { code: qr.data, at: now };
+            submitCode(qr.data);
+          }
+        }
+      }
+    }
+
+    frameRef.current = requestAnimationFrame(scanFrame);
+  }, [submitCode]);
+
+  const startCamera = async () => {
+    setCameraError(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: 'environment' }
+      });
+      streamRef.current = stream;
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+      }
+      setCameraOn(true);
+      frameRef.current = requestAnimationFrame(scanFrame);
+    } catch (err) {
+      console.error('Camera error:', err);
+      setCameraError('Camera unavailable. Allow camera access or type the short code below.');
+      stopCamera();
+    }
+  };
+
+  useEffect(() => stopCamera, [stopCamera]);
+
+  const handleShortCodeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!shortCode.trim()) return;
+    await submitCode(shortCode);
+    setShortCode('');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">Check in students</h2>
+            <p className="text-sm text-gray-600">{eventName}</p>
+          </div>
+          <button
+            onClick={() => { stopCamera(); onClose(); }}
+            className="text-gray-500 hover:text-gray-900 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div>
+            <div className={`relative bg-gray-900 rounded-lg overflow-hidden aspect-square ${cameraOn ? '' : 'hidden'}`}>
+              <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+              <div className="absolute inset-12 border-4 border-white/70 rounded-lg pointer-events-none" />
+            </div>
+            <canvas ref={canvasRef} className="hidden" />
+
+            {cameraOn ? (
+              <button
+                onClick={stopCamera}
+                className="mt-3 w-full flex items-center justify-center gap-2 px-4 py-2.5 border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+              >
+                <CameraOff className="w-4 h-4" />
+                Stop camera
+              </button>
+            ) : (
+              <button
+                onClick={startCamera}
+                className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-[#007e40] text-white rounded-lg hover:bg-[#006633] transition-colors font-medium"
+              >
+                <Camera className="w-5 h-5" />
+                Scan QR code
+              </button>
+            )}
+            {cameraError && <p className="mt-2 text-sm text-red-600">{cameraError}</p>}
+          </div>
+
+          <form onSubmit={handleShortCodeSubmit}>
+            <label className="block text-sm font-medium text-gray-900 mb-2">Or type the short code</label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={shortCode}
+                onChange={(e) => setShortCode(e.target.value.toUpperCase())}
+                placeholder="e.g. K7M2QX"
+                maxLength={12}
+                autoCapitalize="characters"
+                className="flex-1 px-4 py-2 font-mono tracking-widest border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#007e40] focus:border-transparent"
+              />
+              <button
+                type="submit"
+                disabled={submitting || !shortCode.trim()}
+                className="px-4 py-2 bg-[#1a1f3a] text-white rounded-lg hover:bg-[#1a1f3a]/90 transition-colors font-medium disabled:opacity-50"
+              >
+                {submitting ? 'Checking...' : 'Check in'}
+              </button>
+            </div>
+          </form>
+
+          {results.length > 0 && (
+            <div className="space-y-2">
+              {results.map((result, index) => (
+                <div
+                  key={`${result.at.getTime()}-${index}`}
+                  className={`flex items-start gap-2 p-3 rounded-lg text-sm ${
+                    result.success ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+                  } ${index > 0 ? 'opacity-60' : ''}`}
+                >
+                  {result.success
+                    ? <CheckCircle2 className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    : <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />}
+                  <span className="flex-1">{result.message}</span>
+                  <span className="text-xs opacity-70">
+                    {result.at.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { ReactNode } from 'react';
 import CompanySidebar from './CompanySidebar';
+import AnnouncementBanner from '@/components/shared/AnnouncementBanner';
 
 interface CompanyLayoutProps {
   children: ReactNode;
@@ -10,6 +11,7 @@ export default function CompanyLayout({ children, onSignOut }: CompanyLayoutProp
   return (
     <div className="min-h-screen bg-background">
       <CompanySidebar onSignOut={onSignOut} />
+      <AnnouncementBanner />
       <main className="w-full">
         {children}
       </main>
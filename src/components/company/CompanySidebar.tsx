@@ -1,5 +1,6 @@
 import { Link, useLocation } from 'react-router-dom';
 import { useEffect, useState } from 'react';
+import NotificationBell from '@/components/shared/NotificationBell';
 import { 
   LayoutDashboard, 
   Briefcase, 
@@ -113,8 +114,12 @@ export default function CompanySidebar({ onSignOut }: CompanySidebarProps) {
               })}
             </div>
 
-            {/* Desktop Sign Out Button */}
-            <div className="hidden lg:block">
+            {/* Desktop Notifications and Sign Out */}
+            <div className="hidden lg:flex items-center gap-3">
+              <NotificationBell
+                notificationsPath="/company/notifications"
+                buttonClassName={isScrolled ? 'text-gray-900 hover:bg-gray-100' : 'text-white hover:bg-white/10'}
+              />
               <button
                 onClick={onSignOut}
                 className="bg-[#007e40] text-white px-6 py-2.5 rounded-lg hover:bg-[#006633] transition-all duration-200 font-semibold shadow-lg hover:shadow-xl hover:scale-105"
@@ -125,6 +130,10 @@ export default function CompanySidebar({ onSignOut }: CompanySidebarProps) {
 
             {/* Mobile Menu Button */}
             <div className="lg:hidden flex items-center gap-3">
+              <NotificationBell
+                notificationsPath="/company/notifications"
+                buttonClassName={isScrolled ? 'text-gray-900 hover:bg-gray-100' : 'text-white hover:bg-white/10'}
+              />
               <button
                 onClick={onSignOut}
                 className={`px-4 py-2 rounded-lg transition-all duration-200 font-semibold text-sm ${
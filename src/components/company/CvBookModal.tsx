@@ -0,0 +1,172 @@
+import { useEffect, useState } from 'react';
+import { Download, ShieldCheck, X } from 'lucide-react';
+import { useToast } from '@/contexts/ToastContext';
+import { error as logError } from '@/utils/logger';
+import { formatDate } from '@/utils/dateUtils';
+import type { PipelineEvent } from '@/utils/pipeline';
+import {
+  buildCvBook,
+  downloadCvBook,
+  getCvBookEntries,
+  getCvBookFilterOptions,
+  type CvBookFilterOption
+} from '@/utils/cvBook';
+
+type CvBookModalProps = {
+  companyId: string;
+  events: PipelineEvent[];
+  initialEventId?: string;
+  onClose: () => void;
+};
+
+/**
+ * CvBookModal - Download the CVs of an event's interviewees at once
+ *
+ * Builds a ZIP with a cover page (photo, program, graduation year, interview
+ * time) and the resume of each student, optionally narrowed to one offer or
+ * session. Students who have not consented are left out and every CV
+ * included is logged.
+ *
+ * @component
+ * @param companyId - Company downloading the CV book
+ * @param events - Events the company took part in
+ * @param initialEventId - Event selected when the modal opens
+ * @param onClose - Called when the modal closes
+ *
+ * @example
+ * <CvBookModal companyId={companyId} events={events} initialEventId={eventId} onClose={close} />
+ */
+export default function CvBookModal({ companyId, events, initialEventId, onClose }: CvBookModalProps) {
+  const { showSuccess, showError } = useToast();
+  const [eventId, setEventId] = useState(initialEventId || events[0]?.id || '');
+  const [offerId, setOfferId] = useState('');
+  const [sessionId, setSessionId] = useState('');
+  const [offers, setOffers] = useState<CvBookFilterOption[]>([]);
+  const [sessions, setSessions] = useState<CvBookFilterOption[]>([]);
+  const [generating, setGenerating] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  useEffect(() => {
+    if (!eventId) return;
+    setSessionId('');
+    getCvBookFilterOptions(companyId, eventId)
+      .then((options) => {
+        setOffers(options.offers);
+        setSessions(options.sessions);
+      })
+      .catch((err) => logError('Error loading CV book filters:', err));
+  }, [companyId, eventId]);
+
+  const handleGenerate = async () => {
+    const event = events.find((e) => e.id === eventId);
+    if (!event) return;
+
+    try {
+      setGenerating(true);
+      const entries = await getCvBookEntries({
+        eventId,
+        offerId: offerId || undefined,
+        sessionId: sessionId || undefined,
+      });
+      if (entries.length === 0) {
+        showError('No consenting students match these filters');
+        return;
+      }
+
+      setProgress({ done: 0, total: entries.length });
+      const result = await buildCvBook(entries, event, (done) => setProgress({ done, total: entries.length }));
+      downloadCvBook(result.blob, `cv-book-${event.name.replace(/\s+/g, '-').toLowerCase()}.zip`);
+
+      showSuccess(
+        result.missingResumes.length > 0
+          ? `CV book of ${result.students} students downloaded. ${result.missingResumes.length} have no resume file.`
+          : `CV book of ${result.students} students downloaded`
+      );
+      onClose();
+    } catch (err) {
+      logError('Error generating CV book:', err);
+      showError('Failed to generate the CV book. Please try again.');
+    } finally {
+      setGenerating(false);
+      setProgress(null);
+    }
+  };
+
+  const selectClassName = 'w-full px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-[#007e40]';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl border border-gray-200 max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900">Download CV Book</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              A ZIP with a cover page and the resume of each student you interview, in interview order.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Event</label>
+            <select value={eventId} onChange={(e) => setEventId(e.target.value)} className={selectClassName}>
+              {events.map((event) => (
+                <option key={event.id} value={event.id}>
+                  {event.name} - {formatDate(event.date, { year: 'numeric', month: 'short', day: 'numeric' })}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Offer</label>
+            <select value={offerId} onChange={(e) => setOfferId(e.target.value)} className={selectClassName}>
+              <option value="">All offers</option>
+              {offers.map((offer) => (
+                <option key={offer.id} value={offer.id}>{offer.name}</option>
+              ))}
+            </select>
+          </div>
+          {sessions.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Session</label>
+              <select value={sessionId} onChange={(e) => setSessionId(e.target.value)} className={selectClassName}>
+                <option value="">All sessions</option>
+                {sessions.map((session) => (
+                  <option key={session.id} value={session.id}>{session.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div className="flex items-start gap-2 p-3 bg-gray-50 rounded-lg text-xs text-gray-600">
+            <ShieldCheck className="w-4 h-4 text-[#007e40] flex-shrink-0 mt-0.5" />
+            <p>
+              Only students who consented to sharing their data are included. Each CV in the book is
+              recorded in your company's CV access log.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end gap-3 p-6 border-t border-gray-200">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900">
+            Cancel
+          </button>
+          <button
+            onClick={handleGenerate}
+            disabled={!eventId || generating}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-[#007e40] hover:bg-[#006633] rounded-lg transition-colors disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            {progress
+              ? `Preparing ${progress.done}/${progress.total}...`
+              : generating
+                ? 'Loading...'
+                : 'Download ZIP'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Mail } from 'lucide-react';
+import { useToast } from '@/contexts/ToastContext';
+import EmptyState from '@/components/shared/EmptyState';
+import { error as logError } from '@/utils/logger';
+import { formatDateTime } from '@/utils/dateUtils';
+import {
+  INVITATION_STATUS_LABELS,
+  INVITATION_STATUS_STYLES,
+  cancelInterviewInvitation,
+  getInterviewInvitations,
+  type InterviewInvitation,
+  type InvitationStatus
+} from '@/utils/interviewInvitations';
+
+type InvitationsListProps = {
+  refreshKey?: number;
+};
+
+/**
+ * InvitationsList - Interview invitations sent by the company and their answers
+ *
+ * Shows who was invited, for which offer and slot, by whom, and whether the
+ * student accepted, declined or let the invitation expire. Open invitations
+ * can be withdrawn.
+ *
+ * @component
+ * @param refreshKey - Change to reload the list
+ *
+ * @example
+ * <InvitationsList refreshKey={invitationsRefreshKey} />
+ */
+export default function InvitationsList({ refreshKey = 0 }: InvitationsListProps) {
+  const { showSuccess, showError } = useToast();
+  const [invitations, setInvitations] = useState<InterviewInvitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<InvitationStatus | 'all'>('all');
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+
+  const loadInvitations = useCallback(async () => {
+    try {
+      setLoading(true);
+      setInvitations(await getInterviewInvitations());
+    } catch (err) {
+      logError('Error loading interview invitations:', err);
+      showError('Failed to load invitations');
+    } finally {
+      setLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    loadInvitations();
+  }, [loadInvitations, refreshKey]);
+
+  const counts = useMemo(() => {
+    const result: Record<InvitationStatus, number> = { sent: 0, accepted: 0, declined: 0, expired: 0, cancelled: 0 };
+    invitations.forEach((invitation) => {
+      result[invitation.status] += 1;
+    });
+    return result;
+  }, [invitations]);
+
+  const filtered = statusFilter === 'all' ? invitations : invitations.filter((i) => i.status === statusFilter);
+
+  const handleCancel = async (invitation: InterviewInvitation) => {
+    if (!confirm(`Withdraw the invitation sent to ${invitation.student_name}?`)) return;
+    try {
+      setCancellingId(invitation.id);
+      await cancelInterviewInvitation(invitation.id);
+      showSuccess('Invitation withdrawn');
+      await loadInvitations();
+    } catch (err: any) {
+      logError('Error withdrawing invitation:', err);
+      showError(err.message || 'Failed to withdraw the invitation');
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="w-8 h-8 border-2 border-[#007e40] border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (invitations.length === 0) {
+    return (
+      <EmptyState
+        icon={Mail}
+        title="No invitations sent yet"
+        message="Invite a student from the directory or the talent directory to offer them an interview slot."
+        className="bg-white rounded-lg border border-gray-200"
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {(['all', 'sent', 'accepted', 'declined', 'expired', 'cancelled'] as const).map((status) => (
+          <button
+            key={status}
+            onClick={() => setStatusFilter(status)}
+            className={`px-3 py-1.5 text-sm font-medium rounded-lg border transition-colors ${
+              statusFilter === status
+                ? 'bg-[#1a1f3a] text-white border-[#1a1f3a]'
+                : 'bg-white text-gray-700 border-gray-200 hover:border-[#007e40]'
+            }`}
+          >
+            {status === 'all' ? `All (${invitations.length})` : `${INVITATION_STATUS_LABELS[status]} (${counts[status]})`}
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Student</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Offer and slot</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Sent</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {filtered.map((invitation) => {
+                const event = { timezone: invitation.event_timezone };
+                return (
+                  <tr key={invitation.id} className="hover:bg-gray-50 transition-colors">
+                    <td className="px-4 py-4">
+                      <Link
+                        to={`/company/students/${invitation.student_id}`}
+                        className="font-medium text-gray-900 hover:text-[#007e40] transition-colors"
+                      >
+                        {invitation.student_name}
+                      </Link>
+                      <p className="text-xs text-gray-500 mt-0.5">{invitation.student_email}</p>
+                    </td>
+                    <td className="px-4 py-4">
+                      <p className="text-sm text-gray-900">{invitation.offer_title}</p>
+                      <p className="text-xs text-gray-500 mt-0.5">
+                        {invitation.event_name ? `${invitation.event_name} - ` : ''}
+                        {formatDateTime(invitation.start_time, event)}
+                      </p>
+                    </td>
+                    <td className="px-4 py-4">
+                      <p className="text-sm text-gray-900">{formatDateTime(invitation.created_at, event)}</p>
+                      {invitation.invited_by_name && (
+                        <p className="text-xs text-gray-500 mt-0.5">by {invitation.invited_by_name}</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-4">
+                      <span className={`text-xs font-medium px-2 py-1 rounded-full ${INVITATION_STATUS_STYLES[invitation.status]}`}>
+                        {INVITATION_STATUS_LABELS[invitation.status]}
+                      </span>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {invitation.status === 'sent'
+                          ? `Expires ${formatDateTime(invitation.expires_at, event)}`
+                          : invitation.responded_at
+                            ? formatDateTime(invitation.responded_at, event)
+                            : ''}
+                      </p>
+                    </td>
+                    <td className="px-4 py-4">
+                      {invitation.status === 'sent' && (
+                        <button
+                          onClick={() => handleCancel(invitation)}
+                          disabled={cancellingId === invitation.id}
+                          className="text-xs font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+                        >
+                          Withdraw
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
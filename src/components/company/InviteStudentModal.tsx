@@ -0,0 +1,193 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Send, X } from 'lucide-react';
+import { useToast } from '@/contexts/ToastContext';
+import { error as logError } from '@/utils/logger';
+import { formatDateTime } from '@/utils/dateUtils';
+import {
+  getInvitationOptions,
+  sendInterviewInvitation,
+  type InvitationOffer,
+  type InvitationSlot
+} from '@/utils/interviewInvitations';
+
+type InviteStudentModalProps = {
+  companyId: string;
+  student: { id: string; name: string };
+  onClose: () => void;
+  onSent?: () => void;
+};
+
+const EXPIRY_OPTIONS = [
+  { days: 1, label: '1 day' },
+  { days: 3, label: '3 days' },
+  { days: 7, label: '7 days' },
+];
+
+/**
+ * InviteStudentModal - Invite a student to interview in one of the company's slots
+ *
+ * Lists the company's active offers and the upcoming slots open to the chosen
+ * offer that still have a free seat. The student is notified and emailed, and
+ * can book the slot in one click until the invitation expires (at the latest
+ * when the slot starts).
+ *
+ * @component
+ * @param companyId - Company sending the invitation
+ * @param student - Invited student
+ * @param onClose - Called when the modal closes
+ * @param onSent - Called after the invitation was sent
+ *
+ * @example
+ * <InviteStudentModal companyId={companyId} student={{ id, name }} onClose={close} onSent={reload} />
+ */
+export default function InviteStudentModal({ companyId, student, onClose, onSent }: InviteStudentModalProps) {
+  const { showSuccess, showError } = useToast();
+  const [offers, setOffers] = useState<InvitationOffer[]>([]);
+  const [slots, setSlots] = useState<InvitationSlot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [offerId, setOfferId] = useState('');
+  const [slotId, setSlotId] = useState('');
+  const [expiryDays, setExpiryDays] = useState(3);
+  const [message, setMessage] = useState('');
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    getInvitationOptions(companyId)
+      .then((options) => {
+        setOffers(options.offers);
+        setSlots(options.slots);
+        setOfferId(options.offers[0]?.id || '');
+      })
+      .catch((err) => {
+        logError('Error loading invitation options:', err);
+        showError('Failed to load your offers and slots');
+      })
+      .finally(() => setLoading(false));
+  }, [companyId, showError]);
+
+  const offerSlots = useMemo(() => {
+    const offer = offers.find((o) => o.id === offerId);
+    if (!offer) return [];
+    return slots.filter(
+      (slot) =>
+        (slot.offer_id === null || slot.offer_id === offer.id) &&
+        (offer.event_id === null || offer.event_id === slot.event_id)
+    );
+  }, [offers, slots, offerId]);
+
+  useEffect(() => {
+    setSlotId((current) => (offerSlots.some((s) => s.id === current) ? current : offerSlots[0]?.id || ''));
+  }, [offerSlots]);
+
+  const handleSend = async () => {
+    if (!offerId || !slotId) return;
+    try {
+      setSending(true);
+      const result = await sendInterviewInvitation({
+        studentId: student.id,
+        offerId,
+        slotId,
+        message: message.trim() || undefined,
+        expiresAt: new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000).toISOString(),
+      });
+      showSuccess(result);
+      onSent?.();
+      onClose();
+    } catch (err: any) {
+      logError('Error sending interview invitation:', err);
+      showError(err.message || 'Failed to send the invitation');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const selectClassName = 'w-full px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-[#007e40]';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl border border-gray-200 max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900">Invite {student.name}</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              The student can book the chosen slot in one click from the notification or email.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <div className="w-6 h-6 border-2 border-[#007e40] border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : offers.length === 0 ? (
+            <p className="text-sm text-gray-600">You need an active offer to invite students.</p>
+          ) : (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Offer</label>
+                <select value={offerId} onChange={(e) => setOfferId(e.target.value)} className={selectClassName}>
+                  {offers.map((offer) => (
+                    <option key={offer.id} value={offer.id}>{offer.title}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Interview slot</label>
+                {offerSlots.length === 0 ? (
+                  <p className="text-sm text-gray-600">No upcoming slot with a free seat is open to this offer.</p>
+                ) : (
+                  <select value={slotId} onChange={(e) => setSlotId(e.target.value)} className={selectClassName}>
+                    {offerSlots.map((slot) => (
+                      <option key={slot.id} value={slot.id}>
+                        {slot.event_name} - {formatDateTime(slot.start_time, { timezone: slot.event_timezone })}
+                        {slot.location ? ` - ${slot.location}` : ''} ({slot.seats_left} seat{slot.seats_left !== 1 ? 's' : ''} left)
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Expires after</label>
+                <select value={expiryDays} onChange={(e) => setExpiryDays(parseInt(e.target.value))} className={selectClassName}>
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <option key={option.days} value={option.days}>{option.label}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">Invitations also expire when the slot starts.</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Message (optional)</label>
+                <textarea
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                  maxLength={1000}
+                  rows={3}
+                  placeholder="Tell the student why you would like to meet them..."
+                  className={selectClassName}
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 p-6 border-t border-gray-200">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900">
+            Cancel
+          </button>
+          <button
+            onClick={handleSend}
+            disabled={!offerId || !slotId || sending}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-[#007e40] hover:bg-[#006633] rounded-lg transition-colors disabled:opacity-50"
+          >
+            <Send className="w-4 h-4" />
+            {sending ? 'Sending...' : 'Send invitation'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { funnelRate, type OfferFunnel } from '@/utils/offerAnalytics';
+
+type OfferFunnelStatsProps = {
+  funnel: OfferFunnel;
+};
+
+/**
+ * OfferFunnelStats - One-line funnel of an offer: views, slot checks, bookings
+ *
+ * @component
+ * @param funnel - Funnel of the offer
+ *
+ * @example
+ * <OfferFunnelStats funnel={funnels[offer.id]} />
+ */
+export default function OfferFunnelStats({ funnel }: OfferFunnelStatsProps) {
+  const openRate = funnelRate(funnel.slot_modal_opens, funnel.unique_viewers);
+  const bookingRate = funnelRate(funnel.confirmed_bookings, funnel.slot_modal_opens);
+
+  return (
+    <div className="flex flex-wrap gap-3 mt-3 text-xs text-muted-foreground">
+      <span>👁️ {funnel.views} view{funnel.views !== 1 ? 's' : ''}</span>
+      <span>
+        🗓️ {funnel.slot_modal_opens} slot check{funnel.slot_modal_opens !== 1 ? 's' : ''}
+        {openRate !== null && ` (${openRate}% of viewers)`}
+      </span>
+      <span>
+        ✅ {funnel.confirmed_bookings} booked
+        {bookingRate !== null && ` (${bookingRate}% of slot checks)`}
+      </span>
+    </div>
+  );
+}
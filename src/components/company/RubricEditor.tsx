@@ -0,0 +1,231 @@
+import { useEffect, useState } from 'react';
+import { ClipboardList, Plus, Save, Trash2, ArrowUp, ArrowDown } from 'lucide-react';
+import { useToast } from '@/contexts/ToastContext';
+import { error as logError } from '@/utils/logger';
+import { getOfferRubric, saveOfferRubric, type RubricCriterionDraft } from '@/utils/scorecards';
+
+type RubricEditorProps = {
+  offerId: string;
+};
+
+const SCALE_OPTIONS = [3, 4, 5, 10];
+
+const emptyCriterion = (): RubricCriterionDraft => ({
+  label: '',
+  description: null,
+  weight: 1,
+  scale_max: 5,
+});
+
+/**
+ * RubricEditor - Interview rubric of an offer
+ *
+ * Criteria have a weight and a scale; interviewers score each criterion on
+ * the offer's scorecards. Saved separately from the offer itself.
+ *
+ * @component
+ * @param offerId - Offer the rubric belongs to
+ *
+ * @example
+ * <RubricEditor offerId={id} />
+ */
+export default function RubricEditor({ offerId }: RubricEditorProps) {
+  const { showSuccess, showError } = useToast();
+  const [criteria, setCriteria] = useState<RubricCriterionDraft[]>([]);
+  const [savedCount, setSavedCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setLoading(true);
+        const rubric = await getOfferRubric(offerId);
+        setCriteria(rubric);
+        setSavedCount(rubric.length);
+      } catch (err) {
+        logError('Error loading rubric:', err);
+        showError('Failed to load the interview rubric');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [offerId, showError]);
+
+  const updateCriterion = (index: number, changes: Partial<RubricCriterionDraft>) => {
+    setCriteria((prev) => prev.map((c, i) => (i === index ? { ...c, ...changes } : c)));
+  };
+
+  const moveCriterion = (index: number, direction: -1 | 1) => {
+    setCriteria((prev) => {
+      const next = [...prev];
+      [next[index], next[index + direction]] = [next[index + direction], next[index]];
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (criteria.some((c) => !c.label.trim())) {
+      showError('Every criterion needs a name');
+      return;
+    }
+    if (criteria.some((c) => !(c.weight > 0))) {
+      showError('Weights must be greater than 0');
+      return;
+    }
+
+    const removed = savedCount - criteria.filter((c) => c.id).length;
+    if (removed > 0 && !confirm(`Remove ${removed} ${removed === 1 ? 'criterion' : 'criteria'}? Scores already given on ${removed === 1 ? 'it' : 'them'} will no longer count.`)) {
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await saveOfferRubric(offerId, criteria);
+      const rubric = await getOfferRubric(offerId);
+      setCriteria(rubric);
+      setSavedCount(rubric.length);
+      showSuccess('Interview rubric saved');
+    } catch (err) {
+      logError('Error saving rubric:', err);
+      showError('Failed to save the interview rubric. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const totalWeight = criteria.reduce((sum, c) => sum + (c.weight > 0 ? c.weight : 0), 0);
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-6 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-foreground flex items-center gap-2">
+            <ClipboardList className="w-5 h-5" />
+            Interview Rubric
+          </h2>
+          <p className="text-sm text-muted-foreground mt-1">
+            The criteria your team scores after each interview for this offer. Only your company sees the scores.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setCriteria((prev) => [...prev, emptyCriterion()])}
+          disabled={loading}
+          className="flex items-center gap-2 px-3 py-2 text-sm font-medium border border-border rounded-lg hover:bg-background transition-colors disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" />
+          Add criterion
+        </button>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Loading rubric...</p>
+      ) : criteria.length === 0 ? (
+        <p className="text-sm text-muted-foreground italic">
+          No criteria yet. Add criteria such as communication or technical skills to score interviews.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {criteria.map((criterion, index) => (
+            <div key={criterion.id ?? `new-${index}`} className="p-4 bg-background rounded-lg border border-border">
+              <div className="grid grid-cols-1 md:grid-cols-12 gap-3">
+                <div className="md:col-span-6">
+                  <label className="block text-xs font-medium text-muted-foreground mb-1">Criterion</label>
+                  <input
+                    type="text"
+                    value={criterion.label}
+                    onChange={(e) => updateCriterion(index, { label: e.target.value })}
+                    className="w-full px-3 py-2 bg-card border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                    placeholder="e.g., Communication"
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-xs font-medium text-muted-foreground mb-1">Weight</label>
+                  <input
+                    type="number"
+                    min="0.5"
+                    step="0.5"
+                    value={criterion.weight}
+                    onChange={(e) => updateCriterion(index, { weight: parseFloat(e.target.value) })}
+                    className="w-full px-3 py-2 bg-card border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-xs font-medium text-muted-foreground mb-1">Scale</label>
+                  <select
+                    value={criterion.scale_max}
+                    onChange={(e) => updateCriterion(index, { scale_max: parseInt(e.target.value) })}
+                    className="w-full px-3 py-2 bg-card border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                  >
+                    {(SCALE_OPTIONS.includes(criterion.scale_max)
+                      ? SCALE_OPTIONS
+                      : [criterion.scale_max, ...SCALE_OPTIONS]
+                    ).map((max) => (
+                      <option key={max} value={max}>1 to {max}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="md:col-span-2 flex items-end justify-end gap-1">
+                  <button
+                    type="button"
+                    onClick={() => moveCriterion(index, -1)}
+                    disabled={index === 0}
+                    className="p-2 text-muted-foreground hover:text-foreground rounded-lg disabled:opacity-30"
+                    title="Move up"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveCriterion(index, 1)}
+                    disabled={index === criteria.length - 1}
+                    className="p-2 text-muted-foreground hover:text-foreground rounded-lg disabled:opacity-30"
+                    title="Move down"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setCriteria((prev) => prev.filter((_, i) => i !== index))}
+                    className="p-2 text-muted-foreground hover:text-red-600 hover:bg-red-500/10 rounded-lg"
+                    title="Remove"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className="md:col-span-12">
+                  <input
+                    type="text"
+                    value={criterion.description ?? ''}
+                    onChange={(e) => updateCriterion(index, { description: e.target.value || null })}
+                    className="w-full px-3 py-2 bg-card border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                    placeholder="What interviewers should look for (optional)"
+                  />
+                </div>
+              </div>
+              {totalWeight > 0 && criterion.weight > 0 && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  Counts for {Math.round((criterion.weight / totalWeight) * 100)}% of the total score
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-end pt-2">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={loading || saving}
+          className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors text-sm font-medium disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" />
+          {saving ? 'Saving...' : 'Save Rubric'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { X, ClipboardCheck } from 'lucide-react';
+import { useToast } from '@/contexts/ToastContext';
+import { error as logError } from '@/utils/logger';
+import {
+  RECOMMENDATION_LABELS,
+  computeScorecardTotal,
+  getOfferRubric,
+  getScorecard,
+  saveScorecard,
+  type Recommendation,
+  type RubricCriterion
+} from '@/utils/scorecards';
+
+type ScorecardModalProps = {
+  bookingId: string;
+  offerId: string;
+  studentName: string;
+  offerTitle: string;
+  onClose: () => void;
+  onSaved?: (totalScore: number | null) => void;
+};
+
+/**
+ * ScorecardModal - Score an interview against the offer's rubric
+ *
+ * Loads the existing scorecard of the booking, if any, and saves it through
+ * fn_save_scorecard. Scores are only visible to the company.
+ *
+ * @component
+ * @param bookingId - Interview being scored
+ * @param offerId - Offer whose rubric applies
+ * @param studentName - Shown in the header
+ * @param offerTitle - Shown in the header
+ * @param onClose - Called when the modal closes
+ * @param onSaved - Called with the weighted total after saving
+ *
+ * @example
+ * <ScorecardModal
+ *   bookingId={booking.id}
+ *   offerId={booking.offer_id}
+ *   studentName="Amina El Idrissi"
+ *   offerTitle="Logistics Intern"
+ *   onClose={() => setScoring(null)}
+ * />
+ */
+export default function ScorecardModal({ bookingId, offerId, studentName, offerTitle, onClose, onSaved }: ScorecardModalProps) {
+  const { showSuccess, showError } = useToast();
+  const [criteria, setCriteria] = useState<RubricCriterion[]>([]);
+  const [scores, setScores] = useState<Record<string, number>>({});
+  const [recommendation, setRecommendation] = useState<Recommendation | null>(null);
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setLoading(true);
+        const [rubric, scorecard] = await Promise.all([getOfferRubric(offerId), getScorecard(bookingId)]);
+        setCriteria(rubric);
+        if (scorecard) {
+          // Scores of criteria removed from the rubric are dropped on save
+          const ids = new Set(rubric.map((c) => c.id));
+          setScores(Object.fromEntries(Object.entries(scorecard.scores).filter(([id]) => ids.has(id))));
+          setRecommendation(scorecard.recommendation);
+          setNotes(scorecard.notes ?? '');
+        }
+      } catch (err) {
+        logError('Error loading scorecard:', err);
+        showError('Failed to load the scorecard');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [bookingId, offerId, showError]);
+
+  const total = useMemo(() => computeScorecardTotal(criteria, scores), [criteria, scores]);
+
+  const setScore = (criterionId: string, score: number) => {
+    setScores((prev) => {
+      if (prev[criterionId] === score) {
+        const { [criterionId]: _removed, ...rest } = prev;
+        return rest;
+      }
+      return { ...prev, [criterionId]: score };
+    });
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      const result = await saveScorecard(bookingId, { scores, recommendation, notes });
+      if (!result.success) {
+        showError(result.message);
+        return;
+      }
+      showSuccess(result.message);
+      onSaved?.(result.total_score);
+      onClose();
+    } catch (err) {
+      logError('Error saving scorecard:', err);
+      showError('Failed to save the scorecard. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-card rounded-xl border border-border max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start justify-between p-6 border-b border-border">
+          <div>
+            <h2 className="text-xl font-semibold text-foreground flex items-center gap-2">
+              <ClipboardCheck className="w-5 h-5" />
+              Interview Scorecard
+            </h2>
+            <p className="text-sm text-muted-foreground mt-1">
+              {studentName} · {offerTitle}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-muted-foreground hover:text-foreground" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Loading scorecard...</p>
+          ) : (
+            <>
+              {criteria.length === 0 ? (
+                <div className="p-4 bg-background rounded-lg border border-border text-sm text-muted-foreground">
+                  This offer has no rubric yet.{' '}
+                  <Link to={`/company/offers/${offerId}/edit`} className="text-primary hover:underline">
+                    Add criteria to the offer
+                  </Link>{' '}
+                  to score interviews. You can still save a recommendation and notes.
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {criteria.map((criterion) => (
+                    <div key={criterion.id}>
+                      <div className="flex items-baseline justify-between gap-4 mb-2">
+                        <div>
+                          <p className="text-sm font-medium text-foreground">{criterion.label}</p>
+                          {criterion.description && (
+                            <p className="text-xs text-muted-foreground">{criterion.description}</p>
+                          )}
+                        </div>
+                        <span className="text-xs text-muted-foreground flex-shrink-0">Weight {criterion.weight}</span>
+                      </div>
+                      <div className="flex flex-wrap gap-1">
+                        {Array.from({ length: criterion.scale_max }, (_, i) => i + 1).map((value) => (
+                          <button
+                            key={value}
+                            type="button"
+                            onClick={() => setScore(criterion.id, value)}
+                            className={`w-9 h-9 text-sm font-medium rounded-md border transition-colors ${
+                              scores[criterion.id] === value
+                                ? 'bg-primary border-primary text-primary-foreground'
+                                : 'border-border text-foreground hover:border-primary'
+                            }`}
+                          >
+                            {value}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                  <div className="flex items-center justify-between pt-4 border-t border-border">
+                    <span className="text-sm text-muted-foreground">
+                      {Object.keys(scores).length} of {criteria.length} criteria scored
+                    </span>
+                    <span className="text-lg font-bold text-foreground">
+                      {total === null ? '–' : `${total} / 100`}
+                    </span>
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <p className="text-sm font-medium text-foreground mb-2">Recommendation</p>
+                <div className="flex flex-wrap gap-2">
+                  {(Object.keys(RECOMMENDATION_LABELS) as Recommendation[]).map((value) => (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => setRecommendation(recommendation === value ? null : value)}
+                      className={`px-3 py-1.5 text-sm font-medium rounded-lg border transition-colors ${
+                        recommendation === value
+                          ? 'bg-primary border-primary text-primary-foreground'
+                          : 'border-border text-foreground hover:border-primary'
+                      }`}
+                    >
+                      {RECOMMENDATION_LABELS[value]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-foreground mb-2">Notes</label>
+                <textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={4}
+                  className="w-full px-4 py-2 bg-background border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                  placeholder="Strengths, concerns, next steps..."
+                />
+                <p className="text-xs text-muted-foreground mt-1">Only your company can see this scorecard.</p>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 p-6 border-t border-border">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-muted-foreground hover:text-foreground transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={loading || saving}
+            className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors text-sm font-medium disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Scorecard'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import type { ScreeningAnswer } from '@/utils/screeningQuestions';
+
+type ScreeningAnswersListProps = {
+  answers: ScreeningAnswer[];
+  className?: string;
+};
+
+/**
+ * ScreeningAnswersList - A student's answers to an offer's screening questions
+ *
+ * Shows each question as it was worded when the student booked. Renders
+ * nothing when the booking has no answers.
+ *
+ * @component
+ * @param answers - Answers stored with the booking
+ * @param className - Extra classes for the wrapper
+ *
+ * @example
+ * <ScreeningAnswersList answers={booking.screening_answers} className="mt-2 pl-11" />
+ */
+export default function ScreeningAnswersList({ answers, className = '' }: ScreeningAnswersListProps) {
+  if (answers.length === 0) {
+    return null;
+  }
+
+  const formatAnswer = (answer: ScreeningAnswer) => {
+    if (answer.question_type === 'yes_no') {
+      return answer.answer === 'yes' ? 'Yes' : 'No';
+    }
+    return answer.answer;
+  };
+
+  return (
+    <dl className={`space-y-1 text-xs ${className}`}>
+      {answers.map((answer) => (
+        <div key={answer.question_id}>
+          <dt className="text-muted-foreground">{answer.question}</dt>
+          <dd className="font-medium text-foreground whitespace-pre-wrap break-words">{formatAnswer(answer)}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
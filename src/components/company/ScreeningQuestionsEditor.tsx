@@ -0,0 +1,221 @@
+import { useEffect, useState } from 'react';
+import { ListChecks, Plus, Save, Trash2, ArrowUp, ArrowDown } from 'lucide-react';
+import { useToast } from '@/contexts/ToastContext';
+import { error as logError } from '@/utils/logger';
+import {
+  getScreeningQuestions,
+  saveScreeningQuestions,
+  MAX_SCREENING_QUESTIONS,
+  SCREENING_QUESTION_TYPE_LABELS,
+  type ScreeningQuestionDraft,
+  type ScreeningQuestionType,
+} from '@/utils/screeningQuestions';
+
+type ScreeningQuestionsEditorProps = {
+  offerId: string;
+};
+
+const emptyQuestion = (): ScreeningQuestionDraft => ({
+  question: '',
+  question_type: 'short_text',
+  options: [],
+  is_required: false,
+});
+
+/**
+ * ScreeningQuestionsEditor - Questions students answer when booking an offer
+ *
+ * Up to five questions, each short text, yes/no or multiple choice and
+ * optionally required. Saved separately from the offer itself.
+ *
+ * @component
+ * @param offerId - Offer the questions belong to
+ *
+ * @example
+ * <ScreeningQuestionsEditor offerId={id} />
+ */
+export default function ScreeningQuestionsEditor({ offerId }: ScreeningQuestionsEditorProps) {
+  const { showSuccess, showError } = useToast();
+  const [questions, setQuestions] = useState<ScreeningQuestionDraft[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setLoading(true);
+        setQuestions(await getScreeningQuestions(offerId));
+      } catch (err) {
+        logError('Error loading screening questions:', err);
+        showError('Failed to load the screening questions');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [offerId, showError]);
+
+  const updateQuestion = (index: number, changes: Partial<ScreeningQuestionDraft>) => {
+    setQuestions((prev) => prev.map((q, i) => (i === index ? { ...q, ...changes } : q)));
+  };
+
+  const moveQuestion = (index: number, direction: -1 | 1) => {
+    setQuestions((prev) => {
+      const next = [...prev];
+      [next[index], next[index + direction]] = [next[index + direction], next[index]];
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (questions.some((q) => !q.question.trim())) {
+      showError('Every question needs a text');
+      return;
+    }
+    if (questions.some((q) => q.question_type === 'multiple_choice' && q.options.filter((o) => o.trim()).length < 2)) {
+      showError('Multiple choice questions need at least 2 options');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await saveScreeningQuestions(offerId, questions);
+      setQuestions(await getScreeningQuestions(offerId));
+      showSuccess('Screening questions saved');
+    } catch (err) {
+      logError('Error saving screening questions:', err);
+      showError('Failed to save the screening questions. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-6 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-foreground flex items-center gap-2">
+            <ListChecks className="w-5 h-5" />
+            Screening Questions
+          </h2>
+          <p className="text-sm text-muted-foreground mt-1">
+            Students answer these when they book an interview, for example their availability or work permit status.
+            Up to {MAX_SCREENING_QUESTIONS} questions.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setQuestions((prev) => [...prev, emptyQuestion()])}
+          disabled={loading || questions.length >= MAX_SCREENING_QUESTIONS}
+          className="flex items-center gap-2 px-3 py-2 text-sm font-medium border border-border rounded-lg hover:bg-background transition-colors disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" />
+          Add question
+        </button>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Loading questions...</p>
+      ) : questions.length === 0 ? (
+        <p className="text-sm text-muted-foreground italic">
+          No screening questions. Students book without answering anything.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {questions.map((question, index) => (
+            <div key={question.id ?? `new-${index}`} className="p-4 bg-background rounded-lg border border-border">
+              <div className="grid grid-cols-1 md:grid-cols-12 gap-3">
+                <div className="md:col-span-6">
+                  <label className="block text-xs font-medium text-muted-foreground mb-1">Question</label>
+                  <input
+                    type="text"
+                    value={question.question}
+                    onChange={(e) => updateQuestion(index, { question: e.target.value })}
+                    maxLength={300}
+                    className="w-full px-3 py-2 bg-card border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                    placeholder="e.g., Do you have a valid work permit?"
+                  />
+                </div>
+                <div className="md:col-span-3">
+                  <label className="block text-xs font-medium text-muted-foreground mb-1">Answer type</label>
+                  <select
+                    value={question.question_type}
+                    onChange={(e) => updateQuestion(index, { question_type: e.target.value as ScreeningQuestionType })}
+                    className="w-full px-3 py-2 bg-card border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                  >
+                    {(Object.keys(SCREENING_QUESTION_TYPE_LABELS) as ScreeningQuestionType[]).map((type) => (
+                      <option key={type} value={type}>{SCREENING_QUESTION_TYPE_LABELS[type]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="md:col-span-3 flex items-end justify-end gap-1">
+                  <button
+                    type="button"
+                    onClick={() => moveQuestion(index, -1)}
+                    disabled={index === 0}
+                    className="p-2 text-muted-foreground hover:text-foreground rounded-lg disabled:opacity-30"
+                    title="Move up"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveQuestion(index, 1)}
+                    disabled={index === questions.length - 1}
+                    className="p-2 text-muted-foreground hover:text-foreground rounded-lg disabled:opacity-30"
+                    title="Move down"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setQuestions((prev) => prev.filter((_, i) => i !== index))}
+                    className="p-2 text-muted-foreground hover:text-red-600 hover:bg-red-500/10 rounded-lg"
+                    title="Remove"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                {question.question_type === 'multiple_choice' && (
+                  <div className="md:col-span-12">
+                    <label className="block text-xs font-medium text-muted-foreground mb-1">Options (one per line)</label>
+                    <textarea
+                      value={question.options.join('\n')}
+                      onChange={(e) => updateQuestion(index, { options: e.target.value.split('\n') })}
+                      rows={3}
+                      className="w-full px-3 py-2 bg-card border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                      placeholder={'June 2026\nJuly 2026\nSeptember 2026'}
+                    />
+                  </div>
+                )}
+                <div className="md:col-span-12">
+                  <label className="inline-flex items-center gap-2 text-sm text-foreground">
+                    <input
+                      type="checkbox"
+                      checked={question.is_required}
+                      onChange={(e) => updateQuestion(index, { is_required: e.target.checked })}
+                      className="rounded border-border"
+                    />
+                    Required to book
+                  </label>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-end pt-2">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={loading || saving}
+          className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors text-sm font-medium disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" />
+          {saving ? 'Saving...' : 'Save Questions'}
+        </button>
+      </div>
+    </div>
+  );
+}
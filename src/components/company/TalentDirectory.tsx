@@ -0,0 +1,404 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Bookmark, BookmarkCheck, Filter, Linkedin, Search, Send, ShieldCheck, Sparkles } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { useToast } from '@/contexts/ToastContext';
+import EmptyState from '@/components/shared/EmptyState';
+import Pagination from '@/components/shared/Pagination';
+import { error as logError } from '@/utils/logger';
+import {
+  getTalentDirectoryFilterOptions,
+  searchTalentDirectory,
+  setTalentBookmark,
+  type TalentDirectoryFilterOptions,
+  type TalentDirectoryStudent
+} from '@/utils/talentDirectory';
+
+type TalentDirectoryProps = {
+  companyId: string;
+  onInvite?: (student: TalentDirectoryStudent) => void;
+};
+
+const PAGE_SIZE = 20;
+
+const EMPTY_FILTERS = {
+  program: '',
+  specialization: '',
+  graduationYear: '',
+  language: '',
+  skill: '',
+};
+
+const selectClassName =
+  'w-full px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-[#007e40] focus:border-transparent';
+
+/**
+ * TalentDirectory - Search the students who listed themselves for companies
+ *
+ * Only students with data processing consent who opted in from their profile
+ * appear. Verified companies filter on program, specialization, graduation
+ * year, spoken languages and skills, and bookmark students for their team.
+ *
+ * @component
+ * @param companyId - Company searching the directory
+ * @param onInvite - Called to invite a student to an interview
+ *
+ * @example
+ * <TalentDirectory companyId={companyId} onInvite={openInviteModal} />
+ */
+export default function TalentDirectory({ companyId, onInvite }: TalentDirectoryProps) {
+  const { showError } = useToast();
+  const [isVerified, setIsVerified] = useState<boolean | null>(null);
+  const [options, setOptions] = useState<TalentDirectoryFilterOptions | null>(null);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [filters, setFilters] = useState(EMPTY_FILTERS);
+  const [bookmarkedOnly, setBookmarkedOnly] = useState(false);
+  const [students, setStudents] = useState<TalentDirectoryStudent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    supabase
+      .from('companies')
+      .select('is_verified')
+      .eq('id', companyId)
+      .single()
+      .then(({ data, error }) => {
+        if (error) {
+          logError('Error loading company verification:', error);
+        }
+        setIsVerified(data?.is_verified ?? false);
+      });
+  }, [companyId]);
+
+  useEffect(() => {
+    if (!isVerified) return;
+    getTalentDirectoryFilterOptions()
+      .then(setOptions)
+      .catch((err) => logError('Error loading talent directory filters:', err));
+  }, [isVerified]);
+
+  const loadStudents = useCallback(async () => {
+    try {
+      setLoading(true);
+      const result = await searchTalentDirectory(
+        {
+          search,
+          program: filters.program,
+          specialization: filters.specialization,
+          graduationYear: filters.graduationYear ? parseInt(filters.graduationYear) : undefined,
+          language: filters.language,
+          skill: filters.skill,
+          bookmarkedOnly,
+        },
+        page,
+        PAGE_SIZE
+      );
+      setStudents(result.students);
+      setTotal(result.total);
+    } catch (err) {
+      logError('Error searching talent directory:', err);
+      showError('Failed to search the talent directory. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [search, filters, bookmarkedOnly, page, showError]);
+
+  useEffect(() => {
+    if (isVerified) {
+      loadStudents();
+    }
+  }, [isVerified, loadStudents]);
+
+  const updateFilter = (key: keyof typeof EMPTY_FILTERS, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+    setPage(1);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearch(searchInput.trim());
+    setPage(1);
+  };
+
+  const handleToggleBookmark = async (student: TalentDirectoryStudent) => {
+    try {
+      setSavingId(student.student_id);
+      await setTalentBookmark(student.student_id, !student.is_bookmarked);
+      if (bookmarkedOnly && student.is_bookmarked) {
+        await loadStudents();
+      } else {
+        setStudents((prev) =>
+          prev.map((s) => (s.student_id === student.student_id ? { ...s, is_bookmarked: !s.is_bookmarked } : s))
+        );
+      }
+    } catch (err: any) {
+      logError('Error updating bookmark:', err);
+      showError(err.message || 'Failed to update the bookmark');
+      loadStudents();
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  if (isVerified === null) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="w-8 h-8 border-2 border-[#007e40] border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (!isVerified) {
+    return (
+      <EmptyState
+        icon={ShieldCheck}
+        title="Available to verified companies"
+        message="The talent directory opens once your company has been verified by the organizers."
+        className="bg-white rounded-lg border border-gray-200"
+      />
+    );
+  }
+
+  const hasFilters = Object.values(filters).some(Boolean) || search !== '' || bookmarkedOnly;
+
+  return (
+    <div className="space-y-6">
+      {/* Search and Filters */}
+      <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-4">
+        <form onSubmit={handleSearch} className="flex gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <input
+              type="text"
+              placeholder="Search by name, skill or biography..."
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 bg-white border border-gray-200 rounded-lg text-gray-900 placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-[#007e40] focus:border-transparent"
+            />
+          </div>
+          <button
+            type="submit"
+            className="px-4 py-2 text-sm font-semibold text-white bg-[#007e40] hover:bg-[#006633] rounded-lg transition-colors"
+          >
+            Search
+          </button>
+        </form>
+
+        <div className="flex flex-wrap gap-4 items-end">
+          <div className="flex items-center gap-2">
+            <Filter className="w-4 h-4 text-gray-600" />
+            <span className="text-sm font-medium text-gray-900">Filters:</span>
+          </div>
+
+          <div className="flex-1 min-w-[160px]">
+            <label className="block text-xs font-medium text-gray-600 mb-1">Program</label>
+            <select value={filters.program} onChange={(e) => updateFilter('program', e.target.value)} className={selectClassName}>
+              <option value="">All Programs</option>
+              {options?.programs.map((program) => (
+                <option key={program} value={program}>{program}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex-1 min-w-[160px]">
+            <label className="block text-xs font-medium text-gray-600 mb-1">Specialization</label>
+            <select value={filters.specialization} onChange={(e) => updateFilter('specialization', e.target.value)} className={selectClassName}>
+              <option value="">All Specializations</option>
+              {options?.specializations.map((specialization) => (
+                <option key={specialization} value={specialization}>{specialization}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex-1 min-w-[120px]">
+            <label className="block text-xs font-medium text-gray-600 mb-1">Graduation Year</label>
+            <select value={filters.graduationYear} onChange={(e) => updateFilter('graduationYear', e.target.value)} className={selectClassName}>
+              <option value="">All Years</option>
+              {options?.graduation_years.map((year) => (
+                <option key={year} value={year.toString()}>{year}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex-1 min-w-[120px]">
+            <label className="block text-xs font-medium text-gray-600 mb-1">Language</label>
+            <select value={filters.language} onChange={(e) => updateFilter('language', e.target.value)} className={selectClassName}>
+              <option value="">All Languages</option>
+              {options?.languages.map((language) => (
+                <option key={language} value={language}>{language}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex-1 min-w-[140px]">
+            <label className="block text-xs font-medium text-gray-600 mb-1">Skill</label>
+            <select value={filters.skill} onChange={(e) => updateFilter('skill', e.target.value)} className={selectClassName}>
+              <option value="">All Skills</option>
+              {options?.skills.map((skill) => (
+                <option key={skill} value={skill}>{skill}</option>
+              ))}
+            </select>
+          </div>
+
+          <label className="flex items-center gap-2 py-2 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={bookmarkedOnly}
+              onChange={(e) => {
+                setBookmarkedOnly(e.target.checked);
+                setPage(1);
+              }}
+              className="w-4 h-4 accent-[#007e40]"
+            />
+            Bookmarked only
+          </label>
+
+          {hasFilters && (
+            <button
+              onClick={() => {
+                setFilters(EMPTY_FILTERS);
+                setSearch('');
+                setSearchInput('');
+                setBookmarkedOnly(false);
+                setPage(1);
+              }}
+              className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900 transition-colors"
+            >
+              Clear Filters
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Results */}
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="w-8 h-8 border-2 border-[#007e40] border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : students.length === 0 ? (
+        <EmptyState
+          icon={Sparkles}
+          title={hasFilters ? 'No students match your search' : 'The talent directory is empty'}
+          message={
+            hasFilters
+              ? 'Try adjusting your search or filters.'
+              : 'Students appear here once they choose to share their profile with companies.'
+          }
+          className="bg-white rounded-lg border border-gray-200"
+        />
+      ) : (
+        <>
+          <p className="text-sm text-gray-600">
+            {total} student{total !== 1 ? 's' : ''} in the directory
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {students.map((student) => (
+              <div key={student.student_id} className="bg-white rounded-lg border border-gray-200 p-5 flex flex-col gap-3">
+                <div className="flex items-start gap-3">
+                  {student.profile_photo_url ? (
+                    <img
+                      src={student.profile_photo_url}
+                      alt={student.full_name}
+                      className="w-12 h-12 rounded-lg object-cover flex-shrink-0 border border-gray-200"
+                    />
+                  ) : (
+                    <div className="w-12 h-12 rounded-lg bg-[#1a1f3a] text-white flex items-center justify-center font-semibold flex-shrink-0">
+                      {student.full_name.charAt(0).toUpperCase()}
+                    </div>
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <Link
+                      to={`/company/students/${student.student_id}`}
+                      className="font-semibold text-gray-900 hover:text-[#007e40] transition-colors"
+                    >
+                      {student.full_name}
+                    </Link>
+                    <p className="text-sm text-gray-600 truncate">
+                      {[student.program, student.specialization].filter(Boolean).join(' · ') || 'Program not specified'}
+                    </p>
+                    {student.graduation_year && (
+                      <p className="text-xs text-gray-500 mt-0.5">Class of {student.graduation_year}</p>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => handleToggleBookmark(student)}
+                    disabled={savingId === student.student_id}
+                    className={`p-2 rounded-lg transition-colors disabled:opacity-50 ${
+                      student.is_bookmarked ? 'text-[#ffb300] hover:bg-[#ffb300]/10' : 'text-gray-400 hover:text-[#007e40] hover:bg-gray-100'
+                    }`}
+                    title={student.is_bookmarked ? 'Remove bookmark' : 'Bookmark for your team'}
+                  >
+                    {student.is_bookmarked ? <BookmarkCheck className="w-5 h-5" /> : <Bookmark className="w-5 h-5" />}
+                  </button>
+                </div>
+
+                {student.biography && (
+                  <p className="text-sm text-gray-700 line-clamp-2">{student.biography}</p>
+                )}
+
+                {(student.skills.length > 0 || student.languages_spoken.length > 0) && (
+                  <div className="flex flex-wrap gap-1.5">
+                    {student.skills.map((skill) => (
+                      <span key={`skill-${skill}`} className="px-2 py-0.5 text-xs font-medium bg-[#007e40]/10 text-[#007e40] rounded-full">
+                        {skill}
+                      </span>
+                    ))}
+                    {student.languages_spoken.map((language) => (
+                      <span key={`language-${language}`} className="px-2 py-0.5 text-xs bg-gray-100 text-gray-700 rounded-full">
+                        {language}
+                      </span>
+                    ))}
+                  </div>
+                )}
+
+                <div className="flex items-center gap-4 mt-auto pt-2 border-t border-gray-100 text-sm">
+                  <a href={`mailto:${student.email}`} className="text-gray-600 hover:text-[#007e40] truncate">
+                    {student.email}
+                  </a>
+                  {student.linkedin_url && (
+                    <a
+                      href={student.linkedin_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-gray-500 hover:text-[#007e40]"
+                      title="LinkedIn profile"
+                    >
+                      <Linkedin className="w-4 h-4" />
+                    </a>
+                  )}
+                  <Link
+                    to={`/company/students/${student.student_id}`}
+                    className="ml-auto text-xs font-medium text-[#007e40] hover:text-[#006633]"
+                  >
+                    View Profile
+                  </Link>
+                  {onInvite && (
+                    <button
+                      onClick={() => onInvite(student)}
+                      className="flex items-center gap-1 text-xs font-medium text-[#007e40] hover:text-[#006633]"
+                    >
+                      <Send className="w-3.5 h-3.5" />
+                      Invite
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <Pagination
+            currentPage={page}
+            totalPages={Math.ceil(total / PAGE_SIZE)}
+            onPageChange={setPage}
+            itemsPerPage={PAGE_SIZE}
+            totalItems={total}
+          />
+        </>
+      )}
+    </div>
+  );
+}
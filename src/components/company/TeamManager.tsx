@@ -0,0 +1,378 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Mail, RefreshCw, Send, Trash2, Users, X } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { useToast } from '@/contexts/ToastContext';
+import { error as logError } from '@/utils/logger';
+import { formatDate } from '@/utils/dateUtils';
+import { validateEmail } from '@/utils/securityUtils';
+import {
+  COMPANY_ROLE_LABELS,
+  getInvitations,
+  getTeam,
+  inviteTeamMember,
+  removeTeamMember,
+  revokeInvitation,
+  updateTeamMemberRole,
+  type CompanyRole,
+  type TeamInvitation,
+  type TeamMember
+} from '@/utils/companyTeam';
+
+type TeamManagerProps = {
+  companyId: string;
+  currentUserId: string;
+};
+
+type Representative = {
+  id: string;
+  full_name: string;
+  email: string;
+};
+
+const emptyInvite = { fullName: '', email: '', role: 'interviewer' as CompanyRole, representativeId: '' };
+
+/**
+ * TeamManager - Recruiter accounts of a company
+ *
+ * Company admins invite representatives as users of their own, change their
+ * role and remove them. Admins edit the company profile and offers;
+ * interviewers see the slots assigned to them and score those interviews.
+ *
+ * @component
+ * @param companyId - Company whose team is managed
+ * @param currentUserId - Signed-in admin, who cannot remove themselves
+ *
+ * @example
+ * <TeamManager companyId={profile.id} currentUserId={user.id} />
+ */
+export default function TeamManager({ companyId, currentUserId }: TeamManagerProps) {
+  const { showSuccess, showError } = useToast();
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [invitations, setInvitations] = useState<TeamInvitation[]>([]);
+  const [representatives, setRepresentatives] = useState<Representative[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [invite, setInvite] = useState(emptyInvite);
+  const [sending, setSending] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadTeam = useCallback(async () => {
+    try {
+      const [team, pending, { data: reps, error: repsError }] = await Promise.all([
+        getTeam(companyId),
+        getInvitations(companyId),
+        supabase
+          .from('company_representatives')
+          .select('id, full_name, email')
+          .eq('company_id', companyId)
+          .order('full_name'),
+      ]);
+      if (repsError) throw repsError;
+
+      setMembers(team);
+      setInvitations(pending);
+      setRepresentatives(reps || []);
+    } catch (err) {
+      logError('Error loading team:', err);
+      showError('Failed to load your team');
+    } finally {
+      setLoading(false);
+    }
+  }, [companyId, showError]);
+
+  useEffect(() => {
+    loadTeam();
+  }, [loadTeam]);
+
+  const selectRepresentative = (representativeId: string) => {
+    const rep = representatives.find((r) => r.id === representativeId);
+    setInvite((prev) => ({
+      ...prev,
+      representativeId,
+      fullName: rep ? rep.full_name : prev.fullName,
+      email: rep ? rep.email : prev.email,
+    }));
+  };
+
+  const sendInvitation = async (
+    invitation: { fullName: string; email: string; role: CompanyRole; representativeId?: string }
+  ) => {
+    const message = await inviteTeamMember(invitation);
+    showSuccess(message);
+    await loadTeam();
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invite.fullName.trim()) {
+      showError('Enter the name of the person you invite');
+      return;
+    }
+    const emailValidation = validateEmail(invite.email);
+    if (!emailValidation.isValid) {
+      showError(emailValidation.error || 'Enter a valid email address');
+      return;
+    }
+
+    try {
+      setSending(true);
+      await sendInvitation({
+        fullName: invite.fullName.trim(),
+        email: invite.email.trim(),
+        role: invite.role,
+        representativeId: invite.representativeId || undefined,
+      });
+      setInvite(emptyInvite);
+    } catch (err) {
+      logError('Error inviting team member:', err);
+      showError(err instanceof Error ? err.message : 'Failed to send the invitation');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleResend = async (invitation: TeamInvitation) => {
+    try {
+      setBusyId(invitation.id);
+      await sendInvitation({
+        fullName: invitation.full_name,
+        email: invitation.email,
+        role: invitation.role,
+        representativeId: invitation.representative_id || undefined,
+      });
+    } catch (err) {
+      logError('Error resending invitation:', err);
+      showError(err instanceof Error ? err.message : 'Failed to resend the invitation');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRevoke = async (invitation: TeamInvitation) => {
+    try {
+      setBusyId(invitation.id);
+      await revokeInvitation(invitation.id);
+      setInvitations((prev) => prev.filter((i) => i.id !== invitation.id));
+      showSuccess(`Invitation to ${invitation.email} revoked`);
+    } catch (err) {
+      logError('Error revoking invitation:', err);
+      showError('Failed to revoke the invitation');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRoleChange = async (member: TeamMember, role: CompanyRole) => {
+    try {
+      setBusyId(member.id);
+      await updateTeamMemberRole(member.id, role);
+      setMembers((prev) => prev.map((m) => (m.id === member.id ? { ...m, role } : m)));
+      showSuccess(`${member.full_name} is now ${COMPANY_ROLE_LABELS[role].toLowerCase()}`);
+    } catch (err) {
+      logError('Error updating team member role:', err);
+      showError(err instanceof Error ? err.message : 'Failed to update the role');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRemove = async (member: TeamMember) => {
+    if (!confirm(`Remove ${member.full_name} from your team? Their interview slots will be unassigned.`)) {
+      return;
+    }
+
+    try {
+      setBusyId(member.id);
+      await removeTeamMember(member.id);
+      setMembers((prev) => prev.filter((m) => m.id !== member.id));
+      showSuccess(`${member.full_name} removed from your team`);
+    } catch (err) {
+      logError('Error removing team member:', err);
+      showError(err instanceof Error ? err.message : 'Failed to remove the team member');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-2 bg-background border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary';
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-6 space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold text-foreground flex items-center gap-2">
+          <Users className="w-5 h-5" />
+          Team
+        </h2>
+        <p className="text-sm text-muted-foreground mt-1">
+          Company admins edit the company profile, offers and team. Interviewers see the interview slots
+          assigned to them and score those interviews.
+        </p>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Loading team...</p>
+      ) : (
+        <>
+          <div className="divide-y divide-border border border-border rounded-lg">
+            {members.map((member) => (
+              <div key={member.id} className="flex flex-wrap items-center justify-between gap-3 p-4">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-foreground">
+                    {member.full_name}
+                    {member.profile_id === currentUserId && (
+                      <span className="ml-2 text-xs text-muted-foreground">(you)</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">{member.email}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {member.is_owner ? (
+                    <span className="px-2 py-1 text-xs font-medium rounded bg-green-500/20 text-green-600">
+                      Account owner
+                    </span>
+                  ) : (
+                    <>
+                      <select
+                        value={member.role}
+                        onChange={(e) => handleRoleChange(member, e.target.value as CompanyRole)}
+                        disabled={busyId === member.id}
+                        className="px-3 py-1.5 bg-background border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-50"
+                      >
+                        {(Object.keys(COMPANY_ROLE_LABELS) as CompanyRole[]).map((role) => (
+                          <option key={role} value={role}>{COMPANY_ROLE_LABELS[role]}</option>
+                        ))}
+                      </select>
+                      {member.profile_id !== currentUserId && (
+                        <button
+                          onClick={() => handleRemove(member)}
+                          disabled={busyId === member.id}
+                          className="p-2 text-muted-foreground hover:text-red-600 hover:bg-red-500/10 rounded-lg disabled:opacity-50"
+                          title="Remove from team"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {invitations.length > 0 && (
+            <div>
+              <h3 className="text-sm font-semibold text-foreground mb-2">Pending invitations</h3>
+              <div className="divide-y divide-border border border-border rounded-lg">
+                {invitations.map((invitation) => {
+                  const expired = new Date(invitation.expires_at) < new Date();
+                  return (
+                    <div key={invitation.id} className="flex flex-wrap items-center justify-between gap-3 p-4">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-foreground">
+                          {invitation.full_name}
+                          <span className="ml-2 text-xs text-muted-foreground">
+                            {COMPANY_ROLE_LABELS[invitation.role]}
+                          </span>
+                        </p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {invitation.email} ·{' '}
+                          {expired
+                            ? 'Expired'
+                            : `Expires ${formatDate(invitation.expires_at, { month: 'short', day: 'numeric' })}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <button
+                          onClick={() => handleResend(invitation)}
+                          disabled={busyId === invitation.id}
+                          className="p-2 text-muted-foreground hover:text-foreground hover:bg-background rounded-lg disabled:opacity-50"
+                          title="Send a new invitation link"
+                        >
+                          <RefreshCw className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleRevoke(invitation)}
+                          disabled={busyId === invitation.id}
+                          className="p-2 text-muted-foreground hover:text-red-600 hover:bg-red-500/10 rounded-lg disabled:opacity-50"
+                          title="Revoke invitation"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          <form onSubmit={handleInvite} className="space-y-3 pt-4 border-t border-border">
+            <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
+              <Mail className="w-4 h-4" />
+              Invite a team member
+            </h3>
+            {representatives.length > 0 && (
+              <div>
+                <label className="block text-xs font-medium text-muted-foreground mb-1">Representative</label>
+                <select
+                  value={invite.representativeId}
+                  onChange={(e) => selectRepresentative(e.target.value)}
+                  className={inputClassName}
+                >
+                  <option value="">Someone else</option>
+                  {representatives.map((rep) => (
+                    <option key={rep.id} value={rep.id}>{rep.full_name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-muted-foreground mb-1">Full name</label>
+                <input
+                  type="text"
+                  value={invite.fullName}
+                  onChange={(e) => setInvite({ ...invite, fullName: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-muted-foreground mb-1">Email</label>
+                <input
+                  type="email"
+                  value={invite.email}
+                  onChange={(e) => setInvite({ ...invite, email: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-muted-foreground mb-1">Role</label>
+                <select
+                  value={invite.role}
+                  onChange={(e) => setInvite({ ...invite, role: e.target.value as CompanyRole })}
+                  className={inputClassName}
+                >
+                  {(Object.keys(COMPANY_ROLE_LABELS) as CompanyRole[]).map((role) => (
+                    <option key={role} value={role}>{COMPANY_ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-xs text-muted-foreground">
+                The invitation link is valid for 14 days. Team members sign up with their own password.
+              </p>
+              <button
+                type="submit"
+                disabled={sending}
+                className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors text-sm font-medium disabled:opacity-50"
+              >
+                <Send className="w-4 h-4" />
+                {sending ? 'Sending...' : 'Send invitation'}
+              </button>
+            </div>
+          </form>
+        </>
+      )}
+    </div>
+  );
+}
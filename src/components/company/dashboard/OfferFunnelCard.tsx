@@ -0,0 +1,110 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Filter } from 'lucide-react';
+import { error as logError } from '@/utils/logger';
+import { funnelRate, getOfferFunnel, type OfferFunnel } from '@/utils/offerAnalytics';
+
+type OfferFunnelCardProps = {
+  companyId: string;
+  eventId?: string;
+};
+
+/**
+ * Where an offer loses students, when it has no bookings yet
+ */
+const getFunnelHint = (funnel: OfferFunnel): string | null => {
+  if (funnel.confirmed_bookings > 0) return null;
+  if (!funnel.is_active) return 'Inactive: students cannot see it';
+  if (funnel.views === 0) return 'Not viewed yet: check the title and tag';
+  if (funnel.slot_modal_opens === 0) return 'Viewed, but nobody looked for a slot';
+  return 'Slots were checked but none booked: add or open more slots';
+};
+
+/**
+ * OfferFunnelCard - Views, slot picker opens and bookings per offer
+ *
+ * Each offer shows how many students viewed it, opened its slot picker and
+ * booked, with the conversion between steps, and a hint on where students
+ * drop off when it has no booking yet.
+ *
+ * @component
+ * @param companyId - Company whose offers are shown
+ * @param eventId - Only offers of this event
+ *
+ * @example
+ * <OfferFunnelCard companyId={companyId} eventId={selectedEventId} />
+ */
+export default function OfferFunnelCard({ companyId, eventId }: OfferFunnelCardProps) {
+  const [funnels, setFunnels] = useState<OfferFunnel[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadFunnel = async () => {
+      try {
+        setLoading(true);
+        setFunnels(await getOfferFunnel(companyId, eventId));
+      } catch (err) {
+        logError('Error loading offer funnel:', err);
+        setFunnels([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadFunnel();
+  }, [companyId, eventId]);
+
+  if (loading || funnels.length === 0) {
+    return null;
+  }
+
+  const maxViews = Math.max(...funnels.map((f) => f.views), 1);
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 mt-8">
+      <div className="flex items-center justify-between gap-4 mb-1">
+        <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+          <Filter className="w-5 h-5 text-[#007e40]" />
+          Offer Funnel
+        </h2>
+        <Link to="/company/offers" className="text-sm text-[#007e40] hover:text-[#006633] font-medium">
+          Manage offers
+        </Link>
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Views and slot checks count once per student per day.
+      </p>
+
+      <div className="space-y-5">
+        {funnels.map((funnel) => {
+          const openRate = funnelRate(funnel.slot_modal_opens, funnel.unique_viewers);
+          const bookingRate = funnelRate(funnel.confirmed_bookings, funnel.slot_modal_opens);
+          const hint = getFunnelHint(funnel);
+
+          return (
+            <div key={funnel.offer_id}>
+              <div className="flex flex-wrap items-baseline justify-between gap-2 mb-2">
+                <p className="font-medium text-gray-900">{funnel.title}</p>
+                <p className="text-xs text-gray-500">
+                  {funnel.views} view{funnel.views !== 1 ? 's' : ''}
+                  {' → '}
+                  {funnel.slot_modal_opens} slot check{funnel.slot_modal_opens !== 1 ? 's' : ''}
+                  {openRate !== null && ` (${openRate}%)`}
+                  {' → '}
+                  {funnel.confirmed_bookings} booking{funnel.confirmed_bookings !== 1 ? 's' : ''}
+                  {bookingRate !== null && ` (${bookingRate}%)`}
+                </p>
+              </div>
+              <div className="space-y-1">
+                <div className="h-2 rounded-full bg-[#1a1f3a]" style={{ width: `${(funnel.views / maxViews) * 100}%` }} />
+                <div className="h-2 rounded-full bg-[#ffb300]" style={{ width: `${(funnel.slot_modal_opens / maxViews) * 100}%` }} />
+                <div className="h-2 rounded-full bg-[#007e40]" style={{ width: `${(funnel.confirmed_bookings / maxViews) * 100}%` }} />
+              </div>
+              {hint && <p className="text-xs text-amber-700 mt-2">{hint}</p>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
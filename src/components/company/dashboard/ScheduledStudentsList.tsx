@@ -1,6 +1,7 @@
 import { Link } from 'react-router-dom';
 import { Calendar, Users, Clock, FileText } from 'lucide-react';
-import { formatTime, formatDateShort } from '@/utils/dateUtils';
+import { formatTime, formatDateShort, type EventTimeContext } from '@/utils/dateUtils';
+import ViewerTimeHint from '@/components/shared/ViewerTimeHint';
 import type { ScheduledStudent } from '@/hooks/useCompanyStats';
 
 /**
@@ -11,11 +12,12 @@ import type { ScheduledStudent } from '@/hooks/useCompanyStats';
  * 
  * @component
  * @param students - Array of scheduled students
+ * @param event - Event the interviews belong to; times are shown in its timezone
  * 
  * @example
- * <ScheduledStudentsList students={scheduledStudents} />
+ * <ScheduledStudentsList students={scheduledStudents} event={selectedEvent} />
  */
-export default function ScheduledStudentsList({ students }: { students: ScheduledStudent[] }) {
+export default function ScheduledStudentsList({ students, event }: { students: ScheduledStudent[]; event: EventTimeContext }) {
   return (
     <div className="bg-card rounded-xl border border-border p-6">
       <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 mb-6">
@@ -65,11 +67,12 @@ export default function ScheduledStudentsList({ students }: { students: Schedule
               <div className="text-left sm:text-right sm:pl-0">
                 <div className="flex items-center gap-2 text-sm text-foreground font-medium mb-1 sm:justify-end">
                   <Clock className="w-4 h-4 flex-shrink-0" />
-                  <span>{formatTime(student.slot_start_time)}</span>
+                  <span>{formatTime(student.slot_start_time, event)}</span>
                 </div>
                 <p className="text-xs text-muted-foreground">
-                  {formatDateShort(student.slot_start_time)}
+                  {formatDateShort(student.slot_start_time, event)}
                 </p>
+                <ViewerTimeHint value={student.slot_start_time} event={event} withDate />
                 {student.slot_location && (
                   <p className="text-xs text-muted-foreground mt-1 break-words">{student.slot_location}</p>
                 )}
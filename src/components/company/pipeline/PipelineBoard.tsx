@@ -0,0 +1,294 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { History, Trash2, Users } from 'lucide-react';
+import { useToast } from '@/contexts/ToastContext';
+import EmptyState from '@/components/shared/EmptyState';
+import StageHistoryModal from '@/components/company/pipeline/StageHistoryModal';
+import { error as logError } from '@/utils/logger';
+import {
+  getPipelineCandidates,
+  moveCandidates,
+  removeCandidates,
+  type PipelineCandidate,
+  type PipelineOutcome,
+  type PipelineStage
+} from '@/utils/pipeline';
+
+const OUTCOME_STYLES: Record<PipelineOutcome, string> = {
+  active: 'border-t-blue-500',
+  offer: 'border-t-[#ffb300]',
+  hired: 'border-t-[#007e40]',
+  rejected: 'border-t-red-500',
+};
+
+type PipelineBoardProps = {
+  companyId: string;
+  eventId: string;
+  stages: PipelineStage[];
+  refreshKey?: number;
+};
+
+/**
+ * PipelineBoard - Kanban board of a company's candidates for one event
+ *
+ * Candidates move by drag and drop, with the stage menu on each card, or in
+ * bulk after selecting several cards. Every move is kept in the stage history.
+ *
+ * @component
+ * @param companyId - Company whose pipeline is shown
+ * @param eventId - Event the candidates were met at
+ * @param stages - Company pipeline stages, in column order
+ * @param refreshKey - Change to reload the candidates
+ *
+ * @example
+ * <PipelineBoard companyId={companyId} eventId={eventId} stages={stages} />
+ */
+export default function PipelineBoard({ companyId, eventId, stages, refreshKey = 0 }: PipelineBoardProps) {
+  const { showSuccess, showError } = useToast();
+  const [candidates, setCandidates] = useState<PipelineCandidate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkStageId, setBulkStageId] = useState('');
+  const [bulkNote, setBulkNote] = useState('');
+  const [moving, setMoving] = useState(false);
+  const [dragOverStageId, setDragOverStageId] = useState<string | null>(null);
+  const [historyCandidate, setHistoryCandidate] = useState<PipelineCandidate | null>(null);
+
+  const loadCandidates = useCallback(async () => {
+    try {
+      setLoading(true);
+      setCandidates(await getPipelineCandidates(companyId, eventId));
+    } catch (err) {
+      logError('Error loading pipeline:', err);
+      showError('Failed to load the candidate pipeline');
+    } finally {
+      setLoading(false);
+    }
+  }, [companyId, eventId, showError]);
+
+  useEffect(() => {
+    setSelectedIds(new Set());
+    loadCandidates();
+  }, [loadCandidates, refreshKey]);
+
+  const candidatesByStage = useMemo(() => {
+    const map = new Map<string, PipelineCandidate[]>(stages.map((stage) => [stage.id, []]));
+    candidates.forEach((candidate) => map.get(candidate.stage_id)?.push(candidate));
+    return map;
+  }, [candidates, stages]);
+
+  const move = async (studentIds: string[], stageId: string, note?: string) => {
+    try {
+      setMoving(true);
+      const result = await moveCandidates(eventId, studentIds, stageId, note);
+      if (!result.success) {
+        showError(result.message);
+        return false;
+      }
+      if (result.moved > 0) {
+        showSuccess(result.message);
+      }
+      await loadCandidates();
+      return true;
+    } catch (err) {
+      logError('Error moving candidates:', err);
+      showError('Failed to move candidates. Please try again.');
+      return false;
+    } finally {
+      setMoving(false);
+    }
+  };
+
+  const handleBulkMove = async () => {
+    if (!bulkStageId) return;
+    const studentIds = candidates.filter((c) => selectedIds.has(c.id)).map((c) => c.student_id);
+    if (await move(studentIds, bulkStageId, bulkNote)) {
+      setSelectedIds(new Set());
+      setBulkNote('');
+    }
+  };
+
+  const handleBulkRemove = async () => {
+    if (!confirm(`Remove ${selectedIds.size} candidate(s) from the pipeline? Their stage history is deleted too.`)) {
+      return;
+    }
+    try {
+      setMoving(true);
+      await removeCandidates([...selectedIds]);
+      setSelectedIds(new Set());
+      showSuccess('Candidates removed from the pipeline');
+      await loadCandidates();
+    } catch (err) {
+      logError('Error removing candidates:', err);
+      showError('Failed to remove candidates. Please try again.');
+    } finally {
+      setMoving(false);
+    }
+  };
+
+  const toggleSelected = (candidateId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(candidateId)) {
+        next.delete(candidateId);
+      } else {
+        next.add(candidateId);
+      }
+      return next;
+    });
+  };
+
+  const handleDrop = (event: React.DragEvent, stageId: string) => {
+    event.preventDefault();
+    setDragOverStageId(null);
+    const candidate = candidates.find((c) => c.id === event.dataTransfer.getData('text/plain'));
+    if (candidate && candidate.stage_id !== stageId) {
+      move([candidate.student_id], stageId);
+    }
+  };
+
+  if (loading) {
+    return <div className="bg-white rounded-lg border border-gray-200 p-8 text-center text-sm text-gray-500">Loading pipeline...</div>;
+  }
+
+  if (candidates.length === 0) {
+    return (
+      <EmptyState
+        icon={Users}
+        title="No candidates in this pipeline yet"
+        message="Select students in the directory and add them to a stage to start following up."
+        className="bg-white rounded-lg border border-gray-200"
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {selectedIds.size > 0 && (
+        <div className="bg-white rounded-lg border border-gray-200 p-4 flex flex-wrap items-center gap-3">
+          <span className="text-sm font-medium text-gray-900">{selectedIds.size} selected</span>
+          <select
+            value={bulkStageId}
+            onChange={(e) => setBulkStageId(e.target.value)}
+            className="px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-[#007e40]"
+          >
+            <option value="">Move to stage...</option>
+            {stages.map((stage) => (
+              <option key={stage.id} value={stage.id}>{stage.name}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={bulkNote}
+            onChange={(e) => setBulkNote(e.target.value)}
+            placeholder="Note for the history (optional)"
+            className="flex-1 min-w-[200px] px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-[#007e40]"
+          />
+          <button
+            onClick={handleBulkMove}
+            disabled={!bulkStageId || moving}
+            className="px-4 py-2 text-sm font-semibold text-white bg-[#007e40] hover:bg-[#006633] rounded-lg transition-colors disabled:opacity-50"
+          >
+            Move
+          </button>
+          <button
+            onClick={handleBulkRemove}
+            disabled={moving}
+            className="flex items-center gap-1 px-3 py-2 text-sm text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <Trash2 className="w-4 h-4" />
+            Remove
+          </button>
+          <button
+            onClick={() => setSelectedIds(new Set())}
+            className="px-3 py-2 text-sm text-gray-600 hover:text-gray-900"
+          >
+            Clear
+          </button>
+        </div>
+      )}
+
+      <div className="flex gap-4 overflow-x-auto pb-2">
+        {stages.map((stage) => {
+          const stageCandidates = candidatesByStage.get(stage.id) || [];
+          return (
+            <div
+              key={stage.id}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDragOverStageId(stage.id);
+              }}
+              onDragLeave={() => setDragOverStageId((current) => (current === stage.id ? null : current))}
+              onDrop={(e) => handleDrop(e, stage.id)}
+              className={`flex-shrink-0 w-72 bg-gray-100 rounded-lg border-t-4 ${OUTCOME_STYLES[stage.outcome]} ${
+                dragOverStageId === stage.id ? 'ring-2 ring-[#007e40]' : ''
+              }`}
+            >
+              <div className="flex items-center justify-between px-3 py-2">
+                <h3 className="text-sm font-semibold text-gray-900">{stage.name}</h3>
+                <span className="text-xs font-medium text-gray-500">{stageCandidates.length}</span>
+              </div>
+              <div className="px-2 pb-2 space-y-2 min-h-[120px]">
+                {stageCandidates.map((candidate) => (
+                  <div
+                    key={candidate.id}
+                    draggable={!moving}
+                    onDragStart={(e) => e.dataTransfer.setData('text/plain', candidate.id)}
+                    className={`bg-white rounded-lg border p-3 cursor-grab ${
+                      selectedIds.has(candidate.id) ? 'border-[#007e40]' : 'border-gray-200'
+                    }`}
+                  >
+                    <div className="flex items-start gap-2">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(candidate.id)}
+                        onChange={() => toggleSelected(candidate.id)}
+                        className="mt-1 w-4 h-4 accent-[#007e40]"
+                        aria-label={`Select ${candidate.full_name}`}
+                      />
+                      <div className="flex-1 min-w-0">
+                        <Link
+                          to={`/company/students/${candidate.student_id}`}
+                          className="block text-sm font-medium text-gray-900 hover:text-[#007e40] truncate"
+                        >
+                          {candidate.full_name}
+                        </Link>
+                        <p className="text-xs text-gray-500 truncate">{candidate.program || candidate.email}</p>
+                      </div>
+                      <button
+                        onClick={() => setHistoryCandidate(candidate)}
+                        className="p-1 text-gray-400 hover:text-gray-700"
+                        title="Stage history"
+                      >
+                        <History className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <select
+                      value={candidate.stage_id}
+                      onChange={(e) => move([candidate.student_id], e.target.value)}
+                      disabled={moving}
+                      className="mt-2 w-full px-2 py-1 bg-white border border-gray-200 rounded-md text-xs text-gray-700 focus:outline-none focus:ring-2 focus:ring-[#007e40]"
+                      aria-label={`Stage of ${candidate.full_name}`}
+                    >
+                      {stages.map((option) => (
+                        <option key={option.id} value={option.id}>{option.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {historyCandidate && (
+        <StageHistoryModal
+          candidateId={historyCandidate.id}
+          studentName={historyCandidate.full_name}
+          onClose={() => setHistoryCandidate(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2, X } from 'lucide-react';
+import { useToast } from '@/contexts/ToastContext';
+import { error as logError } from '@/utils/logger';
+import {
+  PIPELINE_OUTCOME_LABELS,
+  savePipelineStages,
+  type PipelineOutcome,
+  type PipelineStage,
+  type PipelineStageDraft
+} from '@/utils/pipeline';
+
+type PipelineStagesModalProps = {
+  companyId: string;
+  stages: PipelineStage[];
+  onClose: () => void;
+  onSaved: () => void;
+};
+
+/**
+ * PipelineStagesModal - Configure a company's pipeline stages
+ *
+ * Stages can be renamed, reordered, added and removed. The outcome of a stage
+ * is what the school's hiring reports count, so a renamed "Hired" stage still
+ * counts as a hire.
+ *
+ * @component
+ * @param companyId - Company whose stages are edited
+ * @param stages - Current stages
+ * @param onClose - Called when the modal closes
+ * @param onSaved - Called after saving
+ *
+ * @example
+ * <PipelineStagesModal companyId={companyId} stages={stages} onClose={close} onSaved={loadStages} />
+ */
+export default function PipelineStagesModal({ companyId, stages, onClose, onSaved }: PipelineStagesModalProps) {
+  const { showSuccess, showError } = useToast();
+  const [drafts, setDrafts] = useState<PipelineStageDraft[]>(
+    stages.map(({ id, name, outcome }) => ({ id, name, outcome }))
+  );
+  const [saving, setSaving] = useState(false);
+
+  const updateDraft = (index: number, changes: Partial<PipelineStageDraft>) => {
+    setDrafts((prev) => prev.map((d, i) => (i === index ? { ...d, ...changes } : d)));
+  };
+
+  const moveDraft = (index: number, direction: -1 | 1) => {
+    setDrafts((prev) => {
+      const next = [...prev];
+      [next[index], next[index + direction]] = [next[index + direction], next[index]];
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    const names = drafts.map((d) => d.name.trim().toLowerCase());
+    if (names.some((name) => !name)) {
+      showError('Every stage needs a name');
+      return;
+    }
+    if (new Set(names).size !== names.length) {
+      showError('Stage names must be unique');
+      return;
+    }
+    if (drafts.length === 0) {
+      showError('Keep at least one stage');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await savePipelineStages(companyId, drafts);
+      showSuccess('Pipeline stages saved');
+      onSaved();
+      onClose();
+    } catch (err) {
+      logError('Error saving pipeline stages:', err);
+      showError(err instanceof Error ? err.message : 'Failed to save pipeline stages');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl border border-gray-200 max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900">Pipeline Stages</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              The outcome tells the school which stages count as offers, hires and rejections.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-3">
+          {drafts.map((draft, index) => (
+            <div key={draft.id ?? `new-${index}`} className="flex flex-wrap items-center gap-2">
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => updateDraft(index, { name: e.target.value })}
+                className="flex-1 min-w-[160px] px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-[#007e40]"
+                placeholder="Stage name"
+              />
+              <select
+                value={draft.outcome}
+                onChange={(e) => updateDraft(index, { outcome: e.target.value as PipelineOutcome })}
+                className="px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-[#007e40]"
+              >
+                {(Object.keys(PIPELINE_OUTCOME_LABELS) as PipelineOutcome[]).map((outcome) => (
+                  <option key={outcome} value={outcome}>{PIPELINE_OUTCOME_LABELS[outcome]}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => moveDraft(index, -1)}
+                disabled={index === 0}
+                className="p-2 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                title="Move up"
+              >
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => moveDraft(index, 1)}
+                disabled={index === drafts.length - 1}
+                className="p-2 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                title="Move down"
+              >
+                <ArrowDown className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setDrafts((prev) => prev.filter((_, i) => i !== index))}
+                className="p-2 text-gray-400 hover:text-red-600"
+                title="Remove"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => setDrafts((prev) => [...prev, { name: '', outcome: 'active' }])}
+            className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-[#007e40] hover:bg-green-50 rounded-lg"
+          >
+            <Plus className="w-4 h-4" />
+            Add stage
+          </button>
+        </div>
+
+        <div className="flex items-center justify-end gap-3 p-6 border-t border-gray-200">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 text-sm font-semibold text-white bg-[#007e40] hover:bg-[#006633] rounded-lg transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Stages'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+import { ArrowRight, History, X } from 'lucide-react';
+import { error as logError } from '@/utils/logger';
+import { getStageHistory, type StageHistoryEntry } from '@/utils/pipeline';
+
+type StageHistoryModalProps = {
+  candidateId: string;
+  studentName: string;
+  onClose: () => void;
+};
+
+/**
+ * StageHistoryModal - Stage changes of a pipeline candidate
+ *
+ * @component
+ * @param candidateId - Pipeline candidate ID
+ * @param studentName - Shown in the header
+ * @param onClose - Called when the modal closes
+ *
+ * @example
+ * <StageHistoryModal candidateId={candidate.id} studentName={candidate.full_name} onClose={close} />
+ */
+export default function StageHistoryModal({ candidateId, studentName, onClose }: StageHistoryModalProps) {
+  const [history, setHistory] = useState<StageHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setHistory(await getStageHistory(candidateId));
+      } catch (err) {
+        logError('Error loading stage history:', err);
+        setFailed(true);
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [candidateId]);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl border border-gray-200 max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+              <History className="w-5 h-5 text-[#007e40]" />
+              Stage History
+            </h2>
+            <p className="text-sm text-gray-600 mt-1">{studentName}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          {loading ? (
+            <p className="text-sm text-gray-500">Loading history...</p>
+          ) : failed ? (
+            <p className="text-sm text-red-600">Failed to load the stage history.</p>
+          ) : history.length === 0 ? (
+            <p className="text-sm text-gray-500">No stage changes recorded.</p>
+          ) : (
+            <ol className="space-y-4">
+              {history.map((entry) => (
+                <li key={entry.id} className="border-l-2 border-[#007e40] pl-4">
+                  <div className="flex flex-wrap items-center gap-2 text-sm font-medium text-gray-900">
+                    {entry.from_stage_name ? (
+                      <>
+                        <span>{entry.from_stage_name}</span>
+                        <ArrowRight className="w-3.5 h-3.5 text-gray-400" />
+                      </>
+                    ) : (
+                      <span className="text-gray-500 font-normal">Added to</span>
+                    )}
+                    <span>{entry.to_stage_name}</span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {new Date(entry.changed_at).toLocaleString('en-US', {
+                      month: 'short',
+                      day: 'numeric',
+                      year: 'numeric',
+                      hour: '2-digit',
+                      minute: '2-digit'
+                    })}
+                    {entry.changed_by_name && ` · ${entry.changed_by_name}`}
+                  </p>
+                  {entry.note && <p className="text-sm text-gray-700 mt-1">{entry.note}</p>}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { AlertTriangle, Info, Megaphone, X } from 'lucide-react';
+import { useAnnouncements, type Announcement } from '@/hooks/useAnnouncements';
+
+const SEVERITY_STYLES: Record<Announcement['severity'], { container: string; icon: typeof Info }> = {
+  info: { container: 'bg-blue-50 border-blue-200 text-blue-900', icon: Info },
+  warning: { container: 'bg-amber-50 border-amber-200 text-amber-900', icon: Megaphone },
+  urgent: { container: 'bg-red-50 border-red-200 text-red-900', icon: AlertTriangle },
+};
+
+/**
+ * AnnouncementBanner - Active announcements of the signed-in user
+ *
+ * Shows one dismissible banner per announcement, most urgent first.
+ * Renders nothing when there is no announcement.
+ *
+ * @component
+ *
+ * @example
+ * <AnnouncementBanner />
+ */
+export default function AnnouncementBanner() {
+  const { announcements, dismiss } = useAnnouncements();
+
+  if (announcements.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-px">
+      {announcements.map((announcement) => {
+        const style = SEVERITY_STYLES[announcement.severity] || SEVERITY_STYLES.info;
+        const Icon = style.icon;
+
+        return (
+          <div key={announcement.id} role="status" className={`border-b ${style.container}`}>
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex items-start gap-3">
+              <Icon className="w-5 h-5 flex-shrink-0 mt-0.5" />
+              <div className="flex-1 min-w-0">
+                <p className="font-semibold">{announcement.title}</p>
+                <p className="text-sm whitespace-pre-line mt-0.5">{announcement.message}</p>
+              </div>
+              <button
+                onClick={() => dismiss(announcement.id)}
+                className="p-1 rounded-md hover:bg-black/5 transition-colors"
+                aria-label="Dismiss announcement"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
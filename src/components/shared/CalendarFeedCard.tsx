@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { CalendarPlus, Copy, RefreshCw } from 'lucide-react';
+import { useToast } from '@/contexts/ToastContext';
+import { getCalendarFeedUrl } from '@/utils/calendarExport';
+
+/**
+ * CalendarFeedCard - Subscribe to your interviews from a calendar app
+ *
+ * The feed URL contains a secret token and is only loaded on request.
+ * Resetting it replaces the token, so calendars subscribed to the previous
+ * URL stop updating.
+ *
+ * @component
+ *
+ * @example
+ * <CalendarFeedCard />
+ */
+export default function CalendarFeedCard() {
+  const { showSuccess, showError } = useToast();
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const loadFeedUrl = async (reset: boolean) => {
+    if (reset && !confirm('Reset the calendar link? Calendars subscribed to the current link stop updating.')) {
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setFeedUrl(await getCalendarFeedUrl(reset));
+      if (reset) {
+        showSuccess('Calendar link reset');
+      }
+    } catch (err) {
+      console.error('Error loading calendar feed:', err);
+      showError('Failed to load your calendar link. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      showSuccess('Calendar link copied');
+    } catch {
+      showError('Could not copy the link. Select it and copy it manually.');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="p-2 bg-green-50 rounded-lg">
+          <CalendarPlus className="w-5 h-5 text-[#007e40]" />
+        </div>
+        <div>
+          <h2 className="text-lg font-bold text-gray-900">Calendar Subscription</h2>
+          <p className="text-sm text-gray-600">
+            Keep your interviews in Google Calendar, Outlook or Apple Calendar, updated automatically
+          </p>
+        </div>
+      </div>
+
+      {feedUrl ? (
+        <div className="space-y-3">
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input
+              type="text"
+              readOnly
+              value={feedUrl}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-700 font-mono"
+            />
+            <button
+              onClick={handleCopy}
+              className="flex items-center justify-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-[#007e40] hover:bg-[#006633] rounded-lg transition-colors"
+            >
+              <Copy className="w-4 h-4" />
+              Copy
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <a
+              href={feedUrl.replace(/^https?:/, 'webcal:')}
+              className="font-semibold text-[#007e40] hover:underline"
+            >
+              Open in calendar app
+            </a>
+            <button
+              onClick={() => loadFeedUrl(true)}
+              disabled={loading}
+              className="flex items-center gap-1 text-gray-600 hover:text-gray-900 disabled:opacity-50"
+            >
+              <RefreshCw className="w-3.5 h-3.5" />
+              Reset link
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">
+            Anyone with this link can see your interviews. Reset it if you shared it by mistake.
+          </p>
+        </div>
+      ) : (
+        <button
+          onClick={() => loadFeedUrl(false)}
+          disabled={loading}
+          className="px-4 py-2 text-sm font-semibold text-[#007e40] hover:text-white bg-white hover:bg-[#007e40] border border-green-200 hover:border-[#007e40] rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {loading ? 'Loading...' : 'Get calendar link'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { useEffect, useState } from 'react';
+import { Copy, X } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { useToast } from '@/contexts/ToastContext';
+import { error as logError } from '@/utils/logger';
+import { copyOffersToEvent } from '@/utils/offerTemplates';
+
+type DuplicateOfferModalProps = {
+  offer: { id: string; title: string; event_id: string | null };
+  activeEventsOnly?: boolean;
+  onClose: () => void;
+  onDuplicated?: (offerId: string) => void;
+};
+
+type EventOption = { id: string; name: string; date: string };
+
+/**
+ * DuplicateOfferModal - Copy an offer to another event
+ *
+ * The copy keeps the offer content and interview rubric and starts inactive,
+ * so it can be reviewed and updated before students see it.
+ *
+ * @component
+ * @param offer - Offer to duplicate
+ * @param activeEventsOnly - Only list active events (company side)
+ * @param onClose - Called when the modal closes
+ * @param onDuplicated - Called with the ID of the new offer
+ *
+ * @example
+ * <DuplicateOfferModal offer={offer} activeEventsOnly onClose={close} onDuplicated={reload} />
+ */
+export default function DuplicateOfferModal({ offer, activeEventsOnly = false, onClose, onDuplicated }: DuplicateOfferModalProps) {
+  const { showSuccess, showError } = useToast();
+  const [events, setEvents] = useState<EventOption[]>([]);
+  const [eventId, setEventId] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [copying, setCopying] = useState(false);
+
+  useEffect(() => {
+    const loadEvents = async () => {
+      try {
+        let query = supabase.from('events').select('id, name, date').order('date', { ascending: false });
+        if (activeEventsOnly) {
+          query = query.eq('is_active', true);
+        }
+
+        const { data, error } = await query;
+        if (error) throw error;
+
+        const options = data || [];
+        setEvents(options);
+        setEventId(options.find((e) => e.id !== offer.event_id)?.id || options[0]?.id || '');
+      } catch (err) {
+        logError('Error loading events:', err);
+        showError('Failed to load events');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadEvents();
+  }, [activeEventsOnly, offer.event_id, showError]);
+
+  const handleDuplicate = async () => {
+    if (!eventId) return;
+    try {
+      setCopying(true);
+      const result = await copyOffersToEvent([offer.id], eventId);
+      showSuccess(result.message);
+      onDuplicated?.(result.offerIds[0]);
+      onClose();
+    } catch (err: any) {
+      logError('Error duplicating offer:', err);
+      showError(err.message || 'Failed to duplicate the offer');
+    } finally {
+      setCopying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl border border-gray-200 max-w-md w-full">
+        <div className="flex items-start justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900">Duplicate to event</h2>
+            <p className="text-sm text-gray-600 mt-1">{offer.title}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-3">
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <div className="w-6 h-6 border-2 border-[#007e40] border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : events.length === 0 ? (
+            <p className="text-sm text-gray-600">There is no event to copy this offer to.</p>
+          ) : (
+            <>
+              <label className="block text-sm font-medium text-gray-700">Target event</label>
+              <select
+                value={eventId}
+                onChange={(e) => setEventId(e.target.value)}
+                className="w-full px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-[#007e40]"
+              >
+                {events.map((event) => (
+                  <option key={event.id} value={event.id}>
+                    {event.name} - {new Date(event.date).toLocaleDateString()}
+                    {event.id === offer.event_id ? ' (current)' : ''}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500">
+                The copy keeps the description and interview rubric and starts inactive until you activate it.
+              </p>
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 p-6 border-t border-gray-200">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900">
+            Cancel
+          </button>
+          <button
+            onClick={handleDuplicate}
+            disabled={!eventId || copying}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-[#007e40] hover:bg-[#006633] rounded-lg transition-colors disabled:opacity-50"
+          >
+            <Copy className="w-4 h-4" />
+            {copying ? 'Duplicating...' : 'Duplicate'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
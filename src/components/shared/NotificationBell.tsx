@@ -0,0 +1,128 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Bell } from 'lucide-react';
+import { useNotifications, type Notification } from '@/hooks/useNotifications';
+import { formatTimeAgo } from '@/utils/dateUtils';
+
+type NotificationBellProps = {
+  notificationsPath: string;
+  buttonClassName?: string;
+  align?: 'left' | 'right';
+};
+
+// Notifications shown in the dropdown; the rest are on the full page
+const DROPDOWN_LIMIT = 8;
+
+/**
+ * NotificationBell - Bell with unread count and latest notifications
+ *
+ * Opens a dropdown with the most recent notifications. Clicking one marks it
+ * as read and follows its action link.
+ *
+ * @component
+ * @param notificationsPath - Full notifications page of the user's area
+ * @param buttonClassName - Colors of the bell button for the surrounding nav
+ * @param align - Side of the button the dropdown is anchored to
+ *
+ * @example
+ * <NotificationBell notificationsPath="/student/notifications" buttonClassName="text-white hover:bg-white/10" />
+ */
+export default function NotificationBell({
+  notificationsPath,
+  buttonClassName = 'text-muted-foreground hover:bg-muted hover:text-foreground',
+  align = 'right'
+}: NotificationBellProps) {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { notifications, unreadCount, markAsRead, markAllAsRead } = useNotifications(DROPDOWN_LIMIT);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  const handleOpen = (notification: Notification) => {
+    if (!notification.read) {
+      markAsRead(notification.id);
+    }
+    setOpen(false);
+    if (notification.action_url) {
+      navigate(notification.action_url);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`relative p-2 rounded-lg transition-all duration-200 ${buttonClassName}`}
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+      >
+        <Bell className="w-5 h-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 bg-red-600 text-white text-xs font-bold rounded-full flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className={`absolute ${align === 'right' ? 'right-0' : 'left-0'} mt-2 w-80 sm:w-96 bg-card border border-border rounded-xl shadow-xl z-50 overflow-hidden`}>
+          <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+            <h3 className="font-semibold text-foreground">Notifications</h3>
+            {unreadCount > 0 && (
+              <button
+                onClick={markAllAsRead}
+                className="text-xs font-medium text-primary hover:underline"
+              >
+                Mark all as read
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto divide-y divide-border">
+            {notifications.length === 0 ? (
+              <p className="px-4 py-8 text-sm text-center text-muted-foreground">No notifications yet</p>
+            ) : (
+              notifications.map((notification) => (
+                <button
+                  key={notification.id}
+                  onClick={() => handleOpen(notification)}
+                  className={`w-full text-left px-4 py-3 hover:bg-muted transition-colors ${
+                    notification.read ? '' : 'bg-primary/5'
+                  }`}
+                >
+                  <div className="flex items-start gap-2">
+                    {!notification.read && <span className="mt-1.5 w-2 h-2 bg-primary rounded-full flex-shrink-0" />}
+                    <div className="flex-1 min-w-0">
+                      <p className={`text-sm text-foreground ${notification.read ? '' : 'font-semibold'}`}>{notification.title}</p>
+                      <p className="text-xs text-muted-foreground mt-0.5 line-clamp-2">{notification.message}</p>
+                      <p className="text-xs text-muted-foreground mt-1">{formatTimeAgo(notification.created_at)}</p>
+                    </div>
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+
+          <Link
+            to={notificationsPath}
+            onClick={() => setOpen(false)}
+            className="block px-4 py-3 text-sm font-medium text-center text-primary border-t border-border hover:bg-muted transition-colors"
+          >
+            View all notifications
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
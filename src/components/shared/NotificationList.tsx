@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bell, CheckCheck } from 'lucide-react';
+import { useNotifications } from '@/hooks/useNotifications';
+import { formatTimeAgo } from '@/utils/dateUtils';
+import EmptyState from '@/components/shared/EmptyState';
+import LoadingTable from '@/components/shared/LoadingTable';
+
+// Enough history for the full page without paging
+const PAGE_LIMIT = 100;
+
+/**
+ * NotificationList - Full list of the signed-in user's notifications
+ *
+ * Filters between all and unread notifications, marks single notifications
+ * or all of them as read, and follows a notification's action link.
+ *
+ * @component
+ *
+ * @example
+ * <NotificationList />
+ */
+export default function NotificationList() {
+  const navigate = useNavigate();
+  const [filter, setFilter] = useState<'all' | 'unread'>('all');
+  const { notifications, unreadCount, loading, markAsRead, markAllAsRead } = useNotifications(PAGE_LIMIT);
+
+  const visible = filter === 'unread' ? notifications.filter((n) => !n.read) : notifications;
+
+  return (
+    <div className="bg-card rounded-xl border border-border overflow-hidden">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 border-b border-border">
+        <div className="flex gap-2">
+          {(['all', 'unread'] as const).map((value) => (
+            <button
+              key={value}
+              onClick={() => setFilter(value)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                filter === value
+                  ? 'bg-primary text-primary-foreground'
+                  : 'text-muted-foreground hover:bg-muted hover:text-foreground'
+              }`}
+            >
+              {value === 'all' ? 'All' : `Unread (${unreadCount})`}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={markAllAsRead}
+          disabled={unreadCount === 0}
+          className="flex items-center justify-center gap-2 px-4 py-2 border border-border rounded-lg text-sm font-medium hover:bg-muted transition-colors disabled:opacity-50"
+        >
+          <CheckCheck className="w-4 h-4" />
+          Mark all as read
+        </button>
+      </div>
+
+      {loading ? (
+        <LoadingTable columns={1} rows={5} />
+      ) : visible.length === 0 ? (
+        <EmptyState
+          icon={Bell}
+          title={filter === 'unread' ? 'All caught up' : 'No notifications yet'}
+          message={filter === 'unread' ? 'You have no unread notifications.' : 'Booking updates and announcements will show up here.'}
+          className="p-12"
+        />
+      ) : (
+        <div className="divide-y divide-border">
+          {visible.map((notification) => (
+            <div
+              key={notification.id}
+              className={`flex items-start gap-3 p-4 ${notification.read ? '' : 'bg-primary/5'}`}
+            >
+              <span className={`mt-2 w-2 h-2 rounded-full flex-shrink-0 ${notification.read ? 'bg-transparent' : 'bg-primary'}`} />
+              <div className="flex-1 min-w-0">
+                <div className="flex flex-wrap items-baseline justify-between gap-2">
+                  <p className={`text-foreground ${notification.read ? '' : 'font-semibold'}`}>{notification.title}</p>
+                  <span className="text-xs text-muted-foreground">{formatTimeAgo(notification.created_at)}</span>
+                </div>
+                <p className="text-sm text-muted-foreground mt-1">{notification.message}</p>
+                <div className="flex gap-4 mt-2">
+                  {notification.action_url && (
+                    <button
+                      onClick={() => {
+                        if (!notification.read) markAsRead(notification.id);
+                        navigate(notification.action_url!);
+                      }}
+                      className="text-sm font-medium text-primary hover:underline"
+                    >
+                      Open
+                    </button>
+                  )}
+                  {!notification.read && (
+                    <button
+                      onClick={() => markAsRead(notification.id)}
+                      className="text-sm text-muted-foreground hover:text-foreground"
+                    >
+                      Mark as read
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useToast } from '@/contexts/ToastContext';
+import { X, Clock, Calendar, MapPin, AlertTriangle } from 'lucide-react';
+import ViewerTimeHint from '@/components/shared/ViewerTimeHint';
+import { formatDate, formatDateTime, formatTime, type EventTimeContext } from '@/utils/dateUtils';
+
+type RescheduleOption = {
+  slot_id: string;
+  start_time: string;
+  end_time: string;
+  location: string | null;
+  capacity: number;
+  booked_count: number;
+  has_conflict: boolean;
+};
+
+type RescheduleBookingModalProps = {
+  bookingId: string;
+  companyName: string;
+  currentSlotTime: string;
+  event?: EventTimeContext;
+  onClose: () => void;
+  onRescheduled: () => void;
+};
+
+export default function RescheduleBookingModal({
+  bookingId,
+  companyName,
+  currentSlotTime,
+  event,
+  onClose,
+  onRescheduled,
+}: RescheduleBookingModalProps) {
+  const { showSuccess, showError } = useToast();
+  const [options, setOptions] = useState<RescheduleOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedSlotId, setSelectedSlotId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const loadOptions = async () => {
+      try {
+        setLoading(true);
+        const { data, error } = await supabase.rpc('fn_get_reschedule_options', {
+          p_booking_id: bookingId,
+        });
+
+        if (error) throw error;
+        setOptions(data || []);
+      } catch (err: any) {
+        console.error('Error loading reschedule options:', err);
+        showError('Failed to load available slots');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadOptions();
+  }, [bookingId, showError]);
+
+  const handleConfirm = async () => {
+    if (!selectedSlotId) return;
+
+    try {
+      setSaving(true);
+      const { data, error } = await supabase.rpc('fn_reschedule_booking', {
+        p_booking_id: bookingId,
+        p_new_slot_id: selectedSlotId,
+      });
+
+      if (error) throw error;
+
+      const result = data?.[0];
+      if (!result?.success) {
+        throw new Error(result?.message || 'Failed to change interview time');
+      }
+
+      showSuccess(result.message);
+      onRescheduled();
+    } catch (err: any) {
+      console.error('Error rescheduling booking:', err);
+      showError(err.message || 'Failed to change interview time');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-card rounded-xl border border-border max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-start justify-between p-6 border-b border-border">
+          <div>
+            <h2 className="text-xl font-semibold text-foreground">Change Interview Time</h2>
+            <p className="text-sm text-muted-foreground mt-1">
+              {companyName} · currently {formatDateTime(currentSlotTime, event)}{' '}
+              <ViewerTimeHint value={currentSlotTime} event={event} withDate />
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : options.length === 0 ? (
+            <div className="text-center py-8">
+              <Calendar className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+              <p className="text-sm text-muted-foreground">
+                There are no other slots with free seats for this company.
+              </p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {options.map((option) => {
+                const isSelected = selectedSlotId === option.slot_id;
+                return (
+                  <button
+                    key={option.slot_id}
+                    onClick={() => setSelectedSlotId(option.slot_id)}
+                    disabled={option.has_conflict}
+                    className={`p-3 rounded-lg border-2 text-left transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                      isSelected
+                        ? 'border-primary bg-primary/10'
+                        : 'border-border hover:border-primary/50'
+                    }`}
+                  >
+                    <div className="flex items-center gap-1.5 font-semibold text-foreground">
+                      <Clock className="w-4 h-4 text-primary" />
+                      {formatTime(option.start_time, event)}
+                    </div>
+                    <div className="text-xs text-muted-foreground mt-1">
+                      {formatDate(option.start_time, { weekday: 'short', month: 'short', day: 'numeric' }, event)}
+                    </div>
+                    <ViewerTimeHint value={option.start_time} event={event} className="block text-xs text-muted-foreground" />
+                    {option.location && (
+                      <div className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+                        <MapPin className="w-3 h-3" />
+                        <span className="truncate">{option.location}</span>
+                      </div>
+                    )}
+                    <div className="text-xs text-muted-foreground mt-1">
+                      {option.capacity - option.booked_count} of {option.capacity} seats left
+                    </div>
+                    {option.has_conflict && (
+                      <div className="flex items-center gap-1 text-xs text-orange-600 mt-1">
+                        <AlertTriangle className="w-3 h-3" />
+                        Time conflict
+                      </div>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="flex gap-3 p-6 border-t border-border">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2.5 text-sm font-semibold text-foreground bg-muted hover:bg-muted/80 rounded-lg transition-colors"
+          >
+            Keep Current Time
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={!selectedSlotId || saving}
+            className="flex-1 px-4 py-2.5 text-sm font-semibold text-white bg-[#007e40] hover:bg-[#006633] rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Moving...' : 'Confirm New Time'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import { BookmarkPlus, X } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { useToast } from '@/contexts/ToastContext';
+import { error as logError } from '@/utils/logger';
+import { saveOfferAsTemplate } from '@/utils/offerTemplates';
+
+type SaveOfferTemplateModalProps = {
+  offer: { id: string; title: string };
+  onClose: () => void;
+  onSaved?: () => void;
+};
+
+/**
+ * SaveOfferTemplateModal - Save an offer to its company's template library
+ *
+ * New offers of the company can then be prefilled from the template.
+ *
+ * @component
+ * @param offer - Offer to save
+ * @param onClose - Called when the modal closes
+ * @param onSaved - Called after the template was saved
+ *
+ * @example
+ * <SaveOfferTemplateModal offer={offer} onClose={close} onSaved={reloadTemplates} />
+ */
+export default function SaveOfferTemplateModal({ offer, onClose, onSaved }: SaveOfferTemplateModalProps) {
+  const { showSuccess, showError } = useToast();
+  const [name, setName] = useState(offer.title);
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    try {
+      setSaving(true);
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      await saveOfferAsTemplate(offer.id, name, user.id);
+      showSuccess('Template saved');
+      onSaved?.();
+      onClose();
+    } catch (err: any) {
+      logError('Error saving offer template:', err);
+      showError(err.message || 'Failed to save the template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <form onSubmit={handleSave} className="bg-white rounded-xl border border-gray-200 max-w-md w-full">
+        <div className="flex items-start justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900">Save as template</h2>
+            <p className="text-sm text-gray-600 mt-1">Reuse this offer when creating offers for future events.</p>
+          </div>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-700" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Template name</label>
+          <input
+            type="text"
+            required
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="w-full px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-[#007e40]"
+          />
+        </div>
+
+        <div className="flex items-center justify-end gap-3 p-6 border-t border-gray-200">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!name.trim() || saving}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-[#007e40] hover:bg-[#006633] rounded-lg transition-colors disabled:opacity-50"
+          >
+            <BookmarkPlus className="w-4 h-4" />
+            {saving ? 'Saving...' : 'Save template'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
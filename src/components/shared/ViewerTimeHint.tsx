@@ -0,0 +1,36 @@
+import { formatViewerTime, getViewerTimezone, type EventTimeContext } from '@/utils/dateUtils';
+
+type ViewerTimeHintProps = {
+  value: string;
+  event: EventTimeContext;
+  withDate?: boolean;
+  className?: string;
+};
+
+/**
+ * ViewerTimeHint - The viewer's local time next to an event time
+ *
+ * Renders nothing when the viewer is in the event's timezone.
+ *
+ * @component
+ * @param value - ISO timestamp shown in the event's timezone next to this
+ * @param event - Event the time belongs to
+ * @param withDate - Include the date, for times that can fall on another day
+ * @param className - Overrides the default muted text style
+ *
+ * @example
+ * {formatTime(slot.start_time, event)} <ViewerTimeHint value={slot.start_time} event={event} />
+ */
+export default function ViewerTimeHint({ value, event, withDate = false, className }: ViewerTimeHintProps) {
+  const viewerTime = formatViewerTime(value, event, withDate);
+
+  if (!viewerTime) {
+    return null;
+  }
+
+  return (
+    <span className={className ?? 'text-xs text-muted-foreground'} title={`Your timezone: ${getViewerTimezone()}`}>
+      ({viewerTime})
+    </span>
+  );
+}
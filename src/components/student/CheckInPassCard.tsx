@@ -0,0 +1,69 @@
+import { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { QrCode } from 'lucide-react';
+
+export type CheckInPass = {
+  event_id: string;
+  event_name: string;
+  event_date: string;
+  short_code: string;
+  qr_payload: string;
+};
+
+/**
+ * CheckInPassCard - Student's event-day check-in pass
+ *
+ * Shows the signed QR code recruiters scan at the interview and the short
+ * code they can type instead.
+ *
+ * @component
+ * @param pass - Pass returned by fn_get_student_check_in_passes
+ *
+ * @example
+ * <CheckInPassCard pass={pass} />
+ */
+export default function CheckInPassCard({ pass }: { pass: CheckInPass }) {
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    QRCode.toDataURL(pass.qr_payload, { margin: 1, width: 320 })
+      .then(setQrDataUrl)
+      .catch((err) => console.error('Error rendering check-in QR code:', err));
+  }, [pass.qr_payload]);
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="p-2 bg-green-50 rounded-lg">
+          <QrCode className="w-5 h-5 text-[#007e40]" />
+        </div>
+        <div>
+          <h2 className="text-lg font-bold text-gray-900">Check-in Pass</h2>
+          <p className="text-sm text-gray-600">
+            {pass.event_name} · {new Date(pass.event_date).toLocaleDateString('en-US', {
+              weekday: 'long',
+              month: 'long',
+              day: 'numeric'
+            })}
+          </p>
+        </div>
+      </div>
+      <div className="flex flex-col sm:flex-row items-center gap-6">
+        {qrDataUrl ? (
+          <img
+            src={qrDataUrl}
+            alt={`Check-in QR code for ${pass.event_name}`}
+            className="w-40 h-40 border border-gray-200 rounded-lg"
+          />
+        ) : (
+          <div className="w-40 h-40 bg-gray-100 rounded-lg animate-pulse" />
+        )}
+        <div className="text-center sm:text-left">
+          <p className="text-sm text-gray-600 mb-1">Show this code to the recruiter at each interview</p>
+          <p className="text-xs text-gray-500 mb-3">If the scan does not work, they can type:</p>
+          <p className="font-mono text-3xl font-bold tracking-widest text-[#1a1f3a]">{pass.short_code}</p>
+        </div>
+      </div>
+    </div>
+  );
+}
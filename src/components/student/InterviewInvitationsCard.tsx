@@ -0,0 +1,248 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Building2, Calendar, Check, Mail, MapPin, X } from 'lucide-react';
+import { useToast } from '@/contexts/ToastContext';
+import { error as logError } from '@/utils/logger';
+import { formatDateTime } from '@/utils/dateUtils';
+import ScreeningQuestionsForm from '@/components/student/ScreeningQuestionsForm';
+import {
+  getMissingScreeningAnswers,
+  getScreeningQuestions,
+  type ScreeningAnswerDrafts,
+  type ScreeningQuestion
+} from '@/utils/screeningQuestions';
+import {
+  INVITATION_STATUS_LABELS,
+  INVITATION_STATUS_STYLES,
+  getInterviewInvitations,
+  respondToInterviewInvitation,
+  type InterviewInvitation
+} from '@/utils/interviewInvitations';
+
+type InterviewInvitationsCardProps = {
+  highlightId?: string | null;
+  onBooked?: () => void;
+};
+
+/**
+ * InterviewInvitationsCard - Interview invitations received from companies
+ *
+ * Open invitations come first with Accept (books the slot) and Decline
+ * buttons; answered, expired and withdrawn ones are listed below with their
+ * status. When the offer has screening questions, Accept first asks for the
+ * answers. Renders nothing when the student never received an invitation.
+ *
+ * @component
+ * @param highlightId - Invitation opened from a notification or email link
+ * @param onBooked - Called after an invitation was accepted
+ *
+ * @example
+ * <InterviewInvitationsCard highlightId={searchParams.get('invitation')} onBooked={reload} />
+ */
+export default function InterviewInvitationsCard({ highlightId, onBooked }: InterviewInvitationsCardProps) {
+  const { showSuccess, showError } = useToast();
+  const [invitations, setInvitations] = useState<InterviewInvitation[]>([]);
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  // Invitation whose screening questions are being answered before accepting
+  const [answeringId, setAnsweringId] = useState<string | null>(null);
+  const [screeningQuestions, setScreeningQuestions] = useState<ScreeningQuestion[]>([]);
+  const [screeningAnswers, setScreeningAnswers] = useState<ScreeningAnswerDrafts>({});
+
+  const loadInvitations = useCallback(async () => {
+    try {
+      setInvitations(await getInterviewInvitations());
+    } catch (err) {
+      logError('Error loading interview invitations:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadInvitations();
+  }, [loadInvitations]);
+
+  useEffect(() => {
+    if (!highlightId || invitations.length === 0) return;
+    const highlighted = invitations.find((i) => i.id === highlightId);
+    if (highlighted && highlighted.status !== 'sent') {
+      setShowHistory(true);
+    }
+    document.getElementById(`invitation-${highlightId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlightId, invitations]);
+
+  const handleRespond = async (
+    invitation: InterviewInvitation,
+    accept: boolean,
+    answers: ScreeningAnswerDrafts = {}
+  ) => {
+    if (!accept && !confirm(`Decline the invitation from ${invitation.company_name}?`)) return;
+    try {
+      setRespondingId(invitation.id);
+      showSuccess(await respondToInterviewInvitation(invitation.id, accept, answers));
+      setAnsweringId(null);
+      if (accept) {
+        onBooked?.();
+      }
+    } catch (err: any) {
+      logError('Error answering interview invitation:', err);
+      showError(err.message || 'Failed to answer the invitation');
+    } finally {
+      setRespondingId(null);
+      loadInvitations();
+    }
+  };
+
+  const handleAccept = async (invitation: InterviewInvitation) => {
+    try {
+      setRespondingId(invitation.id);
+      const questions = await getScreeningQuestions(invitation.offer_id);
+      if (questions.length > 0) {
+        setScreeningQuestions(questions);
+        setScreeningAnswers({});
+        setAnsweringId(invitation.id);
+        setRespondingId(null);
+        return;
+      }
+    } catch (err: any) {
+      logError('Error loading screening questions:', err);
+      showError(err.message || 'Failed to load the screening questions');
+      setRespondingId(null);
+      return;
+    }
+    await handleRespond(invitation, true);
+  };
+
+  if (invitations.length === 0) {
+    return null;
+  }
+
+  const open = invitations.filter((i) => i.status === 'sent');
+  const history = invitations.filter((i) => i.status !== 'sent');
+
+  const renderInvitation = (invitation: InterviewInvitation) => {
+    const event = { timezone: invitation.event_timezone };
+    const isOpen = invitation.status === 'sent';
+    const isAnswering = isOpen && answeringId === invitation.id;
+    const missingAnswers = isAnswering ? getMissingScreeningAnswers(screeningQuestions, screeningAnswers) : [];
+
+    return (
+      <div
+        key={invitation.id}
+        id={`invitation-${invitation.id}`}
+        className={`rounded-lg border p-4 ${
+          invitation.id === highlightId ? 'border-[#007e40] ring-2 ring-[#007e40]/20' : 'border-gray-200'
+        }`}
+      >
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div className="space-y-1">
+            <p className="font-semibold text-gray-900 flex items-center gap-2">
+              <Building2 className="w-4 h-4 text-gray-500" />
+              {invitation.company_name}
+            </p>
+            <p className="text-sm text-gray-700">{invitation.offer_title}</p>
+            <p className="text-sm text-gray-600 flex items-center gap-2">
+              <Calendar className="w-4 h-4" />
+              {invitation.event_name ? `${invitation.event_name} - ` : ''}
+              {formatDateTime(invitation.start_time, event)}
+            </p>
+            {invitation.location && (
+              <p className="text-sm text-gray-600 flex items-center gap-2">
+                <MapPin className="w-4 h-4" />
+                {invitation.location}
+              </p>
+            )}
+          </div>
+          {isOpen ? (
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => handleRespond(invitation, false)}
+                disabled={respondingId === invitation.id}
+                className="flex items-center gap-1 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-200 rounded-lg hover:border-red-300 hover:text-red-600 transition-colors disabled:opacity-50"
+              >
+                <X className="w-4 h-4" />
+                Decline
+              </button>
+              {!isAnswering && (
+                <button
+                  onClick={() => handleAccept(invitation)}
+                  disabled={respondingId === invitation.id}
+                  className="flex items-center gap-1 px-4 py-2 text-sm font-semibold text-white bg-[#007e40] hover:bg-[#006633] rounded-lg transition-colors disabled:opacity-50"
+                >
+                  <Check className="w-4 h-4" />
+                  {respondingId === invitation.id ? 'Booking...' : 'Accept and book'}
+                </button>
+              )}
+            </div>
+          ) : (
+            <span className={`text-xs font-medium px-2 py-1 rounded-full ${INVITATION_STATUS_STYLES[invitation.status]}`}>
+              {INVITATION_STATUS_LABELS[invitation.status]}
+            </span>
+          )}
+        </div>
+        {invitation.message && (
+          <p className="mt-3 text-sm text-gray-700 italic bg-gray-50 rounded-lg p-3">"{invitation.message}"</p>
+        )}
+        {isAnswering && (
+          <div className="mt-3">
+            <ScreeningQuestionsForm
+              questions={screeningQuestions}
+              answers={screeningAnswers}
+              onChange={setScreeningAnswers}
+            />
+            <div className="flex items-center justify-end gap-2">
+              <button
+                onClick={() => setAnsweringId(null)}
+                disabled={respondingId === invitation.id}
+                className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
+                Back
+              </button>
+              <button
+                onClick={() => handleRespond(invitation, true, screeningAnswers)}
+                disabled={respondingId === invitation.id || missingAnswers.length > 0}
+                className="flex items-center gap-1 px-4 py-2 text-sm font-semibold text-white bg-[#007e40] hover:bg-[#006633] rounded-lg transition-colors disabled:opacity-50"
+              >
+                <Check className="w-4 h-4" />
+                {respondingId === invitation.id ? 'Booking...' : 'Confirm and book'}
+              </button>
+            </div>
+          </div>
+        )}
+        {isOpen && (
+          <p className="mt-3 text-xs text-gray-500">Answer before {formatDateTime(invitation.expires_at, event)}</p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-6 sm:px-8 lg:px-12 pt-8">
+      <div className="bg-white rounded-lg border border-gray-200 p-6">
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+            <Mail className="w-5 h-5 text-[#007e40]" />
+            Interview Invitations
+            {open.length > 0 && (
+              <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-[#ffb300] text-white">{open.length}</span>
+            )}
+          </h2>
+          {history.length > 0 && (
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              className="text-sm text-gray-600 hover:text-gray-900"
+            >
+              {showHistory ? 'Hide past invitations' : `Past invitations (${history.length})`}
+            </button>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          {open.length === 0 && !showHistory && (
+            <p className="text-sm text-gray-600">No invitation is waiting for your answer.</p>
+          )}
+          {open.map(renderInvitation)}
+          {showHistory && history.map(renderInvitation)}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { ListChecks } from 'lucide-react';
+import {
+  MAX_SCREENING_ANSWER_LENGTH,
+  type ScreeningAnswerDrafts,
+  type ScreeningQuestion,
+} from '@/utils/screeningQuestions';
+
+type ScreeningQuestionsFormProps = {
+  questions: ScreeningQuestion[];
+  answers: ScreeningAnswerDrafts;
+  onChange: (answers: ScreeningAnswerDrafts) => void;
+};
+
+/**
+ * ScreeningQuestionsForm - Answers to an offer's screening questions
+ *
+ * Shown in the booking confirmation step, when joining the waitlist and when
+ * accepting an interview invitation. Renders nothing when the offer has no
+ * questions.
+ *
+ * @component
+ * @param questions - Questions of the offer being booked
+ * @param answers - Answers so far, by question id
+ * @param onChange - Called with all answers when one changes
+ *
+ * @example
+ * <ScreeningQuestionsForm questions={screeningQuestions} answers={screeningAnswers} onChange={setScreeningAnswers} />
+ */
+export default function ScreeningQuestionsForm({ questions, answers, onChange }: ScreeningQuestionsFormProps) {
+  if (questions.length === 0) {
+    return null;
+  }
+
+  const setAnswer = (questionId: string, answer: string) => {
+    onChange({ ...answers, [questionId]: answer });
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 bg-card border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary';
+
+  return (
+    <div className="mb-4 p-4 bg-muted/40 rounded-xl border border-border space-y-3">
+      <div className="flex items-center gap-2">
+        <div className="p-1.5 bg-primary/10 rounded-lg">
+          <ListChecks className="w-4 h-4 text-primary" />
+        </div>
+        <div>
+          <h3 className="text-sm font-bold text-foreground">Questions from the company</h3>
+          <p className="text-xs text-muted-foreground">Your answers are shared with the company when you are booked</p>
+        </div>
+      </div>
+
+      {questions.map((question) => {
+        const answer = answers[question.id] ?? '';
+
+        return (
+          <div key={question.id}>
+            <label className="block text-sm font-medium text-foreground mb-1">
+              {question.question}
+              {question.is_required && <span className="text-red-600"> *</span>}
+            </label>
+
+            {question.question_type === 'short_text' && (
+              <input
+                type="text"
+                value={answer}
+                onChange={(e) => setAnswer(question.id, e.target.value)}
+                maxLength={MAX_SCREENING_ANSWER_LENGTH}
+                className={inputClass}
+              />
+            )}
+
+            {question.question_type === 'yes_no' && (
+              <div className="flex gap-2">
+                {(['yes', 'no'] as const).map((value) => (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() => setAnswer(question.id, value)}
+                    className={`px-4 py-1.5 rounded-lg border text-sm font-medium transition-colors ${
+                      answer === value
+                        ? 'border-primary bg-primary/10 text-primary'
+                        : 'border-border bg-card text-foreground hover:border-primary/50'
+                    }`}
+                  >
+                    {value === 'yes' ? 'Yes' : 'No'}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {question.question_type === 'multiple_choice' && (
+              <select
+                value={answer}
+                onChange={(e) => setAnswer(question.id, e.target.value)}
+                className={inputClass}
+              >
+                <option value="">Select an answer</option>
+                {question.options.map((option) => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { ReactNode } from 'react';
 import StudentSidebar from './StudentSidebar';
+import AnnouncementBanner from '@/components/shared/AnnouncementBanner';
 
 interface StudentLayoutProps {
   children: ReactNode;
@@ -10,6 +11,7 @@ export default function StudentLayout({ children, onSignOut }: StudentLayoutProp
   return (
     <div className="min-h-screen bg-background">
       <StudentSidebar onSignOut={onSignOut} />
+      <AnnouncementBanner />
       <main className="w-full">
         {children}
       </main>
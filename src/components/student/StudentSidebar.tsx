@@ -1,10 +1,12 @@
 import { Link, useLocation } from 'react-router-dom';
 import { useEffect, useState } from 'react';
+import NotificationBell from '@/components/shared/NotificationBell';
 import { 
   LayoutDashboard, 
   Briefcase, 
   Building2, 
   Calendar, 
+  ListOrdered,
   User,
   Menu,
   X
@@ -59,6 +61,11 @@ export default function StudentSidebar({ onSignOut }: StudentSidebarProps) {
       path: '/student/bookings',
       icon: Calendar,
     },
+    {
+      title: 'Preferences',
+      path: '/student/preferences',
+      icon: ListOrdered,
+    },
     {
       title: 'Profile',
 
@@ -114,8 +121,12 @@ export default function StudentSidebar({ onSignOut }: StudentSidebarProps) {
               })}
             </div>
 
-            {/* Desktop Sign Out Button */}
-            <div className="hidden lg:block">
+            {/* Desktop Notifications and Sign Out */}
+            <div className="hidden lg:flex items-center gap-3">
+              <NotificationBell
+                notificationsPath="/student/notifications"
+                buttonClassName={isScrolled ? 'text-gray-900 hover:bg-gray-100' : 'text-white hover:bg-white/10'}
+              />
               <button
                 onClick={onSignOut}
                 className="bg-[#ffb300] text-white px-6 py-2.5 rounded-lg hover:bg-[#e6a200] transition-all duration-200 font-semibold shadow-lg hover:shadow-xl hover:scale-105"
@@ -126,6 +137,10 @@ export default function StudentSidebar({ onSignOut }: StudentSidebarProps) {
 
             {/* Mobile Menu Button */}
             <div className="lg:hidden flex items-center gap-3">
+              <NotificationBell
+                notificationsPath="/student/notifications"
+                buttonClassName={isScrolled ? 'text-gray-900 hover:bg-gray-100' : 'text-white hover:bg-white/10'}
+              />
               <button
                 onClick={onSignOut}
                 className={`px-4 py-2 rounded-lg transition-all duration-200 font-semibold text-sm ${
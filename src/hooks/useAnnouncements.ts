@@ -0,0 +1,82 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useUser } from '@/contexts/UserContext';
+
+/**
+ * Announcement shown to the signed-in user
+ */
+export type Announcement = {
+  id: string;
+  title: string;
+  message: string;
+  severity: 'info' | 'warning' | 'urgent';
+  starts_at: string;
+  ends_at: string | null;
+};
+
+// Scheduled announcements appear without a reload
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Custom hook for the active announcements of the signed-in user
+ *
+ * Loads the announcements targeted at the user that have started, have not
+ * ended and were not dismissed, and dismisses them for good.
+ *
+ * @returns Object with announcements, loading state, dismiss and refetch
+ *
+ * @example
+ * const { announcements, dismiss } = useAnnouncements();
+ */
+export function useAnnouncements() {
+  const { user } = useUser();
+  const userId = user?.id ?? null;
+  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadAnnouncements = useCallback(async () => {
+    if (!userId) {
+      setAnnouncements([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('fn_get_my_announcements');
+      if (error) throw error;
+      setAnnouncements((data || []) as Announcement[]);
+    } catch (err) {
+      console.error('Error loading announcements:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadAnnouncements();
+    const interval = setInterval(loadAnnouncements, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadAnnouncements]);
+
+  const dismiss = useCallback(async (announcementId: string) => {
+    if (!userId) return;
+
+    setAnnouncements((prev) => prev.filter((a) => a.id !== announcementId));
+
+    const { error } = await supabase
+      .from('announcement_dismissals')
+      .insert({ announcement_id: announcementId, user_id: userId });
+
+    if (error) {
+      console.error('Error dismissing announcement:', error);
+      await loadAnnouncements();
+    }
+  }, [userId, loadAnnouncements]);
+
+  return {
+    announcements,
+    loading,
+    dismiss,
+    refetch: loadAnnouncements,
+  };
+}
@@ -10,6 +10,7 @@ export type CompanyEvent = {
   name: string;
   date: string;
   location: string | null;
+  timezone: string;
 };
 
 /**
@@ -38,7 +39,7 @@ export function useCompanyEvents(companyId: string | null) {
       // Supabase returns nested objects that need type extraction
       const { data: participations } = await supabase
         .from('event_participants')
-        .select('events(id, name, date, location)')
+        .select('events(id, name, date, location, timezone)')
         .eq('company_id', companyId)
         .gte('events.date', new Date().toISOString());
 
@@ -0,0 +1,70 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+
+/**
+ * Attendance figures of one company at an event
+ */
+export type CompanyAttendance = {
+  company_id: string;
+  company_name: string;
+  booked: number;
+  due: number;
+  checked_in: number;
+  no_shows: number;
+  attendance_rate: number;
+};
+
+// Check-ins happen continuously on event day
+const REFRESH_INTERVAL_MS = 30000;
+
+/**
+ * Custom hook for live event-day attendance
+ * 
+ * Loads per-company attendance (interviews booked, already due, checked in,
+ * no-shows) and refreshes it every 30 seconds while mounted.
+ * 
+ * @param eventId - The event ID to fetch attendance for
+ * @returns Object with per-company rows, loading state and refetch
+ * 
+ * @example
+ * const { rows, loading } = useEventAttendance(eventId);
+ */
+export function useEventAttendance(eventId: string | null) {
+  const [rows, setRows] = useState<CompanyAttendance[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadAttendance = useCallback(async () => {
+    if (!eventId) {
+      setRows([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('fn_get_event_attendance', {
+        p_event_id: eventId,
+      });
+
+      if (error) throw error;
+      setRows(data || []);
+    } catch (err) {
+      console.error('Error loading event attendance:', err);
+      setRows([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadAttendance();
+    const interval = setInterval(loadAttendance, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadAttendance]);
+
+  return {
+    rows,
+    loading,
+    refetch: loadAttendance,
+  };
+}
@@ -0,0 +1,66 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+
+/**
+ * Hiring outcomes of one company at an event
+ */
+export type CompanyHiringOutcome = {
+  company_id: string;
+  company_name: string;
+  candidates: number;
+  in_progress: number;
+  offers: number;
+  hired: number;
+  rejected: number;
+  placed_students: number;
+};
+
+/**
+ * Custom hook for post-event hiring outcomes
+ * 
+ * Loads the candidates each company follows up in its pipeline, grouped by
+ * outcome (in progress, offer extended, hired, rejected).
+ * 
+ * @param eventId - The event ID to fetch outcomes for
+ * @returns Object with per-company rows, loading state and refetch
+ * 
+ * @example
+ * const { rows, loading } = useEventHiringOutcomes(eventId);
+ */
+export function useEventHiringOutcomes(eventId: string | null) {
+  const [rows, setRows] = useState<CompanyHiringOutcome[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadOutcomes = useCallback(async () => {
+    if (!eventId) {
+      setRows([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('fn_get_event_hiring_outcomes', {
+        p_event_id: eventId,
+      });
+
+      if (error) throw error;
+      setRows(data || []);
+    } catch (err) {
+      console.error('Error loading hiring outcomes:', err);
+      setRows([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadOutcomes();
+  }, [loadOutcomes]);
+
+  return {
+    rows,
+    loading,
+    refetch: loadOutcomes,
+  };
+}
@@ -14,6 +14,7 @@ export type Event = {
   current_phase: number | null;
   phase1_max_bookings: number | null;
   phase2_max_bookings: number | null;
+  event_phases: { phase_number: number; name: string; max_bookings: number }[];
 };
 
 /**
@@ -35,7 +36,7 @@ export function useEvents() {
     queryFn: async () => {
       const { data, error } = await supabase
         .from('events')
-        .select('id, name, date, location, current_phase, phase1_max_bookings, phase2_max_bookings')
+        .select('id, name, date, location, current_phase, phase1_max_bookings, phase2_max_bookings, event_phases (phase_number, name, max_bookings)')
         .order('date', { ascending: true });
       
       if (error) throw error;
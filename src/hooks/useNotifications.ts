@@ -0,0 +1,179 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useUser } from '@/contexts/UserContext';
+
+/**
+ * In-app notification of the signed-in user
+ */
+export type Notification = {
+  id: string;
+  title: string;
+  message: string;
+  type: string;
+  action_url: string | null;
+  read: boolean;
+  read_at: string | null;
+  created_at: string;
+};
+
+// Each mounted hook gets its own realtime channel
+let channelCounter = 0;
+
+/**
+ * Custom hook for the signed-in user's notifications
+ *
+ * Loads the most recent notifications and the unread count, keeps both live
+ * through Supabase realtime, and marks notifications as read.
+ *
+ * @param limit - Number of most recent notifications to keep
+ * @returns Object with notifications, unread count, loading state and actions
+ *
+ * @example
+ * const { notifications, unreadCount, markAsRead, markAllAsRead } = useNotifications(10);
+ */
+export function useNotifications(limit = 50) {
+  const { user } = useUser();
+  const userId = user?.id ?? null;
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const channelId = useRef(++channelCounter);
+
+  const loadUnreadCount = useCallback(async () => {
+    if (!userId) return;
+
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('read', false);
+
+    if (error) {
+      console.error('Error counting unread notifications:', error);
+      return;
+    }
+    setUnreadCount(count || 0);
+  }, [userId]);
+
+  const loadNotifications = useCallback(async () => {
+    if (!userId) {
+      setNotifications([]);
+      setUnreadCount(0);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('id, title, message, type, action_url, read, read_at, created_at')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      setNotifications(data || []);
+      await loadUnreadCount();
+    } catch (err) {
+      console.error('Error loading notifications:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, limit, loadUnreadCount]);
+
+  useEffect(() => {
+    loadNotifications();
+  }, [loadNotifications]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`notifications-${userId}-${channelId.current}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => {
+          const notification = payload.new as Notification;
+          setNotifications((prev) => [notification, ...prev].slice(0, limit));
+          if (!notification.read) {
+            setUnreadCount((count) => count + 1);
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => {
+          const notification = payload.new as Notification;
+          setNotifications((prev) => prev.map((n) => (n.id === notification.id ? notification : n)));
+          // Read from another tab or device
+          loadUnreadCount();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, limit, loadUnreadCount]);
+
+  const markAsRead = useCallback(async (notificationId: string) => {
+    const readAt = new Date().toISOString();
+    const wasUnread = notifications.some((n) => n.id === notificationId && !n.read);
+
+    setNotifications((prev) => prev.map((n) => (n.id === notificationId ? { ...n, read: true, read_at: readAt } : n)));
+    if (wasUnread) {
+      setUnreadCount((count) => Math.max(0, count - 1));
+    }
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read: true, read_at: readAt })
+      .eq('id', notificationId)
+      .eq('read', false);
+
+    if (error) {
+      console.error('Error marking notification as read:', error);
+      await loadNotifications();
+    }
+  }, [notifications, loadNotifications]);
+
+  const markAllAsRead = useCallback(async () => {
+    if (!userId) return;
+    const readAt = new Date().toISOString();
+
+    setNotifications((prev) => prev.map((n) => (n.read ? n : { ...n, read: true, read_at: readAt })));
+    setUnreadCount(0);
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read: true, read_at: readAt })
+      .eq('user_id', userId)
+      .eq('read', false);
+
+    if (error) {
+      console.error('Error marking notifications as read:', error);
+      await loadNotifications();
+    }
+  }, [userId, loadNotifications]);
+
+  return {
+    notifications,
+    unreadCount,
+    loading,
+    markAsRead,
+    markAllAsRead,
+    refetch: loadNotifications,
+  };
+}
@@ -0,0 +1,61 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+
+/**
+ * Next scheduled phase change of an event
+ */
+export type PhaseTransition = {
+  transition_at: string;
+  next_phase: number;
+  next_phase_name: string | null;
+};
+
+/**
+ * Custom hook for the next automatic phase transition of an event
+ * 
+ * Only date-based events have scheduled transitions; for manual events the
+ * result is null.
+ * 
+ * @param eventId - The event ID to look up
+ * @returns Object with the next transition (or null), loading state and refetch
+ * 
+ * @example
+ * const { transition } = usePhaseTransition(event.id);
+ */
+export function usePhaseTransition(eventId: string | null) {
+  const [transition, setTransition] = useState<PhaseTransition | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const loadTransition = useCallback(async () => {
+    if (!eventId) {
+      setTransition(null);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('fn_get_next_phase_transition', {
+        p_event_id: eventId,
+      });
+
+      if (error) throw error;
+      setTransition(data?.[0] || null);
+    } catch (err) {
+      console.error('Error loading next phase transition:', err);
+      setTransition(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    loadTransition();
+  }, [loadTransition]);
+
+  return {
+    transition,
+    loading,
+    refetch: loadTransition,
+  };
+}
@@ -17,7 +17,7 @@ export type Database = {
       admin_actions: {
         Row: {
           action_type: string
-          admin_id: string
+          admin_id: string | null
           created_at: string
           description: string | null
           id: string
@@ -29,7 +29,7 @@ export type Database = {
         }
         Insert: {
           action_type: string
-          admin_id: string
+          admin_id?: string | null
           created_at?: string
           description?: string | null
           id?: string
@@ -41,7 +41,7 @@ export type Database = {
         }
         Update: {
           action_type?: string
-          admin_id?: string
+          admin_id?: string | null
           created_at?: string
           description?: string | null
           id?: string
@@ -99,6 +99,102 @@ export type Database = {
           },
         ]
       }
+      announcement_dismissals: {
+        Row: {
+          announcement_id: string
+          dismissed_at: string
+          user_id: string
+        }
+        Insert: {
+          announcement_id: string
+          dismissed_at?: string
+          user_id: string
+        }
+        Update: {
+          announcement_id?: string
+          dismissed_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "announcement_dismissals_announcement_id_fkey"
+            columns: ["announcement_id"]
+            isOneToOne: false
+            referencedRelation: "announcements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "announcement_dismissals_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      announcements: {
+        Row: {
+          audience: string
+          created_at: string
+          created_by: string | null
+          emailed_at: string | null
+          ends_at: string | null
+          event_id: string | null
+          id: string
+          message: string
+          send_email: boolean
+          severity: string
+          starts_at: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          audience?: string
+          created_at?: string
+          created_by?: string | null
+          emailed_at?: string | null
+          ends_at?: string | null
+          event_id?: string | null
+          id?: string
+          message: string
+          send_email?: boolean
+          severity?: string
+          starts_at?: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          audience?: string
+          created_at?: string
+          created_by?: string | null
+          emailed_at?: string | null
+          ends_at?: string | null
+          event_id?: string | null
+          id?: string
+          message?: string
+          send_email?: boolean
+          severity?: string
+          starts_at?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "announcements_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "announcements_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       booking_attempts: {
         Row: {
           booking_phase: number | null
@@ -169,12 +265,220 @@ export type Database = {
           },
         ]
       }
+      booking_preferences: {
+        Row: {
+          created_at: string
+          event_id: string
+          id: string
+          offer_id: string
+          rank: number
+          student_id: string
+        }
+        Insert: {
+          created_at?: string
+          event_id: string
+          id?: string
+          offer_id: string
+          rank: number
+          student_id: string
+        }
+        Update: {
+          created_at?: string
+          event_id?: string
+          id?: string
+          offer_id?: string
+          rank?: number
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_preferences_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_preferences_offer_id_fkey"
+            columns: ["offer_id"]
+            isOneToOne: false
+            referencedRelation: "offers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_preferences_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      booking_reminders: {
+        Row: {
+          booking_id: string
+          id: string
+          lead_minutes: number
+          sent_at: string
+          slot_start_time: string
+        }
+        Insert: {
+          booking_id: string
+          id?: string
+          lead_minutes: number
+          sent_at?: string
+          slot_start_time: string
+        }
+        Update: {
+          booking_id?: string
+          id?: string
+          lead_minutes?: number
+          sent_at?: string
+          slot_start_time?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_reminders_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      booking_screening_answers: {
+        Row: {
+          answers: Json
+          booking_id: string
+          created_at: string
+        }
+        Insert: {
+          answers?: Json
+          booking_id: string
+          created_at?: string
+        }
+        Update: {
+          answers?: Json
+          booking_id?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_screening_answers_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: true
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      booking_waitlist: {
+        Row: {
+          company_id: string
+          created_at: string
+          event_id: string
+          id: string
+          offer_id: string
+          promoted_at: string | null
+          promoted_booking_id: string | null
+          screening_answers: Json
+          slot_id: string | null
+          status: string
+          student_id: string
+        }
+        Insert: {
+          company_id: string
+          created_at?: string
+          event_id: string
+          id?: string
+          offer_id: string
+          promoted_at?: string | null
+          promoted_booking_id?: string | null
+          screening_answers?: Json
+          slot_id?: string | null
+          status?: string
+          student_id: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          event_id?: string
+          id?: string
+          offer_id?: string
+          promoted_at?: string | null
+          promoted_booking_id?: string | null
+          screening_answers?: Json
+          slot_id?: string | null
+          status?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_waitlist_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_waitlist_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "company_dashboard"
+            referencedColumns: ["company_id"]
+          },
+          {
+            foreignKeyName: "booking_waitlist_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_waitlist_offer_id_fkey"
+            columns: ["offer_id"]
+            isOneToOne: false
+            referencedRelation: "offers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_waitlist_promoted_booking_id_fkey"
+            columns: ["promoted_booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_waitlist_slot_id_fkey"
+            columns: ["slot_id"]
+            isOneToOne: false
+            referencedRelation: "event_slots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_waitlist_slot_id_fkey"
+            columns: ["slot_id"]
+            isOneToOne: false
+            referencedRelation: "slot_availability"
+            referencedColumns: ["slot_id"]
+          },
+          {
+            foreignKeyName: "booking_waitlist_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       bookings: {
         Row: {
           attended: boolean | null
           booking_phase: number
           cancelled_at: string | null
           cancelled_reason: string | null
+          checked_in_at: string | null
+          checked_in_by: string | null
           company_notes: string | null
           created_at: string
           feedback: string | null
@@ -193,6 +497,8 @@ export type Database = {
           booking_phase: number
           cancelled_at?: string | null
           cancelled_reason?: string | null
+          checked_in_at?: string | null
+          checked_in_by?: string | null
           company_notes?: string | null
           created_at?: string
           feedback?: string | null
@@ -211,6 +517,8 @@ export type Database = {
           booking_phase?: number
           cancelled_at?: string | null
           cancelled_reason?: string | null
+          checked_in_at?: string | null
+          checked_in_by?: string | null
           company_notes?: string | null
           created_at?: string
           feedback?: string | null
@@ -255,56 +563,124 @@ export type Database = {
           },
         ]
       }
-      companies: {
+      calendar_feed_tokens: {
         Row: {
-          address: string | null
-          company_code: string | null
-          company_name: string
-          company_size: string | null
-          contact_email: string | null
-          contact_person: string | null
-          contact_phone: string | null
           created_at: string
-          description: string | null
-          email: string | null
-          id: string
-          industry: string | null
-          is_verified: boolean
-          logo_url: string | null
-          profile_id: string | null
-          rejection_reason: string | null
-          updated_at: string
-          verification_status: Database["public"]["Enums"]["company_verification_status"]
-          verified_at: string | null
-          verified_by: string | null
-          website: string | null
+          last_used_at: string | null
+          token: string
+          user_id: string
         }
         Insert: {
-          address?: string | null
-          company_code?: string | null
-          company_name: string
-          company_size?: string | null
-          contact_email?: string | null
-          contact_person?: string | null
-          contact_phone?: string | null
           created_at?: string
-          description?: string | null
-          email?: string | null
-          id?: string
-          industry?: string | null
-          is_verified?: boolean
-          logo_url?: string | null
-          profile_id?: string | null
-          rejection_reason?: string | null
-          updated_at?: string
-          verification_status?: Database["public"]["Enums"]["company_verification_status"]
-          verified_at?: string | null
-          verified_by?: string | null
-          website?: string | null
+          last_used_at?: string | null
+          token?: string
+          user_id: string
         }
         Update: {
-          address?: string | null
-          company_code?: string | null
+          created_at?: string
+          last_used_at?: string | null
+          token?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_feed_tokens_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      check_in_codes: {
+        Row: {
+          created_at: string
+          event_id: string
+          id: string
+          short_code: string
+          student_id: string
+        }
+        Insert: {
+          created_at?: string
+          event_id: string
+          id?: string
+          short_code: string
+          student_id: string
+        }
+        Update: {
+          created_at?: string
+          event_id?: string
+          id?: string
+          short_code?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "check_in_codes_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "check_in_codes_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      companies: {
+        Row: {
+          address: string | null
+          company_code: string | null
+          company_name: string
+          company_size: string | null
+          contact_email: string | null
+          contact_person: string | null
+          contact_phone: string | null
+          created_at: string
+          description: string | null
+          email: string | null
+          id: string
+          industry: string | null
+          is_verified: boolean
+          logo_url: string | null
+          profile_id: string | null
+          rejection_reason: string | null
+          updated_at: string
+          verification_status: Database["public"]["Enums"]["company_verification_status"]
+          verified_at: string | null
+          verified_by: string | null
+          website: string | null
+        }
+        Insert: {
+          address?: string | null
+          company_code?: string | null
+          company_name: string
+          company_size?: string | null
+          contact_email?: string | null
+          contact_person?: string | null
+          contact_phone?: string | null
+          created_at?: string
+          description?: string | null
+          email?: string | null
+          id?: string
+          industry?: string | null
+          is_verified?: boolean
+          logo_url?: string | null
+          profile_id?: string | null
+          rejection_reason?: string | null
+          updated_at?: string
+          verification_status?: Database["public"]["Enums"]["company_verification_status"]
+          verified_at?: string | null
+          verified_by?: string | null
+          website?: string | null
+        }
+        Update: {
+          address?: string | null
+          company_code?: string | null
           company_name?: string
           company_size?: string | null
           contact_email?: string | null
@@ -342,302 +718,297 @@ export type Database = {
           },
         ]
       }
-      company_representatives: {
+      company_invitations: {
         Row: {
+          accepted_at: string | null
+          accepted_by: string | null
           company_id: string
           created_at: string
           email: string
+          expires_at: string
           full_name: string
           id: string
-          phone: string | null
-          title: string
-          updated_at: string
+          invited_by: string | null
+          representative_id: string | null
+          role: string
+          token: string
         }
         Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
           company_id: string
           created_at?: string
           email: string
+          expires_at?: string
           full_name: string
           id?: string
-          phone?: string | null
-          title: string
-          updated_at?: string
+          invited_by?: string | null
+          representative_id?: string | null
+          role: string
+          token?: string
         }
         Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
           company_id?: string
           created_at?: string
           email?: string
+          expires_at?: string
           full_name?: string
           id?: string
-          phone?: string | null
-          title?: string
-          updated_at?: string
+          invited_by?: string | null
+          representative_id?: string | null
+          role?: string
+          token?: string
         }
         Relationships: [
           {
-            foreignKeyName: "company_representatives_company_id_fkey"
+            foreignKeyName: "company_invitations_accepted_by_fkey"
+            columns: ["accepted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "company_invitations_company_id_fkey"
             columns: ["company_id"]
             isOneToOne: false
             referencedRelation: "companies"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "company_representatives_company_id_fkey"
+            foreignKeyName: "company_invitations_company_id_fkey"
             columns: ["company_id"]
             isOneToOne: false
             referencedRelation: "company_dashboard"
             referencedColumns: ["company_id"]
           },
+          {
+            foreignKeyName: "company_invitations_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "company_invitations_representative_id_fkey"
+            columns: ["representative_id"]
+            isOneToOne: false
+            referencedRelation: "company_representatives"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      event_config: {
-        Row: {
-          announcement_message: string | null
-          company_registration_deadline: string | null
-          created_at: string
-          current_phase: number
-          emergency_contact_email: string | null
-          emergency_contact_phone: string | null
-          event_date: string
-          event_end_time: string
-          event_name: string
-          event_start_time: string
-          id: number
-          phase1_booking_limit: number
-          phase1_end: string
-          phase1_start: string
-          phase2_booking_limit: number
-          phase2_end: string
-          phase2_start: string
-          registration_open: boolean
-          slot_buffer_minutes: number
-          slot_capacity: number
-          slot_duration_minutes: number
-          student_registration_deadline: string | null
-          updated_at: string
-        }
-        Insert: {
-          announcement_message?: string | null
-          company_registration_deadline?: string | null
-          created_at?: string
-          current_phase?: number
-          emergency_contact_email?: string | null
-          emergency_contact_phone?: string | null
-          event_date: string
-          event_end_time?: string
-          event_name?: string
-          event_start_time?: string
-          id?: number
-          phase1_booking_limit?: number
-          phase1_end: string
-          phase1_start: string
-          phase2_booking_limit?: number
-          phase2_end: string
-          phase2_start: string
-          registration_open?: boolean
-          slot_buffer_minutes?: number
-          slot_capacity?: number
-          slot_duration_minutes?: number
-          student_registration_deadline?: string | null
-          updated_at?: string
-        }
-        Update: {
-          announcement_message?: string | null
-          company_registration_deadline?: string | null
-          created_at?: string
-          current_phase?: number
-          emergency_contact_email?: string | null
-          emergency_contact_phone?: string | null
-          event_date?: string
-          event_end_time?: string
-          event_name?: string
-          event_start_time?: string
-          id?: number
-          phase1_booking_limit?: number
-          phase1_end?: string
-          phase1_start?: string
-          phase2_booking_limit?: number
-          phase2_end?: string
-          phase2_start?: string
-          registration_open?: boolean
-          slot_buffer_minutes?: number
-          slot_capacity?: number
-          slot_duration_minutes?: number
-          student_registration_deadline?: string | null
-          updated_at?: string
-        }
-        Relationships: []
-      }
-      event_participants: {
+      company_members: {
         Row: {
-          booth_location: string | null
           company_id: string
           created_at: string
-          event_id: string
           id: string
-          invited_at: string
           invited_by: string | null
-          notes: string | null
-          num_recruiters: number | null
+          profile_id: string
+          representative_id: string | null
+          role: string
         }
         Insert: {
-          booth_location?: string | null
           company_id: string
           created_at?: string
-          event_id: string
           id?: string
-          invited_at?: string
           invited_by?: string | null
-          notes?: string | null
-          num_recruiters?: number | null
+          profile_id: string
+          representative_id?: string | null
+          role?: string
         }
         Update: {
-          booth_location?: string | null
           company_id?: string
           created_at?: string
-          event_id?: string
           id?: string
-          invited_at?: string
           invited_by?: string | null
-          notes?: string | null
-          num_recruiters?: number | null
+          profile_id?: string
+          representative_id?: string | null
+          role?: string
         }
         Relationships: [
           {
-            foreignKeyName: "event_participants_company_id_fkey"
+            foreignKeyName: "company_members_company_id_fkey"
             columns: ["company_id"]
             isOneToOne: false
             referencedRelation: "companies"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "event_participants_company_id_fkey"
+            foreignKeyName: "company_members_company_id_fkey"
             columns: ["company_id"]
             isOneToOne: false
             referencedRelation: "company_dashboard"
             referencedColumns: ["company_id"]
           },
           {
-            foreignKeyName: "event_participants_event_id_fkey"
-            columns: ["event_id"]
+            foreignKeyName: "company_members_invited_by_fkey"
+            columns: ["invited_by"]
             isOneToOne: false
-            referencedRelation: "events"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "event_participants_invited_by_fkey"
-            columns: ["invited_by"]
+            foreignKeyName: "company_members_profile_id_fkey"
+            columns: ["profile_id"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "company_members_representative_id_fkey"
+            columns: ["representative_id"]
+            isOneToOne: false
+            referencedRelation: "company_representatives"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      event_registrations: {
+      company_pipeline_stages: {
         Row: {
-          approved_at: string | null
-          approved_by: string | null
           company_id: string
-          event_id: string
+          created_at: string
           id: string
-          notes: string | null
-          registered_at: string
-          status: string
+          name: string
+          outcome: string
+          position: number
         }
         Insert: {
-          approved_at?: string | null
-          approved_by?: string | null
           company_id: string
-          event_id: string
+          created_at?: string
           id?: string
-          notes?: string | null
-          registered_at?: string
-          status?: string
+          name: string
+          outcome?: string
+          position?: number
         }
         Update: {
-          approved_at?: string | null
-          approved_by?: string | null
           company_id?: string
-          event_id?: string
+          created_at?: string
           id?: string
-          notes?: string | null
-          registered_at?: string
-          status?: string
+          name?: string
+          outcome?: string
+          position?: number
         }
         Relationships: [
           {
-            foreignKeyName: "event_registrations_approved_by_fkey"
-            columns: ["approved_by"]
-            isOneToOne: false
-            referencedRelation: "profiles"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "event_registrations_company_id_fkey"
+            foreignKeyName: "company_pipeline_stages_company_id_fkey"
             columns: ["company_id"]
             isOneToOne: false
             referencedRelation: "companies"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "event_registrations_company_id_fkey"
+            foreignKeyName: "company_pipeline_stages_company_id_fkey"
             columns: ["company_id"]
             isOneToOne: false
             referencedRelation: "company_dashboard"
             referencedColumns: ["company_id"]
           },
+        ]
+      }
+      company_representatives: {
+        Row: {
+          company_id: string
+          created_at: string
+          email: string
+          full_name: string
+          id: string
+          phone: string | null
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          company_id: string
+          created_at?: string
+          email: string
+          full_name: string
+          id?: string
+          phone?: string | null
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          email?: string
+          full_name?: string
+          id?: string
+          phone?: string | null
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
           {
-            foreignKeyName: "event_registrations_event_id_fkey"
-            columns: ["event_id"]
+            foreignKeyName: "company_representatives_company_id_fkey"
+            columns: ["company_id"]
             isOneToOne: false
-            referencedRelation: "events"
+            referencedRelation: "companies"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "company_representatives_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "company_dashboard"
+            referencedColumns: ["company_id"]
+          },
         ]
       }
-      event_schedule_items: {
+      company_slot_overrides: {
         Row: {
-          created_at: string | null
-          description: string | null
-          end_time: string
+          buffer_minutes: number | null
+          capacity: number | null
+          company_id: string
+          created_at: string
           event_id: string
           id: string
-          is_active: boolean | null
-          item_type: string
-          location: string | null
-          name: string
-          start_time: string
-          updated_at: string | null
+          interview_duration_minutes: number | null
+          max_slots_per_session: number | null
+          notes: string | null
+          updated_at: string
         }
         Insert: {
-          created_at?: string | null
-          description?: string | null
-          end_time: string
+          buffer_minutes?: number | null
+          capacity?: number | null
+          company_id: string
+          created_at?: string
           event_id: string
           id?: string
-          is_active?: boolean | null
-          item_type?: string
-          location?: string | null
-          name: string
-          start_time: string
-          updated_at?: string | null
+          interview_duration_minutes?: number | null
+          max_slots_per_session?: number | null
+          notes?: string | null
+          updated_at?: string
         }
         Update: {
-          created_at?: string | null
-          description?: string | null
-          end_time?: string
+          buffer_minutes?: number | null
+          capacity?: number | null
+          company_id?: string
+          created_at?: string
           event_id?: string
           id?: string
-          is_active?: boolean | null
-          item_type?: string
-          location?: string | null
-          name?: string
-          start_time?: string
-          updated_at?: string | null
+          interview_duration_minutes?: number | null
+          max_slots_per_session?: number | null
+          notes?: string | null
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "event_schedule_items_event_id_fkey"
+            foreignKeyName: "company_slot_overrides_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "company_slot_overrides_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "company_dashboard"
+            referencedColumns: ["company_id"]
+          },
+          {
+            foreignKeyName: "company_slot_overrides_event_id_fkey"
             columns: ["event_id"]
             isOneToOne: false
             referencedRelation: "events"
@@ -645,163 +1016,698 @@ export type Database = {
           },
         ]
       }
-      event_slots: {
+      cv_access_log: {
         Row: {
-          capacity: number
+          accessed_at: string
+          accessed_by: string | null
           company_id: string
-          created_at: string
-          end_time: string
           event_id: string | null
           id: string
-          is_active: boolean
-          location: string | null
-          notes: string | null
-          offer_id: string | null
-          room_number: string | null
-          session_id: string | null
-          slot_time: string | null
-          start_time: string
+          source: string
+          student_id: string
         }
         Insert: {
-          capacity?: number
+          accessed_at?: string
+          accessed_by?: string | null
           company_id: string
-          created_at?: string
-          end_time: string
           event_id?: string | null
           id?: string
-          is_active?: boolean
-          location?: string | null
-          notes?: string | null
-          offer_id?: string | null
-          room_number?: string | null
-          session_id?: string | null
-          slot_time?: string | null
-          start_time: string
+          source: string
+          student_id: string
         }
         Update: {
-          capacity?: number
+          accessed_at?: string
+          accessed_by?: string | null
           company_id?: string
-          created_at?: string
-          end_time?: string
           event_id?: string | null
           id?: string
-          is_active?: boolean
-          location?: string | null
-          notes?: string | null
-          offer_id?: string | null
-          room_number?: string | null
-          session_id?: string | null
-          slot_time?: string | null
-          start_time?: string
+          source?: string
+          student_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "event_slots_event_id_fkey"
+            foreignKeyName: "cv_access_log_accessed_by_fkey"
+            columns: ["accessed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cv_access_log_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cv_access_log_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "company_dashboard"
+            referencedColumns: ["company_id"]
+          },
+          {
+            foreignKeyName: "cv_access_log_event_id_fkey"
             columns: ["event_id"]
             isOneToOne: false
             referencedRelation: "events"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "event_slots_session_id_fkey"
-            columns: ["session_id"]
+            foreignKeyName: "cv_access_log_student_id_fkey"
+            columns: ["student_id"]
             isOneToOne: false
-            referencedRelation: "speed_recruiting_sessions"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
       }
-      event_time_ranges: {
+      deprioritization_history: {
         Row: {
-          created_at: string | null
-          day_date: string
-          end_time: string
-          event_id: string
+          changed_by: string | null
+          created_at: string
+          event_id: string | null
           id: string
-          start_time: string
+          is_deprioritized: boolean
+          reason: string | null
+          source: string
+          student_id: string
         }
         Insert: {
-          created_at?: string | null
-          day_date: string
-          end_time: string
-          event_id: string
+          changed_by?: string | null
+          created_at?: string
+          event_id?: string | null
           id?: string
-          start_time: string
+          is_deprioritized: boolean
+          reason?: string | null
+          source: string
+          student_id: string
         }
         Update: {
-          created_at?: string | null
-          day_date?: string
-          end_time?: string
-          event_id?: string
+          changed_by?: string | null
+          created_at?: string
+          event_id?: string | null
           id?: string
-          start_time?: string
+          is_deprioritized?: boolean
+          reason?: string | null
+          source?: string
+          student_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "event_time_ranges_event_id_fkey"
+            foreignKeyName: "deprioritization_history_event_id_fkey"
             columns: ["event_id"]
             isOneToOne: false
             referencedRelation: "events"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "deprioritization_history_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      events: {
+      email_outbox: {
         Row: {
-          buffer_minutes: number | null
+          attempts: number
           created_at: string
-          current_phase: number | null
-          date: string
-          description: string | null
+          dedupe_key: string | null
           id: string
-          interview_duration_minutes: number | null
-          is_active: boolean
-          location: string | null
-          name: string
-          phase_2_start_at: string | null
-          phase_mode: string | null
-          phase1_end_date: string | null
-          phase1_max_bookings: number | null
-          phase1_start_date: string | null
-          phase2_end_date: string | null
-          phase2_max_bookings: number | null
-          phase2_start_date: string | null
-          slots_per_time: number | null
-          updated_at: string
+          last_error: string | null
+          locked_at: string | null
+          max_attempts: number
+          next_attempt_at: string
+          payload: Json
+          provider_message_id: string | null
+          sent_at: string | null
+          status: string
+          template: string
+          to_email: string
+          to_user_id: string | null
+          transport: string | null
         }
         Insert: {
-          buffer_minutes?: number | null
+          attempts?: number
           created_at?: string
-          current_phase?: number | null
-          date: string
-          description?: string | null
+          dedupe_key?: string | null
           id?: string
-          interview_duration_minutes?: number | null
-          is_active?: boolean
-          location?: string | null
-          name: string
-          phase_2_start_at?: string | null
-          phase_mode?: string | null
-          phase1_end_date?: string | null
-          phase1_max_bookings?: number | null
-          phase1_start_date?: string | null
-          phase2_end_date?: string | null
-          phase2_max_bookings?: number | null
-          phase2_start_date?: string | null
-          slots_per_time?: number | null
-          updated_at?: string
+          last_error?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          payload?: Json
+          provider_message_id?: string | null
+          sent_at?: string | null
+          status?: string
+          template: string
+          to_email: string
+          to_user_id?: string | null
+          transport?: string | null
         }
         Update: {
-          buffer_minutes?: number | null
+          attempts?: number
+          created_at?: string
+          dedupe_key?: string | null
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          payload?: Json
+          provider_message_id?: string | null
+          sent_at?: string | null
+          status?: string
+          template?: string
+          to_email?: string
+          to_user_id?: string | null
+          transport?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_outbox_to_user_id_fkey"
+            columns: ["to_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_check_in_keys: {
+        Row: {
+          created_at: string
+          event_id: string
+          secret: string
+        }
+        Insert: {
+          created_at?: string
+          event_id: string
+          secret?: string
+        }
+        Update: {
+          created_at?: string
+          event_id?: string
+          secret?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_check_in_keys_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_config: {
+        Row: {
+          announcement_message: string | null
+          company_registration_deadline: string | null
+          created_at: string
+          current_phase: number
+          emergency_contact_email: string | null
+          emergency_contact_phone: string | null
+          event_date: string
+          event_end_time: string
+          event_name: string
+          event_start_time: string
+          id: number
+          phase1_booking_limit: number
+          phase1_end: string
+          phase1_start: string
+          phase2_booking_limit: number
+          phase2_end: string
+          phase2_start: string
+          registration_open: boolean
+          slot_buffer_minutes: number
+          slot_capacity: number
+          slot_duration_minutes: number
+          student_registration_deadline: string | null
+          updated_at: string
+        }
+        Insert: {
+          announcement_message?: string | null
+          company_registration_deadline?: string | null
+          created_at?: string
+          current_phase?: number
+          emergency_contact_email?: string | null
+          emergency_contact_phone?: string | null
+          event_date: string
+          event_end_time?: string
+          event_name?: string
+          event_start_time?: string
+          id?: number
+          phase1_booking_limit?: number
+          phase1_end: string
+          phase1_start: string
+          phase2_booking_limit?: number
+          phase2_end: string
+          phase2_start: string
+          registration_open?: boolean
+          slot_buffer_minutes?: number
+          slot_capacity?: number
+          slot_duration_minutes?: number
+          student_registration_deadline?: string | null
+          updated_at?: string
+        }
+        Update: {
+          announcement_message?: string | null
+          company_registration_deadline?: string | null
+          created_at?: string
+          current_phase?: number
+          emergency_contact_email?: string | null
+          emergency_contact_phone?: string | null
+          event_date?: string
+          event_end_time?: string
+          event_name?: string
+          event_start_time?: string
+          id?: number
+          phase1_booking_limit?: number
+          phase1_end?: string
+          phase1_start?: string
+          phase2_booking_limit?: number
+          phase2_end?: string
+          phase2_start?: string
+          registration_open?: boolean
+          slot_buffer_minutes?: number
+          slot_capacity?: number
+          slot_duration_minutes?: number
+          student_registration_deadline?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      event_participants: {
+        Row: {
+          booth_location: string | null
+          company_id: string
+          created_at: string
+          event_id: string
+          id: string
+          invited_at: string
+          invited_by: string | null
+          notes: string | null
+          num_recruiters: number | null
+        }
+        Insert: {
+          booth_location?: string | null
+          company_id: string
+          created_at?: string
+          event_id: string
+          id?: string
+          invited_at?: string
+          invited_by?: string | null
+          notes?: string | null
+          num_recruiters?: number | null
+        }
+        Update: {
+          booth_location?: string | null
+          company_id?: string
+          created_at?: string
+          event_id?: string
+          id?: string
+          invited_at?: string
+          invited_by?: string | null
+          notes?: string | null
+          num_recruiters?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_participants_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_participants_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "company_dashboard"
+            referencedColumns: ["company_id"]
+          },
+          {
+            foreignKeyName: "event_participants_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_participants_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_phases: {
+        Row: {
+          allow_deprioritized: boolean
+          created_at: string
+          eligible_graduation_years: number[] | null
+          eligible_programs: string[] | null
+          end_date: string | null
+          event_id: string
+          id: string
+          max_bookings: number
+          name: string
+          phase_number: number
+          start_date: string | null
+          updated_at: string
+        }
+        Insert: {
+          allow_deprioritized?: boolean
+          created_at?: string
+          eligible_graduation_years?: number[] | null
+          eligible_programs?: string[] | null
+          end_date?: string | null
+          event_id: string
+          id?: string
+          max_bookings: number
+          name: string
+          phase_number: number
+          start_date?: string | null
+          updated_at?: string
+        }
+        Update: {
+          allow_deprioritized?: boolean
+          created_at?: string
+          eligible_graduation_years?: number[] | null
+          eligible_programs?: string[] | null
+          end_date?: string | null
+          event_id?: string
+          id?: string
+          max_bookings?: number
+          name?: string
+          phase_number?: number
+          start_date?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_phases_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_registrations: {
+        Row: {
+          approved_at: string | null
+          approved_by: string | null
+          company_id: string
+          event_id: string
+          id: string
+          notes: string | null
+          registered_at: string
+          status: string
+        }
+        Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
+          company_id: string
+          event_id: string
+          id?: string
+          notes?: string | null
+          registered_at?: string
+          status?: string
+        }
+        Update: {
+          approved_at?: string | null
+          approved_by?: string | null
+          company_id?: string
+          event_id?: string
+          id?: string
+          notes?: string | null
+          registered_at?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_registrations_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_registrations_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_registrations_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "company_dashboard"
+            referencedColumns: ["company_id"]
+          },
+          {
+            foreignKeyName: "event_registrations_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_schedule_items: {
+        Row: {
+          created_at: string | null
+          description: string | null
+          end_time: string
+          event_id: string
+          id: string
+          is_active: boolean | null
+          item_type: string
+          location: string | null
+          name: string
+          start_time: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          description?: string | null
+          end_time: string
+          event_id: string
+          id?: string
+          is_active?: boolean | null
+          item_type?: string
+          location?: string | null
+          name: string
+          start_time: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          description?: string | null
+          end_time?: string
+          event_id?: string
+          id?: string
+          is_active?: boolean | null
+          item_type?: string
+          location?: string | null
+          name?: string
+          start_time?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_schedule_items_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_slots: {
+        Row: {
+          capacity: number
+          company_id: string
+          created_at: string
+          end_time: string
+          event_id: string | null
+          id: string
+          interviewer_id: string | null
+          is_active: boolean
+          location: string | null
+          notes: string | null
+          offer_id: string | null
+          room_number: string | null
+          session_id: string | null
+          slot_time: string | null
+          start_time: string
+        }
+        Insert: {
+          capacity?: number
+          company_id: string
+          created_at?: string
+          end_time: string
+          event_id?: string | null
+          id?: string
+          interviewer_id?: string | null
+          is_active?: boolean
+          location?: string | null
+          notes?: string | null
+          offer_id?: string | null
+          room_number?: string | null
+          session_id?: string | null
+          slot_time?: string | null
+          start_time: string
+        }
+        Update: {
+          capacity?: number
+          company_id?: string
+          created_at?: string
+          end_time?: string
+          event_id?: string | null
+          id?: string
+          interviewer_id?: string | null
+          is_active?: boolean
+          location?: string | null
+          notes?: string | null
+          offer_id?: string | null
+          room_number?: string | null
+          session_id?: string | null
+          slot_time?: string | null
+          start_time?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_slots_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_slots_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "speed_recruiting_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_time_ranges: {
+        Row: {
+          created_at: string | null
+          day_date: string
+          end_time: string
+          event_id: string
+          id: string
+          start_time: string
+        }
+        Insert: {
+          created_at?: string | null
+          day_date: string
+          end_time: string
+          event_id: string
+          id?: string
+          start_time: string
+        }
+        Update: {
+          created_at?: string | null
+          day_date?: string
+          end_time?: string
+          event_id?: string
+          id?: string
+          start_time?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_time_ranges_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      events: {
+        Row: {
+          buffer_minutes: number | null
+          created_at: string
+          current_phase: number | null
+          date: string
+          description: string | null
+          id: string
+          interview_duration_minutes: number | null
+          invitations_bypass_phase_limit: boolean
+          is_active: boolean
+          location: string | null
+          name: string
+          no_show_policy_enabled: boolean
+          no_show_threshold: number
+          phase_2_start_at: string | null
+          phase_mode: string | null
+          phase1_end_date: string | null
+          phase1_max_bookings: number | null
+          phase1_start_date: string | null
+          phase2_end_date: string | null
+          phase2_max_bookings: number | null
+          phase2_start_date: string | null
+          preference_max_choices: number | null
+          preference_window_end: string | null
+          preference_window_start: string | null
+          reminder_lead_minutes: number[]
+          slots_per_time: number | null
+          timezone: string
+          updated_at: string
+        }
+        Insert: {
+          buffer_minutes?: number | null
+          created_at?: string
+          current_phase?: number | null
+          date: string
+          description?: string | null
+          id?: string
+          interview_duration_minutes?: number | null
+          invitations_bypass_phase_limit?: boolean
+          is_active?: boolean
+          location?: string | null
+          name: string
+          no_show_policy_enabled?: boolean
+          no_show_threshold?: number
+          phase_2_start_at?: string | null
+          phase_mode?: string | null
+          phase1_end_date?: string | null
+          phase1_max_bookings?: number | null
+          phase1_start_date?: string | null
+          phase2_end_date?: string | null
+          phase2_max_bookings?: number | null
+          phase2_start_date?: string | null
+          preference_max_choices?: number | null
+          preference_window_end?: string | null
+          preference_window_start?: string | null
+          reminder_lead_minutes?: number[]
+          slots_per_time?: number | null
+          timezone?: string
+          updated_at?: string
+        }
+        Update: {
+          buffer_minutes?: number | null
           created_at?: string
           current_phase?: number | null
           date?: string
           description?: string | null
           id?: string
           interview_duration_minutes?: number | null
+          invitations_bypass_phase_limit?: boolean
           is_active?: boolean
           location?: string | null
           name?: string
+          no_show_policy_enabled?: boolean
+          no_show_threshold?: number
           phase_2_start_at?: string | null
           phase_mode?: string | null
           phase1_end_date?: string | null
@@ -810,7 +1716,12 @@ export type Database = {
           phase2_end_date?: string | null
           phase2_max_bookings?: number | null
           phase2_start_date?: string | null
+          preference_max_choices?: number | null
+          preference_window_end?: string | null
+          preference_window_start?: string | null
+          reminder_lead_minutes?: number[]
           slots_per_time?: number | null
+          timezone?: string
           updated_at?: string
         }
         Relationships: []
@@ -820,80 +1731,359 @@ export type Database = {
           attempt_time: string | null
           email: string
           id: string
-          ip_address: unknown
-          reason: string | null
+          ip_address: unknown
+          reason: string | null
+        }
+        Insert: {
+          attempt_time?: string | null
+          email: string
+          id?: string
+          ip_address?: unknown
+          reason?: string | null
+        }
+        Update: {
+          attempt_time?: string | null
+          email?: string
+          id?: string
+          ip_address?: unknown
+          reason?: string | null
+        }
+        Relationships: []
+      }
+      interview_bookings_deprecated: {
+        Row: {
+          created_at: string
+          id: string
+          notes: string | null
+          offer_id: string | null
+          slot_id: string
+          status: string
+          student_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          notes?: string | null
+          offer_id?: string | null
+          slot_id: string
+          status?: string
+          student_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          notes?: string | null
+          offer_id?: string | null
+          slot_id?: string
+          status?: string
+          student_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "interview_bookings_offer_id_fkey"
+            columns: ["offer_id"]
+            isOneToOne: false
+            referencedRelation: "offers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interview_bookings_slot_id_fkey"
+            columns: ["slot_id"]
+            isOneToOne: false
+            referencedRelation: "event_slots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interview_bookings_slot_id_fkey"
+            columns: ["slot_id"]
+            isOneToOne: false
+            referencedRelation: "slot_availability"
+            referencedColumns: ["slot_id"]
+          },
+          {
+            foreignKeyName: "interview_bookings_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      interview_invitations: {
+        Row: {
+          booking_id: string | null
+          company_id: string
+          created_at: string
+          expires_at: string
+          id: string
+          invited_by: string | null
+          message: string | null
+          offer_id: string
+          responded_at: string | null
+          slot_id: string
+          status: string
+          student_id: string
+        }
+        Insert: {
+          booking_id?: string | null
+          company_id: string
+          created_at?: string
+          expires_at: string
+          id?: string
+          invited_by?: string | null
+          message?: string | null
+          offer_id: string
+          responded_at?: string | null
+          slot_id: string
+          status?: string
+          student_id: string
+        }
+        Update: {
+          booking_id?: string | null
+          company_id?: string
+          created_at?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          message?: string | null
+          offer_id?: string
+          responded_at?: string | null
+          slot_id?: string
+          status?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "interview_invitations_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interview_invitations_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interview_invitations_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "company_dashboard"
+            referencedColumns: ["company_id"]
+          },
+          {
+            foreignKeyName: "interview_invitations_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interview_invitations_offer_id_fkey"
+            columns: ["offer_id"]
+            isOneToOne: false
+            referencedRelation: "offers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interview_invitations_slot_id_fkey"
+            columns: ["slot_id"]
+            isOneToOne: false
+            referencedRelation: "event_slots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interview_invitations_slot_id_fkey"
+            columns: ["slot_id"]
+            isOneToOne: false
+            referencedRelation: "slot_availability"
+            referencedColumns: ["slot_id"]
+          },
+          {
+            foreignKeyName: "interview_invitations_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      interview_scorecards: {
+        Row: {
+          booking_id: string
+          company_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          notes: string | null
+          offer_id: string
+          recommendation: string | null
+          scores: Json
+          student_id: string
+          updated_at: string
+          updated_by: string | null
         }
         Insert: {
-          attempt_time?: string | null
-          email: string
+          booking_id: string
+          company_id: string
+          created_at?: string
+          created_by?: string | null
           id?: string
-          ip_address?: unknown
-          reason?: string | null
+          notes?: string | null
+          offer_id: string
+          recommendation?: string | null
+          scores?: Json
+          student_id: string
+          updated_at?: string
+          updated_by?: string | null
         }
         Update: {
-          attempt_time?: string | null
-          email?: string
+          booking_id?: string
+          company_id?: string
+          created_at?: string
+          created_by?: string | null
           id?: string
-          ip_address?: unknown
-          reason?: string | null
+          notes?: string | null
+          offer_id?: string
+          recommendation?: string | null
+          scores?: Json
+          student_id?: string
+          updated_at?: string
+          updated_by?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "interview_scorecards_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: true
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interview_scorecards_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interview_scorecards_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "company_dashboard"
+            referencedColumns: ["company_id"]
+          },
+          {
+            foreignKeyName: "interview_scorecards_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interview_scorecards_offer_id_fkey"
+            columns: ["offer_id"]
+            isOneToOne: false
+            referencedRelation: "offers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interview_scorecards_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interview_scorecards_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      interview_bookings_deprecated: {
+      lottery_allocations: {
         Row: {
+          booking_id: string | null
           created_at: string
+          draw_position: number
           id: string
-          notes: string | null
           offer_id: string | null
-          slot_id: string
-          status: string
+          outcome: string
+          preference_rank: number
+          run_id: string
+          slot_id: string | null
           student_id: string
-          updated_at: string
         }
         Insert: {
+          booking_id?: string | null
           created_at?: string
+          draw_position: number
           id?: string
-          notes?: string | null
           offer_id?: string | null
-          slot_id: string
-          status?: string
+          outcome: string
+          preference_rank: number
+          run_id: string
+          slot_id?: string | null
           student_id: string
-          updated_at?: string
         }
         Update: {
+          booking_id?: string | null
           created_at?: string
+          draw_position?: number
           id?: string
-          notes?: string | null
           offer_id?: string | null
-          slot_id?: string
-          status?: string
+          outcome?: string
+          preference_rank?: number
+          run_id?: string
+          slot_id?: string | null
           student_id?: string
-          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "interview_bookings_offer_id_fkey"
+            foreignKeyName: "lottery_allocations_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lottery_allocations_offer_id_fkey"
             columns: ["offer_id"]
             isOneToOne: false
             referencedRelation: "offers"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "interview_bookings_slot_id_fkey"
+            foreignKeyName: "lottery_allocations_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "lottery_runs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lottery_allocations_slot_id_fkey"
             columns: ["slot_id"]
             isOneToOne: false
             referencedRelation: "event_slots"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "interview_bookings_slot_id_fkey"
+            foreignKeyName: "lottery_allocations_slot_id_fkey"
             columns: ["slot_id"]
             isOneToOne: false
             referencedRelation: "slot_availability"
             referencedColumns: ["slot_id"]
           },
           {
-            foreignKeyName: "interview_bookings_student_id_fkey"
+            foreignKeyName: "lottery_allocations_student_id_fkey"
             columns: ["student_id"]
             isOneToOne: false
             referencedRelation: "profiles"
@@ -901,6 +2091,54 @@ export type Database = {
           },
         ]
       }
+      lottery_runs: {
+        Row: {
+          allocated_count: number
+          created_at: string
+          event_id: string
+          id: string
+          preference_count: number
+          run_by: string | null
+          seed: string
+          student_count: number
+        }
+        Insert: {
+          allocated_count?: number
+          created_at?: string
+          event_id: string
+          id?: string
+          preference_count?: number
+          run_by?: string | null
+          seed: string
+          student_count?: number
+        }
+        Update: {
+          allocated_count?: number
+          created_at?: string
+          event_id?: string
+          id?: string
+          preference_count?: number
+          run_by?: string | null
+          seed?: string
+          student_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lottery_runs_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lottery_runs_run_by_fkey"
+            columns: ["run_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notifications: {
         Row: {
           action_url: string | null
@@ -914,31 +2152,249 @@ export type Database = {
           user_id: string | null
         }
         Insert: {
-          action_url?: string | null
+          action_url?: string | null
+          created_at?: string
+          id?: string
+          message: string
+          read?: boolean
+          read_at?: string | null
+          title: string
+          type: string
+          user_id?: string | null
+        }
+        Update: {
+          action_url?: string | null
+          created_at?: string
+          id?: string
+          message?: string
+          read?: boolean
+          read_at?: string | null
+          title?: string
+          type?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      offer_activity: {
+        Row: {
+          activity_date: string
+          activity_type: string
+          created_at: string
+          id: string
+          offer_id: string
+          source: string
+          user_id: string
+        }
+        Insert: {
+          activity_date?: string
+          activity_type: string
+          created_at?: string
+          id?: string
+          offer_id: string
+          source: string
+          user_id: string
+        }
+        Update: {
+          activity_date?: string
+          activity_type?: string
+          created_at?: string
+          id?: string
+          offer_id?: string
+          source?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "offer_activity_offer_id_fkey"
+            columns: ["offer_id"]
+            isOneToOne: false
+            referencedRelation: "offers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "offer_activity_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      offer_rubric_criteria: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          label: string
+          offer_id: string
+          position: number
+          scale_max: number
+          updated_at: string
+          weight: number
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          label: string
+          offer_id: string
+          position?: number
+          scale_max?: number
+          updated_at?: string
+          weight?: number
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          label?: string
+          offer_id?: string
+          position?: number
+          scale_max?: number
+          updated_at?: string
+          weight?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "offer_rubric_criteria_offer_id_fkey"
+            columns: ["offer_id"]
+            isOneToOne: false
+            referencedRelation: "offers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      offer_screening_questions: {
+        Row: {
+          created_at: string
+          id: string
+          is_required: boolean
+          offer_id: string
+          options: string[]
+          position: number
+          question: string
+          question_type: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_required?: boolean
+          offer_id: string
+          options?: string[]
+          position?: number
+          question: string
+          question_type: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_required?: boolean
+          offer_id?: string
+          options?: string[]
+          position?: number
+          question?: string
+          question_type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "offer_screening_questions_offer_id_fkey"
+            columns: ["offer_id"]
+            isOneToOne: false
+            referencedRelation: "offers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      offer_templates: {
+        Row: {
+          benefits: string | null
+          company_id: string
+          created_at: string
+          created_by: string | null
+          department: string | null
+          description: string
+          duration_months: number | null
+          id: string
+          interest_tag: Database["public"]["Enums"]["interest_tag"]
+          location: string | null
+          name: string
+          paid: boolean | null
+          remote_possible: boolean | null
+          requirements: string | null
+          salary_range: string | null
+          skills_required: string[] | null
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          benefits?: string | null
+          company_id: string
           created_at?: string
+          created_by?: string | null
+          department?: string | null
+          description: string
+          duration_months?: number | null
           id?: string
-          message: string
-          read?: boolean
-          read_at?: string | null
+          interest_tag: Database["public"]["Enums"]["interest_tag"]
+          location?: string | null
+          name: string
+          paid?: boolean | null
+          remote_possible?: boolean | null
+          requirements?: string | null
+          salary_range?: string | null
+          skills_required?: string[] | null
           title: string
-          type: string
-          user_id?: string | null
+          updated_at?: string
         }
         Update: {
-          action_url?: string | null
+          benefits?: string | null
+          company_id?: string
           created_at?: string
+          created_by?: string | null
+          department?: string | null
+          description?: string
+          duration_months?: number | null
           id?: string
-          message?: string
-          read?: boolean
-          read_at?: string | null
+          interest_tag?: Database["public"]["Enums"]["interest_tag"]
+          location?: string | null
+          name?: string
+          paid?: boolean | null
+          remote_possible?: boolean | null
+          requirements?: string | null
+          salary_range?: string | null
+          skills_required?: string[] | null
           title?: string
-          type?: string
-          user_id?: string | null
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "notifications_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "offer_templates_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "offer_templates_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "company_dashboard"
+            referencedColumns: ["company_id"]
+          },
+          {
+            foreignKeyName: "offer_templates_created_by_fkey"
+            columns: ["created_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
@@ -949,6 +2405,7 @@ export type Database = {
         Row: {
           benefits: string | null
           company_id: string
+          copied_from_offer_id: string | null
           created_at: string
           department: string | null
           description: string
@@ -970,6 +2427,7 @@ export type Database = {
         Insert: {
           benefits?: string | null
           company_id: string
+          copied_from_offer_id?: string | null
           created_at?: string
           department?: string | null
           description: string
@@ -991,6 +2449,7 @@ export type Database = {
         Update: {
           benefits?: string | null
           company_id?: string
+          copied_from_offer_id?: string | null
           created_at?: string
           department?: string | null
           description?: string
@@ -1024,6 +2483,13 @@ export type Database = {
             referencedRelation: "company_dashboard"
             referencedColumns: ["company_id"]
           },
+          {
+            foreignKeyName: "offers_copied_from_offer_id_fkey"
+            columns: ["copied_from_offer_id"]
+            isOneToOne: false
+            referencedRelation: "offers"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "offers_event_id_fkey"
             columns: ["event_id"]
@@ -1033,6 +2499,147 @@ export type Database = {
           },
         ]
       }
+      pipeline_candidates: {
+        Row: {
+          added_by: string | null
+          company_id: string
+          created_at: string
+          event_id: string
+          id: string
+          stage_id: string
+          student_id: string
+          updated_at: string
+        }
+        Insert: {
+          added_by?: string | null
+          company_id: string
+          created_at?: string
+          event_id: string
+          id?: string
+          stage_id: string
+          student_id: string
+          updated_at?: string
+        }
+        Update: {
+          added_by?: string | null
+          company_id?: string
+          created_at?: string
+          event_id?: string
+          id?: string
+          stage_id?: string
+          student_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pipeline_candidates_added_by_fkey"
+            columns: ["added_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pipeline_candidates_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pipeline_candidates_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "company_dashboard"
+            referencedColumns: ["company_id"]
+          },
+          {
+            foreignKeyName: "pipeline_candidates_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pipeline_candidates_stage_id_fkey"
+            columns: ["stage_id"]
+            isOneToOne: false
+            referencedRelation: "company_pipeline_stages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pipeline_candidates_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pipeline_stage_history: {
+        Row: {
+          candidate_id: string
+          changed_at: string
+          changed_by: string | null
+          from_stage_id: string | null
+          from_stage_name: string | null
+          id: string
+          note: string | null
+          to_stage_id: string | null
+          to_stage_name: string
+        }
+        Insert: {
+          candidate_id: string
+          changed_at?: string
+          changed_by?: string | null
+          from_stage_id?: string | null
+          from_stage_name?: string | null
+          id?: string
+          note?: string | null
+          to_stage_id?: string | null
+          to_stage_name: string
+        }
+        Update: {
+          candidate_id?: string
+          changed_at?: string
+          changed_by?: string | null
+          from_stage_id?: string | null
+          from_stage_name?: string | null
+          id?: string
+          note?: string | null
+          to_stage_id?: string | null
+          to_stage_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pipeline_stage_history_candidate_id_fkey"
+            columns: ["candidate_id"]
+            isOneToOne: false
+            referencedRelation: "pipeline_candidates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pipeline_stage_history_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pipeline_stage_history_from_stage_id_fkey"
+            columns: ["from_stage_id"]
+            isOneToOne: false
+            referencedRelation: "company_pipeline_stages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pipeline_stage_history_to_stage_id_fkey"
+            columns: ["to_stage_id"]
+            isOneToOne: false
+            referencedRelation: "company_pipeline_stages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           account_approved: boolean
@@ -1045,6 +2652,7 @@ export type Database = {
           created_at: string
           cv_url: string | null
           data_retention_until: string | null
+          deprioritized_before_penalty: boolean | null
           email: string
           full_name: string
           graduation_year: number | null
@@ -1052,14 +2660,18 @@ export type Database = {
           is_deprioritized: boolean
           languages_spoken: string[] | null
           linkedin_url: string | null
+          no_show_penalty_event_id: string | null
           phone: string | null
           profile_photo_url: string | null
           program: string | null
           resume_url: string | null
           retention_policy: string | null
           role: Database["public"]["Enums"]["user_role"]
+          skills: string[]
           specialization: string | null
           student_number: string | null
+          talent_directory_opt_in: boolean
+          talent_directory_opt_in_date: string | null
           updated_at: string
           year_of_study: number | null
         }
@@ -1074,6 +2686,7 @@ export type Database = {
           created_at?: string
           cv_url?: string | null
           data_retention_until?: string | null
+          deprioritized_before_penalty?: boolean | null
           email: string
           full_name: string
           graduation_year?: number | null
@@ -1081,14 +2694,18 @@ export type Database = {
           is_deprioritized?: boolean
           languages_spoken?: string[] | null
           linkedin_url?: string | null
+          no_show_penalty_event_id?: string | null
           phone?: string | null
           profile_photo_url?: string | null
           program?: string | null
           resume_url?: string | null
           retention_policy?: string | null
           role: Database["public"]["Enums"]["user_role"]
+          skills?: string[]
           specialization?: string | null
           student_number?: string | null
+          talent_directory_opt_in?: boolean
+          talent_directory_opt_in_date?: string | null
           updated_at?: string
           year_of_study?: number | null
         }
@@ -1103,6 +2720,7 @@ export type Database = {
           created_at?: string
           cv_url?: string | null
           data_retention_until?: string | null
+          deprioritized_before_penalty?: boolean | null
           email?: string
           full_name?: string
           graduation_year?: number | null
@@ -1110,18 +2728,115 @@ export type Database = {
           is_deprioritized?: boolean
           languages_spoken?: string[] | null
           linkedin_url?: string | null
+          no_show_penalty_event_id?: string | null
           phone?: string | null
           profile_photo_url?: string | null
           program?: string | null
           resume_url?: string | null
           retention_policy?: string | null
           role?: Database["public"]["Enums"]["user_role"]
+          skills?: string[]
           specialization?: string | null
           student_number?: string | null
+          talent_directory_opt_in?: boolean
+          talent_directory_opt_in_date?: string | null
           updated_at?: string
           year_of_study?: number | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "profiles_no_show_penalty_event_id_fkey"
+            columns: ["no_show_penalty_event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_breaks: {
+        Row: {
+          created_at: string
+          end_time: string
+          id: string
+          label: string
+          session_id: string
+          start_time: string
+        }
+        Insert: {
+          created_at?: string
+          end_time: string
+          id?: string
+          label?: string
+          session_id: string
+          start_time: string
+        }
+        Update: {
+          created_at?: string
+          end_time?: string
+          id?: string
+          label?: string
+          session_id?: string
+          start_time?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_breaks_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "speed_recruiting_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      slot_templates: {
+        Row: {
+          buffer_minutes: number
+          capacity: number
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          interview_duration_minutes: number
+          name: string
+          scale_capacity_by_recruiters: boolean
+          sessions: Json
+          updated_at: string
+        }
+        Insert: {
+          buffer_minutes?: number
+          capacity?: number
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          interview_duration_minutes?: number
+          name: string
+          scale_capacity_by_recruiters?: boolean
+          sessions?: Json
+          updated_at?: string
+        }
+        Update: {
+          buffer_minutes?: number
+          capacity?: number
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          interview_duration_minutes?: number
+          name?: string
+          scale_capacity_by_recruiters?: boolean
+          sessions?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "slot_templates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       speed_recruiting_sessions: {
         Row: {
@@ -1132,9 +2847,12 @@ export type Database = {
           id: string
           interview_duration_minutes: number
           is_active: boolean | null
+          max_slots_per_company: number | null
           name: string
+          scale_capacity_by_recruiters: boolean
           slots_per_time: number
           start_time: string
+          template_id: string | null
           updated_at: string
         }
         Insert: {
@@ -1145,9 +2863,12 @@ export type Database = {
           id?: string
           interview_duration_minutes?: number
           is_active?: boolean | null
+          max_slots_per_company?: number | null
           name: string
+          scale_capacity_by_recruiters?: boolean
           slots_per_time?: number
           start_time: string
+          template_id?: string | null
           updated_at?: string
         }
         Update: {
@@ -1158,17 +2879,80 @@ export type Database = {
           id?: string
           interview_duration_minutes?: number
           is_active?: boolean | null
+          max_slots_per_company?: number | null
           name?: string
+          scale_capacity_by_recruiters?: boolean
           slots_per_time?: number
           start_time?: string
+          template_id?: string | null
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "speed_recruiting_sessions_event_id_fkey"
-            columns: ["event_id"]
+            foreignKeyName: "speed_recruiting_sessions_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "speed_recruiting_sessions_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "slot_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      talent_bookmarks: {
+        Row: {
+          company_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          student_id: string
+        }
+        Insert: {
+          company_id: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          student_id: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "talent_bookmarks_company_id_fkey"
+            columns: ["company_id"]
             isOneToOne: false
-            referencedRelation: "events"
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "talent_bookmarks_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "company_dashboard"
+            referencedColumns: ["company_id"]
+          },
+          {
+            foreignKeyName: "talent_bookmarks_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "talent_bookmarks_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
@@ -1276,15 +3060,75 @@ export type Database = {
         }
         Returns: string
       }
-      fn_auto_transition_event_phases: { Args: never; Returns: undefined }
+      fn_apply_no_show_policy: {
+        Args: { p_event_id: string; p_student_id: string }
+        Returns: undefined
+      }
+      fn_apply_session_regeneration: {
+        Args: {
+          p_company_id?: string
+          p_resolutions?: Json
+          p_session_id: string
+        }
+        Returns: {
+          bookings_cancelled: number
+          bookings_moved: number
+          message: string
+          slots_created: number
+          slots_removed: number
+          success: boolean
+        }[]
+      }
+      fn_apply_slot_template: {
+        Args: {
+          p_date: string
+          p_event_id: string
+          p_template_id: string
+          p_timezone?: string
+        }
+        Returns: {
+          message: string
+          sessions_created: number
+          slots_created: number
+          success: boolean
+        }[]
+      }
+      fn_assign_slot_interviewer: {
+        Args: { p_interviewer_id: string | null; p_slot_id: string }
+        Returns: {
+          message: string
+          success: boolean
+        }[]
+      }
+      fn_auto_transition_event_phases: {
+        Args: never
+        Returns: {
+          event_id: string
+          event_name: string
+          from_phase: number
+          notified_count: number
+          to_phase: number
+        }[]
+      }
       fn_book_interview: {
-        Args: { p_offer_id: string; p_slot_id: string; p_student_id: string }
+        Args: {
+          p_offer_id: string
+          p_screening_answers?: Json
+          p_slot_id: string
+          p_student_id: string
+        }
         Returns: {
           booking_id: string
           message: string
           success: boolean
         }[]
       }
+      fn_can_handle_slot: {
+        Args:
+          | { p_slot_id: string }
+          | { p_slot_id: string; p_user_id: string }
+        Returns: boolean
+      }
       fn_cancel_booking: {
         Args: { p_booking_id: string; p_student_id: string }
         Returns: {
@@ -1292,6 +3136,40 @@ export type Database = {
           success: boolean
         }[]
       }
+      fn_cancel_interview_invitation: {
+        Args: { p_invitation_id: string }
+        Returns: {
+          message: string
+          success: boolean
+        }[]
+      }
+      fn_check_in_signature: {
+        Args: { p_event_id: string; p_student_id: string }
+        Returns: string
+      }
+      fn_check_in_student: {
+        Args: { p_code: string; p_event_id: string }
+        Returns: {
+          already_checked_in: boolean
+          booking_id: string
+          message: string
+          slot_time: string
+          student_name: string
+          success: boolean
+        }[]
+      }
+      fn_check_phase_eligibility: {
+        Args: {
+          p_event_id: string
+          p_phase_number: number
+          p_student_id: string
+        }
+        Returns: {
+          eligible: boolean
+          message: string
+          reason: string
+        }[]
+      }
       fn_check_rate_limit: {
         Args: {
           p_email: string
@@ -1320,15 +3198,80 @@ export type Database = {
           message: string
         }[]
       }
+      fn_claim_email_batch: {
+        Args: { p_limit?: number }
+        Returns: {
+          attempts: number
+          created_at: string
+          dedupe_key: string | null
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          max_attempts: number
+          next_attempt_at: string
+          payload: Json
+          provider_message_id: string | null
+          sent_at: string | null
+          status: string
+          template: string
+          to_email: string
+          to_user_id: string | null
+          transport: string | null
+        }[]
+      }
       fn_clear_rate_limit: {
         Args: { p_email: string; p_ip_address: string }
         Returns: number
       }
+      fn_company_role: {
+        Args:
+          | { p_company_id: string }
+          | { p_company_id: string; p_user_id: string }
+        Returns: string
+      }
+      fn_complete_email: {
+        Args: {
+          p_email_id: string
+          p_error?: string
+          p_provider_message_id?: string
+          p_success: boolean
+          p_transport?: string
+        }
+        Returns: string
+      }
+      fn_copy_offers_to_event: {
+        Args: { p_event_id: string; p_offer_ids: string[] }
+        Returns: {
+          copied_count: number
+          message: string
+          offer_ids: string[]
+          success: boolean
+        }[]
+      }
       fn_delete_event: { Args: { p_event_id: string }; Returns: Json }
       fn_delete_event_time_range: {
         Args: { p_range_id: string }
         Returns: undefined
       }
+      fn_enqueue_email: {
+        Args: {
+          p_dedupe_key?: string
+          p_payload: Json
+          p_template: string
+          p_to_email: string
+          p_to_user_id?: string
+        }
+        Returns: string
+      }
+      fn_expire_no_show_penalties: { Args: never; Returns: number }
+      fn_format_event_time: {
+        Args: { p_time: string; p_timezone: string }
+        Returns: string
+      }
+      fn_generate_company_session_slots: {
+        Args: { p_company_id: string; p_session_id: string }
+        Returns: number
+      }
       fn_generate_event_slots: {
         Args: { p_event_id: string }
         Returns: {
@@ -1337,36 +3280,54 @@ export type Database = {
           time_ranges_processed: number
         }[]
       }
-      fn_generate_inf_slots: {
-        Args: {
-          p_event_id: string
-          p_session1_end: string
-          p_session1_start: string
-          p_session2_end: string
-          p_session2_start: string
-        }
-        Returns: {
-          companies_processed: number
-          message: string
-          session1_slots: number
-          session2_slots: number
-          total_slots_created: number
-        }[]
-      }
       fn_generate_slots_for_session: {
         Args: { p_company_id: string; p_session_id: string }
         Returns: number
       }
       fn_get_available_slots: {
-        Args: { p_event_id?: string; p_offer_id: string }
+        Args: { p_company_id: string; p_event_id: string }
         Returns: {
-          available_count: number
-          booked_count: number
+          available_spots: number
           capacity: number
-          event_date: string
-          event_name: string
-          slot_id: string
-          slot_time: string
+          company_id: string
+          confirmed_bookings_count: number
+          end_time: string
+          event_id: string
+          id: string
+          is_active: boolean
+          location: string
+          offer_id: string
+          start_time: string
+        }[]
+      }
+      fn_get_calendar_feed: {
+        Args: { p_token: string }
+        Returns: {
+          description: string
+          end_time: string
+          location: string
+          start_time: string
+          status: string
+          summary: string
+          timezone: string
+          uid: string
+        }[]
+      }
+      fn_get_calendar_feed_token: {
+        Args: { p_reset?: boolean }
+        Returns: string
+      }
+      fn_get_carry_over_offers: {
+        Args: { p_company_id: string; p_event_id: string }
+        Returns: {
+          already_copied: boolean
+          interest_tag: Database["public"]["Enums"]["interest_tag"]
+          is_active: boolean
+          offer_id: string
+          source_event_date: string
+          source_event_id: string
+          source_event_name: string
+          title: string
         }[]
       }
       fn_get_company_analytics: {
@@ -1403,50 +3364,203 @@ export type Database = {
           student_specialization: string
         }[]
       }
-      fn_get_company_registrations: {
-        Args: { p_company_id: string }
+      fn_get_company_registrations: {
+        Args: { p_company_id: string }
+        Returns: {
+          approved_at: string
+          event_date: string
+          event_id: string
+          event_location: string
+          event_name: string
+          id: string
+          notes: string
+          registered_at: string
+          status: string
+        }[]
+      }
+      fn_get_cv_book: {
+        Args: { p_event_id: string; p_offer_id?: string; p_session_id?: string }
+        Returns: {
+          cv_url: string
+          email: string
+          full_name: string
+          graduation_year: number
+          offer_title: string
+          profile_photo_url: string
+          program: string
+          resume_url: string
+          slot_time: string
+          student_id: string
+        }[]
+      }
+      fn_get_event_analytics: {
+        Args: never
+        Returns: {
+          available_slots: number
+          booked_slots: number
+          booking_rate: number
+          event_date: string
+          event_id: string
+          event_name: string
+          total_companies: number
+          total_offers: number
+          total_slots: number
+          total_students: number
+        }[]
+      }
+      fn_get_event_attendance: {
+        Args: { p_event_id: string }
+        Returns: {
+          attendance_rate: number
+          booked: number
+          checked_in: number
+          company_id: string
+          company_name: string
+          due: number
+          no_shows: number
+        }[]
+      }
+      fn_get_event_hiring_outcomes: {
+        Args: { p_event_id: string }
+        Returns: {
+          candidates: number
+          company_id: string
+          company_name: string
+          hired: number
+          in_progress: number
+          offers: number
+          placed_students: number
+          rejected: number
+        }[]
+      }
+      fn_get_event_registrations: {
+        Args: { p_event_id: string }
+        Returns: {
+          approved_at: string
+          approved_by: string
+          company_id: string
+          company_industry: string
+          company_name: string
+          company_verification_status: Database["public"]["Enums"]["company_verification_status"]
+          contact_email: string
+          contact_name: string
+          id: string
+          notes: string
+          registered_at: string
+          status: string
+        }[]
+      }
+      fn_get_interview_invitations: {
+        Args: never
+        Returns: {
+          booking_id: string
+          company_id: string
+          company_name: string
+          created_at: string
+          end_time: string
+          event_name: string
+          event_timezone: string
+          expires_at: string
+          id: string
+          invited_by_name: string
+          location: string
+          message: string
+          offer_id: string
+          offer_title: string
+          responded_at: string
+          slot_id: string
+          start_time: string
+          status: string
+          student_email: string
+          student_id: string
+          student_name: string
+        }[]
+      }
+      fn_get_lottery_report: {
+        Args: { p_run_id: string }
+        Returns: {
+          company_name: string
+          draw_position: number
+          offer_title: string
+          outcome: string
+          preference_rank: number
+          slot_time: string
+          student_email: string
+          student_name: string
+        }[]
+      }
+      fn_get_my_announcements: {
+        Args: never
+        Returns: {
+          ends_at: string
+          id: string
+          message: string
+          severity: string
+          starts_at: string
+          title: string
+        }[]
+      }
+      fn_get_my_calendar_entries: {
+        Args: { p_booking_id?: string; p_event_id?: string }
+        Returns: {
+          description: string
+          end_time: string
+          location: string
+          start_time: string
+          status: string
+          summary: string
+          timezone: string
+          uid: string
+        }[]
+      }
+      fn_get_next_phase_transition: {
+        Args: { p_event_id: string }
+        Returns: {
+          next_phase: number
+          next_phase_name: string
+          transition_at: string
+        }[]
+      }
+      fn_get_offer_candidates: {
+        Args: { p_offer_id: string }
         Returns: {
-          approved_at: string
-          event_date: string
-          event_id: string
-          event_location: string
-          event_name: string
-          id: string
-          notes: string
-          registered_at: string
-          status: string
+          attended: boolean
+          booking_id: string
+          criteria_scored: number
+          criteria_total: number
+          email: string
+          full_name: string
+          rank: number
+          recommendation: string
+          scorecard_id: string
+          slot_time: string
+          student_id: string
+          total_score: number
         }[]
       }
-      fn_get_event_analytics: {
-        Args: never
+      fn_get_offer_funnel: {
+        Args: { p_company_id: string; p_event_id?: string }
         Returns: {
-          available_slots: number
-          booked_slots: number
-          booking_rate: number
-          event_date: string
+          confirmed_bookings: number
           event_id: string
-          event_name: string
-          total_companies: number
-          total_offers: number
-          total_slots: number
-          total_students: number
+          is_active: boolean
+          offer_id: string
+          slot_modal_opens: number
+          title: string
+          unique_viewers: number
+          views: number
         }[]
       }
-      fn_get_event_registrations: {
-        Args: { p_event_id: string }
+      fn_get_reschedule_options: {
+        Args: { p_booking_id: string }
         Returns: {
-          approved_at: string
-          approved_by: string
-          company_id: string
-          company_industry: string
-          company_name: string
-          company_verification_status: Database["public"]["Enums"]["company_verification_status"]
-          contact_email: string
-          contact_name: string
-          id: string
-          notes: string
-          registered_at: string
-          status: string
+          booked_count: number
+          capacity: number
+          end_time: string
+          has_conflict: boolean
+          location: string
+          slot_id: string
+          start_time: string
         }[]
       }
       fn_get_student_analytics: {
@@ -1470,7 +3584,9 @@ export type Database = {
           booking_id: string
           can_cancel: boolean
           company_name: string
+          event_id: string
           event_name: string
+          event_timezone: string
           notes: string
           offer_title: string
           slot_id: string
@@ -1478,10 +3594,172 @@ export type Database = {
           status: string
         }[]
       }
+      fn_get_student_check_in_passes: {
+        Args: never
+        Returns: {
+          event_date: string
+          event_id: string
+          event_name: string
+          qr_payload: string
+          short_code: string
+        }[]
+      }
+      fn_get_student_offer_slots: {
+        Args: { p_event_id?: string; p_offer_id: string; p_student_id: string }
+        Returns: {
+          already_booked_with_company: boolean
+          capacity: number
+          confirmed_count: number
+          conflict_company_name: string | null
+          end_time: string
+          has_conflict: boolean
+          location: string | null
+          remaining_capacity: number
+          slot_id: string
+          start_time: string
+        }[]
+      }
+      fn_get_student_preferences: {
+        Args: { p_event_id: string }
+        Returns: {
+          company_name: string
+          offer_id: string
+          offer_title: string
+          rank: number
+        }[]
+      }
+      fn_get_student_waitlist: {
+        Args: { p_student_id: string }
+        Returns: {
+          company_name: string
+          created_at: string
+          event_id: string
+          event_name: string
+          offer_title: string
+          queue_position: number
+          slot_id: string
+          slot_time: string
+          status: string
+          waitlist_id: string
+        }[]
+      }
+      fn_get_talent_directory_filters: {
+        Args: never
+        Returns: {
+          graduation_years: number[]
+          languages: string[]
+          programs: string[]
+          skills: string[]
+          specializations: string[]
+        }[]
+      }
+      fn_get_team_invitation: {
+        Args: { p_token: string }
+        Returns: {
+          company_name: string
+          email: string
+          expires_at: string
+          full_name: string
+          role: string
+        }[]
+      }
+      fn_get_waitlist_position: {
+        Args: { p_waitlist_id: string }
+        Returns: number
+      }
+      fn_invite_team_member: {
+        Args: {
+          p_email: string
+          p_full_name: string
+          p_representative_id?: string
+          p_role: string
+        }
+        Returns: {
+          invitation_id: string
+          message: string
+          success: boolean
+        }[]
+      }
+      fn_is_valid_timezone: {
+        Args: { p_timezone: string }
+        Returns: boolean
+      }
+      fn_join_waitlist: {
+        Args: {
+          p_offer_id: string
+          p_screening_answers?: Json
+          p_slot_id?: string
+          p_student_id: string
+        }
+        Returns: {
+          message: string
+          queue_position: number
+          success: boolean
+          waitlist_id: string
+        }[]
+      }
+      fn_leave_waitlist: {
+        Args: { p_student_id: string; p_waitlist_id: string }
+        Returns: {
+          message: string
+          success: boolean
+        }[]
+      }
+      fn_log_cv_access: {
+        Args: { p_student_id: string }
+        Returns: {
+          message: string
+          success: boolean
+        }[]
+      }
       fn_manage_event_registration: {
         Args: { p_notes?: string; p_registration_id: string; p_status: string }
         Returns: undefined
       }
+      fn_move_pipeline_candidates: {
+        Args: {
+          p_event_id: string
+          p_note?: string
+          p_stage_id: string
+          p_student_ids: string[]
+        }
+        Returns: {
+          message: string
+          moved: number
+          success: boolean
+        }[]
+      }
+      fn_my_company_id: { Args: never; Returns: string }
+      fn_notified_in_transaction: {
+        Args: { p_types: string[]; p_user_id: string }
+        Returns: boolean
+      }
+      fn_plan_company_session_slots: {
+        Args: { p_company_id: string; p_session_id: string }
+        Returns: {
+          slot_capacity: number
+          slot_end: string
+          slot_offer_id: string
+          slot_start: string
+        }[]
+      }
+      fn_preview_session_regeneration: {
+        Args: { p_company_id?: string; p_session_id: string }
+        Returns: {
+          booking_id: string
+          company_id: string
+          company_name: string
+          new_end_time: string
+          new_start_time: string
+          old_end_time: string
+          old_slot_id: string
+          old_start_time: string
+          outcome: string
+          student_id: string
+          student_name: string
+        }[]
+      }
+      fn_promote_from_waitlist: { Args: { p_slot_id: string }; Returns: string }
       fn_rate_limit_status: {
         Args: {
           p_email: string
@@ -1500,6 +3778,14 @@ export type Database = {
         Args: { p_email: string; p_ip_address: string; p_reason: string }
         Returns: undefined
       }
+      fn_regenerate_company_slots: {
+        Args: { p_company_id: string; p_event_id: string }
+        Returns: {
+          message: string
+          slots_created: number
+          success: boolean
+        }[]
+      }
       fn_regenerate_event_slots: {
         Args: { p_session_id: string }
         Returns: {
@@ -1520,6 +3806,172 @@ export type Database = {
         Args: { p_company_id: string; p_event_id: string }
         Returns: string
       }
+      fn_remove_team_member: {
+        Args: { p_member_id: string }
+        Returns: {
+          message: string
+          success: boolean
+        }[]
+      }
+      fn_reschedule_booking: {
+        Args: { p_booking_id: string; p_new_slot_id: string }
+        Returns: {
+          message: string
+          success: boolean
+        }[]
+      }
+      fn_resolve_event_phase: {
+        Args: { p_event_id: string }
+        Returns: number
+      }
+      fn_resolve_event_phase_at: {
+        Args: { p_at: string; p_event_id: string }
+        Returns: number
+      }
+      fn_respond_interview_invitation: {
+        Args: {
+          p_accept: boolean
+          p_invitation_id: string
+          p_screening_answers?: Json
+        }
+        Returns: {
+          booking_id: string
+          message: string
+          success: boolean
+        }[]
+      }
+      fn_retry_email: {
+        Args: { p_email_id: string }
+        Returns: {
+          message: string
+          success: boolean
+        }[]
+      }
+      fn_run_lottery_allocation: {
+        Args: { p_event_id: string; p_seed?: string }
+        Returns: {
+          allocated_count: number
+          message: string
+          run_id: string
+          success: boolean
+        }[]
+      }
+      fn_save_event_phases: {
+        Args: { p_event_id: string; p_phases: Json }
+        Returns: {
+          message: string
+          success: boolean
+        }[]
+      }
+      fn_save_scorecard: {
+        Args: {
+          p_booking_id: string
+          p_notes?: string
+          p_recommendation?: string
+          p_scores: Json
+        }
+        Returns: {
+          message: string
+          scorecard_id: string
+          success: boolean
+          total_score: number
+        }[]
+      }
+      fn_scorecard_total: {
+        Args: { p_offer_id: string; p_scores: Json }
+        Returns: number
+      }
+      fn_search_talent_directory: {
+        Args: {
+          p_bookmarked_only?: boolean
+          p_graduation_year?: number
+          p_language?: string
+          p_limit?: number
+          p_offset?: number
+          p_program?: string
+          p_search?: string
+          p_skill?: string
+          p_specialization?: string
+        }
+        Returns: {
+          biography: string
+          email: string
+          full_name: string
+          graduation_year: number
+          is_bookmarked: boolean
+          languages_spoken: string[]
+          linkedin_url: string
+          profile_photo_url: string
+          program: string
+          skills: string[]
+          specialization: string
+          student_id: string
+          total_count: number
+          year_of_study: number
+        }[]
+      }
+      fn_send_due_announcement_emails: {
+        Args: never
+        Returns: number
+      }
+      fn_send_interview_invitation: {
+        Args: {
+          p_expires_at?: string
+          p_message?: string
+          p_offer_id: string
+          p_slot_id: string
+          p_student_id: string
+        }
+        Returns: {
+          invitation_id: string
+          message: string
+          success: boolean
+        }[]
+      }
+      fn_send_interview_reminders: {
+        Args: never
+        Returns: number
+      }
+      fn_set_booking_attendance: {
+        Args: { p_attended: boolean | null; p_booking_id: string }
+        Returns: {
+          message: string
+          success: boolean
+        }[]
+      }
+      fn_set_student_deprioritization: {
+        Args: {
+          p_deprioritized: boolean
+          p_reason: string
+          p_student_id: string
+        }
+        Returns: {
+          message: string
+          success: boolean
+        }[]
+      }
+      fn_set_talent_bookmark: {
+        Args: { p_bookmarked: boolean; p_student_id: string }
+        Returns: {
+          message: string
+          success: boolean
+        }[]
+      }
+      fn_submit_booking_preferences: {
+        Args: { p_event_id: string; p_offer_ids: string[] }
+        Returns: {
+          message: string
+          success: boolean
+        }[]
+      }
+      fn_track_offer_activity: {
+        Args: {
+          p_activity_type: string
+          p_offer_id: string
+          p_source: string
+        }
+        Returns: undefined
+      }
       fn_trigger_slot_regeneration: {
         Args: { p_event_id: string }
         Returns: {
@@ -1530,6 +3982,13 @@ export type Database = {
         }[]
       }
       fn_update_event_phase: { Args: { new_phase: number }; Returns: Json }
+      fn_update_team_member_role: {
+        Args: { p_member_id: string; p_role: string }
+        Returns: {
+          message: string
+          success: boolean
+        }[]
+      }
       fn_verify_company:
         | {
             Args: {
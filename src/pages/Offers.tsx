@@ -3,6 +3,7 @@ import { Link, useNavigate } from 'react-router-dom';
 import { supabase } from '@/lib/supabase';
 import { Building2, MapPin, Calendar, Briefcase, Sparkles, Filter as FilterIcon, ArrowRight } from 'lucide-react';
 import type { Offer, Company, Event } from '@/types/database';
+import { trackOfferActivity } from '@/utils/offerAnalytics';
 import Navigation from './landingPage/components/Navigation';
 import Footer from './landingPage/components/Footer';
 import DecorativeShape from './landingPage/components/DecorativeShape';
@@ -158,8 +159,9 @@ export default function Offers() {
         return;
       }
     }
-    
+
     if (user) {
+      trackOfferActivity(offerId, 'view', 'public_offers');
       navigate(`/student/offers/${offerId}`);
     } else {
       // For non-logged in users, redirect to login with redirect parameter
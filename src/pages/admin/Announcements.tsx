@@ -0,0 +1,223 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { Megaphone, Plus, Pencil, Trash2, Mail } from 'lucide-react';
+import AdminLayout from '@/components/admin/AdminLayout';
+import AnnouncementModal, { AUDIENCE_LABELS, type AdminAnnouncement } from '@/components/admin/AnnouncementModal';
+import { useAuth } from '@/hooks/useAuth';
+import ErrorDisplay from '@/components/shared/ErrorDisplay';
+import EmptyState from '@/components/shared/EmptyState';
+import LoadingTable from '@/components/shared/LoadingTable';
+
+type EventOption = {
+  id: string;
+  name: string;
+};
+
+const SEVERITY_STYLES: Record<AdminAnnouncement['severity'], string> = {
+  info: 'bg-blue-100 text-blue-800',
+  warning: 'bg-amber-100 text-amber-800',
+  urgent: 'bg-red-100 text-red-800',
+};
+
+const getStatus = (announcement: AdminAnnouncement): { label: string; className: string } => {
+  const now = Date.now();
+  if (new Date(announcement.starts_at).getTime() > now) {
+    return { label: 'Scheduled', className: 'bg-muted text-muted-foreground' };
+  }
+  if (announcement.ends_at && new Date(announcement.ends_at).getTime() <= now) {
+    return { label: 'Ended', className: 'bg-muted text-muted-foreground' };
+  }
+  return { label: 'Live', className: 'bg-green-100 text-green-800' };
+};
+
+const formatWhen = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+/**
+ * AdminAnnouncements - Compose and schedule announcements
+ *
+ * Announcements show as a dismissible banner to their audience between
+ * their start and end, and can also be emailed when they start.
+ *
+ * @component
+ * @example
+ * <AdminAnnouncements />
+ */
+export default function AdminAnnouncements() {
+  const { signOut } = useAuth('admin');
+  const [announcements, setAnnouncements] = useState<AdminAnnouncement[]>([]);
+  const [events, setEvents] = useState<EventOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const [editing, setEditing] = useState<AdminAnnouncement | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadAnnouncements();
+    loadEvents();
+  }, []);
+
+  const loadAnnouncements = async () => {
+    try {
+      setError(null);
+      setLoading(true);
+      const { data, error: loadError } = await supabase
+        .from('announcements')
+        .select('id, title, message, audience, event_id, severity, starts_at, ends_at, send_email, emailed_at, created_at, events(name)')
+        .order('starts_at', { ascending: false });
+
+      if (loadError) throw loadError;
+      setAnnouncements((data || []) as AdminAnnouncement[]);
+    } catch (err) {
+      console.error('Error loading announcements:', err);
+      setError(err instanceof Error ? err : new Error('Failed to load announcements'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadEvents = async () => {
+    const { data, error: eventsError } = await supabase
+      .from('events')
+      .select('id, name')
+      .order('date', { ascending: false });
+
+    if (eventsError) {
+      console.error('Error loading events:', eventsError);
+      return;
+    }
+    setEvents(data || []);
+  };
+
+  const handleDelete = async (announcement: AdminAnnouncement) => {
+    if (!confirm(`Delete the announcement "${announcement.title}"? It disappears for everyone.`)) {
+      return;
+    }
+
+    setDeletingId(announcement.id);
+    try {
+      const { error: deleteError } = await supabase
+        .from('announcements')
+        .delete()
+        .eq('id', announcement.id);
+
+      if (deleteError) throw deleteError;
+      setAnnouncements((prev) => prev.filter((a) => a.id !== announcement.id));
+    } catch (err: any) {
+      console.error('Error deleting announcement:', err);
+      alert('Error: ' + err.message);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const openModal = (announcement: AdminAnnouncement | null) => {
+    setEditing(announcement);
+    setShowModal(true);
+  };
+
+  return (
+    <AdminLayout onSignOut={signOut}>
+      <div className="p-4 sm:p-6 md:p-8">
+        <div className="max-w-7xl mx-auto">
+          {/* Header */}
+          <div className="mb-8 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold text-foreground mb-2">Announcements</h1>
+              <p className="text-muted-foreground">Banners for students, companies or event participants, optionally by email</p>
+            </div>
+            <button
+              onClick={() => openModal(null)}
+              className="flex items-center justify-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition"
+            >
+              <Plus className="w-4 h-4" />
+              New announcement
+            </button>
+          </div>
+
+          {error ? (
+            <ErrorDisplay error={error} onRetry={loadAnnouncements} />
+          ) : loading ? (
+            <LoadingTable columns={4} rows={4} />
+          ) : announcements.length === 0 ? (
+            <EmptyState
+              icon={Megaphone}
+              title="No announcements"
+              message="Announcements you create show as a banner to their audience."
+              className="bg-card border border-border rounded-lg p-12"
+            />
+          ) : (
+            <div className="space-y-4">
+              {announcements.map((announcement) => {
+                const status = getStatus(announcement);
+                return (
+                  <div key={announcement.id} className="bg-card border border-border rounded-lg p-5">
+                    <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex flex-wrap items-center gap-2 mb-2">
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${status.className}`}>{status.label}</span>
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${SEVERITY_STYLES[announcement.severity]}`}>
+                            {announcement.severity}
+                          </span>
+                          <span className="text-xs text-muted-foreground">
+                            {AUDIENCE_LABELS[announcement.audience]}
+                            {announcement.events?.name && `: ${announcement.events.name}`}
+                          </span>
+                        </div>
+                        <h3 className="font-semibold text-foreground">{announcement.title}</h3>
+                        <p className="text-sm text-muted-foreground whitespace-pre-line mt-1">{announcement.message}</p>
+                        <p className="text-xs text-muted-foreground mt-3">
+                          {formatWhen(announcement.starts_at)}
+                          {announcement.ends_at ? ` → ${formatWhen(announcement.ends_at)}` : ' → until deleted'}
+                        </p>
+                        {announcement.send_email && (
+                          <p className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+                            <Mail className="w-3.5 h-3.5" />
+                            {announcement.emailed_at ? `Emailed ${formatWhen(announcement.emailed_at)}` : 'Email pending'}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => openModal(announcement)}
+                          className="flex items-center gap-1 px-3 py-1.5 border border-border rounded-lg text-sm hover:bg-muted transition"
+                        >
+                          <Pencil className="w-4 h-4" />
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDelete(announcement)}
+                          disabled={deletingId === announcement.id}
+                          className="flex items-center gap-1 px-3 py-1.5 border border-border rounded-lg text-sm text-destructive hover:bg-destructive/10 transition disabled:opacity-50"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                          Delete
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {showModal && (
+        <AnnouncementModal
+          announcement={editing}
+          events={events}
+          onClose={() => setShowModal(false)}
+          onSaved={loadAnnouncements}
+        />
+      )}
+    </AdminLayout>
+  );
+}
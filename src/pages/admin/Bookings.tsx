@@ -1,12 +1,15 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '@/lib/supabase';
 import { useToast } from '@/contexts/ToastContext';
-import { Clock, Calendar, User, Building2, Search, X } from 'lucide-react';
+import { Clock, Calendar, User, Building2, Search, X, CalendarClock } from 'lucide-react';
 import AdminLayout from '@/components/admin/AdminLayout';
 import { useAuth } from '@/hooks/useAuth';
 import ErrorDisplay from '@/components/shared/ErrorDisplay';
 import EmptyState from '@/components/shared/EmptyState';
 import LoadingTable from '@/components/shared/LoadingTable';
+import RescheduleBookingModal from '@/components/shared/RescheduleBookingModal';
+import ViewerTimeHint from '@/components/shared/ViewerTimeHint';
+import { DEFAULT_EVENT_TIMEZONE, formatDate, formatTime } from '@/utils/dateUtils';
 
 type Booking = {
   id: string;
@@ -21,6 +24,7 @@ type Booking = {
   event_slots: {
     start_time: string;
     end_time: string;
+    timezone: string;
     companies: {
       company_name: string;
     };
@@ -33,6 +37,7 @@ export default function AdminBookings() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [reschedulingBooking, setReschedulingBooking] = useState<Booking | null>(null);
   const { showError, showSuccess } = useToast();
 
   useEffect(() => {
@@ -55,7 +60,8 @@ export default function AdminBookings() {
           event_slots!inner (
             start_time,
             end_time,
-            company_id
+            company_id,
+            events ( timezone )
           )
         `)
         .eq('status', 'confirmed')
@@ -94,6 +100,7 @@ export default function AdminBookings() {
         event_slots: {
           start_time: booking.event_slots?.start_time || '',
           end_time: booking.event_slots?.end_time || '',
+          timezone: booking.event_slots?.events?.timezone || DEFAULT_EVENT_TIMEZONE,
           companies: {
             company_name: companiesMap.get(booking.event_slots?.company_id)?.company_name || 'Unknown Company'
           }
@@ -258,11 +265,12 @@ export default function AdminBookings() {
                           <div className="text-sm text-foreground">
                             <div className="flex items-center gap-1">
                               <Calendar className="w-3 h-3" />
-                              {new Date(booking.event_slots.start_time).toLocaleDateString()}
+                              {formatDate(booking.event_slots.start_time, { year: 'numeric', month: 'numeric', day: 'numeric' }, booking.event_slots)}
                             </div>
                             <div className="text-xs text-muted-foreground mt-1">
-                              {new Date(booking.event_slots.start_time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} - {new Date(booking.event_slots.end_time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                              {formatTime(booking.event_slots.start_time, booking.event_slots)} - {formatTime(booking.event_slots.end_time, booking.event_slots)}
                             </div>
+                            <ViewerTimeHint value={booking.event_slots.start_time} event={booking.event_slots} withDate />
                           </div>
                         </td>
                         <td className="px-4 sm:px-6 py-3 sm:py-4 whitespace-nowrap">
@@ -275,13 +283,22 @@ export default function AdminBookings() {
                           </span>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm">
-                          <button
-                            onClick={() => handleCancelBooking(booking.id)}
-                            className="px-3 py-1.5 bg-destructive/10 text-destructive rounded-lg text-xs font-medium hover:bg-destructive/20 transition-colors flex items-center gap-1"
-                          >
-                            <X className="w-3 h-3" />
-                            Cancel
-                          </button>
+                          <div className="flex items-center gap-2">
+                            <button
+                              onClick={() => setReschedulingBooking(booking)}
+                              className="px-3 py-1.5 bg-primary/10 text-primary rounded-lg text-xs font-medium hover:bg-primary/20 transition-colors flex items-center gap-1"
+                            >
+                              <CalendarClock className="w-3 h-3" />
+                              Change time
+                            </button>
+                            <button
+                              onClick={() => handleCancelBooking(booking.id)}
+                              className="px-3 py-1.5 bg-destructive/10 text-destructive rounded-lg text-xs font-medium hover:bg-destructive/20 transition-colors flex items-center gap-1"
+                            >
+                              <X className="w-3 h-3" />
+                              Cancel
+                            </button>
+                          </div>
                         </td>
                       </tr>
                     ))}
@@ -320,15 +337,22 @@ export default function AdminBookings() {
                       <div className="flex flex-col">
                         <div className="flex items-center gap-1 text-foreground">
                           <Calendar className="w-3 h-3 text-muted-foreground" />
-                          {new Date(booking.event_slots.start_time).toLocaleDateString()}
+                          {formatDate(booking.event_slots.start_time, { year: 'numeric', month: 'numeric', day: 'numeric' }, booking.event_slots)}
                         </div>
                         <div className="text-xs text-muted-foreground ml-4">
-                          {new Date(booking.event_slots.start_time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                          {formatTime(booking.event_slots.start_time, booking.event_slots)}
                         </div>
                       </div>
                     </div>
 
-                    <div className="pt-2 flex justify-end">
+                    <div className="pt-2 flex justify-end gap-2">
+                      <button
+                        onClick={() => setReschedulingBooking(booking)}
+                        className="px-3 py-1.5 bg-primary/10 text-primary rounded-lg text-xs font-medium hover:bg-primary/20 transition-colors flex items-center gap-1"
+                      >
+                        <CalendarClock className="w-3 h-3" />
+                        Change time
+                      </button>
                       <button
                         onClick={() => handleCancelBooking(booking.id)}
                         className="px-3 py-1.5 bg-destructive/10 text-destructive rounded-lg text-xs font-medium hover:bg-destructive/20 transition-colors flex items-center gap-1"
@@ -344,6 +368,20 @@ export default function AdminBookings() {
           )}
         </div>
       </div>
+
+      {reschedulingBooking && (
+        <RescheduleBookingModal
+          bookingId={reschedulingBooking.id}
+          companyName={reschedulingBooking.event_slots.companies.company_name}
+          currentSlotTime={reschedulingBooking.event_slots.start_time}
+          event={reschedulingBooking.event_slots}
+          onClose={() => setReschedulingBooking(null)}
+          onRescheduled={async () => {
+            setReschedulingBooking(null);
+            await loadBookings();
+          }}
+        />
+      )}
     </AdminLayout>
   );
 }
@@ -10,6 +10,8 @@ import EmptyState from '@/components/admin/dashboard/EmptyState';
 import EventSelector from '@/components/admin/dashboard/EventSelector';
 import PhaseStatusCard from '@/components/admin/dashboard/PhaseStatusCard';
 import StatsGrid from '@/components/admin/dashboard/StatsGrid';
+import AttendanceCard from '@/components/admin/dashboard/AttendanceCard';
+import HiringOutcomesCard from '@/components/admin/dashboard/HiringOutcomesCard';
 import BulkImportModal from '@/components/admin/BulkImportModal';
 import { Users, Target, Clock, Calendar } from 'lucide-react';
 
@@ -80,6 +82,10 @@ export default function AdminDashboard() {
             <StatsGrid stats={stats} eventId={selectedEvent.id} />
           )}
 
+          <AttendanceCard eventId={selectedEvent.id} />
+
+          <HiringOutcomesCard eventId={selectedEvent.id} />
+
           {/* Event Management Actions */}
           <div className="bg-white rounded-xl border-2 border-gray-200 p-4 md:p-6 shadow-lg">
             <h2 className="text-lg md:text-xl font-semibold text-gray-900 mb-4">Event Management</h2>
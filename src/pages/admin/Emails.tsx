@@ -0,0 +1,360 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { Mail, RefreshCw, RotateCcw } from 'lucide-react';
+import AdminLayout from '@/components/admin/AdminLayout';
+import { useAuth } from '@/hooks/useAuth';
+import EmptyState from '@/components/shared/EmptyState';
+import LoadingTable from '@/components/shared/LoadingTable';
+import { formatTimeAgo } from '@/utils/dateUtils';
+import {
+  listEmailTemplates,
+  previewEmailTemplate,
+  type EmailPreview,
+  type EmailTemplateSummary,
+} from '@/utils/emailService';
+
+type OutboxEmail = {
+  id: string;
+  template: string;
+  to_email: string;
+  status: string;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  transport: string | null;
+  created_at: string;
+  sent_at: string | null;
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  sending: 'bg-blue-100 text-blue-800',
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+const OUTBOX_LIMIT = 100;
+
+/**
+ * AdminEmails - Email template previews and the outbox
+ *
+ * Renders each template of the send-email function with editable sample
+ * data, and lists recently queued emails with their delivery status.
+ * Failed emails can be queued again.
+ *
+ * @component
+ * @example
+ * <AdminEmails />
+ */
+export default function AdminEmails() {
+  const { signOut } = useAuth('admin');
+  const [templates, setTemplates] = useState<EmailTemplateSummary[]>([]);
+  const [templatesError, setTemplatesError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [sampleJson, setSampleJson] = useState('');
+  const [preview, setPreview] = useState<EmailPreview | null>(null);
+  const [previewMode, setPreviewMode] = useState<'html' | 'text'>('html');
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [outbox, setOutbox] = useState<OutboxEmail[]>([]);
+  const [outboxLoading, setOutboxLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+
+  const renderPreview = async (templateId: string, json: string) => {
+    let data: Record<string, unknown>;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      setPreviewError('Sample data is not valid JSON');
+      return;
+    }
+
+    setPreviewing(true);
+    setPreviewError(null);
+    const result = await previewEmailTemplate(templateId, data);
+    setPreviewing(false);
+
+    if (!result.success || !result.preview) {
+      setPreview(null);
+      setPreviewError(result.error || 'Failed to render template');
+      return;
+    }
+    setPreview(result.preview);
+  };
+
+  const selectTemplate = (template: EmailTemplateSummary) => {
+    const json = JSON.stringify(template.sample, null, 2);
+    setSelectedId(template.id);
+    setSampleJson(json);
+    renderPreview(template.id, json);
+  };
+
+  useEffect(() => {
+    const loadTemplates = async () => {
+      const result = await listEmailTemplates();
+      if (!result.success || !result.templates) {
+        setTemplatesError(result.error || 'Failed to load templates');
+        return;
+      }
+      setTemplates(result.templates);
+      if (result.templates.length > 0) {
+        selectTemplate(result.templates[0]);
+      }
+    };
+
+    loadTemplates();
+  }, []);
+
+  const loadOutbox = useCallback(async () => {
+    setOutboxLoading(true);
+    try {
+      let query = supabase
+        .from('email_outbox')
+        .select('id, template, to_email, status, attempts, max_attempts, next_attempt_at, last_error, transport, created_at, sent_at')
+        .order('created_at', { ascending: false })
+        .limit(OUTBOX_LIMIT);
+
+      if (statusFilter !== 'all') {
+        query = query.eq('status', statusFilter);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setOutbox(data || []);
+    } catch (err) {
+      console.error('Error loading email outbox:', err);
+    } finally {
+      setOutboxLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    loadOutbox();
+  }, [loadOutbox]);
+
+  const handleRetry = async (email: OutboxEmail) => {
+    setRetryingId(email.id);
+    try {
+      const { data, error } = await supabase.rpc('fn_retry_email', { p_email_id: email.id });
+      if (error) throw error;
+
+      const result = data?.[0];
+      if (!result?.success) {
+        alert(result?.message || 'Failed to retry email');
+        return;
+      }
+      await loadOutbox();
+    } catch (err: any) {
+      console.error('Error retrying email:', err);
+      alert('Error: ' + err.message);
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  const templateName = (id: string) => templates.find((t) => t.id === id)?.name || id;
+
+  return (
+    <AdminLayout onSignOut={signOut}>
+      <div className="p-4 sm:p-6 md:p-8">
+        <div className="max-w-7xl mx-auto space-y-8">
+          {/* Header */}
+          <div>
+            <h1 className="text-3xl font-bold text-foreground mb-2">Emails</h1>
+            <p className="text-muted-foreground">Preview transactional email templates and follow their delivery</p>
+          </div>
+
+          {/* Templates */}
+          <div className="bg-card border border-border rounded-lg overflow-hidden">
+            <div className="px-6 py-4 border-b border-border">
+              <h2 className="text-lg font-semibold text-foreground">Templates</h2>
+            </div>
+
+            {templatesError ? (
+              <p className="p-6 text-sm text-destructive">{templatesError}</p>
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-[16rem_1fr]">
+                <div className="border-b lg:border-b-0 lg:border-r border-border p-3 space-y-1">
+                  {templates.map((template) => (
+                    <button
+                      key={template.id}
+                      onClick={() => selectTemplate(template)}
+                      className={`w-full text-left px-3 py-2 rounded-lg transition-colors ${
+                        selectedId === template.id
+                          ? 'bg-primary text-primary-foreground'
+                          : 'text-foreground hover:bg-muted'
+                      }`}
+                    >
+                      <p className="text-sm font-medium">{template.name}</p>
+                      <p className={`text-xs mt-0.5 ${selectedId === template.id ? 'text-primary-foreground/80' : 'text-muted-foreground'}`}>
+                        {template.description}
+                      </p>
+                    </button>
+                  ))}
+                </div>
+
+                {selectedId && (
+                  <div className="p-6 grid grid-cols-1 xl:grid-cols-[20rem_1fr] gap-6">
+                    <div className="space-y-3">
+                      <label className="block text-sm font-medium text-foreground">Sample data</label>
+                      <textarea
+                        value={sampleJson}
+                        onChange={(e) => setSampleJson(e.target.value)}
+                        rows={14}
+                        spellCheck={false}
+                        className="w-full px-3 py-2 bg-background border border-input rounded-lg font-mono text-xs focus:outline-none focus:ring-2 focus:ring-ring"
+                      />
+                      <button
+                        onClick={() => renderPreview(selectedId, sampleJson)}
+                        disabled={previewing}
+                        className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg text-sm font-medium hover:bg-primary/90 transition-colors disabled:opacity-50"
+                      >
+                        <RefreshCw className={`w-4 h-4 ${previewing ? 'animate-spin' : ''}`} />
+                        Refresh preview
+                      </button>
+                      {previewError && <p className="text-sm text-destructive">{previewError}</p>}
+                    </div>
+
+                    <div className="space-y-3 min-w-0">
+                      <div className="flex flex-wrap items-center justify-between gap-3">
+                        <p className="text-sm text-foreground">
+                          <span className="text-muted-foreground">Subject: </span>
+                          <span className="font-medium">{preview?.subject}</span>
+                        </p>
+                        <div className="flex gap-1">
+                          {(['html', 'text'] as const).map((mode) => (
+                            <button
+                              key={mode}
+                              onClick={() => setPreviewMode(mode)}
+                              className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors ${
+                                previewMode === mode
+                                  ? 'bg-primary text-primary-foreground'
+                                  : 'text-muted-foreground hover:bg-muted'
+                              }`}
+                            >
+                              {mode === 'html' ? 'HTML' : 'Plain text'}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+
+                      {preview && (previewMode === 'html' ? (
+                        <iframe
+                          title="Email preview"
+                          srcDoc={preview.html}
+                          sandbox=""
+                          className="w-full h-[32rem] border border-border rounded-lg bg-white"
+                        />
+                      ) : (
+                        <pre className="w-full h-[32rem] overflow-auto p-4 border border-border rounded-lg bg-muted/30 text-sm whitespace-pre-wrap">
+                          {preview.text}
+                        </pre>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Outbox */}
+          <div className="bg-card border border-border rounded-lg overflow-hidden">
+            <div className="px-6 py-4 border-b border-border flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <h2 className="text-lg font-semibold text-foreground">Outbox</h2>
+              <div className="flex gap-2">
+                <select
+                  value={statusFilter}
+                  onChange={(e) => setStatusFilter(e.target.value)}
+                  className="px-3 py-2 bg-background border border-input rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                >
+                  <option value="all">All statuses</option>
+                  <option value="pending">Pending</option>
+                  <option value="sending">Sending</option>
+                  <option value="sent">Sent</option>
+                  <option value="failed">Failed</option>
+                </select>
+                <button
+                  onClick={loadOutbox}
+                  className="p-2 border border-border rounded-lg hover:bg-muted transition-colors"
+                  aria-label="Refresh outbox"
+                >
+                  <RefreshCw className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            {outboxLoading ? (
+              <LoadingTable columns={5} rows={5} />
+            ) : outbox.length === 0 ? (
+              <EmptyState
+                icon={Mail}
+                title="No emails"
+                message="Queued emails will show up here."
+                className="p-12"
+              />
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted/50">
+                    <tr>
+                      <th className="px-6 py-3 text-left font-medium text-muted-foreground">Template</th>
+                      <th className="px-6 py-3 text-left font-medium text-muted-foreground">Recipient</th>
+                      <th className="px-6 py-3 text-left font-medium text-muted-foreground">Status</th>
+                      <th className="px-6 py-3 text-left font-medium text-muted-foreground">Attempts</th>
+                      <th className="px-6 py-3 text-left font-medium text-muted-foreground">Queued</th>
+                      <th className="px-6 py-3" />
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    {outbox.map((email) => (
+                      <tr key={email.id} className="align-top">
+                        <td className="px-6 py-3 text-foreground">{templateName(email.template)}</td>
+                        <td className="px-6 py-3 text-foreground">{email.to_email}</td>
+                        <td className="px-6 py-3">
+                          <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[email.status] || 'bg-muted text-muted-foreground'}`}>
+                            {email.status}
+                          </span>
+                          {email.status === 'sent' && email.transport && (
+                            <span className="ml-2 text-xs text-muted-foreground">via {email.transport}</span>
+                          )}
+                          {email.status === 'pending' && email.attempts > 0 && (
+                            <p className="text-xs text-muted-foreground mt-1">
+                              Next attempt {new Date(email.next_attempt_at).toLocaleTimeString()}
+                            </p>
+                          )}
+                          {email.last_error && email.status !== 'sent' && (
+                            <p className="text-xs text-destructive mt-1 max-w-xs break-words">{email.last_error}</p>
+                          )}
+                        </td>
+                        <td className="px-6 py-3 text-muted-foreground">
+                          {email.attempts} / {email.max_attempts}
+                        </td>
+                        <td className="px-6 py-3 text-muted-foreground whitespace-nowrap">
+                          {formatTimeAgo(email.created_at)}
+                        </td>
+                        <td className="px-6 py-3 text-right">
+                          {email.status === 'failed' && (
+                            <button
+                              onClick={() => handleRetry(email)}
+                              disabled={retryingId === email.id}
+                              className="inline-flex items-center gap-1 px-3 py-1.5 border border-border rounded-lg text-xs font-medium hover:bg-muted transition-colors disabled:opacity-50"
+                            >
+                              <RotateCcw className="w-3.5 h-3.5" />
+                              Retry
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </AdminLayout>
+  );
+}
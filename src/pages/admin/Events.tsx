@@ -10,6 +10,7 @@ import ErrorDisplay from '@/components/shared/ErrorDisplay';
 import EmptyState from '@/components/shared/EmptyState';
 import LoadingTable from '@/components/shared/LoadingTable';
 import LoadingScreen from '@/components/shared/LoadingScreen';
+import { DEFAULT_EVENT_TIMEZONE, EVENT_TIMEZONE_OPTIONS } from '@/utils/dateUtils';
 
 export default function AdminEvents() {
   const { user, loading: authLoading, signOut } = useAuth('admin');
@@ -26,6 +27,7 @@ export default function AdminEvents() {
     date: '',
     description: '',
     location: '',
+    timezone: DEFAULT_EVENT_TIMEZONE,
     current_phase: 0,
     phase1_max_bookings: 3,
     phase2_max_bookings: 6,
@@ -85,6 +87,7 @@ export default function AdminEvents() {
         date: '', 
         description: '', 
         location: '',
+        timezone: DEFAULT_EVENT_TIMEZONE,
         current_phase: 0,
         phase1_max_bookings: 3,
         phase2_max_bookings: 6,
@@ -226,6 +229,25 @@ export default function AdminEvents() {
                     placeholder="e.g., University Hall"
                   />
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-1">
+                    Timezone *
+                  </label>
+                  <select
+                    value={formData.timezone}
+                    onChange={(e) => setFormData({ ...formData, timezone: e.target.value })}
+                    className="w-full px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary"
+                  >
+                    {EVENT_TIMEZONE_OPTIONS.map((zone) => (
+                      <option key={zone} value={zone}>
+                        {zone.replace(/_/g, ' ')}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Slot, session and phase times are entered and shown in this timezone
+                  </p>
+                </div>
               </div>
               <div>
                 <label className="block text-sm font-medium text-foreground mb-1">
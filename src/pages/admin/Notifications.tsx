@@ -0,0 +1,37 @@
+import { useAuth } from '@/hooks/useAuth';
+import LoadingScreen from '@/components/shared/LoadingScreen';
+import AdminLayout from '@/components/admin/AdminLayout';
+import NotificationList from '@/components/shared/NotificationList';
+
+/**
+ * AdminNotifications - All notifications of the signed-in administrator
+ *
+ * @component
+ * @example
+ * <AdminNotifications />
+ */
+export default function AdminNotifications() {
+  const { loading: authLoading, signOut } = useAuth('admin');
+
+  if (authLoading) {
+    return <LoadingScreen message="Loading notifications..." />;
+  }
+
+  return (
+    <AdminLayout onSignOut={signOut}>
+      <div className="p-4 sm:p-6 md:p-8">
+        <div className="max-w-4xl mx-auto space-y-6">
+          {/* Header */}
+          <div className="space-y-2">
+            <h1 className="text-3xl md:text-4xl font-bold text-foreground">Notifications</h1>
+            <p className="text-muted-foreground text-sm md:text-base">
+              Registrations to review and other platform events
+            </p>
+          </div>
+
+          <NotificationList />
+        </div>
+      </div>
+    </AdminLayout>
+  );
+}
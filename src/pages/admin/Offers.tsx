@@ -2,17 +2,20 @@ import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/lib/supabase';
 import { useToast } from '@/contexts/ToastContext';
-import { Briefcase, Building2, Search, Eye, EyeOff, Trash2, Plus, Edit2 } from 'lucide-react';
+import { Briefcase, Building2, Search, Eye, EyeOff, Trash2, Plus, Edit2, Copy, BookmarkPlus } from 'lucide-react';
 import AdminLayout from '@/components/admin/AdminLayout';
 import { useAuth } from '@/hooks/useAuth';
 import ErrorDisplay from '@/components/shared/ErrorDisplay';
 import EmptyState from '@/components/shared/EmptyState';
 import LoadingTable from '@/components/shared/LoadingTable';
+import DuplicateOfferModal from '@/components/shared/DuplicateOfferModal';
+import SaveOfferTemplateModal from '@/components/shared/SaveOfferTemplateModal';
 
 type Offer = {
   id: string;
   title: string;
   description: string;
+  event_id: string | null;
   interest_tag: string;
   location: string | null;
   is_active: boolean;
@@ -32,6 +35,8 @@ export default function AdminOffers() {
   const [searchQuery, setSearchQuery] = useState('');
   const [filterActive, setFilterActive] = useState<'all' | 'active' | 'inactive'>('all');
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [duplicatingOffer, setDuplicatingOffer] = useState<Offer | null>(null);
+  const [templateOffer, setTemplateOffer] = useState<Offer | null>(null);
   const { showSuccess, showError } = useToast();
 
   useEffect(() => {
@@ -276,6 +281,21 @@ export default function AdminOffers() {
                       <Edit2 className="w-3 h-3" />
                       Edit
                     </button>
+                    <button
+                      onClick={() => setDuplicatingOffer(offer)}
+                      className="flex-1 px-3 py-2 bg-muted text-foreground rounded-lg text-xs font-medium hover:bg-accent transition-colors flex items-center justify-center gap-1"
+                      title="Duplicate to event"
+                    >
+                      <Copy className="w-3 h-3" />
+                      Duplicate
+                    </button>
+                    <button
+                      onClick={() => setTemplateOffer(offer)}
+                      className="px-3 py-2 bg-muted text-foreground rounded-lg text-xs font-medium hover:bg-accent transition-colors flex items-center justify-center"
+                      title="Save as template"
+                    >
+                      <BookmarkPlus className="w-3 h-3" />
+                    </button>
                     <button
                       onClick={() => handleDeleteOffer(offer.id)}
                       disabled={deletingId === offer.id}
@@ -297,6 +317,17 @@ export default function AdminOffers() {
           )}
         </div>
       </div>
+
+      {duplicatingOffer && (
+        <DuplicateOfferModal
+          offer={duplicatingOffer}
+          onClose={() => setDuplicatingOffer(null)}
+          onDuplicated={loadOffers}
+        />
+      )}
+      {templateOffer && (
+        <SaveOfferTemplateModal offer={templateOffer} onClose={() => setTemplateOffer(null)} />
+      )}
     </AdminLayout>
   );
 }
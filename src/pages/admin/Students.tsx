@@ -9,6 +9,7 @@ import ErrorDisplay from '@/components/shared/ErrorDisplay';
 import EmptyState from '@/components/shared/EmptyState';
 import LoadingTable from '@/components/shared/LoadingTable';
 import ImageUpload from '@/components/shared/ImageUpload';
+import DeprioritizationModal from '@/components/admin/DeprioritizationModal';
 import Pagination from '@/components/shared/Pagination';
 import { uploadProfilePhoto } from '@/utils/fileUpload';
 import { error as logError } from '@/utils/logger';
@@ -22,6 +23,7 @@ type Student = {
   specialization: string | null;
   graduation_year: number | null;
   is_deprioritized: boolean;
+  no_show_penalty_event_id?: string | null;
   account_approved: boolean;
   created_at: string;
   updated_at?: string; // For cache busting and detecting changes
@@ -63,6 +65,7 @@ export default function AdminStudents() {
   const [editingStudentId, setEditingStudentId] = useState<string | null>(null);
   const [editedStudent, setEditedStudent] = useState<Partial<Student> | null>(null);
   const [savingStudentId, setSavingStudentId] = useState<string | null>(null);
+  const [overrideStudent, setOverrideStudent] = useState<Student | null>(null);
   const [uploadingPhoto, setUploadingPhoto] = useState<string | null>(null);
   const [photoFile, setPhotoFile] = useState<File | null>(null);
   const [languageInput, setLanguageInput] = useState<Record<string, string>>({});
@@ -178,7 +181,7 @@ export default function AdminStudents() {
       // Fetch fresh data - ensure we get all fields including updated_at if it exists
       const { data: fullStudentProfiles, error: fullError } = await supabase
         .from('profiles')
-        .select('id, email, full_name, phone, student_number, specialization, graduation_year, cv_url, is_deprioritized, account_approved, created_at, updated_at, profile_photo_url, languages_spoken, program, biography, linkedin_url, resume_url, year_of_study')
+        .select('id, email, full_name, phone, student_number, specialization, graduation_year, cv_url, is_deprioritized, no_show_penalty_event_id, account_approved, created_at, updated_at, profile_photo_url, languages_spoken, program, biography, linkedin_url, resume_url, year_of_study')
         .in('id', studentIds)
         .order('created_at', { ascending: false });
       
@@ -287,6 +290,7 @@ export default function AdminStudents() {
         specialization: s.specialization || null,
         graduation_year: s.graduation_year || null,
         is_deprioritized: s.is_deprioritized || false,
+        no_show_penalty_event_id: s.no_show_penalty_event_id || null,
         account_approved: s.account_approved ?? true,
         created_at: s.created_at,
         updated_at: s.updated_at || s.created_at, // Include updated_at from database
@@ -313,57 +317,20 @@ export default function AdminStudents() {
     }
   }, [eventId, showError]);
 
-  const handleToggleDeprioritized = useCallback(async (studentId: string, currentStatus: boolean) => {
-    const newStatus = !currentStatus;
-    
-    try {
-      // Update database
-      const { error: updateError, data: updateData } = await supabase
-        .from('profiles')
-        .update({ is_deprioritized: newStatus })
-        .eq('id', studentId)
-        .select();
-
-      if (updateError) {
-        logError('Database error toggling deprioritized:', updateError);
-        throw updateError;
-      }
-
-      if (!updateData || updateData.length === 0) {
-        throw new Error('Update failed: You may not have permission to update this profile.');
-      }
-
-      // Update local state IMMEDIATELY with the new status (optimistic update)
-      // This ensures the UI updates instantly and the change persists
-      setStudents(prevStudents => {
-        const updated = prevStudents.map(s => 
-          s.id === studentId 
-            ? { ...s, is_deprioritized: newStatus, updated_at: new Date().toISOString() }
-            : s
-        );
-        // Return a new array reference to ensure React detects the change
-        return [...updated];
-      });
-
-      showSuccess(`Student ${newStatus ? 'deprioritized' : 'prioritized'} successfully`);
-      
-      // Optionally verify in the background (non-blocking)
-      // Background verification removed to prevent state flickering/reversion
-      // The optimistic update above is sufficient as we trust the DB update succeeded if no error was thrown
-    } catch (err: any) {
-      logError('Error updating student deprioritization status:', err);
-      showError(err.message || 'Failed to update student status');
-      
-      // Revert the optimistic update on error
-      setStudents(prevStudents => 
-        prevStudents.map(s => 
-          s.id === studentId 
-            ? { ...s, is_deprioritized: currentStatus }
-            : s
-        )
-      );
-    }
-  }, [showSuccess, showError]);
+  // Changes go through DeprioritizationModal so every override has a reason
+  const handleDeprioritizationSaved = useCallback((studentId: string, isDeprioritized: boolean) => {
+    setStudents(prevStudents => prevStudents.map(s =>
+      s.id === studentId
+        ? {
+            ...s,
+            is_deprioritized: isDeprioritized,
+            no_show_penalty_event_id: isDeprioritized ? s.no_show_penalty_event_id : null,
+            updated_at: new Date().toISOString()
+          }
+        : s
+    ));
+    showSuccess(`Student ${isDeprioritized ? 'deprioritized' : 'prioritized'} successfully`);
+  }, [showSuccess]);
 
   const handleActivateAccount = useCallback(async (studentId: string, currentStatus: boolean) => {
     const newStatus = !currentStatus;
@@ -507,7 +474,6 @@ export default function AdminStudents() {
         linkedin_url: editedStudent.linkedin_url?.trim() || null,
         resume_url: editedStudent.resume_url?.trim() || null,
         cv_url: editedStudent.cv_url?.trim() || null,
-        is_deprioritized: editedStudent.is_deprioritized ?? false,
       };
 
       // Always include profile_photo_url if it exists or was updated
@@ -553,7 +519,6 @@ export default function AdminStudents() {
               linkedin_url: updateData.linkedin_url,
               resume_url: updateData.resume_url,
               cv_url: updateData.cv_url,
-              is_deprioritized: updateData.is_deprioritized,
               profile_photo_url: updateData.profile_photo_url || s.profile_photo_url || null,
               updated_at: new Date().toISOString(), // Mark as updated for cache busting
               // Preserve event_stats and other computed fields
@@ -1155,18 +1120,9 @@ export default function AdminStudents() {
                           {/* Status Column */}
                           <td className="px-4 sm:px-6 py-3 sm:py-4">
                             {isEditing ? (
-                              <div>
-                                <label className="text-xs text-muted-foreground mb-1 block">Status</label>
-                                <label className="flex items-center gap-2 cursor-pointer">
-                                  <input
-                                    type="checkbox"
-                                    checked={currentStudent.is_deprioritized || false}
-                                    onChange={(e) => editedStudent && setEditedStudent({ ...editedStudent, is_deprioritized: e.target.checked })}
-                                    className="w-4 h-4 text-primary border-border rounded focus:ring-primary"
-                                  />
-                                  <span className="text-xs text-foreground">Deprioritized</span>
-                                </label>
-                              </div>
+                              <p className="text-xs text-muted-foreground">
+                                Use Deprioritize / Prioritize to change the status
+                              </p>
                             ) : (
                               <span className={`inline-flex items-center px-3 py-1.5 rounded-full text-xs font-semibold ${
                                 !student.account_approved
@@ -1175,7 +1131,11 @@ export default function AdminStudents() {
                                   ? 'bg-warning/10 text-warning border border-warning/20'
                                   : 'bg-success/10 text-success border border-success/20'
                               }`}>
-                                {!student.account_approved ? 'Inactive' : student.is_deprioritized ? 'Deprioritized' : 'Active'}
+                                {!student.account_approved
+                                  ? 'Inactive'
+                                  : student.is_deprioritized
+                                  ? student.no_show_penalty_event_id ? 'Deprioritized (no-shows)' : 'Deprioritized'
+                                  : 'Active'}
                               </span>
                             )}
                           </td>
@@ -1263,9 +1223,7 @@ export default function AdminStudents() {
                                   onClick={(e) => {
                                     e.preventDefault();
                                     e.stopPropagation();
-                                    handleToggleDeprioritized(student.id, student.is_deprioritized).catch((err) => {
-                                      logError('Error in handleToggleDeprioritized:', err);
-                                    });
+                                    setOverrideStudent(student);
                                   }}
                                   disabled={savingStudentId === student.id}
                                   className={`px-3 py-1.5 rounded text-xs font-semibold transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer ${
@@ -1327,6 +1285,14 @@ export default function AdminStudents() {
           )}
         </div>
       </div>
+
+      {overrideStudent && (
+        <DeprioritizationModal
+          student={overrideStudent}
+          onClose={() => setOverrideStudent(null)}
+          onSaved={(isDeprioritized) => handleDeprioritizationSaved(overrideStudent.id, isDeprioritized)}
+        />
+      )}
     </AdminLayout>
   );
 }
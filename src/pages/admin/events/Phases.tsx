@@ -1,20 +1,98 @@
 import { useState, useEffect } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { supabase } from '@/lib/supabase';
-import { ArrowLeft, Target, Calendar, Settings, Zap, AlertCircle } from 'lucide-react';
+import { ArrowLeft, Target, Calendar, Settings, Zap, AlertCircle, Shuffle, Plus, Trash2, Layers, UserX, BellRing, Globe, Mail } from 'lucide-react';
+import { BOOKING_PHASES } from '@/utils/constants';
+import {
+  EVENT_TIMEZONE_OPTIONS,
+  DEFAULT_EVENT_TIMEZONE,
+  formatTimezoneName,
+  fromEventDateTimeInput,
+  getViewerTimezone,
+  toEventDateTimeInput
+} from '@/utils/dateUtils';
 
 type EventPhaseConfig = {
   id: string;
   name: string;
   date: string;
-  phase1_start_date: string | null;
-  phase1_end_date: string | null;
-  phase2_start_date: string | null;
-  phase2_end_date: string | null;
+  timezone: string;
   current_phase: number | null;
-  phase1_max_bookings: number | null;
-  phase2_max_bookings: number | null;
   phase_mode: string | null;
+  preference_window_start: string | null;
+  preference_window_end: string | null;
+  preference_max_choices: number | null;
+  no_show_policy_enabled: boolean;
+  no_show_threshold: number;
+  invitations_bypass_phase_limit: boolean;
+  reminder_lead_minutes: number[];
+};
+
+// One row of the phase editor; list position = phase_number - 1
+type PhaseForm = {
+  name: string;
+  start: string;
+  end: string;
+  max_bookings: number;
+  allow_deprioritized: boolean;
+  eligible_programs: string;
+  eligible_graduation_years: string;
+};
+
+// One interview reminder; stored as minutes before the slot
+type ReminderForm = {
+  value: number;
+  unit: 'minutes' | 'hours';
+};
+
+const MAX_REMINDERS = 5;
+
+const toReminderForm = (minutes: number): ReminderForm =>
+  minutes % 60 === 0 ? { value: minutes / 60, unit: 'hours' } : { value: minutes, unit: 'minutes' };
+
+const toLeadMinutes = (reminder: ReminderForm): number =>
+  reminder.unit === 'hours' ? reminder.value * 60 : reminder.value;
+
+const emptyPhase = (index: number): PhaseForm => ({
+  name: `Phase ${index + 1}`,
+  start: '',
+  end: '',
+  max_bookings: 6,
+  allow_deprioritized: true,
+  eligible_programs: '',
+  eligible_graduation_years: ''
+});
+
+const splitList = (value: string): string[] =>
+  value.split(',').map((item) => item.trim()).filter(Boolean);
+
+type LotteryRun = {
+  id: string;
+  seed: string;
+  student_count: number;
+  preference_count: number;
+  allocated_count: number;
+  created_at: string;
+};
+
+type LotteryReportRow = {
+  draw_position: number;
+  student_name: string;
+  student_email: string;
+  preference_rank: number;
+  company_name: string;
+  offer_title: string;
+  slot_time: string | null;
+  outcome: string;
+};
+
+const LOTTERY_OUTCOME_LABELS: Record<string, string> = {
+  allocated: 'Allocated',
+  no_capacity: 'No free slot',
+  limit_reached: 'Phase 1 limit reached',
+  already_booked: 'Already booked with company',
+  deprioritized: 'Deprioritized',
+  ineligible: 'Not eligible for Phase 1',
 };
 
 export default function EventPhaseManagement() {
@@ -24,16 +102,23 @@ export default function EventPhaseManagement() {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [event, setEvent] = useState<EventPhaseConfig | null>(null);
+  const [lotteryRun, setLotteryRun] = useState<LotteryRun | null>(null);
+  const [lotteryReport, setLotteryReport] = useState<LotteryReportRow[]>([]);
+  const [lotterySeed, setLotterySeed] = useState('');
+  const [runningLottery, setRunningLottery] = useState(false);
+  const [phases, setPhases] = useState<PhaseForm[]>([]);
+  const [reminders, setReminders] = useState<ReminderForm[]>([]);
   
   const [formData, setFormData] = useState({
-    phase1_start: '',
-    phase1_end: '',
-    phase2_start: '',
-    phase2_end: '',
+    timezone: DEFAULT_EVENT_TIMEZONE,
     current_phase: 0,
-    phase1_max_bookings: 3,
-    phase2_max_bookings: 6,
-    phase_mode: 'manual'
+    phase_mode: 'manual',
+    preference_window_start: '',
+    preference_window_end: '',
+    preference_max_choices: 5,
+    no_show_policy_enabled: false,
+    no_show_threshold: 2,
+    invitations_bypass_phase_limit: false
   });
 
   useEffect(() => {
@@ -89,84 +174,210 @@ export default function EventPhaseManagement() {
     }
 
     setEvent(data);
-    
-    // Helper function to convert ISO timestamp to datetime-local format
-    const toDateTimeLocal = (timestamp: string | null | undefined): string => {
-      if (!timestamp) return '';
-      try {
-        const date = new Date(timestamp);
-        if (isNaN(date.getTime())) return '';
-        // Format as YYYY-MM-DDTHH:mm for datetime-local input
-        const year = date.getFullYear();
-        const month = String(date.getMonth() + 1).padStart(2, '0');
-        const day = String(date.getDate()).padStart(2, '0');
-        const hours = String(date.getHours()).padStart(2, '0');
-        const minutes = String(date.getMinutes()).padStart(2, '0');
-        return `${year}-${month}-${day}T${hours}:${minutes}`;
-      } catch {
-        return '';
-      }
-    };
-    
+
+    // datetime-local inputs hold wall-clock times in the event's timezone
+    const toDateTimeLocal = (timestamp: string | null | undefined): string =>
+      toEventDateTimeInput(timestamp, data);
+
     setFormData({
-      phase1_start: toDateTimeLocal(data.phase1_start_date),
-      phase1_end: toDateTimeLocal(data.phase1_end_date),
-      phase2_start: toDateTimeLocal(data.phase2_start_date),
-      phase2_end: toDateTimeLocal(data.phase2_end_date),
+      timezone: data.timezone || DEFAULT_EVENT_TIMEZONE,
       current_phase: data.current_phase || 0,
-      phase1_max_bookings: data.phase1_max_bookings || 3,
-      phase2_max_bookings: data.phase2_max_bookings || 6,
-      phase_mode: data.phase_mode || 'manual'
+      phase_mode: data.phase_mode || 'manual',
+      preference_window_start: toDateTimeLocal(data.preference_window_start),
+      preference_window_end: toDateTimeLocal(data.preference_window_end),
+      preference_max_choices: data.preference_max_choices || 5,
+      no_show_policy_enabled: data.no_show_policy_enabled ?? false,
+      no_show_threshold: data.no_show_threshold || 2,
+      invitations_bypass_phase_limit: data.invitations_bypass_phase_limit ?? false
     });
+    setReminders((data.reminder_lead_minutes ?? []).map(toReminderForm));
+
+    const { data: phaseRows, error: phasesError } = await supabase
+      .from('event_phases')
+      .select('*')
+      .eq('event_id', eventId)
+      .order('phase_number', { ascending: true });
+
+    if (phasesError) {
+      console.error('Error loading phases:', phasesError);
+    }
+
+    setPhases((phaseRows || []).map((phase) => ({
+      name: phase.name,
+      start: toDateTimeLocal(phase.start_date),
+      end: toDateTimeLocal(phase.end_date),
+      max_bookings: phase.max_bookings,
+      allow_deprioritized: phase.allow_deprioritized,
+      eligible_programs: (phase.eligible_programs || []).join(', '),
+      eligible_graduation_years: (phase.eligible_graduation_years || []).join(', ')
+    })));
+
+    await loadLotteryRun();
+  };
+
+  const loadLotteryRun = async () => {
+    if (!eventId) return;
+    const { data: runs, error } = await supabase
+      .from('lottery_runs')
+      .select('id, seed, student_count, preference_count, allocated_count, created_at')
+      .eq('event_id', eventId)
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      console.error('Error loading lottery run:', error);
+      return;
+    }
+
+    const run = runs?.[0] || null;
+    setLotteryRun(run);
+
+    if (run) {
+      const { data: report, error: reportError } = await supabase.rpc('fn_get_lottery_report', {
+        p_run_id: run.id
+      });
+      if (reportError) {
+        console.error('Error loading lottery report:', reportError);
+      }
+      setLotteryReport(report || []);
+    } else {
+      setLotteryReport([]);
+    }
+  };
+
+  const handleRunLottery = async () => {
+    if (!eventId) return;
+    if (!confirm('Run the Phase 1 allocation now? This creates bookings and can only be done once per event.')) {
+      return;
+    }
+
+    try {
+      setRunningLottery(true);
+      const { data, error } = await supabase.rpc('fn_run_lottery_allocation', {
+        p_event_id: eventId,
+        ...(lotterySeed.trim() ? { p_seed: lotterySeed.trim() } : {})
+      });
+
+      if (error) throw error;
+
+      const result = data?.[0];
+      if (!result?.success) {
+        throw new Error(result?.message || 'Allocation failed');
+      }
+
+      alert(result.message);
+      await loadLotteryRun();
+    } catch (err: any) {
+      console.error('Error running lottery:', err);
+      alert('Error running allocation: ' + (err.message || 'Unknown error'));
+    } finally {
+      setRunningLottery(false);
+    }
+  };
+
+  const updatePhase = (index: number, changes: Partial<PhaseForm>) => {
+    setPhases(phases.map((phase, i) => (i === index ? { ...phase, ...changes } : phase)));
+  };
+
+  const addPhase = () => {
+    setPhases([...phases, emptyPhase(phases.length)]);
+  };
+
+  const removePhase = (index: number) => {
+    if (formData.current_phase === index + 1) {
+      alert('This phase is currently active. Switch or close booking before removing it.');
+      return;
+    }
+    setPhases(phases.filter((_, i) => i !== index));
+    if (formData.current_phase > index + 1) {
+      setFormData({ ...formData, current_phase: formData.current_phase - 1 });
+    }
+  };
+
+  const getPhaseLabel = (phaseNumber: number) => {
+    if (phaseNumber === BOOKING_PHASES.CLOSED) return 'Phase 0 - Booking Closed';
+    const phase = phases[phaseNumber - 1];
+    return phase ? `Phase ${phaseNumber} - ${phase.name}` : `Phase ${phaseNumber}`;
   };
 
   const handleSave = async () => {
     try {
       setSaving(true);
 
-      // Validate dates if they are provided
-      if (formData.phase1_start && formData.phase1_end) {
-        if (new Date(formData.phase1_start) >= new Date(formData.phase1_end)) {
-          alert('Phase 1 start must be before Phase 1 end');
+      if (phases.length === 0) {
+        alert('Add at least one booking phase');
+        setSaving(false);
+        return;
+      }
+
+      for (let i = 0; i < phases.length; i++) {
+        const phase = phases[i];
+        if (!phase.name.trim()) {
+          alert(`Phase ${i + 1} needs a name`);
           setSaving(false);
           return;
         }
-      }
-
-      if (formData.phase2_start && formData.phase2_end) {
-        if (new Date(formData.phase2_start) >= new Date(formData.phase2_end)) {
-          alert('Phase 2 start must be before Phase 2 end');
+        if (!phase.max_bookings || phase.max_bookings < 1) {
+          alert(`Phase ${i + 1} booking limit must be at least 1`);
+          setSaving(false);
+          return;
+        }
+        if (phase.start && phase.end && new Date(phase.start) >= new Date(phase.end)) {
+          alert(`Phase ${i + 1} start must be before Phase ${i + 1} end`);
+          setSaving(false);
+          return;
+        }
+        if (splitList(phase.eligible_graduation_years).some((year) => !/^\d{4}$/.test(year))) {
+          alert(`Phase ${i + 1} graduation years must be 4-digit years separated by commas`);
           setSaving(false);
           return;
         }
       }
 
-      if (formData.phase2_max_bookings < formData.phase1_max_bookings) {
-        alert('Phase 2 limit must be ≥ Phase 1 limit');
+      if (formData.current_phase > phases.length) {
+        alert(`Phase ${formData.current_phase} no longer exists. Pick another active phase.`);
         setSaving(false);
         return;
       }
 
-      // Helper function to convert datetime-local to ISO string or null
-      const toTimestampOrNull = (value: string): string | null => {
-        if (!value || value.trim() === '') return null;
-        // Convert datetime-local format (YYYY-MM-DDTHH:mm) to ISO string
-        const date = new Date(value);
-        return isNaN(date.getTime()) ? null : date.toISOString();
-      };
+      if (formData.no_show_policy_enabled && (!formData.no_show_threshold || formData.no_show_threshold < 1 || formData.no_show_threshold > 10)) {
+        alert('No-show limit must be between 1 and 10');
+        setSaving(false);
+        return;
+      }
+
+      const reminderLeadMinutes = reminders.map(toLeadMinutes);
+      if (reminderLeadMinutes.some((minutes) => !minutes || minutes < 15 || minutes > 10080)) {
+        alert('Reminders must be between 15 minutes and 7 days before the interview');
+        setSaving(false);
+        return;
+      }
+
+      if (formData.phase_mode === 'lottery' && formData.preference_window_start && formData.preference_window_end) {
+        if (new Date(formData.preference_window_start) >= new Date(formData.preference_window_end)) {
+          alert('Preference window start must be before its end');
+          setSaving(false);
+          return;
+        }
+      }
+
+      // datetime-local values are wall-clock times in the (possibly new) event timezone
+      const toTimestampOrNull = (value: string): string | null =>
+        fromEventDateTimeInput(value, { timezone: formData.timezone });
 
       const updateData: any = {
+        timezone: formData.timezone,
         current_phase: formData.current_phase,
-        phase1_max_bookings: formData.phase1_max_bookings,
-        phase2_max_bookings: formData.phase2_max_bookings,
-        phase_mode: formData.phase_mode
+        phase_mode: formData.phase_mode,
+        preference_max_choices: formData.preference_max_choices,
+        no_show_policy_enabled: formData.no_show_policy_enabled,
+        no_show_threshold: formData.no_show_threshold,
+        invitations_bypass_phase_limit: formData.invitations_bypass_phase_limit,
+        reminder_lead_minutes: [...new Set(reminderLeadMinutes)].sort((a, b) => b - a)
       };
 
-      // Only include date fields if they have values, otherwise set to null
-      updateData.phase1_start_date = toTimestampOrNull(formData.phase1_start);
-      updateData.phase1_end_date = toTimestampOrNull(formData.phase1_end);
-      updateData.phase2_start_date = toTimestampOrNull(formData.phase2_start);
-      updateData.phase2_end_date = toTimestampOrNull(formData.phase2_end);
+      updateData.preference_window_start = toTimestampOrNull(formData.preference_window_start);
+      updateData.preference_window_end = toTimestampOrNull(formData.preference_window_end);
 
       if (!eventId) {
         alert('Event ID is required');
@@ -179,6 +390,25 @@ export default function EventPhaseManagement() {
 
       if (error) throw error;
 
+      // Saved after the event row so a lowered current_phase is already in place
+      const { data: phasesResult, error: phasesError } = await supabase.rpc('fn_save_event_phases', {
+        p_event_id: eventId,
+        p_phases: phases.map((phase) => ({
+          name: phase.name.trim(),
+          start_date: toTimestampOrNull(phase.start),
+          end_date: toTimestampOrNull(phase.end),
+          max_bookings: phase.max_bookings,
+          allow_deprioritized: phase.allow_deprioritized,
+          eligible_programs: splitList(phase.eligible_programs),
+          eligible_graduation_years: splitList(phase.eligible_graduation_years).map(Number)
+        }))
+      });
+
+      if (phasesError) throw phasesError;
+      if (!phasesResult?.[0]?.success) {
+        throw new Error(phasesResult?.[0]?.message || 'Failed to save booking phases');
+      }
+
       alert('Phase configuration updated successfully!');
       await loadEvent();
     } catch (err: any) {
@@ -191,28 +421,30 @@ export default function EventPhaseManagement() {
 
   const getPhaseStatus = () => {
     const now = new Date();
-    
-    // Only parse dates if they exist and are valid
-    const phase1Start = formData.phase1_start ? new Date(formData.phase1_start) : null;
-    const phase1End = formData.phase1_end ? new Date(formData.phase1_end) : null;
-    const phase2Start = formData.phase2_start ? new Date(formData.phase2_start) : null;
-    const phase2End = formData.phase2_end ? new Date(formData.phase2_end) : null;
-
-    // Check if dates are valid
-    const hasValidPhase1 = phase1Start && phase1End && !isNaN(phase1Start.getTime()) && !isNaN(phase1End.getTime());
-    const hasValidPhase2 = phase2Start && phase2End && !isNaN(phase2Start.getTime()) && !isNaN(phase2End.getTime());
-
-    if (!hasValidPhase1 && !hasValidPhase2) {
+
+    // Only phases with a valid start and end take part in automatic mode
+    const windows = phases
+      .map((phase, index) => ({
+        number: index + 1,
+        name: phase.name,
+        start: phase.start ? new Date(fromEventDateTimeInput(phase.start, { timezone: formData.timezone }) ?? NaN) : null,
+        end: phase.end ? new Date(fromEventDateTimeInput(phase.end, { timezone: formData.timezone }) ?? NaN) : null
+      }))
+      .filter((w) => w.start && w.end && !isNaN(w.start.getTime()) && !isNaN(w.end.getTime()));
+
+    if (windows.length === 0) {
       return { status: 'not_configured', message: 'Phase dates not configured yet' };
     }
 
-    if (hasValidPhase1 && now < phase1Start!) {
+    // Latest matching phase wins, as in fn_resolve_event_phase
+    const active = [...windows].reverse().find((w) => now >= w.start! && now <= w.end!);
+    if (active) {
+      return { status: 'active', message: `Currently in Phase ${active.number} (${active.name})` };
+    }
+
+    if (windows.every((w) => now < w.start!)) {
       return { status: 'upcoming', message: 'Booking has not started yet' };
-    } else if (hasValidPhase1 && now >= phase1Start! && now < phase1End!) {
-      return { status: 'phase1', message: 'Currently in Phase 1 (Priority Booking)' };
-    } else if (hasValidPhase2 && now >= phase2Start! && now < phase2End!) {
-      return { status: 'phase2', message: 'Currently in Phase 2 (Open Booking)' };
-    } else if (hasValidPhase2 && now >= phase2End!) {
+    } else if (windows.every((w) => now > w.end!)) {
       return { status: 'ended', message: 'Booking period has ended' };
     } else {
       return { status: 'between', message: 'Between phases' };
@@ -262,13 +494,48 @@ export default function EventPhaseManagement() {
       </header>
 
       <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Event Timezone */}
+        <div className="bg-card rounded-xl border border-border p-6 mb-8 animate-fade-in">
+          <div className="flex items-center gap-3 mb-4">
+            <Globe className="w-5 h-5 text-primary" />
+            <h2 className="text-lg font-semibold text-foreground">Event Timezone</h2>
+          </div>
+          <p className="text-sm text-muted-foreground mb-4">
+            Phase, session and slot times are entered and shown in this timezone. Viewers elsewhere also see their own time.
+          </p>
+          <select
+            value={formData.timezone}
+            onChange={(e) => setFormData({ ...formData, timezone: e.target.value })}
+            className="w-full md:w-80 px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary"
+          >
+            {(EVENT_TIMEZONE_OPTIONS.includes(formData.timezone)
+              ? EVENT_TIMEZONE_OPTIONS
+              : [formData.timezone, ...EVENT_TIMEZONE_OPTIONS]
+            ).map((zone) => (
+              <option key={zone} value={zone}>
+                {zone.replace(/_/g, ' ')} ({formatTimezoneName(zone, event.date)})
+              </option>
+            ))}
+          </select>
+          {formData.timezone !== event.timezone && (
+            <p className="text-xs text-muted-foreground mt-2">
+              The phase dates below are saved as entered, in the new timezone. Existing sessions and slots keep their moment in time, so their displayed times change.
+            </p>
+          )}
+          {formData.timezone !== getViewerTimezone() && (
+            <p className="text-xs text-muted-foreground mt-2">
+              You are in {getViewerTimezone().replace(/_/g, ' ')}.
+            </p>
+          )}
+        </div>
+
         {/* Phase Mode Toggle */}
         <div className="bg-card rounded-xl border border-border p-6 mb-8 animate-fade-in">
           <div className="flex items-center gap-3 mb-4">
             <Settings className="w-5 h-5 text-primary" />
             <h2 className="text-lg font-semibold text-foreground">Phase Management Mode</h2>
           </div>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <button
               onClick={() => setFormData({ ...formData, phase_mode: 'manual' })}
               className={`p-4 rounded-lg border-2 transition-all text-left ${
@@ -302,6 +569,23 @@ export default function EventPhaseManagement() {
                 Automatically transition phases based on configured dates
               </p>
             </button>
+
+            <button
+              onClick={() => setFormData({ ...formData, phase_mode: 'lottery' })}
+              className={`p-4 rounded-lg border-2 transition-all text-left ${
+                formData.phase_mode === 'lottery'
+                  ? 'border-primary bg-primary/5'
+                  : 'border-border hover:border-primary/50'
+              }`}
+            >
+              <div className="flex items-center gap-3 mb-2">
+                <Shuffle className={`w-5 h-5 ${formData.phase_mode === 'lottery' ? 'text-primary' : 'text-muted-foreground'}`} />
+                <h3 className="font-semibold text-foreground">Preference Lottery</h3>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Students rank offers; Phase 1 seats are allocated by a seeded lottery
+              </p>
+            </button>
           </div>
           
           {formData.phase_mode === 'date-based' && (
@@ -313,6 +597,9 @@ export default function EventPhaseManagement() {
                   <p className="text-blue-700 dark:text-blue-300">
                     The system will automatically determine the current phase based on the date ranges configured below. The manual phase selector will be ignored.
                   </p>
+                  <p className="text-blue-700 dark:text-blue-300 mt-1">
+                    A scheduled job applies each transition within a few minutes of its date, records it in the admin log and notifies the students concerned.
+                  </p>
                 </div>
               </div>
             </div>
@@ -321,8 +608,7 @@ export default function EventPhaseManagement() {
 
         {/* Current Status */}
         <div className={`mb-8 p-6 rounded-lg border-2 animate-fade-in ${
-          phaseStatus.status === 'phase1' ? 'bg-primary/5 border-primary/30' :
-          phaseStatus.status === 'phase2' ? 'bg-success/5 border-success/30' :
+          phaseStatus.status === 'active' ? 'bg-primary/5 border-primary/30' :
           phaseStatus.status === 'upcoming' ? 'bg-warning/5 border-warning/30' :
           'bg-muted border-border'
         }`}>
@@ -332,12 +618,11 @@ export default function EventPhaseManagement() {
               {formData.phase_mode === 'date-based' ? 'Auto-Detected Phase Status' : 'Current Phase Status'}
             </h2>
           </div>
-          {formData.phase_mode === 'manual' ? (
+          {formData.phase_mode !== 'date-based' ? (
             <div>
               <p className="text-foreground font-semibold text-lg">
-                {formData.current_phase === 0 && '🔒 Phase 0 - Booking Closed'}
-                {formData.current_phase === 1 && '⭐ Phase 1 - Priority Booking Active'}
-                {formData.current_phase === 2 && '🌐 Phase 2 - Open Booking Active'}
+                {formData.current_phase === BOOKING_PHASES.CLOSED ? '🔒 ' : '⭐ '}
+                {getPhaseLabel(formData.current_phase)}
               </p>
               <p className="text-sm text-muted-foreground mt-2">
                 Controlled manually via Start/Stop buttons below
@@ -354,7 +639,7 @@ export default function EventPhaseManagement() {
         </div>
 
         {/* Manual Phase Control */}
-        {formData.phase_mode === 'manual' && (
+        {formData.phase_mode !== 'date-based' && (
           <div className="bg-card rounded-xl border border-border p-6 mb-8 animate-fade-in">
           <h2 className="text-lg font-semibold text-foreground mb-4">Manual Phase Control</h2>
           <p className="text-sm text-muted-foreground mb-6">
@@ -365,9 +650,8 @@ export default function EventPhaseManagement() {
           <div className="mb-6 p-4 rounded-lg bg-muted/50 border-2 border-primary/50">
             <p className="text-sm font-medium text-muted-foreground mb-1">Currently Active:</p>
             <p className="text-2xl font-bold text-foreground">
-              {formData.current_phase === 0 && '🔒 Phase 0 - Closed'}
-              {formData.current_phase === 1 && '⭐ Phase 1 - Priority Booking'}
-              {formData.current_phase === 2 && '🌐 Phase 2 - Open to All'}
+              {formData.current_phase === BOOKING_PHASES.CLOSED ? '🔒 ' : '⭐ '}
+              {getPhaseLabel(formData.current_phase)}
             </p>
           </div>
 
@@ -397,61 +681,39 @@ export default function EventPhaseManagement() {
               )}
             </div>
 
-            {/* Phase 1 - Priority */}
-            <div className={`p-5 rounded-lg border-2 transition-all ${
-              formData.current_phase === 1 
-                ? 'border-primary bg-primary/10' 
-                : 'border-border bg-card'
-            }`}>
-              <div className="mb-3">
-                <h3 className="font-semibold text-foreground mb-1">Phase 1</h3>
-                <p className="text-sm text-muted-foreground">Priority Booking</p>
-                <p className="text-xs text-muted-foreground mt-1">Max {formData.phase1_max_bookings} interviews</p>
-              </div>
-              {formData.current_phase === 1 ? (
-                <button
-                  onClick={() => setFormData({ ...formData, current_phase: 0 })}
-                  className="w-full px-4 py-2 bg-destructive/10 text-destructive hover:bg-destructive/20 rounded-lg font-medium text-sm transition-colors"
-                >
-                  Stop Phase 1
-                </button>
-              ) : (
-                <button
-                  onClick={() => setFormData({ ...formData, current_phase: 1 })}
-                  className="w-full px-4 py-2 bg-primary text-primary-foreground hover:bg-primary/90 rounded-lg font-medium text-sm transition-colors"
-                >
-                  Start Phase 1
-                </button>
-              )}
-            </div>
-
-            {/* Phase 2 - Open */}
-            <div className={`p-5 rounded-lg border-2 transition-all ${
-              formData.current_phase === 2 
-                ? 'border-green-500 bg-green-500/10' 
-                : 'border-border bg-card'
-            }`}>
-              <div className="mb-3">
-                <h3 className="font-semibold text-foreground mb-1">Phase 2</h3>
-                <p className="text-sm text-muted-foreground">Open to All</p>
-                <p className="text-xs text-muted-foreground mt-1">Max {formData.phase2_max_bookings} interviews</p>
-              </div>
-              {formData.current_phase === 2 ? (
-                <button
-                  onClick={() => setFormData({ ...formData, current_phase: 0 })}
-                  className="w-full px-4 py-2 bg-destructive/10 text-destructive hover:bg-destructive/20 rounded-lg font-medium text-sm transition-colors"
-                >
-                  Stop Phase 2
-                </button>
-              ) : (
-                <button
-                  onClick={() => setFormData({ ...formData, current_phase: 2 })}
-                  className="w-full px-4 py-2 bg-green-600 text-white hover:bg-green-700 rounded-lg font-medium text-sm transition-colors"
+            {phases.map((phase, index) => {
+              const phaseNumber = index + 1;
+              const isActive = formData.current_phase === phaseNumber;
+              return (
+                <div
+                  key={phaseNumber}
+                  className={`p-5 rounded-lg border-2 transition-all ${
+                    isActive ? 'border-primary bg-primary/10' : 'border-border bg-card'
+                  }`}
                 >
-                  Start Phase 2
-                </button>
-              )}
-            </div>
+                  <div className="mb-3">
+                    <h3 className="font-semibold text-foreground mb-1">Phase {phaseNumber}</h3>
+                    <p className="text-sm text-muted-foreground">{phase.name || 'Unnamed phase'}</p>
+                    <p className="text-xs text-muted-foreground mt-1">Max {phase.max_bookings} interviews</p>
+                  </div>
+                  {isActive ? (
+                    <button
+                      onClick={() => setFormData({ ...formData, current_phase: 0 })}
+                      className="w-full px-4 py-2 bg-destructive/10 text-destructive hover:bg-destructive/20 rounded-lg font-medium text-sm transition-colors"
+                    >
+                      Stop Phase {phaseNumber}
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => setFormData({ ...formData, current_phase: phaseNumber })}
+                      className="w-full px-4 py-2 bg-primary text-primary-foreground hover:bg-primary/90 rounded-lg font-medium text-sm transition-colors"
+                    >
+                      Start Phase {phaseNumber}
+                    </button>
+                  )}
+                </div>
+              );
+            })}
           </div>
 
           <div className="mt-6 p-4 bg-blue-50 dark:bg-blue-950/20 border border-blue-200 dark:border-blue-800 rounded-lg">
@@ -468,122 +730,400 @@ export default function EventPhaseManagement() {
         </div>
         )}
 
-        {/* Booking Limits Configuration (Always Visible) */}
+        {/* Booking Phases Configuration (Always Visible) */}
         <div className="bg-card rounded-xl border border-border p-6 mb-8 animate-fade-in">
           <div className="flex items-center gap-3 mb-4">
-            <Target className="w-5 h-5 text-primary" />
-            <h2 className="text-lg font-semibold text-foreground">Booking Limits</h2>
+            <Layers className="w-5 h-5 text-primary" />
+            <h2 className="text-lg font-semibold text-foreground">Booking Phases</h2>
           </div>
           <p className="text-sm text-muted-foreground mb-6">
-            Set the maximum number of interviews a student can book during each phase.
+            Phases run in order. Each one has its own booking limit and can be restricted to some students. Leave programs and graduation years empty to open a phase to everyone. Dates are in {formData.timezone.replace(/_/g, ' ')}.
           </p>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <div>
-              <label className="block text-sm font-medium text-foreground mb-2">
-                Phase 1 - Booking Limit
-              </label>
-              <input
-                type="number"
-                min="1"
-                value={formData.phase1_max_bookings}
-                onChange={(e) => setFormData({ ...formData, phase1_max_bookings: parseInt(e.target.value) })}
-                className="w-full px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary"
-              />
-              <p className="text-xs text-muted-foreground mt-1">interviews per student</p>
-            </div>
-            <div>
-              <label className="block text-sm font-medium text-foreground mb-2">
-                Phase 2 - Booking Limit
-              </label>
-              <input
-                type="number"
-                min={formData.phase1_max_bookings}
-                value={formData.phase2_max_bookings}
-                onChange={(e) => setFormData({ ...formData, phase2_max_bookings: parseInt(e.target.value) })}
-                className="w-full px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary"
-              />
-              <p className="text-xs text-muted-foreground mt-1">
-                Must be ≥ Phase 1 limit ({formData.phase1_max_bookings})
-              </p>
-            </div>
+
+          <div className="space-y-4">
+            {phases.map((phase, index) => (
+              <div key={index} className="p-4 rounded-lg border border-border bg-muted/30">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="font-semibold text-foreground">Phase {index + 1}</h3>
+                  {phases.length > 1 && (
+                    <button
+                      onClick={() => removePhase(index)}
+                      className="p-1.5 text-destructive hover:bg-destructive/10 rounded-md transition-colors"
+                      title="Remove phase"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-foreground mb-2">Name</label>
+                    <input
+                      type="text"
+                      value={phase.name}
+                      onChange={(e) => updatePhase(index, { name: e.target.value })}
+                      placeholder="e.g. Final-year students"
+                      className="w-full px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-foreground mb-2">Booking Limit</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={phase.max_bookings}
+                      onChange={(e) => updatePhase(index, { max_bookings: parseInt(e.target.value) })}
+                      className="w-full px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">interviews per student, counting earlier phases</p>
+                  </div>
+
+                  {formData.phase_mode === 'date-based' && (
+                    <>
+                      <div>
+                        <label className="block text-sm font-medium text-foreground mb-2">
+                          <Calendar className="w-4 h-4 inline mr-1" />
+                          Start Date & Time
+                        </label>
+                        <input
+                          type="datetime-local"
+                          value={phase.start}
+                          onChange={(e) => updatePhase(index, { start: e.target.value })}
+                          className="w-full px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-foreground mb-2">
+                          <Calendar className="w-4 h-4 inline mr-1" />
+                          End Date & Time
+                        </label>
+                        <input
+                          type="datetime-local"
+                          value={phase.end}
+                          onChange={(e) => updatePhase(index, { end: e.target.value })}
+                          className="w-full px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary"
+                        />
+                      </div>
+                    </>
+                  )}
+
+                  <div>
+                    <label className="block text-sm font-medium text-foreground mb-2">Programs</label>
+                    <input
+                      type="text"
+                      value={phase.eligible_programs}
+                      onChange={(e) => updatePhase(index, { eligible_programs: e.target.value })}
+                      placeholder="All programs"
+                      className="w-full px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">comma-separated, matched against the student profile</p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-foreground mb-2">Graduation Years</label>
+                    <input
+                      type="text"
+                      value={phase.eligible_graduation_years}
+                      onChange={(e) => updatePhase(index, { eligible_graduation_years: e.target.value })}
+                      placeholder="All years"
+                      className="w-full px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">comma-separated, e.g. 2026, 2027</p>
+                  </div>
+                </div>
+
+                <label className="flex items-center gap-2 mt-4 text-sm text-foreground">
+                  <input
+                    type="checkbox"
+                    checked={phase.allow_deprioritized}
+                    onChange={(e) => updatePhase(index, { allow_deprioritized: e.target.checked })}
+                    className="rounded border-border"
+                  />
+                  Students who already have an internship can book in this phase
+                </label>
+              </div>
+            ))}
           </div>
+
+          {phases.length < BOOKING_PHASES.MAX && (
+            <button
+              onClick={addPhase}
+              className="mt-4 flex items-center gap-2 px-4 py-2 border border-dashed border-border rounded-lg text-sm font-medium text-muted-foreground hover:text-foreground hover:border-primary/50 transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              Add Phase
+            </button>
+          )}
         </div>
 
-        {/* Date/Time Configuration (Only for Automatic Mode) */}
-        {formData.phase_mode === 'date-based' && (
+        {/* Preference Lottery (Only for Lottery Mode) */}
+        {formData.phase_mode === 'lottery' && (
           <>
-            {/* Phase 1 Date Configuration */}
             <div className="bg-card rounded-xl border border-border p-6 mb-8 animate-fade-in">
               <div className="flex items-center gap-3 mb-4">
                 <Calendar className="w-5 h-5 text-primary" />
-                <h2 className="text-lg font-semibold text-foreground">Phase 1 - Schedule</h2>
+                <h2 className="text-lg font-semibold text-foreground">Preference Window</h2>
               </div>
               <p className="text-sm text-muted-foreground mb-4">
-                Set when Phase 1 (Priority Booking) should automatically start and end.
+                Students can submit and change their ranked offers during this window. The allocation can be run once it has closed. Times are in {formData.timezone.replace(/_/g, ' ')}.
               </p>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                 <div>
                   <label className="block text-sm font-medium text-foreground mb-2">
-                    Start Date & Time
+                    Opens
                   </label>
                   <input
                     type="datetime-local"
-                    value={formData.phase1_start?.substring(0, 16) || ''}
-                    onChange={(e) => setFormData({ ...formData, phase1_start: e.target.value })}
+                    value={formData.preference_window_start}
+                    onChange={(e) => setFormData({ ...formData, preference_window_start: e.target.value })}
                     className="w-full px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary"
                   />
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-foreground mb-2">
-                    End Date & Time
+                    Closes
                   </label>
                   <input
                     type="datetime-local"
-                    value={formData.phase1_end?.substring(0, 16) || ''}
-                    onChange={(e) => setFormData({ ...formData, phase1_end: e.target.value })}
-                    className="w-full px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary"
-                  />
-                </div>
-              </div>
-            </div>
-
-            {/* Phase 2 Date Configuration */}
-            <div className="bg-card rounded-xl border border-border p-6 mb-8 animate-fade-in">
-              <div className="flex items-center gap-3 mb-4">
-                <Calendar className="w-5 h-5 text-success" />
-                <h2 className="text-lg font-semibold text-foreground">Phase 2 - Schedule</h2>
-              </div>
-              <p className="text-sm text-muted-foreground mb-4">
-                Set when Phase 2 (Open Booking) should automatically start and end.
-              </p>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div>
-                  <label className="block text-sm font-medium text-foreground mb-2">
-                    Start Date & Time
-                  </label>
-                  <input
-                    type="datetime-local"
-                    value={formData.phase2_start?.substring(0, 16) || ''}
-                    onChange={(e) => setFormData({ ...formData, phase2_start: e.target.value })}
+                    value={formData.preference_window_end}
+                    onChange={(e) => setFormData({ ...formData, preference_window_end: e.target.value })}
                     className="w-full px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary"
                   />
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-foreground mb-2">
-                    End Date & Time
+                    Max Ranked Offers
                   </label>
                   <input
-                    type="datetime-local"
-                    value={formData.phase2_end?.substring(0, 16) || ''}
-                    onChange={(e) => setFormData({ ...formData, phase2_end: e.target.value })}
+                    type="number"
+                    min="1"
+                    max="20"
+                    value={formData.preference_max_choices}
+                    onChange={(e) => setFormData({ ...formData, preference_max_choices: parseInt(e.target.value) })}
                     className="w-full px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary"
                   />
+                  <p className="text-xs text-muted-foreground mt-1">per student</p>
                 </div>
               </div>
             </div>
+
+            <div className="bg-card rounded-xl border border-border p-6 mb-8 animate-fade-in">
+              <div className="flex items-center gap-3 mb-4">
+                <Shuffle className="w-5 h-5 text-primary" />
+                <h2 className="text-lg font-semibold text-foreground">Phase 1 Allocation</h2>
+              </div>
+
+              {lotteryRun ? (
+                <div className="space-y-4">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div className="p-3 rounded-lg bg-muted/50">
+                      <p className="text-xs text-muted-foreground">Students</p>
+                      <p className="text-xl font-bold text-foreground">{lotteryRun.student_count}</p>
+                    </div>
+                    <div className="p-3 rounded-lg bg-muted/50">
+                      <p className="text-xs text-muted-foreground">Preferences</p>
+                      <p className="text-xl font-bold text-foreground">{lotteryRun.preference_count}</p>
+                    </div>
+                    <div className="p-3 rounded-lg bg-muted/50">
+                      <p className="text-xs text-muted-foreground">Allocated</p>
+                      <p className="text-xl font-bold text-foreground">{lotteryRun.allocated_count}</p>
+                    </div>
+                    <div className="p-3 rounded-lg bg-muted/50">
+                      <p className="text-xs text-muted-foreground">Seed</p>
+                      <p className="text-sm font-mono text-foreground break-all">{lotteryRun.seed}</p>
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Ran on {new Date(lotteryRun.created_at).toLocaleString()}. Re-running the same seed on the same preferences reproduces this allocation.
+                  </p>
+
+                  {lotteryReport.length > 0 && (
+                    <div className="overflow-x-auto border border-border rounded-lg max-h-96">
+                      <table className="w-full text-sm">
+                        <thead className="bg-muted sticky top-0">
+                          <tr>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground uppercase">Draw #</th>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground uppercase">Student</th>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground uppercase">Rank</th>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground uppercase">Offer</th>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground uppercase">Outcome</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-border">
+                          {lotteryReport.map((row, idx) => (
+                            <tr key={idx}>
+                              <td className="px-3 py-2 text-muted-foreground">{row.draw_position}</td>
+                              <td className="px-3 py-2">
+                                <div className="text-foreground">{row.student_name}</div>
+                                <div className="text-xs text-muted-foreground">{row.student_email}</div>
+                              </td>
+                              <td className="px-3 py-2 text-muted-foreground">{row.preference_rank}</td>
+                              <td className="px-3 py-2">
+                                <div className="text-foreground">{row.company_name}</div>
+                                <div className="text-xs text-muted-foreground">{row.offer_title}</div>
+                              </td>
+                              <td className="px-3 py-2">
+                                <span className={`px-2 py-1 text-xs font-medium rounded-full ${
+                                  row.outcome === 'allocated'
+                                    ? 'bg-success/10 text-success'
+                                    : 'bg-muted text-muted-foreground'
+                                }`}>
+                                  {LOTTERY_OUTCOME_LABELS[row.outcome] || row.outcome}
+                                </span>
+                                {row.slot_time && (
+                                  <div className="text-xs text-muted-foreground mt-1">
+                                    {new Date(row.slot_time).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+                                  </div>
+                                )}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  <p className="text-sm text-muted-foreground">
+                    Students are drawn in a random order derived from the seed and served one preference per round, in snake order. Each allocation takes the earliest free slot of the company that does not clash with the student's other interviews. Phase 1 limits and deprioritized students are respected.
+                  </p>
+                  <div className="flex flex-col md:flex-row gap-3">
+                    <input
+                      type="text"
+                      value={lotterySeed}
+                      onChange={(e) => setLotterySeed(e.target.value)}
+                      placeholder="Seed (leave empty for a random seed)"
+                      className="flex-1 px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary"
+                    />
+                    <button
+                      onClick={handleRunLottery}
+                      disabled={runningLottery || event.phase_mode !== 'lottery'}
+                      className="px-6 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 disabled:opacity-50 transition-colors"
+                    >
+                      {runningLottery ? 'Allocating...' : 'Run Allocation'}
+                    </button>
+                  </div>
+                  {event.phase_mode !== 'lottery' && (
+                    <p className="text-xs text-muted-foreground">Save the configuration first to enable the allocation.</p>
+                  )}
+                </div>
+              )}
+            </div>
           </>
         )}
 
+        {/* No-Show Policy */}
+        <div className="bg-card rounded-xl border border-border p-6 mb-8">
+          <div className="flex items-center gap-3 mb-4">
+            <UserX className="w-5 h-5 text-primary" />
+            <h2 className="text-lg font-semibold text-foreground">No-Show Policy</h2>
+          </div>
+          <p className="text-sm text-muted-foreground mb-4">
+            Recruiters mark no-shows at check-in. Students who reach the limit are deprioritized until the next event has taken place, and get a warning one no-show before it.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <label className="flex items-center gap-2 text-sm text-foreground cursor-pointer">
+              <input
+                type="checkbox"
+                checked={formData.no_show_policy_enabled}
+                onChange={(e) => setFormData({ ...formData, no_show_policy_enabled: e.target.checked })}
+                className="w-4 h-4 text-primary border-border rounded focus:ring-primary"
+              />
+              Deprioritize repeat no-shows
+            </label>
+            <div>
+              <label className="block text-sm font-medium text-foreground mb-2">
+                No-shows before deprioritization
+              </label>
+              <input
+                type="number"
+                min="1"
+                max="10"
+                value={formData.no_show_threshold}
+                disabled={!formData.no_show_policy_enabled}
+                onChange={(e) => setFormData({ ...formData, no_show_threshold: parseInt(e.target.value) })}
+                className="w-full px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary disabled:opacity-50"
+              />
+              <p className="text-xs text-muted-foreground mt-1">at this event</p>
+            </div>
+          </div>
+        </div>
+
+        {/* Company Invitations */}
+        <div className="bg-card rounded-xl border border-border p-6 mb-8">
+          <div className="flex items-center gap-3 mb-4">
+            <Mail className="w-5 h-5 text-primary" />
+            <h2 className="text-lg font-semibold text-foreground">Company Invitations</h2>
+          </div>
+          <p className="text-sm text-muted-foreground mb-4">
+            Companies can invite a student to one of their slots. The student books it by accepting, while booking is open. Capacity, time conflicts and one interview per company always apply.
+          </p>
+          <label className="flex items-center gap-2 text-sm text-foreground cursor-pointer">
+            <input
+              type="checkbox"
+              checked={formData.invitations_bypass_phase_limit}
+              onChange={(e) => setFormData({ ...formData, invitations_bypass_phase_limit: e.target.checked })}
+              className="w-4 h-4 text-primary border-border rounded focus:ring-primary"
+            />
+            Invited students can book past the booking limit and eligibility rules of the active phase
+          </label>
+        </div>
+
+        {/* Interview Reminders */}
+        <div className="bg-card rounded-xl border border-border p-6 mb-8">
+          <div className="flex items-center gap-3 mb-4">
+            <BellRing className="w-5 h-5 text-primary" />
+            <h2 className="text-lg font-semibold text-foreground">Interview Reminders</h2>
+          </div>
+          <p className="text-sm text-muted-foreground mb-4">
+            Students with a confirmed interview get a notification and an email at each of these times before it starts. Remove all reminders to turn them off.
+          </p>
+          <div className="space-y-3">
+            {reminders.map((reminder, index) => (
+              <div key={index} className="flex items-center gap-3">
+                <input
+                  type="number"
+                  min="1"
+                  value={reminder.value}
+                  onChange={(e) => setReminders(reminders.map((r, i) => (i === index ? { ...r, value: parseInt(e.target.value) } : r)))}
+                  className="w-24 px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary"
+                />
+                <select
+                  value={reminder.unit}
+                  onChange={(e) => setReminders(reminders.map((r, i) => (i === index ? { ...r, unit: e.target.value as ReminderForm['unit'] } : r)))}
+                  className="px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary"
+                >
+                  <option value="minutes">minutes</option>
+                  <option value="hours">hours</option>
+                </select>
+                <span className="text-sm text-muted-foreground">before the interview</span>
+                <button
+                  type="button"
+                  onClick={() => setReminders(reminders.filter((_, i) => i !== index))}
+                  className="p-2 text-muted-foreground hover:text-destructive transition-colors"
+                  aria-label="Remove reminder"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            {reminders.length === 0 && (
+              <p className="text-sm text-muted-foreground italic">No reminders are sent for this event.</p>
+            )}
+            {reminders.length < MAX_REMINDERS && (
+              <button
+                type="button"
+                onClick={() => setReminders([...reminders, { value: 1, unit: 'hours' }])}
+                className="flex items-center gap-2 px-3 py-2 text-sm border border-border rounded-lg hover:bg-muted transition"
+              >
+                <Plus className="w-4 h-4" />
+                Add reminder
+              </button>
+            )}
+          </div>
+        </div>
+
         {/* Save Button */}
         <div className="flex justify-end gap-4">
           <Link
@@ -3,6 +3,8 @@ import { useParams, useNavigate, Link } from 'react-router-dom';
 import { supabase } from '@/lib/supabase';
 import { ArrowLeft, Search, Download, Building2, Mail, UserPlus, CheckCircle, Copy } from 'lucide-react';
 import { generateDefaultPasswordFromEmail, copyToClipboard, formatCredentialsForClipboard } from '@/utils/passwordUtils';
+import { getCarryOverOffers, type CarryOverOffer } from '@/utils/offerTemplates';
+import CarryOverOffersModal from '@/components/admin/CarryOverOffersModal';
 
 export default function QuickInvitePage() {
   const { id: eventId } = useParams<{ id: string }>();
@@ -26,6 +28,9 @@ export default function QuickInvitePage() {
   const [searching, setSearching] = useState(false);
   const [exportingCSV, setExportingCSV] = useState(false);
 
+  // Offers of a returning company's previous event
+  const [carryOver, setCarryOver] = useState<{ company: { id: string; name: string }; offers: CarryOverOffer[] } | null>(null);
+
   useEffect(() => {
     checkAdmin();
     if (!eventId) return; // guard undefined eventId
@@ -67,6 +72,18 @@ export default function QuickInvitePage() {
     if (data) setEventName(data.name);
   };
 
+  const offerCarryOver = async (companyId: string, name: string) => {
+    if (!eventId) return;
+    try {
+      const offers = await getCarryOverOffers(companyId, eventId);
+      if (offers.some(o => !o.already_copied)) {
+        setCarryOver({ company: { id: companyId, name }, offers });
+      }
+    } catch (error) {
+      console.error('Error loading offers to carry over:', error);
+    }
+  };
+
   const handleQuickInvite = async (e: React.FormEvent) => {
   e.preventDefault();
   if (!eventId) {
@@ -130,12 +147,18 @@ export default function QuickInvitePage() {
       next_step?: string;
       company_created?: boolean;
       company_code?: string;
+      company_id?: string;
+      is_new_company?: boolean;
       already_invited?: boolean;
     };
     
     setResult(result);
 
     if (result.success) {
+      if (result.company_id && !result.is_new_company) {
+        offerCarryOver(result.company_id, companyName.trim());
+      }
+
       const inviteEmail = email.trim().toLowerCase();
       
       if (!inviteEmail) {
@@ -327,6 +350,8 @@ const handleSearch = async () => {
         if (!isDuplicate) throw error;
       }
 
+      offerCarryOver(companyId, companyName);
+
       // Try to fetch company email and send magic link
       const { data: companyData, error: companyError } = await supabase
         .from('companies')
@@ -690,6 +715,16 @@ const handleSearch = async () => {
           </div>
         </div>
       </main>
+
+      {carryOver && eventId && (
+        <CarryOverOffersModal
+          company={carryOver.company}
+          eventId={eventId}
+          eventName={eventName}
+          offers={carryOver.offers}
+          onClose={() => setCarryOver(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -2,6 +2,8 @@ import { useState, useEffect } from 'react'
 import { supabase } from '@/lib/supabase'
 import { useNavigate, useParams, Link } from 'react-router-dom'
 import { Calendar, Clock, Plus, Edit, Trash2 } from 'lucide-react'
+import ViewerTimeHint from '@/components/shared/ViewerTimeHint'
+import { formatTime, fromEventDateTimeInput, getEventTimezone, toEventDateTimeInput } from '@/utils/dateUtils'
 
 type ScheduleItem = {
   id: string
@@ -28,6 +30,7 @@ type Event = {
   name: string
   date: string
   location: string | null
+  timezone: string
 }
 
 type CombinedScheduleItem = {
@@ -169,8 +172,8 @@ export default function EventSchedule() {
     setFormData({
       name: item.name,
       description: item.description || '',
-      start_time: item.start_time.substring(0, 16),
-      end_time: item.end_time.substring(0, 16),
+      start_time: toEventDateTimeInput(item.start_time, event),
+      end_time: toEventDateTimeInput(item.end_time, event),
       item_type: item.item_type,
       location: item.location || ''
     })
@@ -187,7 +190,14 @@ export default function EventSchedule() {
         return
       }
 
-      if (new Date(formData.start_time) >= new Date(formData.end_time)) {
+      const startTime = fromEventDateTimeInput(formData.start_time, event)
+      const endTime = fromEventDateTimeInput(formData.end_time, event)
+      if (!startTime || !endTime) {
+        alert('Start and end time are required')
+        return
+      }
+
+      if (new Date(startTime) >= new Date(endTime)) {
         alert('Start time must be before end time')
         return
       }
@@ -198,8 +208,8 @@ export default function EventSchedule() {
           .update({
             name: formData.name,
             description: formData.description || null,
-            start_time: formData.start_time,
-            end_time: formData.end_time,
+            start_time: startTime,
+            end_time: endTime,
             item_type: formData.item_type,
             location: formData.location || null
           })
@@ -214,8 +224,8 @@ export default function EventSchedule() {
             event_id: eventId,
             name: formData.name,
             description: formData.description || null,
-            start_time: formData.start_time,
-            end_time: formData.end_time,
+            start_time: startTime,
+            end_time: endTime,
             item_type: formData.item_type,
             location: formData.location || null,
             is_active: true
@@ -286,7 +296,7 @@ export default function EventSchedule() {
           <div>
             <h2 className="text-xl font-semibold">Full Event Schedule</h2>
             <p className="text-sm text-muted-foreground mt-1">
-              {scheduleItems.length} schedule items, {sessions.length} recruiting sessions
+              {scheduleItems.length} schedule items, {sessions.length} recruiting sessions. Times are in {getEventTimezone(event).replace(/_/g, ' ')}.
             </p>
           </div>
           <button
@@ -423,16 +433,11 @@ export default function EventSchedule() {
                     <div className="flex-1">
                       <div className="flex items-center gap-3">
                         <span className="text-sm font-medium text-muted-foreground">
-                          {new Date(item.start_time).toLocaleTimeString('en-US', {
-                            hour: '2-digit',
-                            minute: '2-digit'
-                          })}
+                          {formatTime(item.start_time, event)}
                           {' - '}
-                          {new Date(item.end_time).toLocaleTimeString('en-US', {
-                            hour: '2-digit',
-                            minute: '2-digit'
-                          })}
+                          {formatTime(item.end_time, event)}
                         </span>
+                        <ViewerTimeHint value={item.start_time} event={event} withDate />
                         <span className={`px-2 py-1 text-xs rounded-full ${
                           item.type === 'session'
                             ? 'bg-primary text-primary-foreground'
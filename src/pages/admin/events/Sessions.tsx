@@ -1,7 +1,18 @@
 import { useState, useEffect } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { supabase } from '@/lib/supabase';
-import { ArrowLeft, Clock, Trash2, Edit } from 'lucide-react';
+import { ArrowLeft, Clock, Trash2, Edit, X } from 'lucide-react';
+import SlotTemplatesPanel from '@/components/admin/sessions/SlotTemplatesPanel';
+import CompanySlotOverrides from '@/components/admin/sessions/CompanySlotOverrides';
+import RegenerationPreviewModal from '@/components/admin/sessions/RegenerationPreviewModal';
+import ViewerTimeHint from '@/components/shared/ViewerTimeHint';
+import { formatTime, fromEventDateTimeInput, getEventTimezone, toEventDateTimeInput } from '@/utils/dateUtils';
+
+type SessionBreak = {
+  label: string;
+  start_time: string;
+  end_time: string;
+};
 
 type Session = {
   id: string;
@@ -11,7 +22,34 @@ type Session = {
   interview_duration_minutes: number;
   buffer_minutes: number;
   slots_per_time: number;
+  max_slots_per_company: number | null;
+  scale_capacity_by_recruiters: boolean;
   is_active: boolean | null;
+  session_breaks: SessionBreak[];
+};
+
+type SessionForm = {
+  name: string;
+  start_time: string;
+  end_time: string;
+  interview_duration_minutes: number;
+  buffer_minutes: number;
+  slots_per_time: number;
+  max_slots_per_company: string;
+  scale_capacity_by_recruiters: boolean;
+  breaks: SessionBreak[];
+};
+
+const EMPTY_SESSION_FORM: SessionForm = {
+  name: '',
+  start_time: '',
+  end_time: '',
+  interview_duration_minutes: 15,
+  buffer_minutes: 5,
+  slots_per_time: 2,
+  max_slots_per_company: '',
+  scale_capacity_by_recruiters: false,
+  breaks: []
 };
 
 export default function SessionManagement() {
@@ -20,29 +58,13 @@ export default function SessionManagement() {
 
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
-  const [generating, setGenerating] = useState(false);
-  const [generatingINF, setGeneratingINF] = useState(false);
+  const [previewSession, setPreviewSession] = useState<Session | null>(null);
   const [event, setEvent] = useState<any>(null);
   const [sessions, setSessions] = useState<Session[]>([]);
   const [showAddForm, setShowAddForm] = useState(false);
-  const [showINFGenerator, setShowINFGenerator] = useState(false);
   const [editingSession, setEditingSession] = useState<Session | null>(null);
 
-  const [formData, setFormData] = useState({
-    name: '',
-    start_time: '',
-    end_time: '',
-    interview_duration_minutes: 15,
-    buffer_minutes: 5,
-    slots_per_time: 2
-  });
-
-  const [infFormData, setInfFormData] = useState({
-    session1_start: '',
-    session1_end: '',
-    session2_start: '',
-    session2_end: ''
-  });
+  const [formData, setFormData] = useState<SessionForm>(EMPTY_SESSION_FORM);
 
   useEffect(() => {
     checkAdminAndLoad();
@@ -100,7 +122,7 @@ export default function SessionManagement() {
 
     const { data: sessionsData, error: sessionsError } = await supabase
       .from('speed_recruiting_sessions')
-      .select('*')
+      .select('*, session_breaks (label, start_time, end_time)')
       .eq('event_id', eventId)
       .order('start_time', { ascending: true });
 
@@ -112,14 +134,7 @@ export default function SessionManagement() {
   };
 
   const resetForm = () => {
-    setFormData({
-      name: '',
-      start_time: '',
-      end_time: '',
-      interview_duration_minutes: 15,
-      buffer_minutes: 5,
-      slots_per_time: 2
-    });
+    setFormData(EMPTY_SESSION_FORM);
     setEditingSession(null);
     setShowAddForm(false);
   };
@@ -127,16 +142,51 @@ export default function SessionManagement() {
   const handleEdit = (session: Session) => {
     setFormData({
       name: session.name,
-      start_time: session.start_time.substring(0, 16),
-      end_time: session.end_time.substring(0, 16),
+      start_time: toEventDateTimeInput(session.start_time, event),
+      end_time: toEventDateTimeInput(session.end_time, event),
       interview_duration_minutes: session.interview_duration_minutes,
       buffer_minutes: session.buffer_minutes,
-      slots_per_time: session.slots_per_time
+      slots_per_time: session.slots_per_time,
+      max_slots_per_company: session.max_slots_per_company ? String(session.max_slots_per_company) : '',
+      scale_capacity_by_recruiters: session.scale_capacity_by_recruiters,
+      breaks: session.session_breaks.map((b) => ({
+        label: b.label,
+        start_time: toEventDateTimeInput(b.start_time, event),
+        end_time: toEventDateTimeInput(b.end_time, event)
+      }))
     });
     setEditingSession(session);
     setShowAddForm(true);
   };
 
+  const updateBreak = (index: number, changes: Partial<SessionBreak>) => {
+    setFormData({
+      ...formData,
+      breaks: formData.breaks.map((b, i) => (i === index ? { ...b, ...changes } : b))
+    });
+  };
+
+  const saveBreaks = async (sessionId: string, breaks: SessionBreak[]) => {
+    const { error: deleteError } = await supabase
+      .from('session_breaks')
+      .delete()
+      .eq('session_id', sessionId);
+
+    if (deleteError) throw deleteError;
+    if (breaks.length === 0) return;
+
+    const { error } = await supabase
+      .from('session_breaks')
+      .insert(breaks.map((b) => ({
+        session_id: sessionId,
+        label: b.label.trim() || 'Break',
+        start_time: b.start_time,
+        end_time: b.end_time
+      })));
+
+    if (error) throw error;
+  };
+
   const handleSave = async () => {
     try {
       setSaving(true);
@@ -146,46 +196,81 @@ export default function SessionManagement() {
         return;
       }
 
-      if (new Date(formData.start_time) >= new Date(formData.end_time)) {
+      const startTime = fromEventDateTimeInput(formData.start_time, event);
+      const endTime = fromEventDateTimeInput(formData.end_time, event);
+      if (!startTime || !endTime) {
+        alert('Start and end time are required');
+        return;
+      }
+
+      if (new Date(startTime) >= new Date(endTime)) {
         alert('Start time must be before end time');
         return;
       }
 
+      const breaks: SessionBreak[] = [];
+      for (const b of formData.breaks) {
+        const breakStart = fromEventDateTimeInput(b.start_time, event);
+        const breakEnd = fromEventDateTimeInput(b.end_time, event);
+        if (!breakStart || !breakEnd || new Date(breakStart) >= new Date(breakEnd)) {
+          alert('Break start must be before break end');
+          return;
+        }
+        if (new Date(breakStart) < new Date(startTime) || new Date(breakEnd) > new Date(endTime)) {
+          alert('Breaks must be inside the session');
+          return;
+        }
+        breaks.push({ label: b.label, start_time: breakStart, end_time: breakEnd });
+      }
+
+      const sessionValues = {
+        name: formData.name,
+        start_time: startTime,
+        end_time: endTime,
+        interview_duration_minutes: formData.interview_duration_minutes,
+        buffer_minutes: formData.buffer_minutes,
+        slots_per_time: formData.slots_per_time,
+        max_slots_per_company: formData.max_slots_per_company ? parseInt(formData.max_slots_per_company) : null,
+        scale_capacity_by_recruiters: formData.scale_capacity_by_recruiters
+      };
+
       if (editingSession) {
         const { error } = await supabase
           .from('speed_recruiting_sessions')
-          .update({
-            name: formData.name,
-            start_time: formData.start_time,
-            end_time: formData.end_time,
-            interview_duration_minutes: formData.interview_duration_minutes,
-            buffer_minutes: formData.buffer_minutes,
-            slots_per_time: formData.slots_per_time
-          })
+          .update(sessionValues)
           .eq('id', editingSession.id);
 
         if (error) throw error;
-        alert('Session updated successfully!');
+        await saveBreaks(editingSession.id, breaks);
+        alert('Session updated successfully!\n\n💡 Use "Regenerate Slots" to apply the new settings to existing slots.');
       } else {
         if (!eventId) {
           alert('Event ID is required');
           return;
         }
-        const { error } = await supabase
+
+        // Created inactive so the insert trigger does not generate slots before the breaks exist
+        const { data: created, error } = await supabase
           .from('speed_recruiting_sessions')
-          .insert({
-            event_id: eventId,
-            name: formData.name,
-            start_time: formData.start_time,
-            end_time: formData.end_time,
-            interview_duration_minutes: formData.interview_duration_minutes,
-            buffer_minutes: formData.buffer_minutes,
-            slots_per_time: formData.slots_per_time,
-            is_active: true
-          });
+          .insert({ event_id: eventId, ...sessionValues, is_active: false })
+          .select('id')
+          .single();
 
         if (error) throw error;
-        alert('✅ Session created successfully!\n\n📊 Slots are being auto-generated for all participating companies.\n💡 You can use "Regenerate Slots" if needed.');
+        await saveBreaks(created.id, breaks);
+
+        const { error: activateError } = await supabase
+          .from('speed_recruiting_sessions')
+          .update({ is_active: true })
+          .eq('id', created.id);
+
+        if (activateError) throw activateError;
+
+        const { data: generated, error: generateError } = await supabase
+          .rpc('fn_regenerate_event_slots', { p_session_id: created.id });
+
+        if (generateError) throw generateError;
+        alert(`✅ Session created successfully!\n\n📊 ${generated?.[0]?.slots_created ?? 0} slots generated for all participating companies.`);
       }
 
       resetForm();
@@ -200,6 +285,19 @@ export default function SessionManagement() {
   };
 
   const handleDelete = async (sessionId: string, sessionName: string) => {
+    const { count: bookedCount, error: countError } = await supabase
+      .from('bookings')
+      .select('id, event_slots!inner(session_id)', { count: 'exact', head: true })
+      .eq('event_slots.session_id', sessionId)
+      .eq('status', 'confirmed');
+
+    if (countError) {
+      console.error('Error counting bookings:', countError);
+    } else if (bookedCount) {
+      alert(`"${sessionName}" still holds ${bookedCount} confirmed booking(s). Deleting it would delete them too.\n\nChange the session times and use "Regenerate Slots" to move the bookings instead.`);
+      return;
+    }
+
     if (!confirm(`Delete session "${sessionName}"? This will also delete all associated interview slots.`)) {
       return;
     }
@@ -220,83 +318,28 @@ export default function SessionManagement() {
     }
   };
 
+  // Mirrors fn_generate_company_session_slots without company overrides
   const calculateSlotCount = (session: Session) => {
-    const start = new Date(session.start_time);
-    const end = new Date(session.end_time);
-    const durationMs = (session.interview_duration_minutes + session.buffer_minutes) * 60 * 1000;
-    const totalMs = end.getTime() - start.getTime();
-    return Math.floor(totalMs / durationMs);
-  };
-
-  const generateSlotsForSession = async (session: Session) => {
-    if (!confirm(`Regenerate interview slots for "${session.name}"?\n\nThis will:\n✓ Delete unbooked slots\n✓ Keep slots with existing bookings\n✓ Generate fresh slots for all ${event?.companies?.length || 0} companies\n\nEstimated: ~${calculateSlotCount(session)} slots per company`)) {
-      return;
-    }
-
-    try {
-      setGenerating(true);
-
-      // Use the new database function for atomic regeneration
-      const { data, error } = await supabase
-        .rpc('fn_regenerate_event_slots', {
-          p_session_id: session.id
-        });
-
-      if (error) throw error;
-
-      const result = data?.[0];
-      if (result) {
-        alert(`✅ Slot regeneration complete!\n\n📊 ${result.slots_created} total slots created\n🏢 ${result.companies_affected} companies updated\n📈 ~${Math.floor(result.slots_created / result.companies_affected)} slots per company`);
-      }
-    } catch (err) {
-      console.error('Error regenerating slots:', err);
-      alert('❌ Error regenerating slots: ' + (err as any).message);
-    } finally {
-      setGenerating(false);
-    }
-  };
-
-  const generateINFSlots = async () => {
-    if (!infFormData.session1_start || !infFormData.session1_end || 
-        !infFormData.session2_start || !infFormData.session2_end) {
-      alert('Please fill in all session times');
-      return;
-    }
-
-    if (!confirm(`Generate INF-compliant slots for this event?\n\nThis will:\n✓ Create 2 interview sessions\n✓ Generate exactly 15 slots per company (8 in first session, 7 in second)\n✓ 10 minutes per slot, 5 minutes buffer\n✓ Capacity: 2 students per slot\n✓ Delete existing sessions and slots\n\n⚠️ This action cannot be undone!`)) {
-      return;
-    }
-
-    if (!eventId) {
-      alert('Event ID is required');
-      return;
-    }
-    try {
-      setGeneratingINF(true);
-
-      const { data, error } = await supabase
-        .rpc('fn_generate_inf_slots', {
-          p_event_id: eventId,
-          p_session1_start: infFormData.session1_start,
-          p_session1_end: infFormData.session1_end,
-          p_session2_start: infFormData.session2_start,
-          p_session2_end: infFormData.session2_end
-        });
-
-      if (error) throw error;
-
-      if (data && Array.isArray(data) && data.length > 0) {
-        const result = data[0] as { total_slots_created?: number; companies_processed?: number; session1_slots?: number; session2_slots?: number; message?: string };
-        alert(`✅ INF Slot Generation Complete!\n\n📊 ${result.total_slots_created || 0} total slots created\n🏢 ${result.companies_processed || 0} companies processed\n📅 Session 1: ${result.session1_slots || 0} slots\n📅 Session 2: ${result.session2_slots || 0} slots\n\n${result.message || 'Slots generated successfully'}`);
-        setShowINFGenerator(false);
-        await loadData();
+    const durationMs = session.interview_duration_minutes * 60 * 1000;
+    const stepMs = (session.interview_duration_minutes + session.buffer_minutes) * 60 * 1000;
+    const end = new Date(session.end_time).getTime();
+    let current = new Date(session.start_time).getTime();
+    let count = 0;
+
+    while (current + durationMs <= end) {
+      if (session.max_slots_per_company && count >= session.max_slots_per_company) break;
+      const slotEnd = current + durationMs;
+      const overlapping = session.session_breaks.filter(
+        (b) => new Date(b.start_time).getTime() < slotEnd && new Date(b.end_time).getTime() > current
+      );
+      if (overlapping.length > 0) {
+        current = Math.max(...overlapping.map((b) => new Date(b.end_time).getTime()));
+        continue;
       }
-    } catch (err) {
-      console.error('Error generating INF slots:', err);
-      alert('❌ Error generating INF slots: ' + (err as any).message);
-    } finally {
-      setGeneratingINF(false);
+      count++;
+      current += stepMs;
     }
+    return count;
   };
 
   if (loading) {
@@ -340,125 +383,16 @@ export default function SessionManagement() {
       </header>
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {/* INF Slot Generator */}
-        <div className="bg-gradient-to-r from-primary/10 to-primary/5 rounded-xl border-2 border-primary/20 p-6 mb-8">
-          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4">
-            <div>
-              <h2 className="text-lg font-semibold text-foreground">INF Event Slot Generator</h2>
-              <p className="text-sm text-muted-foreground mt-1">
-                Generate INF-compliant slots: 15 slots per company (8+7), 10min slots, 5min buffer, capacity 2
-              </p>
-            </div>
-            <button
-              onClick={() => setShowINFGenerator(!showINFGenerator)}
-              className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition w-full sm:w-auto"
-            >
-              {showINFGenerator ? 'Hide Generator' : 'Generate INF Slots'}
-            </button>
-          </div>
-
-          {showINFGenerator && (
-            <div className="mt-4 space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="bg-card rounded-lg border border-border p-4">
-                  <h3 className="font-semibold text-foreground mb-3">First Interview Session</h3>
-                  <div className="space-y-3">
-                    <div>
-                      <label className="block text-sm font-medium text-foreground mb-1">
-                        Start Time *
-                      </label>
-                      <input
-                        type="datetime-local"
-                        value={infFormData.session1_start}
-                        onChange={(e) => setInfFormData({ ...infFormData, session1_start: e.target.value })}
-                        className="w-full px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary"
-                      />
-                    </div>
-                    <div>
-                      <label className="block text-sm font-medium text-foreground mb-1">
-                        End Time *
-                      </label>
-                      <input
-                        type="datetime-local"
-                        value={infFormData.session1_end}
-                        onChange={(e) => setInfFormData({ ...infFormData, session1_end: e.target.value })}
-                        className="w-full px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary"
-                      />
-                    </div>
-                    <p className="text-xs text-muted-foreground">
-                      Will generate 8 slots per company
-                    </p>
-                  </div>
-                </div>
-
-                <div className="bg-card rounded-lg border border-border p-4">
-                  <h3 className="font-semibold text-foreground mb-3">Second Interview Session</h3>
-                  <div className="space-y-3">
-                    <div>
-                      <label className="block text-sm font-medium text-foreground mb-1">
-                        Start Time *
-                      </label>
-                      <input
-                        type="datetime-local"
-                        value={infFormData.session2_start}
-                        onChange={(e) => setInfFormData({ ...infFormData, session2_start: e.target.value })}
-                        className="w-full px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary"
-                      />
-                    </div>
-                    <div>
-                      <label className="block text-sm font-medium text-foreground mb-1">
-                        End Time *
-                      </label>
-                      <input
-                        type="datetime-local"
-                        value={infFormData.session2_end}
-                        onChange={(e) => setInfFormData({ ...infFormData, session2_end: e.target.value })}
-                        className="w-full px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary"
-                      />
-                    </div>
-                    <p className="text-xs text-muted-foreground">
-                      Will generate 7 slots per company (15 total)
-                    </p>
-                  </div>
-                </div>
-              </div>
-
-              <div className="bg-blue-50 dark:bg-blue-950/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
-                <h4 className="font-semibold text-blue-900 dark:text-blue-100 mb-2">INF Requirements:</h4>
-                <ul className="text-sm text-blue-800 dark:text-blue-200 space-y-1 list-disc list-inside">
-                  <li>15 slots per company (8 in first session, 7 in second)</li>
-                  <li>10 minutes per interview slot</li>
-                  <li>5 minutes buffer between slots</li>
-                  <li>Capacity: 2 students per slot</li>
-                  <li>Total time per session: ~110 minutes (8 slots) and ~100 minutes (7 slots)</li>
-                </ul>
-              </div>
-
-              <div className="flex flex-col sm:flex-row justify-end gap-3">
-                <button
-                  onClick={() => setShowINFGenerator(false)}
-                  className="px-6 py-2 border border-border rounded-lg hover:bg-muted transition w-full sm:w-auto"
-                >
-                  Cancel
-                </button>
-                <button
-                  onClick={generateINFSlots}
-                  disabled={generatingINF}
-                  className="px-6 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition disabled:opacity-50 w-full sm:w-auto"
-                >
-                  {generatingINF ? 'Generating...' : 'Generate INF Slots'}
-                </button>
-              </div>
-            </div>
-          )}
-        </div>
+        {eventId && (
+          <SlotTemplatesPanel eventId={eventId} eventDate={event.date} eventTimezone={getEventTimezone(event)} onApplied={loadData} />
+        )}
 
         <div className="bg-card rounded-xl border border-border p-6 mb-8">
           <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4">
             <div>
               <h2 className="text-lg font-semibold text-foreground">Sessions ({sessions.length})</h2>
               <p className="text-sm text-muted-foreground mt-1">
-                Define time blocks for speed recruiting interviews
+                Define time blocks for speed recruiting interviews. Times are in {getEventTimezone(event).replace(/_/g, ' ')}.
               </p>
             </div>
             <button
@@ -491,10 +425,11 @@ export default function SessionManagement() {
                         <div>
                           <p className="text-muted-foreground">Time Range</p>
                           <p className="font-medium text-foreground">
-                            {new Date(session.start_time).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}
+                            {formatTime(session.start_time, event)}
                             {' - '}
-                            {new Date(session.end_time).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}
+                            {formatTime(session.end_time, event)}
                           </p>
+                          <ViewerTimeHint value={session.start_time} event={event} withDate />
                         </div>
                         <div>
                           <p className="text-muted-foreground">Interview Duration</p>
@@ -506,19 +441,32 @@ export default function SessionManagement() {
                         </div>
                         <div>
                           <p className="text-muted-foreground">Capacity</p>
-                          <p className="font-medium text-foreground">{session.slots_per_time} students/slot</p>
+                          <p className="font-medium text-foreground">
+                            {session.slots_per_time} students/slot{session.scale_capacity_by_recruiters ? ' per recruiter' : ''}
+                          </p>
                         </div>
                       </div>
+                      {session.session_breaks.length > 0 && (
+                        <div className="mt-2 flex flex-wrap gap-2">
+                          {session.session_breaks.map((b, i) => (
+                            <span key={i} className="px-2 py-1 bg-muted text-muted-foreground text-xs rounded-full">
+                              {b.label}: {formatTime(b.start_time, event)}
+                              {' - '}
+                              {formatTime(b.end_time, event)}
+                            </span>
+                          ))}
+                        </div>
+                      )}
                       <div className="mt-3 flex items-center justify-between">
                         <div className="text-sm text-muted-foreground">
                           📊 ~{calculateSlotCount(session)} slots per company
+                          {session.max_slots_per_company ? ` (max ${session.max_slots_per_company})` : ''}
                         </div>
                         <button
-                          onClick={() => generateSlotsForSession(session)}
-                          disabled={generating}
-                          className="px-3 py-1.5 bg-primary text-primary-foreground text-sm rounded-lg hover:bg-primary/90 transition disabled:opacity-50"
+                          onClick={() => setPreviewSession(session)}
+                          className="px-3 py-1.5 bg-primary text-primary-foreground text-sm rounded-lg hover:bg-primary/90 transition"
                         >
-                          {generating ? '⏳ Regenerating...' : '🔄 Regenerate Slots'}
+                          🔄 Regenerate Slots
                         </button>
                       </div>
                     </div>
@@ -543,6 +491,8 @@ export default function SessionManagement() {
           )}
         </div>
 
+        {eventId && <CompanySlotOverrides eventId={eventId} />}
+
         {showAddForm && (
           <div className="bg-card rounded-xl border border-border p-6">
             <h2 className="text-lg font-semibold text-foreground mb-4">
@@ -627,6 +577,79 @@ export default function SessionManagement() {
                 />
                 <p className="text-xs text-muted-foreground mt-1">Simultaneous students</p>
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-foreground mb-2">
+                  Max Slots per Company
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  value={formData.max_slots_per_company}
+                  onChange={(e) => setFormData({ ...formData, max_slots_per_company: e.target.value })}
+                  placeholder="No limit"
+                  className="w-full px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary"
+                />
+                <p className="text-xs text-muted-foreground mt-1">Leave empty to fill the whole session</p>
+              </div>
+
+              <div className="md:col-span-2">
+                <label className="flex items-center gap-2 text-sm text-foreground">
+                  <input
+                    type="checkbox"
+                    checked={formData.scale_capacity_by_recruiters}
+                    onChange={(e) => setFormData({ ...formData, scale_capacity_by_recruiters: e.target.checked })}
+                  />
+                  Multiply capacity by each company's number of recruiters
+                </label>
+              </div>
+
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-foreground mb-2">
+                  Breaks
+                </label>
+                <div className="space-y-2">
+                  {formData.breaks.map((b, index) => (
+                    <div key={index} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_auto] gap-2 items-center">
+                      <input
+                        type="text"
+                        value={b.label}
+                        onChange={(e) => updateBreak(index, { label: e.target.value })}
+                        placeholder="e.g., Lunch"
+                        className="w-full px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary"
+                      />
+                      <input
+                        type="datetime-local"
+                        value={b.start_time}
+                        onChange={(e) => updateBreak(index, { start_time: e.target.value })}
+                        className="w-full px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary"
+                      />
+                      <input
+                        type="datetime-local"
+                        value={b.end_time}
+                        onChange={(e) => updateBreak(index, { end_time: e.target.value })}
+                        className="w-full px-3 py-2 bg-background border border-border rounded-md focus:ring-2 focus:ring-primary"
+                      />
+                      <button
+                        onClick={() => setFormData({ ...formData, breaks: formData.breaks.filter((_, i) => i !== index) })}
+                        className="p-2 text-destructive hover:bg-destructive/10 rounded-lg transition"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => setFormData({
+                      ...formData,
+                      breaks: [...formData.breaks, { label: 'Break', start_time: formData.start_time, end_time: formData.start_time }]
+                    })}
+                    className="text-sm text-primary hover:underline"
+                  >
+                    + Add break
+                  </button>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">No slots are generated during breaks</p>
+              </div>
             </div>
 
             <div className="mt-6 flex justify-end gap-3">
@@ -647,6 +670,15 @@ export default function SessionManagement() {
           </div>
         )}
       </main>
+
+      {previewSession && (
+        <RegenerationPreviewModal
+          sessionId={previewSession.id}
+          sessionName={previewSession.name}
+          onClose={() => setPreviewSession(null)}
+          onApplied={loadData}
+        />
+      )}
     </div>
   );
 }
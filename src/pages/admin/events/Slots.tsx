@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react'
 import { supabase } from '@/lib/supabase'
 import { useNavigate, useParams, Link } from 'react-router-dom'
 import { Users } from 'lucide-react'
+import { formatTimezoneName, getEventTimezone } from '@/utils/dateUtils'
 
 interface SlotDetails {
   id: string
@@ -22,6 +23,7 @@ type Event = {
   id: string
   name: string
   date: string
+  timezone: string
 }
 
 export default function EventSlots() {
@@ -78,7 +80,7 @@ export default function EventSlots() {
 
     const { data: eventData } = await supabase
       .from('events')
-      .select('id, name, date')
+      .select('id, name, date, timezone')
       .eq('id', eventId)
       .single()
 
@@ -242,7 +244,9 @@ export default function EventSlots() {
             ← Back to Events
           </Link>
           <h1 className="text-2xl font-bold">{event.name}</h1>
-          <p className="text-sm text-muted-foreground mt-1">Interview Slots</p>
+          <p className="text-sm text-muted-foreground mt-1">
+            Interview Slots · {getEventTimezone(event).replace(/_/g, ' ')} ({formatTimezoneName(getEventTimezone(event), event.date)})
+          </p>
         </div>
       </header>
 
@@ -292,7 +296,8 @@ export default function EventSlots() {
                               {new Date(slot.start_time).toLocaleTimeString('en-US', {
                                 hour: '2-digit',
                                 minute: '2-digit',
-                                hour12: false
+                                hour12: false,
+                                timeZone: getEventTimezone(event)
                               })}
                             </div>
                             <div className="text-xs text-muted-foreground mt-1">
@@ -6,6 +6,7 @@ import AdminLayout from '@/components/admin/AdminLayout';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/contexts/ToastContext';
 import LoadingScreen from '@/components/shared/LoadingScreen';
+import { getOfferTemplates, templateToOfferForm, type OfferTemplate } from '@/utils/offerTemplates';
 
 export default function AdminCreateOffer() {
   const { signOut } = useAuth('admin');
@@ -14,6 +15,8 @@ export default function AdminCreateOffer() {
   const [loadingData, setLoadingData] = useState(true);
   const [events, setEvents] = useState<any[]>([]);
   const [companies, setCompanies] = useState<any[]>([]);
+  const [templates, setTemplates] = useState<OfferTemplate[]>([]);
+  const [template, setTemplate] = useState<OfferTemplate | null>(null);
   const [formData, setFormData] = useState({
     title: '',
     description: '',
@@ -57,6 +60,9 @@ export default function AdminCreateOffer() {
       if (companiesError) throw companiesError;
       setCompanies(companiesData || []);
 
+      // Load offer templates of every company
+      setTemplates(await getOfferTemplates());
+
       // Set default event if available
       if (eventsData && eventsData.length > 0) {
         setFormData(prev => ({ ...prev, event_id: eventsData[0].id }));
@@ -69,6 +75,19 @@ export default function AdminCreateOffer() {
     }
   };
 
+  const applyTemplate = (templateId: string) => {
+    const selected = templates.find(t => t.id === templateId) || null;
+    setTemplate(selected);
+    if (selected) {
+      setFormData(prev => ({
+        ...prev,
+        ...templateToOfferForm(selected),
+        company_ids: [selected.company_id],
+      }));
+      setSelectAll(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -87,6 +106,9 @@ export default function AdminCreateOffer() {
         title: formData.title,
         description: formData.description,
         interest_tag: formData.interest_tag,
+        department: template?.department ?? null,
+        requirements: template?.requirements ?? null,
+        benefits: template?.benefits ?? null,
         location: formData.location || null,
         duration_months: formData.duration_months ? parseInt(formData.duration_months) : null,
         salary_range: formData.salary_range || null,
@@ -139,6 +161,30 @@ export default function AdminCreateOffer() {
           </header>
 
           <form onSubmit={handleSubmit} className="bg-card rounded-xl border border-border p-6 space-y-6">
+            {/* Template */}
+            {templates.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-foreground mb-2">
+                  Start from a company template
+                </label>
+                <select
+                  value={template?.id || ''}
+                  onChange={(e) => applyTemplate(e.target.value)}
+                  className="w-full px-4 py-2 bg-background border border-border rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  <option value="">Blank offer</option>
+                  {templates.map(t => (
+                    <option key={t.id} value={t.id}>
+                      {t.company_name} - {t.name}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Prefills the form and selects the template's company
+                </p>
+              </div>
+            )}
+
             {/* Company Selection */}
             <div>
               <label className="block text-sm font-medium text-foreground mb-2">
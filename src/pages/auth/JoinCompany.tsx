@@ -0,0 +1,259 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { supabase } from '@/lib/supabase';
+import { Eye, EyeOff, CheckCircle, Users } from 'lucide-react';
+import { error as logError } from '@/utils/logger';
+import { COMPANY_ROLE_LABELS, getTeamInvitation, type TeamInvitationDetails } from '@/utils/companyTeam';
+
+/**
+ * JoinCompany - Sign-up page for recruiters invited to a company team
+ *
+ * Opened from the team invitation email. The account is created with the
+ * invited address and linked to the company when the token is accepted.
+ */
+export default function JoinCompany() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [invitation, setInvitation] = useState<TeamInvitationDetails | null>(null);
+  const [checking, setChecking] = useState(true);
+  const [fullName, setFullName] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [consent, setConsent] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadInvitation = async () => {
+      if (!token) {
+        setChecking(false);
+        return;
+      }
+
+      try {
+        const details = await getTeamInvitation(token);
+        setInvitation(details);
+        setFullName(details?.full_name || '');
+      } catch (err) {
+        logError('Error loading team invitation:', err);
+      } finally {
+        setChecking(false);
+      }
+    };
+    loadInvitation();
+  }, [token]);
+
+  const handleJoin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invitation) return;
+    setError('');
+
+    if (fullName.trim().length < 2) {
+      setError('Please enter your full name');
+      return;
+    }
+    if (password.length < 8) {
+      setError('Password must be at least 8 characters long');
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+    if (!consent) {
+      setError('You must consent to the processing of your data to create an account.');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error: signupError } = await supabase.auth.signUp({
+        email: invitation.email,
+        password,
+        options: {
+          data: {
+            full_name: fullName.trim(),
+            role: 'company',
+            team_invite_token: token,
+            consent_given: true,
+            consent_version: '1.0',
+          },
+        },
+      });
+
+      if (signupError) {
+        if (signupError.message.includes('already registered') || signupError.message.includes('already exists')) {
+          throw new Error('This email is already registered. Ask your company admin to invite another address.');
+        }
+        throw signupError;
+      }
+      if (!data.user) {
+        throw new Error('Failed to create your account');
+      }
+
+      if (data.session) {
+        const { error: consentError } = await supabase
+          .from('profiles')
+          .update({
+            consent_given: true,
+            consent_date: new Date().toISOString(),
+            consent_version: '1.0',
+          })
+          .eq('id', data.user.id);
+
+        if (consentError) {
+          logError('Error updating consent:', consentError);
+        }
+        navigate('/company');
+      } else {
+        navigate('/login', {
+          state: { message: `Your account has been created. Confirm your email, then sign in to join ${invitation.company_name}.` },
+        });
+      }
+    } catch (err: any) {
+      logError('Error joining company team:', err);
+      setError(err.message || 'Failed to create your account');
+      setLoading(false);
+    }
+  };
+
+  if (checking) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="w-8 h-8 border-2 border-[#007e40] border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (!invitation) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+        <div className="max-w-md w-full bg-white rounded-lg shadow-lg p-8 text-center">
+          <div className="text-red-500 text-5xl mb-4">⚠️</div>
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Invalid Invitation</h2>
+          <p className="text-gray-600 mb-6">
+            This invitation link is invalid, has already been used or has expired. Ask your company admin for a new one.
+          </p>
+          <Link to="/login" className="text-sm font-medium text-[#007e40] hover:underline">
+            Go to sign in
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const inputClassName = 'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#007e40] focus:border-transparent';
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4 py-12">
+      <div className="max-w-md w-full bg-white rounded-xl shadow-2xl p-8">
+        <div className="text-center mb-8">
+          <div className="bg-[#007e40]/10 w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Users className="w-8 h-8 text-[#007e40]" />
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Join {invitation.company_name}</h1>
+          <p className="text-sm text-gray-600">
+            You are invited as {COMPANY_ROLE_LABELS[invitation.role].toLowerCase()}.
+          </p>
+        </div>
+
+        <form onSubmit={handleJoin} className="space-y-5">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Email</label>
+            <input type="email" value={invitation.email} disabled className={`${inputClassName} bg-gray-50 text-gray-500`} />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Full Name *</label>
+            <input
+              type="text"
+              required
+              value={fullName}
+              onChange={(e) => setFullName(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Password *</label>
+            <div className="relative">
+              <input
+                type={showPassword ? 'text' : 'password'}
+                required
+                minLength={8}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className={`${inputClassName} pr-12`}
+                placeholder="Enter password (min. 8 characters)"
+              />
+              <button
+                type="button"
+                onClick={() => setShowPassword(!showPassword)}
+                className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 hover:text-gray-700"
+              >
+                {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Confirm Password *</label>
+            <input
+              type={showPassword ? 'text' : 'password'}
+              required
+              minLength={8}
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              className={inputClassName}
+              placeholder="Confirm your password"
+            />
+          </div>
+
+          <label className="flex items-start cursor-pointer bg-gray-50 border border-gray-200 rounded-lg p-4">
+            <input
+              type="checkbox"
+              required
+              checked={consent}
+              onChange={(e) => setConsent(e.target.checked)}
+              className="mt-1 mr-3 w-4 h-4 border-gray-300 rounded"
+            />
+            <span className="text-sm text-gray-900">
+              <span className="font-medium">I consent to the processing of my data</span> for event management
+              and internship matching purposes. I have read and agree to the{' '}
+              <Link to="/privacy-policy" className="text-[#007e40] hover:underline font-medium" target="_blank">
+                Privacy Policy
+              </Link>.
+              <span className="text-red-600 ml-1">*</span>
+            </span>
+          </label>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={loading}
+            className="w-full bg-[#007e40] text-white py-3 px-6 rounded-lg font-semibold hover:bg-[#006633] disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2"
+          >
+            {loading ? (
+              <>
+                <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                Creating account...
+              </>
+            ) : (
+              <>
+                <CheckCircle className="w-5 h-5" />
+                Join the team
+              </>
+            )}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -12,7 +12,9 @@ import ErrorDisplay from '@/components/shared/ErrorDisplay';
 import CompanyLayout from '@/components/company/CompanyLayout';
 import ScheduledStudentsList from '@/components/company/dashboard/ScheduledStudentsList';
 import EmptyEventsState from '@/components/company/dashboard/EmptyEventsState';
+import OfferFunnelCard from '@/components/company/dashboard/OfferFunnelCard';
 import LoadingCard from '@/components/shared/LoadingCard';
+import { getMyCompanyMembership } from '@/utils/companyTeam';
 
 /**
  * CompanyDashboard - Main dashboard page for companies
@@ -63,10 +65,15 @@ export default function CompanyDashboard() {
 
       try {
         setError(null);
+        const membership = await getMyCompanyMembership(user.id);
+        if (!membership) {
+          throw new Error('Company profile not found. Please contact support.');
+        }
+
         const { data: company, error: companyError } = await supabase
           .from('companies')
           .select('id, company_name, industry, description, website, contact_email, contact_phone, address, logo_url, company_size')
-          .eq('profile_id', user.id)
+          .eq('id', membership.company_id)
           .maybeSingle();
 
         if (companyError) {
@@ -77,12 +84,12 @@ export default function CompanyDashboard() {
           setCompanyId(company.id);
           setCompanyProfile(company);
           
-          // Check if profile is incomplete
-          const isIncomplete = !company.industry || 
+          // Check if profile is incomplete; only company admins can complete it
+          const isIncomplete = membership.role === 'admin' && (!company.industry || 
                                !company.description || 
                                !company.website || 
                                !company.contact_email || 
-                               !company.logo_url;
+                               !company.logo_url);
           setShowProfileBanner(isIncomplete);
         } else {
           throw new Error('Company profile not found. Please contact support.');
@@ -267,13 +274,8 @@ export default function CompanyDashboard() {
                     setError(null);
                     setLoadingCompany(true);
                     try {
-                      const { data: company, error: companyError } = await supabase
-                        .from('companies')
-                        .select('id, company_name')
-                        .eq('profile_id', user.id)
-                        .maybeSingle();
-                      if (companyError) throw companyError;
-                      if (company) setCompanyId(company.id);
+                      const membership = await getMyCompanyMembership(user.id);
+                      if (membership) setCompanyId(membership.company_id);
                     } catch (err: any) {
                       setError(err instanceof Error ? err : new Error('Failed to load company'));
                     } finally {
@@ -292,7 +294,12 @@ export default function CompanyDashboard() {
                   <SkeletonLoader type="list" count={3} />
                 </div>
               ) : (
-                <ScheduledStudentsList students={scheduledStudents} />
+                <>
+                  <ScheduledStudentsList students={scheduledStudents} event={events.find((event) => event.id === selectedEventId) ?? null} />
+                  {companyId && selectedEventId && (
+                    <OfferFunnelCard companyId={companyId} eventId={selectedEventId} />
+                  )}
+                </>
               )}
             </>
           )}
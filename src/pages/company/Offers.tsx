@@ -2,17 +2,24 @@ import { useCallback, useEffect, useMemo, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { supabase } from '@/lib/supabase';
 import { useToast } from '@/contexts/ToastContext';
-import { Plus, Search, Edit, Trash2, ToggleLeft, ToggleRight, Briefcase } from 'lucide-react';
+import { Plus, Search, Edit, Trash2, ToggleLeft, ToggleRight, Briefcase, ListOrdered, Copy, BookmarkPlus, FileText } from 'lucide-react';
 import LoadingScreen from '@/components/shared/LoadingScreen';
 import ErrorDisplay from '@/components/shared/ErrorDisplay';
 import EmptyState from '@/components/shared/EmptyState';
 import CompanyLayout from '@/components/company/CompanyLayout';
+import DuplicateOfferModal from '@/components/shared/DuplicateOfferModal';
+import SaveOfferTemplateModal from '@/components/shared/SaveOfferTemplateModal';
+import OfferFunnelStats from '@/components/company/OfferFunnelStats';
 import { useAuth } from '@/hooks/useAuth';
+import { getMyCompanyMembership } from '@/utils/companyTeam';
+import { deleteOfferTemplate, getOfferTemplates, type OfferTemplate } from '@/utils/offerTemplates';
+import { getOfferFunnel, type OfferFunnel } from '@/utils/offerAnalytics';
 
 type Offer = {
   id: string;
   title: string;
   description: string;
+  event_id: string | null;
   interest_tag: 'Opérationnel' | 'Administratif' | 'Other';
   location: string | null;
   duration_months: number | null;
@@ -35,6 +42,12 @@ export default function CompanyOffers() {
   const [filterStatus, setFilterStatus] = useState<'all' | 'active' | 'inactive'>('all');
   const [filterTag, setFilterTag] = useState<'all' | 'Op?rationnel' | 'Administratif'>('all');
   const [togglingId, setTogglingId] = useState<string | null>(null);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [templates, setTemplates] = useState<OfferTemplate[]>([]);
+  const [funnels, setFunnels] = useState<Record<string, OfferFunnel>>({});
+  const [companyId, setCompanyId] = useState<string | null>(null);
+  const [duplicatingOffer, setDuplicatingOffer] = useState<Offer | null>(null);
+  const [templateOffer, setTemplateOffer] = useState<Offer | null>(null);
 
   const loadOffers = useCallback(async () => {
     if (!user) return;
@@ -42,24 +55,22 @@ export default function CompanyOffers() {
       setError(null);
       setLoading(true);
 
-      const { data: company, error: companyError } = await supabase
-        .from('companies')
-        .select('id')
-        .eq('profile_id', user.id)
-        .maybeSingle();
+      const membership = await getMyCompanyMembership(user.id);
 
-      if (companyError) {
-        throw new Error(`Failed to load company: ${companyError.message}`);
-      }
-
-      if (!company) {
+      if (!membership) {
         throw new Error('Company profile not found');
       }
+      setIsAdmin(membership.role === 'admin');
+      setCompanyId(membership.company_id);
+      setTemplates(await getOfferTemplates(membership.company_id));
+
+      const funnelData = await getOfferFunnel(membership.company_id);
+      setFunnels(Object.fromEntries(funnelData.map((f) => [f.offer_id, f])));
 
       const { data: offersData, error: offersError } = await supabase
         .from('offers')
         .select('*')
-        .eq('company_id', company.id)
+        .eq('company_id', membership.company_id)
         .order('created_at', { ascending: false });
 
       if (offersError) {
@@ -176,6 +187,30 @@ export default function CompanyOffers() {
     }
   };
 
+  const loadTemplates = async () => {
+    if (!companyId) return;
+    try {
+      setTemplates(await getOfferTemplates(companyId));
+    } catch (err) {
+      console.error('Error loading offer templates:', err);
+    }
+  };
+
+  const handleDeleteTemplate = async (template: OfferTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"? Offers created from it are not affected.`)) {
+      return;
+    }
+
+    try {
+      await deleteOfferTemplate(template.id);
+      setTemplates((prev) => prev.filter((t) => t.id !== template.id));
+      showSuccess('Template deleted');
+    } catch (err: any) {
+      console.error('Error deleting offer template:', err);
+      showError(err.message || 'Failed to delete template.');
+    }
+  };
+
   const filteredOffers = useMemo(() => {
     const query = searchQuery.toLowerCase().trim();
     return offers.filter((offer) => {
@@ -233,16 +268,18 @@ export default function CompanyOffers() {
                   Manage Offers
                 </h1>
                 <p className="text-white/70">
-                  Create and manage your job postings
+                  {isAdmin ? 'Create and manage your job postings' : 'Your company\'s job postings'}
                 </p>
               </div>
-              <Link
-                to="/company/offers/new"
-                className="inline-flex items-center justify-center gap-2 px-6 py-3 bg-white text-gray-900 rounded-lg hover:bg-gray-100 transition-all font-semibold"
-              >
-                <Plus className="w-4 h-4" />
-                Create Offer
-              </Link>
+              {isAdmin && (
+                <Link
+                  to="/company/offers/new"
+                  className="inline-flex items-center justify-center gap-2 px-6 py-3 bg-white text-gray-900 rounded-lg hover:bg-gray-100 transition-all font-semibold"
+                >
+                  <Plus className="w-4 h-4" />
+                  Create Offer
+                </Link>
+              )}
             </div>
 
             {/* Stats Grid */}
@@ -312,11 +349,13 @@ export default function CompanyOffers() {
             title={offers.length === 0 ? 'No offers yet' : 'No offers match your filters'}
             message={
               offers.length === 0
-                ? 'Create your first offer to start recruiting.'
+                ? isAdmin
+                  ? 'Create your first offer to start recruiting.'
+                  : 'Your company admins have not published any offers yet.'
                 : 'Try adjusting your search or filters to see more results.'
             }
             action={
-              offers.length === 0 ? (
+              offers.length === 0 && isAdmin ? (
                 <Link
                   to="/company/offers/new"
                   className="inline-flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors text-sm font-medium"
@@ -361,40 +400,112 @@ export default function CompanyOffers() {
                       {offer.remote_possible && <span>🏠 Remote</span>}
                       <span>📊 {offer.bookings_count} booking{offer.bookings_count !== 1 ? 's' : ''}</span>
                     </div>
+                    {funnels[offer.id] && <OfferFunnelStats funnel={funnels[offer.id]} />}
                   </div>
                   <div className="flex items-center gap-2">
-                    <button
-                      onClick={() => toggleOfferStatus(offer.id, offer.is_active)}
-                      disabled={togglingId === offer.id}
-                      className={`p-2 text-muted-foreground hover:text-foreground hover:bg-background rounded-lg transition-colors ${
-                        togglingId === offer.id ? 'opacity-50 cursor-not-allowed' : ''
-                      }`}
-                      title={offer.is_active ? 'Deactivate' : 'Activate'}
-                    >
-                      {offer.is_active ? <ToggleRight className="w-5 h-5" /> : <ToggleLeft className="w-5 h-5" />}
-                    </button>
                     <Link
-                      to={`/company/offers/${offer.id}/edit`}
+                      to={`/company/offers/${offer.id}/candidates`}
                       className="p-2 text-muted-foreground hover:text-foreground hover:bg-background rounded-lg transition-colors"
-                      title="Edit"
+                      title="Candidates"
                     >
-                      <Edit className="w-5 h-5" />
+                      <ListOrdered className="w-5 h-5" />
                     </Link>
-                    <button
-                      onClick={() => deleteOffer(offer.id)}
-                      className="p-2 text-muted-foreground hover:text-red-600 hover:bg-red-500/10 rounded-lg transition-colors"
-                      title="Delete"
-                    >
-                      <Trash2 className="w-5 h-5" />
-                    </button>
+                    {isAdmin && (
+                      <>
+                        <button
+                          onClick={() => toggleOfferStatus(offer.id, offer.is_active)}
+                          disabled={togglingId === offer.id}
+                          className={`p-2 text-muted-foreground hover:text-foreground hover:bg-background rounded-lg transition-colors ${
+                            togglingId === offer.id ? 'opacity-50 cursor-not-allowed' : ''
+                          }`}
+                          title={offer.is_active ? 'Deactivate' : 'Activate'}
+                        >
+                          {offer.is_active ? <ToggleRight className="w-5 h-5" /> : <ToggleLeft className="w-5 h-5" />}
+                        </button>
+                        <Link
+                          to={`/company/offers/${offer.id}/edit`}
+                          className="p-2 text-muted-foreground hover:text-foreground hover:bg-background rounded-lg transition-colors"
+                          title="Edit"
+                        >
+                          <Edit className="w-5 h-5" />
+                        </Link>
+                        <button
+                          onClick={() => setDuplicatingOffer(offer)}
+                          className="p-2 text-muted-foreground hover:text-foreground hover:bg-background rounded-lg transition-colors"
+                          title="Duplicate to event"
+                        >
+                          <Copy className="w-5 h-5" />
+                        </button>
+                        <button
+                          onClick={() => setTemplateOffer(offer)}
+                          className="p-2 text-muted-foreground hover:text-foreground hover:bg-background rounded-lg transition-colors"
+                          title="Save as template"
+                        >
+                          <BookmarkPlus className="w-5 h-5" />
+                        </button>
+                        <button
+                          onClick={() => deleteOffer(offer.id)}
+                          className="p-2 text-muted-foreground hover:text-red-600 hover:bg-red-500/10 rounded-lg transition-colors"
+                          title="Delete"
+                        >
+                          <Trash2 className="w-5 h-5" />
+                        </button>
+                      </>
+                    )}
                   </div>
                 </div>
               </div>
             ))}
           </div>
         )}
+
+          {/* Templates */}
+          {isAdmin && templates.length > 0 && (
+            <div className="bg-white rounded-lg border border-gray-200 p-6">
+              <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2 mb-1">
+                <FileText className="w-5 h-5 text-[#007e40]" />
+                Offer Templates
+              </h2>
+              <p className="text-sm text-gray-600 mb-4">
+                Pick a template when creating an offer to start from its content.
+              </p>
+              <div className="divide-y divide-gray-200">
+                {templates.map((template) => (
+                  <div key={template.id} className="flex items-center justify-between gap-4 py-3">
+                    <div>
+                      <p className="font-medium text-gray-900">{template.name}</p>
+                      <p className="text-sm text-gray-500">{template.title}</p>
+                    </div>
+                    <button
+                      onClick={() => handleDeleteTemplate(template)}
+                      className="p-2 text-muted-foreground hover:text-red-600 hover:bg-red-500/10 rounded-lg transition-colors"
+                      title="Delete template"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       </div>
+
+      {duplicatingOffer && (
+        <DuplicateOfferModal
+          offer={duplicatingOffer}
+          activeEventsOnly
+          onClose={() => setDuplicatingOffer(null)}
+          onDuplicated={loadOffers}
+        />
+      )}
+      {templateOffer && (
+        <SaveOfferTemplateModal
+          offer={templateOffer}
+          onClose={() => setTemplateOffer(null)}
+          onSaved={loadTemplates}
+        />
+      )}
     </CompanyLayout>
   );
 }
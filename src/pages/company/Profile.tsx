@@ -12,9 +12,12 @@ import { useAuth } from '@/hooks/useAuth';
 import { exportUserData, downloadUserDataAsCsv } from '@/utils/dataExport';
 import ImageUpload from '@/components/shared/ImageUpload';
 import { uploadLogo } from '@/utils/fileUpload';
+import TeamManager from '@/components/company/TeamManager';
+import { getMyCompanyMembership, type CompanyRole } from '@/utils/companyTeam';
 
 type CompanyProfile = {
   id: string;
+  profile_id: string | null;
   company_name: string;
   industry: string | null;
   description: string | null;
@@ -39,6 +42,8 @@ export default function CompanyProfile() {
   const [exportingData, setExportingData] = useState(false);
   const [logoFile, setLogoFile] = useState<File | null>(null);
   const [uploadingLogo, setUploadingLogo] = useState(false);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [role, setRole] = useState<CompanyRole | null>(null);
   const navigate = useNavigate();
   const { showSuccess, showError } = useToast();
 
@@ -54,10 +59,17 @@ export default function CompanyProfile() {
         return;
       }
 
+      const membership = await getMyCompanyMembership(user.id);
+      if (!membership) {
+        throw new Error('Company profile not found.');
+      }
+      setUserId(user.id);
+      setRole(membership.role);
+
       const { data: company, error: companyError } = await supabase
         .from('companies')
         .select('*')
-        .eq('profile_id', user.id)
+        .eq('id', membership.company_id)
         .single();
 
       if (companyError) {
@@ -306,6 +318,9 @@ export default function CompanyProfile() {
     return null;
   }
 
+  const isAdmin = role === 'admin';
+  const isOwner = profile.profile_id === userId;
+
   return (
     <CompanyLayout onSignOut={signOut}>
       <div className="p-6 md:p-8">
@@ -322,8 +337,15 @@ export default function CompanyProfile() {
             </div>
           )}
 
+          {!isAdmin && (
+            <p className="text-sm text-muted-foreground">
+              Only company admins can edit the company profile.
+            </p>
+          )}
+
           <div className="bg-card rounded-xl border border-border p-6">
           <div className="space-y-6">
+            <fieldset disabled={!isAdmin} className="space-y-6">
             {/* Company Logo Upload */}
             <div>
               <label className="block text-sm font-medium text-foreground mb-2">
@@ -469,6 +491,7 @@ export default function CompanyProfile() {
                 />
               </div>
             </div>
+            </fieldset>
 
             <div className="flex justify-between items-center pt-4 border-t border-border">
               <button
@@ -479,22 +502,24 @@ export default function CompanyProfile() {
                 <Download className="w-4 h-4" />
                 {exportingData ? 'Exporting...' : 'Download My Data (GDPR)'}
               </button>
-              <div className="flex gap-3">
-                <Link
-                  to="/company"
-                  className="px-6 py-2 text-sm font-medium text-muted-foreground hover:text-foreground transition-colors"
-                >
-                  Cancel
-                </Link>
-                <button
-                  onClick={handleSave}
-                  disabled={saving || uploadingLogo}
-                  className="flex items-center gap-2 px-6 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors text-sm font-medium disabled:opacity-50"
-                >
-                  <Save className="w-4 h-4" />
-                  {saving || uploadingLogo ? (uploadingLogo ? 'Uploading logo...' : 'Saving...') : 'Save Changes'}
-                </button>
-              </div>
+              {isAdmin && (
+                <div className="flex gap-3">
+                  <Link
+                    to="/company"
+                    className="px-6 py-2 text-sm font-medium text-muted-foreground hover:text-foreground transition-colors"
+                  >
+                    Cancel
+                  </Link>
+                  <button
+                    onClick={handleSave}
+                    disabled={saving || uploadingLogo}
+                    className="flex items-center gap-2 px-6 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors text-sm font-medium disabled:opacity-50"
+                  >
+                    <Save className="w-4 h-4" />
+                    {saving || uploadingLogo ? (uploadingLogo ? 'Uploading logo...' : 'Saving...') : 'Save Changes'}
+                  </button>
+                </div>
+              )}
             </div>
 
             {/* Account Deletion Section - GDPR Compliance */}
@@ -504,17 +529,26 @@ export default function CompanyProfile() {
                   <AlertTriangle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
                   <div className="flex-1">
                     <h3 className="text-lg font-semibold text-foreground mb-2">Delete Account</h3>
-                    <p className="text-sm text-muted-foreground mb-4">
-                      Permanently delete your company account and all associated data. This action cannot be undone.
-                      <br />
-                      <span className="font-medium text-foreground">This will delete:</span>
-                    </p>
-                    <ul className="text-sm text-muted-foreground space-y-1 mb-4 list-disc list-inside">
-                      <li>Your company profile and information</li>
-                      <li>All your offers and job postings</li>
-                      <li>All your event slots and bookings</li>
-                      <li>All other account-related data</li>
-                    </ul>
+                    {isOwner ? (
+                      <>
+                        <p className="text-sm text-muted-foreground mb-4">
+                          Permanently delete your company account and all associated data. This action cannot be undone.
+                          <br />
+                          <span className="font-medium text-foreground">This will delete:</span>
+                        </p>
+                        <ul className="text-sm text-muted-foreground space-y-1 mb-4 list-disc list-inside">
+                          <li>Your company profile and information</li>
+                          <li>All your offers and job postings</li>
+                          <li>All your event slots and bookings</li>
+                          <li>All other account-related data</li>
+                        </ul>
+                      </>
+                    ) : (
+                      <p className="text-sm text-muted-foreground mb-4">
+                        Permanently delete your recruiter account. The company profile, offers and interviews
+                        stay with your team. This action cannot be undone.
+                      </p>
+                    )}
                   </div>
                 </div>
 
@@ -565,6 +599,8 @@ export default function CompanyProfile() {
             </div>
           </div>
         </div>
+
+          {isAdmin && userId && <TeamManager companyId={profile.id} currentUserId={userId} />}
         </div>
       </div>
     </CompanyLayout>
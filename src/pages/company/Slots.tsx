@@ -2,19 +2,30 @@ import { useState, useEffect, useMemo } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { supabase } from '@/lib/supabase';
 import { useToast } from '@/contexts/ToastContext';
-import { Calendar, Clock, MapPin, Users, CheckCircle2, TrendingUp } from 'lucide-react';
+import { Calendar, Clock, MapPin, Users, CheckCircle2, TrendingUp, QrCode, UserCheck, UserX, Download, ClipboardCheck, UserCog } from 'lucide-react';
 import { extractFirstFromNested } from '@/utils/supabaseTypes';
 import LoadingScreen from '@/components/shared/LoadingScreen';
 import ErrorDisplay from '@/components/shared/ErrorDisplay';
 import EmptyState from '@/components/shared/EmptyState';
 import CompanyLayout from '@/components/company/CompanyLayout';
+import CheckInScanner from '@/components/company/CheckInScanner';
+import ScorecardModal from '@/components/company/ScorecardModal';
+import CalendarFeedCard from '@/components/shared/CalendarFeedCard';
 import { useAuth } from '@/hooks/useAuth';
 import { warn as logWarn, error as logError } from '@/utils/logger';
+import { buildCalendar, downloadCalendar, getMyCalendarEntries } from '@/utils/calendarExport';
+import { DEFAULT_EVENT_TIMEZONE, formatDate, formatTime } from '@/utils/dateUtils';
+import ViewerTimeHint from '@/components/shared/ViewerTimeHint';
+import { assignSlotInterviewer, getMyCompanyMembership, getTeam, type TeamMember } from '@/utils/companyTeam';
+import { parseScreeningAnswers, type ScreeningAnswer } from '@/utils/screeningQuestions';
+import ScreeningAnswersList from '@/components/company/ScreeningAnswersList';
 
 type Booking = {
   id: string;
   student_id: string;
   offer_id: string;
+  attended: boolean | null;
+  screening_answers: ScreeningAnswer[];
   profiles: {
     full_name: string;
   };
@@ -32,10 +43,12 @@ type Slot = {
   event_id: string;
   event_name: string;
   event_date: string;
+  event_timezone: string;
   bookings: Booking[];
   bookings_count: number;
   is_active: boolean;
   offer_id: string | null;
+  interviewer_id: string | null;
 };
 
 export default function CompanySlots() {
@@ -43,8 +56,20 @@ export default function CompanySlots() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
   const [slots, setSlots] = useState<Slot[]>([]);
+  const [scannerEvent, setScannerEvent] = useState<{ id: string; name: string } | null>(null);
+  const [markingBookingId, setMarkingBookingId] = useState<string | null>(null);
+  const [exportingEventId, setExportingEventId] = useState<string | null>(null);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [team, setTeam] = useState<TeamMember[]>([]);
+  const [assigningSlotId, setAssigningSlotId] = useState<string | null>(null);
+  const [scoringBooking, setScoringBooking] = useState<{
+    bookingId: string;
+    offerId: string;
+    studentName: string;
+    offerTitle: string;
+  } | null>(null);
   const navigate = useNavigate();
-  const { showError } = useToast();
+  const { showError, showSuccess } = useToast();
 
   // Calculate statistics - moved to top level to avoid hooks order violation
   const stats = useMemo(() => {
@@ -81,24 +106,22 @@ export default function CompanySlots() {
         return;
       }
 
-      const { data: company, error: companyError } = await supabase
-        .from('companies')
-        .select('id')
-        .eq('profile_id', user.id)
-        .maybeSingle();
+      const membership = await getMyCompanyMembership(user.id);
 
-      if (companyError) {
-        throw new Error(`Failed to load company: ${companyError.message}`);
-      }
-
-      if (!company) {
+      if (!membership) {
         setSlots([]);
         setLoading(false);
         return;
       }
 
-      // Get all slots for this company
-      const { data: eventSlots, error: slotsError } = await supabase
+      const canManage = membership.role === 'admin';
+      setIsAdmin(canManage);
+      if (canManage) {
+        setTeam(await getTeam(membership.company_id));
+      }
+
+      // Company admins see every slot of the company, interviewers the slots assigned to them
+      let slotsQuery = supabase
         .from('event_slots')
         .select(`
           id,
@@ -108,9 +131,14 @@ export default function CompanySlots() {
           capacity,
           is_active,
           event_id,
-          offer_id
+          offer_id,
+          interviewer_id
         `)
-        .eq('company_id', company.id);
+        .eq('company_id', membership.company_id);
+      if (!canManage) {
+        slotsQuery = slotsQuery.eq('interviewer_id', user.id);
+      }
+      const { data: eventSlots, error: slotsError } = await slotsQuery;
 
       if (slotsError) {
         throw new Error(`Failed to load slots: ${slotsError.message}`);
@@ -123,7 +151,7 @@ export default function CompanySlots() {
       const eventIds = [...new Set(eventSlots.map(s => s.event_id).filter((id): id is string => id !== null))];
       const { data: events } = await supabase
         .from('events')
-        .select('id, name, date')
+        .select('id, name, date, timezone')
         .in('id', eventIds);
 
       const eventMap = new Map(events?.map(e => [e.id, e]) || []);
@@ -165,6 +193,8 @@ export default function CompanySlots() {
                 .select(`
                   id,
                   student_id,
+                  attended,
+                  booking_screening_answers(answers),
                   profiles!inner(id, full_name, email, phone)
                 `)
                 .eq('slot_id', slot.id)
@@ -186,6 +216,8 @@ export default function CompanySlots() {
               id: b.id,
               student_id: b.student_id,
               offer_id: slot.offer_id || '',
+              attended: b.attended,
+              screening_answers: parseScreeningAnswers(b.booking_screening_answers),
               profiles: {
                 full_name: profile.full_name
               },
@@ -205,9 +237,11 @@ export default function CompanySlots() {
             event_id: slot.event_id,
             event_name: event?.name || 'Unknown Event',
             event_date: event?.date || '',
+            event_timezone: event?.timezone || DEFAULT_EVENT_TIMEZONE,
             bookings: bookingsWithOffers || [],
             bookings_count: bookingsWithOffers?.length || 0,
             offer_id: slot.offer_id || null,
+            interviewer_id: slot.interviewer_id || null,
           };
         })
       );
@@ -230,6 +264,75 @@ export default function CompanySlots() {
     }
   };
 
+  const markAttendedLocally = (bookingId: string, attended: boolean | null) => {
+    setSlots((prev) => prev.map((slot) => ({
+      ...slot,
+      bookings: slot.bookings.map((b) => (b.id === bookingId ? { ...b, attended } : b))
+    })));
+  };
+
+  const handleSetAttendance = async (bookingId: string, attended: boolean | null) => {
+    try {
+      setMarkingBookingId(bookingId);
+      const { data, error: attendanceError } = await supabase.rpc('fn_set_booking_attendance', {
+        p_booking_id: bookingId,
+        p_attended: attended
+      });
+
+      if (attendanceError) throw attendanceError;
+
+      const result = data?.[0];
+      if (!result?.success) {
+        showError(result?.message || 'Failed to update attendance');
+        return;
+      }
+
+      markAttendedLocally(bookingId, attended);
+      showSuccess(result.message);
+    } catch (err: any) {
+      logError('Error updating attendance:', err);
+      showError('Failed to update attendance. Please try again.');
+    } finally {
+      setMarkingBookingId(null);
+    }
+  };
+
+  const handleAssignInterviewer = async (slotId: string, interviewerId: string | null) => {
+    try {
+      setAssigningSlotId(slotId);
+      await assignSlotInterviewer(slotId, interviewerId);
+      setSlots((prev) => prev.map((slot) => (
+        slot.id === slotId ? { ...slot, interviewer_id: interviewerId } : slot
+      )));
+      showSuccess(interviewerId ? 'Interviewer assigned' : 'Interviewer unassigned');
+    } catch (err: any) {
+      logError('Error assigning interviewer:', err);
+      showError(err instanceof Error ? err.message : 'Failed to assign the interviewer');
+    } finally {
+      setAssigningSlotId(null);
+    }
+  };
+
+  const handleDownloadSchedule = async (eventId: string, eventName: string) => {
+    try {
+      setExportingEventId(eventId);
+      const entries = await getMyCalendarEntries({ eventId });
+
+      if (entries.length === 0) {
+        showError('No interview slots to export for this event');
+        return;
+      }
+
+      const slug = eventName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+      downloadCalendar(buildCalendar(entries, eventName), `schedule-${slug || 'event'}.ics`);
+    } catch (err: any) {
+      logError('Error exporting schedule:', err);
+      showError('Failed to create the calendar file. Please try again.');
+    } finally {
+      setExportingEventId(null);
+    }
+  };
+
   if (loading) {
     return <LoadingScreen message="Loading slots..." />;
   }
@@ -267,7 +370,9 @@ export default function CompanySlots() {
               Interview Schedule
             </h1>
             <p className="text-white/70">
-              Manage and monitor your interview time slots
+              {isAdmin
+                ? 'Manage and monitor your interview time slots'
+                : 'The interview slots assigned to you'}
             </p>
 
             {/* Stats Grid */}
@@ -340,16 +445,20 @@ export default function CompanySlots() {
             <EmptyState
               icon={Calendar}
               title="No Interview Slots"
-              message="You haven't created any interview slots yet. Create slots through the Offers section when setting up your offers."
+              message={isAdmin
+                ? "You haven't created any interview slots yet. Create slots through the Offers section when setting up your offers."
+                : 'No interview slots are assigned to you yet. Your company admins assign slots to interviewers.'}
               className="bg-white rounded-lg border border-gray-200 p-12"
             />
           ) : (
             <div className="space-y-8">
+              <CalendarFeedCard />
+
               {/* Group slots by event */}
               {Array.from(new Set(slots.map(s => s.event_id))).map(eventId => {
                 const eventSlots = slots.filter(s => s.event_id === eventId)
                 const firstSlot = eventSlots[0]
-                const eventDate = new Date(firstSlot.event_date)
+                const eventZone = { timezone: firstSlot.event_timezone }
                 
                 return (
                   <div key={eventId} className="bg-white rounded-lg border border-gray-200 shadow-sm overflow-hidden">
@@ -364,18 +473,32 @@ export default function CompanySlots() {
                             <h2 className="text-xl font-bold text-white mb-1">{firstSlot.event_name}</h2>
                             <div className="flex items-center gap-4 text-sm text-white/80">
                               <span>
-                                {eventDate.toLocaleDateString('en-US', {
-                                  weekday: 'long',
-                                  year: 'numeric',
-                                  month: 'long',
-                                  day: 'numeric'
-                                })}
+                                {formatDate(firstSlot.event_date)}
                               </span>
                               <span className="text-white/60">•</span>
                               <span>{eventSlots.length} slot{eventSlots.length !== 1 ? 's' : ''}</span>
+                              <span className="text-white/60">•</span>
+                              <span>Times in {firstSlot.event_timezone.replace(/_/g, ' ')}</span>
                             </div>
                           </div>
                         </div>
+                        <div className="flex flex-col sm:flex-row gap-2 flex-shrink-0">
+                          <button
+                            onClick={() => handleDownloadSchedule(eventId, firstSlot.event_name)}
+                            disabled={exportingEventId === eventId}
+                            className="flex items-center gap-2 px-4 py-2 bg-white/10 text-white text-sm font-medium rounded-lg hover:bg-white/20 transition-colors disabled:opacity-50"
+                          >
+                            <Download className="w-4 h-4" />
+                            Download schedule (.ics)
+                          </button>
+                          <button
+                            onClick={() => setScannerEvent({ id: eventId, name: firstSlot.event_name })}
+                            className="flex items-center gap-2 px-4 py-2 bg-[#007e40] text-white text-sm font-medium rounded-lg hover:bg-[#006633] transition-colors"
+                          >
+                            <QrCode className="w-4 h-4" />
+                            Check in students
+                          </button>
+                        </div>
                       </div>
                     </div>
 
@@ -434,11 +557,9 @@ export default function CompanySlots() {
                                   </div>
                                   <div>
                                     <p className="text-lg font-bold text-foreground">
-                                      {startTime.toLocaleTimeString('en-US', {
-                                        hour: '2-digit',
-                                        minute: '2-digit'
-                                      })}
+                                      {formatTime(slot.start_time, eventZone)}
                                     </p>
+                                    <ViewerTimeHint value={slot.start_time} event={eventZone} withDate />
                                     <p className="text-xs text-muted-foreground">
                                       {duration} minutes
                                     </p>
@@ -453,6 +574,25 @@ export default function CompanySlots() {
                                   </div>
                                 )}
 
+                                {/* Interviewer */}
+                                {isAdmin && (
+                                  <div className="flex items-center gap-2 mb-4 text-sm text-muted-foreground">
+                                    <UserCog className="w-4 h-4 flex-shrink-0" />
+                                    <select
+                                      value={slot.interviewer_id || ''}
+                                      onChange={(e) => handleAssignInterviewer(slot.id, e.target.value || null)}
+                                      disabled={assigningSlotId === slot.id}
+                                      className="flex-1 min-w-0 px-2 py-1 bg-white border border-gray-200 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-[#007e40] disabled:opacity-50"
+                                      aria-label="Interviewer"
+                                    >
+                                      <option value="">No interviewer assigned</option>
+                                      {team.map((member) => (
+                                        <option key={member.profile_id} value={member.profile_id}>{member.full_name}</option>
+                                      ))}
+                                    </select>
+                                  </div>
+                                )}
+
                                 {/* Bookings List */}
                                 {slot.bookings.length > 0 && (
                                   <div className="mb-4 space-y-2">
@@ -464,25 +604,77 @@ export default function CompanySlots() {
                                       const initials = getInitials(studentName)
                                       
                                       return (
-                                        <Link
-                                          key={booking.id}
-                                          to={`/company/students/${booking.student_id}`}
-                                          className="flex items-center gap-3 p-2.5 bg-background/60 hover:bg-background rounded-lg transition-colors group/item"
-                                        >
-                                          <div className="w-8 h-8 bg-primary/20 rounded-full flex items-center justify-center flex-shrink-0">
-                                            <span className="text-xs font-semibold text-primary">{initials}</span>
-                                          </div>
-                                          <div className="flex-1 min-w-0">
-                                            <p className="text-sm font-medium text-foreground group-hover/item:text-primary transition-colors truncate">
-                                              {studentName}
-                                            </p>
-                                            {booking.offers?.title && (
-                                              <p className="text-xs text-muted-foreground truncate">
-                                                {booking.offers.title}
+                                        <div key={booking.id} className="p-2.5 bg-background/60 rounded-lg">
+                                          <Link
+                                            to={`/company/students/${booking.student_id}`}
+                                            className="flex items-center gap-3 hover:bg-background rounded-lg transition-colors group/item"
+                                          >
+                                            <div className="w-8 h-8 bg-primary/20 rounded-full flex items-center justify-center flex-shrink-0">
+                                              <span className="text-xs font-semibold text-primary">{initials}</span>
+                                            </div>
+                                            <div className="flex-1 min-w-0">
+                                              <p className="text-sm font-medium text-foreground group-hover/item:text-primary transition-colors truncate">
+                                                {studentName}
                                               </p>
+                                              {booking.offers?.title && (
+                                                <p className="text-xs text-muted-foreground truncate">
+                                                  {booking.offers.title}
+                                                </p>
+                                              )}
+                                            </div>
+                                            {booking.attended === true && (
+                                              <span className="px-2 py-0.5 bg-green-100 text-green-700 text-xs font-semibold rounded-full flex-shrink-0">
+                                                Checked in
+                                              </span>
+                                            )}
+                                            {booking.attended === false && (
+                                              <span className="px-2 py-0.5 bg-red-100 text-red-700 text-xs font-semibold rounded-full flex-shrink-0">
+                                                No-show
+                                              </span>
+                                            )}
+                                          </Link>
+                                          <div className="flex items-center gap-2 mt-2 pl-11">
+                                            <button
+                                              onClick={() => handleSetAttendance(booking.id, booking.attended === true ? null : true)}
+                                              disabled={markingBookingId === booking.id}
+                                              className={`flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-md border transition-colors disabled:opacity-50 ${
+                                                booking.attended === true
+                                                  ? 'bg-green-600 border-green-600 text-white'
+                                                  : 'border-gray-200 text-gray-700 hover:border-green-600 hover:text-green-700'
+                                              }`}
+                                            >
+                                              <UserCheck className="w-3.5 h-3.5" />
+                                              Present
+                                            </button>
+                                            <button
+                                              onClick={() => handleSetAttendance(booking.id, booking.attended === false ? null : false)}
+                                              disabled={markingBookingId === booking.id}
+                                              className={`flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-md border transition-colors disabled:opacity-50 ${
+                                                booking.attended === false
+                                                  ? 'bg-red-600 border-red-600 text-white'
+                                                  : 'border-gray-200 text-gray-700 hover:border-red-600 hover:text-red-700'
+                                              }`}
+                                            >
+                                              <UserX className="w-3.5 h-3.5" />
+                                              No-show
+                                            </button>
+                                            {slot.offer_id && new Date(slot.start_time) <= new Date() && (
+                                              <button
+                                                onClick={() => setScoringBooking({
+                                                  bookingId: booking.id,
+                                                  offerId: slot.offer_id as string,
+                                                  studentName,
+                                                  offerTitle: booking.offers?.title || 'Interview'
+                                                })}
+                                                className="flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-md border border-gray-200 text-gray-700 hover:border-primary hover:text-primary transition-colors"
+                                              >
+                                                <ClipboardCheck className="w-3.5 h-3.5" />
+                                                Scorecard
+                                              </button>
                                             )}
                                           </div>
-                                        </Link>
+                                          <ScreeningAnswersList answers={booking.screening_answers} className="mt-2 pl-11" />
+                                        </div>
                                       )
                                     })}
                                   </div>
@@ -527,6 +719,25 @@ export default function CompanySlots() {
           )}
         </div>
       </div>
+
+      {scannerEvent && (
+        <CheckInScanner
+          eventId={scannerEvent.id}
+          eventName={scannerEvent.name}
+          onClose={() => setScannerEvent(null)}
+          onCheckedIn={(bookingId) => markAttendedLocally(bookingId, true)}
+        />
+      )}
+
+      {scoringBooking && (
+        <ScorecardModal
+          bookingId={scoringBooking.bookingId}
+          offerId={scoringBooking.offerId}
+          studentName={scoringBooking.studentName}
+          offerTitle={scoringBooking.offerTitle}
+          onClose={() => setScoringBooking(null)}
+        />
+      )}
     </CompanyLayout>
   )
 }
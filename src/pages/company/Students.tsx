@@ -1,15 +1,30 @@
 import { useCallback, useEffect, useMemo, useState } from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useSearchParams } from 'react-router-dom';
 import { supabase } from '@/lib/supabase';
-import { Search, Users, FileText, Filter } from 'lucide-react';
+import { Search, Users, FileText, Filter, Kanban, List, Settings2, UserPlus, Download, Sparkles, Mail, Send } from 'lucide-react';
 import { useToast } from '@/contexts/ToastContext';
 import LoadingScreen from '@/components/shared/LoadingScreen';
 import ErrorDisplay from '@/components/shared/ErrorDisplay';
 import EmptyState from '@/components/shared/EmptyState';
 import Pagination from '@/components/shared/Pagination';
 import CompanyLayout from '@/components/company/CompanyLayout';
+import PipelineBoard from '@/components/company/pipeline/PipelineBoard';
+import PipelineStagesModal from '@/components/company/pipeline/PipelineStagesModal';
+import CvBookModal from '@/components/company/CvBookModal';
+import TalentDirectory from '@/components/company/TalentDirectory';
+import InvitationsList from '@/components/company/InvitationsList';
+import InviteStudentModal from '@/components/company/InviteStudentModal';
 import { useAuth } from '@/hooks/useAuth';
 import { error as logError } from '@/utils/logger';
+import { formatDate } from '@/utils/dateUtils';
+import {
+  getPipelineEvents,
+  getPipelineStages,
+  moveCandidates,
+  type PipelineEvent,
+  type PipelineStage
+} from '@/utils/pipeline';
+import { getMyCompanyMembership } from '@/utils/companyTeam';
 
 type StudentBooking = {
   booking_id: string | null;
@@ -33,7 +48,8 @@ type StudentBooking = {
 
 export default function CompanyStudents() {
   const { user, loading: authLoading, signOut } = useAuth('company');
-  const { showError } = useToast();
+  const { showError, showSuccess } = useToast();
+  const [searchParams] = useSearchParams();
   const [loading, setLoading] = useState(true);
   const [students, setStudents] = useState<StudentBooking[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
@@ -42,6 +58,23 @@ export default function CompanyStudents() {
   const [filterGraduationYear, setFilterGraduationYear] = useState<string>('all');
   const [error, setError] = useState<Error | null>(null);
   const [profiles, setProfiles] = useState<any[]>([]);
+  const [view, setView] = useState<'directory' | 'pipeline' | 'talent' | 'invitations'>(() => {
+    const requested = searchParams.get('view');
+    return requested === 'pipeline' || requested === 'talent' || requested === 'invitations' ? requested : 'directory';
+  });
+  const [companyId, setCompanyId] = useState<string | null>(null);
+  const [isCompanyAdmin, setIsCompanyAdmin] = useState(false);
+  const [pipelineEvents, setPipelineEvents] = useState<PipelineEvent[]>([]);
+  const [pipelineEventId, setPipelineEventId] = useState('');
+  const [stages, setStages] = useState<PipelineStage[]>([]);
+  const [selectedStudentIds, setSelectedStudentIds] = useState<Set<string>>(new Set());
+  const [addStageId, setAddStageId] = useState('');
+  const [adding, setAdding] = useState(false);
+  const [showStagesModal, setShowStagesModal] = useState(false);
+  const [showCvBookModal, setShowCvBookModal] = useState(false);
+  const [pipelineRefreshKey, setPipelineRefreshKey] = useState(0);
+  const [inviteStudent, setInviteStudent] = useState<{ id: string; name: string } | null>(null);
+  const [invitationsRefreshKey, setInvitationsRefreshKey] = useState(0);
   
   // Pagination state
   const [currentPage, setCurrentPage] = useState(1);
@@ -74,19 +107,18 @@ export default function CompanyStudents() {
       setProfiles(profilesData);
 
       // Get company info for bookings (optional - to show if they have booked with you)
-      const { data: company } = await supabase
-        .from('companies')
-        .select('id')
-        .eq('profile_id', user.id)
-        .maybeSingle();
+      const membership = await getMyCompanyMembership(user.id);
+
+      setCompanyId(membership?.company_id ?? null);
+      setIsCompanyAdmin(membership?.role === 'admin');
 
       // Get bookings info if company exists
       let bookingsMap = new Map<string, { booking_id: string; slot_time: string; offer_title: string }>();
-      if (company) {
+      if (membership) {
         const { data: slots } = await supabase
           .from('event_slots')
           .select('id, start_time, offer_id')
-          .eq('company_id', company.id);
+          .eq('company_id', membership.company_id);
 
         if (slots && slots.length > 0) {
           const slotIds = slots.map(s => s.id);
@@ -167,6 +199,58 @@ export default function CompanyStudents() {
     }
   }, [authLoading, loadStudents]);
 
+  const loadStages = useCallback(async () => {
+    if (!companyId) return;
+    try {
+      setStages(await getPipelineStages(companyId));
+    } catch (err) {
+      logError('Error loading pipeline stages:', err);
+    }
+  }, [companyId]);
+
+  useEffect(() => {
+    if (!companyId) return;
+    loadStages();
+    getPipelineEvents(companyId)
+      .then((events) => {
+        setPipelineEvents(events);
+        setPipelineEventId((current) => current || events[0]?.id || '');
+      })
+      .catch((err) => logError('Error loading pipeline events:', err));
+  }, [companyId, loadStages]);
+
+  const toggleStudentSelected = (studentId: string) => {
+    setSelectedStudentIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(studentId)) {
+        next.delete(studentId);
+      } else {
+        next.add(studentId);
+      }
+      return next;
+    });
+  };
+
+  const handleAddToPipeline = async () => {
+    if (!pipelineEventId || !addStageId) return;
+    try {
+      setAdding(true);
+      const result = await moveCandidates(pipelineEventId, [...selectedStudentIds], addStageId);
+      if (!result.success) {
+        showError(result.message);
+        return;
+      }
+      showSuccess(result.message);
+      setSelectedStudentIds(new Set());
+      setPipelineRefreshKey((key) => key + 1);
+    } catch (err) {
+      logError('Error adding to pipeline:', err);
+      showError('Failed to add students to the pipeline. Please try again.');
+    } finally {
+      setAdding(false);
+    }
+  };
+
   const filteredStudents = useMemo(() => {
     let filtered = students;
 
@@ -309,6 +393,109 @@ export default function CompanyStudents() {
         {/* Main Content */}
         <div className="max-w-7xl mx-auto px-6 sm:px-8 lg:px-12 py-8 space-y-6">
 
+          {/* View Switch */}
+          {companyId && (
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div className="inline-flex bg-white border border-gray-200 rounded-lg p-1">
+                <button
+                  onClick={() => setView('directory')}
+                  className={`flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                    view === 'directory' ? 'bg-[#1a1f3a] text-white' : 'text-gray-700 hover:text-gray-900'
+                  }`}
+                >
+                  <List className="w-4 h-4" />
+                  Directory
+                </button>
+                <button
+                  onClick={() => setView('pipeline')}
+                  className={`flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                    view === 'pipeline' ? 'bg-[#1a1f3a] text-white' : 'text-gray-700 hover:text-gray-900'
+                  }`}
+                >
+                  <Kanban className="w-4 h-4" />
+                  Pipeline
+                </button>
+                <button
+                  onClick={() => setView('talent')}
+                  className={`flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                    view === 'talent' ? 'bg-[#1a1f3a] text-white' : 'text-gray-700 hover:text-gray-900'
+                  }`}
+                >
+                  <Sparkles className="w-4 h-4" />
+                  Talent directory
+                </button>
+                <button
+                  onClick={() => setView('invitations')}
+                  className={`flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                    view === 'invitations' ? 'bg-[#1a1f3a] text-white' : 'text-gray-700 hover:text-gray-900'
+                  }`}
+                >
+                  <Mail className="w-4 h-4" />
+                  Invitations
+                </button>
+              </div>
+              {pipelineEvents.length > 0 && (view === 'directory' || view === 'pipeline') && (
+                <div className="flex items-center gap-2">
+                  <label className="text-sm font-medium text-gray-700">Event</label>
+                  <select
+                    value={pipelineEventId}
+                    onChange={(e) => setPipelineEventId(e.target.value)}
+                    className="px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-[#007e40]"
+                  >
+                    {pipelineEvents.map((event) => (
+                      <option key={event.id} value={event.id}>
+                        {event.name} - {formatDate(event.date, { year: 'numeric', month: 'short', day: 'numeric' })}
+                      </option>
+                    ))}
+                  </select>
+                  {view === 'pipeline' ? isCompanyAdmin && (
+                    <button
+                      onClick={() => setShowStagesModal(true)}
+                      className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-200 rounded-lg hover:border-[#007e40] hover:text-[#007e40] transition-colors"
+                    >
+                      <Settings2 className="w-4 h-4" />
+                      Stages
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => setShowCvBookModal(true)}
+                      className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-200 rounded-lg hover:border-[#007e40] hover:text-[#007e40] transition-colors"
+                    >
+                      <Download className="w-4 h-4" />
+                      Download CV book
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          {view === 'talent' && companyId ? (
+            <TalentDirectory
+              companyId={companyId}
+              onInvite={(student) => setInviteStudent({ id: student.student_id, name: student.full_name })}
+            />
+          ) : view === 'invitations' && companyId ? (
+            <InvitationsList refreshKey={invitationsRefreshKey} />
+          ) : view === 'pipeline' && companyId ? (
+            pipelineEventId ? (
+              <PipelineBoard
+                companyId={companyId}
+                eventId={pipelineEventId}
+                stages={stages}
+                refreshKey={pipelineRefreshKey}
+              />
+            ) : (
+              <EmptyState
+                icon={Kanban}
+                title="No events yet"
+                message="The pipeline follows up candidates met at events your company took part in."
+                className="bg-white rounded-lg border border-gray-200"
+              />
+            )
+          ) : (
+          <>
+
           {/* Search and Filters */}
           <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-4">
             <div className="relative">
@@ -398,6 +585,40 @@ export default function CompanyStudents() {
             </div>
           </div>
 
+          {/* Add to Pipeline */}
+          {selectedStudentIds.size > 0 && (
+            <div className="bg-white rounded-lg border border-gray-200 p-4 flex flex-wrap items-center gap-3">
+              <UserPlus className="w-4 h-4 text-[#007e40]" />
+              <span className="text-sm font-medium text-gray-900">
+                Add {selectedStudentIds.size} student{selectedStudentIds.size !== 1 ? 's' : ''} to the pipeline of{' '}
+                {pipelineEvents.find((event) => event.id === pipelineEventId)?.name}
+              </span>
+              <select
+                value={addStageId}
+                onChange={(e) => setAddStageId(e.target.value)}
+                className="px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-[#007e40]"
+              >
+                <option value="">Choose a stage...</option>
+                {stages.map((stage) => (
+                  <option key={stage.id} value={stage.id}>{stage.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleAddToPipeline}
+                disabled={!addStageId || adding}
+                className="px-4 py-2 text-sm font-semibold text-white bg-[#007e40] hover:bg-[#006633] rounded-lg transition-colors disabled:opacity-50"
+              >
+                {adding ? 'Adding...' : 'Add'}
+              </button>
+              <button
+                onClick={() => setSelectedStudentIds(new Set())}
+                className="px-3 py-2 text-sm text-gray-600 hover:text-gray-900"
+              >
+                Clear
+              </button>
+            </div>
+          )}
+
           {/* Students List */}
         {filteredStudents.length === 0 ? (
           <EmptyState
@@ -416,6 +637,7 @@ export default function CompanyStudents() {
               <table className="w-full">
                 <thead className="bg-muted/50">
                   <tr>
+                    {pipelineEventId && <th className="pl-4 py-3 w-8"></th>}
                     <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase">Student</th>
                     <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase">Contact</th>
                     <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase">Academic</th>
@@ -426,6 +648,17 @@ export default function CompanyStudents() {
                 <tbody className="divide-y divide-border">
                   {paginatedStudents.map((student) => (
                     <tr key={student.student_id} className="hover:bg-muted/30 transition-colors">
+                      {pipelineEventId && (
+                        <td className="pl-4 py-4">
+                          <input
+                            type="checkbox"
+                            checked={selectedStudentIds.has(student.student_id)}
+                            onChange={() => toggleStudentSelected(student.student_id)}
+                            className="w-4 h-4 accent-[#007e40]"
+                            aria-label={`Select ${student.student_name}`}
+                          />
+                        </td>
+                      )}
                       <td className="px-4 py-4">
                         <div className="flex items-center gap-2">
                           {profiles.find((p: any) => p.id === student.student_id)?.profile_photo_url ? (
@@ -498,6 +731,15 @@ export default function CompanyStudents() {
                           >
                             View Profile
                           </Link>
+                          {companyId && (
+                            <button
+                              onClick={() => setInviteStudent({ id: student.student_id, name: student.student_name })}
+                              className="p-2 text-[#007e40] hover:bg-[#007e40]/10 rounded-lg transition-colors"
+                              title="Invite to an interview"
+                            >
+                              <Send className="w-4 h-4" />
+                            </button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -520,8 +762,40 @@ export default function CompanyStudents() {
             )}
           </div>
         )}
+          </>
+          )}
         </div>
       </div>
+
+      {showStagesModal && companyId && (
+        <PipelineStagesModal
+          companyId={companyId}
+          stages={stages}
+          onClose={() => setShowStagesModal(false)}
+          onSaved={() => {
+            loadStages();
+            setPipelineRefreshKey((key) => key + 1);
+          }}
+        />
+      )}
+
+      {inviteStudent && companyId && (
+        <InviteStudentModal
+          companyId={companyId}
+          student={inviteStudent}
+          onClose={() => setInviteStudent(null)}
+          onSent={() => setInvitationsRefreshKey((key) => key + 1)}
+        />
+      )}
+
+      {showCvBookModal && companyId && (
+        <CvBookModal
+          companyId={companyId}
+          events={pipelineEvents}
+          initialEventId={pipelineEventId}
+          onClose={() => setShowCvBookModal(false)}
+        />
+      )}
     </CompanyLayout>
   );
 }
@@ -4,11 +4,15 @@ import { supabase } from '@/lib/supabase';
 import { ArrowLeft, Save } from 'lucide-react';
 import CompanyLayout from '@/components/company/CompanyLayout';
 import { useAuth } from '@/hooks/useAuth';
+import { getMyCompanyMembership } from '@/utils/companyTeam';
+import { getOfferTemplates, templateToOfferForm, type OfferTemplate } from '@/utils/offerTemplates';
 
 export default function CreateOffer() {
   useAuth('company');
   const [loading, setLoading] = useState(false);
   const [events, setEvents] = useState<any[]>([]);
+  const [templates, setTemplates] = useState<OfferTemplate[]>([]);
+  const [template, setTemplate] = useState<OfferTemplate | null>(null);
   const [formData, setFormData] = useState({
     title: '',
     description: '',
@@ -24,8 +28,27 @@ export default function CreateOffer() {
   const navigate = useNavigate();
   useEffect(() => {
     loadEvents();
+    loadTemplates();
   }, []);
 
+  const loadTemplates = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const membership = await getMyCompanyMembership(user.id);
+    if (membership?.role === 'admin') {
+      setTemplates(await getOfferTemplates(membership.company_id));
+    }
+  };
+
+  const applyTemplate = (templateId: string) => {
+    const selected = templates.find(t => t.id === templateId) || null;
+    setTemplate(selected);
+    if (selected) {
+      setFormData(prev => ({ ...prev, ...templateToOfferForm(selected) }));
+    }
+  };
+
   const loadEvents = async () => {
     const { data } = await supabase
       .from('events')
@@ -51,14 +74,10 @@ export default function CreateOffer() {
       return;
     }
 
-    const { data: company } = await supabase
-      .from('companies')
-      .select('id')
-      .eq('profile_id', user.id)
-      .single();
+    const membership = await getMyCompanyMembership(user.id);
 
-    if (!company) {
-      alert('Company not found');
+    if (membership?.role !== 'admin') {
+      alert('Only company admins can create offers');
       setLoading(false);
       return;
     }
@@ -66,11 +85,14 @@ export default function CreateOffer() {
     const { error } = await supabase
       .from('offers')
       .insert({
-        company_id: company.id,
+        company_id: membership.company_id,
         event_id: formData.event_id,
         title: formData.title,
         description: formData.description,
         interest_tag: formData.interest_tag,
+        department: template?.department ?? null,
+        requirements: template?.requirements ?? null,
+        benefits: template?.benefits ?? null,
         location: formData.location || null,
         duration_months: formData.duration_months ? parseInt(formData.duration_months) : null,
         salary_range: formData.salary_range || null,
@@ -112,6 +134,28 @@ export default function CreateOffer() {
 
         <main className="max-w-4xl mx-auto px-6 sm:px-8 lg:px-12 py-8">
         <form onSubmit={handleSubmit} className="bg-white rounded-xl border border-gray-200 shadow-sm p-8 space-y-6">
+          {/* Template */}
+          {templates.length > 0 && (
+            <div>
+              <label className="block text-sm font-semibold text-gray-900 mb-2">
+                Start from a template
+              </label>
+              <select
+                value={template?.id || ''}
+                onChange={(e) => applyTemplate(e.target.value)}
+                className="w-full px-4 py-3 bg-white border-2 border-gray-300 rounded-lg text-gray-900 focus:outline-none focus:ring-2 focus:ring-[#007e40] focus:border-[#007e40] transition-colors"
+              >
+                <option value="">Blank offer</option>
+                {templates.map(t => (
+                  <option key={t.id} value={t.id}>{t.name}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1.5">
+                Prefills the form below; you can still edit every field
+              </p>
+            </div>
+          )}
+
           {/* Event Selection */}
           <div>
             <label className="block text-sm font-semibold text-gray-900 mb-2">
@@ -2,6 +2,9 @@ import { useState, useEffect } from 'react';
 import { Link, useNavigate, useParams } from 'react-router-dom';
 import { supabase } from '@/lib/supabase';
 import { ArrowLeft, Save, Trash2 } from 'lucide-react';
+import RubricEditor from '@/components/company/RubricEditor';
+import ScreeningQuestionsEditor from '@/components/company/ScreeningQuestionsEditor';
+import { getMyCompanyMembership } from '@/utils/companyTeam';
 
 export default function EditOffer() {
   const [loading, setLoading] = useState(true);
@@ -33,13 +36,9 @@ export default function EditOffer() {
       return;
     }
 
-    const { data: company } = await supabase
-      .from('companies')
-      .select('id')
-      .eq('profile_id', user.id)
-      .single();
+    const membership = await getMyCompanyMembership(user.id);
 
-    if (!company) {
+    if (membership?.role !== 'admin') {
       navigate('/company/offers');
       return;
     }
@@ -64,7 +63,7 @@ export default function EditOffer() {
       .from('offers')
       .select('*')
       .eq('id', id)
-      .eq('company_id', company.id)
+      .eq('company_id', membership.company_id)
       .single();
 
     if (error || !offer) {
@@ -177,7 +176,7 @@ export default function EditOffer() {
         </div>
       </header>
 
-      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
         <form onSubmit={handleSubmit} className="bg-card rounded-xl border border-border p-6 space-y-6">
           {/* Event Selection */}
           <div>
@@ -347,6 +346,10 @@ export default function EditOffer() {
             </button>
           </div>
         </form>
+
+        {id && <ScreeningQuestionsEditor offerId={id} />}
+
+        {id && <RubricEditor offerId={id} />}
       </main>
     </div>
   );
@@ -0,0 +1,212 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { supabase } from '@/lib/supabase';
+import { ArrowLeft, ClipboardCheck, Trophy, Users } from 'lucide-react';
+import CompanyLayout from '@/components/company/CompanyLayout';
+import ScorecardModal from '@/components/company/ScorecardModal';
+import ErrorDisplay from '@/components/shared/ErrorDisplay';
+import EmptyState from '@/components/shared/EmptyState';
+import LoadingTable from '@/components/shared/LoadingTable';
+import { useAuth } from '@/hooks/useAuth';
+import { formatDate, formatTime } from '@/utils/dateUtils';
+import { RECOMMENDATION_LABELS, getOfferCandidates, type OfferCandidate } from '@/utils/scorecards';
+
+const RECOMMENDATION_STYLES: Record<string, string> = {
+  strong_yes: 'bg-green-500/20 text-green-700',
+  yes: 'bg-green-500/10 text-green-600',
+  no: 'bg-red-500/10 text-red-600',
+  strong_no: 'bg-red-500/20 text-red-700',
+};
+
+/**
+ * OfferCandidates - Candidates of an offer ranked by scorecard
+ *
+ * Lists every confirmed interview of the offer; scored candidates come first,
+ * by weighted score. Only the company that owns the offer can open it.
+ *
+ * @component
+ * @example
+ * <Route path="/company/offers/:id/candidates" element={<OfferCandidates />} />
+ */
+export default function OfferCandidates() {
+  const { signOut } = useAuth('company');
+  const { id } = useParams();
+  const [offer, setOffer] = useState<{ title: string; timezone: string | null } | null>(null);
+  const [candidates, setCandidates] = useState<OfferCandidate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const [scoring, setScoring] = useState<OfferCandidate | null>(null);
+
+  const loadCandidates = useCallback(async () => {
+    if (!id) return;
+    try {
+      setError(null);
+      setLoading(true);
+
+      const { data: offerData, error: offerError } = await supabase
+        .from('offers')
+        .select('title, events ( timezone )')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (offerError) throw offerError;
+      if (!offerData) throw new Error('Offer not found');
+
+      setOffer({ title: offerData.title, timezone: offerData.events?.timezone ?? null });
+      setCandidates(await getOfferCandidates(id));
+    } catch (err) {
+      console.error('Error loading candidates:', err);
+      setError(err instanceof Error ? err : new Error('Failed to load candidates'));
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadCandidates();
+  }, [loadCandidates]);
+
+  const scoredCount = candidates.filter((c) => c.total_score !== null).length;
+  const eventZone = { timezone: offer?.timezone };
+
+  return (
+    <CompanyLayout onSignOut={signOut}>
+      <div className="p-6 md:p-8">
+        <div className="max-w-5xl mx-auto space-y-6">
+          <div className="flex items-center gap-4">
+            <Link to="/company/offers" className="text-muted-foreground hover:text-foreground">
+              <ArrowLeft className="w-5 h-5" />
+            </Link>
+            <div className="flex-1">
+              <h1 className="text-2xl md:text-3xl font-bold text-foreground">Candidates</h1>
+              <p className="text-sm text-muted-foreground mt-1">
+                {offer ? `${offer.title} · ` : ''}Ranked by interview scorecard. Only your company sees the scores.
+              </p>
+            </div>
+            {id && (
+              <Link
+                to={`/company/offers/${id}/edit`}
+                className="px-4 py-2 text-sm font-medium border border-border rounded-lg hover:bg-background transition-colors"
+              >
+                Edit rubric
+              </Link>
+            )}
+          </div>
+
+          {error ? (
+            <ErrorDisplay error={error} onRetry={loadCandidates} />
+          ) : loading ? (
+            <LoadingTable columns={5} rows={5} />
+          ) : candidates.length === 0 ? (
+            <EmptyState
+              icon={Users}
+              title="No candidates yet"
+              message="Students who book an interview for this offer appear here."
+              className="bg-card rounded-xl border border-border p-12"
+            />
+          ) : (
+            <div className="bg-card rounded-xl border border-border overflow-hidden">
+              <div className="px-6 py-4 border-b border-border text-sm text-muted-foreground">
+                {scoredCount} of {candidates.length} candidates scored
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-background text-left text-xs uppercase tracking-wide text-muted-foreground">
+                    <tr>
+                      <th className="px-6 py-3 w-16">Rank</th>
+                      <th className="px-6 py-3">Candidate</th>
+                      <th className="px-6 py-3">Interview</th>
+                      <th className="px-6 py-3">Score</th>
+                      <th className="px-6 py-3">Recommendation</th>
+                      <th className="px-6 py-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    {candidates.map((candidate) => (
+                      <tr key={candidate.booking_id}>
+                        <td className="px-6 py-4">
+                          {candidate.rank ? (
+                            <span className="flex items-center gap-1 font-semibold text-foreground">
+                              {candidate.rank <= 3 && <Trophy className="w-4 h-4 text-amber-500" />}
+                              {candidate.rank}
+                            </span>
+                          ) : (
+                            <span className="text-muted-foreground">–</span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4">
+                          <Link
+                            to={`/company/students/${candidate.student_id}`}
+                            className="font-medium text-foreground hover:text-primary"
+                          >
+                            {candidate.full_name}
+                          </Link>
+                          <p className="text-xs text-muted-foreground">{candidate.email}</p>
+                        </td>
+                        <td className="px-6 py-4 text-muted-foreground">
+                          {formatDate(candidate.slot_time, { month: 'short', day: 'numeric' }, eventZone)},{' '}
+                          {formatTime(candidate.slot_time, eventZone)}
+                          {candidate.attended === false && (
+                            <span className="ml-2 px-2 py-0.5 bg-red-100 text-red-700 text-xs font-semibold rounded-full">
+                              No-show
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4">
+                          {candidate.total_score !== null ? (
+                            <div>
+                              <span className="font-semibold text-foreground">{candidate.total_score}</span>
+                              <span className="text-muted-foreground"> / 100</span>
+                              {candidate.criteria_scored < candidate.criteria_total && (
+                                <p className="text-xs text-muted-foreground">
+                                  {candidate.criteria_scored} of {candidate.criteria_total} criteria
+                                </p>
+                              )}
+                            </div>
+                          ) : (
+                            <span className="text-muted-foreground">Not scored</span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4">
+                          {candidate.recommendation ? (
+                            <span className={`px-2 py-1 text-xs font-medium rounded ${RECOMMENDATION_STYLES[candidate.recommendation]}`}>
+                              {RECOMMENDATION_LABELS[candidate.recommendation]}
+                            </span>
+                          ) : (
+                            <span className="text-muted-foreground">–</span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-right">
+                          {new Date(candidate.slot_time) <= new Date() && (
+                            <button
+                              onClick={() => setScoring(candidate)}
+                              className="inline-flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-md border border-border text-foreground hover:border-primary hover:text-primary transition-colors"
+                            >
+                              <ClipboardCheck className="w-3.5 h-3.5" />
+                              {candidate.scorecard_id ? 'Edit' : 'Score'}
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {scoring && id && (
+        <ScorecardModal
+          bookingId={scoring.booking_id}
+          offerId={id}
+          studentName={scoring.full_name}
+          offerTitle={offer?.title || 'Interview'}
+          onClose={() => setScoring(null)}
+          onSaved={loadCandidates}
+        />
+      )}
+    </CompanyLayout>
+  );
+}
@@ -1,10 +1,16 @@
 import { useState, useEffect } from 'react';
 import { Link, useNavigate, useParams } from 'react-router-dom';
 import { supabase } from '@/lib/supabase';
-import { ArrowLeft, Mail, Phone, FileText, Calendar, Briefcase, User, GraduationCap } from 'lucide-react';
+import { ArrowLeft, Mail, Phone, FileText, Calendar, Briefcase, User, GraduationCap, ClipboardCheck } from 'lucide-react';
 import { error as logError } from '@/utils/logger';
 import CompanyLayout from '@/components/company/CompanyLayout';
 import { useAuth } from '@/hooks/useAuth';
+import ScorecardModal from '@/components/company/ScorecardModal';
+import { getScorecardTotals } from '@/utils/scorecards';
+import { logCvAccess } from '@/utils/cvBook';
+import { getMyCompanyMembership } from '@/utils/companyTeam';
+import { parseScreeningAnswers, type ScreeningAnswer } from '@/utils/screeningQuestions';
+import ScreeningAnswersList from '@/components/company/ScreeningAnswersList';
 
 type StudentProfile = {
   id: string;
@@ -26,11 +32,13 @@ type StudentProfile = {
 
 type Booking = {
   id: string;
+  offer_id: string;
   offer_title: string;
   slot_time: string;
   slot_location: string | null;
   status: string;
   notes: string | null;
+  screening_answers: ScreeningAnswer[];
 };
 
 export default function StudentProfile() {
@@ -38,6 +46,8 @@ export default function StudentProfile() {
   const [loading, setLoading] = useState(true);
   const [student, setStudent] = useState<StudentProfile | null>(null);
   const [bookings, setBookings] = useState<Booking[]>([]);
+  const [scoreTotals, setScoreTotals] = useState<Map<string, number | null>>(new Map());
+  const [scoringBooking, setScoringBooking] = useState<Booking | null>(null);
   const navigate = useNavigate();
   const { id } = useParams();
 
@@ -52,13 +62,9 @@ export default function StudentProfile() {
       return;
     }
 
-    const { data: company } = await supabase
-      .from('companies')
-      .select('id')
-      .eq('profile_id', user.id)
-      .single();
+    const membership = await getMyCompanyMembership(user.id);
 
-    if (!company) {
+    if (!membership) {
       navigate('/company/students');
       return;
     }
@@ -95,7 +101,7 @@ export default function StudentProfile() {
     const { data: offers, error: offersError } = await supabase
       .from('offers')
       .select('id, title')
-      .eq('company_id', company.id);
+      .eq('company_id', membership.company_id);
 
     if (offersError) {
       logError('Error fetching offers:', offersError);
@@ -115,7 +121,7 @@ export default function StudentProfile() {
     // Get bookings for this student
     const { data: bookingsData, error: bookingsError } = await supabase
       .from('bookings')
-      .select('id, slot_id, status, student_notes')
+      .select('id, slot_id, status, student_notes, booking_screening_answers(answers)')
       .eq('student_id', id || '');
 
     if (bookingsError) {
@@ -170,11 +176,13 @@ export default function StudentProfile() {
       if (booking && slot.offer_id) {
         formattedBookings.push({
           id: booking.id,
+          offer_id: slot.offer_id,
           offer_title: offerMap.get(slot.offer_id) || 'Unknown Offer',
           slot_time: slot.start_time || '',
           slot_location: slot.location || null,
           status: booking.status,
           notes: booking.student_notes || null,
+          screening_answers: parseScreeningAnswers(booking.booking_screening_answers),
         });
       }
     }
@@ -187,9 +195,24 @@ export default function StudentProfile() {
     });
 
     setBookings(formattedBookings);
+    await loadScoreTotals(formattedBookings);
     setLoading(false);
   };
 
+  const loadScoreTotals = async (interviews: Booking[]) => {
+    try {
+      setScoreTotals(await getScorecardTotals(interviews.map((b) => b.id)));
+    } catch (err) {
+      logError('Error fetching scorecards:', err);
+    }
+  };
+
+  // Opening a CV is logged; the link opens regardless
+  const handleOpenCv = () => {
+    if (!student) return;
+    logCvAccess(student.id).catch((err) => logError('Error logging CV access:', err));
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -358,6 +381,7 @@ export default function StudentProfile() {
                   href={student.resume_url}
                   target="_blank"
                   rel="noopener noreferrer"
+                  onClick={handleOpenCv}
                   className="flex items-center justify-center gap-2 w-full px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors text-sm font-medium mb-2"
                 >
                   <FileText className="w-4 h-4" />
@@ -371,6 +395,7 @@ export default function StudentProfile() {
                   href={student.cv_url}
                   target="_blank"
                   rel="noopener noreferrer"
+                  onClick={handleOpenCv}
                   className="flex items-center justify-center gap-2 w-full px-4 py-2 bg-muted text-foreground rounded-lg hover:bg-muted/80 transition-colors text-sm font-medium"
                 >
                   <FileText className="w-4 h-4" />
@@ -428,13 +453,26 @@ export default function StudentProfile() {
                             <p className="text-xs text-muted-foreground mt-1">📍 {booking.slot_location}</p>
                           )}
                         </div>
-                        <span className={`px-2 py-1 text-xs font-medium rounded ${
-                          booking.status === 'confirmed'
-                            ? 'bg-green-500/20 text-green-600'
-                            : 'bg-muted text-muted-foreground'
-                        }`}>
-                          {booking.status}
-                        </span>
+                        <div className="flex flex-col items-end gap-2">
+                          <span className={`px-2 py-1 text-xs font-medium rounded ${
+                            booking.status === 'confirmed'
+                              ? 'bg-green-500/20 text-green-600'
+                              : 'bg-muted text-muted-foreground'
+                          }`}>
+                            {booking.status}
+                          </span>
+                          {booking.status === 'confirmed' && new Date(booking.slot_time) <= new Date() && (
+                            <button
+                              onClick={() => setScoringBooking(booking)}
+                              className="flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-md border border-border text-foreground hover:border-primary hover:text-primary transition-colors"
+                            >
+                              <ClipboardCheck className="w-3.5 h-3.5" />
+                              {scoreTotals.has(booking.id)
+                                ? `Score: ${scoreTotals.get(booking.id) ?? '–'}`
+                                : 'Fill scorecard'}
+                            </button>
+                          )}
+                        </div>
                       </div>
                       {booking.notes && (
                         <div className="pt-3 border-t border-border">
@@ -442,6 +480,12 @@ export default function StudentProfile() {
                           <p className="text-sm text-foreground">{booking.notes}</p>
                         </div>
                       )}
+                      {booking.screening_answers.length > 0 && (
+                        <div className="pt-3 border-t border-border">
+                          <p className="text-xs text-muted-foreground mb-1">Screening Answers:</p>
+                          <ScreeningAnswersList answers={booking.screening_answers} />
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -451,6 +495,17 @@ export default function StudentProfile() {
         </div>
         </div>
       </div>
+
+      {scoringBooking && (
+        <ScorecardModal
+          bookingId={scoringBooking.id}
+          offerId={scoringBooking.offer_id}
+          studentName={student.full_name}
+          offerTitle={scoringBooking.offer_title}
+          onClose={() => setScoringBooking(null)}
+          onSaved={() => loadScoreTotals(bookings)}
+        />
+      )}
     </CompanyLayout>
   );
 }
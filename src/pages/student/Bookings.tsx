@@ -2,14 +2,21 @@ import { useCallback, useEffect, useMemo, useState } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
 import { supabase } from '@/lib/supabase';
 import { useToast } from '@/contexts/ToastContext';
-import { Calendar, Clock, MapPin, Building2, Briefcase, AlertTriangle, X, Download } from 'lucide-react';
+import { Calendar, CalendarPlus, Clock, MapPin, Building2, Briefcase, AlertTriangle, X, Download, Hourglass } from 'lucide-react';
 import LoadingScreen from '@/components/shared/LoadingScreen';
 import ErrorDisplay from '@/components/shared/ErrorDisplay';
 import EmptyState from '@/components/shared/EmptyState';
 import { useAuth } from '@/hooks/useAuth';
 import StudentLayout from '@/components/student/StudentLayout';
+import RescheduleBookingModal from '@/components/shared/RescheduleBookingModal';
+import CheckInPassCard, { type CheckInPass } from '@/components/student/CheckInPassCard';
+import CalendarFeedCard from '@/components/shared/CalendarFeedCard';
+import { buildCalendar, downloadCalendar, getMyCalendarEntries } from '@/utils/calendarExport';
+import { formatDate, formatDateTime, formatTime } from '@/utils/dateUtils';
+import ViewerTimeHint from '@/components/shared/ViewerTimeHint';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
+import QRCode from 'qrcode';
 
 type Booking = {
   id: string;
@@ -20,6 +27,16 @@ type Booking = {
   slot_location: string | null;
   company_name: string;
   offer_title: string;
+  timezone: string;
+};
+
+type WaitlistEntry = {
+  waitlist_id: string;
+  event_id: string;
+  company_name: string;
+  offer_title: string;
+  slot_time: string | null;
+  queue_position: number | null;
 };
 
 export default function StudentBookings() {
@@ -29,7 +46,7 @@ export default function StudentBookings() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
   const [bookings, setBookings] = useState<Booking[]>([]);
-  const [events, setEvents] = useState<Array<{ id: string; name: string; date: string }>>([]);
+  const [events, setEvents] = useState<Array<{ id: string; name: string; date: string; timezone: string }>>([]);
   const [selectedEventId, setSelectedEventId] = useState<string>('all');
   const [cancellingId, setCancellingId] = useState<string | null>(null);
   const [confirmCancelModal, setConfirmCancelModal] = useState<{ show: boolean; bookingId: string | null; companyName: string; offerTitle: string; slotTime: string }>({
@@ -40,6 +57,11 @@ export default function StudentBookings() {
     slotTime: ''
   });
   const [downloadingBookings, setDownloadingBookings] = useState(false);
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
+  const [leavingWaitlistId, setLeavingWaitlistId] = useState<string | null>(null);
+  const [reschedulingBooking, setReschedulingBooking] = useState<Booking | null>(null);
+  const [checkInPasses, setCheckInPasses] = useState<CheckInPass[]>([]);
+  const [exportingBookingId, setExportingBookingId] = useState<string | null>(null);
 
   const handleSignOut = async () => {
     await supabase.auth.signOut();
@@ -73,6 +95,7 @@ export default function StudentBookings() {
             slot_location: null,
             company_name: booking.company_name,
             offer_title: booking.offer_title,
+            timezone: booking.event_timezone,
           }));
 
           if (eventId !== 'all') {
@@ -102,6 +125,33 @@ export default function StudentBookings() {
         } else {
           setBookings([]);
         }
+
+        const { data: waitlistData, error: waitlistError } = await supabase.rpc('fn_get_student_waitlist', {
+          p_student_id: studentId,
+        });
+
+        if (waitlistError) {
+          console.error('Error loading waitlist:', waitlistError);
+        }
+
+        const entries: WaitlistEntry[] = (waitlistData || []).map((entry) => ({
+          waitlist_id: entry.waitlist_id,
+          event_id: entry.event_id,
+          company_name: entry.company_name,
+          offer_title: entry.offer_title,
+          slot_time: entry.slot_time,
+          queue_position: entry.queue_position,
+        }));
+        setWaitlist(eventId === 'all' ? entries : entries.filter((entry) => entry.event_id === eventId));
+
+        const { data: passesData, error: passesError } = await supabase.rpc('fn_get_student_check_in_passes');
+
+        if (passesError) {
+          console.error('Error loading check-in passes:', passesError);
+        }
+
+        const passes: CheckInPass[] = passesData || [];
+        setCheckInPasses(eventId === 'all' ? passes : passes.filter((pass) => pass.event_id === eventId));
       } catch (err: any) {
         console.error('Error loading bookings:', err);
         setError(err instanceof Error ? err : new Error('Failed to load bookings'));
@@ -123,7 +173,7 @@ export default function StudentBookings() {
 
       const { data: eventsData, error: eventsError } = await supabase
         .from('events')
-        .select('id, name, date')
+        .select('id, name, date, timezone')
         .order('date', { ascending: false });
 
       if (eventsError) {
@@ -196,14 +246,55 @@ export default function StudentBookings() {
     }
   };
 
+  const handleLeaveWaitlist = async (waitlistId: string) => {
+    if (!user) return;
+    try {
+      setLeavingWaitlistId(waitlistId);
+      const { data, error } = await supabase.rpc('fn_leave_waitlist', {
+        p_waitlist_id: waitlistId,
+        p_student_id: user.id,
+      });
+
+      if (error) {
+        throw new Error(error.message || 'Failed to leave waitlist');
+      }
+
+      const result = data?.[0];
+      if (!result?.success) {
+        throw new Error(result?.message || 'Failed to leave waitlist');
+      }
+
+      showSuccess(result.message);
+      await loadBookings(user.id, selectedEventId, false);
+    } catch (error: any) {
+      console.error('Error leaving waitlist:', error);
+      showError(error.message || 'Failed to leave waitlist. Please try again.');
+    } finally {
+      setLeavingWaitlistId(null);
+    }
+  };
+
+  const handleAddToCalendar = async (booking: Booking) => {
+    try {
+      setExportingBookingId(booking.id);
+      const entries = await getMyCalendarEntries({ bookingId: booking.id });
+
+      if (entries.length === 0) {
+        throw new Error('Interview not found');
+      }
+
+      const slug = booking.company_name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+      downloadCalendar(buildCalendar(entries, 'INF Interviews'), `interview-${slug || 'inf'}.ics`);
+    } catch (error: any) {
+      console.error('Error exporting booking:', error);
+      showError(error.message || 'Failed to create the calendar file. Please try again.');
+    } finally {
+      setExportingBookingId(null);
+    }
+  };
+
   const showCancelConfirmation = (booking: Booking) => {
-    const slotTime = new Date(booking.slot_start_time).toLocaleString('en-US', {
-      weekday: 'short',
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit'
-    });
+    const slotTime = formatDateTime(booking.slot_start_time, booking);
     
     setConfirmCancelModal({
       show: true,
@@ -255,8 +346,14 @@ export default function StudentBookings() {
         .eq('id', user.id)
         .single();
 
+      const { data: passes, error: passesError } = await supabase.rpc('fn_get_student_check_in_passes');
+
+      if (passesError) {
+        console.error('Error loading check-in passes:', passesError);
+      }
+
       // Generate PDF with only upcoming bookings
-      generateBookingsPDF(upcomingBookings, profile);
+      await generateBookingsPDF(upcomingBookings, profile, passes || []);
       
       showSuccess('Bookings downloaded successfully');
     } catch (error: any) {
@@ -267,7 +364,7 @@ export default function StudentBookings() {
     }
   };
 
-  const generateBookingsPDF = (bookingsData: any[], profile: any) => {
+  const generateBookingsPDF = async (bookingsData: any[], profile: any, passes: CheckInPass[]) => {
     const doc = new jsPDF();
     
     // Add title
@@ -294,20 +391,17 @@ export default function StudentBookings() {
     
     // Prepare table data
     const tableData = bookingsData.map((booking) => {
-      const slotDate = new Date(booking.slot_time);
+      const eventZone = { timezone: booking.event_timezone };
       return [
         booking.company_name || '',
         booking.offer_title || '',
         booking.event_name || '',
-        slotDate.toLocaleDateString('en-US', { 
-          month: 'short', 
+        formatDate(booking.slot_time, {
+          month: 'short',
           day: 'numeric',
           year: 'numeric'
-        }),
-        slotDate.toLocaleTimeString('en-US', { 
-          hour: '2-digit', 
-          minute: '2-digit'
-        }),
+        }, eventZone),
+        formatTime(booking.slot_time, eventZone),
         booking.status === 'confirmed' ? '✓' : 
         booking.status === 'cancelled' ? '✗' : 
         booking.status || ''
@@ -343,6 +437,29 @@ export default function StudentBookings() {
       },
       margin: { top: 52, left: 14, right: 14 }
     });
+
+    // One check-in pass per event
+    for (const pass of passes) {
+      const qrDataUrl = await QRCode.toDataURL(pass.qr_payload, { margin: 1, width: 400 });
+      const pageWidth = doc.internal.pageSize.getWidth();
+
+      doc.addPage();
+      doc.setFontSize(18);
+      doc.setTextColor(26, 31, 58); // #1a1f3a
+      doc.text('Check-in Pass', pageWidth / 2, 30, { align: 'center' });
+      doc.setFontSize(11);
+      doc.setTextColor(100, 100, 100);
+      doc.text(pass.event_name, pageWidth / 2, 40, { align: 'center' });
+      if (profile?.full_name) {
+        doc.text(profile.full_name, pageWidth / 2, 47, { align: 'center' });
+      }
+      doc.addImage(qrDataUrl, 'PNG', (pageWidth - 80) / 2, 56, 80, 80);
+      doc.setFontSize(10);
+      doc.text('Show this code at each interview. Recruiters can also type:', pageWidth / 2, 148, { align: 'center' });
+      doc.setFontSize(26);
+      doc.setTextColor(26, 31, 58);
+      doc.text(pass.short_code, pageWidth / 2, 162, { align: 'center' });
+    }
     
     // Add footer
     const pageCount = doc.getNumberOfPages();
@@ -491,6 +608,10 @@ export default function StudentBookings() {
           </div>
         </div>
 
+        {checkInPasses.map((pass) => (
+          <CheckInPassCard key={pass.event_id} pass={pass} />
+        ))}
+
         {upcomingBookings.length > 0 ? (
           <div className="bg-white rounded-lg border border-gray-200 p-6">
             <div className="flex items-center gap-3 mb-6">
@@ -543,21 +664,24 @@ export default function StudentBookings() {
                           <div className="flex items-center gap-2">
                             <Calendar className="w-4 h-4 text-blue-600" />
                             <span>
-                              {new Date(booking.slot_start_time).toLocaleDateString('en-US', {
+                              {formatDate(booking.slot_start_time, {
                                 weekday: 'long',
                                 month: 'long',
                                 day: 'numeric',
-                              })}
+                              }, booking)}
                             </span>
                           </div>
                           <div className="flex items-center gap-2">
                             <Clock className="w-4 h-4 text-purple-600" />
                             <span>
-                              {new Date(booking.slot_start_time).toLocaleTimeString('en-US', {
-                                hour: '2-digit',
-                                minute: '2-digit',
-                              })}
+                              {formatTime(booking.slot_start_time, booking)}
                             </span>
+                            <ViewerTimeHint
+                              value={booking.slot_start_time}
+                              event={booking}
+                              withDate
+                              className="text-xs text-gray-500"
+                            />
                           </div>
                           {booking.slot_location && (
                             <div className="flex items-center gap-2">
@@ -567,13 +691,30 @@ export default function StudentBookings() {
                           )}
                         </div>
                       </div>
-                      <button
-                        onClick={() => showCancelConfirmation(booking)}
-                        disabled={cancellingId === booking.id}
-                        className="px-4 py-2 text-sm font-semibold text-red-600 hover:text-white bg-white hover:bg-red-500 border border-red-200 hover:border-red-500 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
-                      >
-                        {cancellingId === booking.id ? 'Cancelling...' : 'Cancel'}
-                      </button>
+                      <div className="flex flex-col sm:flex-row gap-2">
+                        <button
+                          onClick={() => handleAddToCalendar(booking)}
+                          disabled={exportingBookingId === booking.id}
+                          className="flex items-center justify-center gap-1.5 px-4 py-2 text-sm font-semibold text-gray-700 bg-white hover:bg-gray-100 border border-gray-200 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          <CalendarPlus className="w-4 h-4" />
+                          Add to calendar
+                        </button>
+                        <button
+                          onClick={() => setReschedulingBooking(booking)}
+                          disabled={cancellingId === booking.id}
+                          className="px-4 py-2 text-sm font-semibold text-[#007e40] hover:text-white bg-white hover:bg-[#007e40] border border-green-200 hover:border-[#007e40] rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Change time
+                        </button>
+                        <button
+                          onClick={() => showCancelConfirmation(booking)}
+                          disabled={cancellingId === booking.id}
+                          className="px-4 py-2 text-sm font-semibold text-red-600 hover:text-white bg-white hover:bg-red-500 border border-red-200 hover:border-red-500 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {cancellingId === booking.id ? 'Cancelling...' : 'Cancel'}
+                        </button>
+                      </div>
                     </div>
                   </div>
                 );
@@ -597,6 +738,61 @@ export default function StudentBookings() {
           />
         ) : null}
 
+        {bookings.length > 0 && <CalendarFeedCard />}
+
+        {waitlist.length > 0 && (
+          <div className="bg-white rounded-lg border border-gray-200 p-6">
+            <div className="flex items-center gap-3 mb-6">
+              <div className="p-2 bg-yellow-50 rounded-lg">
+                <Hourglass className="w-5 h-5 text-[#ffb300]" />
+              </div>
+              <div>
+                <h2 className="text-lg font-bold text-gray-900">Waitlist</h2>
+                <p className="text-sm text-gray-600">You will be booked automatically when a seat frees up</p>
+              </div>
+            </div>
+            <div className="space-y-3">
+              {waitlist.map((entry) => (
+                <div
+                  key={entry.waitlist_id}
+                  className="p-4 rounded-lg border border-yellow-200 bg-yellow-50/50 flex items-center justify-between gap-4"
+                >
+                  <div className="flex items-center gap-3">
+                    <div className="p-2 bg-white rounded-lg border border-gray-200">
+                      <Building2 className="w-4 h-4 text-[#007e40]" />
+                    </div>
+                    <div>
+                      <h3 className="font-semibold text-gray-900">{entry.company_name}</h3>
+                      <p className="text-sm text-gray-600">{entry.offer_title}</p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {entry.slot_time
+                          ? `Slot: ${formatDateTime(entry.slot_time, {
+                              timezone: events.find((event) => event.id === entry.event_id)?.timezone,
+                            })}`
+                          : 'Any available slot'}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    {entry.queue_position !== null && (
+                      <span className="px-3 py-1 bg-[#ffb300]/20 text-[#1a1f3a] text-sm font-bold rounded-full">
+                        #{entry.queue_position} in line
+                      </span>
+                    )}
+                    <button
+                      onClick={() => handleLeaveWaitlist(entry.waitlist_id)}
+                      disabled={leavingWaitlistId === entry.waitlist_id}
+                      className="px-3 py-1.5 text-sm font-semibold text-gray-700 bg-white border border-gray-200 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {leavingWaitlistId === entry.waitlist_id ? 'Leaving...' : 'Leave'}
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {pastBookings.length > 0 ? (
           <div className="bg-white rounded-lg border border-gray-200 p-6">
             <div className="flex items-center gap-3 mb-6">
@@ -625,11 +821,11 @@ export default function StudentBookings() {
                   <p className="text-sm text-gray-600 mb-2 ml-11">{booking.offer_title}</p>
                   <div className="flex items-center gap-2 text-xs text-gray-500 ml-11">
                     <Calendar className="w-3.5 h-3.5" />
-                    {new Date(booking.slot_start_time).toLocaleDateString('en-US', {
+                    {formatDate(booking.slot_start_time, {
                       month: 'short',
                       day: 'numeric',
                       year: 'numeric',
-                    })}
+                    }, booking)}
                   </div>
                 </div>
               ))}
@@ -637,7 +833,7 @@ export default function StudentBookings() {
           </div>
         ) : null}
 
-        {bookings.length === 0 && (
+        {bookings.length === 0 && waitlist.length === 0 && (
           <EmptyState
             icon={Calendar}
             title="No Bookings Yet"
@@ -657,6 +853,23 @@ export default function StudentBookings() {
         </div>
       </div>
 
+      {/* Reschedule Modal */}
+      {reschedulingBooking && (
+        <RescheduleBookingModal
+          bookingId={reschedulingBooking.id}
+          companyName={reschedulingBooking.company_name}
+          currentSlotTime={reschedulingBooking.slot_start_time}
+          event={reschedulingBooking}
+          onClose={() => setReschedulingBooking(null)}
+          onRescheduled={async () => {
+            setReschedulingBooking(null);
+            if (user) {
+              await loadBookings(user.id, selectedEventId, false);
+            }
+          }}
+        />
+      )}
+
       {/* Cancel Confirmation Modal */}
       {confirmCancelModal.show && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
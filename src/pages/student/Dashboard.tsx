@@ -1,5 +1,5 @@
 import { useEffect, useState } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
+import { useNavigate, Link, useSearchParams } from 'react-router-dom';
 import { supabase } from '@/lib/supabase';
 import { useToast } from '@/contexts/ToastContext';
 import { Calendar, Briefcase, User, AlertCircle, CheckCircle2, Building2, ArrowRight, TrendingUp, AlertTriangle } from 'lucide-react';
@@ -7,6 +7,7 @@ import { warn, error as logError } from '@/utils/logger';
 import ErrorDisplay from '@/components/shared/ErrorDisplay';
 import LoadingScreen from '@/components/shared/LoadingScreen';
 import StudentLayout from '@/components/student/StudentLayout';
+import InterviewInvitationsCard from '@/components/student/InterviewInvitationsCard';
 
 type EventPhaseInfo = {
   eventId: string;
@@ -32,6 +33,7 @@ export default function StudentDashboard() {
   const [studentName, setStudentName] = useState('');
   const [profileCompleteness, setProfileCompleteness] = useState<ProfileCompleteness>({ isComplete: true, missingFields: [] });
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const { showError: showToastError } = useToast();
 
   useEffect(() => {
@@ -257,6 +259,12 @@ export default function StudentDashboard() {
           </div>
         )}
 
+        {/* Interview Invitations */}
+        <InterviewInvitationsCard
+          highlightId={searchParams.get('invitation')}
+          onBooked={checkStudentAndLoadData}
+        />
+
         {/* Phase Status */}
         {phaseInfo && (
           <div className="max-w-7xl mx-auto px-6 sm:px-8 lg:px-12 py-8">
@@ -0,0 +1,39 @@
+import { useAuth } from '@/hooks/useAuth';
+import LoadingScreen from '@/components/shared/LoadingScreen';
+import StudentLayout from '@/components/student/StudentLayout';
+import NotificationList from '@/components/shared/NotificationList';
+
+/**
+ * StudentNotifications - All notifications of the signed-in student
+ *
+ * @component
+ * @example
+ * <StudentNotifications />
+ */
+export default function StudentNotifications() {
+  const { loading: authLoading, signOut } = useAuth('student');
+
+  if (authLoading) {
+    return <LoadingScreen message="Loading notifications..." />;
+  }
+
+  return (
+    <StudentLayout onSignOut={signOut}>
+      <div className="min-h-screen bg-gray-50">
+        {/* Hero Section */}
+        <section className="bg-[#1a1f3a] border-b border-gray-200">
+          <div className="max-w-7xl mx-auto px-6 sm:px-8 lg:px-12 py-12">
+            <h1 className="text-3xl font-bold text-white mb-2">Notifications</h1>
+            <p className="text-white/70">
+              Booking confirmations, schedule changes and phase openings
+            </p>
+          </div>
+        </section>
+
+        <div className="max-w-4xl mx-auto px-6 sm:px-8 lg:px-12 py-8">
+          <NotificationList />
+        </div>
+      </div>
+    </StudentLayout>
+  );
+}
@@ -2,7 +2,7 @@ import { useState, useEffect } from 'react';
 import { Link, useNavigate, useParams } from 'react-router-dom';
 import { supabase } from '@/lib/supabase';
 import { useToast } from '@/contexts/ToastContext';
-import { ArrowLeft, Building2, Clock, Briefcase, CheckCircle, Calendar, X } from 'lucide-react';
+import { ArrowLeft, Building2, Clock, Briefcase, CheckCircle, Calendar, X, Hourglass } from 'lucide-react';
 import { extractNestedObject } from '@/utils/supabaseTypes';
 import { debug, error as logError } from '@/utils/logger';
 import LoadingScreen from '@/components/shared/LoadingScreen';
@@ -10,6 +10,16 @@ import ErrorDisplay from '@/components/shared/ErrorDisplay';
 import NotFound from '@/components/shared/NotFound';
 import StudentLayout from '@/components/student/StudentLayout';
 import { useAuth } from '@/hooks/useAuth';
+import ViewerTimeHint from '@/components/shared/ViewerTimeHint';
+import { formatDate, formatTime, getEventTimezone, type EventTimeContext } from '@/utils/dateUtils';
+import { trackOfferActivity } from '@/utils/offerAnalytics';
+import ScreeningQuestionsForm from '@/components/student/ScreeningQuestionsForm';
+import {
+  getMissingScreeningAnswers,
+  getScreeningQuestions,
+  type ScreeningAnswerDrafts,
+  type ScreeningQuestion,
+} from '@/utils/screeningQuestions';
 
 type Offer = {
   id: string;
@@ -39,6 +49,9 @@ type Slot = {
   end_time: string;
   capacity: number;
   bookings_count: number;
+  has_conflict: boolean;
+  conflict_company_name: string | null;
+  already_booked_with_company: boolean;
 };
 
 type BookingLimitInfo = {
@@ -63,8 +76,13 @@ export default function OfferDetail() {
   const [bookingLimit, setBookingLimit] = useState<BookingLimitInfo | null>(null);
   const [validationWarning, setValidationWarning] = useState<string | null>(null);
   const [booking, setBooking] = useState(false);
+  const [fullSlotId, setFullSlotId] = useState<string | null>(null);
+  const [joiningWaitlist, setJoiningWaitlist] = useState(false);
   const [eventId, setEventId] = useState<string>('');
-  const { showSuccess, showError } = useToast();
+  const [eventZone, setEventZone] = useState<EventTimeContext>(null);
+  const [screeningQuestions, setScreeningQuestions] = useState<ScreeningQuestion[]>([]);
+  const [screeningAnswers, setScreeningAnswers] = useState<ScreeningAnswerDrafts>({});
+  const { showSuccess, showError, showWarning } = useToast();
 
   useEffect(() => {
     loadOfferDetail();
@@ -102,7 +120,7 @@ export default function OfferDetail() {
       // Get the latest active event
       const { data: eventsData, error: eventsError } = await supabase
         .from('events')
-        .select('id')
+        .select('id, timezone')
         .gte('date', new Date().toISOString())
         .order('date', { ascending: true })
         .limit(1);
@@ -113,6 +131,7 @@ export default function OfferDetail() {
 
       if (eventsData && eventsData.length > 0) {
         setEventId(eventsData[0].id);
+        setEventZone(eventsData[0]);
       }
 
       const { data: offerData, error: offerError } = await supabase
@@ -154,6 +173,8 @@ export default function OfferDetail() {
         return;
       }
 
+      trackOfferActivity(offerData.id, 'view', 'offer_detail');
+
       setOffer({
         id: offerData.id,
         title: offerData.title,
@@ -203,11 +224,24 @@ export default function OfferDetail() {
     if (!offer || !eventId) return;
 
     setShowBookingModal(true);
+    trackOfferActivity(offer.id, 'slot_modal_open', 'offer_detail');
     setLoadingSlots(true);
     setValidationWarning(null);
     setSelectedSlotId(null);
+    setScreeningAnswers({});
+
+    await Promise.all([fetchSlots(), fetchScreeningQuestions()]); // Fetch fresh slots when modal opens
+  };
 
-    await fetchSlots(); // Fetch fresh slots when modal opens
+  const fetchScreeningQuestions = async () => {
+    if (!offer) return;
+
+    try {
+      setScreeningQuestions(await getScreeningQuestions(offer.id));
+    } catch (err) {
+      logError('[OfferDetail] Error fetching screening questions:', err);
+      setScreeningQuestions([]);
+    }
   };
 
   const fetchSlots = async () => {
@@ -226,158 +260,48 @@ export default function OfferDetail() {
       setBookingLimit(limitData[0]);
     }
 
-    // Get slots for this specific offer
-    // Slots are linked to offers via offer_id
-    const currentTime = new Date().toISOString();
-    debug('[OfferDetail] Fetching slots with filters:', {
-      company_id: offer.company_id,
-      event_id: eventId,
-      current_time: currentTime,
-      timestamp: new Date().toISOString()
-    });
-
-    // Try 1: Get ALL slots for this company (no time filter, no is_active filter)
-    const { data: allSlots } = await supabase
-      .from('event_slots')
-      .select('*')
-      .eq('company_id', offer.company_id);
-    
-    debug('[DEBUG] ALL SLOTS for company (no filters):', {
-      total: allSlots?.length || 0,
-      breakdown: {
-        active: allSlots?.filter(s => s.is_active).length || 0,
-        inactive: allSlots?.filter(s => !s.is_active).length || 0,
-        future: allSlots?.filter(s => new Date(s.start_time) > new Date()).length || 0,
-        past: allSlots?.filter(s => new Date(s.start_time) <= new Date()).length || 0,
-        withEventId: allSlots?.filter(s => s.event_id).length || 0,
-        withoutEventId: allSlots?.filter(s => !s.event_id).length || 0
-      }
-    });
-
-    // Try 2: Get slots with our intended filters (future slots only)
-    let { data: slotsData, error: slotsError } = await supabase
-      .from('event_slots')
-      .select('id, start_time, end_time, location, capacity, offer_id, company_id, event_id, is_active')
-      .eq('company_id', offer.company_id)
-      .eq('is_active', true)
-      .gte('start_time', currentTime)
-      .order('start_time', { ascending: true });
-
-    debug('[OfferDetail] FILTERED QUERY RESULT (future only):', {
-      error: slotsError,
-      count: slotsData?.length || 0
+    // Slots with live counts and this student's conflict flags in one call
+    const { data: slotsData, error: slotsError } = await supabase.rpc('fn_get_student_offer_slots', {
+      p_student_id: user.id,
+      p_offer_id: offer.id,
+      p_event_id: eventId
     });
 
-    // If no future slots, get ALL active slots (including past ones)
-    // This handles the case where slots were created but are now in the past
-    if (!slotsError && (!slotsData || slotsData.length === 0)) {
-      debug('[OfferDetail] No future slots found, fetching ALL active slots including past...');
-      const { data: allActiveSlots, error: allSlotsError } = await supabase
-        .from('event_slots')
-        .select('id, start_time, end_time, location, capacity, offer_id, company_id, event_id, is_active')
-        .eq('company_id', offer.company_id)
-        .eq('is_active', true)
-        .order('start_time', { ascending: true });
-      
-      slotsData = allActiveSlots;
-      slotsError = allSlotsError;
-      
-      debug('[OfferDetail] ALL ACTIVE SLOTS (including past):', {
-        count: slotsData?.length || 0
-      });
-    }
     if (slotsError) {
       logError('[OfferDetail] Error fetching slots:', slotsError);
       showError(`Error fetching slots: ${slotsError.message}`);
     }
 
-    if (slotsData) {
-      const slotsWithCounts = await Promise.all(
-        slotsData.map(async (slot) => {
-          const { count } = await supabase
-            .from('bookings')
-            .select('*', { count: 'exact', head: true })
-            .eq('slot_id', slot.id)
-            .eq('status', 'confirmed');
-
-          return {
-            ...slot,
-            bookings_count: count || 0,
-          };
-        })
-      );
-
-      const available = slotsWithCounts.filter(
-        (slot) => slot.bookings_count < (slot.capacity || 1) // Default capacity to 1 if null
-      );
-
-      debug('[OfferDetail] Available slots after filtering:', available.length);
-
-      setAvailableSlots(available);
+    const slots: Slot[] = (slotsData || []).map((slot) => ({
+      id: slot.slot_id,
+      start_time: slot.start_time,
+      end_time: slot.end_time,
+      capacity: slot.capacity,
+      bookings_count: slot.confirmed_count,
+      has_conflict: slot.has_conflict,
+      conflict_company_name: slot.conflict_company_name,
+      already_booked_with_company: slot.already_booked_with_company,
+    }));
+
+    debug('[OfferDetail] Available slots:', slots.length);
+
+    setAvailableSlots(slots);
+    if (slots.some((slot) => slot.already_booked_with_company)) {
+      showWarning('You already have a booking with this company for this event');
     }
 
     setLoadingSlots(false);
   };
 
-  const checkSlotConflict = async (slotId: string) => {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) return;
-
+  const checkSlotConflict = (slotId: string) => {
     const selectedSlot = availableSlots.find(s => s.id === slotId);
-    if (!selectedSlot) return;
-
-    // Get existing bookings - simplified query
-    const { data: existingBookings, error } = await supabase
-      .from('bookings')
-      .select('slot_id')
-      .eq('student_id', user.id)
-      .eq('status', 'confirmed');
-
-    if (error) {
-      logError('Error checking conflicts:', error);
-      return;
-    }
-
-    if (existingBookings && existingBookings.length > 0) {
-      // Get slot details for all existing bookings
-      const slotIds = existingBookings.map(b => b.slot_id);
-      const { data: slots, error: slotsError } = await supabase
-        .from('event_slots')
-        .select('id, start_time, end_time, company_id')
-        .in('id', slotIds);
-
-      if (slotsError) {
-        logError('Error fetching slots:', slotsError);
-        return;
-      }
-
-      if (slots && slots.length > 0) {
-        const slotStart = new Date(selectedSlot.start_time);
-        const slotEnd = new Date(selectedSlot.end_time);
-
-        for (const existingSlot of slots) {
-          const bookingStart = new Date(existingSlot.start_time);
-          const bookingEnd = new Date(existingSlot.end_time);
-
-          if (slotStart < bookingEnd && slotEnd > bookingStart) {
-            // Get company name
-            const { data: company } = await supabase
-              .from('companies')
-              .select('company_name')
-              .eq('id', existingSlot.company_id)
-              .single();
-
-            const companyName = company?.company_name || 'Unknown Company';
-            setValidationWarning(
-              `⚠️ Time conflict with ${companyName} at ${bookingStart.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}`
-            );
-            return;
-          }
-        }
-      }
+    if (selectedSlot?.has_conflict) {
+      setValidationWarning(
+        `⚠️ Time conflict with ${selectedSlot.conflict_company_name || 'another company'} at this time`
+      );
+    } else {
+      setValidationWarning(null);
     }
-
-    setValidationWarning(null);
   };
 
   const confirmBooking = async (slotId: string) => {
@@ -402,10 +326,17 @@ export default function OfferDetail() {
         throw new Error('Offer ID not found');
       }
 
+      const missingAnswers = getMissingScreeningAnswers(screeningQuestions, screeningAnswers);
+      if (missingAnswers.length > 0) {
+        showError(`Please answer: ${missingAnswers[0].question}`);
+        return;
+      }
+
       const { data, error } = await supabase.rpc('fn_book_interview', {
         p_student_id: user.id,
         p_slot_id: slotId,
-        p_offer_id: offer.id
+        p_offer_id: offer.id,
+        p_screening_answers: screeningAnswers
       });
 
       if (error) {
@@ -432,6 +363,9 @@ export default function OfferDetail() {
           navigate('/student/bookings');
         }, 1000);
       } else {
+        if (/fully booked/i.test(result.message || '')) {
+          setFullSlotId(slotId);
+        }
         throw new Error(result.message || 'Failed to book interview');
       }
     } catch (error: any) {
@@ -443,7 +377,49 @@ export default function OfferDetail() {
     }
   };
 
+  const joinWaitlist = async (slotId: string | null) => {
+    if (!offer) return;
+
+    try {
+      setJoiningWaitlist(true);
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        showError('You must be logged in to join the waitlist');
+        return;
+      }
+
+      // A promoted booking is made without the student, so answers are given now
+      const missingAnswers = getMissingScreeningAnswers(screeningQuestions, screeningAnswers);
+      if (missingAnswers.length > 0) {
+        showError(`Please answer: ${missingAnswers[0].question}`);
+        return;
+      }
 
+      const { data, error } = await supabase.rpc('fn_join_waitlist', {
+        p_student_id: user.id,
+        p_offer_id: offer.id,
+        ...(slotId ? { p_slot_id: slotId } : {}),
+        p_screening_answers: screeningAnswers,
+      });
+
+      if (error) throw error;
+
+      const result = data?.[0];
+      if (result?.success) {
+        showSuccess(result.message);
+        setFullSlotId(null);
+        setShowBookingModal(false);
+        setSelectedSlotId(null);
+      } else {
+        showError(result?.message || 'Failed to join waitlist');
+      }
+    } catch (error: any) {
+      logError('Error joining waitlist:', error);
+      showError(error.message || 'Failed to join waitlist. Please try again.');
+    } finally {
+      setJoiningWaitlist(false);
+    }
+  };
 
   if (loading) {
     return <LoadingScreen message="Loading offer details..." />;
@@ -678,6 +654,27 @@ export default function OfferDetail() {
                 </div>
               )}
 
+              {fullSlotId && (
+                <div className="mb-4 p-3 md:p-4 bg-gradient-to-br from-yellow-50 to-yellow-50/50 border border-yellow-200 rounded-xl">
+                  <div className="flex items-center gap-3">
+                    <div className="p-2 bg-[#ffb300]/10 rounded-lg">
+                      <Hourglass className="w-4 h-4 text-[#ffb300]" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs font-bold text-gray-900 mb-0.5">Slot Fully Booked</p>
+                      <p className="text-xs text-gray-700">Join the waitlist and you will be booked automatically if a seat frees up.</p>
+                    </div>
+                    <button
+                      onClick={() => joinWaitlist(fullSlotId)}
+                      disabled={joiningWaitlist}
+                      className="px-3 py-1.5 text-xs font-semibold text-[#1a1f3a] bg-[#ffb300] rounded-lg hover:shadow-md transition-all disabled:opacity-50 disabled:cursor-not-allowed flex-shrink-0"
+                    >
+                      {joiningWaitlist ? 'Joining...' : 'Join Waitlist'}
+                    </button>
+                  </div>
+                </div>
+              )}
+
               {validationWarning && (
                 <div className="mb-4 p-3 md:p-4 bg-gradient-to-br from-orange-50 to-orange-50/50 border border-orange-200 rounded-xl">
                   <div className="flex items-center gap-3">
@@ -715,14 +712,32 @@ export default function OfferDetail() {
                   <h3 className="font-bold text-foreground mb-2 text-base">No Available Slots</h3>
                   <p className="text-muted-foreground text-xs mb-4 max-w-xs mx-auto">
                     All slots for <span className="font-semibold text-foreground">{offer.company_name}</span> are booked.
+                    Join the waitlist and you will be booked automatically when a seat frees up.
                   </p>
-                  <button
-                    onClick={() => setShowBookingModal(false)}
-                    className="px-4 py-2 bg-gradient-to-r from-primary to-primary/90 text-primary-foreground rounded-lg hover:shadow-lg transition-all text-sm font-semibold shadow-sm hover:scale-105 active:scale-95 inline-flex items-center gap-2"
-                  >
-                    <ArrowLeft className="w-4 h-4" />
-                    Close
-                  </button>
+                  <div className="text-left">
+                    <ScreeningQuestionsForm
+                      questions={screeningQuestions}
+                      answers={screeningAnswers}
+                      onChange={setScreeningAnswers}
+                    />
+                  </div>
+                  <div className="flex flex-wrap items-center justify-center gap-2">
+                    <button
+                      onClick={() => joinWaitlist(null)}
+                      disabled={joiningWaitlist}
+                      className="px-4 py-2 bg-[#ffb300] text-[#1a1f3a] rounded-lg hover:shadow-lg transition-all text-sm font-semibold shadow-sm hover:scale-105 active:scale-95 inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Hourglass className="w-4 h-4" />
+                      {joiningWaitlist ? 'Joining...' : 'Join Waitlist'}
+                    </button>
+                    <button
+                      onClick={() => setShowBookingModal(false)}
+                      className="px-4 py-2 bg-gradient-to-r from-primary to-primary/90 text-primary-foreground rounded-lg hover:shadow-lg transition-all text-sm font-semibold shadow-sm hover:scale-105 active:scale-95 inline-flex items-center gap-2"
+                    >
+                      <ArrowLeft className="w-4 h-4" />
+                      Close
+                    </button>
+                  </div>
                 </div>
               ) : (
                 <>
@@ -734,7 +749,9 @@ export default function OfferDetail() {
                         </div>
                         <div>
                           <h3 className="text-sm font-bold text-foreground">Available Slots</h3>
-                          <p className="text-xs text-muted-foreground">Select your time</p>
+                          <p className="text-xs text-muted-foreground">
+                            Select your time · {getEventTimezone(eventZone).replace(/_/g, ' ')}
+                          </p>
                         </div>
                       </div>
                       <span className="text-xs bg-muted px-3 py-1 rounded-full font-semibold">
@@ -749,13 +766,13 @@ export default function OfferDetail() {
                       const spotsLeft = capacity - slot.bookings_count;
                       const isLowCapacity = spotsLeft <= 2;
                       const isSelected = selectedSlotId === slot.id;
-                      const slotDate = new Date(slot.start_time);
 
                       return (
                         <button
                           key={slot.id}
                           onClick={() => {
                             setSelectedSlotId(slot.id);
+                            setFullSlotId(null);
                             checkSlotConflict(slot.id);
                           }}
                           style={{ animationDelay: `${idx * 20}ms` }}
@@ -769,19 +786,21 @@ export default function OfferDetail() {
                             <div className="text-base font-bold text-foreground flex items-center gap-1.5 mb-1">
                               <Clock className="w-4 h-4 text-primary flex-shrink-0" />
                               <span className="truncate leading-tight">
-                                {slotDate.toLocaleTimeString('en-US', {
-                                  hour: '2-digit',
-                                  minute: '2-digit',
-                                })}
+                                {formatTime(slot.start_time, eventZone)}
                               </span>
                             </div>
                             <div className="text-sm font-semibold text-foreground/90 truncate">
-                              {slotDate.toLocaleDateString('en-US', {
+                              {formatDate(slot.start_time, {
                                 weekday: 'short',
                                 month: 'short',
                                 day: 'numeric',
-                              })}
+                              }, eventZone)}
                             </div>
+                            <ViewerTimeHint
+                              value={slot.start_time}
+                              event={eventZone}
+                              className="block text-[11px] text-muted-foreground truncate"
+                            />
                           </div>
 
                           <div className={`inline-flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-bold rounded-full border ${
@@ -797,10 +816,23 @@ export default function OfferDetail() {
                     })}
                   </div>
 
+                  {selectedSlotId && (
+                    <ScreeningQuestionsForm
+                      questions={screeningQuestions}
+                      answers={screeningAnswers}
+                      onChange={setScreeningAnswers}
+                    />
+                  )}
+
                   {selectedSlotId && (
                     <button
                       onClick={() => confirmBooking(selectedSlotId)}
-                      disabled={!bookingLimit?.can_book || !!validationWarning || booking}
+                      disabled={
+                        !bookingLimit?.can_book ||
+                        !!validationWarning ||
+                        booking ||
+                        getMissingScreeningAnswers(screeningQuestions, screeningAnswers).length > 0
+                      }
                       className="w-full px-5 py-3.5 bg-gradient-to-r from-primary to-primary/90 text-primary-foreground rounded-xl hover:shadow-lg transition-all font-bold disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 shadow-md hover:scale-105 active:scale-95 disabled:hover:scale-100"
                     >
                       {booking ? (
@@ -2,12 +2,20 @@ import { useState, useEffect, useRef } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { supabase } from '@/lib/supabase';
 import { useToast } from '@/contexts/ToastContext';
-import { Briefcase, MapPin, Calendar, Clock, X, Search, ArrowLeft } from 'lucide-react';
+import { Briefcase, MapPin, Calendar, Clock, X, Search, ArrowLeft, Hourglass } from 'lucide-react';
 import { debug, error as logError } from '@/utils/logger';
 import EmptyState from '@/components/shared/EmptyState';
 import ErrorDisplay from '@/components/shared/ErrorDisplay';
 import StudentLayout from '@/components/student/StudentLayout';
 import { useAuth } from '@/hooks/useAuth';
+import { trackOfferActivity } from '@/utils/offerAnalytics';
+import ScreeningQuestionsForm from '@/components/student/ScreeningQuestionsForm';
+import {
+  getMissingScreeningAnswers,
+  getScreeningQuestions,
+  type ScreeningAnswerDrafts,
+  type ScreeningQuestion,
+} from '@/utils/screeningQuestions';
 
 type Offer = {
   id: string;
@@ -33,6 +41,9 @@ type Slot = {
   location: string | null;
   capacity: number;
   bookings_count: number;
+  has_conflict: boolean;
+  conflict_company_name: string | null;
+  already_booked_with_company: boolean;
 };
 
 type BookingLimitInfo = {
@@ -43,6 +54,32 @@ type BookingLimitInfo = {
   message: string;
 };
 
+/**
+ * Loads the bookable slots of an offer with live counts and the student's own
+ * conflict / already-booked flags in a single RPC call.
+ */
+const fetchStudentOfferSlots = async (studentId: string, offerId: string, eventId: string): Promise<Slot[]> => {
+  const { data, error } = await supabase.rpc('fn_get_student_offer_slots', {
+    p_student_id: studentId,
+    p_offer_id: offerId,
+    p_event_id: eventId,
+  });
+
+  if (error) throw error;
+
+  return (data || []).map((slot) => ({
+    id: slot.slot_id,
+    start_time: slot.start_time,
+    end_time: slot.end_time,
+    location: slot.location,
+    capacity: slot.capacity,
+    bookings_count: slot.confirmed_count,
+    has_conflict: slot.has_conflict,
+    conflict_company_name: slot.conflict_company_name,
+    already_booked_with_company: slot.already_booked_with_company,
+  }));
+};
+
 export default function StudentOffers() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
@@ -60,8 +97,11 @@ export default function StudentOffers() {
   const [validationWarning, setValidationWarning] = useState<string | null>(null);
   const [bookingError, setBookingError] = useState<string | null>(null);
   const [booking, setBooking] = useState(false);
+  const [joiningWaitlist, setJoiningWaitlist] = useState(false);
+  const [screeningQuestions, setScreeningQuestions] = useState<ScreeningQuestion[]>([]);
+  const [screeningAnswers, setScreeningAnswers] = useState<ScreeningAnswerDrafts>({});
   const navigate = useNavigate();
-  const { showSuccess, showError } = useToast();
+  const { showSuccess, showError, showWarning } = useToast();
   const { signOut } = useAuth('student');
   const modalCloseRef = useRef<HTMLButtonElement | null>(null);
   const modalOverlayRef = useRef<HTMLDivElement | null>(null);
@@ -102,44 +142,18 @@ export default function StudentOffers() {
     // Function to refresh slots
     const refreshSlots = async () => {
       if (!selectedOffer) return;
-      
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
       setLoadingSlots(true);
-      
-      const { data: slotsData } = await supabase
-        .from('event_slots')
-        .select('id, start_time, end_time, location, capacity, offer_id, company_id, event_id, is_active')
-        .eq('company_id', selectedOffer.company_id)
-        .eq('event_id', selectedEventId)
-        .eq('is_active', true)
-        .gte('start_time', new Date().toISOString())
-        .order('start_time', { ascending: true });
-
-      if (slotsData) {
-        const slotsWithCounts = await Promise.all(
-          slotsData.map(async (slot) => {
-            const { data: bookingRecords } = await supabase
-              .from('bookings')
-              .select('id, status')
-              .eq('slot_id', slot.id);
-
-            const confirmedBookings = bookingRecords?.filter(b => b.status === 'confirmed') || [];
-            const confirmed = confirmedBookings.length;
-
-            return {
-              ...slot,
-              bookings_count: confirmed,
-            };
-          })
-        );
-
-        const available = slotsWithCounts.filter(
-          (slot) => slot.bookings_count < (slot.capacity || 1)
-        );
-
-        setAvailableSlots(available);
+      try {
+        setAvailableSlots(await fetchStudentOfferSlots(user.id, selectedOffer.id, selectedEventId));
+      } catch (err) {
+        logError('Error refreshing slots:', err);
+      } finally {
+        setLoadingSlots(false);
       }
-      
-      setLoadingSlots(false);
     };
 
     // Subscribe to changes in the bookings table
@@ -280,10 +294,13 @@ export default function StudentOffers() {
 
   const handleBookInterview = async (offer: Offer) => {
     setSelectedOffer(offer);
+    trackOfferActivity(offer.id, 'slot_modal_open', 'student_offers');
     setLoadingSlots(true);
     setValidationWarning(null);
     setBookingError(null);
     setSelectedSlotId(null);
+    setScreeningQuestions([]);
+    setScreeningAnswers({});
 
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) return;
@@ -298,161 +315,24 @@ export default function StudentOffers() {
       setBookingLimit(limitData[0]);
     }
 
-    debug('Fetching slots with filters:', {
-      company_id: offer.company_id,
-      event_id: selectedEventId,
-      offer_id: offer.id,
-      company_name: offer.company_name,
-      offer_title: offer.title,
-      current_time: new Date().toISOString()
-    });
-
-    // Get all slots for this company for the selected event
-    // Note: Slots are generated per company, not per offer
-    // When admin creates sessions, slots are linked to companies, not specific offers
-    const { data: slotsData, error: slotsError } = await supabase
-      .from('event_slots')
-      .select('id, start_time, end_time, location, capacity, offer_id, company_id, event_id, is_active')
-      .eq('company_id', offer.company_id)
-      .eq('event_id', selectedEventId)
-      // Removed .eq('offer_id', offer.id) - slots are per company, not per offer
-      .eq('is_active', true)
-      .gte('start_time', new Date().toISOString())
-      .order('start_time', { ascending: true });
-
-    if (slotsError) {
-      logError('Error fetching slots:', slotsError);
-      alert(`Error fetching slots: ${slotsError.message}`);
-    }
-
-    debug('Slots fetched:', slotsData?.length || 0);
-
-    if (slotsData) {
-      debug('Processing', slotsData.length, 'slots to check capacity...');
-      debug('Slot IDs being checked:', slotsData.map(s => ({ 
-        id: s.id, 
-        time: new Date(s.start_time).toLocaleTimeString(),
-        capacity: s.capacity 
-      })));
-
-      // DEBUG: Get ALL bookings for this company/event regardless of slot
-      const { data: allCompanyBookings } = await supabase
-        .from('bookings')
-        .select('id, status, slot_id, event_slots!inner(start_time, company_id, event_id)')
-        .eq('event_slots.company_id', offer.company_id)
-        .eq('event_slots.event_id', selectedEventId)
-        .eq('status', 'confirmed');
-      
-      debug('🔍 ALL confirmed bookings for this company/event:', allCompanyBookings?.length || 0);
-      if (allCompanyBookings && allCompanyBookings.length > 0) {
-        debug('🔍 Booking slot IDs:', allCompanyBookings.map(b => ({
-          slot_id: b.slot_id,
-          time: new Date(b.event_slots.start_time).toLocaleTimeString()
-        })));
-      }
-
-      // DEBUG: Get ALL bookings without filters to see what we're missing
-      const { data: rawBookings } = await supabase
-        .from('bookings')
-        .select('id, status, slot_id, event_slots(start_time, company_id, event_id, is_active)')
-        .eq('status', 'confirmed');
-      
-      const bookingsForThisCompany = rawBookings?.filter(b => 
-        b.event_slots && b.event_slots.company_id === offer.company_id
-      );
-      
-      debug('🔍 RAW bookings for this company (all events):', bookingsForThisCompany?.length || 0);
-      if (bookingsForThisCompany && bookingsForThisCompany.length > 0) {
-        bookingsForThisCompany.forEach(b => {
-          debug(`  Booking ${b.id}:`, {
-            slot_id: b.slot_id,
-            time: b.event_slots?.start_time ? new Date(b.event_slots.start_time).toLocaleTimeString() : 'N/A',
-            event_id: b.event_slots?.event_id,
-            is_active: b.event_slots?.is_active,
-            matches_selected_event: b.event_slots?.event_id === selectedEventId
-          });
-        });
-      }
-      
-      // Count bookings for each slot with detailed debugging
-      // IMPORTANT: Fetch fresh data without caching to ensure real-time accuracy
-      const slotsWithCounts = await Promise.all(
-        slotsData.map(async (slot) => {
-          // Get actual booking records to count confirmed bookings
-          const { data: bookingRecords, error: bookingsError } = await supabase
-            .from('bookings')
-            .select('id, status, student_id, slot_id')
-            .eq('slot_id', slot.id);
-
-          if (bookingsError) {
-            logError(`Error fetching bookings for slot ${slot.id}:`, bookingsError);
-          }
-
-          // DEBUG: Also check if there are ANY bookings with similar time
-          const slotTime = new Date(slot.start_time).toLocaleTimeString();
-          const { data: allBookingsForTime } = await supabase
-            .from('bookings')
-            .select('id, slot_id, status, event_slots!inner(start_time, company_id)')
-            .eq('event_slots.company_id', offer.company_id)
-            .eq('status', 'confirmed');
-          
-          const bookingsAtThisTime = allBookingsForTime?.filter(b => {
-            const bookingTime = new Date(b.event_slots.start_time).toLocaleTimeString();
-            return bookingTime === slotTime;
-          });
-
-          if (bookingsAtThisTime && bookingsAtThisTime.length > 0) {
-            debug(`⚠️ MISMATCH FOUND! Slot ${slotTime} (ID: ${slot.id})`);
-            debug(`  Current slot ID: ${slot.id}`);
-            debug(`  But found ${bookingsAtThisTime.length} bookings at this time with different slot IDs:`);
-            bookingsAtThisTime.forEach(b => {
-              debug(`    - Booking slot_id: ${b.slot_id} ${b.slot_id === slot.id ? '✓ MATCH' : '✗ DIFFERENT'}`);
-            });
-          }
-
-          // Count confirmed bookings manually from the actual records
-          const confirmedBookings = bookingRecords?.filter(b => b.status === 'confirmed') || [];
-          const confirmed = confirmedBookings.length;
-          const total = bookingRecords?.length || 0;
-
-          const capacity = slot.capacity || 1;
-          const spotsLeft = capacity - confirmed;
-
-          const timeStr = new Date(slot.start_time).toLocaleTimeString();
-          debug(`Slot ${timeStr} (${slot.id}): Capacity=${capacity}, Confirmed=${confirmed}, Total=${total}, SpotsLeft=${spotsLeft}`);
-          
-          if (bookingRecords && bookingRecords.length > 0) {
-            debug(`  Booking statuses for ${timeStr}:`, bookingRecords.map(b => `${b.status}`));
-          } else {
-            debug(`  ⚠️ No bookings found for slot ${timeStr} (ID: ${slot.id})`);
-          }
-
-          return {
-            ...slot,
-            bookings_count: confirmed,
-          };
-        })
-      );
-
-      // Filter out full slots
-      const available = slotsWithCounts.filter(
-        (slot) => {
-          const capacity = slot.capacity || 1;
-          const isFull = slot.bookings_count >= capacity;
-          if (isFull) {
-            debug(`  ❌ Slot ${new Date(slot.start_time).toLocaleTimeString()} is FULL (${slot.bookings_count}/${capacity})`);
-          }
-          return !isFull;
-        }
-      );
-
-      debug('Available slots after filtering:', available.length, 'out of', slotsWithCounts.length);
+    try {
+      const slots = await fetchStudentOfferSlots(user.id, offer.id, selectedEventId);
+      debug('Slots fetched:', slots.length);
+      setAvailableSlots(slots);
 
-      if (available.length === 0 && slotsWithCounts.length > 0) {
-        logError('All slots are full! All', slotsWithCounts.length, 'slots have reached capacity');
+      if (slots.some((slot) => slot.already_booked_with_company)) {
+        showWarning('You already have a booking with this company for this event');
       }
+    } catch (err: any) {
+      logError('Error fetching slots:', err);
+      showError(`Error fetching slots: ${err.message}`);
+      setAvailableSlots([]);
+    }
 
-      setAvailableSlots(available);
+    try {
+      setScreeningQuestions(await getScreeningQuestions(offer.id));
+    } catch (err) {
+      logError('Error fetching screening questions:', err);
     }
 
     setLoadingSlots(false);
@@ -464,88 +344,16 @@ export default function StudentOffers() {
     }
   };
 
-  const checkSlotConflict = async (slotId: string) => {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) return;
-
+  const checkSlotConflict = (slotId: string) => {
     // Clear previous errors when checking a new slot
     setBookingError(null);
-    setValidationWarning(null);
 
     const selectedSlot = availableSlots.find(s => s.id === slotId);
-    if (!selectedSlot) return;
-
-    try {
-      // Get existing bookings - simplified query to avoid nested join issues
-      const { data: existingBookings, error: bookingsError } = await supabase
-        .from('bookings')
-        .select('slot_id, id')
-        .eq('student_id', user.id)
-        .eq('status', 'confirmed');
-
-      if (bookingsError) {
-        logError('Error checking conflicts:', bookingsError);
-        // Don't block the user from selecting the slot if there's an error checking conflicts
-        debug('Proceeding with slot selection despite conflict check error');
-        return;
-      }
-
-      if (existingBookings && existingBookings.length > 0) {
-        // Get slot details for all existing bookings
-        const slotIds = existingBookings.map(b => b.slot_id).filter(Boolean);
-        
-        if (slotIds.length === 0) {
-          setValidationWarning(null);
-          return;
-        }
-
-        const { data: slots, error: slotsError } = await supabase
-          .from('event_slots')
-          .select('id, start_time, end_time, company_id')
-          .in('id', slotIds);
-
-        if (slotsError) {
-          logError('Error fetching slots:', slotsError);
-          // Don't block slot selection if we can't check conflicts
-          debug('Proceeding with slot selection despite slot fetch error');
-          return;
-        }
-
-        if (slots && slots.length > 0) {
-          const slotStart = new Date(selectedSlot.start_time);
-          const slotEnd = new Date(selectedSlot.end_time);
-
-          for (const existingSlot of slots) {
-            const bookingStart = new Date(existingSlot.start_time);
-            const bookingEnd = new Date(existingSlot.end_time);
-
-            // Check for time overlap
-            if (slotStart < bookingEnd && slotEnd > bookingStart) {
-              // Get company name separately to avoid nested join issues
-              const { data: company, error: companyError } = await supabase
-                .from('companies')
-                .select('company_name')
-                .eq('id', existingSlot.company_id)
-                .single();
-
-              if (companyError) {
-                logError('Error fetching company name:', companyError);
-              }
-
-              const companyName = company?.company_name || 'Unknown Company';
-              setValidationWarning(
-                `⚠️ Time conflict detected! You already have an interview with ${companyName} at ${bookingStart.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}`
-              );
-              return;
-            }
-          }
-        }
-      }
-
-      setValidationWarning(null);
-    } catch (err) {
-      logError('Unexpected error in checkSlotConflict:', err);
-      // Don't block slot selection on unexpected errors
+    if (selectedSlot?.has_conflict) {
+      setValidationWarning(
+        `⚠️ Time conflict detected! You already have an interview with ${selectedSlot.conflict_company_name || 'another company'} at this time`
+      );
+    } else {
       setValidationWarning(null);
     }
   };
@@ -610,10 +418,19 @@ export default function StudentOffers() {
         return;
       }
 
+      const missingAnswers = getMissingScreeningAnswers(screeningQuestions, screeningAnswers);
+      if (missingAnswers.length > 0) {
+        const errorMsg = `Please answer: ${missingAnswers[0].question}`;
+        setBookingError(errorMsg);
+        showError(errorMsg);
+        return;
+      }
+
       const { data, error } = await supabase.rpc('fn_book_interview', {
         p_student_id: user.id,
         p_slot_id: slotId,
-        p_offer_id: selectedOffer.id
+        p_offer_id: selectedOffer.id,
+        p_screening_answers: screeningAnswers
       });
 
       if (error) throw error;
@@ -648,6 +465,53 @@ export default function StudentOffers() {
     }
   };
 
+  const joinWaitlist = async (slotId: string | null) => {
+    if (!selectedOffer) return;
+
+    try {
+      setJoiningWaitlist(true);
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        showError('You must be logged in to join the waitlist');
+        return;
+      }
+
+      // A promoted booking is made without the student, so answers are given now
+      const missingAnswers = getMissingScreeningAnswers(screeningQuestions, screeningAnswers);
+      if (missingAnswers.length > 0) {
+        showError(`Please answer: ${missingAnswers[0].question}`);
+        return;
+      }
+
+      const { data, error } = await supabase.rpc('fn_join_waitlist', {
+        p_student_id: user.id,
+        p_offer_id: selectedOffer.id,
+        ...(slotId ? { p_slot_id: slotId } : {}),
+        p_screening_answers: screeningAnswers,
+      });
+
+      if (error) throw error;
+
+      const result = data?.[0];
+      if (result?.success) {
+        showSuccess(result.message);
+        setBookingError(null);
+        setSelectedOffer(null);
+        setSelectedSlotId(null);
+      } else {
+        showError(result?.message || 'Failed to join waitlist');
+      }
+    } catch (error: any) {
+      logError('Error joining waitlist:', error);
+      showError(error.message || 'Failed to join waitlist. Please try again.');
+    } finally {
+      setJoiningWaitlist(false);
+    }
+  };
+
+  const isFullyBookedError = (message: string | null) =>
+    !!message && /fully booked|just filled/i.test(message);
+
   const filteredOffers = offers.filter((offer) => {
     const matchesSearch =
       searchQuery === '' ||
@@ -1116,6 +980,16 @@ export default function StudentOffers() {
                     <div className="flex-1 min-w-0">
                       <p className="text-xs font-bold text-red-900 dark:text-red-100 mb-0.5">Booking Failed</p>
                       <p className="text-xs text-red-800 dark:text-red-200">{bookingError}</p>
+                      {isFullyBookedError(bookingError) && (
+                        <button
+                          onClick={() => joinWaitlist(selectedSlotId)}
+                          disabled={joiningWaitlist}
+                          className="mt-2 inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold text-red-900 dark:text-red-100 bg-white dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg hover:bg-red-100 dark:hover:bg-red-900/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          <Hourglass className="w-3 h-3" />
+                          {joiningWaitlist ? 'Joining...' : 'Join waitlist for this slot'}
+                        </button>
+                      )}
                     </div>
                     <button
                       onClick={() => setBookingError(null)}
@@ -1151,14 +1025,32 @@ export default function StudentOffers() {
                   <h3 className="font-bold text-foreground mb-2 text-base">No Available Slots</h3>
                   <p className="text-muted-foreground text-xs mb-4 max-w-xs mx-auto">
                     All slots for <span className="font-semibold text-foreground">{selectedOffer.company_name}</span> are booked.
+                    Join the waitlist and you will be booked automatically when a seat frees up.
                   </p>
-                  <button
-                    onClick={() => setSelectedOffer(null)}
-                    className="px-4 py-2 bg-gradient-to-r from-primary to-primary/90 text-primary-foreground rounded-lg hover:shadow-lg transition-all text-sm font-semibold shadow-sm hover:scale-105 active:scale-95 inline-flex items-center gap-2"
-                  >
-                    <ArrowLeft className="w-4 h-4" />
-                    Browse Other Offers
-                  </button>
+                  <div className="text-left">
+                    <ScreeningQuestionsForm
+                      questions={screeningQuestions}
+                      answers={screeningAnswers}
+                      onChange={setScreeningAnswers}
+                    />
+                  </div>
+                  <div className="flex flex-wrap items-center justify-center gap-2">
+                    <button
+                      onClick={() => joinWaitlist(null)}
+                      disabled={joiningWaitlist}
+                      className="px-4 py-2 bg-[#ffb300] text-[#1a1f3a] rounded-lg hover:shadow-lg transition-all text-sm font-semibold shadow-sm hover:scale-105 active:scale-95 inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Hourglass className="w-4 h-4" />
+                      {joiningWaitlist ? 'Joining...' : 'Join Waitlist'}
+                    </button>
+                    <button
+                      onClick={() => setSelectedOffer(null)}
+                      className="px-4 py-2 bg-gradient-to-r from-primary to-primary/90 text-primary-foreground rounded-lg hover:shadow-lg transition-all text-sm font-semibold shadow-sm hover:scale-105 active:scale-95 inline-flex items-center gap-2"
+                    >
+                      <ArrowLeft className="w-4 h-4" />
+                      Browse Other Offers
+                    </button>
+                  </div>
                 </div>
               ) : (
                 <>
@@ -1270,12 +1162,28 @@ export default function StudentOffers() {
                     })}
                   </div>
 
+                  {/* Screening Questions */}
+                  {selectedSlotId && (
+                    <div className="mt-4">
+                      <ScreeningQuestionsForm
+                        questions={screeningQuestions}
+                        answers={screeningAnswers}
+                        onChange={setScreeningAnswers}
+                      />
+                    </div>
+                  )}
+
                   {/* Confirm Button - Compact */}
                   {selectedSlotId && (
                     <div className="sticky bottom-0 pt-3 pb-1">
                       <button
                         onClick={() => confirmBooking(selectedSlotId)}
-                        disabled={!bookingLimit?.can_book || !!validationWarning || booking}
+                        disabled={
+                          !bookingLimit?.can_book ||
+                          !!validationWarning ||
+                          booking ||
+                          getMissingScreeningAnswers(screeningQuestions, screeningAnswers).length > 0
+                        }
                         className="w-full px-4 py-3 bg-gradient-to-r from-primary to-primary/90 text-primary-foreground rounded-xl hover:shadow-xl transition-all duration-300 font-bold text-sm disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 hover:scale-[1.02] active:scale-[0.98] shadow-md disabled:hover:scale-100 group relative overflow-hidden"
                       >
                         {/* Animated background */}
@@ -1308,6 +1216,8 @@ export default function StudentOffers() {
                       <p className="text-center text-xs text-muted-foreground mt-2">
                         {validationWarning ? (
                           <span className="text-orange-600 dark:text-orange-400 font-medium">Select a different slot</span>
+                        ) : getMissingScreeningAnswers(screeningQuestions, screeningAnswers).length > 0 ? (
+                          <span>Answer the required questions to book</span>
                         ) : (
                           <span>You'll receive confirmation by email</span>
                         )}
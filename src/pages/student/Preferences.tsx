@@ -0,0 +1,365 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/lib/supabase';
+import { useToast } from '@/contexts/ToastContext';
+import { ListOrdered, ArrowUp, ArrowDown, X, Plus, Building2, AlertTriangle, Clock } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import LoadingScreen from '@/components/shared/LoadingScreen';
+import ErrorDisplay from '@/components/shared/ErrorDisplay';
+import EmptyState from '@/components/shared/EmptyState';
+import StudentLayout from '@/components/student/StudentLayout';
+
+type LotteryEvent = {
+  id: string;
+  name: string;
+  date: string;
+  preference_window_start: string | null;
+  preference_window_end: string | null;
+  preference_max_choices: number | null;
+};
+
+type OfferOption = {
+  id: string;
+  title: string;
+  company_name: string;
+};
+
+const getWindowState = (event: LotteryEvent): 'upcoming' | 'open' | 'closed' => {
+  const now = new Date();
+  if (event.preference_window_start && now < new Date(event.preference_window_start)) return 'upcoming';
+  if (event.preference_window_end && now > new Date(event.preference_window_end)) return 'closed';
+  return 'open';
+};
+
+export default function StudentPreferences() {
+  const { user, loading: authLoading, signOut } = useAuth('student');
+  const { showSuccess, showError } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const [events, setEvents] = useState<LotteryEvent[]>([]);
+  const [selectedEventId, setSelectedEventId] = useState('');
+  const [offers, setOffers] = useState<OfferOption[]>([]);
+  const [ranked, setRanked] = useState<string[]>([]);
+  const [isDeprioritized, setIsDeprioritized] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const selectedEvent = events.find((e) => e.id === selectedEventId) || null;
+  const windowState = selectedEvent ? getWindowState(selectedEvent) : 'closed';
+  const maxChoices = selectedEvent?.preference_max_choices || 5;
+
+  const loadEvents = useCallback(async () => {
+    if (!user) return;
+    try {
+      setError(null);
+      setLoading(true);
+
+      const [{ data: eventsData, error: eventsError }, { data: profileData }] = await Promise.all([
+        supabase
+          .from('events')
+          .select('id, name, date, preference_window_start, preference_window_end, preference_max_choices')
+          .eq('phase_mode', 'lottery')
+          .eq('is_active', true)
+          .order('date', { ascending: true }),
+        supabase
+          .from('profiles')
+          .select('is_deprioritized')
+          .eq('id', user.id)
+          .single(),
+      ]);
+
+      if (eventsError) {
+        throw new Error(`Failed to load events: ${eventsError.message}`);
+      }
+
+      setEvents(eventsData || []);
+      setIsDeprioritized(!!profileData?.is_deprioritized);
+      if (eventsData && eventsData.length > 0) {
+        setSelectedEventId((current) => current || eventsData[0].id);
+      }
+    } catch (err: any) {
+      console.error('Error loading preference events:', err);
+      setError(err instanceof Error ? err : new Error('Failed to load events'));
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const loadEventPreferences = useCallback(async (eventId: string) => {
+    try {
+      const [{ data: offersData, error: offersError }, { data: prefsData, error: prefsError }] = await Promise.all([
+        supabase
+          .from('offers')
+          .select('id, title, companies (company_name)')
+          .eq('event_id', eventId)
+          .eq('is_active', true)
+          .order('title', { ascending: true }),
+        supabase.rpc('fn_get_student_preferences', { p_event_id: eventId }),
+      ]);
+
+      if (offersError) throw offersError;
+      if (prefsError) throw prefsError;
+
+      setOffers(
+        (offersData || []).map((offer: any) => ({
+          id: offer.id,
+          title: offer.title,
+          company_name: offer.companies?.company_name || 'Unknown Company',
+        }))
+      );
+      setRanked((prefsData || []).map((pref) => pref.offer_id));
+    } catch (err: any) {
+      console.error('Error loading preferences:', err);
+      showError('Failed to load your preferences. Please try again.');
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    if (!authLoading) {
+      loadEvents();
+    }
+  }, [authLoading, loadEvents]);
+
+  useEffect(() => {
+    if (selectedEventId) {
+      loadEventPreferences(selectedEventId);
+    }
+  }, [selectedEventId, loadEventPreferences]);
+
+  const offersById = useMemo(() => new Map(offers.map((o) => [o.id, o])), [offers]);
+  const unranked = offers.filter((o) => !ranked.includes(o.id));
+  const canEdit = windowState === 'open';
+
+  const move = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= ranked.length) return;
+    const next = [...ranked];
+    [next[index], next[target]] = [next[target], next[index]];
+    setRanked(next);
+  };
+
+  const handleSave = async () => {
+    if (!selectedEventId) return;
+    try {
+      setSaving(true);
+      const { data, error } = await supabase.rpc('fn_submit_booking_preferences', {
+        p_event_id: selectedEventId,
+        p_offer_ids: ranked,
+      });
+
+      if (error) throw error;
+
+      const result = data?.[0];
+      if (!result?.success) {
+        throw new Error(result?.message || 'Failed to save preferences');
+      }
+      showSuccess(result.message);
+    } catch (err: any) {
+      console.error('Error saving preferences:', err);
+      showError(err.message || 'Failed to save preferences');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (authLoading || loading) {
+    return <LoadingScreen message="Loading your preferences..." />;
+  }
+
+  if (error) {
+    return (
+      <StudentLayout onSignOut={signOut}>
+        <div className="p-6 md:p-8">
+          <div className="max-w-7xl mx-auto">
+            <ErrorDisplay error={error} onRetry={loadEvents} />
+          </div>
+        </div>
+      </StudentLayout>
+    );
+  }
+
+  return (
+    <StudentLayout onSignOut={signOut}>
+      <div className="min-h-screen bg-gray-50">
+        {/* Hero Section */}
+        <section className="bg-[#1a1f3a] border-b border-gray-200">
+          <div className="max-w-7xl mx-auto px-6 sm:px-8 lg:px-12 py-12">
+            <h1 className="text-3xl font-bold text-white mb-2">Interview Preferences</h1>
+            <p className="text-white/70">
+              Rank the offers you want most. Phase 1 interviews are allocated from these rankings by lottery.
+            </p>
+          </div>
+        </section>
+
+        <div className="max-w-7xl mx-auto px-6 sm:px-8 lg:px-12 py-8 space-y-6">
+          {events.length === 0 ? (
+            <EmptyState
+              icon={ListOrdered}
+              title="No Preference Rounds"
+              message="None of the upcoming events allocate interviews from preferences. You can book directly from the offers page."
+              action={
+                <Link
+                  to="/student/offers"
+                  className="inline-flex items-center gap-2 px-6 py-3 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors font-medium"
+                >
+                  Browse Offers
+                </Link>
+              }
+              className="bg-card rounded-xl border border-border p-8"
+            />
+          ) : (
+            <>
+              {events.length > 1 && (
+                <div className="bg-white rounded-lg border border-gray-200 p-4">
+                  <label className="block text-sm font-medium text-gray-900 mb-2">Event</label>
+                  <select
+                    value={selectedEventId}
+                    onChange={(e) => setSelectedEventId(e.target.value)}
+                    className="w-full md:w-auto px-4 py-2 bg-white border border-gray-200 rounded-lg text-gray-900 focus:outline-none focus:ring-2 focus:ring-[#007e40] focus:border-transparent"
+                  >
+                    {events.map((event) => (
+                      <option key={event.id} value={event.id}>{event.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {selectedEvent && (
+                <div className="bg-white rounded-lg border border-gray-200 p-4 flex items-start gap-3">
+                  <Clock className="w-5 h-5 text-[#007e40] flex-shrink-0 mt-0.5" />
+                  <div className="text-sm text-gray-700">
+                    {windowState === 'upcoming' && (
+                      <p>Ranking opens on {new Date(selectedEvent.preference_window_start!).toLocaleString()}.</p>
+                    )}
+                    {windowState === 'open' && (
+                      <p>
+                        Ranking is open
+                        {selectedEvent.preference_window_end
+                          ? ` until ${new Date(selectedEvent.preference_window_end).toLocaleString()}`
+                          : ''}
+                        . You can rank up to {maxChoices} offers and change your list until then.
+                      </p>
+                    )}
+                    {windowState === 'closed' && (
+                      <p>Ranking is closed. Allocated interviews will appear in your bookings.</p>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {isDeprioritized && (
+                <div className="p-4 bg-orange-50 border border-orange-200 rounded-lg flex items-start gap-3">
+                  <AlertTriangle className="w-5 h-5 text-orange-600 flex-shrink-0 mt-0.5" />
+                  <p className="text-sm text-orange-800">
+                    You indicated you already have an internship, so you will not be allocated Phase 1 interviews. You can book directly when Phase 2 opens.
+                  </p>
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {/* Ranked list */}
+                <div className="bg-white rounded-lg border border-gray-200 p-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-lg font-bold text-gray-900">Your Ranking</h2>
+                    <span className="text-sm text-gray-500">{ranked.length}/{maxChoices}</span>
+                  </div>
+                  {ranked.length === 0 ? (
+                    <p className="text-sm text-gray-500">Add offers from the list to rank them.</p>
+                  ) : (
+                    <ol className="space-y-2">
+                      {ranked.map((offerId, index) => {
+                        const offer = offersById.get(offerId);
+                        return (
+                          <li
+                            key={offerId}
+                            className="flex items-center gap-3 p-3 rounded-lg border border-gray-200 bg-gray-50"
+                          >
+                            <span className="w-7 h-7 flex items-center justify-center rounded-full bg-[#007e40] text-white text-sm font-bold flex-shrink-0">
+                              {index + 1}
+                            </span>
+                            <div className="flex-1 min-w-0">
+                              <p className="font-semibold text-gray-900 truncate">{offer?.title || 'Unavailable offer'}</p>
+                              <p className="text-xs text-gray-500 truncate">{offer?.company_name}</p>
+                            </div>
+                            {canEdit && (
+                              <div className="flex items-center gap-1">
+                                <button
+                                  onClick={() => move(index, -1)}
+                                  disabled={index === 0}
+                                  className="p-1.5 rounded hover:bg-gray-200 disabled:opacity-30"
+                                  aria-label="Move up"
+                                >
+                                  <ArrowUp className="w-4 h-4" />
+                                </button>
+                                <button
+                                  onClick={() => move(index, 1)}
+                                  disabled={index === ranked.length - 1}
+                                  className="p-1.5 rounded hover:bg-gray-200 disabled:opacity-30"
+                                  aria-label="Move down"
+                                >
+                                  <ArrowDown className="w-4 h-4" />
+                                </button>
+                                <button
+                                  onClick={() => setRanked(ranked.filter((id) => id !== offerId))}
+                                  className="p-1.5 rounded hover:bg-red-100 text-red-600"
+                                  aria-label="Remove"
+                                >
+                                  <X className="w-4 h-4" />
+                                </button>
+                              </div>
+                            )}
+                          </li>
+                        );
+                      })}
+                    </ol>
+                  )}
+                  {canEdit && (
+                    <button
+                      onClick={handleSave}
+                      disabled={saving}
+                      className="mt-6 w-full px-4 py-2.5 text-sm font-semibold text-white bg-[#007e40] hover:bg-[#006633] rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {saving ? 'Saving...' : 'Save Ranking'}
+                    </button>
+                  )}
+                </div>
+
+                {/* Available offers */}
+                <div className="bg-white rounded-lg border border-gray-200 p-6">
+                  <h2 className="text-lg font-bold text-gray-900 mb-4">Offers</h2>
+                  {unranked.length === 0 ? (
+                    <p className="text-sm text-gray-500">No more offers to add.</p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {unranked.map((offer) => (
+                        <li
+                          key={offer.id}
+                          className="flex items-center gap-3 p-3 rounded-lg border border-gray-200"
+                        >
+                          <Building2 className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                          <div className="flex-1 min-w-0">
+                            <p className="font-medium text-gray-900 truncate">{offer.title}</p>
+                            <p className="text-xs text-gray-500 truncate">{offer.company_name}</p>
+                          </div>
+                          {canEdit && (
+                            <button
+                              onClick={() => setRanked([...ranked, offer.id])}
+                              disabled={ranked.length >= maxChoices}
+                              className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-semibold text-[#007e40] border border-green-200 rounded-lg hover:bg-green-50 disabled:opacity-40 disabled:cursor-not-allowed"
+                            >
+                              <Plus className="w-3 h-3" />
+                              Add
+                            </button>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </StudentLayout>
+  );
+}
@@ -3,13 +3,14 @@
  * 
  * Allows students to view and edit their profile information.
  * Includes fields: profile photo, email, phone, languages, program, year of study,
- * biography, LinkedIn, resume, student_number, specialization, graduation_year
+ * biography, LinkedIn, resume, student_number, specialization, graduation_year,
+ * skills and the talent directory opt-in
  */
 import { useState, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { supabase } from '@/lib/supabase';
 import { useToast } from '@/contexts/ToastContext';
-import { User, Save, GraduationCap, Phone, Mail, Languages, Briefcase, Linkedin, BookOpen, Calendar, X, AlertTriangle, Building2, Clock, MapPin } from 'lucide-react';
+import { User, Save, GraduationCap, Phone, Mail, Languages, Briefcase, Linkedin, BookOpen, Calendar, X, AlertTriangle, Building2, Clock, MapPin, Award } from 'lucide-react';
 import { validatePhoneNumber } from '@/utils/securityUtils';
 import { error as logError } from '@/utils/logger';
 import LoadingScreen from '@/components/shared/LoadingScreen';
@@ -30,12 +31,16 @@ type StudentProfile = {
   cv_url: string | null;
   profile_photo_url: string | null;
   languages_spoken: string[];
+  skills: string[];
   program: string | null;
   biography: string | null;
   linkedin_url: string | null;
   resume_url: string | null;
   year_of_study: number | null;
   is_deprioritized: boolean;
+  no_show_penalty_event_id: string | null;
+  talent_directory_opt_in: boolean;
+  has_data_consent: boolean;
 };
 
 export default function StudentProfile() {
@@ -55,6 +60,7 @@ export default function StudentProfile() {
     navigate('/');
   };
   const [languageInput, setLanguageInput] = useState('');
+  const [skillInput, setSkillInput] = useState('');
   const [bookings, setBookings] = useState<any[]>([]);
   const [loadingBookings, setLoadingBookings] = useState(false);
   const { showSuccess, showError } = useToast();
@@ -79,7 +85,7 @@ export default function StudentProfile() {
 
       const { data: profileData, error: profileError } = await supabase
         .from('profiles')
-        .select('id, email, full_name, phone, student_number, specialization, graduation_year, cv_url, profile_photo_url, languages_spoken, program, biography, linkedin_url, resume_url, year_of_study, is_deprioritized')
+        .select('id, email, full_name, phone, student_number, specialization, graduation_year, cv_url, profile_photo_url, languages_spoken, program, biography, linkedin_url, resume_url, year_of_study, is_deprioritized, no_show_penalty_event_id, skills, talent_directory_opt_in, consent_given, consent_withdrawn')
         .eq('id', user.id)
         .maybeSingle();
 
@@ -104,6 +110,7 @@ export default function StudentProfile() {
         graduation_year: profileDataAny.graduation_year,
         cv_url: profileDataAny.cv_url,
         languages_spoken: profileDataAny.languages_spoken || [],
+        skills: profileDataAny.skills || [],
         program: profileDataAny.program || null,
         biography: profileDataAny.biography || null,
         linkedin_url: profileDataAny.linkedin_url || null,
@@ -111,6 +118,9 @@ export default function StudentProfile() {
         year_of_study: profileDataAny.year_of_study || null,
         profile_photo_url: profileDataAny.profile_photo_url || null,
         is_deprioritized: profileDataAny.is_deprioritized || false,
+        no_show_penalty_event_id: profileDataAny.no_show_penalty_event_id || null,
+        talent_directory_opt_in: profileDataAny.talent_directory_opt_in || false,
+        has_data_consent: !!profileDataAny.consent_given && !profileDataAny.consent_withdrawn,
       };
 
       setProfile(profileWithDefaults);
@@ -202,6 +212,26 @@ export default function StudentProfile() {
     });
   };
 
+  const addSkill = () => {
+    if (!profile) return;
+    const skill = skillInput.trim();
+    if (skill && !profile.skills.some(s => s.toLowerCase() === skill.toLowerCase())) {
+      setProfile({
+        ...profile,
+        skills: [...profile.skills, skill]
+      });
+      setSkillInput('');
+    }
+  };
+
+  const removeSkill = (skill: string) => {
+    if (!profile) return;
+    setProfile({
+      ...profile,
+      skills: profile.skills.filter(s => s !== skill)
+    });
+  };
+
   const handleSave = async () => {
     if (!profile) return;
 
@@ -262,12 +292,14 @@ export default function StudentProfile() {
           cv_url: profile.cv_url?.trim() || null,
           profile_photo_url: profilePhotoUrl,
           languages_spoken: profile.languages_spoken,
+          skills: profile.skills,
           program: profile.program || null,
           biography: profile.biography?.trim() || null,
           linkedin_url: finalLinkedinUrl,
           resume_url: resumeUrl,
           year_of_study: profile.year_of_study || null,
           is_deprioritized: profile.is_deprioritized,
+          talent_directory_opt_in: profile.has_data_consent && profile.talent_directory_opt_in,
         })
         .eq('id', profile.id);
 
@@ -558,6 +590,57 @@ export default function StudentProfile() {
               </div>
             </div>
 
+            {/* Skills */}
+            <div>
+              <label className="flex items-center gap-2 text-sm font-medium text-foreground mb-2">
+                <Award className="w-4 h-4" />
+                Skills
+              </label>
+              <div className="space-y-2">
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={skillInput}
+                    onChange={(e) => setSkillInput(e.target.value)}
+                    onKeyPress={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        addSkill();
+                      }
+                    }}
+                    placeholder="Add a skill (e.g., Python, AutoCAD, Project management)"
+                    className="flex-1 px-4 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-foreground"
+                  />
+                  <button
+                    type="button"
+                    onClick={addSkill}
+                    className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors"
+                  >
+                    Add
+                  </button>
+                </div>
+                {profile.skills.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {profile.skills.map((skill) => (
+                      <span
+                        key={skill}
+                        className="inline-flex items-center gap-1 px-3 py-1 bg-primary/10 text-primary rounded-full text-sm"
+                      >
+                        {skill}
+                        <button
+                          type="button"
+                          onClick={() => removeSkill(skill)}
+                          className="hover:text-destructive"
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+
             {/* Program and Year of Study */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <div>
@@ -655,8 +738,9 @@ export default function StudentProfile() {
                         id="is_deprioritized"
                         type="checkbox"
                         checked={profile.is_deprioritized}
+                        disabled={!!profile.no_show_penalty_event_id}
                         onChange={(e) => setProfile({ ...profile, is_deprioritized: e.target.checked })}
-                        className="w-4 h-4 text-[#007e40] border-gray-300 rounded focus:ring-[#007e40]"
+                        className="w-4 h-4 text-[#007e40] border-gray-300 rounded focus:ring-[#007e40] disabled:opacity-50"
                       />
                     </div>
                     <div>
@@ -667,12 +751,50 @@ export default function StudentProfile() {
                         Check this box if you have already found an internship. This will mark your profile as "Secured Internship" to recruiters, 
                         indicating that you are not actively looking. You can still participate in the event.
                       </p>
+                      {profile.no_show_penalty_event_id && (
+                        <p className="text-sm text-[#ffb300] font-medium mt-2">
+                          You are deprioritized after missing interviews. This ends once the next event has taken place.
+                        </p>
+                      )}
                     </div>
                   </div>
                 </div>
               </div>
             </div>
 
+            {/* Talent Directory */}
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-5">
+              <h3 className="text-base font-semibold text-gray-900 mb-3">Talent Directory</h3>
+              <div className="flex items-start gap-3">
+                <div className="flex items-center h-5 mt-0.5">
+                  <input
+                    id="talent_directory_opt_in"
+                    type="checkbox"
+                    checked={profile.has_data_consent && profile.talent_directory_opt_in}
+                    disabled={!profile.has_data_consent}
+                    onChange={(e) => setProfile({ ...profile, talent_directory_opt_in: e.target.checked })}
+                    className="w-4 h-4 text-[#007e40] border-gray-300 rounded focus:ring-[#007e40] disabled:opacity-50"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="talent_directory_opt_in" className="font-medium text-gray-900 cursor-pointer">
+                    Let verified companies find my profile
+                  </label>
+                  <p className="text-sm text-gray-600 mt-1">
+                    Your name, email, program, specialization, graduation year, languages, skills, biography, photo and
+                    LinkedIn become searchable by verified companies, even those you have not booked an interview with.
+                    Companies can bookmark your profile. Unchecking this box removes you from the directory and deletes
+                    those bookmarks.
+                  </p>
+                  {!profile.has_data_consent && (
+                    <p className="text-sm text-[#ffb300] font-medium mt-2">
+                      The talent directory is only available while you consent to the processing of your data.
+                    </p>
+                  )}
+                </div>
+              </div>
+            </div>
+
             {/* Interview History Section */}
             <div className="bg-white rounded-lg border border-gray-200 p-6">
               <h3 className="text-base font-semibold text-gray-900 mb-4 flex items-center gap-2">
@@ -70,6 +70,7 @@ export type Event = {
   date: string;
   location: string | null;
   description?: string | null;
+  timezone: string;
   is_active: boolean;
   created_at: string;
 };
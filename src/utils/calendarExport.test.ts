@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+import { buildCalendar, type CalendarEntry } from './calendarExport';
+
+const entry = (overrides: Partial<CalendarEntry> = {}): CalendarEntry => ({
+  uid: 'booking-1',
+  summary: 'Interview',
+  description: null,
+  location: null,
+  start_time: '2026-02-12T09:30:00Z',
+  end_time: '2026-02-12T09:50:00Z',
+  status: 'CONFIRMED',
+  timezone: 'Europe/Paris',
+  ...overrides,
+});
+
+// Undo line folding (RFC 5545 3.1)
+const unfold = (ics: string) => ics.replace(/\r\n /g, '').split('\r\n');
+
+describe('calendarExport', () => {
+  it('escapes separators, backslashes and newlines in text values', () => {
+    const ics = buildCalendar(
+      [entry({ summary: 'Acme; Inc, Rabat', description: 'Room 2\\B\nBring your CV' })],
+      'INF Interviews'
+    );
+    const lines = unfold(ics);
+
+    expect(lines).toContain('SUMMARY:Acme\\; Inc\\, Rabat');
+    expect(lines).toContain('DESCRIPTION:Room 2\\\\B\\nBring your CV');
+  });
+
+  it('folds lines longer than 75 octets without splitting characters', () => {
+    const description = 'Entretien avec l’équipe données — '.repeat(10);
+    const ics = buildCalendar([entry({ description })], 'INF Interviews');
+    const encoder = new TextEncoder();
+    const physicalLines = ics.split('\r\n');
+
+    for (const line of physicalLines) {
+      expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(physicalLines.some((line) => line.startsWith(' '))).toBe(true);
+    expect(unfold(ics)).toContain(`DESCRIPTION:${description}`);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('writes times in UTC on both sides of a daylight saving change', () => {
+    const ics = buildCalendar(
+      [
+        entry({ uid: 'winter', start_time: '2026-03-27T09:00:00Z', end_time: '2026-03-27T09:20:00Z' }),
+        entry({ uid: 'summer', start_time: '2026-03-30T08:00:00+02:00', end_time: '2026-03-30T08:20:00+02:00' }),
+      ],
+      'INF Interviews'
+    );
+    const lines = unfold(ics);
+
+    expect(lines).toContain('DTSTART:20260327T090000Z');
+    expect(lines).toContain('DTEND:20260327T092000Z');
+    expect(lines).toContain('DTSTART:20260330T060000Z');
+    expect(lines).toContain('DTEND:20260330T062000Z');
+    expect(ics).not.toContain('VTIMEZONE');
+    expect(ics).not.toContain('TZID');
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Calendar Export Utilities
+ *
+ * Builds iCalendar (.ics) files from the entries returned by
+ * fn_get_my_calendar_entries. The builder itself lives in
+ * supabase/functions/_shared/ics.ts, shared with the subscribable feed.
+ */
+
+import { supabase } from '@/lib/supabase';
+import type { CalendarEntry } from '../../supabase/functions/_shared/ics.ts';
+
+export { buildCalendar, type CalendarEntry } from '../../supabase/functions/_shared/ics.ts';
+
+/**
+ * Download .ics content as a file
+ * @param content - Content from buildCalendar
+ * @param filename - File name, ending in .ics
+ */
+export function downloadCalendar(content: string, filename: string): void {
+  const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Load the current user's calendar entries
+ * @param filter - One booking or one event; everything when empty
+ * @returns Promise with the entries
+ */
+export async function getMyCalendarEntries(filter: { bookingId?: string; eventId?: string } = {}): Promise<CalendarEntry[]> {
+  const { data, error } = await supabase.rpc('fn_get_my_calendar_entries', {
+    p_booking_id: filter.bookingId,
+    p_event_id: filter.eventId,
+  });
+
+  if (error) {
+    throw error;
+  }
+  return data || [];
+}
+
+/**
+ * URL of the current user's read-only calendar feed
+ * @param reset - Replace the token, so the previous URL stops working
+ * @returns Promise with the feed URL
+ */
+export async function getCalendarFeedUrl(reset = false): Promise<string> {
+  const { data, error } = await supabase.rpc('fn_get_calendar_feed_token', { p_reset: reset });
+
+  if (error) {
+    throw error;
+  }
+  return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${data}`;
+}
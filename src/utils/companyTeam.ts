@@ -0,0 +1,249 @@
+/**
+ * Company Team Utilities
+ *
+ * A company is run by several recruiter accounts. Company admins edit the
+ * company profile, offers and team; interviewers see the slots assigned to
+ * them and score those interviews. Recruiters join through an emailed
+ * invitation and sign up with its token.
+ */
+
+import { supabase } from '@/lib/supabase';
+
+export type CompanyRole = 'admin' | 'interviewer';
+
+export const COMPANY_ROLE_LABELS: Record<CompanyRole, string> = {
+  admin: 'Company admin',
+  interviewer: 'Interviewer',
+};
+
+export interface CompanyMembership {
+  company_id: string;
+  role: CompanyRole;
+}
+
+export interface TeamMember {
+  id: string;
+  profile_id: string;
+  role: CompanyRole;
+  representative_id: string | null;
+  created_at: string;
+  full_name: string;
+  email: string;
+  is_owner: boolean;
+}
+
+export interface TeamInvitation {
+  id: string;
+  email: string;
+  full_name: string;
+  role: CompanyRole;
+  representative_id: string | null;
+  created_at: string;
+  expires_at: string;
+}
+
+export interface TeamInvitationDetails {
+  company_name: string;
+  email: string;
+  full_name: string;
+  role: CompanyRole;
+  expires_at: string;
+}
+
+/**
+ * Get the company a user recruits for, and their role in it
+ * @param userId - User ID
+ * @returns Promise with the membership, or null if the user is not in a company team
+ */
+export async function getMyCompanyMembership(userId: string): Promise<CompanyMembership | null> {
+  const { data, error } = await supabase
+    .from('company_members')
+    .select('company_id, role')
+    .eq('profile_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  return data as CompanyMembership | null;
+}
+
+/**
+ * Get the members of a company team, admins first
+ * @param companyId - Company ID
+ * @returns Promise with the members and their names
+ */
+export async function getTeam(companyId: string): Promise<TeamMember[]> {
+  const [membersResult, companyResult] = await Promise.all([
+    supabase
+      .from('company_members')
+      .select('id, profile_id, role, representative_id, created_at')
+      .eq('company_id', companyId)
+      .order('created_at'),
+    supabase
+      .from('companies')
+      .select('profile_id')
+      .eq('id', companyId)
+      .single(),
+  ]);
+
+  if (membersResult.error) throw membersResult.error;
+  if (companyResult.error) throw companyResult.error;
+
+  const members = membersResult.data || [];
+  if (members.length === 0) {
+    return [];
+  }
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from('profiles')
+    .select('id, full_name, email')
+    .in('id', members.map((m) => m.profile_id));
+
+  if (profilesError) {
+    throw profilesError;
+  }
+
+  const profilesById = new Map((profiles || []).map((p) => [p.id, p]));
+
+  return members
+    .map((m) => ({
+      ...m,
+      role: m.role as CompanyRole,
+      full_name: profilesById.get(m.profile_id)?.full_name || 'Unknown',
+      email: profilesById.get(m.profile_id)?.email || '',
+      is_owner: m.profile_id === companyResult.data.profile_id,
+    }))
+    .sort((a, b) => (a.role === b.role ? 0 : a.role === 'admin' ? -1 : 1));
+}
+
+/**
+ * Get the invitations of a company that have not been accepted yet
+ * @param companyId - Company ID
+ * @returns Promise with the pending invitations, newest first
+ */
+export async function getInvitations(companyId: string): Promise<TeamInvitation[]> {
+  const { data, error } = await supabase
+    .from('company_invitations')
+    .select('id, email, full_name, role, representative_id, created_at, expires_at')
+    .eq('company_id', companyId)
+    .is('accepted_at', null)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+  return (data || []) as TeamInvitation[];
+}
+
+/**
+ * Invite a recruiter to the team. Inviting the same address again renews
+ * the invitation and sends a new link.
+ * @param invitation - Email, name and role, optionally the representative it is for
+ * @returns Promise with the server message
+ */
+export async function inviteTeamMember(invitation: {
+  email: string;
+  fullName: string;
+  role: CompanyRole;
+  representativeId?: string;
+}): Promise<string> {
+  const { data, error } = await supabase.rpc('fn_invite_team_member', {
+    p_email: invitation.email,
+    p_full_name: invitation.fullName,
+    p_role: invitation.role,
+    p_representative_id: invitation.representativeId,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const result = data?.[0];
+  if (!result?.success) {
+    throw new Error(result?.message || 'Failed to send the invitation');
+  }
+  return result.message;
+}
+
+/**
+ * Change the role of a team member
+ * @param memberId - company_members row ID
+ * @param role - New role
+ */
+export async function updateTeamMemberRole(memberId: string, role: CompanyRole): Promise<void> {
+  const { data, error } = await supabase.rpc('fn_update_team_member_role', {
+    p_member_id: memberId,
+    p_role: role,
+  });
+
+  if (error) {
+    throw error;
+  }
+  if (!data?.[0]?.success) {
+    throw new Error(data?.[0]?.message || 'Failed to update the role');
+  }
+}
+
+/**
+ * Remove a member from the team. Their slots are unassigned.
+ * @param memberId - company_members row ID
+ */
+export async function removeTeamMember(memberId: string): Promise<void> {
+  const { data, error } = await supabase.rpc('fn_remove_team_member', { p_member_id: memberId });
+
+  if (error) {
+    throw error;
+  }
+  if (!data?.[0]?.success) {
+    throw new Error(data?.[0]?.message || 'Failed to remove the team member');
+  }
+}
+
+/**
+ * Revoke an invitation that has not been accepted
+ * @param invitationId - Invitation ID
+ */
+export async function revokeInvitation(invitationId: string): Promise<void> {
+  const { error } = await supabase
+    .from('company_invitations')
+    .delete()
+    .eq('id', invitationId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Look up an invitation from the link in the invitation email
+ * @param token - Invitation token
+ * @returns Promise with the invitation, or null if it is unknown, used or expired
+ */
+export async function getTeamInvitation(token: string): Promise<TeamInvitationDetails | null> {
+  const { data, error } = await supabase.rpc('fn_get_team_invitation', { p_token: token });
+
+  if (error) {
+    throw error;
+  }
+  return (data?.[0] as TeamInvitationDetails | undefined) ?? null;
+}
+
+/**
+ * Assign the interviews of a slot to a team member
+ * @param slotId - Slot ID
+ * @param interviewerId - Member's profile ID, or null to unassign
+ */
+export async function assignSlotInterviewer(slotId: string, interviewerId: string | null): Promise<void> {
+  const { data, error } = await supabase.rpc('fn_assign_slot_interviewer', {
+    p_slot_id: slotId,
+    p_interviewer_id: interviewerId,
+  });
+
+  if (error) {
+    throw error;
+  }
+  if (!data?.[0]?.success) {
+    throw new Error(data?.[0]?.message || 'Failed to assign the interviewer');
+  }
+}
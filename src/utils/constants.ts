@@ -12,8 +12,14 @@ export type UserRole = typeof USER_ROLES[keyof typeof USER_ROLES];
 
 export const APP_NAME = 'Supabase inf Explorer';
 
+/**
+ * Booking phase numbers. Events define their own ordered phases in
+ * `event_phases` (1..MAX); PHASE_1 / PHASE_2 are the defaults every new
+ * event starts with.
+ */
 export const BOOKING_PHASES = {
   CLOSED: 0,
   PHASE_1: 1,
   PHASE_2: 2,
+  MAX: 10,
 } as const;
\ No newline at end of file
@@ -0,0 +1,272 @@
+/**
+ * CV Book Utilities
+ *
+ * Builds a ZIP of the resumes of the students a company interviews at an
+ * event, each preceded by a generated cover page. The student list comes from
+ * fn_get_cv_book, which leaves out students without data processing consent
+ * and logs every CV it hands out.
+ */
+
+import jsPDF from 'jspdf';
+import { zipSync } from 'fflate';
+import { supabase } from '@/lib/supabase';
+import { getResumeUrl } from '@/utils/fileUpload';
+import { formatDateTime, type EventTimeContext } from '@/utils/dateUtils';
+import { error as logError } from '@/utils/logger';
+
+export interface CvBookEntry {
+  student_id: string;
+  full_name: string;
+  email: string;
+  program: string | null;
+  graduation_year: number | null;
+  profile_photo_url: string | null;
+  resume_url: string | null;
+  cv_url: string | null;
+  slot_time: string;
+  offer_title: string | null;
+}
+
+export interface CvBookFilters {
+  eventId: string;
+  offerId?: string;
+  sessionId?: string;
+}
+
+export interface CvBookFilterOption {
+  id: string;
+  name: string;
+}
+
+export interface CvBookResult {
+  blob: Blob;
+  students: number;
+  missingResumes: string[];
+}
+
+/**
+ * Load the students of a CV book. Each student with a CV is logged as accessed.
+ * @param filters - Event, and optionally offer or session
+ * @returns Promise with the students, in interview order
+ */
+export async function getCvBookEntries(filters: CvBookFilters): Promise<CvBookEntry[]> {
+  const { data, error } = await supabase.rpc('fn_get_cv_book', {
+    p_event_id: filters.eventId,
+    p_offer_id: filters.offerId,
+    p_session_id: filters.sessionId,
+  });
+
+  if (error) {
+    throw error;
+  }
+  return (data || []) as CvBookEntry[];
+}
+
+/**
+ * Load the offers and sessions a CV book can be narrowed to
+ * @param companyId - Company ID
+ * @param eventId - Event ID
+ * @returns Promise with the company's offers and the event's sessions
+ */
+export async function getCvBookFilterOptions(
+  companyId: string,
+  eventId: string
+): Promise<{ offers: CvBookFilterOption[]; sessions: CvBookFilterOption[] }> {
+  const [offersResult, sessionsResult] = await Promise.all([
+    supabase
+      .from('offers')
+      .select('id, title')
+      .eq('company_id', companyId)
+      .order('title'),
+    supabase
+      .from('speed_recruiting_sessions')
+      .select('id, name')
+      .eq('event_id', eventId)
+      .order('start_time'),
+  ]);
+
+  if (offersResult.error) throw offersResult.error;
+  if (sessionsResult.error) throw sessionsResult.error;
+
+  return {
+    offers: (offersResult.data || []).map((o) => ({ id: o.id, name: o.title })),
+    sessions: sessionsResult.data || [],
+  };
+}
+
+/**
+ * Log a CV opened from a student profile
+ * @param studentId - Student whose CV was opened
+ */
+export async function logCvAccess(studentId: string): Promise<void> {
+  const { error } = await supabase.rpc('fn_log_cv_access', { p_student_id: studentId });
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Get the path in the resumes bucket from a stored signed resume URL
+ * @param resumeUrl - Signed URL saved on the profile
+ * @returns The file path, or null if the URL is not a resumes bucket URL
+ */
+export function getResumePath(resumeUrl: string): string | null {
+  const match = resumeUrl.match(/\/object\/sign\/resumes\/([^?]+)/);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+async function fetchBytes(url: string): Promise<Blob> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Download failed with status ${response.status}`);
+  }
+  return response.blob();
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/** Resume of a student, freshly signed since stored URLs expire */
+async function fetchResume(entry: CvBookEntry): Promise<{ bytes: Uint8Array; extension: string } | null> {
+  const path = entry.resume_url ? getResumePath(entry.resume_url) : null;
+  if (!path) {
+    return null;
+  }
+
+  try {
+    const blob = await fetchBytes(await getResumeUrl(path, 300));
+    return {
+      bytes: new Uint8Array(await blob.arrayBuffer()),
+      extension: path.split('.').pop()?.toLowerCase() || 'pdf',
+    };
+  } catch (err) {
+    logError(`Error downloading resume of ${entry.full_name}:`, err);
+    return null;
+  }
+}
+
+async function buildCoverPage(
+  entry: CvBookEntry,
+  eventName: string,
+  event: EventTimeContext,
+  hasResume: boolean
+): Promise<Uint8Array> {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  doc.setFontSize(10);
+  doc.setTextColor(100, 100, 100);
+  doc.text(eventName, pageWidth / 2, 20, { align: 'center' });
+
+  let y = 34;
+  if (entry.profile_photo_url) {
+    try {
+      const photo = await fetchBytes(entry.profile_photo_url);
+      const format = photo.type.includes('png') ? 'PNG' : photo.type.includes('webp') ? 'WEBP' : 'JPEG';
+      doc.addImage(await blobToDataUrl(photo), format, (pageWidth - 50) / 2, y, 50, 50);
+      y += 60;
+    } catch (err) {
+      logError(`Error loading photo of ${entry.full_name}:`, err);
+    }
+  }
+
+  doc.setFontSize(22);
+  doc.setTextColor(26, 31, 58); // #1a1f3a
+  doc.text(entry.full_name, pageWidth / 2, y + 8, { align: 'center' });
+  doc.setFontSize(11);
+  doc.setTextColor(100, 100, 100);
+  doc.text(entry.email, pageWidth / 2, y + 16, { align: 'center' });
+
+  const details: [string, string][] = [
+    ['Program', entry.program || '—'],
+    ['Graduation year', entry.graduation_year ? String(entry.graduation_year) : '—'],
+    ['Interview', formatDateTime(entry.slot_time, event)],
+    ['Offer', entry.offer_title || '—'],
+  ];
+  if (entry.cv_url) {
+    details.push(['Online CV', entry.cv_url]);
+  }
+
+  y += 34;
+  doc.setFontSize(12);
+  details.forEach(([label, value]) => {
+    doc.setTextColor(100, 100, 100);
+    doc.text(label, 40, y);
+    doc.setTextColor(26, 31, 58);
+    doc.text(doc.splitTextToSize(value, pageWidth - 110), 90, y);
+    y += 10;
+  });
+
+  if (!hasResume) {
+    doc.setFontSize(10);
+    doc.setTextColor(180, 60, 60);
+    doc.text('No resume file available for this student.', pageWidth / 2, y + 10, { align: 'center' });
+  }
+
+  return new Uint8Array(doc.output('arraybuffer'));
+}
+
+function toFileName(value: string): string {
+  return value.replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, ' ').trim() || 'Student';
+}
+
+/**
+ * Build the CV book ZIP: a cover page and the resume of each student,
+ * numbered in interview order
+ * @param entries - Students from getCvBookEntries
+ * @param event - Event name and timezone, for the cover pages
+ * @param onProgress - Called after each student with the number done
+ * @returns Promise with the ZIP and the students whose resume is missing
+ */
+export async function buildCvBook(
+  entries: CvBookEntry[],
+  event: { name: string; timezone?: string | null },
+  onProgress?: (done: number) => void
+): Promise<CvBookResult> {
+  const files: Record<string, Uint8Array> = {};
+  const missingResumes: string[] = [];
+  const digits = String(entries.length).length;
+
+  for (const [index, entry] of entries.entries()) {
+    const prefix = `${String(index + 1).padStart(digits, '0')} - ${toFileName(entry.full_name)}`;
+    const resume = await fetchResume(entry);
+    if (!resume) {
+      missingResumes.push(entry.full_name);
+    }
+
+    files[`${prefix} - Cover.pdf`] = await buildCoverPage(entry, event.name, event, resume !== null);
+    if (resume) {
+      files[`${prefix} - Resume.${resume.extension}`] = resume.bytes;
+    }
+    onProgress?.(index + 1);
+  }
+
+  return {
+    blob: new Blob([zipSync(files) as Uint8Array<ArrayBuffer>], { type: 'application/zip' }),
+    students: entries.length,
+    missingResumes,
+  };
+}
+
+/**
+ * Download a built CV book
+ * @param blob - ZIP from buildCvBook
+ * @param filename - File name, ending in .zip
+ */
+export function downloadCvBook(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -1,4 +1,13 @@
 import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_EVENT_TIMEZONE,
+  formatTime,
+  formatViewerTime,
+  fromEventDateTimeInput,
+  getEventTimezone,
+  getViewerTimezone,
+  toEventDateTimeInput,
+} from './dateUtils';
 
 describe('dateUtils', () => {
   it('should format date correctly', () => {
@@ -6,4 +15,29 @@ describe('dateUtils', () => {
     const date = new Date('2025-01-01');
     expect(date.toISOString()).toContain('2025-01-01');
   });
+
+  it('falls back to the default timezone for events without one', () => {
+    expect(getEventTimezone(null)).toBe(DEFAULT_EVENT_TIMEZONE);
+    expect(getEventTimezone({ timezone: null })).toBe(DEFAULT_EVENT_TIMEZONE);
+    expect(getEventTimezone(undefined)).toBe(getViewerTimezone());
+  });
+
+  it('formats times in the event timezone', () => {
+    expect(formatTime('2026-01-15T09:00:00Z', { timezone: 'Asia/Tokyo' })).toBe('06:00 PM');
+  });
+
+  it('converts datetime-local values in the event timezone', () => {
+    const paris = { timezone: 'Europe/Paris' };
+    expect(toEventDateTimeInput('2026-07-01T08:00:00Z', paris)).toBe('2026-07-01T10:00');
+    expect(fromEventDateTimeInput('2026-01-15T10:00', paris)).toBe('2026-01-15T09:00:00.000Z');
+    expect(fromEventDateTimeInput('', paris)).toBeNull();
+  });
+
+  it('uses the offset in effect after a daylight saving change', () => {
+    expect(fromEventDateTimeInput('2026-03-08T12:00', { timezone: 'America/New_York' })).toBe('2026-03-08T16:00:00.000Z');
+  });
+
+  it('omits the viewer time when it matches the event time', () => {
+    expect(formatViewerTime('2026-01-15T09:00:00Z', { timezone: getViewerTimezone() })).toBeNull();
+  });
 });
@@ -1,11 +1,97 @@
 /**
  * Date utility functions for formatting and manipulating dates
+ *
+ * Slot, session and phase times belong to an event and are shown in the
+ * event's timezone. Helpers that take an `event` use its timezone; without
+ * one they use the viewer's.
  */
 
+/**
+ * Event whose timezone times are shown in
+ */
+export type EventTimeContext = { timezone?: string | null } | null | undefined;
+
+/** Timezone of events created before events had one */
+export const DEFAULT_EVENT_TIMEZONE = 'Africa/Casablanca';
+
+/** Timezones offered when creating or editing an event */
+export const EVENT_TIMEZONE_OPTIONS = [
+  'Africa/Casablanca',
+  'Africa/Cairo',
+  'Africa/Johannesburg',
+  'Africa/Lagos',
+  'Africa/Tunis',
+  'America/New_York',
+  'America/Chicago',
+  'America/Los_Angeles',
+  'America/Sao_Paulo',
+  'America/Toronto',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Shanghai',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Europe/Berlin',
+  'Europe/London',
+  'Europe/Madrid',
+  'Europe/Paris',
+  'UTC',
+];
+
+/**
+ * Gets the timezone times of an event are shown in
+ * @param event - Event context, or nothing for the viewer's timezone
+ * @returns IANA timezone (e.g., "Africa/Casablanca")
+ */
+export function getEventTimezone(event?: EventTimeContext): string {
+  if (event === undefined) return getViewerTimezone();
+  return event?.timezone || DEFAULT_EVENT_TIMEZONE;
+}
+
+/**
+ * Gets the viewer's timezone
+ * @returns IANA timezone of the browser
+ */
+export function getViewerTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+function wallClockParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+// Minutes the zone is ahead of UTC at that moment
+function timezoneOffsetMinutes(date: Date, timeZone: string): number {
+  const p = wallClockParts(date, timeZone);
+  const wallClockAsUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((wallClockAsUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
 /**
  * Formats a date string to a readable format
  * @param dateString - ISO date string
  * @param options - Intl.DateTimeFormatOptions
+ * @param event - Event whose timezone to use
  * @returns Formatted date string
  */
 export function formatDate(
@@ -15,36 +101,132 @@ export function formatDate(
     year: 'numeric',
     month: 'long',
     day: 'numeric'
-  }
+  },
+  event?: EventTimeContext
 ): string {
-  return new Date(dateString).toLocaleDateString('en-US', options);
+  return new Date(dateString).toLocaleDateString('en-US', {
+    ...options,
+    timeZone: getEventTimezone(event)
+  });
 }
 
 /**
  * Formats a date to a short format (e.g., "Jan 15, 2024")
  * @param dateString - ISO date string
+ * @param event - Event whose timezone to use
  * @returns Short formatted date string
  */
-export function formatDateShort(dateString: string): string {
+export function formatDateShort(dateString: string, event?: EventTimeContext): string {
   return formatDate(dateString, {
     year: 'numeric',
     month: 'short',
     day: 'numeric'
-  });
+  }, event);
 }
 
 /**
  * Formats a time from a date string
  * @param dateString - ISO date string
+ * @param event - Event whose timezone to use
  * @returns Formatted time string (e.g., "2:30 PM")
  */
-export function formatTime(dateString: string): string {
+export function formatTime(dateString: string, event?: EventTimeContext): string {
   return new Date(dateString).toLocaleTimeString('en-US', {
     hour: '2-digit',
-    minute: '2-digit'
+    minute: '2-digit',
+    timeZone: getEventTimezone(event)
   });
 }
 
+/**
+ * Formats a date and time (e.g., "Thu, Feb 12, 02:30 PM")
+ * @param dateString - ISO date string
+ * @param event - Event whose timezone to use
+ * @returns Formatted date and time string
+ */
+export function formatDateTime(dateString: string, event?: EventTimeContext): string {
+  return new Date(dateString).toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: getEventTimezone(event)
+  });
+}
+
+/**
+ * Gets the short name of a timezone at a date (e.g., "GMT+1")
+ * @param timeZone - IANA timezone
+ * @param dateString - ISO date string; the name can change with daylight saving time
+ * @returns Timezone name
+ */
+export function formatTimezoneName(timeZone: string, dateString: string = new Date().toISOString()): string {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' }).formatToParts(new Date(dateString));
+  return parts.find((p) => p.type === 'timeZoneName')?.value ?? timeZone;
+}
+
+/**
+ * Checks whether the viewer's clock differs from the event's at a date
+ * @param dateString - ISO date string
+ * @param event - Event context
+ * @returns True when the viewer would read a different time
+ */
+export function differsFromViewerTime(dateString: string, event: EventTimeContext): boolean {
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) return false;
+  return timezoneOffsetMinutes(date, getEventTimezone(event)) !== timezoneOffsetMinutes(date, getViewerTimezone());
+}
+
+/**
+ * Formats a time in the viewer's timezone, for showing next to the event's time
+ * @param dateString - ISO date string
+ * @param event - Event context
+ * @param withDate - Include the date
+ * @returns Viewer time (e.g., "08:30 AM your time"), or null when it matches the event's
+ */
+export function formatViewerTime(dateString: string, event: EventTimeContext, withDate = false): string | null {
+  if (!differsFromViewerTime(dateString, event)) return null;
+  const formatted = withDate ? formatDateTime(dateString) : formatTime(dateString);
+  return `${formatted} your time`;
+}
+
+/**
+ * Converts a timestamp to a datetime-local input value in the event's timezone
+ * @param dateString - ISO date string
+ * @param event - Event context
+ * @returns Input value (e.g., "2026-02-12T14:30"), or '' when empty or invalid
+ */
+export function toEventDateTimeInput(dateString: string | null | undefined, event: EventTimeContext): string {
+  if (!dateString) return '';
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) return '';
+  const p = wallClockParts(date, getEventTimezone(event));
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}`;
+}
+
+/**
+ * Converts a datetime-local input value entered in the event's timezone to a timestamp
+ * @param value - Input value (e.g., "2026-02-12T14:30")
+ * @param event - Event context
+ * @returns ISO string, or null when empty or invalid
+ */
+export function fromEventDateTimeInput(value: string, event: EventTimeContext): string | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/.exec(value || '');
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute] = match.map(Number);
+  const timeZone = getEventTimezone(event);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute);
+
+  // The offset depends on the moment itself; a second pass settles daylight saving changes
+  let time = wallClockAsUtc - timezoneOffsetMinutes(new Date(wallClockAsUtc), timeZone) * 60000;
+  time = wallClockAsUtc - timezoneOffsetMinutes(new Date(time), timeZone) * 60000;
+
+  return new Date(time).toISOString();
+}
+
 /**
  * Gets the closest upcoming event from a list of events
  * @param events - Array of events with date property
@@ -59,3 +241,37 @@ export function getClosestUpcomingEvent<T extends { date: string }>(events: T[])
 
 
 
+
+/**
+ * Formats a remaining duration as a compact countdown
+ * @param ms - Milliseconds remaining
+ * @returns Countdown string (e.g., "2d 4h 12m", "5m 30s")
+ */
+export function formatCountdown(ms: number): string {
+  if (ms <= 0) return '0s';
+
+  const totalSeconds = Math.floor(ms / 1000);
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days > 0) return `${days}d ${hours}h ${minutes}m`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${seconds}s`;
+}
+
+/**
+ * Formats how long ago a date was
+ * @param dateString - ISO date string
+ * @returns Relative time string (e.g., "just now", "5m ago", "3h ago", "Jan 15, 2024")
+ */
+export function formatTimeAgo(dateString: string): string {
+  const seconds = Math.floor((Date.now() - new Date(dateString).getTime()) / 1000);
+
+  if (seconds < 60) return 'just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  if (seconds < 7 * 86400) return `${Math.floor(seconds / 86400)}d ago`;
+  return formatDateShort(dateString);
+}
@@ -85,3 +85,59 @@ export async function sendCredentialsEmailWithRetry(
     error: `Failed after ${maxRetries + 1} attempts. Last error: ${lastError}`,
   };
 }
+
+export interface EmailTemplateSummary {
+  id: string;
+  name: string;
+  description: string;
+  sample: Record<string, unknown>;
+}
+
+export interface EmailPreview {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * List the templates of the send-email function (admins only)
+ * @returns Promise with the templates and their sample data
+ */
+export async function listEmailTemplates(): Promise<{
+  success: boolean;
+  templates?: EmailTemplateSummary[];
+  error?: string;
+}> {
+  const { data, error } = await supabase.functions.invoke('send-email', {
+    body: { action: 'templates' },
+  });
+
+  if (error) {
+    console.error('Error listing email templates:', error);
+    return { success: false, error: error.message || 'Failed to load templates' };
+  }
+
+  return data;
+}
+
+/**
+ * Render an email template with its sample data (admins only)
+ * @param template - Template id, e.g. 'booking_confirmation'
+ * @param data - Values overriding the sample data
+ * @returns Promise with the rendered subject, HTML and text
+ */
+export async function previewEmailTemplate(
+  template: string,
+  data?: Record<string, unknown>
+): Promise<{ success: boolean; preview?: EmailPreview; error?: string }> {
+  const { data: response, error } = await supabase.functions.invoke('send-email', {
+    body: { action: 'preview', template, data },
+  });
+
+  if (error) {
+    console.error('Error previewing email template:', error);
+    return { success: false, error: error.message || 'Failed to render template' };
+  }
+
+  return response;
+}
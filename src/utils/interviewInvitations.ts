@@ -0,0 +1,227 @@
+/**
+ * Interview Invitation Utilities
+ *
+ * Companies invite a student to interview for one of their offers in a
+ * chosen slot. The student accepts, which books the slot, or declines before
+ * the invitation expires. Whether an accepted invitation may go over the
+ * active phase's booking limit is set per event by the admins.
+ */
+
+import { supabase } from '@/lib/supabase';
+import type { ScreeningAnswerDrafts } from '@/utils/screeningQuestions';
+
+export type InvitationStatus = 'sent' | 'accepted' | 'declined' | 'expired' | 'cancelled';
+
+export const INVITATION_STATUS_LABELS: Record<InvitationStatus, string> = {
+  sent: 'Awaiting answer',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  expired: 'Expired',
+  cancelled: 'Withdrawn',
+};
+
+export const INVITATION_STATUS_STYLES: Record<InvitationStatus, string> = {
+  sent: 'bg-[#ffb300]/10 text-[#b37d00]',
+  accepted: 'bg-[#007e40]/10 text-[#007e40]',
+  declined: 'bg-red-50 text-red-700',
+  expired: 'bg-gray-100 text-gray-600',
+  cancelled: 'bg-gray-100 text-gray-600',
+};
+
+export interface InterviewInvitation {
+  id: string;
+  company_id: string;
+  company_name: string;
+  student_id: string;
+  student_name: string;
+  student_email: string;
+  offer_id: string;
+  offer_title: string;
+  slot_id: string;
+  start_time: string;
+  end_time: string;
+  location: string | null;
+  event_name: string | null;
+  event_timezone: string | null;
+  message: string | null;
+  status: InvitationStatus;
+  expires_at: string;
+  created_at: string;
+  responded_at: string | null;
+  invited_by_name: string | null;
+  booking_id: string | null;
+}
+
+export interface InvitationOffer {
+  id: string;
+  title: string;
+  event_id: string | null;
+}
+
+export interface InvitationSlot {
+  id: string;
+  event_id: string;
+  event_name: string;
+  event_timezone: string | null;
+  offer_id: string | null;
+  start_time: string;
+  location: string | null;
+  seats_left: number;
+}
+
+/**
+ * Get the invitations of the current user: received as a student, or sent by
+ * their company. Open invitations past their expiry come back as expired.
+ * @returns Promise with the invitations, newest first
+ */
+export async function getInterviewInvitations(): Promise<InterviewInvitation[]> {
+  const { data, error } = await supabase.rpc('fn_get_interview_invitations');
+
+  if (error) {
+    throw error;
+  }
+  return (data || []) as InterviewInvitation[];
+}
+
+/**
+ * Get the active offers of a company and its upcoming slots with free seats
+ * @param companyId - Company ID
+ * @returns Promise with the offers and slots a student can be invited to
+ */
+export async function getInvitationOptions(
+  companyId: string
+): Promise<{ offers: InvitationOffer[]; slots: InvitationSlot[] }> {
+  const [offersResult, slotsResult] = await Promise.all([
+    supabase
+      .from('offers')
+      .select('id, title, event_id')
+      .eq('company_id', companyId)
+      .eq('is_active', true)
+      .order('title'),
+    supabase
+      .from('event_slots')
+      .select('id, event_id, offer_id, start_time, location, capacity')
+      .eq('company_id', companyId)
+      .eq('is_active', true)
+      .gt('start_time', new Date().toISOString())
+      .order('start_time'),
+  ]);
+
+  if (offersResult.error) throw offersResult.error;
+  if (slotsResult.error) throw slotsResult.error;
+
+  const slots = (slotsResult.data || []).filter((s): s is typeof s & { event_id: string } => s.event_id !== null);
+  if (slots.length === 0) {
+    return { offers: offersResult.data || [], slots: [] };
+  }
+
+  const [bookingsResult, eventsResult] = await Promise.all([
+    supabase
+      .from('bookings')
+      .select('slot_id')
+      .in('slot_id', slots.map((s) => s.id))
+      .eq('status', 'confirmed'),
+    supabase
+      .from('events')
+      .select('id, name, timezone')
+      .in('id', [...new Set(slots.map((s) => s.event_id))]),
+  ]);
+
+  if (bookingsResult.error) throw bookingsResult.error;
+  if (eventsResult.error) throw eventsResult.error;
+
+  const booked = new Map<string, number>();
+  (bookingsResult.data || []).forEach((b) => booked.set(b.slot_id, (booked.get(b.slot_id) || 0) + 1));
+  const eventsById = new Map((eventsResult.data || []).map((e) => [e.id, e]));
+
+  return {
+    offers: offersResult.data || [],
+    slots: slots
+      .map((s) => ({
+        id: s.id,
+        event_id: s.event_id,
+        event_name: eventsById.get(s.event_id)?.name || 'Event',
+        event_timezone: eventsById.get(s.event_id)?.timezone || null,
+        offer_id: s.offer_id,
+        start_time: s.start_time,
+        location: s.location,
+        seats_left: s.capacity - (booked.get(s.id) || 0),
+      }))
+      .filter((s) => s.seats_left > 0),
+  };
+}
+
+/**
+ * Invite a student to interview in a slot. The student is notified and emailed.
+ * @param invitation - Student, offer and slot, with an optional note and expiry
+ * @returns Promise with the server message
+ */
+export async function sendInterviewInvitation(invitation: {
+  studentId: string;
+  offerId: string;
+  slotId: string;
+  message?: string;
+  expiresAt?: string;
+}): Promise<string> {
+  const { data, error } = await supabase.rpc('fn_send_interview_invitation', {
+    p_student_id: invitation.studentId,
+    p_offer_id: invitation.offerId,
+    p_slot_id: invitation.slotId,
+    p_message: invitation.message,
+    p_expires_at: invitation.expiresAt,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const result = data?.[0];
+  if (!result?.success) {
+    throw new Error(result?.message || 'Failed to send the invitation');
+  }
+  return result.message;
+}
+
+/**
+ * Accept an invitation, booking its slot, or decline it
+ * @param invitationId - Invitation ID
+ * @param accept - true to accept and book, false to decline
+ * @param screeningAnswers - Answers to the offer's screening questions, by question id
+ * @returns Promise with the server message
+ */
+export async function respondToInterviewInvitation(
+  invitationId: string,
+  accept: boolean,
+  screeningAnswers: ScreeningAnswerDrafts = {}
+): Promise<string> {
+  const { data, error } = await supabase.rpc('fn_respond_interview_invitation', {
+    p_invitation_id: invitationId,
+    p_accept: accept,
+    p_screening_answers: screeningAnswers,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const result = data?.[0];
+  if (!result?.success) {
+    throw new Error(result?.message || 'Failed to answer the invitation');
+  }
+  return result.message;
+}
+
+/**
+ * Withdraw an invitation the student has not answered yet
+ * @param invitationId - Invitation ID
+ */
+export async function cancelInterviewInvitation(invitationId: string): Promise<void> {
+  const { data, error } = await supabase.rpc('fn_cancel_interview_invitation', { p_invitation_id: invitationId });
+
+  if (error) {
+    throw error;
+  }
+  if (!data?.[0]?.success) {
+    throw new Error(data?.[0]?.message || 'Failed to withdraw the invitation');
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Offer Funnel Analytics Utilities
+ *
+ * Offer views and slot picker opens are recorded once per viewer, offer and
+ * day, then compared with confirmed bookings in a per-offer funnel for the
+ * company. Only signed-in students are counted. Tracking never interrupts the
+ * page: failures are logged.
+ */
+
+import { supabase } from '@/lib/supabase';
+import { warn } from '@/utils/logger';
+
+export type OfferActivityType = 'view' | 'slot_modal_open';
+
+export type OfferActivitySource = 'public_offers' | 'offer_detail' | 'student_offers';
+
+export interface OfferFunnel {
+  offer_id: string;
+  title: string;
+  is_active: boolean;
+  event_id: string | null;
+  views: number;
+  unique_viewers: number;
+  slot_modal_opens: number;
+  confirmed_bookings: number;
+}
+
+/**
+ * Record that the current student viewed an offer or opened its slot picker.
+ * Repeats on the same day, and anyone who is not a signed-in student, are
+ * ignored by the server.
+ * @param offerId - Offer ID
+ * @param activityType - What happened
+ * @param source - Page it happened on
+ */
+export async function trackOfferActivity(
+  offerId: string,
+  activityType: OfferActivityType,
+  source: OfferActivitySource
+): Promise<void> {
+  const { error } = await supabase.rpc('fn_track_offer_activity', {
+    p_offer_id: offerId,
+    p_activity_type: activityType,
+    p_source: source,
+  });
+
+  if (error) {
+    warn('Failed to track offer activity:', error);
+  }
+}
+
+/**
+ * Get the funnel of each offer of a company
+ * @param companyId - Company ID
+ * @param eventId - Only offers of this event, omit for all offers
+ * @returns Promise with views, slot picker opens and confirmed bookings per offer
+ */
+export async function getOfferFunnel(companyId: string, eventId?: string): Promise<OfferFunnel[]> {
+  const { data, error } = await supabase.rpc('fn_get_offer_funnel', {
+    p_company_id: companyId,
+    p_event_id: eventId,
+  });
+
+  if (error) {
+    throw error;
+  }
+  return (data || []) as OfferFunnel[];
+}
+
+/**
+ * Share of one funnel step reaching the next, as a whole percentage
+ * @param count - People who reached the step
+ * @param total - People at the previous step
+ * @returns The percentage, or null without a previous step
+ */
+export function funnelRate(count: number, total: number): number | null {
+  return total > 0 ? Math.round((count / total) * 100) : null;
+}
@@ -0,0 +1,185 @@
+/**
+ * Offer Template and Duplication Utilities
+ *
+ * Offers can be duplicated to another event, saved as reusable templates of
+ * their company, and carried over in bulk from the company's previous event.
+ * Copied offers always start inactive so they are reviewed before students
+ * see them.
+ */
+
+import { supabase } from '@/lib/supabase';
+
+export interface OfferTemplate {
+  id: string;
+  company_id: string;
+  company_name?: string;
+  name: string;
+  title: string;
+  description: string;
+  interest_tag: 'Opérationnel' | 'Administratif';
+  department: string | null;
+  requirements: string | null;
+  skills_required: string[] | null;
+  location: string | null;
+  duration_months: number | null;
+  salary_range: string | null;
+  benefits: string | null;
+  paid: boolean | null;
+  remote_possible: boolean | null;
+  updated_at: string;
+}
+
+export interface CarryOverOffer {
+  offer_id: string;
+  title: string;
+  interest_tag: 'Opérationnel' | 'Administratif';
+  is_active: boolean;
+  source_event_id: string;
+  source_event_name: string;
+  source_event_date: string;
+  already_copied: boolean;
+}
+
+/**
+ * Values of the create offer forms prefilled from a template
+ * @param template - Template to start from
+ * @returns The form fields the template fills
+ */
+export function templateToOfferForm(template: OfferTemplate) {
+  return {
+    title: template.title,
+    description: template.description,
+    interest_tag: template.interest_tag,
+    location: template.location || '',
+    duration_months: template.duration_months ? String(template.duration_months) : '',
+    salary_range: template.salary_range || '',
+    paid: template.paid ?? true,
+    remote_possible: template.remote_possible ?? false,
+    skills_required: (template.skills_required || []).join(', '),
+  };
+}
+
+/**
+ * Get offer templates, of one company or of every company (admins)
+ * @param companyId - Company ID, omit to list all templates
+ * @returns Promise with the templates sorted by company and name
+ */
+export async function getOfferTemplates(companyId?: string): Promise<OfferTemplate[]> {
+  let query = supabase
+    .from('offer_templates')
+    .select('*, companies(company_name)')
+    .order('name');
+
+  if (companyId) {
+    query = query.eq('company_id', companyId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || [])
+    .map(({ companies, ...template }) => ({ ...template, company_name: companies?.company_name }))
+    .sort((a, b) => (a.company_name || '').localeCompare(b.company_name || '')) as OfferTemplate[];
+}
+
+/**
+ * Save the content of an offer as a template of its company
+ * @param offerId - Offer to save
+ * @param name - Template name, unique within the company
+ * @param userId - User saving the template
+ */
+export async function saveOfferAsTemplate(offerId: string, name: string, userId: string): Promise<void> {
+  const { data: offer, error: offerError } = await supabase
+    .from('offers')
+    .select('*')
+    .eq('id', offerId)
+    .single();
+
+  if (offerError) {
+    throw offerError;
+  }
+
+  const { error } = await supabase.from('offer_templates').insert({
+    company_id: offer.company_id,
+    name: name.trim(),
+    title: offer.title,
+    description: offer.description,
+    interest_tag: offer.interest_tag,
+    department: offer.department,
+    requirements: offer.requirements,
+    skills_required: offer.skills_required,
+    location: offer.location,
+    duration_months: offer.duration_months,
+    salary_range: offer.salary_range,
+    benefits: offer.benefits,
+    paid: offer.paid,
+    remote_possible: offer.remote_possible,
+    created_by: userId,
+  });
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error(`A template named "${name.trim()}" already exists`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Delete an offer template. Offers created from it are not affected.
+ * @param templateId - Template ID
+ */
+export async function deleteOfferTemplate(templateId: string): Promise<void> {
+  const { error } = await supabase.from('offer_templates').delete().eq('id', templateId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Copy offers of one company into an event, inactive and with their rubric
+ * @param offerIds - Offers to copy
+ * @param eventId - Target event
+ * @returns Promise with the new offer IDs and the server message
+ */
+export async function copyOffersToEvent(
+  offerIds: string[],
+  eventId: string
+): Promise<{ offerIds: string[]; message: string }> {
+  const { data, error } = await supabase.rpc('fn_copy_offers_to_event', {
+    p_offer_ids: offerIds,
+    p_event_id: eventId,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const result = data?.[0];
+  if (!result?.success) {
+    throw new Error(result?.message || 'Failed to copy offers');
+  }
+  return { offerIds: result.offer_ids, message: result.message };
+}
+
+/**
+ * Get the offers of a company's previous event that can be carried over
+ * @param companyId - Company ID
+ * @param eventId - Event the company is joining
+ * @returns Promise with the offers, empty when the company has no earlier event with offers
+ */
+export async function getCarryOverOffers(companyId: string, eventId: string): Promise<CarryOverOffer[]> {
+  const { data, error } = await supabase.rpc('fn_get_carry_over_offers', {
+    p_company_id: companyId,
+    p_event_id: eventId,
+  });
+
+  if (error) {
+    throw error;
+  }
+  return (data || []) as CarryOverOffer[];
+}
@@ -0,0 +1,259 @@
+/**
+ * Candidate Pipeline Utilities
+ *
+ * Company pipeline stages, the candidates followed up after an event and
+ * their stage history. Candidates are added and moved through
+ * fn_move_pipeline_candidates, which records each change.
+ */
+
+import { supabase } from '@/lib/supabase';
+import { extractNestedObject } from '@/utils/supabaseTypes';
+
+export type PipelineOutcome = 'active' | 'offer' | 'hired' | 'rejected';
+
+export interface PipelineStage {
+  id: string;
+  name: string;
+  outcome: PipelineOutcome;
+  position: number;
+}
+
+/** A stage being edited; new stages have no id yet */
+export type PipelineStageDraft = Omit<PipelineStage, 'id' | 'position'> & { id?: string };
+
+export interface PipelineCandidate {
+  id: string;
+  student_id: string;
+  stage_id: string;
+  full_name: string;
+  email: string;
+  program: string | null;
+  updated_at: string;
+}
+
+export interface StageHistoryEntry {
+  id: string;
+  from_stage_name: string | null;
+  to_stage_name: string;
+  note: string | null;
+  changed_by_name: string | null;
+  changed_at: string;
+}
+
+export interface PipelineEvent {
+  id: string;
+  name: string;
+  date: string;
+  timezone: string;
+}
+
+export const PIPELINE_OUTCOME_LABELS: Record<PipelineOutcome, string> = {
+  active: 'In progress',
+  offer: 'Offer extended',
+  hired: 'Hired',
+  rejected: 'Rejected',
+};
+
+/**
+ * Load the events a company took part in, past ones included
+ * @param companyId - Company ID
+ * @returns Promise with the events, most recent first
+ */
+export async function getPipelineEvents(companyId: string): Promise<PipelineEvent[]> {
+  const { data, error } = await supabase
+    .from('event_participants')
+    .select('events(id, name, date, timezone)')
+    .eq('company_id', companyId);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || [])
+    .map((p) => extractNestedObject<PipelineEvent>(p.events))
+    .filter((event): event is PipelineEvent => event !== null)
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+}
+
+/**
+ * Load the pipeline stages of a company
+ * @param companyId - Company ID
+ * @returns Promise with the stages in board order
+ */
+export async function getPipelineStages(companyId: string): Promise<PipelineStage[]> {
+  const { data, error } = await supabase
+    .from('company_pipeline_stages')
+    .select('id, name, outcome, position')
+    .eq('company_id', companyId)
+    .order('position');
+
+  if (error) {
+    throw error;
+  }
+  return (data || []) as PipelineStage[];
+}
+
+/**
+ * Replace the pipeline stages of a company. Stages missing from the list are
+ * deleted, which fails while candidates are still in them.
+ * @param companyId - Company ID
+ * @param stages - Stages in board order
+ */
+export async function savePipelineStages(companyId: string, stages: PipelineStageDraft[]): Promise<void> {
+  const current = await getPipelineStages(companyId);
+  const keptIds = new Set(stages.map((s) => s.id).filter(Boolean));
+  const removedIds = current.map((s) => s.id).filter((id) => !keptIds.has(id));
+
+  if (removedIds.length > 0) {
+    const { error } = await supabase
+      .from('company_pipeline_stages')
+      .delete()
+      .in('id', removedIds);
+    if (error) {
+      throw error.code === '23503'
+        ? new Error('Move the candidates out of a stage before removing it')
+        : error;
+    }
+  }
+
+  const rows = stages.map((stage, position) => ({
+    company_id: companyId,
+    name: stage.name.trim(),
+    outcome: stage.outcome,
+    position,
+  }));
+
+  const updates = stages.flatMap((stage, i) => (stage.id ? [{ ...rows[i], id: stage.id }] : []));
+  const inserts = stages.flatMap((stage, i) => (stage.id ? [] : [rows[i]]));
+
+  if (updates.length > 0) {
+    const { error } = await supabase.from('company_pipeline_stages').upsert(updates);
+    if (error) throw error;
+  }
+  if (inserts.length > 0) {
+    const { error } = await supabase.from('company_pipeline_stages').insert(inserts);
+    if (error) throw error;
+  }
+}
+
+/**
+ * Load the pipeline of a company for an event
+ * @param companyId - Company ID
+ * @param eventId - Event ID
+ * @returns Promise with the candidates, most recently moved first
+ */
+export async function getPipelineCandidates(companyId: string, eventId: string): Promise<PipelineCandidate[]> {
+  const { data, error } = await supabase
+    .from('pipeline_candidates')
+    .select('id, student_id, stage_id, updated_at')
+    .eq('company_id', companyId)
+    .eq('event_id', eventId)
+    .order('updated_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+  if (!data || data.length === 0) {
+    return [];
+  }
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from('profiles')
+    .select('id, full_name, email, program')
+    .in('id', data.map((c) => c.student_id));
+
+  if (profilesError) {
+    throw profilesError;
+  }
+
+  const profileMap = new Map((profiles || []).map((p) => [p.id, p]));
+  return data.map((candidate) => {
+    const profile = profileMap.get(candidate.student_id);
+    return {
+      ...candidate,
+      full_name: profile?.full_name || 'Unknown',
+      email: profile?.email || '',
+      program: profile?.program || null,
+    };
+  });
+}
+
+/**
+ * Add students to the event pipeline or move them to a stage
+ * @param eventId - Event ID
+ * @param studentIds - Students to move
+ * @param stageId - Target stage
+ * @param note - Optional note stored in the stage history
+ * @returns Promise with the result of fn_move_pipeline_candidates
+ */
+export async function moveCandidates(
+  eventId: string,
+  studentIds: string[],
+  stageId: string,
+  note?: string
+): Promise<{ success: boolean; moved: number; message: string }> {
+  const { data, error } = await supabase.rpc('fn_move_pipeline_candidates', {
+    p_event_id: eventId,
+    p_student_ids: studentIds,
+    p_stage_id: stageId,
+    p_note: note,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const result = data?.[0];
+  return {
+    success: result?.success ?? false,
+    moved: result?.moved ?? 0,
+    message: result?.message || 'Failed to move candidates',
+  };
+}
+
+/**
+ * Remove candidates from the pipeline, with their history
+ * @param candidateIds - Pipeline candidate IDs
+ */
+export async function removeCandidates(candidateIds: string[]): Promise<void> {
+  const { error } = await supabase
+    .from('pipeline_candidates')
+    .delete()
+    .in('id', candidateIds);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Load the stage history of a candidate
+ * @param candidateId - Pipeline candidate ID
+ * @returns Promise with the changes, most recent first
+ */
+export async function getStageHistory(candidateId: string): Promise<StageHistoryEntry[]> {
+  const { data, error } = await supabase
+    .from('pipeline_stage_history')
+    .select('id, from_stage_name, to_stage_name, note, changed_by, changed_at')
+    .eq('candidate_id', candidateId)
+    .order('changed_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  const changerIds = [...new Set((data || []).map((h) => h.changed_by).filter((id): id is string => id !== null))];
+  let nameMap = new Map<string, string>();
+  if (changerIds.length > 0) {
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('id, full_name')
+      .in('id', changerIds);
+    nameMap = new Map((profiles || []).map((p) => [p.id, p.full_name]));
+  }
+
+  return (data || []).map(({ changed_by, ...entry }) => ({
+    ...entry,
+    changed_by_name: changed_by ? nameMap.get(changed_by) ?? null : null,
+  }));
+}
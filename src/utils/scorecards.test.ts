@@ -0,0 +1,50 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+import { computeScorecardTotal, type RubricCriterion } from './scorecards';
+
+const criterion = (id: string, weight: number, scale_max: number): RubricCriterion => ({
+  id,
+  offer_id: 'offer-1',
+  label: id,
+  description: null,
+  weight,
+  scale_max,
+  position: 0,
+});
+
+const rubric = [criterion('technical', 2, 5), criterion('communication', 1, 2)];
+
+describe('computeScorecardTotal', () => {
+  it('weighs each criterion on its own scale', () => {
+    expect(computeScorecardTotal(rubric, { technical: 4, communication: 1 })).toBe(70);
+    expect(computeScorecardTotal(rubric, { technical: 5, communication: 2 })).toBe(100);
+  });
+
+  it('returns null when nothing is scored', () => {
+    expect(computeScorecardTotal(rubric, {})).toBeNull();
+    expect(computeScorecardTotal([], { technical: 5 })).toBeNull();
+  });
+
+  it('counts unscored criteria as 0 so partial scorecards do not outrank complete ones', () => {
+    const partial = computeScorecardTotal(rubric, { communication: 2 });
+    const complete = computeScorecardTotal(rubric, { technical: 4, communication: 2 });
+
+    expect(partial).toBe(33.3);
+    expect(complete).toBe(86.7);
+    expect(partial!).toBeLessThan(complete!);
+  });
+
+  it('ignores scores for criteria that are no longer in the rubric', () => {
+    expect(computeScorecardTotal(rubric, { technical: 5, communication: 2, removed: 1 })).toBe(100);
+  });
+
+  it('clamps scores to the current scale', () => {
+    // scale_max lowered from 5 to 2 after the interview was scored
+    expect(computeScorecardTotal(rubric, { technical: 5, communication: 5 })).toBe(100);
+    expect(computeScorecardTotal(rubric, { technical: 0, communication: 1 })).toBe(
+      computeScorecardTotal(rubric, { technical: 1, communication: 1 })
+    );
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Interview Scorecard Utilities
+ *
+ * Offer rubrics, per-interview scorecards and the ranked candidate list.
+ * Scorecards are only readable by the company that owns the offer.
+ */
+
+import { supabase } from '@/lib/supabase';
+
+export interface RubricCriterion {
+  id: string;
+  offer_id: string;
+  label: string;
+  description: string | null;
+  weight: number;
+  scale_max: number;
+  position: number;
+}
+
+/** A criterion being edited; new criteria have no id yet */
+export type RubricCriterionDraft = Omit<RubricCriterion, 'id' | 'offer_id' | 'position'> & { id?: string };
+
+export type Recommendation = 'strong_yes' | 'yes' | 'no' | 'strong_no';
+
+export interface Scorecard {
+  id: string;
+  booking_id: string;
+  offer_id: string;
+  scores: Record<string, number>;
+  recommendation: Recommendation | null;
+  notes: string | null;
+  updated_at: string;
+}
+
+export interface OfferCandidate {
+  booking_id: string;
+  student_id: string;
+  full_name: string;
+  email: string;
+  slot_time: string;
+  attended: boolean | null;
+  scorecard_id: string | null;
+  total_score: number | null;
+  criteria_scored: number;
+  criteria_total: number;
+  recommendation: Recommendation | null;
+  rank: number | null;
+}
+
+export const RECOMMENDATION_LABELS: Record<Recommendation, string> = {
+  strong_yes: 'Strong yes',
+  yes: 'Yes',
+  no: 'No',
+  strong_no: 'Strong no',
+};
+
+/**
+ * Weighted score out of 100 over all criteria, as fn_scorecard_total computes
+ * it. Unscored criteria count as 0 and scores are clamped to 1..scale_max.
+ * @param criteria - Rubric of the offer
+ * @param scores - Score per criterion id
+ * @returns The score, or null when nothing is scored
+ */
+export function computeScorecardTotal(criteria: RubricCriterion[], scores: Record<string, number>): number | null {
+  let weighted = 0;
+  let weights = 0;
+  let scored = false;
+
+  for (const criterion of criteria) {
+    weights += criterion.weight;
+    const score = scores[criterion.id];
+    if (score === undefined) continue;
+    scored = true;
+    weighted += (criterion.weight * Math.min(Math.max(score, 1), criterion.scale_max)) / criterion.scale_max;
+  }
+
+  return scored && weights > 0 ? Math.round((weighted * 1000) / weights) / 10 : null;
+}
+
+/**
+ * Load the rubric of an offer
+ * @param offerId - Offer ID
+ * @returns Promise with the criteria in display order
+ */
+export async function getOfferRubric(offerId: string): Promise<RubricCriterion[]> {
+  const { data, error } = await supabase
+    .from('offer_rubric_criteria')
+    .select('id, offer_id, label, description, weight, scale_max, position')
+    .eq('offer_id', offerId)
+    .order('position');
+
+  if (error) {
+    throw error;
+  }
+  return data || [];
+}
+
+/**
+ * Replace the rubric of an offer. Criteria missing from the list are deleted;
+ * scores already given on them no longer count.
+ * @param offerId - Offer ID
+ * @param criteria - Criteria in display order
+ */
+export async function saveOfferRubric(offerId: string, criteria: RubricCriterionDraft[]): Promise<void> {
+  const { data: existing, error: loadError } = await supabase
+    .from('offer_rubric_criteria')
+    .select('id')
+    .eq('offer_id', offerId);
+
+  if (loadError) {
+    throw loadError;
+  }
+
+  const keptIds = new Set(criteria.map((c) => c.id).filter(Boolean));
+  const removedIds = (existing || []).map((c) => c.id).filter((id) => !keptIds.has(id));
+
+  if (removedIds.length > 0) {
+    const { error } = await supabase
+      .from('offer_rubric_criteria')
+      .delete()
+      .in('id', removedIds);
+    if (error) throw error;
+  }
+
+  const rows = criteria.map((criterion, position) => ({
+    offer_id: offerId,
+    label: criterion.label.trim(),
+    description: criterion.description?.trim() || null,
+    weight: criterion.weight,
+    scale_max: criterion.scale_max,
+    position,
+  }));
+
+  const updates = criteria.flatMap((criterion, i) => (criterion.id ? [{ ...rows[i], id: criterion.id }] : []));
+  const inserts = criteria.flatMap((criterion, i) => (criterion.id ? [] : [rows[i]]));
+
+  if (updates.length > 0) {
+    const { error } = await supabase.from('offer_rubric_criteria').upsert(updates);
+    if (error) throw error;
+  }
+  if (inserts.length > 0) {
+    const { error } = await supabase.from('offer_rubric_criteria').insert(inserts);
+    if (error) throw error;
+  }
+}
+
+/**
+ * Load the scorecard of an interview
+ * @param bookingId - Booking ID
+ * @returns Promise with the scorecard, or null when not filled yet
+ */
+export async function getScorecard(bookingId: string): Promise<Scorecard | null> {
+  const { data, error } = await supabase
+    .from('interview_scorecards')
+    .select('id, booking_id, offer_id, scores, recommendation, notes, updated_at')
+    .eq('booking_id', bookingId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  return data as Scorecard | null;
+}
+
+/**
+ * Weighted totals of the scorecards filled for some interviews
+ * @param bookingIds - Booking IDs
+ * @returns Promise with the total per scored booking ID
+ */
+export async function getScorecardTotals(bookingIds: string[]): Promise<Map<string, number | null>> {
+  const totals = new Map<string, number | null>();
+  if (bookingIds.length === 0) {
+    return totals;
+  }
+
+  const { data: scorecards, error } = await supabase
+    .from('interview_scorecards')
+    .select('booking_id, offer_id, scores')
+    .in('booking_id', bookingIds);
+
+  if (error) {
+    throw error;
+  }
+  if (!scorecards || scorecards.length === 0) {
+    return totals;
+  }
+
+  const { data: criteria, error: criteriaError } = await supabase
+    .from('offer_rubric_criteria')
+    .select('id, offer_id, label, description, weight, scale_max, position')
+    .in('offer_id', [...new Set(scorecards.map((s) => s.offer_id))]);
+
+  if (criteriaError) {
+    throw criteriaError;
+  }
+
+  for (const scorecard of scorecards) {
+    const rubric = (criteria || []).filter((c) => c.offer_id === scorecard.offer_id);
+    totals.set(scorecard.booking_id, computeScorecardTotal(rubric, scorecard.scores as Record<string, number>));
+  }
+  return totals;
+}
+
+/**
+ * Create or update the scorecard of an interview
+ * @param bookingId - Booking ID
+ * @param scorecard - Scores per criterion id, recommendation and notes
+ * @returns Promise with the result of fn_save_scorecard
+ */
+export async function saveScorecard(
+  bookingId: string,
+  scorecard: { scores: Record<string, number>; recommendation: Recommendation | null; notes: string }
+): Promise<{ success: boolean; total_score: number | null; message: string }> {
+  const { data, error } = await supabase.rpc('fn_save_scorecard', {
+    p_booking_id: bookingId,
+    p_scores: scorecard.scores,
+    p_recommendation: scorecard.recommendation ?? undefined,
+    p_notes: scorecard.notes,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const result = data?.[0];
+  return {
+    success: result?.success ?? false,
+    total_score: result?.total_score ?? null,
+    message: result?.message || 'Failed to save scorecard',
+  };
+}
+
+/**
+ * Load the candidates of an offer, ranked by scorecard total
+ * @param offerId - Offer ID
+ * @returns Promise with the candidates, scored ones first
+ */
+export async function getOfferCandidates(offerId: string): Promise<OfferCandidate[]> {
+  const { data, error } = await supabase.rpc('fn_get_offer_candidates', { p_offer_id: offerId });
+
+  if (error) {
+    throw error;
+  }
+  return (data || []) as OfferCandidate[];
+}
@@ -0,0 +1,139 @@
+/**
+ * Screening Question Utilities
+ *
+ * Companies attach up to MAX_SCREENING_QUESTIONS questions to an offer, such
+ * as availability dates or work permit status. Students answer them when
+ * confirming a booking or joining the waitlist; the server checks the answers
+ * and stores them in booking_screening_answers with the question wording at
+ * that time.
+ */
+
+import { supabase } from '@/lib/supabase';
+
+export const MAX_SCREENING_QUESTIONS = 5;
+
+export const MAX_SCREENING_ANSWER_LENGTH = 500;
+
+export type ScreeningQuestionType = 'short_text' | 'yes_no' | 'multiple_choice';
+
+export const SCREENING_QUESTION_TYPE_LABELS: Record<ScreeningQuestionType, string> = {
+  short_text: 'Short text',
+  yes_no: 'Yes / No',
+  multiple_choice: 'Multiple choice',
+};
+
+export interface ScreeningQuestion {
+  id: string;
+  offer_id: string;
+  question: string;
+  question_type: ScreeningQuestionType;
+  options: string[];
+  is_required: boolean;
+  position: number;
+}
+
+/** A question being edited; new questions have no id yet */
+export type ScreeningQuestionDraft = Omit<ScreeningQuestion, 'id' | 'offer_id' | 'position'> & { id?: string };
+
+/** Answers being filled in, by question id */
+export type ScreeningAnswerDrafts = Record<string, string>;
+
+/** An answer as stored with the booking */
+export interface ScreeningAnswer {
+  question_id: string;
+  question: string;
+  question_type: ScreeningQuestionType;
+  answer: string;
+}
+
+/**
+ * Load the screening questions of an offer
+ * @param offerId - Offer ID
+ * @returns Promise with the questions in display order
+ */
+export async function getScreeningQuestions(offerId: string): Promise<ScreeningQuestion[]> {
+  const { data, error } = await supabase
+    .from('offer_screening_questions')
+    .select('id, offer_id, question, question_type, options, is_required, position')
+    .eq('offer_id', offerId)
+    .order('position');
+
+  if (error) {
+    throw error;
+  }
+  return (data || []) as ScreeningQuestion[];
+}
+
+/**
+ * Replace the screening questions of an offer. Answers already given on
+ * bookings keep the wording they were answered with.
+ * @param offerId - Offer ID
+ * @param questions - Questions in display order
+ */
+export async function saveScreeningQuestions(offerId: string, questions: ScreeningQuestionDraft[]): Promise<void> {
+  const { data: existing, error: loadError } = await supabase
+    .from('offer_screening_questions')
+    .select('id')
+    .eq('offer_id', offerId);
+
+  if (loadError) {
+    throw loadError;
+  }
+
+  const keptIds = new Set(questions.map((q) => q.id).filter(Boolean));
+  const removedIds = (existing || []).map((q) => q.id).filter((id) => !keptIds.has(id));
+
+  if (removedIds.length > 0) {
+    const { error } = await supabase
+      .from('offer_screening_questions')
+      .delete()
+      .in('id', removedIds);
+    if (error) throw error;
+  }
+
+  const rows = questions.map((question, position) => ({
+    offer_id: offerId,
+    question: question.question.trim(),
+    question_type: question.question_type,
+    options: question.question_type === 'multiple_choice'
+      ? question.options.map((o) => o.trim()).filter(Boolean)
+      : [],
+    is_required: question.is_required,
+    position,
+  }));
+
+  const updates = questions.flatMap((question, i) => (question.id ? [{ ...rows[i], id: question.id }] : []));
+  const inserts = questions.flatMap((question, i) => (question.id ? [] : [rows[i]]));
+
+  if (updates.length > 0) {
+    const { error } = await supabase.from('offer_screening_questions').upsert(updates);
+    if (error) throw error;
+  }
+  if (inserts.length > 0) {
+    const { error } = await supabase.from('offer_screening_questions').insert(inserts);
+    if (error) throw error;
+  }
+}
+
+/**
+ * Required questions that are not answered yet
+ * @param questions - Questions of the offer
+ * @param answers - Answers by question id
+ * @returns The unanswered required questions
+ */
+export function getMissingScreeningAnswers(
+  questions: ScreeningQuestion[],
+  answers: ScreeningAnswerDrafts
+): ScreeningQuestion[] {
+  return questions.filter((q) => q.is_required && !answers[q.id]?.trim());
+}
+
+/**
+ * Read the answers embedded with a booking
+ * @param value - booking_screening_answers(answers) selected with the booking
+ * @returns The answers, empty when there are none
+ */
+export function parseScreeningAnswers(value: unknown): ScreeningAnswer[] {
+  const row = (Array.isArray(value) ? value[0] : value) as { answers?: unknown } | null | undefined;
+  return Array.isArray(row?.answers) ? (row.answers as ScreeningAnswer[]) : [];
+}
@@ -0,0 +1,111 @@
+/**
+ * Talent Directory Utilities
+ *
+ * Students who gave data processing consent can list themselves in the talent
+ * directory from their profile. Verified companies search it and bookmark
+ * students for their whole team. Consent is checked on every search, so a
+ * student who withdraws it drops out of the results right away.
+ */
+
+import { supabase } from '@/lib/supabase';
+
+export interface TalentDirectoryStudent {
+  student_id: string;
+  full_name: string;
+  email: string;
+  program: string | null;
+  specialization: string | null;
+  graduation_year: number | null;
+  year_of_study: number | null;
+  languages_spoken: string[];
+  skills: string[];
+  biography: string | null;
+  linkedin_url: string | null;
+  profile_photo_url: string | null;
+  is_bookmarked: boolean;
+}
+
+export interface TalentDirectoryFilters {
+  search?: string;
+  program?: string;
+  specialization?: string;
+  graduationYear?: number;
+  language?: string;
+  skill?: string;
+  bookmarkedOnly?: boolean;
+}
+
+export interface TalentDirectoryFilterOptions {
+  programs: string[];
+  specializations: string[];
+  graduation_years: number[];
+  languages: string[];
+  skills: string[];
+}
+
+/**
+ * Search the talent directory
+ * @param filters - Search text and filters; empty filters are ignored
+ * @param page - Page number, starting at 1
+ * @param pageSize - Students per page
+ * @returns Promise with one page of students and the number of matches
+ */
+export async function searchTalentDirectory(
+  filters: TalentDirectoryFilters,
+  page: number,
+  pageSize: number
+): Promise<{ students: TalentDirectoryStudent[]; total: number }> {
+  const { data, error } = await supabase.rpc('fn_search_talent_directory', {
+    p_search: filters.search || undefined,
+    p_program: filters.program || undefined,
+    p_specialization: filters.specialization || undefined,
+    p_graduation_year: filters.graduationYear,
+    p_language: filters.language || undefined,
+    p_skill: filters.skill || undefined,
+    p_bookmarked_only: filters.bookmarkedOnly ?? false,
+    p_limit: pageSize,
+    p_offset: (page - 1) * pageSize,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const rows = data || [];
+  return {
+    students: rows.map(({ total_count: _total, ...student }) => student) as TalentDirectoryStudent[],
+    total: Number(rows[0]?.total_count ?? 0),
+  };
+}
+
+/**
+ * Get the values the talent directory can be filtered on
+ * @returns Promise with the programs, specializations, graduation years, languages and skills of listed students
+ */
+export async function getTalentDirectoryFilterOptions(): Promise<TalentDirectoryFilterOptions> {
+  const { data, error } = await supabase.rpc('fn_get_talent_directory_filters');
+
+  if (error) {
+    throw error;
+  }
+  return data?.[0] ?? { programs: [], specializations: [], graduation_years: [], languages: [], skills: [] };
+}
+
+/**
+ * Bookmark a directory student for the company team, or remove the bookmark
+ * @param studentId - Student ID
+ * @param bookmarked - Whether the student should be bookmarked
+ */
+export async function setTalentBookmark(studentId: string, bookmarked: boolean): Promise<void> {
+  const { data, error } = await supabase.rpc('fn_set_talent_bookmark', {
+    p_student_id: studentId,
+    p_bookmarked: bookmarked,
+  });
+
+  if (error) {
+    throw error;
+  }
+  if (!data?.[0]?.success) {
+    throw new Error(data?.[0]?.message || 'Failed to update the bookmark');
+  }
+}
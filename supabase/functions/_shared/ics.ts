@@ -0,0 +1,94 @@
+// iCalendar builder shared by the calendar-feed function and the app's
+// .ics downloads (src/utils/calendarExport.ts). Plain TypeScript only: no Deno
+// or browser APIs beyond TextEncoder, so both runtimes can import it.
+
+export interface CalendarEntry {
+  uid: string
+  summary: string
+  description: string | null
+  location: string | null
+  start_time: string
+  end_time: string
+  status: string
+  timezone: string
+}
+
+const PRODUCT_ID = '-//UM6P//INF Platform//EN'
+const UID_DOMAIN = 'inf-platform'
+
+// TEXT values escape backslashes, separators and newlines (RFC 5545 3.3.11)
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+  let current = ''
+  let currentBytes = 0
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length
+    if (currentBytes + bytes > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current)
+      current = ''
+      currentBytes = 0
+    }
+    current += char
+    currentBytes += bytes
+  }
+  parts.push(current)
+
+  return parts.join('\r\n ')
+}
+
+// Times are written in UTC, which every calendar app converts to the
+// viewer's zone, so no VTIMEZONE (and its DST rules) is needed
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+/**
+ * Build an iCalendar file from calendar entries
+ * @param entries - Entries from fn_get_calendar_feed or fn_get_my_calendar_entries
+ * @param calendarName - Name shown by calendar apps
+ * @returns The .ics content
+ */
+export function buildCalendar(entries: CalendarEntry[], calendarName: string): string {
+  const stamp = formatUtc(new Date())
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ]
+
+  for (const entry of entries) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${entry.uid}@${UID_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatUtc(new Date(entry.start_time))}`,
+      `DTEND:${formatUtc(new Date(entry.end_time))}`,
+      `SUMMARY:${escapeText(entry.summary)}`,
+      `STATUS:${entry.status === 'CANCELLED' ? 'CANCELLED' : 'CONFIRMED'}`
+    )
+    if (entry.description) {
+      lines.push(`DESCRIPTION:${escapeText(entry.description)}`)
+    }
+    if (entry.location) {
+      lines.push(`LOCATION:${escapeText(entry.location)}`)
+    }
+    lines.push('END:VEVENT')
+  }
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,137 @@
+// Supabase Edge Function for scheduled booking phase transitions
+// Invoked by pg_cron every few minutes; see README.md for the schedule
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const CRON_SECRET = Deno.env.get('CRON_SECRET')
+
+interface Transition {
+  event_id: string
+  event_name: string
+  from_phase: number
+  to_phase: number
+  notified_count: number
+}
+
+interface StepError {
+  step: string
+  error: string
+}
+
+serve(async (req) => {
+  // Without a configured secret nobody can be told apart from the scheduler
+  if (!CRON_SECRET) {
+    console.error('CRON_SECRET is not set; refusing to run auto-phase-transitions')
+    return new Response(
+      JSON.stringify({ success: false, error: 'CRON_SECRET is not configured' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    )
+  }
+
+  // Only the scheduler may trigger transitions
+  if (req.headers.get('x-cron-secret') !== CRON_SECRET) {
+    return new Response(
+      JSON.stringify({ success: false, error: 'Unauthorized' }),
+      {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    )
+  }
+
+  try {
+    // fn_auto_transition_event_phases is only granted to service_role
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: { persistSession: false },
+      }
+    )
+
+    // Each job runs on its own: one failing RPC is reported under its step
+    // and does not hold back the jobs after it
+    const errors: StepError[] = []
+
+    const runStep = async <T>(step: string, rpc: string): Promise<T | null> => {
+      const { data, error } = await supabaseAdmin.rpc(rpc)
+      if (error) {
+        console.error(`Step "${step}" failed:`, error)
+        errors.push({ step, error: error.message })
+        return null
+      }
+      return data as T
+    }
+
+    const transitions = (await runStep<Transition[]>('phase_transitions', 'fn_auto_transition_event_phases')) ?? []
+
+    for (const t of transitions) {
+      console.log(
+        `Event "${t.event_name}" moved from phase ${t.from_phase} to phase ${t.to_phase} (${t.notified_count} student(s) notified)`
+      )
+    }
+
+    // No-show penalties last until the next event is over
+    const penaltiesLifted = await runStep<number>('no_show_penalties', 'fn_expire_no_show_penalties')
+
+    if (penaltiesLifted) {
+      console.log(`Lifted ${penaltiesLifted} expired no-show penalty(ies)`)
+    }
+
+    // Reminders are due at each event's lead times before a booked slot
+    const remindersSent = await runStep<number>('interview_reminders', 'fn_send_interview_reminders')
+
+    if (remindersSent) {
+      console.log(`Sent ${remindersSent} interview reminder(s)`)
+    }
+
+    // Unanswered interview invitations lapse at their expiry
+    const invitationsExpired = await runStep<number>('interview_invitations', 'fn_expire_interview_invitations')
+
+    if (invitationsExpired) {
+      console.log(`Expired ${invitationsExpired} interview invitation(s)`)
+    }
+
+    // Announcements with email delivery are emailed once they start
+    const announcementEmails = await runStep<number>('announcement_emails', 'fn_send_due_announcement_emails')
+
+    if (announcementEmails) {
+      console.log(`Queued ${announcementEmails} announcement email(s)`)
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: errors.length === 0,
+        transitions,
+        penalties_lifted: penaltiesLifted ?? 0,
+        reminders_sent: remindersSent ?? 0,
+        invitations_expired: invitationsExpired ?? 0,
+        announcement_emails: announcementEmails ?? 0,
+        errors,
+        message: transitions.length
+          ? `${transitions.length} phase transition(s) applied`
+          : 'No phase transitions due',
+      }),
+      {
+        status: errors.length ? 500 : 200,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    )
+  } catch (error) {
+    console.error('Error in auto-phase-transitions function:', error)
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
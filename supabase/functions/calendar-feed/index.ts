@@ -0,0 +1,57 @@
+// Supabase Edge Function serving a user's interviews as a read-only iCalendar feed
+// Calendar apps poll it with the secret token from the app; see README.md
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { buildCalendar, type CalendarEntry } from '../_shared/ics.ts'
+
+const CALENDAR_NAME = Deno.env.get('CALENDAR_NAME') || 'INF Interviews'
+
+serve(async (req) => {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    return new Response('Method not allowed', { status: 405 })
+  }
+
+  // Calendar apps only send the URL, so the token is in the query string
+  const token = new URL(req.url).searchParams.get('token')
+
+  if (!token) {
+    return new Response('Missing calendar feed token', { status: 400 })
+  }
+  if (!/^[0-9a-f]{48}$/.test(token)) {
+    return new Response('Invalid calendar feed token', { status: 404 })
+  }
+
+  try {
+    // fn_get_calendar_feed is only granted to service_role
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: { persistSession: false },
+      }
+    )
+
+    const { data, error } = await supabaseAdmin.rpc('fn_get_calendar_feed', { p_token: token })
+
+    if (error) {
+      if (error.code === 'P0002') {
+        return new Response('Invalid calendar feed token', { status: 404 })
+      }
+      throw error
+    }
+
+    const calendar = buildCalendar((data ?? []) as CalendarEntry[], CALENDAR_NAME)
+
+    return new Response(req.method === 'HEAD' ? null : calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="interviews.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    })
+  } catch (error) {
+    console.error('Error in calendar-feed function:', error)
+    return new Response('Calendar feed unavailable', { status: 500 })
+  }
+})
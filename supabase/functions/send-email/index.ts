@@ -0,0 +1,182 @@
+// Supabase Edge Function for transactional emails
+// - process: delivers due emails from email_outbox (pg_cron, see README.md)
+// - templates / preview: lets admins render each template with sample data
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { isTemplateId, listTemplates, renderTemplate, templates } from './templates.ts'
+import { getTransport } from './transports.ts'
+
+const CRON_SECRET = Deno.env.get('CRON_SECRET')
+const BATCH_SIZE = 25
+
+interface RequestBody {
+  action?: 'process' | 'templates' | 'preview'
+  template?: string
+  data?: Record<string, unknown>
+  limit?: number
+}
+
+interface OutboxEmail {
+  id: string
+  template: string
+  to_email: string
+  payload: Record<string, unknown>
+  attempts: number
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-secret',
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+function adminClient() {
+  return createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    {
+      auth: { persistSession: false },
+    }
+  )
+}
+
+async function isAdminRequest(req: Request): Promise<boolean> {
+  const authorization = req.headers.get('Authorization')
+  if (!authorization) return false
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    {
+      global: { headers: { Authorization: authorization } },
+      auth: { persistSession: false },
+    }
+  )
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return false
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  return profile?.role === 'admin'
+}
+
+async function processOutbox(limit: number) {
+  const supabaseAdmin = adminClient()
+  const transport = getTransport()
+
+  // fn_claim_email_batch and fn_complete_email are only granted to service_role
+  const { data, error } = await supabaseAdmin.rpc('fn_claim_email_batch', { p_limit: limit })
+
+  if (error) {
+    throw error
+  }
+
+  const emails = (data ?? []) as OutboxEmail[]
+  let sent = 0
+  let failed = 0
+
+  for (const email of emails) {
+    try {
+      if (!isTemplateId(email.template)) {
+        throw new Error(`Unknown template: ${email.template}`)
+      }
+
+      const rendered = renderTemplate(email.template, email.payload ?? {})
+      const result = await transport.send({ to: email.to_email, ...rendered })
+
+      await supabaseAdmin.rpc('fn_complete_email', {
+        p_email_id: email.id,
+        p_success: true,
+        p_transport: transport.name,
+        p_provider_message_id: result.messageId ?? null,
+      })
+      sent++
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err)
+      console.error(`Email ${email.id} (${email.template}) attempt ${email.attempts} failed:`, message)
+
+      await supabaseAdmin.rpc('fn_complete_email', {
+        p_email_id: email.id,
+        p_success: false,
+        p_transport: transport.name,
+        p_error: message,
+      })
+      failed++
+    }
+  }
+
+  return { transport: transport.name, processed: emails.length, sent, failed }
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const body: RequestBody = await req.json().catch(() => ({}))
+    const action = body.action ?? 'process'
+
+    if (action === 'process') {
+      // Without a configured secret nobody can be told apart from the scheduler
+      if (!CRON_SECRET) {
+        console.error('CRON_SECRET is not set; refusing to process the email outbox')
+        return json({ success: false, error: 'CRON_SECRET is not configured' }, 500)
+      }
+
+      // Only the scheduler may drain the outbox
+      if (req.headers.get('x-cron-secret') !== CRON_SECRET) {
+        return json({ success: false, error: 'Unauthorized' }, 401)
+      }
+
+      const result = await processOutbox(Math.min(Math.max(body.limit ?? BATCH_SIZE, 1), 100))
+
+      if (result.processed) {
+        console.log(`Processed ${result.processed} email(s) via ${result.transport}: ${result.sent} sent, ${result.failed} failed`)
+      }
+
+      return json({ success: true, ...result })
+    }
+
+    if (!(await isAdminRequest(req))) {
+      return json({ success: false, error: 'Only admins can preview email templates' }, 403)
+    }
+
+    if (action === 'templates') {
+      return json({ success: true, templates: listTemplates() })
+    }
+
+    if (action === 'preview') {
+      if (!body.template || !isTemplateId(body.template)) {
+        return json({ success: false, error: `Unknown template: ${body.template ?? ''}` }, 400)
+      }
+
+      const data = { ...templates[body.template].sample, ...(body.data ?? {}) }
+      return json({ success: true, preview: renderTemplate(body.template, data) })
+    }
+
+    return json({ success: false, error: `Unknown action: ${action}` }, 400)
+  } catch (error) {
+    console.error('Error in send-email function:', error)
+    return json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      },
+      500
+    )
+  }
+})
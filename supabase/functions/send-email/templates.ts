@@ -0,0 +1,569 @@
+// Template registry for the send-email edge function
+// Each template declares its data, sample data for the admin preview and a renderer
+
+const SITE_URL = Deno.env.get('SITE_URL') || 'https://nexus.um6p.ma'
+// Used when a payload has no event timezone
+const EMAIL_TIME_ZONE = Deno.env.get('EMAIL_TIME_ZONE') || 'Africa/Casablanca'
+
+export interface RenderedEmail {
+  subject: string
+  html: string
+  text: string
+}
+
+interface EmailTemplate<T> {
+  name: string
+  description: string
+  required: (keyof T)[]
+  sample: T
+  render: (data: T) => RenderedEmail
+}
+
+interface BookingConfirmationData {
+  studentName: string
+  companyName: string
+  offerTitle?: string | null
+  eventName?: string | null
+  startTime: string
+  endTime?: string | null
+  location?: string | null
+  timeZone?: string | null
+}
+
+interface BookingCancellationData {
+  studentName: string
+  companyName: string
+  offerTitle?: string | null
+  startTime: string
+  reason?: string | null
+  timeZone?: string | null
+}
+
+interface InterviewReminderData {
+  studentName: string
+  companyName: string
+  offerTitle?: string | null
+  eventName?: string | null
+  startTime: string
+  location?: string | null
+  timeZone?: string | null
+}
+
+interface CompanyVerifiedData {
+  companyName: string
+}
+
+interface CompanyRejectedData {
+  companyName: string
+  reason?: string | null
+}
+
+interface AnnouncementData {
+  recipientName: string
+  title: string
+  message: string
+  severity?: 'info' | 'warning' | 'urgent' | null
+  eventName?: string | null
+}
+
+interface PhaseOpenedData {
+  studentName: string
+  eventName: string
+  phaseNumber: number
+  phaseName?: string | null
+}
+
+interface TeamInvitationData {
+  inviteeName: string
+  companyName: string
+  roleLabel: string
+  inviterName?: string | null
+  token: string
+}
+
+interface InterviewInvitationData {
+  studentName: string
+  companyName: string
+  offerTitle: string
+  eventName?: string | null
+  startTime: string
+  expiresAt: string
+  message?: string | null
+  invitationId: string
+  timeZone?: string | null
+}
+
+function defineTemplate<T>(template: EmailTemplate<T>): EmailTemplate<T> {
+  return template
+}
+
+export function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function formatDateTime(iso: string, timeZone?: string | null): string {
+  return new Intl.DateTimeFormat('en-GB', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: timeZone || EMAIL_TIME_ZONE,
+  }).format(new Date(iso))
+}
+
+function formatTime(iso: string, timeZone?: string | null): string {
+  return new Intl.DateTimeFormat('en-GB', {
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: timeZone || EMAIL_TIME_ZONE,
+  }).format(new Date(iso))
+}
+
+// Shared layout; body is already escaped HTML
+function layout(title: string, body: string, action?: { label: string; path: string }): string {
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(title)}</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: Arial, sans-serif; background-color: #f5f5f5;">
+  <table role="presentation" style="width: 100%; border-collapse: collapse;">
+    <tr>
+      <td align="center" style="padding: 40px 0;">
+        <table role="presentation" style="width: 600px; max-width: 90%; background-color: #ffffff; border-radius: 8px; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
+          <tr>
+            <td style="padding: 32px 40px; background-color: #1a1f3a; border-radius: 8px 8px 0 0;">
+              <p style="margin: 0; color: #ffb300; font-size: 14px; font-weight: bold;">UM6P Nexus Explorer</p>
+              <h1 style="margin: 8px 0 0; color: #ffffff; font-size: 24px;">${escapeHtml(title)}</h1>
+            </td>
+          </tr>
+          <tr>
+            <td style="padding: 32px 40px; font-size: 16px; line-height: 1.6; color: #333333;">
+              ${body}
+              ${action ? `
+              <p style="margin: 32px 0 0; text-align: center;">
+                <a href="${SITE_URL}${action.path}"
+                   style="display: inline-block; padding: 14px 32px; background-color: #007e40; color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: bold;">
+                  ${escapeHtml(action.label)}
+                </a>
+              </p>
+              ` : ''}
+            </td>
+          </tr>
+          <tr>
+            <td style="padding: 24px 40px; background-color: #f8f9fa; border-radius: 0 0 8px 8px; text-align: center;">
+              <p style="margin: 0; font-size: 12px; color: #999999;">
+                This is an automated message from UM6P Nexus Explorer
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`
+}
+
+function paragraph(html: string): string {
+  return `<p style="margin: 0 0 16px;">${html}</p>`
+}
+
+// Label / value rows; values are escaped here
+function details(rows: [string, string | null | undefined][]): string {
+  const cells = rows
+    .filter(([, value]) => value)
+    .map(([label, value]) => `
+      <tr>
+        <td style="padding: 6px 16px 6px 0; color: #666666; font-size: 14px; white-space: nowrap;">${escapeHtml(label)}</td>
+        <td style="padding: 6px 0; font-weight: bold;">${escapeHtml(value)}</td>
+      </tr>`)
+    .join('')
+
+  return `
+    <table role="presentation" style="width: 100%; border-collapse: collapse; background-color: #f8f9fa; border-radius: 8px; margin: 8px 0 16px;">
+      <tr><td style="padding: 16px 20px;"><table role="presentation">${cells}</table></td></tr>
+    </table>`
+}
+
+function textDetails(rows: [string, string | null | undefined][]): string {
+  return rows
+    .filter(([, value]) => value)
+    .map(([label, value]) => `${label}: ${value}`)
+    .join('\n')
+}
+
+function textFooter(action?: { label: string; path: string }): string {
+  return `${action ? `\n${action.label}: ${SITE_URL}${action.path}\n` : ''}
+---
+This is an automated message from UM6P Nexus Explorer`
+}
+
+const SAMPLE_START = '2026-02-12T09:30:00Z'
+
+export const templates = {
+  booking_confirmation: defineTemplate<BookingConfirmationData>({
+    name: 'Booking confirmation',
+    description: 'Sent to a student when an interview booking is confirmed.',
+    required: ['studentName', 'companyName', 'startTime'],
+    sample: {
+      studentName: 'Salma Idrissi',
+      companyName: 'OCP Group',
+      offerTitle: 'Data Engineering Intern',
+      eventName: 'INF 2026',
+      startTime: SAMPLE_START,
+      endTime: '2026-02-12T09:50:00Z',
+      location: 'Hall B, Stand 12',
+    },
+    render: (data) => {
+      const rows: [string, string | null | undefined][] = [
+        ['Company', data.companyName],
+        ['Position', data.offerTitle],
+        ['Event', data.eventName],
+        ['When', `${formatDateTime(data.startTime, data.timeZone)}${data.endTime ? ` – ${formatTime(data.endTime, data.timeZone)}` : ''}`],
+        ['Where', data.location],
+      ]
+      const action = { label: 'View my bookings', path: '/student/bookings' }
+
+      return {
+        subject: `Interview confirmed with ${data.companyName}`,
+        html: layout(
+          'Your interview is confirmed',
+          paragraph(`Hello <strong>${escapeHtml(data.studentName)}</strong>,`) +
+            paragraph('Your interview booking is confirmed:') +
+            details(rows) +
+            paragraph('Please arrive a few minutes early and bring your check-in pass.'),
+          action
+        ),
+        text: `Hello ${data.studentName},
+
+Your interview booking is confirmed:
+
+${textDetails(rows)}
+
+Please arrive a few minutes early and bring your check-in pass.
+${textFooter(action)}`,
+      }
+    },
+  }),
+
+  booking_cancellation: defineTemplate<BookingCancellationData>({
+    name: 'Booking cancellation',
+    description: 'Sent to a student when a company or an admin cancels their interview.',
+    required: ['studentName', 'companyName', 'startTime'],
+    sample: {
+      studentName: 'Salma Idrissi',
+      companyName: 'OCP Group',
+      offerTitle: 'Data Engineering Intern',
+      startTime: SAMPLE_START,
+      reason: 'The recruiter is no longer available at this time',
+    },
+    render: (data) => {
+      const rows: [string, string | null | undefined][] = [
+        ['Company', data.companyName],
+        ['Position', data.offerTitle],
+        ['Was scheduled', formatDateTime(data.startTime, data.timeZone)],
+        ['Reason', data.reason],
+      ]
+      const action = { label: 'Book another slot', path: '/student/offers' }
+
+      return {
+        subject: `Interview with ${data.companyName} cancelled`,
+        html: layout(
+          'Your interview was cancelled',
+          paragraph(`Hello <strong>${escapeHtml(data.studentName)}</strong>,`) +
+            paragraph('Unfortunately the following interview was cancelled:') +
+            details(rows) +
+            paragraph('You can book another slot while booking is open.'),
+          action
+        ),
+        text: `Hello ${data.studentName},
+
+Unfortunately the following interview was cancelled:
+
+${textDetails(rows)}
+
+You can book another slot while booking is open.
+${textFooter(action)}`,
+      }
+    },
+  }),
+
+  interview_reminder: defineTemplate<InterviewReminderData>({
+    name: 'Interview reminder',
+    description: 'Sent to a student shortly before a confirmed interview.',
+    required: ['studentName', 'companyName', 'startTime'],
+    sample: {
+      studentName: 'Salma Idrissi',
+      companyName: 'OCP Group',
+      offerTitle: 'Data Engineering Intern',
+      eventName: 'INF 2026',
+      startTime: SAMPLE_START,
+      location: 'Hall B, Stand 12',
+    },
+    render: (data) => {
+      const rows: [string, string | null | undefined][] = [
+        ['Company', data.companyName],
+        ['Position', data.offerTitle],
+        ['Event', data.eventName],
+        ['When', formatDateTime(data.startTime, data.timeZone)],
+        ['Where', data.location],
+      ]
+      const action = { label: 'Open my check-in pass', path: '/student/bookings' }
+
+      return {
+        subject: `Reminder: interview with ${data.companyName} at ${formatTime(data.startTime, data.timeZone)}`,
+        html: layout(
+          'Your interview is coming up',
+          paragraph(`Hello <strong>${escapeHtml(data.studentName)}</strong>,`) +
+            paragraph('This is a reminder of your upcoming interview:') +
+            details(rows) +
+            paragraph('If you can no longer attend, please cancel the booking so another student can take the slot.'),
+          action
+        ),
+        text: `Hello ${data.studentName},
+
+This is a reminder of your upcoming interview:
+
+${textDetails(rows)}
+
+If you can no longer attend, please cancel the booking so another student can take the slot.
+${textFooter(action)}`,
+      }
+    },
+  }),
+
+  company_verified: defineTemplate<CompanyVerifiedData>({
+    name: 'Company verified',
+    description: 'Sent to a company when an admin approves its registration.',
+    required: ['companyName'],
+    sample: {
+      companyName: 'OCP Group',
+    },
+    render: (data) => {
+      const action = { label: 'Go to my dashboard', path: '/company' }
+
+      return {
+        subject: 'Your company account is verified',
+        html: layout(
+          'Your company is verified',
+          paragraph(`Hello <strong>${escapeHtml(data.companyName)}</strong>,`) +
+            paragraph('Your registration has been approved. You can now create offers and take part in events.'),
+          action
+        ),
+        text: `Hello ${data.companyName},
+
+Your registration has been approved. You can now create offers and take part in events.
+${textFooter(action)}`,
+      }
+    },
+  }),
+
+  company_rejected: defineTemplate<CompanyRejectedData>({
+    name: 'Company rejected',
+    description: 'Sent to a company when an admin rejects its registration.',
+    required: ['companyName'],
+    sample: {
+      companyName: 'OCP Group',
+      reason: 'We could not confirm the company details provided',
+    },
+    render: (data) => ({
+      subject: 'Update on your company registration',
+      html: layout(
+        'Registration not approved',
+        paragraph(`Hello <strong>${escapeHtml(data.companyName)}</strong>,`) +
+          paragraph('After review, your company registration was not approved.') +
+          (data.reason ? details([['Reason', data.reason]]) : '') +
+          paragraph('If you think this is a mistake, reply to this email or contact the event team.')
+      ),
+      text: `Hello ${data.companyName},
+
+After review, your company registration was not approved.
+${data.reason ? `\nReason: ${data.reason}\n` : ''}
+If you think this is a mistake, reply to this email or contact the event team.
+${textFooter()}`,
+    }),
+  }),
+
+  phase_opened: defineTemplate<PhaseOpenedData>({
+    name: 'Phase opened',
+    description: 'Sent to eligible students when an event moves to a booking phase.',
+    required: ['studentName', 'eventName', 'phaseNumber'],
+    sample: {
+      studentName: 'Salma Idrissi',
+      eventName: 'INF 2026',
+      phaseNumber: 1,
+      phaseName: 'Priority booking',
+    },
+    render: (data) => {
+      const phase = `Phase ${data.phaseNumber}${data.phaseName ? ` (${data.phaseName})` : ''}`
+      const action = { label: 'Browse offers', path: '/student/offers' }
+
+      return {
+        subject: `${data.eventName}: ${phase} is open`,
+        html: layout(
+          `${phase} is open`,
+          paragraph(`Hello <strong>${escapeHtml(data.studentName)}</strong>,`) +
+            paragraph(`${escapeHtml(phase)} of <strong>${escapeHtml(data.eventName)}</strong> has started. You can now book interviews.`),
+          action
+        ),
+        text: `Hello ${data.studentName},
+
+${phase} of ${data.eventName} has started. You can now book interviews.
+${textFooter(action)}`,
+      }
+    },
+  }),
+
+  announcement: defineTemplate<AnnouncementData>({
+    name: 'Announcement',
+    description: 'Sent to the audience of an announcement when it starts, if email delivery is on.',
+    required: ['recipientName', 'title', 'message'],
+    sample: {
+      recipientName: 'Salma Idrissi',
+      title: 'Afternoon interviews move to Hall C',
+      message: 'Because of a technical issue in Hall B, all interviews from 14:00 take place in Hall C.\nYour slot times do not change.',
+      severity: 'warning',
+      eventName: 'INF 2026',
+    },
+    render: (data) => {
+      const prefix = data.severity === 'urgent' ? 'Urgent: ' : ''
+      const subject = `${prefix}${data.eventName ? `${data.eventName}: ` : ''}${data.title}`
+      const body = data.message
+        .split(/\n{2,}/)
+        .map((block) => paragraph(escapeHtml(block).replace(/\n/g, '<br>')))
+        .join('')
+
+      return {
+        subject,
+        html: layout(
+          data.title,
+          paragraph(`Hello <strong>${escapeHtml(data.recipientName)}</strong>,`) + body
+        ),
+        text: `Hello ${data.recipientName},
+
+${data.message}
+${textFooter()}`,
+      }
+    },
+  }),
+
+  team_invitation: defineTemplate<TeamInvitationData>({
+    name: 'Team invitation',
+    description: 'Sent to a recruiter invited to join a company team.',
+    required: ['inviteeName', 'companyName', 'roleLabel', 'token'],
+    sample: {
+      inviteeName: 'Youssef Benali',
+      companyName: 'OCP Group',
+      roleLabel: 'Interviewer',
+      inviterName: 'Nadia Tazi',
+      token: 'sample-token',
+    },
+    render: (data) => {
+      const action = { label: 'Accept invitation', path: `/company/join?token=${encodeURIComponent(data.token)}` }
+      const invitedBy = data.inviterName ? `${data.inviterName} invited you` : 'You have been invited'
+
+      return {
+        subject: `Join ${data.companyName} on UM6P Nexus Explorer`,
+        html: layout(
+          `Join ${data.companyName}`,
+          paragraph(`Hello <strong>${escapeHtml(data.inviteeName)}</strong>,`) +
+            paragraph(`${escapeHtml(invitedBy)} to the recruiting team of <strong>${escapeHtml(data.companyName)}</strong> as <strong>${escapeHtml(data.roleLabel)}</strong>.`) +
+            paragraph('Create your account with the link below. The invitation expires in 14 days.'),
+          action
+        ),
+        text: `Hello ${data.inviteeName},
+
+${invitedBy} to the recruiting team of ${data.companyName} as ${data.roleLabel}.
+Create your account with the link below. The invitation expires in 14 days.
+${textFooter(action)}`,
+      }
+    },
+  }),
+
+  interview_invitation: defineTemplate<InterviewInvitationData>({
+    name: 'Interview invitation',
+    description: 'Sent to a student a company invites to interview for one of its offers.',
+    required: ['studentName', 'companyName', 'offerTitle', 'startTime', 'expiresAt', 'invitationId'],
+    sample: {
+      studentName: 'Salma Idrissi',
+      companyName: 'OCP Group',
+      offerTitle: 'Data Engineering Intern',
+      eventName: 'INF 2026',
+      startTime: SAMPLE_START,
+      expiresAt: '2026-02-10T18:00:00Z',
+      message: 'We enjoyed your profile and would love to meet you.',
+      invitationId: 'sample-invitation',
+    },
+    render: (data) => {
+      const rows: [string, string | null | undefined][] = [
+        ['Company', data.companyName],
+        ['Position', data.offerTitle],
+        ['Event', data.eventName],
+        ['When', formatDateTime(data.startTime, data.timeZone)],
+      ]
+      const action = { label: 'Answer the invitation', path: `/student?invitation=${encodeURIComponent(data.invitationId)}` }
+      const deadline = formatDateTime(data.expiresAt, data.timeZone)
+
+      return {
+        subject: `${data.companyName} invites you to an interview`,
+        html: layout(
+          'You are invited to an interview',
+          paragraph(`Hello <strong>${escapeHtml(data.studentName)}</strong>,`) +
+            paragraph(`<strong>${escapeHtml(data.companyName)}</strong> would like to meet you:`) +
+            details(rows) +
+            (data.message ? paragraph(`<em>${escapeHtml(data.message)}</em>`) : '') +
+            paragraph(`Accept to book this interview in one click, or decline. The invitation expires on ${escapeHtml(deadline)}.`),
+          action
+        ),
+        text: `Hello ${data.studentName},
+
+${data.companyName} would like to meet you:
+
+${textDetails(rows)}
+${data.message ? `\n"${data.message}"\n` : ''}
+Accept to book this interview in one click, or decline. The invitation expires on ${deadline}.
+${textFooter(action)}`,
+      }
+    },
+  }),
+}
+
+export type TemplateId = keyof typeof templates
+
+export function isTemplateId(id: string): id is TemplateId {
+  return Object.prototype.hasOwnProperty.call(templates, id)
+}
+
+// Payloads come from the database as JSON, so required fields are checked at runtime
+export function renderTemplate(id: TemplateId, data: Record<string, unknown>): RenderedEmail {
+  const template = templates[id] as unknown as EmailTemplate<Record<string, unknown>>
+  const missing = template.required.filter(
+    (field) => data[field as string] === undefined || data[field as string] === null || data[field as string] === ''
+  )
+
+  if (missing.length) {
+    throw new Error(`Missing data for template ${id}: ${missing.join(', ')}`)
+  }
+
+  return template.render(data)
+}
+
+export function listTemplates() {
+  return (Object.keys(templates) as TemplateId[]).map((id) => ({
+    id,
+    name: templates[id].name,
+    description: templates[id].description,
+    sample: templates[id].sample,
+  }))
+}
@@ -0,0 +1,137 @@
+// Delivery transports for the send-email edge function
+// EMAIL_TRANSPORT selects one: resend (production), smtp (local Inbucket) or file
+
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts'
+
+const FROM_EMAIL = Deno.env.get('FROM_EMAIL') || 'noreply@um6p.ma'
+
+export interface OutgoingEmail {
+  to: string
+  subject: string
+  html: string
+  text: string
+}
+
+export interface SendResult {
+  messageId?: string
+}
+
+export interface EmailTransport {
+  name: string
+  send: (email: OutgoingEmail) => Promise<SendResult>
+}
+
+export function resendTransport(apiKey: string): EmailTransport {
+  return {
+    name: 'resend',
+    send: async (email) => {
+      const response = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({
+          from: FROM_EMAIL,
+          to: [email.to],
+          subject: email.subject,
+          html: email.html,
+          text: email.text,
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(`Resend API error (${response.status}): ${JSON.stringify(data)}`)
+      }
+
+      return { messageId: data.id }
+    },
+  }
+}
+
+interface SmtpOptions {
+  hostname: string
+  port: number
+  tls: boolean
+  username?: string
+  password?: string
+}
+
+export function smtpTransport(options: SmtpOptions): EmailTransport {
+  return {
+    name: 'smtp',
+    send: async (email) => {
+      const client = new SMTPClient({
+        connection: {
+          hostname: options.hostname,
+          port: options.port,
+          tls: options.tls,
+          auth: options.username
+            ? { username: options.username, password: options.password ?? '' }
+            : undefined,
+        },
+        // Inbucket speaks plain SMTP only
+        debug: options.tls ? undefined : { allowUnsecure: true, noStartTLS: true },
+      })
+
+      try {
+        await client.send({
+          from: FROM_EMAIL,
+          to: email.to,
+          subject: email.subject,
+          content: email.text,
+          html: email.html,
+        })
+      } finally {
+        await client.close()
+      }
+
+      return {}
+    },
+  }
+}
+
+// Writes each email as JSON so tests and developers can inspect it
+export function fileTransport(directory: string): EmailTransport {
+  return {
+    name: 'file',
+    send: async (email) => {
+      await Deno.mkdir(directory, { recursive: true })
+      const messageId = `${Date.now()}-${crypto.randomUUID()}`
+
+      await Deno.writeTextFile(
+        `${directory}/${messageId}.json`,
+        JSON.stringify({ from: FROM_EMAIL, ...email, sentAt: new Date().toISOString() }, null, 2)
+      )
+
+      return { messageId }
+    },
+  }
+}
+
+export function getTransport(): EmailTransport {
+  const resendApiKey = Deno.env.get('RESEND_API_KEY')
+  const name = Deno.env.get('EMAIL_TRANSPORT') || (resendApiKey ? 'resend' : 'file')
+
+  switch (name) {
+    case 'resend':
+      if (!resendApiKey) {
+        throw new Error('RESEND_API_KEY is not set')
+      }
+      return resendTransport(resendApiKey)
+    case 'smtp':
+      return smtpTransport({
+        hostname: Deno.env.get('SMTP_HOST') || 'host.docker.internal',
+        port: Number(Deno.env.get('SMTP_PORT') || '54325'),
+        tls: Deno.env.get('SMTP_TLS') === 'true',
+        username: Deno.env.get('SMTP_USERNAME'),
+        password: Deno.env.get('SMTP_PASSWORD'),
+      })
+    case 'file':
+      return fileTransport(Deno.env.get('EMAIL_SINK_DIR') || '/tmp/emails')
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT: ${name}`)
+  }
+}
@@ -0,0 +1,422 @@
+-- Migration: Booking Waitlist with Automatic Promotion
+-- Created: 2026-01-10
+-- Description: Students who hit a fully booked slot can join a waitlist for that
+-- slot or for the whole company. When a confirmed booking is cancelled (by the
+-- student through fn_cancel_booking or by an admin), the first eligible
+-- waitlisted student is promoted into the freed seat.
+
+-- =====================================================
+-- TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS booking_waitlist (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    student_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    offer_id UUID NOT NULL REFERENCES offers(id) ON DELETE CASCADE,
+    -- NULL slot_id = waiting for any slot of this company
+    slot_id UUID REFERENCES event_slots(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'waiting'
+        CHECK (status IN ('waiting', 'promoted', 'cancelled')),
+    promoted_booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+    promoted_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- A student can only wait once per company (company-wide) and once per slot
+CREATE UNIQUE INDEX IF NOT EXISTS idx_waitlist_unique_company
+    ON booking_waitlist(student_id, company_id, event_id)
+    WHERE status = 'waiting' AND slot_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_waitlist_unique_slot
+    ON booking_waitlist(student_id, slot_id)
+    WHERE status = 'waiting' AND slot_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_queue
+    ON booking_waitlist(company_id, event_id, created_at)
+    WHERE status = 'waiting';
+CREATE INDEX IF NOT EXISTS idx_waitlist_student ON booking_waitlist(student_id);
+
+ALTER TABLE booking_waitlist ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Students can view their waitlist entries" ON booking_waitlist
+    FOR SELECT USING (student_id = auth.uid());
+
+CREATE POLICY "Admins can view all waitlist entries" ON booking_waitlist
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+    );
+
+COMMENT ON TABLE booking_waitlist IS
+    'Queue of students waiting for a seat in a full slot (slot_id set) or any slot of a company (slot_id NULL). Writes go through fn_join_waitlist / fn_leave_waitlist.';
+
+-- =====================================================
+-- JOIN / LEAVE
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_join_waitlist(
+    p_student_id UUID,
+    p_offer_id UUID,
+    p_slot_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    waitlist_id UUID,
+    queue_position INTEGER,
+    message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_company_id UUID;
+    v_event_id UUID;
+    v_waitlist_id UUID;
+    v_position INTEGER;
+BEGIN
+    IF p_student_id IS DISTINCT FROM auth.uid() THEN
+        RETURN QUERY SELECT false, NULL::UUID, NULL::INTEGER, 'You can only join the waitlist for yourself'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT o.company_id, o.event_id INTO v_company_id, v_event_id
+    FROM offers o
+    WHERE o.id = p_offer_id AND o.is_active = true;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT false, NULL::UUID, NULL::INTEGER, 'Offer not found or inactive'::TEXT;
+        RETURN;
+    END IF;
+
+    IF p_slot_id IS NOT NULL THEN
+        SELECT es.event_id INTO v_event_id
+        FROM event_slots es
+        WHERE es.id = p_slot_id
+          AND es.company_id = v_company_id
+          AND es.is_active = true
+          AND es.start_time > NOW();
+
+        IF NOT FOUND THEN
+            RETURN QUERY SELECT false, NULL::UUID, NULL::INTEGER, 'Slot not found or already started'::TEXT;
+            RETURN;
+        END IF;
+
+        -- Only full slots have a queue; a free seat is booked directly
+        IF (
+            SELECT COUNT(*) FROM bookings b
+            WHERE b.slot_id = p_slot_id AND b.status = 'confirmed'
+        ) < (SELECT es.capacity FROM event_slots es WHERE es.id = p_slot_id) THEN
+            RETURN QUERY SELECT false, NULL::UUID, NULL::INTEGER, 'This slot still has free seats. Book it directly instead.'::TEXT;
+            RETURN;
+        END IF;
+    END IF;
+
+    IF v_event_id IS NULL THEN
+        RETURN QUERY SELECT false, NULL::UUID, NULL::INTEGER, 'This offer is not attached to an event'::TEXT;
+        RETURN;
+    END IF;
+
+    -- No point waiting for a company the student already has an interview with
+    IF EXISTS (
+        SELECT 1
+        FROM bookings b
+        JOIN event_slots es ON es.id = b.slot_id
+        WHERE b.student_id = p_student_id
+          AND es.company_id = v_company_id
+          AND es.event_id = v_event_id
+          AND b.status = 'confirmed'
+    ) THEN
+        RETURN QUERY SELECT false, NULL::UUID, NULL::INTEGER, 'You already have a booking with this company for this event'::TEXT;
+        RETURN;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM booking_waitlist w
+        WHERE w.student_id = p_student_id
+          AND w.company_id = v_company_id
+          AND w.event_id = v_event_id
+          AND w.status = 'waiting'
+          AND (w.slot_id IS NULL OR w.slot_id IS NOT DISTINCT FROM p_slot_id)
+    ) THEN
+        RETURN QUERY SELECT false, NULL::UUID, NULL::INTEGER, 'You are already on the waitlist'::TEXT;
+        RETURN;
+    END IF;
+
+    INSERT INTO booking_waitlist (student_id, event_id, company_id, offer_id, slot_id)
+    VALUES (p_student_id, v_event_id, v_company_id, p_offer_id, p_slot_id)
+    RETURNING id INTO v_waitlist_id;
+
+    SELECT fn_get_waitlist_position(v_waitlist_id) INTO v_position;
+
+    RETURN QUERY SELECT
+        true,
+        v_waitlist_id,
+        v_position,
+        format('You joined the waitlist (position %s). We will book you automatically if a seat frees up.', v_position)::TEXT;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION fn_leave_waitlist(
+    p_waitlist_id UUID,
+    p_student_id UUID
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF p_student_id IS DISTINCT FROM auth.uid() THEN
+        RETURN QUERY SELECT false, 'Waitlist entry not found or you are not authorized'::TEXT;
+        RETURN;
+    END IF;
+
+    UPDATE booking_waitlist
+    SET status = 'cancelled'
+    WHERE id = p_waitlist_id
+      AND student_id = p_student_id
+      AND status = 'waiting';
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT false, 'Waitlist entry not found or you are not authorized'::TEXT;
+        RETURN;
+    END IF;
+
+    RETURN QUERY SELECT true, 'You left the waitlist'::TEXT;
+END;
+$$;
+
+-- =====================================================
+-- POSITION & LISTING
+-- =====================================================
+
+-- Position = number of waiting entries that would be offered the same seat
+-- before (or at the same time as) this one. A slot entry competes with other
+-- entries for the same slot and with company-wide entries; a company-wide
+-- entry competes with every entry for the company.
+CREATE OR REPLACE FUNCTION fn_get_waitlist_position(p_waitlist_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COUNT(*)::INTEGER
+    FROM booking_waitlist me
+    JOIN booking_waitlist other
+      ON other.company_id = me.company_id
+     AND other.event_id = me.event_id
+     AND other.status = 'waiting'
+     AND other.created_at <= me.created_at
+     AND (
+         me.slot_id IS NULL
+         OR other.slot_id IS NULL
+         OR other.slot_id = me.slot_id
+     )
+    WHERE me.id = p_waitlist_id
+      AND me.status = 'waiting';
+$$;
+
+CREATE OR REPLACE FUNCTION fn_get_student_waitlist(p_student_id UUID)
+RETURNS TABLE (
+    waitlist_id UUID,
+    event_id UUID,
+    event_name TEXT,
+    company_name TEXT,
+    offer_title TEXT,
+    slot_id UUID,
+    slot_time TIMESTAMPTZ,
+    queue_position INTEGER,
+    status TEXT,
+    created_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF p_student_id IS DISTINCT FROM auth.uid() AND NOT EXISTS (
+        SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'
+    ) THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        w.id,
+        w.event_id,
+        e.name,
+        c.company_name,
+        COALESCE(o.title, 'Unknown Offer'),
+        w.slot_id,
+        es.start_time,
+        fn_get_waitlist_position(w.id),
+        w.status,
+        w.created_at
+    FROM booking_waitlist w
+    JOIN events e ON e.id = w.event_id
+    JOIN companies c ON c.id = w.company_id
+    LEFT JOIN offers o ON o.id = w.offer_id
+    LEFT JOIN event_slots es ON es.id = w.slot_id
+    WHERE w.student_id = p_student_id
+      AND w.status = 'waiting'
+    ORDER BY w.created_at ASC;
+END;
+$$;
+
+-- =====================================================
+-- PROMOTION
+-- =====================================================
+
+-- Offers a freed seat in p_slot_id to waitlisted students in queue order.
+-- Ineligible students (booking limit reached, already booked with the company,
+-- time conflict) are skipped and keep their place for the next seat.
+CREATE OR REPLACE FUNCTION fn_promote_from_waitlist(p_slot_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_slot RECORD;
+    v_candidate RECORD;
+    v_confirmed INTEGER;
+    v_can_book BOOLEAN;
+    v_phase INTEGER;
+    v_booking_id UUID;
+BEGIN
+    SELECT es.id, es.event_id, es.company_id, es.capacity, es.start_time, es.end_time, es.is_active
+    INTO v_slot
+    FROM event_slots es
+    WHERE es.id = p_slot_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT v_slot.is_active OR v_slot.start_time <= NOW() THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT COUNT(*) INTO v_confirmed
+    FROM bookings
+    WHERE slot_id = p_slot_id AND status = 'confirmed';
+
+    IF v_confirmed >= v_slot.capacity THEN
+        RETURN NULL;
+    END IF;
+
+    FOR v_candidate IN
+        SELECT w.id, w.student_id, w.offer_id
+        FROM booking_waitlist w
+        WHERE w.status = 'waiting'
+          AND w.company_id = v_slot.company_id
+          AND w.event_id = v_slot.event_id
+          AND (w.slot_id = p_slot_id OR w.slot_id IS NULL)
+        ORDER BY w.created_at ASC
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        -- One booking per company per event
+        CONTINUE WHEN EXISTS (
+            SELECT 1
+            FROM bookings b
+            JOIN event_slots es ON es.id = b.slot_id
+            WHERE b.student_id = v_candidate.student_id
+              AND es.company_id = v_slot.company_id
+              AND es.event_id = v_slot.event_id
+              AND b.status = 'confirmed'
+        );
+
+        -- Phase booking limit (also blocks deprioritized students in Phase 1)
+        SELECT l.can_book, l.current_phase INTO v_can_book, v_phase
+        FROM fn_check_student_booking_limit(v_candidate.student_id, v_slot.event_id) l;
+        CONTINUE WHEN NOT COALESCE(v_can_book, false);
+
+        -- Time conflicts with the student's other interviews
+        CONTINUE WHEN EXISTS (
+            SELECT 1
+            FROM bookings b
+            JOIN event_slots es ON es.id = b.slot_id
+            WHERE b.student_id = v_candidate.student_id
+              AND b.status = 'confirmed'
+              AND es.start_time < v_slot.end_time
+              AND es.end_time > v_slot.start_time
+        );
+
+        -- A cancelled row for the same slot would violate unique_student_slot
+        DELETE FROM bookings
+        WHERE student_id = v_candidate.student_id
+          AND slot_id = p_slot_id
+          AND status = 'cancelled';
+
+        INSERT INTO bookings (student_id, slot_id, offer_id, status, booking_phase)
+        VALUES (v_candidate.student_id, p_slot_id, v_candidate.offer_id, 'confirmed', v_phase)
+        RETURNING id INTO v_booking_id;
+
+        UPDATE booking_waitlist
+        SET status = 'promoted',
+            promoted_booking_id = v_booking_id,
+            promoted_at = NOW()
+        WHERE id = v_candidate.id;
+
+        -- The student's other waiting entries for this company are now moot
+        UPDATE booking_waitlist
+        SET status = 'cancelled'
+        WHERE student_id = v_candidate.student_id
+          AND company_id = v_slot.company_id
+          AND event_id = v_slot.event_id
+          AND status = 'waiting';
+
+        INSERT INTO notifications (user_id, title, message, type, action_url)
+        SELECT
+            v_candidate.student_id,
+            'Promoted from Waitlist',
+            'A seat opened up with ' || c.company_name || ' and you have been booked for ' || to_char(v_slot.start_time, 'DD/MM/YYYY HH24:MI'),
+            'waitlist_promoted',
+            '/student/bookings'
+        FROM companies c
+        WHERE c.id = v_slot.company_id;
+
+        RETURN v_booking_id;
+    END LOOP;
+
+    RETURN NULL;
+END;
+$$;
+
+-- Every path that frees a seat (fn_cancel_booking, admin cancellation in the
+-- bookings page) flips status to 'cancelled', so a single trigger covers them.
+CREATE OR REPLACE FUNCTION trg_promote_waitlist_on_cancel()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM fn_promote_from_waitlist(NEW.slot_id);
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS promote_waitlist_on_cancel ON bookings;
+CREATE TRIGGER promote_waitlist_on_cancel
+    AFTER UPDATE OF status ON bookings
+    FOR EACH ROW
+    WHEN (OLD.status = 'confirmed' AND NEW.status = 'cancelled')
+    EXECUTE FUNCTION trg_promote_waitlist_on_cancel();
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+GRANT EXECUTE ON FUNCTION fn_join_waitlist(UUID, UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_leave_waitlist(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_get_student_waitlist(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION fn_promote_from_waitlist(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION fn_get_waitlist_position(UUID) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION fn_join_waitlist IS
+    'Adds the calling student to the waitlist for a full slot (p_slot_id) or for any slot of the offer''s company (p_slot_id NULL).';
+COMMENT ON FUNCTION fn_promote_from_waitlist IS
+    'Books the first eligible waitlisted student into a freed seat. Respects booking limits, one-booking-per-company and time conflicts.';
@@ -0,0 +1,218 @@
+-- Migration: Atomic Booking Reschedule
+-- Created: 2026-01-11
+-- Description: Lets a student (or an admin) move a confirmed booking to another
+-- slot of the same company in a single transaction. Cancelling and rebooking
+-- left a window where the seat could be taken and the phase limit could block
+-- the rebooking; rescheduling keeps the booking row (and its booking_phase).
+
+-- =====================================================
+-- RESCHEDULE OPTIONS
+-- =====================================================
+
+-- Other upcoming slots of the same company/event the booking can move to
+CREATE OR REPLACE FUNCTION fn_get_reschedule_options(p_booking_id UUID)
+RETURNS TABLE (
+    slot_id UUID,
+    start_time TIMESTAMPTZ,
+    end_time TIMESTAMPTZ,
+    location TEXT,
+    capacity INTEGER,
+    booked_count INTEGER,
+    has_conflict BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_booking RECORD;
+BEGIN
+    SELECT b.id, b.student_id, b.slot_id, es.company_id, es.event_id
+    INTO v_booking
+    FROM bookings b
+    JOIN event_slots es ON es.id = b.slot_id
+    WHERE b.id = p_booking_id
+      AND b.status = 'confirmed';
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    IF v_booking.student_id IS DISTINCT FROM auth.uid() AND NOT EXISTS (
+        SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'
+    ) THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        es.id,
+        es.start_time,
+        es.end_time,
+        es.location,
+        es.capacity,
+        COUNT(b.id)::INTEGER,
+        EXISTS (
+            SELECT 1
+            FROM bookings ob
+            JOIN event_slots oes ON oes.id = ob.slot_id
+            WHERE ob.student_id = v_booking.student_id
+              AND ob.status = 'confirmed'
+              AND ob.id <> v_booking.id
+              AND oes.start_time < es.end_time
+              AND oes.end_time > es.start_time
+        )
+    FROM event_slots es
+    LEFT JOIN bookings b ON b.slot_id = es.id AND b.status = 'confirmed'
+    WHERE es.company_id = v_booking.company_id
+      AND es.event_id = v_booking.event_id
+      AND es.id <> v_booking.slot_id
+      AND es.is_active = true
+      AND es.start_time > NOW()
+    GROUP BY es.id, es.start_time, es.end_time, es.location, es.capacity
+    HAVING COUNT(b.id) < es.capacity
+    ORDER BY es.start_time;
+END;
+$$;
+
+-- =====================================================
+-- RESCHEDULE
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_reschedule_booking(
+    p_booking_id UUID,
+    p_new_slot_id UUID
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_booking RECORD;
+    v_old_slot RECORD;
+    v_new_slot RECORD;
+    v_is_admin BOOLEAN;
+    v_confirmed INTEGER;
+BEGIN
+    v_is_admin := EXISTS (
+        SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'
+    );
+
+    SELECT b.id, b.student_id, b.slot_id, b.status
+    INTO v_booking
+    FROM bookings b
+    WHERE b.id = p_booking_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR (v_booking.student_id IS DISTINCT FROM auth.uid() AND NOT v_is_admin) THEN
+        RETURN QUERY SELECT false, 'Booking not found or you are not authorized'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_booking.status <> 'confirmed' THEN
+        RETURN QUERY SELECT false, 'Only confirmed bookings can be rescheduled'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_booking.slot_id = p_new_slot_id THEN
+        RETURN QUERY SELECT false, 'The booking is already in this slot'::TEXT;
+        RETURN;
+    END IF;
+
+    -- Lock both slots in a stable order so two concurrent reschedules in
+    -- opposite directions cannot deadlock
+    PERFORM 1
+    FROM event_slots
+    WHERE id IN (v_booking.slot_id, p_new_slot_id)
+    ORDER BY id
+    FOR UPDATE;
+
+    SELECT es.id, es.event_id, es.company_id, es.start_time
+    INTO v_old_slot
+    FROM event_slots es
+    WHERE es.id = v_booking.slot_id;
+
+    SELECT es.id, es.event_id, es.company_id, es.capacity, es.start_time, es.end_time, es.is_active
+    INTO v_new_slot
+    FROM event_slots es
+    WHERE es.id = p_new_slot_id;
+
+    IF NOT FOUND OR NOT v_new_slot.is_active THEN
+        RETURN QUERY SELECT false, 'Slot not found'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_new_slot.company_id <> v_old_slot.company_id OR v_new_slot.event_id <> v_old_slot.event_id THEN
+        RETURN QUERY SELECT false, 'You can only move to another slot of the same company and event'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_new_slot.start_time <= NOW() THEN
+        RETURN QUERY SELECT false, 'This slot has already started'::TEXT;
+        RETURN;
+    END IF;
+
+    IF NOT v_is_admin AND v_old_slot.start_time <= NOW() THEN
+        RETURN QUERY SELECT false, 'This interview has already started'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT COUNT(*) INTO v_confirmed
+    FROM bookings
+    WHERE slot_id = p_new_slot_id AND status = 'confirmed';
+
+    IF v_confirmed >= v_new_slot.capacity THEN
+        RETURN QUERY SELECT false, 'This slot is fully booked'::TEXT;
+        RETURN;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM bookings b
+        JOIN event_slots es ON es.id = b.slot_id
+        WHERE b.student_id = v_booking.student_id
+          AND b.status = 'confirmed'
+          AND b.id <> p_booking_id
+          AND es.start_time < v_new_slot.end_time
+          AND es.end_time > v_new_slot.start_time
+    ) THEN
+        RETURN QUERY SELECT false, 'This time slot conflicts with another booking'::TEXT;
+        RETURN;
+    END IF;
+
+    -- A cancelled row for the target slot would violate unique_student_slot
+    DELETE FROM bookings
+    WHERE student_id = v_booking.student_id
+      AND slot_id = p_new_slot_id
+      AND status = 'cancelled';
+
+    -- booking_phase, offer_id and created_at stay untouched
+    UPDATE bookings
+    SET slot_id = p_new_slot_id
+    WHERE id = p_booking_id;
+
+    -- The seat we just left can go to the waitlist
+    PERFORM fn_promote_from_waitlist(v_booking.slot_id);
+
+    RETURN QUERY SELECT
+        true,
+        format('Interview moved to %s', to_char(v_new_slot.start_time, 'DD/MM/YYYY HH24:MI'))::TEXT;
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+GRANT EXECUTE ON FUNCTION fn_get_reschedule_options(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_reschedule_booking(UUID, UUID) TO authenticated;
+
+COMMENT ON FUNCTION fn_get_reschedule_options IS
+    'Lists upcoming slots with free seats that a confirmed booking can be moved to (same company and event).';
+COMMENT ON FUNCTION fn_reschedule_booking IS
+    'Atomically moves a confirmed booking to another slot of the same company, preserving booking_phase. Callable by the booking owner or an admin.';
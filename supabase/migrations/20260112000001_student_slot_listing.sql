@@ -0,0 +1,94 @@
+-- Migration: Student Slot Listing RPC
+-- Created: 2026-01-12
+-- Description: One call that returns the bookable slots of an offer together
+-- with everything the booking modal needs for the calling student. Replaces the
+-- per-slot bookings queries in the student Offers / OfferDetail pages.
+--
+-- Counts come from fn_get_available_slots (live bookings). The slot_availability
+-- materialized view is only as fresh as its last refresh, so it is not used for
+-- capacity here.
+
+CREATE OR REPLACE FUNCTION fn_get_student_offer_slots(
+    p_student_id UUID,
+    p_offer_id UUID,
+    p_event_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    slot_id UUID,
+    start_time TIMESTAMPTZ,
+    end_time TIMESTAMPTZ,
+    location TEXT,
+    capacity INTEGER,
+    confirmed_count INTEGER,
+    remaining_capacity INTEGER,
+    has_conflict BOOLEAN,
+    conflict_company_name TEXT,
+    already_booked_with_company BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_company_id UUID;
+    v_event_id UUID;
+    v_has_company_booking BOOLEAN;
+BEGIN
+    IF p_student_id IS DISTINCT FROM auth.uid() THEN
+        RETURN;
+    END IF;
+
+    SELECT o.company_id, COALESCE(p_event_id, o.event_id)
+    INTO v_company_id, v_event_id
+    FROM offers o
+    WHERE o.id = p_offer_id AND o.is_active = true;
+
+    IF NOT FOUND OR v_event_id IS NULL THEN
+        RETURN;
+    END IF;
+
+    -- Slots are generated per company, so one flag covers every row
+    SELECT EXISTS (
+        SELECT 1
+        FROM bookings b
+        JOIN event_slots es ON es.id = b.slot_id
+        WHERE b.student_id = p_student_id
+          AND b.status = 'confirmed'
+          AND es.company_id = v_company_id
+          AND es.event_id = v_event_id
+    ) INTO v_has_company_booking;
+
+    RETURN QUERY
+    SELECT
+        s.id,
+        s.start_time,
+        s.end_time,
+        s.location,
+        s.capacity,
+        s.confirmed_bookings_count,
+        s.available_spots,
+        conflict.company_name IS NOT NULL,
+        conflict.company_name,
+        v_has_company_booking
+    FROM fn_get_available_slots(v_company_id, v_event_id) s
+    LEFT JOIN LATERAL (
+        SELECT c.company_name
+        FROM bookings b
+        JOIN event_slots es ON es.id = b.slot_id
+        JOIN companies c ON c.id = es.company_id
+        WHERE b.student_id = p_student_id
+          AND b.status = 'confirmed'
+          AND es.start_time < s.end_time
+          AND es.end_time > s.start_time
+        ORDER BY es.start_time
+        LIMIT 1
+    ) conflict ON true
+    ORDER BY s.start_time;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION fn_get_student_offer_slots(UUID, UUID, UUID) TO authenticated;
+
+COMMENT ON FUNCTION fn_get_student_offer_slots IS
+    'Bookable slots of an offer for the calling student: live confirmed count, remaining capacity, own time conflict and already-booked-with-company flags.';
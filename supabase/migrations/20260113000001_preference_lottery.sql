@@ -0,0 +1,597 @@
+-- Migration: Preference-Based Lottery Allocation for Phase 1
+-- Created: 2026-01-13
+-- Description: Adds a 'lottery' phase_mode. During a preference window students
+-- submit a ranked list of offers; an admin then runs a seeded lottery that turns
+-- the preferences into regular Phase 1 bookings. Same seed + same preferences
+-- always produce the same allocation, and every decision is kept in a report.
+
+-- =====================================================
+-- EVENT SETTINGS
+-- =====================================================
+
+ALTER TABLE events DROP CONSTRAINT IF EXISTS events_phase_mode_check;
+ALTER TABLE events ADD CONSTRAINT events_phase_mode_check
+    CHECK (phase_mode IN ('manual', 'date-based', 'lottery'));
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS preference_window_start TIMESTAMPTZ;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS preference_window_end TIMESTAMPTZ;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS preference_max_choices INTEGER DEFAULT 5
+    CHECK (preference_max_choices BETWEEN 1 AND 20);
+
+COMMENT ON COLUMN events.phase_mode IS
+    'manual = admin controls phase transitions manually, date-based = automatic based on configured dates, lottery = Phase 1 seats are allocated from ranked preferences (phase transitions are manual)';
+COMMENT ON COLUMN events.preference_window_start IS
+    'Lottery mode: when students can start submitting ranked preferences';
+COMMENT ON COLUMN events.preference_window_end IS
+    'Lottery mode: preferences lock at this time; the allocation can only run afterwards';
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS booking_preferences (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    student_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    offer_id UUID NOT NULL REFERENCES offers(id) ON DELETE CASCADE,
+    rank INTEGER NOT NULL CHECK (rank BETWEEN 1 AND 20),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT unique_preference_rank UNIQUE (event_id, student_id, rank),
+    CONSTRAINT unique_preference_offer UNIQUE (event_id, student_id, offer_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_preferences_event ON booking_preferences(event_id, rank);
+
+CREATE TABLE IF NOT EXISTS lottery_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    seed TEXT NOT NULL,
+    run_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    student_count INTEGER NOT NULL DEFAULT 0,
+    preference_count INTEGER NOT NULL DEFAULT 0,
+    allocated_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lottery_runs_event ON lottery_runs(event_id, created_at DESC);
+
+-- One row per preference considered by a run
+CREATE TABLE IF NOT EXISTS lottery_allocations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    run_id UUID NOT NULL REFERENCES lottery_runs(id) ON DELETE CASCADE,
+    student_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    offer_id UUID REFERENCES offers(id) ON DELETE SET NULL,
+    preference_rank INTEGER NOT NULL,
+    draw_position INTEGER NOT NULL,
+    slot_id UUID REFERENCES event_slots(id) ON DELETE SET NULL,
+    booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+    outcome TEXT NOT NULL CHECK (outcome IN (
+        'allocated', 'no_capacity', 'limit_reached', 'already_booked', 'deprioritized'
+    )),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lottery_allocations_run ON lottery_allocations(run_id);
+
+ALTER TABLE booking_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lottery_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lottery_allocations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Students can view their preferences" ON booking_preferences
+    FOR SELECT USING (student_id = auth.uid());
+
+CREATE POLICY "Admins can view all preferences" ON booking_preferences
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+    );
+
+CREATE POLICY "Admins can view lottery runs" ON lottery_runs
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+    );
+
+CREATE POLICY "Admins can view lottery allocations" ON lottery_allocations
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+    );
+
+CREATE POLICY "Students can view their lottery outcomes" ON lottery_allocations
+    FOR SELECT USING (student_id = auth.uid());
+
+-- =====================================================
+-- BOOKING LIMIT: NO FIRST-COME-FIRST-SERVED IN LOTTERY PHASE 1
+-- =====================================================
+
+DROP FUNCTION IF EXISTS fn_check_student_booking_limit(UUID, UUID);
+
+CREATE OR REPLACE FUNCTION fn_check_student_booking_limit(
+    p_student_id UUID,
+    p_event_id UUID
+)
+RETURNS TABLE (
+    can_book BOOLEAN,
+    current_count INTEGER,
+    max_allowed INTEGER,
+    current_phase INTEGER,
+    message TEXT
+) AS $$
+DECLARE
+    v_current_phase INTEGER;
+    v_max_allowed INTEGER;
+    v_current_count INTEGER;
+    v_phase_mode TEXT;
+    v_is_deprioritized BOOLEAN;
+    v_now TIMESTAMPTZ := NOW();
+BEGIN
+    -- Get student's deprioritization status
+    SELECT is_deprioritized INTO v_is_deprioritized
+    FROM profiles
+    WHERE id = p_student_id;
+
+    -- Get event phase configuration
+    SELECT
+        e.phase_mode,
+        CASE
+            WHEN e.phase_mode = 'date-based' THEN
+                -- Auto-determine phase based on dates
+                CASE
+                    WHEN v_now < e.phase1_start_date THEN 0
+                    WHEN v_now >= e.phase1_start_date AND v_now <= e.phase1_end_date THEN 1
+                    WHEN v_now >= e.phase2_start_date AND v_now <= e.phase2_end_date THEN 2
+                    ELSE 0  -- Outside all date ranges = closed
+                END
+            ELSE
+                -- Use manual phase (manual and lottery modes)
+                e.current_phase
+        END,
+        CASE
+            WHEN e.phase_mode = 'date-based' THEN
+                CASE
+                    WHEN v_now >= e.phase1_start_date AND v_now <= e.phase1_end_date THEN e.phase1_max_bookings
+                    WHEN v_now >= e.phase2_start_date AND v_now <= e.phase2_end_date THEN e.phase2_max_bookings
+                    ELSE 0
+                END
+            ELSE
+                CASE
+                    WHEN e.current_phase = 1 THEN e.phase1_max_bookings
+                    WHEN e.current_phase = 2 THEN e.phase2_max_bookings
+                    ELSE 0
+                END
+        END
+    INTO v_phase_mode, v_current_phase, v_max_allowed
+    FROM events e
+    WHERE e.id = p_event_id;
+
+    -- Phase 0 = bookings closed
+    IF v_current_phase = 0 THEN
+        RETURN QUERY SELECT
+            false,
+            0,
+            0,
+            v_current_phase,
+            'Bookings are currently closed for this event'::TEXT;
+        RETURN;
+    END IF;
+
+    -- ⚠️ BLOCK DEPRIORITIZED STUDENTS IN PHASE 1
+    IF v_current_phase = 1 AND v_is_deprioritized = true THEN
+        RETURN QUERY SELECT
+            false,
+            0,
+            0,
+            v_current_phase,
+            '⚠️ You cannot book during Phase 1 because you indicated you already have an internship. You can book during Phase 2.'::TEXT;
+        RETURN;
+    END IF;
+
+    -- Lottery events fill Phase 1 from preferences, not direct booking
+    IF v_current_phase = 1 AND v_phase_mode = 'lottery' THEN
+        RETURN QUERY SELECT
+            false,
+            0,
+            0,
+            v_current_phase,
+            'Phase 1 seats for this event are allocated from ranked preferences. Direct booking opens in Phase 2.'::TEXT;
+        RETURN;
+    END IF;
+
+    -- Count student's existing confirmed bookings for this event (use bookings table)
+    SELECT COUNT(*)
+    INTO v_current_count
+    FROM bookings b
+    JOIN event_slots es ON es.id = b.slot_id
+    WHERE b.student_id = p_student_id
+      AND es.event_id = p_event_id
+      AND b.status = 'confirmed';
+
+    -- Return result
+    RETURN QUERY SELECT
+        (v_current_count < v_max_allowed),
+        v_current_count,
+        v_max_allowed,
+        v_current_phase,
+        CASE
+            WHEN v_current_count >= v_max_allowed THEN
+                format('You have reached the maximum of %s interviews for Phase %s',
+                       v_max_allowed, v_current_phase)
+            ELSE
+                format('You can book %s more interview(s). Phase %s: %s/%s booked',
+                       v_max_allowed - v_current_count,
+                       v_current_phase,
+                       v_current_count,
+                       v_max_allowed)
+        END::TEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION fn_check_student_booking_limit(UUID, UUID) TO authenticated, anon;
+
+COMMENT ON FUNCTION fn_check_student_booking_limit IS
+  'Checks if a student can book more interviews based on current phase and limits.
+   BLOCKS deprioritized students (those who already have internships) from booking in Phase 1,
+   and blocks direct Phase 1 booking for lottery events.
+   Uses bookings table. Supports manual, date-based and lottery phase modes.';
+
+-- =====================================================
+-- STUDENT PREFERENCES
+-- =====================================================
+
+-- Replaces the student's whole ranked list (array order = rank)
+CREATE OR REPLACE FUNCTION fn_submit_booking_preferences(
+    p_event_id UUID,
+    p_offer_ids UUID[]
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_event RECORD;
+    v_student_id UUID := auth.uid();
+    v_count INTEGER := COALESCE(array_length(p_offer_ids, 1), 0);
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = v_student_id AND role = 'student') THEN
+        RETURN QUERY SELECT false, 'Only students can submit preferences'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT e.phase_mode, e.preference_window_start, e.preference_window_end, e.preference_max_choices
+    INTO v_event
+    FROM events e
+    WHERE e.id = p_event_id;
+
+    IF NOT FOUND OR v_event.phase_mode IS DISTINCT FROM 'lottery' THEN
+        RETURN QUERY SELECT false, 'This event does not use preference allocation'::TEXT;
+        RETURN;
+    END IF;
+
+    IF (v_event.preference_window_start IS NOT NULL AND NOW() < v_event.preference_window_start)
+       OR (v_event.preference_window_end IS NOT NULL AND NOW() > v_event.preference_window_end) THEN
+        RETURN QUERY SELECT false, 'The preference window is closed'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_count > COALESCE(v_event.preference_max_choices, 5) THEN
+        RETURN QUERY SELECT false, format('You can rank at most %s offers', COALESCE(v_event.preference_max_choices, 5))::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_count <> (SELECT COUNT(DISTINCT x) FROM unnest(p_offer_ids) AS x) THEN
+        RETURN QUERY SELECT false, 'Each offer can only be ranked once'::TEXT;
+        RETURN;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM unnest(p_offer_ids) AS x(offer_id)
+        LEFT JOIN offers o ON o.id = x.offer_id AND o.event_id = p_event_id AND o.is_active = true
+        WHERE o.id IS NULL
+    ) THEN
+        RETURN QUERY SELECT false, 'One of the selected offers is not available for this event'::TEXT;
+        RETURN;
+    END IF;
+
+    DELETE FROM booking_preferences
+    WHERE event_id = p_event_id AND student_id = v_student_id;
+
+    INSERT INTO booking_preferences (event_id, student_id, offer_id, rank)
+    SELECT p_event_id, v_student_id, x.offer_id, x.ord::INTEGER
+    FROM unnest(p_offer_ids) WITH ORDINALITY AS x(offer_id, ord);
+
+    RETURN QUERY SELECT true, format('Saved %s ranked preference(s)', v_count)::TEXT;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION fn_get_student_preferences(p_event_id UUID)
+RETURNS TABLE (
+    rank INTEGER,
+    offer_id UUID,
+    offer_title TEXT,
+    company_name TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT p.rank, p.offer_id, o.title, c.company_name
+    FROM booking_preferences p
+    JOIN offers o ON o.id = p.offer_id
+    JOIN companies c ON c.id = o.company_id
+    WHERE p.event_id = p_event_id
+      AND p.student_id = auth.uid()
+    ORDER BY p.rank;
+$$;
+
+-- =====================================================
+-- ALLOCATION
+-- =====================================================
+
+-- Draw order: students are ranked by md5(seed || student_id), which is
+-- reproducible for a given seed. Preferences are then served round by round
+-- (every student's 1st choice, then every 2nd choice, ...) in snake order so
+-- that the student drawn last in one round is served first in the next.
+-- Each allocated preference takes the earliest free, non-conflicting slot of
+-- the offer's company.
+CREATE OR REPLACE FUNCTION fn_run_lottery_allocation(
+    p_event_id UUID,
+    p_seed TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    run_id UUID,
+    allocated_count INTEGER,
+    message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_event RECORD;
+    v_seed TEXT := NULLIF(btrim(p_seed), '');
+    v_run_id UUID;
+    v_max_rank INTEGER;
+    v_round INTEGER;
+    v_pref RECORD;
+    v_outcome TEXT;
+    v_slot_id UUID;
+    v_booking_id UUID;
+    v_allocated INTEGER := 0;
+    v_student_count INTEGER;
+    v_preference_count INTEGER;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        RETURN QUERY SELECT false, NULL::UUID, 0, 'Only admins can run the allocation'::TEXT;
+        RETURN;
+    END IF;
+
+    -- Serialises concurrent runs for the same event
+    SELECT e.id, e.phase_mode, e.phase1_max_bookings, e.preference_window_end
+    INTO v_event
+    FROM events e
+    WHERE e.id = p_event_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_event.phase_mode IS DISTINCT FROM 'lottery' THEN
+        RETURN QUERY SELECT false, NULL::UUID, 0, 'This event does not use preference allocation'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_event.preference_window_end IS NOT NULL AND NOW() <= v_event.preference_window_end THEN
+        RETURN QUERY SELECT false, NULL::UUID, 0, 'The preference window is still open'::TEXT;
+        RETURN;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM lottery_runs lr WHERE lr.event_id = p_event_id) THEN
+        RETURN QUERY SELECT false, NULL::UUID, 0, 'The allocation has already been run for this event'::TEXT;
+        RETURN;
+    END IF;
+
+    v_seed := COALESCE(v_seed, md5(random()::TEXT || clock_timestamp()::TEXT));
+
+    INSERT INTO lottery_runs (event_id, seed, run_by)
+    VALUES (p_event_id, v_seed, auth.uid())
+    RETURNING id INTO v_run_id;
+
+    CREATE TEMP TABLE IF NOT EXISTS lottery_draw (
+        student_id UUID PRIMARY KEY,
+        draw_position INTEGER NOT NULL,
+        is_deprioritized BOOLEAN NOT NULL
+    ) ON COMMIT DROP;
+    TRUNCATE lottery_draw;
+
+    INSERT INTO lottery_draw (student_id, draw_position, is_deprioritized)
+    SELECT
+        s.student_id,
+        ROW_NUMBER() OVER (ORDER BY md5(v_seed || s.student_id::TEXT), s.student_id)::INTEGER,
+        COALESCE(pr.is_deprioritized, false)
+    FROM (SELECT DISTINCT bp.student_id FROM booking_preferences bp WHERE bp.event_id = p_event_id) s
+    JOIN profiles pr ON pr.id = s.student_id;
+
+    SELECT COUNT(*) INTO v_student_count FROM lottery_draw;
+    SELECT COUNT(*), COALESCE(MAX(bp.rank), 0) INTO v_preference_count, v_max_rank
+    FROM booking_preferences bp
+    WHERE bp.event_id = p_event_id;
+
+    FOR v_round IN 1..v_max_rank LOOP
+        FOR v_pref IN
+            SELECT bp.student_id, bp.offer_id, bp.rank, o.company_id, d.draw_position, d.is_deprioritized
+            FROM booking_preferences bp
+            JOIN lottery_draw d ON d.student_id = bp.student_id
+            JOIN offers o ON o.id = bp.offer_id
+            WHERE bp.event_id = p_event_id
+              AND bp.rank = v_round
+            ORDER BY CASE WHEN v_round % 2 = 1 THEN d.draw_position ELSE -d.draw_position END
+        LOOP
+            v_slot_id := NULL;
+            v_booking_id := NULL;
+
+            IF v_pref.is_deprioritized THEN
+                v_outcome := 'deprioritized';
+            ELSIF (
+                SELECT COUNT(*)
+                FROM bookings b
+                JOIN event_slots es ON es.id = b.slot_id
+                WHERE b.student_id = v_pref.student_id
+                  AND es.event_id = p_event_id
+                  AND b.status = 'confirmed'
+            ) >= COALESCE(v_event.phase1_max_bookings, 3) THEN
+                v_outcome := 'limit_reached';
+            ELSIF EXISTS (
+                SELECT 1
+                FROM bookings b
+                JOIN event_slots es ON es.id = b.slot_id
+                WHERE b.student_id = v_pref.student_id
+                  AND es.company_id = v_pref.company_id
+                  AND es.event_id = p_event_id
+                  AND b.status = 'confirmed'
+            ) THEN
+                v_outcome := 'already_booked';
+            ELSE
+                SELECT es.id INTO v_slot_id
+                FROM event_slots es
+                WHERE es.company_id = v_pref.company_id
+                  AND es.event_id = p_event_id
+                  AND es.is_active = true
+                  AND es.start_time > NOW()
+                  AND es.capacity > (
+                      SELECT COUNT(*) FROM bookings b
+                      WHERE b.slot_id = es.id AND b.status = 'confirmed'
+                  )
+                  AND NOT EXISTS (
+                      SELECT 1
+                      FROM bookings b
+                      JOIN event_slots other ON other.id = b.slot_id
+                      WHERE b.student_id = v_pref.student_id
+                        AND b.status = 'confirmed'
+                        AND other.start_time < es.end_time
+                        AND other.end_time > es.start_time
+                  )
+                ORDER BY es.start_time, es.id
+                LIMIT 1
+                FOR UPDATE;
+
+                IF v_slot_id IS NULL THEN
+                    v_outcome := 'no_capacity';
+                ELSE
+                    DELETE FROM bookings
+                    WHERE student_id = v_pref.student_id
+                      AND slot_id = v_slot_id
+                      AND status = 'cancelled';
+
+                    INSERT INTO bookings (student_id, slot_id, offer_id, status, booking_phase)
+                    VALUES (v_pref.student_id, v_slot_id, v_pref.offer_id, 'confirmed', 1)
+                    RETURNING id INTO v_booking_id;
+
+                    v_outcome := 'allocated';
+                    v_allocated := v_allocated + 1;
+                END IF;
+            END IF;
+
+            INSERT INTO lottery_allocations (
+                run_id, student_id, offer_id, preference_rank, draw_position, slot_id, booking_id, outcome
+            ) VALUES (
+                v_run_id, v_pref.student_id, v_pref.offer_id, v_pref.rank, v_pref.draw_position,
+                v_slot_id, v_booking_id, v_outcome
+            );
+        END LOOP;
+    END LOOP;
+
+    UPDATE lottery_runs
+    SET student_count = v_student_count,
+        preference_count = v_preference_count,
+        allocated_count = v_allocated
+    WHERE id = v_run_id;
+
+    INSERT INTO notifications (user_id, title, message, type, action_url)
+    SELECT
+        d.student_id,
+        'Phase 1 Allocation Results',
+        CASE
+            WHEN COUNT(la.id) FILTER (WHERE la.outcome = 'allocated') > 0 THEN
+                format('You were allocated %s interview(s) from your preferences.', COUNT(la.id) FILTER (WHERE la.outcome = 'allocated'))
+            ELSE
+                'None of your preferences could be allocated. You can book directly when Phase 2 opens.'
+        END,
+        'lottery_result',
+        '/student/bookings'
+    FROM lottery_draw d
+    LEFT JOIN lottery_allocations la ON la.run_id = v_run_id AND la.student_id = d.student_id
+    GROUP BY d.student_id;
+
+    PERFORM log_admin_action(
+        'lottery_allocation',
+        'events',
+        p_event_id,
+        NULL,
+        jsonb_build_object('run_id', v_run_id, 'seed', v_seed, 'allocated', v_allocated),
+        format('Ran Phase 1 lottery allocation: %s of %s preferences allocated', v_allocated, v_preference_count)
+    );
+
+    RETURN QUERY SELECT
+        true,
+        v_run_id,
+        v_allocated,
+        format('Allocated %s interview(s) for %s student(s)', v_allocated, v_student_count)::TEXT;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION fn_get_lottery_report(p_run_id UUID)
+RETURNS TABLE (
+    draw_position INTEGER,
+    student_name TEXT,
+    student_email TEXT,
+    preference_rank INTEGER,
+    company_name TEXT,
+    offer_title TEXT,
+    slot_time TIMESTAMPTZ,
+    outcome TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        la.draw_position,
+        p.full_name,
+        p.email,
+        la.preference_rank,
+        c.company_name,
+        o.title,
+        es.start_time,
+        la.outcome
+    FROM lottery_allocations la
+    JOIN profiles p ON p.id = la.student_id
+    LEFT JOIN offers o ON o.id = la.offer_id
+    LEFT JOIN companies c ON c.id = o.company_id
+    LEFT JOIN event_slots es ON es.id = la.slot_id
+    WHERE la.run_id = p_run_id
+    ORDER BY la.draw_position, la.preference_rank;
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+GRANT EXECUTE ON FUNCTION fn_submit_booking_preferences(UUID, UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_get_student_preferences(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_run_lottery_allocation(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_get_lottery_report(UUID) TO authenticated;
+
+COMMENT ON FUNCTION fn_submit_booking_preferences IS
+    'Replaces the calling student''s ranked offer list for a lottery event. Only accepted while the preference window is open.';
+COMMENT ON FUNCTION fn_run_lottery_allocation IS
+    'Admin only. Runs the seeded Phase 1 lottery once per event and writes the results as bookings with booking_phase = 1.';
@@ -0,0 +1,876 @@
+-- Migration: Configurable Booking Phases
+-- Created: 2026-01-14
+-- Description: Replaces the fixed Phase 1 / Phase 2 model with an ordered list
+-- of phases per event. Each phase has its own window, booking limit and
+-- eligibility rule (deprioritized flag, programs, graduation years), so an event
+-- can run e.g. priority students -> final-year students -> everyone. The Phase 1
+-- lottery draw applies the same eligibility rule as direct booking.
+--
+-- events.current_phase keeps pointing at a phase_number (0 = closed). The legacy
+-- phase1_* / phase2_* columns are kept in sync with phases 1 and 2 for the pages
+-- and functions that still read them.
+
+-- =====================================================
+-- EVENT PHASES TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS event_phases (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    phase_number INTEGER NOT NULL CHECK (phase_number BETWEEN 1 AND 10),
+    name TEXT NOT NULL,
+    start_date TIMESTAMPTZ,
+    end_date TIMESTAMPTZ,
+    max_bookings INTEGER NOT NULL CHECK (max_bookings > 0),
+    allow_deprioritized BOOLEAN NOT NULL DEFAULT true,
+    eligible_programs TEXT[],
+    eligible_graduation_years INTEGER[],
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT unique_event_phase_number UNIQUE (event_id, phase_number),
+    CONSTRAINT valid_event_phase_dates CHECK (
+        start_date IS NULL OR end_date IS NULL OR start_date < end_date
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_phases_event ON event_phases(event_id, phase_number);
+
+COMMENT ON COLUMN event_phases.allow_deprioritized IS
+    'false = students who already have an internship cannot book in this phase';
+COMMENT ON COLUMN event_phases.eligible_programs IS
+    'NULL = every program; otherwise only students whose profile program matches (case-insensitive)';
+COMMENT ON COLUMN event_phases.eligible_graduation_years IS
+    'NULL = every graduation year; otherwise only students graduating in one of these years';
+
+ALTER TABLE event_phases ENABLE ROW LEVEL SECURITY;
+
+-- Phase names and limits are shown to students on the booking pages
+CREATE POLICY "Authenticated users can view event phases" ON event_phases
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+-- Writes go through fn_save_event_phases
+
+-- =====================================================
+-- RELAX PHASE NUMBER CONSTRAINTS
+-- =====================================================
+
+ALTER TABLE events DROP CONSTRAINT IF EXISTS events_current_phase_check;
+ALTER TABLE events ADD CONSTRAINT events_current_phase_check
+    CHECK (current_phase BETWEEN 0 AND 10);
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_booking_phase_check;
+ALTER TABLE bookings ADD CONSTRAINT bookings_booking_phase_check
+    CHECK (booking_phase BETWEEN 1 AND 10);
+
+COMMENT ON COLUMN events.current_phase IS
+    '0 = Closed, otherwise the phase_number of the active row in event_phases (manual and lottery modes)';
+
+-- =====================================================
+-- BACKFILL AND DEFAULT PHASES
+-- =====================================================
+
+INSERT INTO event_phases (event_id, phase_number, name, start_date, end_date, max_bookings, allow_deprioritized)
+SELECT id, 1, 'Priority', phase1_start_date, phase1_end_date, COALESCE(phase1_max_bookings, 3), false
+FROM events
+UNION ALL
+SELECT id, 2, 'Open', phase2_start_date, phase2_end_date, COALESCE(phase2_max_bookings, 6), true
+FROM events
+ON CONFLICT (event_id, phase_number) DO NOTHING;
+
+-- New events start with the classic two phases, built from the legacy columns
+CREATE OR REPLACE FUNCTION fn_seed_event_phases()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO event_phases (event_id, phase_number, name, start_date, end_date, max_bookings, allow_deprioritized)
+    VALUES
+        (NEW.id, 1, 'Priority', NEW.phase1_start_date, NEW.phase1_end_date, COALESCE(NEW.phase1_max_bookings, 3), false),
+        (NEW.id, 2, 'Open', NEW.phase2_start_date, NEW.phase2_end_date, COALESCE(NEW.phase2_max_bookings, 6), true)
+    ON CONFLICT (event_id, phase_number) DO NOTHING;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS seed_event_phases ON events;
+CREATE TRIGGER seed_event_phases
+    AFTER INSERT ON events
+    FOR EACH ROW
+    EXECUTE FUNCTION fn_seed_event_phases();
+
+-- =====================================================
+-- ACTIVE PHASE RESOLUTION
+-- =====================================================
+
+-- Phase number currently in effect for an event (0 = closed)
+CREATE OR REPLACE FUNCTION fn_resolve_event_phase(p_event_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_phase_mode TEXT;
+    v_current_phase INTEGER;
+    v_phase_number INTEGER;
+BEGIN
+    SELECT phase_mode, current_phase
+    INTO v_phase_mode, v_current_phase
+    FROM events
+    WHERE id = p_event_id;
+
+    IF NOT FOUND THEN
+        RETURN 0;
+    END IF;
+
+    IF v_phase_mode = 'date-based' THEN
+        -- Latest phase whose window contains now; outside all windows = closed
+        SELECT ep.phase_number INTO v_phase_number
+        FROM event_phases ep
+        WHERE ep.event_id = p_event_id
+          AND ep.start_date IS NOT NULL
+          AND ep.end_date IS NOT NULL
+          AND NOW() >= ep.start_date
+          AND NOW() <= ep.end_date
+        ORDER BY ep.phase_number DESC
+        LIMIT 1;
+
+        RETURN COALESCE(v_phase_number, 0);
+    END IF;
+
+    RETURN COALESCE(v_current_phase, 0);
+END;
+$$;
+
+-- =====================================================
+-- PHASE ELIGIBILITY
+-- =====================================================
+
+-- Whether a student may take part in a phase. Shared by direct booking
+-- (fn_check_student_booking_limit) and the Phase 1 lottery draw. reason is
+-- 'deprioritized', 'program' or 'graduation_year' when not eligible; a phase
+-- that is not configured puts no restriction.
+CREATE OR REPLACE FUNCTION fn_check_phase_eligibility(
+    p_student_id UUID,
+    p_event_id UUID,
+    p_phase_number INTEGER
+)
+RETURNS TABLE (
+    eligible BOOLEAN,
+    reason TEXT,
+    message TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_phase RECORD;
+    v_student RECORD;
+BEGIN
+    SELECT ep.name, ep.allow_deprioritized, ep.eligible_programs, ep.eligible_graduation_years
+    INTO v_phase
+    FROM event_phases ep
+    WHERE ep.event_id = p_event_id
+      AND ep.phase_number = p_phase_number;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT true, NULL::TEXT, NULL::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT p.is_deprioritized, p.program, p.graduation_year
+    INTO v_student
+    FROM profiles p
+    WHERE p.id = p_student_id;
+
+    -- ⚠️ BLOCK DEPRIORITIZED STUDENTS IN PRIORITY PHASES
+    IF NOT v_phase.allow_deprioritized AND v_student.is_deprioritized = true THEN
+        RETURN QUERY SELECT
+            false,
+            'deprioritized'::TEXT,
+            format('⚠️ You cannot book during Phase %s (%s) because you indicated you already have an internship. You can book in a later phase.',
+                   p_phase_number, v_phase.name)::TEXT;
+        RETURN;
+    END IF;
+
+    IF COALESCE(array_length(v_phase.eligible_programs, 1), 0) > 0 AND NOT EXISTS (
+        SELECT 1
+        FROM unnest(v_phase.eligible_programs) AS allowed(program)
+        WHERE lower(trim(allowed.program)) = lower(trim(v_student.program))
+    ) THEN
+        RETURN QUERY SELECT
+            false,
+            'program'::TEXT,
+            format('Phase %s (%s) is reserved for students in: %s',
+                   p_phase_number, v_phase.name, array_to_string(v_phase.eligible_programs, ', '))::TEXT;
+        RETURN;
+    END IF;
+
+    IF COALESCE(array_length(v_phase.eligible_graduation_years, 1), 0) > 0
+       AND (v_student.graduation_year IS NULL OR NOT v_student.graduation_year = ANY (v_phase.eligible_graduation_years)) THEN
+        RETURN QUERY SELECT
+            false,
+            'graduation_year'::TEXT,
+            format('Phase %s (%s) is reserved for students graduating in: %s',
+                   p_phase_number, v_phase.name, array_to_string(v_phase.eligible_graduation_years, ', '))::TEXT;
+        RETURN;
+    END IF;
+
+    RETURN QUERY SELECT true, NULL::TEXT, NULL::TEXT;
+END;
+$$;
+
+-- =====================================================
+-- BOOKING LIMIT: PER-PHASE LIMITS AND ELIGIBILITY
+-- =====================================================
+
+DROP FUNCTION IF EXISTS fn_check_student_booking_limit(UUID, UUID);
+
+CREATE OR REPLACE FUNCTION fn_check_student_booking_limit(
+    p_student_id UUID,
+    p_event_id UUID
+)
+RETURNS TABLE (
+    can_book BOOLEAN,
+    current_count INTEGER,
+    max_allowed INTEGER,
+    current_phase INTEGER,
+    message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_current_phase INTEGER;
+    v_current_count INTEGER;
+    v_phase_mode TEXT;
+    v_phase RECORD;
+    v_eligibility RECORD;
+BEGIN
+    SELECT phase_mode INTO v_phase_mode
+    FROM events
+    WHERE id = p_event_id;
+
+    v_current_phase := fn_resolve_event_phase(p_event_id);
+
+    -- Phase 0 = bookings closed
+    IF v_current_phase = 0 THEN
+        RETURN QUERY SELECT
+            false,
+            0,
+            0,
+            v_current_phase,
+            'Bookings are currently closed for this event'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT ep.name, ep.max_bookings
+    INTO v_phase
+    FROM event_phases ep
+    WHERE ep.event_id = p_event_id
+      AND ep.phase_number = v_current_phase;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT
+            false,
+            0,
+            0,
+            v_current_phase,
+            format('Phase %s is not configured for this event', v_current_phase)::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT * INTO v_eligibility
+    FROM fn_check_phase_eligibility(p_student_id, p_event_id, v_current_phase);
+
+    IF NOT v_eligibility.eligible THEN
+        RETURN QUERY SELECT
+            false,
+            0,
+            0,
+            v_current_phase,
+            v_eligibility.message;
+        RETURN;
+    END IF;
+
+    -- Lottery events fill Phase 1 from preferences, not direct booking
+    IF v_current_phase = 1 AND v_phase_mode = 'lottery' THEN
+        RETURN QUERY SELECT
+            false,
+            0,
+            0,
+            v_current_phase,
+            'Phase 1 seats for this event are allocated from ranked preferences. Direct booking opens in the next phase.'::TEXT;
+        RETURN;
+    END IF;
+
+    -- Count student's existing confirmed bookings for this event (use bookings table)
+    SELECT COUNT(*)
+    INTO v_current_count
+    FROM bookings b
+    JOIN event_slots es ON es.id = b.slot_id
+    WHERE b.student_id = p_student_id
+      AND es.event_id = p_event_id
+      AND b.status = 'confirmed';
+
+    -- Return result
+    RETURN QUERY SELECT
+        (v_current_count < v_phase.max_bookings),
+        v_current_count,
+        v_phase.max_bookings,
+        v_current_phase,
+        CASE
+            WHEN v_current_count >= v_phase.max_bookings THEN
+                format('You have reached the maximum of %s interviews for Phase %s',
+                       v_phase.max_bookings, v_current_phase)
+            ELSE
+                format('You can book %s more interview(s). Phase %s: %s/%s booked',
+                       v_phase.max_bookings - v_current_count,
+                       v_current_phase,
+                       v_current_count,
+                       v_phase.max_bookings)
+        END::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION fn_check_student_booking_limit(UUID, UUID) TO authenticated, anon;
+
+COMMENT ON FUNCTION fn_check_student_booking_limit IS
+  'Checks if a student can book more interviews in the active phase of an event.
+   Limits and eligibility (deprioritized flag, programs, graduation years) come from event_phases.
+   Blocks direct Phase 1 booking for lottery events. Supports manual, date-based and lottery phase modes.';
+
+-- =====================================================
+-- BOOKING: RECORD THE RESOLVED PHASE
+-- =====================================================
+
+-- Same checks as the 2025-12-08 version. The booking limit now carries phase
+-- eligibility, its message is surfaced when the student is not eligible, and
+-- booking_phase comes from the resolved phase (date-based events used to store
+-- events.current_phase, which is not maintained in that mode).
+CREATE OR REPLACE FUNCTION public.fn_book_interview(p_student_id uuid, p_slot_id uuid, p_offer_id uuid)
+RETURNS TABLE(success boolean, booking_id uuid, message text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_booking_id UUID;
+    v_can_book BOOLEAN;
+    v_event_id UUID;
+    v_current_count INTEGER;
+    v_max_allowed INTEGER;
+    v_available_spots INTEGER;
+    v_company_id UUID;
+    v_slot_capacity INTEGER;
+    v_current_bookings INTEGER;
+    v_current_phase INTEGER;
+    v_limit_message TEXT;
+BEGIN
+    -- Lock the slot row so concurrent bookings see accurate counts
+    SELECT event_id, company_id, capacity INTO v_event_id, v_company_id, v_slot_capacity
+    FROM event_slots
+    WHERE id = p_slot_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'Slot not found'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT COUNT(*) INTO v_current_bookings
+    FROM bookings
+    WHERE slot_id = p_slot_id AND status = 'confirmed';
+
+    IF v_current_bookings >= v_slot_capacity THEN
+        RETURN QUERY SELECT false, NULL::UUID,
+            format('This slot is fully booked (%s/%s spots taken)', v_current_bookings, v_slot_capacity)::TEXT;
+        RETURN;
+    END IF;
+
+    -- Check if student already has a booking for this slot (including cancelled ones due to unique constraint)
+    IF EXISTS (
+        SELECT 1 FROM bookings
+        WHERE student_id = p_student_id AND slot_id = p_slot_id
+    ) THEN
+        DELETE FROM bookings
+        WHERE student_id = p_student_id
+          AND slot_id = p_slot_id
+          AND status = 'cancelled';
+
+        IF EXISTS (
+            SELECT 1 FROM bookings
+            WHERE student_id = p_student_id AND slot_id = p_slot_id
+        ) THEN
+            RETURN QUERY SELECT false, NULL::UUID, 'You already have a booking for this time slot'::TEXT;
+            RETURN;
+        END IF;
+    END IF;
+
+    -- Check if student already has a booking with this company for this event
+    IF EXISTS (
+        SELECT 1
+        FROM bookings b
+        JOIN event_slots es ON es.id = b.slot_id
+        WHERE b.student_id = p_student_id
+          AND es.company_id = v_company_id
+          AND es.event_id = v_event_id
+          AND b.status = 'confirmed'
+    ) THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'You already have a booking with this company for this event'::TEXT;
+        RETURN;
+    END IF;
+
+    -- Active phase, its limit and its eligibility rule
+    SELECT l.can_book, l.current_count, l.max_allowed, l.current_phase, l.message
+    INTO v_can_book, v_current_count, v_max_allowed, v_current_phase, v_limit_message
+    FROM fn_check_student_booking_limit(p_student_id, v_event_id) l;
+
+    IF NOT COALESCE(v_can_book, false) THEN
+        IF v_max_allowed > 0 THEN
+            RETURN QUERY SELECT
+                false,
+                NULL::UUID,
+                format('You have reached your booking limit (%s/%s bookings)', v_current_count, v_max_allowed)::TEXT;
+        ELSE
+            RETURN QUERY SELECT false, NULL::UUID, COALESCE(v_limit_message, 'Bookings are currently closed for this event')::TEXT;
+        END IF;
+        RETURN;
+    END IF;
+
+    -- Verify offer exists and is active
+    IF NOT EXISTS (
+        SELECT 1 FROM offers
+        WHERE id = p_offer_id AND is_active = true
+    ) THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'Offer not found or inactive'::TEXT;
+        RETURN;
+    END IF;
+
+    -- Check for time conflicts with existing bookings
+    IF EXISTS (
+        SELECT 1
+        FROM bookings b
+        JOIN event_slots es_existing ON es_existing.id = b.slot_id
+        JOIN event_slots es_new ON es_new.id = p_slot_id
+        WHERE b.student_id = p_student_id
+          AND b.status = 'confirmed'
+          AND es_existing.start_time < es_new.end_time
+          AND es_existing.end_time > es_new.start_time
+    ) THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'This time slot conflicts with another booking'::TEXT;
+        RETURN;
+    END IF;
+
+    INSERT INTO bookings (
+        student_id,
+        slot_id,
+        offer_id,
+        status,
+        booking_phase
+    ) VALUES (
+        p_student_id,
+        p_slot_id,
+        p_offer_id,
+        'confirmed',
+        v_current_phase
+    ) RETURNING id INTO v_booking_id;
+
+    v_available_spots := v_slot_capacity - v_current_bookings - 1;
+
+    RETURN QUERY SELECT
+        true,
+        v_booking_id,
+        format('Interview booked successfully! %s spot(s) remaining', v_available_spots)::TEXT;
+END;
+$$;
+
+COMMENT ON FUNCTION public.fn_book_interview IS
+'Book interview slot with row-level locking. Enforces the active event phase (limit and eligibility) and records it as booking_phase.';
+
+-- =====================================================
+-- ADMIN: SAVE PHASE LIST
+-- =====================================================
+
+-- Replaces the phase list of an event. Array order = phase_number. Each element:
+-- { name, start_date, end_date, max_bookings, allow_deprioritized,
+--   eligible_programs: text[], eligible_graduation_years: int[] }
+CREATE OR REPLACE FUNCTION fn_save_event_phases(
+    p_event_id UUID,
+    p_phases JSONB
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_event RECORD;
+    v_count INTEGER := COALESCE(jsonb_array_length(p_phases), 0);
+    v_old JSONB;
+    v_phase JSONB;
+    v_position INTEGER;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        RETURN QUERY SELECT false, 'Only admins can configure booking phases'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT id, current_phase INTO v_event
+    FROM events
+    WHERE id = p_event_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT false, 'Event not found'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_count = 0 THEN
+        RETURN QUERY SELECT false, 'An event needs at least one booking phase'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_count > 10 THEN
+        RETURN QUERY SELECT false, 'An event can have at most 10 booking phases'::TEXT;
+        RETURN;
+    END IF;
+
+    IF COALESCE(v_event.current_phase, 0) > v_count THEN
+        RETURN QUERY SELECT false,
+            format('Phase %s is currently active. Close booking or switch phase before removing it.', v_event.current_phase)::TEXT;
+        RETURN;
+    END IF;
+
+    FOR v_phase, v_position IN
+        SELECT value, ordinality FROM jsonb_array_elements(p_phases) WITH ORDINALITY
+    LOOP
+        IF COALESCE(trim(v_phase->>'name'), '') = '' THEN
+            RETURN QUERY SELECT false, format('Phase %s needs a name', v_position)::TEXT;
+            RETURN;
+        END IF;
+
+        IF COALESCE((v_phase->>'max_bookings')::INTEGER, 0) < 1 THEN
+            RETURN QUERY SELECT false, format('Phase %s needs a booking limit of at least 1', v_position)::TEXT;
+            RETURN;
+        END IF;
+
+        IF (v_phase->>'start_date') IS NOT NULL AND (v_phase->>'end_date') IS NOT NULL
+           AND (v_phase->>'start_date')::TIMESTAMPTZ >= (v_phase->>'end_date')::TIMESTAMPTZ THEN
+            RETURN QUERY SELECT false, format('Phase %s must start before it ends', v_position)::TEXT;
+            RETURN;
+        END IF;
+    END LOOP;
+
+    SELECT COALESCE(jsonb_agg(to_jsonb(ep) ORDER BY ep.phase_number), '[]'::JSONB)
+    INTO v_old
+    FROM event_phases ep
+    WHERE ep.event_id = p_event_id;
+
+    DELETE FROM event_phases WHERE event_id = p_event_id;
+
+    INSERT INTO event_phases (
+        event_id,
+        phase_number,
+        name,
+        start_date,
+        end_date,
+        max_bookings,
+        allow_deprioritized,
+        eligible_programs,
+        eligible_graduation_years
+    )
+    SELECT
+        p_event_id,
+        e.ordinality,
+        trim(e.value->>'name'),
+        (e.value->>'start_date')::TIMESTAMPTZ,
+        (e.value->>'end_date')::TIMESTAMPTZ,
+        (e.value->>'max_bookings')::INTEGER,
+        COALESCE((e.value->>'allow_deprioritized')::BOOLEAN, true),
+        NULLIF(ARRAY(
+            SELECT trim(p) FROM jsonb_array_elements_text(COALESCE(e.value->'eligible_programs', '[]'::JSONB)) p
+            WHERE trim(p) <> ''
+        ), '{}'),
+        NULLIF(ARRAY(
+            SELECT y::INTEGER FROM jsonb_array_elements_text(COALESCE(e.value->'eligible_graduation_years', '[]'::JSONB)) y
+        ), '{}')
+    FROM jsonb_array_elements(p_phases) WITH ORDINALITY e;
+
+    -- Keep the legacy two-phase columns readable
+    UPDATE events ev
+    SET phase1_start_date = p1.start_date,
+        phase1_end_date = p1.end_date,
+        phase1_max_bookings = p1.max_bookings,
+        phase2_start_date = p2.start_date,
+        phase2_end_date = p2.end_date,
+        phase2_max_bookings = COALESCE(p2.max_bookings, p1.max_bookings)
+    FROM event_phases p1
+    LEFT JOIN event_phases p2 ON p2.event_id = p1.event_id AND p2.phase_number = 2
+    WHERE ev.id = p_event_id
+      AND p1.event_id = p_event_id
+      AND p1.phase_number = 1;
+
+    PERFORM log_admin_action(
+        'update_event_phases',
+        'events',
+        p_event_id,
+        jsonb_build_object('phases', v_old),
+        jsonb_build_object('phases', p_phases),
+        format('Configured %s booking phase(s)', v_count)
+    );
+
+    RETURN QUERY SELECT true, format('%s booking phase(s) saved', v_count)::TEXT;
+END;
+$$;
+
+-- =====================================================
+-- LOTTERY: PHASE 1 ELIGIBILITY
+-- =====================================================
+
+ALTER TABLE lottery_allocations DROP CONSTRAINT IF EXISTS lottery_allocations_outcome_check;
+ALTER TABLE lottery_allocations ADD CONSTRAINT lottery_allocations_outcome_check
+    CHECK (outcome IN (
+        'allocated', 'no_capacity', 'limit_reached', 'already_booked', 'deprioritized', 'ineligible'
+    ));
+
+-- Same draw as the 2026-01-13 version. Students outside Phase 1's programs or
+-- graduation years are recorded as 'ineligible', deprioritized students only
+-- when Phase 1 does not allow them, and the limit comes from Phase 1's row.
+CREATE OR REPLACE FUNCTION fn_run_lottery_allocation(
+    p_event_id UUID,
+    p_seed TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    run_id UUID,
+    allocated_count INTEGER,
+    message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_event RECORD;
+    v_seed TEXT := NULLIF(btrim(p_seed), '');
+    v_run_id UUID;
+    v_max_rank INTEGER;
+    v_round INTEGER;
+    v_pref RECORD;
+    v_outcome TEXT;
+    v_slot_id UUID;
+    v_booking_id UUID;
+    v_allocated INTEGER := 0;
+    v_student_count INTEGER;
+    v_preference_count INTEGER;
+    v_phase1_max INTEGER;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        RETURN QUERY SELECT false, NULL::UUID, 0, 'Only admins can run the allocation'::TEXT;
+        RETURN;
+    END IF;
+
+    -- Serialises concurrent runs for the same event
+    SELECT e.id, e.phase_mode, e.phase1_max_bookings, e.preference_window_end
+    INTO v_event
+    FROM events e
+    WHERE e.id = p_event_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_event.phase_mode IS DISTINCT FROM 'lottery' THEN
+        RETURN QUERY SELECT false, NULL::UUID, 0, 'This event does not use preference allocation'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_event.preference_window_end IS NOT NULL AND NOW() <= v_event.preference_window_end THEN
+        RETURN QUERY SELECT false, NULL::UUID, 0, 'The preference window is still open'::TEXT;
+        RETURN;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM lottery_runs lr WHERE lr.event_id = p_event_id) THEN
+        RETURN QUERY SELECT false, NULL::UUID, 0, 'The allocation has already been run for this event'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT COALESCE(ep.max_bookings, v_event.phase1_max_bookings, 3) INTO v_phase1_max
+    FROM (SELECT 1) one
+    LEFT JOIN event_phases ep ON ep.event_id = p_event_id AND ep.phase_number = 1;
+
+    v_seed := COALESCE(v_seed, md5(random()::TEXT || clock_timestamp()::TEXT));
+
+    INSERT INTO lottery_runs (event_id, seed, run_by)
+    VALUES (p_event_id, v_seed, auth.uid())
+    RETURNING id INTO v_run_id;
+
+    CREATE TEMP TABLE IF NOT EXISTS lottery_draw (
+        student_id UUID PRIMARY KEY,
+        draw_position INTEGER NOT NULL,
+        ineligible_reason TEXT
+    ) ON COMMIT DROP;
+    TRUNCATE lottery_draw;
+
+    -- Phase 1 eligibility is the same as for direct booking in that phase
+    INSERT INTO lottery_draw (student_id, draw_position, ineligible_reason)
+    SELECT
+        s.student_id,
+        ROW_NUMBER() OVER (ORDER BY md5(v_seed || s.student_id::TEXT), s.student_id)::INTEGER,
+        CASE WHEN NOT el.eligible THEN el.reason END
+    FROM (SELECT DISTINCT bp.student_id FROM booking_preferences bp WHERE bp.event_id = p_event_id) s
+    JOIN profiles pr ON pr.id = s.student_id
+    CROSS JOIN LATERAL fn_check_phase_eligibility(s.student_id, p_event_id, 1) el;
+
+    SELECT COUNT(*) INTO v_student_count FROM lottery_draw;
+    SELECT COUNT(*), COALESCE(MAX(bp.rank), 0) INTO v_preference_count, v_max_rank
+    FROM booking_preferences bp
+    WHERE bp.event_id = p_event_id;
+
+    FOR v_round IN 1..v_max_rank LOOP
+        FOR v_pref IN
+            SELECT bp.student_id, bp.offer_id, bp.rank, o.company_id, d.draw_position, d.ineligible_reason
+            FROM booking_preferences bp
+            JOIN lottery_draw d ON d.student_id = bp.student_id
+            JOIN offers o ON o.id = bp.offer_id
+            WHERE bp.event_id = p_event_id
+              AND bp.rank = v_round
+            ORDER BY CASE WHEN v_round % 2 = 1 THEN d.draw_position ELSE -d.draw_position END
+        LOOP
+            v_slot_id := NULL;
+            v_booking_id := NULL;
+
+            IF v_pref.ineligible_reason = 'deprioritized' THEN
+                v_outcome := 'deprioritized';
+            ELSIF v_pref.ineligible_reason IS NOT NULL THEN
+                v_outcome := 'ineligible';
+            ELSIF (
+                SELECT COUNT(*)
+                FROM bookings b
+                JOIN event_slots es ON es.id = b.slot_id
+                WHERE b.student_id = v_pref.student_id
+                  AND es.event_id = p_event_id
+                  AND b.status = 'confirmed'
+            ) >= v_phase1_max THEN
+                v_outcome := 'limit_reached';
+            ELSIF EXISTS (
+                SELECT 1
+                FROM bookings b
+                JOIN event_slots es ON es.id = b.slot_id
+                WHERE b.student_id = v_pref.student_id
+                  AND es.company_id = v_pref.company_id
+                  AND es.event_id = p_event_id
+                  AND b.status = 'confirmed'
+            ) THEN
+                v_outcome := 'already_booked';
+            ELSE
+                SELECT es.id INTO v_slot_id
+                FROM event_slots es
+                WHERE es.company_id = v_pref.company_id
+                  AND es.event_id = p_event_id
+                  AND es.is_active = true
+                  AND es.start_time > NOW()
+                  AND es.capacity > (
+                      SELECT COUNT(*) FROM bookings b
+                      WHERE b.slot_id = es.id AND b.status = 'confirmed'
+                  )
+                  AND NOT EXISTS (
+                      SELECT 1
+                      FROM bookings b
+                      JOIN event_slots other ON other.id = b.slot_id
+                      WHERE b.student_id = v_pref.student_id
+                        AND b.status = 'confirmed'
+                        AND other.start_time < es.end_time
+                        AND other.end_time > es.start_time
+                  )
+                ORDER BY es.start_time, es.id
+                LIMIT 1
+                FOR UPDATE;
+
+                IF v_slot_id IS NULL THEN
+                    v_outcome := 'no_capacity';
+                ELSE
+                    DELETE FROM bookings
+                    WHERE student_id = v_pref.student_id
+                      AND slot_id = v_slot_id
+                      AND status = 'cancelled';
+
+                    INSERT INTO bookings (student_id, slot_id, offer_id, status, booking_phase)
+                    VALUES (v_pref.student_id, v_slot_id, v_pref.offer_id, 'confirmed', 1)
+                    RETURNING id INTO v_booking_id;
+
+                    v_outcome := 'allocated';
+                    v_allocated := v_allocated + 1;
+                END IF;
+            END IF;
+
+            INSERT INTO lottery_allocations (
+                run_id, student_id, offer_id, preference_rank, draw_position, slot_id, booking_id, outcome
+            ) VALUES (
+                v_run_id, v_pref.student_id, v_pref.offer_id, v_pref.rank, v_pref.draw_position,
+                v_slot_id, v_booking_id, v_outcome
+            );
+        END LOOP;
+    END LOOP;
+
+    UPDATE lottery_runs
+    SET student_count = v_student_count,
+        preference_count = v_preference_count,
+        allocated_count = v_allocated
+    WHERE id = v_run_id;
+
+    INSERT INTO notifications (user_id, title, message, type, action_url)
+    SELECT
+        d.student_id,
+        'Phase 1 Allocation Results',
+        CASE
+            WHEN COUNT(la.id) FILTER (WHERE la.outcome = 'allocated') > 0 THEN
+                format('You were allocated %s interview(s) from your preferences.', COUNT(la.id) FILTER (WHERE la.outcome = 'allocated'))
+            ELSE
+                'None of your preferences could be allocated. You can book directly when Phase 2 opens.'
+        END,
+        'lottery_result',
+        '/student/bookings'
+    FROM lottery_draw d
+    LEFT JOIN lottery_allocations la ON la.run_id = v_run_id AND la.student_id = d.student_id
+    GROUP BY d.student_id;
+
+    PERFORM log_admin_action(
+        'lottery_allocation',
+        'events',
+        p_event_id,
+        NULL,
+        jsonb_build_object('run_id', v_run_id, 'seed', v_seed, 'allocated', v_allocated),
+        format('Ran Phase 1 lottery allocation: %s of %s preferences allocated', v_allocated, v_preference_count)
+    );
+
+    RETURN QUERY SELECT
+        true,
+        v_run_id,
+        v_allocated,
+        format('Allocated %s interview(s) for %s student(s)', v_allocated, v_student_count)::TEXT;
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+GRANT EXECUTE ON FUNCTION fn_resolve_event_phase(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION fn_check_phase_eligibility(UUID, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION fn_save_event_phases(UUID, JSONB) TO authenticated;
+
+COMMENT ON FUNCTION fn_resolve_event_phase IS
+    'Phase number in effect for an event: the matching event_phases window in date-based mode, events.current_phase otherwise. 0 = closed.';
+COMMENT ON FUNCTION fn_check_phase_eligibility IS
+    'Internal. Whether a student meets a phase''s deprioritized, program and graduation year rules.';
+COMMENT ON FUNCTION fn_save_event_phases IS
+    'Admin only. Replaces the ordered booking phase list of an event and mirrors phases 1 and 2 into the legacy events columns.';
@@ -0,0 +1,240 @@
+-- Migration: Scheduled Phase Transitions
+-- Created: 2026-01-15
+-- Description: Makes fn_auto_transition_event_phases usable from a scheduled
+-- edge function (auto-phase-transitions). The old version only looked at
+-- phase_mode = 'auto', which the admin UI never sets, and was callable by anon.
+-- It now applies the phase resolved from event_phases to every active
+-- date-based event, keeps events.current_phase in step, writes an admin_actions
+-- row per transition and notifies the affected students.
+
+-- =====================================================
+-- SYSTEM AUDIT ROWS
+-- =====================================================
+
+-- Scheduled jobs have no auth.uid(); their admin_actions rows carry NULL
+ALTER TABLE admin_actions ALTER COLUMN admin_id DROP NOT NULL;
+
+COMMENT ON COLUMN admin_actions.admin_id IS
+    'Admin who performed the action, NULL for scheduled system actions';
+
+-- =====================================================
+-- PHASE RESOLUTION AT A GIVEN TIME
+-- =====================================================
+
+-- Same rule as fn_resolve_event_phase, evaluated at p_at
+CREATE OR REPLACE FUNCTION fn_resolve_event_phase_at(p_event_id UUID, p_at TIMESTAMPTZ)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_phase_mode TEXT;
+    v_current_phase INTEGER;
+    v_phase_number INTEGER;
+BEGIN
+    SELECT phase_mode, current_phase
+    INTO v_phase_mode, v_current_phase
+    FROM events
+    WHERE id = p_event_id;
+
+    IF NOT FOUND THEN
+        RETURN 0;
+    END IF;
+
+    IF v_phase_mode = 'date-based' THEN
+        SELECT ep.phase_number INTO v_phase_number
+        FROM event_phases ep
+        WHERE ep.event_id = p_event_id
+          AND ep.start_date IS NOT NULL
+          AND ep.end_date IS NOT NULL
+          AND p_at >= ep.start_date
+          AND p_at <= ep.end_date
+        ORDER BY ep.phase_number DESC
+        LIMIT 1;
+
+        RETURN COALESCE(v_phase_number, 0);
+    END IF;
+
+    RETURN COALESCE(v_current_phase, 0);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION fn_resolve_event_phase(p_event_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT fn_resolve_event_phase_at(p_event_id, NOW());
+$$;
+
+-- =====================================================
+-- SCHEDULED TRANSITIONS
+-- =====================================================
+
+DROP FUNCTION IF EXISTS fn_auto_transition_event_phases();
+
+CREATE OR REPLACE FUNCTION fn_auto_transition_event_phases()
+RETURNS TABLE (
+    event_id UUID,
+    event_name TEXT,
+    from_phase INTEGER,
+    to_phase INTEGER,
+    notified_count INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_event RECORD;
+    v_target INTEGER;
+    v_phase_name TEXT;
+    v_notified INTEGER;
+BEGIN
+    FOR v_event IN
+        SELECT e.id, e.name, COALESCE(e.current_phase, 0) AS current_phase
+        FROM events e
+        WHERE e.is_active = true
+          AND e.phase_mode = 'date-based'
+        ORDER BY e.date
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        v_target := fn_resolve_event_phase(v_event.id);
+        CONTINUE WHEN v_target = v_event.current_phase;
+
+        UPDATE events
+        SET current_phase = v_target,
+            updated_at = NOW()
+        WHERE id = v_event.id;
+
+        IF v_target = 0 THEN
+            -- Booking closed: tell the students who hold interviews for the event
+            INSERT INTO notifications (user_id, title, message, type, action_url)
+            SELECT DISTINCT
+                b.student_id,
+                format('%s: booking closed', v_event.name),
+                'Interview booking for this event is now closed. Your confirmed interviews are listed in My Bookings.',
+                'phase_transition',
+                '/student/bookings'
+            FROM bookings b
+            JOIN event_slots es ON es.id = b.slot_id
+            WHERE es.event_id = v_event.id
+              AND b.status = 'confirmed';
+        ELSE
+            SELECT ep.name INTO v_phase_name
+            FROM event_phases ep
+            WHERE ep.event_id = v_event.id
+              AND ep.phase_number = v_target;
+
+            -- Phase opened: tell the students who can book in it
+            INSERT INTO notifications (user_id, title, message, type, action_url)
+            SELECT
+                p.id,
+                format('%s: Phase %s is open', v_event.name, v_target),
+                format('Phase %s (%s) has started. You can now book interviews.', v_target, v_phase_name),
+                'phase_transition',
+                '/student/offers'
+            FROM profiles p
+            WHERE p.role = 'student'
+              AND (SELECT el.eligible FROM fn_check_phase_eligibility(p.id, v_event.id, v_target) el);
+        END IF;
+
+        GET DIAGNOSTICS v_notified = ROW_COUNT;
+
+        -- log_admin_action takes the admin from auth.uid(), which is NULL here
+        INSERT INTO admin_actions (
+            admin_id, action_type, target_table, target_id,
+            old_values, new_values, description
+        ) VALUES (
+            NULL,
+            'auto_phase_transition',
+            'events',
+            v_event.id,
+            jsonb_build_object('current_phase', v_event.current_phase),
+            jsonb_build_object('current_phase', v_target, 'notified', v_notified),
+            CASE
+                WHEN v_target = 0 THEN format('Scheduled transition: booking closed for %s', v_event.name)
+                ELSE format('Scheduled transition: %s moved to Phase %s (%s)', v_event.name, v_target, v_phase_name)
+            END
+        );
+
+        event_id := v_event.id;
+        event_name := v_event.name;
+        from_phase := v_event.current_phase;
+        to_phase := v_target;
+        notified_count := v_notified;
+        RETURN NEXT;
+    END LOOP;
+END;
+$$;
+
+-- Only the scheduler (service role) may run transitions
+REVOKE EXECUTE ON FUNCTION fn_auto_transition_event_phases() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION fn_auto_transition_event_phases() TO service_role;
+
+COMMENT ON FUNCTION fn_auto_transition_event_phases IS
+    'Applies due phase changes to active date-based events, audits each one in admin_actions and notifies affected students. Run by the auto-phase-transitions edge function.';
+
+-- =====================================================
+-- NEXT TRANSITION (ADMIN COUNTDOWN)
+-- =====================================================
+
+-- Next moment the resolved phase of a date-based event changes
+CREATE OR REPLACE FUNCTION fn_get_next_phase_transition(p_event_id UUID)
+RETURNS TABLE (
+    transition_at TIMESTAMPTZ,
+    next_phase INTEGER,
+    next_phase_name TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_current INTEGER;
+    v_candidate TIMESTAMPTZ;
+    v_phase INTEGER;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM events WHERE id = p_event_id AND phase_mode = 'date-based'
+    ) THEN
+        RETURN;
+    END IF;
+
+    v_current := fn_resolve_event_phase(p_event_id);
+
+    -- Windows are inclusive, so a phase ends just after its end_date
+    FOR v_candidate IN
+        SELECT t
+        FROM (
+            SELECT ep.start_date AS t FROM event_phases ep
+            WHERE ep.event_id = p_event_id AND ep.start_date > NOW()
+            UNION
+            SELECT ep.end_date + INTERVAL '1 second' FROM event_phases ep
+            WHERE ep.event_id = p_event_id AND ep.end_date + INTERVAL '1 second' > NOW()
+        ) candidates
+        ORDER BY t
+    LOOP
+        v_phase := fn_resolve_event_phase_at(p_event_id, v_candidate);
+        IF v_phase <> v_current THEN
+            RETURN QUERY
+            SELECT v_candidate, v_phase, (
+                SELECT ep.name FROM event_phases ep
+                WHERE ep.event_id = p_event_id AND ep.phase_number = v_phase
+            );
+            RETURN;
+        END IF;
+    END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION fn_resolve_event_phase_at(UUID, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_get_next_phase_transition(UUID) TO authenticated;
+
+COMMENT ON FUNCTION fn_get_next_phase_transition IS
+    'When the phase of a date-based event changes next and to which phase (0 = closed). Empty for manual events or when nothing is scheduled.';
@@ -0,0 +1,596 @@
+-- Migration: Slot Template Engine
+-- Created: 2026-01-16
+-- Description: Replaces the hard-coded INF generator (fn_generate_inf_slots:
+-- 8 + 7 slots, 10 min, 5 min buffer, capacity 2, two sessions) with:
+--   - reusable slot templates (any number of sessions, breaks, defaults)
+--   - breaks inside a session
+--   - per-company overrides (duration, buffer, capacity, slot count)
+--   - capacity scaled by event_participants.num_recruiters
+-- Every slot generator (session create trigger, new participant trigger,
+-- session regeneration) now goes through fn_generate_company_session_slots.
+
+-- =====================================================
+-- SLOT TEMPLATES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS slot_templates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name TEXT NOT NULL UNIQUE,
+    description TEXT,
+    interview_duration_minutes INTEGER NOT NULL DEFAULT 10 CHECK (interview_duration_minutes > 0),
+    buffer_minutes INTEGER NOT NULL DEFAULT 5 CHECK (buffer_minutes >= 0),
+    capacity INTEGER NOT NULL DEFAULT 2 CHECK (capacity > 0),
+    scale_capacity_by_recruiters BOOLEAN NOT NULL DEFAULT true,
+    -- [{ name, day_offset, start_time 'HH:MM', end_time 'HH:MM',
+    --    max_slots_per_company, breaks: [{ label, start_time, end_time }] }]
+    sessions JSONB NOT NULL DEFAULT '[]'::JSONB,
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT slot_template_sessions_array CHECK (jsonb_typeof(sessions) = 'array')
+);
+
+DROP TRIGGER IF EXISTS update_slot_templates_updated_at ON slot_templates;
+CREATE TRIGGER update_slot_templates_updated_at
+    BEFORE UPDATE ON slot_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE slot_templates IS
+    'Reusable interview schedules. Session times are wall-clock times relative to the day the template is applied to.';
+
+-- =====================================================
+-- SESSION EXTENSIONS AND BREAKS
+-- =====================================================
+
+ALTER TABLE speed_recruiting_sessions
+    ADD COLUMN IF NOT EXISTS max_slots_per_company INTEGER CHECK (max_slots_per_company IS NULL OR max_slots_per_company > 0),
+    ADD COLUMN IF NOT EXISTS scale_capacity_by_recruiters BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES slot_templates(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN speed_recruiting_sessions.max_slots_per_company IS
+    'Cap on generated slots per company in this session (NULL = fill the session)';
+COMMENT ON COLUMN speed_recruiting_sessions.scale_capacity_by_recruiters IS
+    'true = slot capacity is slots_per_time x event_participants.num_recruiters';
+
+CREATE TABLE IF NOT EXISTS session_breaks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    session_id UUID NOT NULL REFERENCES speed_recruiting_sessions(id) ON DELETE CASCADE,
+    label TEXT NOT NULL DEFAULT 'Break',
+    start_time TIMESTAMPTZ NOT NULL,
+    end_time TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT valid_break_range CHECK (start_time < end_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_breaks_session ON session_breaks(session_id);
+
+-- =====================================================
+-- PER-COMPANY OVERRIDES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS company_slot_overrides (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    interview_duration_minutes INTEGER CHECK (interview_duration_minutes IS NULL OR interview_duration_minutes > 0),
+    buffer_minutes INTEGER CHECK (buffer_minutes IS NULL OR buffer_minutes >= 0),
+    capacity INTEGER CHECK (capacity IS NULL OR capacity > 0),
+    max_slots_per_session INTEGER CHECK (max_slots_per_session IS NULL OR max_slots_per_session > 0),
+    notes TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT unique_company_slot_override UNIQUE (event_id, company_id)
+);
+
+DROP TRIGGER IF EXISTS update_company_slot_overrides_updated_at ON company_slot_overrides;
+CREATE TRIGGER update_company_slot_overrides_updated_at
+    BEFORE UPDATE ON company_slot_overrides
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE company_slot_overrides IS
+    'Per-company slot settings for an event. NULL columns fall back to the session settings. An explicit capacity is not scaled by recruiters.';
+
+-- Larger teams interview more students at once
+ALTER TABLE event_slots DROP CONSTRAINT IF EXISTS valid_capacity;
+ALTER TABLE event_slots ADD CONSTRAINT valid_capacity CHECK (capacity > 0 AND capacity <= 30);
+
+-- =====================================================
+-- RLS
+-- =====================================================
+
+ALTER TABLE slot_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE session_breaks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE company_slot_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage slot templates" ON slot_templates
+    FOR ALL USING (
+        EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+    );
+
+CREATE POLICY "Admins can manage session breaks" ON session_breaks
+    FOR ALL USING (
+        EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+    );
+
+CREATE POLICY "Authenticated users can view session breaks" ON session_breaks
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage company slot overrides" ON company_slot_overrides
+    FOR ALL USING (
+        EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+    );
+
+CREATE POLICY "Companies can view their slot overrides" ON company_slot_overrides
+    FOR SELECT USING (
+        company_id IN (SELECT id FROM companies WHERE profile_id = auth.uid())
+    );
+
+-- =====================================================
+-- CORE GENERATOR
+-- =====================================================
+
+-- Generates the slots of one company in one session. Slots that already exist
+-- at the same start time (e.g. kept because they are booked) count towards the
+-- cap and are not duplicated. Returns the number of slots created.
+CREATE OR REPLACE FUNCTION fn_generate_company_session_slots(
+    p_session_id UUID,
+    p_company_id UUID
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_session RECORD;
+    v_override RECORD;
+    v_recruiters INTEGER;
+    v_duration INTEGER;
+    v_buffer INTEGER;
+    v_capacity INTEGER;
+    v_max_slots INTEGER;
+    v_offer_id UUID;
+    v_current_time TIMESTAMPTZ;
+    v_slot_end TIMESTAMPTZ;
+    v_break_end TIMESTAMPTZ;
+    v_slot_count INTEGER := 0;
+    v_slots_created INTEGER := 0;
+BEGIN
+    SELECT * INTO v_session
+    FROM speed_recruiting_sessions
+    WHERE id = p_session_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Session not found: %', p_session_id;
+    END IF;
+
+    SELECT * INTO v_override
+    FROM company_slot_overrides
+    WHERE event_id = v_session.event_id
+      AND company_id = p_company_id;
+
+    SELECT GREATEST(COALESCE(num_recruiters, 1), 1) INTO v_recruiters
+    FROM event_participants
+    WHERE event_id = v_session.event_id
+      AND company_id = p_company_id;
+
+    v_recruiters := COALESCE(v_recruiters, 1);
+    v_duration := COALESCE(v_override.interview_duration_minutes, v_session.interview_duration_minutes);
+    v_buffer := COALESCE(v_override.buffer_minutes, v_session.buffer_minutes);
+    v_max_slots := COALESCE(v_override.max_slots_per_session, v_session.max_slots_per_company);
+
+    IF v_override.capacity IS NOT NULL THEN
+        v_capacity := v_override.capacity;
+    ELSIF v_session.scale_capacity_by_recruiters THEN
+        v_capacity := v_session.slots_per_time * v_recruiters;
+    ELSE
+        v_capacity := v_session.slots_per_time;
+    END IF;
+    v_capacity := LEAST(v_capacity, 30);
+
+    -- Get company's active offer for this event
+    SELECT o.id INTO v_offer_id
+    FROM offers o
+    WHERE o.company_id = p_company_id
+      AND o.event_id = v_session.event_id
+      AND o.is_active = true
+    ORDER BY o.created_at DESC
+    LIMIT 1;
+
+    v_current_time := v_session.start_time;
+
+    LOOP
+        EXIT WHEN v_max_slots IS NOT NULL AND v_slot_count >= v_max_slots;
+
+        v_slot_end := v_current_time + (v_duration * INTERVAL '1 minute');
+        EXIT WHEN v_slot_end > v_session.end_time;
+
+        -- A slot overlapping a break restarts right after it
+        SELECT MAX(b.end_time) INTO v_break_end
+        FROM session_breaks b
+        WHERE b.session_id = p_session_id
+          AND b.start_time < v_slot_end
+          AND b.end_time > v_current_time;
+
+        IF v_break_end IS NOT NULL THEN
+            v_current_time := v_break_end;
+            CONTINUE;
+        END IF;
+
+        IF NOT EXISTS (
+            SELECT 1 FROM event_slots
+            WHERE session_id = p_session_id
+              AND company_id = p_company_id
+              AND start_time = v_current_time
+        ) THEN
+            INSERT INTO event_slots (
+                event_id,
+                company_id,
+                session_id,
+                start_time,
+                end_time,
+                capacity,
+                is_active,
+                offer_id
+            ) VALUES (
+                v_session.event_id,
+                p_company_id,
+                p_session_id,
+                v_current_time,
+                v_slot_end,
+                v_capacity,
+                true,
+                v_offer_id
+            );
+
+            v_slots_created := v_slots_created + 1;
+        END IF;
+
+        v_slot_count := v_slot_count + 1;
+        v_current_time := v_slot_end + (v_buffer * INTERVAL '1 minute');
+    END LOOP;
+
+    RETURN v_slots_created;
+END;
+$$;
+
+COMMENT ON FUNCTION fn_generate_company_session_slots IS
+    'Generates one company''s slots in one session, applying company overrides, breaks, the session slot cap and recruiter-scaled capacity.';
+
+-- =====================================================
+-- EXISTING ENTRY POINTS NOW USE THE CORE GENERATOR
+-- =====================================================
+
+-- Called by the session-create trigger
+CREATE OR REPLACE FUNCTION public.fn_generate_slots_for_session(p_session_id uuid, p_company_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN fn_generate_company_session_slots(p_session_id, p_company_id);
+END;
+$$;
+
+-- New participant: generate its slots in every active session of the event
+CREATE OR REPLACE FUNCTION public.fn_propagate_slots_to_new_participant()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_session RECORD;
+    v_slots_created INTEGER := 0;
+BEGIN
+    FOR v_session IN
+        SELECT id FROM speed_recruiting_sessions
+        WHERE event_id = NEW.event_id AND is_active = true
+        ORDER BY start_time
+    LOOP
+        v_slots_created := v_slots_created + fn_generate_company_session_slots(v_session.id, NEW.company_id);
+    END LOOP;
+
+    RAISE NOTICE 'Auto-generated % slots for new company % in event %',
+        v_slots_created, NEW.company_id, NEW.event_id;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Regenerate one session: unbooked slots are replaced, booked slots are kept
+CREATE OR REPLACE FUNCTION public.fn_regenerate_event_slots(p_session_id uuid)
+RETURNS TABLE(slots_created integer, companies_affected integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_session RECORD;
+    v_slots_created INTEGER := 0;
+    v_companies INTEGER := 0;
+    v_company RECORD;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        RAISE EXCEPTION 'Only admins can regenerate slots';
+    END IF;
+
+    SELECT * INTO v_session
+    FROM speed_recruiting_sessions
+    WHERE id = p_session_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Session not found';
+    END IF;
+
+    DELETE FROM event_slots
+    WHERE session_id = p_session_id
+      AND NOT EXISTS (
+          SELECT 1 FROM bookings
+          WHERE slot_id = event_slots.id AND status = 'confirmed'
+      );
+
+    FOR v_company IN
+        SELECT DISTINCT company_id
+        FROM event_participants
+        WHERE event_id = v_session.event_id
+    LOOP
+        v_slots_created := v_slots_created + fn_generate_company_session_slots(p_session_id, v_company.company_id);
+        v_companies := v_companies + 1;
+    END LOOP;
+
+    RETURN QUERY SELECT v_slots_created, v_companies;
+END;
+$$;
+
+-- Regenerate one company across all sessions of an event (after an override change)
+CREATE OR REPLACE FUNCTION fn_regenerate_company_slots(
+    p_event_id UUID,
+    p_company_id UUID
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    slots_created INTEGER,
+    message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_session RECORD;
+    v_created INTEGER := 0;
+    v_kept INTEGER;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        RETURN QUERY SELECT false, 0, 'Only admins can regenerate slots'::TEXT;
+        RETURN;
+    END IF;
+
+    DELETE FROM event_slots es
+    WHERE es.event_id = p_event_id
+      AND es.company_id = p_company_id
+      AND es.session_id IS NOT NULL
+      AND NOT EXISTS (
+          SELECT 1 FROM bookings b
+          WHERE b.slot_id = es.id AND b.status = 'confirmed'
+      );
+
+    SELECT COUNT(*) INTO v_kept
+    FROM event_slots es
+    WHERE es.event_id = p_event_id
+      AND es.company_id = p_company_id
+      AND es.session_id IS NOT NULL;
+
+    FOR v_session IN
+        SELECT id FROM speed_recruiting_sessions
+        WHERE event_id = p_event_id AND is_active = true
+        ORDER BY start_time
+    LOOP
+        v_created := v_created + fn_generate_company_session_slots(v_session.id, p_company_id);
+    END LOOP;
+
+    RETURN QUERY SELECT
+        true,
+        v_created,
+        CASE
+            WHEN v_kept > 0 THEN format('%s slots created, %s booked slots kept', v_created, v_kept)
+            ELSE format('%s slots created', v_created)
+        END::TEXT;
+END;
+$$;
+
+-- =====================================================
+-- APPLY A TEMPLATE TO AN EVENT
+-- =====================================================
+
+-- Replaces the sessions of an event with the template's sessions on p_date
+-- (wall-clock times in p_timezone) and generates slots for every participant.
+-- Refuses while confirmed bookings exist on session slots.
+CREATE OR REPLACE FUNCTION fn_apply_slot_template(
+    p_event_id UUID,
+    p_template_id UUID,
+    p_date DATE,
+    p_timezone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    sessions_created INTEGER,
+    slots_created INTEGER,
+    message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_template RECORD;
+    v_session JSONB;
+    v_break JSONB;
+    v_session_id UUID;
+    v_day DATE;
+    v_sessions INTEGER := 0;
+    v_slots INTEGER := 0;
+    v_booked INTEGER;
+    v_company RECORD;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        RETURN QUERY SELECT false, 0, 0, 'Only admins can apply slot templates'::TEXT;
+        RETURN;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM events WHERE id = p_event_id) THEN
+        RETURN QUERY SELECT false, 0, 0, 'Event not found'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT * INTO v_template
+    FROM slot_templates
+    WHERE id = p_template_id;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT false, 0, 0, 'Template not found'::TEXT;
+        RETURN;
+    END IF;
+
+    IF jsonb_array_length(v_template.sessions) = 0 THEN
+        RETURN QUERY SELECT false, 0, 0, 'This template has no sessions'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT COUNT(DISTINCT b.id) INTO v_booked
+    FROM bookings b
+    JOIN event_slots es ON es.id = b.slot_id
+    WHERE es.event_id = p_event_id
+      AND es.session_id IS NOT NULL
+      AND b.status = 'confirmed';
+
+    IF v_booked > 0 THEN
+        RETURN QUERY SELECT false, 0, 0,
+            format('%s confirmed booking(s) exist on the current sessions. Cancel or move them before replacing the schedule.', v_booked)::TEXT;
+        RETURN;
+    END IF;
+
+    -- Cascades to the sessions' slots and breaks
+    DELETE FROM speed_recruiting_sessions WHERE event_id = p_event_id;
+
+    FOR v_session IN SELECT value FROM jsonb_array_elements(v_template.sessions)
+    LOOP
+        v_day := p_date + COALESCE((v_session->>'day_offset')::INTEGER, 0);
+
+        -- Inserted inactive so the session-create trigger does not generate
+        -- slots before the breaks exist
+        INSERT INTO speed_recruiting_sessions (
+            event_id,
+            name,
+            start_time,
+            end_time,
+            interview_duration_minutes,
+            buffer_minutes,
+            slots_per_time,
+            max_slots_per_company,
+            scale_capacity_by_recruiters,
+            template_id,
+            is_active
+        ) VALUES (
+            p_event_id,
+            v_session->>'name',
+            (v_day + (v_session->>'start_time')::TIME) AT TIME ZONE p_timezone,
+            (v_day + (v_session->>'end_time')::TIME) AT TIME ZONE p_timezone,
+            v_template.interview_duration_minutes,
+            v_template.buffer_minutes,
+            v_template.capacity,
+            (v_session->>'max_slots_per_company')::INTEGER,
+            v_template.scale_capacity_by_recruiters,
+            v_template.id,
+            false
+        ) RETURNING id INTO v_session_id;
+
+        FOR v_break IN SELECT value FROM jsonb_array_elements(COALESCE(v_session->'breaks', '[]'::JSONB))
+        LOOP
+            INSERT INTO session_breaks (session_id, label, start_time, end_time)
+            VALUES (
+                v_session_id,
+                COALESCE(NULLIF(v_break->>'label', ''), 'Break'),
+                (v_day + (v_break->>'start_time')::TIME) AT TIME ZONE p_timezone,
+                (v_day + (v_break->>'end_time')::TIME) AT TIME ZONE p_timezone
+            );
+        END LOOP;
+
+        UPDATE speed_recruiting_sessions SET is_active = true WHERE id = v_session_id;
+
+        FOR v_company IN
+            SELECT DISTINCT company_id
+            FROM event_participants
+            WHERE event_id = p_event_id
+        LOOP
+            v_slots := v_slots + fn_generate_company_session_slots(v_session_id, v_company.company_id);
+        END LOOP;
+
+        v_sessions := v_sessions + 1;
+    END LOOP;
+
+    PERFORM log_admin_action(
+        'apply_slot_template',
+        'events',
+        p_event_id,
+        NULL,
+        jsonb_build_object('template_id', v_template.id, 'template_name', v_template.name, 'date', p_date, 'timezone', p_timezone),
+        format('Applied slot template "%s": %s sessions, %s slots', v_template.name, v_sessions, v_slots)
+    );
+
+    RETURN QUERY SELECT
+        true,
+        v_sessions,
+        v_slots,
+        format('Created %s sessions and %s slots from "%s"', v_sessions, v_slots, v_template.name)::TEXT;
+END;
+$$;
+
+-- =====================================================
+-- RETIRE THE HARD-CODED INF GENERATOR
+-- =====================================================
+
+DROP FUNCTION IF EXISTS fn_generate_inf_slots(UUID, TIMESTAMPTZ, TIMESTAMPTZ, TIMESTAMPTZ, TIMESTAMPTZ);
+
+-- Same shape as the old generator; session times are a starting point
+INSERT INTO slot_templates (
+    name,
+    description,
+    interview_duration_minutes,
+    buffer_minutes,
+    capacity,
+    scale_capacity_by_recruiters,
+    sessions
+) VALUES (
+    'INF Standard',
+    '15 slots per company (8 + 7) over two sessions, 10 min interviews, 5 min buffer, 2 students per slot',
+    10,
+    5,
+    2,
+    false,
+    '[
+        {"name": "First Interview Session", "day_offset": 0, "start_time": "09:00", "end_time": "11:00", "max_slots_per_company": 8, "breaks": []},
+        {"name": "Second Interview Session", "day_offset": 0, "start_time": "14:00", "end_time": "16:00", "max_slots_per_company": 7, "breaks": []}
+    ]'::JSONB
+)
+ON CONFLICT (name) DO NOTHING;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION fn_generate_company_session_slots(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION fn_generate_slots_for_session(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION fn_regenerate_company_slots(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_apply_slot_template(UUID, UUID, DATE, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION fn_generate_slots_for_session IS
+    'Internal. Generates one company''s slots in one session for the session-create trigger.';
+COMMENT ON FUNCTION fn_regenerate_company_slots IS
+    'Admin only. Replaces the unbooked session slots of one company in an event, e.g. after changing its overrides or recruiter count.';
+COMMENT ON FUNCTION fn_apply_slot_template IS
+    'Admin only. Replaces the sessions of an event with a slot template on a given date and generates slots for every participant.';
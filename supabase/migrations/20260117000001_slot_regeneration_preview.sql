@@ -0,0 +1,702 @@
+-- Migration: Slot Regeneration Preview and Booking Remap
+-- Created: 2026-01-17
+-- Description: Regenerating a session used to delete unbooked slots and add a
+-- fresh layout next to the booked ones, leaving bookings at stale times (and,
+-- in earlier versions, deleting them). Regeneration is now a two-step process:
+--   1. fn_preview_session_regeneration (dry run) lists the slots that would
+--      disappear and where each of their confirmed bookings would go
+--   2. fn_apply_session_regeneration commits that plan, moving bookings to the
+--      closest new slot of the same company. Bookings that cannot be placed
+--      must be resolved by the admin (keep the old slot or cancel) first.
+--      Slots that disappear are deactivated rather than deleted, so their
+--      cancelled bookings and waitlist entries stay on record.
+-- fn_regenerate_event_slots and fn_regenerate_company_slots (one company
+-- across the event's sessions) now run the same plan and refuse when any
+-- booking cannot be placed.
+
+-- =====================================================
+-- SLOT LAYOUT PLANNER
+-- =====================================================
+
+-- The slots fn_generate_company_session_slots would produce, without writing
+CREATE OR REPLACE FUNCTION fn_plan_company_session_slots(
+    p_session_id UUID,
+    p_company_id UUID
+)
+RETURNS TABLE (
+    slot_start TIMESTAMPTZ,
+    slot_end TIMESTAMPTZ,
+    slot_capacity INTEGER,
+    slot_offer_id UUID
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_session RECORD;
+    v_override RECORD;
+    v_recruiters INTEGER;
+    v_duration INTEGER;
+    v_buffer INTEGER;
+    v_capacity INTEGER;
+    v_max_slots INTEGER;
+    v_offer_id UUID;
+    v_current_time TIMESTAMPTZ;
+    v_slot_end TIMESTAMPTZ;
+    v_break_end TIMESTAMPTZ;
+    v_slot_count INTEGER := 0;
+BEGIN
+    SELECT * INTO v_session
+    FROM speed_recruiting_sessions
+    WHERE id = p_session_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Session not found: %', p_session_id;
+    END IF;
+
+    SELECT * INTO v_override
+    FROM company_slot_overrides cso
+    WHERE cso.event_id = v_session.event_id
+      AND cso.company_id = p_company_id;
+
+    SELECT GREATEST(COALESCE(ep.num_recruiters, 1), 1) INTO v_recruiters
+    FROM event_participants ep
+    WHERE ep.event_id = v_session.event_id
+      AND ep.company_id = p_company_id;
+
+    v_recruiters := COALESCE(v_recruiters, 1);
+    v_duration := COALESCE(v_override.interview_duration_minutes, v_session.interview_duration_minutes);
+    v_buffer := COALESCE(v_override.buffer_minutes, v_session.buffer_minutes);
+    v_max_slots := COALESCE(v_override.max_slots_per_session, v_session.max_slots_per_company);
+
+    IF v_override.capacity IS NOT NULL THEN
+        v_capacity := v_override.capacity;
+    ELSIF v_session.scale_capacity_by_recruiters THEN
+        v_capacity := v_session.slots_per_time * v_recruiters;
+    ELSE
+        v_capacity := v_session.slots_per_time;
+    END IF;
+    v_capacity := LEAST(v_capacity, 30);
+
+    -- Get company's active offer for this event
+    SELECT o.id INTO v_offer_id
+    FROM offers o
+    WHERE o.company_id = p_company_id
+      AND o.event_id = v_session.event_id
+      AND o.is_active = true
+    ORDER BY o.created_at DESC
+    LIMIT 1;
+
+    v_current_time := v_session.start_time;
+
+    LOOP
+        EXIT WHEN v_max_slots IS NOT NULL AND v_slot_count >= v_max_slots;
+
+        v_slot_end := v_current_time + (v_duration * INTERVAL '1 minute');
+        EXIT WHEN v_slot_end > v_session.end_time;
+
+        -- A slot overlapping a break restarts right after it
+        SELECT MAX(b.end_time) INTO v_break_end
+        FROM session_breaks b
+        WHERE b.session_id = p_session_id
+          AND b.start_time < v_slot_end
+          AND b.end_time > v_current_time;
+
+        IF v_break_end IS NOT NULL THEN
+            v_current_time := v_break_end;
+            CONTINUE;
+        END IF;
+
+        slot_start := v_current_time;
+        slot_end := v_slot_end;
+        slot_capacity := v_capacity;
+        slot_offer_id := v_offer_id;
+        RETURN NEXT;
+
+        v_slot_count := v_slot_count + 1;
+        v_current_time := v_slot_end + (v_buffer * INTERVAL '1 minute');
+    END LOOP;
+END;
+$$;
+
+-- Writes the planned layout. An active slot that already exists with the same
+-- times is reused and takes the planned capacity (never below its confirmed
+-- bookings).
+CREATE OR REPLACE FUNCTION fn_generate_company_session_slots(
+    p_session_id UUID,
+    p_company_id UUID
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_event_id UUID;
+    v_plan RECORD;
+    v_existing_id UUID;
+    v_slots_created INTEGER := 0;
+BEGIN
+    SELECT event_id INTO v_event_id
+    FROM speed_recruiting_sessions
+    WHERE id = p_session_id;
+
+    FOR v_plan IN
+        SELECT * FROM fn_plan_company_session_slots(p_session_id, p_company_id)
+    LOOP
+        SELECT es.id INTO v_existing_id
+        FROM event_slots es
+        WHERE es.session_id = p_session_id
+          AND es.company_id = p_company_id
+          AND es.start_time = v_plan.slot_start
+          AND es.end_time = v_plan.slot_end
+          AND es.is_active = true
+        ORDER BY es.created_at
+        LIMIT 1;
+
+        IF v_existing_id IS NOT NULL THEN
+            UPDATE event_slots es
+            SET capacity = GREATEST(
+                    v_plan.slot_capacity,
+                    (SELECT COUNT(*) FROM bookings b WHERE b.slot_id = es.id AND b.status = 'confirmed')
+                ),
+                offer_id = COALESCE(v_plan.slot_offer_id, es.offer_id)
+            WHERE es.id = v_existing_id;
+            CONTINUE;
+        END IF;
+
+        INSERT INTO event_slots (
+            event_id,
+            company_id,
+            session_id,
+            start_time,
+            end_time,
+            capacity,
+            is_active,
+            offer_id
+        ) VALUES (
+            v_event_id,
+            p_company_id,
+            p_session_id,
+            v_plan.slot_start,
+            v_plan.slot_end,
+            v_plan.slot_capacity,
+            true,
+            v_plan.slot_offer_id
+        );
+
+        v_slots_created := v_slots_created + 1;
+    END LOOP;
+
+    RETURN v_slots_created;
+END;
+$$;
+
+-- =====================================================
+-- DRY RUN
+-- =====================================================
+
+-- One row per slot that would disappear without bookings ('removed') and one
+-- row per confirmed booking on a disappearing slot ('moved' with the new time,
+-- or 'unplaced' when no free slot of the company fits the student). Slots
+-- deactivated by an earlier regeneration are left out. p_company_id limits the
+-- plan to one company.
+CREATE OR REPLACE FUNCTION fn_preview_session_regeneration(
+    p_session_id UUID,
+    p_company_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    company_id UUID,
+    company_name TEXT,
+    old_slot_id UUID,
+    old_start_time TIMESTAMPTZ,
+    old_end_time TIMESTAMPTZ,
+    booking_id UUID,
+    student_id UUID,
+    student_name TEXT,
+    new_start_time TIMESTAMPTZ,
+    new_end_time TIMESTAMPTZ,
+    outcome TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_event_id UUID;
+    v_company RECORD;
+    v_plan RECORD;
+    v_slot RECORD;
+    v_booking RECORD;
+    -- Planned layout of every company, flattened
+    v_plan_company UUID[] := '{}';
+    v_plan_start TIMESTAMPTZ[] := '{}';
+    v_plan_end TIMESTAMPTZ[] := '{}';
+    v_plan_capacity INTEGER[] := '{}';
+    v_plan_used INTEGER[] := '{}';
+    v_plan_matched BOOLEAN[] := '{}';
+    v_plan_count INTEGER;
+    v_removed UUID[] := '{}';
+    -- Times already handed to moved bookings
+    v_moved_student UUID[] := '{}';
+    v_moved_start TIMESTAMPTZ[] := '{}';
+    v_moved_end TIMESTAMPTZ[] := '{}';
+    v_idx INTEGER;
+    v_best INTEGER;
+    v_best_distance NUMERIC;
+    v_distance NUMERIC;
+    i INTEGER;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        RAISE EXCEPTION 'Only admins can preview slot regeneration';
+    END IF;
+
+    SELECT srs.event_id INTO v_event_id
+    FROM speed_recruiting_sessions srs
+    WHERE srs.id = p_session_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Session not found';
+    END IF;
+
+    FOR v_company IN
+        SELECT DISTINCT ep.company_id
+        FROM event_participants ep
+        WHERE ep.event_id = v_event_id
+          AND (p_company_id IS NULL OR ep.company_id = p_company_id)
+    LOOP
+        FOR v_plan IN
+            SELECT * FROM fn_plan_company_session_slots(p_session_id, v_company.company_id)
+        LOOP
+            v_plan_company := v_plan_company || v_company.company_id;
+            v_plan_start := v_plan_start || v_plan.slot_start;
+            v_plan_end := v_plan_end || v_plan.slot_end;
+            v_plan_capacity := v_plan_capacity || v_plan.slot_capacity;
+            v_plan_used := v_plan_used || 0;
+            v_plan_matched := v_plan_matched || false;
+        END LOOP;
+    END LOOP;
+
+    v_plan_count := COALESCE(array_length(v_plan_start, 1), 0);
+
+    -- Existing slots stay in place when the plan has a slot with the same times
+    FOR v_slot IN
+        SELECT
+            es.id,
+            es.company_id,
+            es.start_time,
+            es.end_time,
+            (SELECT COUNT(*) FROM bookings b WHERE b.slot_id = es.id AND b.status = 'confirmed')::INTEGER AS booked
+        FROM event_slots es
+        WHERE es.session_id = p_session_id
+          AND es.is_active = true
+          AND (p_company_id IS NULL OR es.company_id = p_company_id)
+        ORDER BY es.start_time, es.created_at
+    LOOP
+        v_idx := NULL;
+        FOR i IN 1..v_plan_count LOOP
+            IF v_plan_company[i] = v_slot.company_id
+               AND v_plan_start[i] = v_slot.start_time
+               AND v_plan_end[i] = v_slot.end_time
+               AND NOT v_plan_matched[i] THEN
+                v_idx := i;
+                EXIT;
+            END IF;
+        END LOOP;
+
+        IF v_idx IS NULL THEN
+            v_removed := v_removed || v_slot.id;
+        ELSE
+            v_plan_matched[v_idx] := true;
+            v_plan_used[v_idx] := v_plan_used[v_idx] + v_slot.booked;
+        END IF;
+    END LOOP;
+
+    FOR v_slot IN
+        SELECT es.id, es.company_id, c.company_name, es.start_time, es.end_time
+        FROM event_slots es
+        JOIN companies c ON c.id = es.company_id
+        WHERE es.id = ANY (v_removed)
+        ORDER BY c.company_name, es.start_time
+    LOOP
+        IF NOT EXISTS (
+            SELECT 1 FROM bookings b
+            WHERE b.slot_id = v_slot.id AND b.status = 'confirmed'
+        ) THEN
+            RETURN QUERY SELECT
+                v_slot.company_id, v_slot.company_name, v_slot.id, v_slot.start_time, v_slot.end_time,
+                NULL::UUID, NULL::UUID, NULL::TEXT, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ,
+                'removed'::TEXT;
+            CONTINUE;
+        END IF;
+
+        FOR v_booking IN
+            SELECT b.id, b.student_id, p.full_name
+            FROM bookings b
+            JOIN profiles p ON p.id = b.student_id
+            WHERE b.slot_id = v_slot.id
+              AND b.status = 'confirmed'
+            ORDER BY b.created_at
+        LOOP
+            -- Closest free planned slot of the same company; earlier wins a tie
+            v_best := NULL;
+            v_best_distance := NULL;
+
+            FOR i IN 1..v_plan_count LOOP
+                CONTINUE WHEN v_plan_company[i] <> v_slot.company_id;
+                CONTINUE WHEN v_plan_used[i] >= v_plan_capacity[i];
+
+                v_distance := abs(extract(epoch FROM v_plan_start[i] - v_slot.start_time));
+                CONTINUE WHEN v_best IS NOT NULL AND v_distance >= v_best_distance;
+
+                -- Interviews of the student that stay where they are
+                CONTINUE WHEN EXISTS (
+                    SELECT 1
+                    FROM bookings b2
+                    JOIN event_slots es2 ON es2.id = b2.slot_id
+                    WHERE b2.student_id = v_booking.student_id
+                      AND b2.status = 'confirmed'
+                      AND b2.id <> v_booking.id
+                      AND NOT (es2.id = ANY (v_removed))
+                      AND es2.start_time < v_plan_end[i]
+                      AND es2.end_time > v_plan_start[i]
+                );
+
+                -- Interviews of the student already moved by this plan
+                CONTINUE WHEN EXISTS (
+                    SELECT 1
+                    FROM generate_subscripts(v_moved_student, 1) AS m(j)
+                    WHERE v_moved_student[m.j] = v_booking.student_id
+                      AND v_moved_start[m.j] < v_plan_end[i]
+                      AND v_moved_end[m.j] > v_plan_start[i]
+                );
+
+                v_best := i;
+                v_best_distance := v_distance;
+            END LOOP;
+
+            IF v_best IS NULL THEN
+                RETURN QUERY SELECT
+                    v_slot.company_id, v_slot.company_name, v_slot.id, v_slot.start_time, v_slot.end_time,
+                    v_booking.id, v_booking.student_id, v_booking.full_name,
+                    NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ,
+                    'unplaced'::TEXT;
+            ELSE
+                v_plan_used[v_best] := v_plan_used[v_best] + 1;
+                v_moved_student := v_moved_student || v_booking.student_id;
+                v_moved_start := v_moved_start || v_plan_start[v_best];
+                v_moved_end := v_moved_end || v_plan_end[v_best];
+
+                RETURN QUERY SELECT
+                    v_slot.company_id, v_slot.company_name, v_slot.id, v_slot.start_time, v_slot.end_time,
+                    v_booking.id, v_booking.student_id, v_booking.full_name,
+                    v_plan_start[v_best], v_plan_end[v_best],
+                    'moved'::TEXT;
+            END IF;
+        END LOOP;
+    END LOOP;
+END;
+$$;
+
+-- =====================================================
+-- COMMIT
+-- =====================================================
+
+-- Applies the dry-run plan. p_resolutions maps the booking id of every
+-- 'unplaced' booking to 'keep' (its old slot survives) or 'cancel'.
+-- p_company_id limits the regeneration to one company.
+CREATE OR REPLACE FUNCTION fn_apply_session_regeneration(
+    p_session_id UUID,
+    p_resolutions JSONB DEFAULT '{}'::JSONB,
+    p_company_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    slots_created INTEGER,
+    slots_removed INTEGER,
+    bookings_moved INTEGER,
+    bookings_cancelled INTEGER,
+    message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_session RECORD;
+    v_plan JSONB;
+    v_row JSONB;
+    v_unresolved INTEGER;
+    v_keep_slots UUID[];
+    v_remove_slots UUID[];
+    v_company RECORD;
+    v_new_slot_id UUID;
+    v_created INTEGER := 0;
+    v_moved INTEGER := 0;
+    v_cancelled INTEGER := 0;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        RETURN QUERY SELECT false, 0, 0, 0, 0, 'Only admins can regenerate slots'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT * INTO v_session
+    FROM speed_recruiting_sessions
+    WHERE id = p_session_id;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT false, 0, 0, 0, 0, 'Session not found'::TEXT;
+        RETURN;
+    END IF;
+
+    -- Serialise regenerations of the same session
+    PERFORM 1 FROM speed_recruiting_sessions WHERE id = p_session_id FOR UPDATE;
+
+    -- The plan is fixed before anything changes
+    SELECT COALESCE(jsonb_agg(to_jsonb(p)), '[]'::JSONB) INTO v_plan
+    FROM fn_preview_session_regeneration(p_session_id, p_company_id) p;
+
+    SELECT COUNT(*) INTO v_unresolved
+    FROM jsonb_array_elements(v_plan) r
+    WHERE r->>'outcome' = 'unplaced'
+      AND COALESCE(p_resolutions->>(r->>'booking_id'), '') NOT IN ('keep', 'cancel');
+
+    IF v_unresolved > 0 THEN
+        RETURN QUERY SELECT false, 0, 0, 0, 0,
+            format('%s booking(s) cannot be placed in the new slots. Keep their current slot or cancel them before regenerating.', v_unresolved)::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT COALESCE(array_agg(DISTINCT (r->>'old_slot_id')::UUID), '{}') INTO v_keep_slots
+    FROM jsonb_array_elements(v_plan) r
+    WHERE r->>'outcome' = 'unplaced'
+      AND p_resolutions->>(r->>'booking_id') = 'keep';
+
+    SELECT COALESCE(array_agg(DISTINCT (r->>'old_slot_id')::UUID), '{}') INTO v_remove_slots
+    FROM jsonb_array_elements(v_plan) r
+    WHERE NOT ((r->>'old_slot_id')::UUID = ANY (v_keep_slots));
+
+    -- Removed slots are only deactivated: their cancelled bookings and waitlist
+    -- entries stay on record, and inactive slots are skipped by booking and
+    -- waitlist promotion
+    UPDATE event_slots SET is_active = false WHERE id = ANY (v_remove_slots);
+
+    FOR v_company IN
+        SELECT DISTINCT ep.company_id
+        FROM event_participants ep
+        WHERE ep.event_id = v_session.event_id
+          AND (p_company_id IS NULL OR ep.company_id = p_company_id)
+    LOOP
+        v_created := v_created + fn_generate_company_session_slots(p_session_id, v_company.company_id);
+    END LOOP;
+
+    FOR v_row IN
+        SELECT r FROM jsonb_array_elements(v_plan) r WHERE r->>'outcome' = 'moved'
+    LOOP
+        SELECT es.id INTO v_new_slot_id
+        FROM event_slots es
+        WHERE es.session_id = p_session_id
+          AND es.company_id = (v_row->>'company_id')::UUID
+          AND es.start_time = (v_row->>'new_start_time')::TIMESTAMPTZ
+          AND es.end_time = (v_row->>'new_end_time')::TIMESTAMPTZ
+          AND es.is_active = true
+        ORDER BY es.created_at
+        LIMIT 1;
+
+        -- A cancelled row for the target slot would violate unique_student_interview_slot
+        DELETE FROM bookings
+        WHERE student_id = (v_row->>'student_id')::UUID
+          AND slot_id = v_new_slot_id
+          AND status = 'cancelled';
+
+        UPDATE bookings
+        SET slot_id = v_new_slot_id
+        WHERE id = (v_row->>'booking_id')::UUID;
+
+        INSERT INTO notifications (user_id, title, message, type, action_url)
+        VALUES (
+            (v_row->>'student_id')::UUID,
+            'Interview time changed',
+            format('Your interview with %s moved from %s to %s because the schedule was updated.',
+                v_row->>'company_name',
+                to_char((v_row->>'old_start_time')::TIMESTAMPTZ, 'DD/MM/YYYY HH24:MI'),
+                to_char((v_row->>'new_start_time')::TIMESTAMPTZ, 'DD/MM/YYYY HH24:MI')),
+            'booking_moved',
+            '/student/bookings'
+        );
+
+        v_moved := v_moved + 1;
+    END LOOP;
+
+    FOR v_row IN
+        SELECT r FROM jsonb_array_elements(v_plan) r
+        WHERE r->>'outcome' = 'unplaced'
+          AND p_resolutions->>(r->>'booking_id') = 'cancel'
+    LOOP
+        UPDATE bookings
+        SET status = 'cancelled',
+            cancelled_at = NOW(),
+            cancelled_reason = 'Schedule updated by the organisers'
+        WHERE id = (v_row->>'booking_id')::UUID;
+
+        INSERT INTO notifications (user_id, title, message, type, action_url)
+        VALUES (
+            (v_row->>'student_id')::UUID,
+            'Interview cancelled',
+            format('Your interview with %s on %s was cancelled because the schedule was updated. You can book another slot.',
+                v_row->>'company_name',
+                to_char((v_row->>'old_start_time')::TIMESTAMPTZ, 'DD/MM/YYYY HH24:MI')),
+            'booking_cancelled',
+            '/student/offers'
+        );
+
+        v_cancelled := v_cancelled + 1;
+    END LOOP;
+
+    PERFORM log_admin_action(
+        'regenerate_session_slots',
+        'speed_recruiting_sessions',
+        p_session_id,
+        NULL,
+        jsonb_build_object(
+            'company_id', p_company_id,
+            'slots_created', v_created,
+            'slots_removed', COALESCE(array_length(v_remove_slots, 1), 0),
+            'bookings_moved', v_moved,
+            'bookings_cancelled', v_cancelled,
+            'slots_kept_for_bookings', COALESCE(array_length(v_keep_slots, 1), 0)
+        ),
+        format('Regenerated slots of session "%s"', v_session.name)
+    );
+
+    RETURN QUERY SELECT
+        true,
+        v_created,
+        COALESCE(array_length(v_remove_slots, 1), 0),
+        v_moved,
+        v_cancelled,
+        format('%s slots created, %s deactivated, %s bookings moved, %s cancelled',
+            v_created, COALESCE(array_length(v_remove_slots, 1), 0), v_moved, v_cancelled)::TEXT;
+END;
+$$;
+
+-- =====================================================
+-- LEGACY ENTRY POINT
+-- =====================================================
+
+-- Same plan without manual resolutions: fails instead of dropping bookings
+CREATE OR REPLACE FUNCTION public.fn_regenerate_event_slots(p_session_id uuid)
+RETURNS TABLE(slots_created integer, companies_affected integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_result RECORD;
+    v_companies INTEGER;
+BEGIN
+    SELECT * INTO v_result
+    FROM fn_apply_session_regeneration(p_session_id, '{}'::JSONB);
+
+    IF NOT v_result.success THEN
+        RAISE EXCEPTION '%', v_result.message;
+    END IF;
+
+    SELECT COUNT(DISTINCT ep.company_id) INTO v_companies
+    FROM event_participants ep
+    JOIN speed_recruiting_sessions srs ON srs.event_id = ep.event_id
+    WHERE srs.id = p_session_id;
+
+    RETURN QUERY SELECT v_result.slots_created, v_companies;
+END;
+$$;
+
+-- One company across every active session of an event (after an override
+-- change). Nothing changes unless every booking of the company can be placed;
+-- otherwise the admin resolves them from the session's regeneration preview.
+CREATE OR REPLACE FUNCTION fn_regenerate_company_slots(
+    p_event_id UUID,
+    p_company_id UUID
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    slots_created INTEGER,
+    message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_session RECORD;
+    v_result RECORD;
+    v_unplaced INTEGER := 0;
+    v_created INTEGER := 0;
+    v_moved INTEGER := 0;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        RETURN QUERY SELECT false, 0, 'Only admins can regenerate slots'::TEXT;
+        RETURN;
+    END IF;
+
+    FOR v_session IN
+        SELECT srs.id FROM speed_recruiting_sessions srs
+        WHERE srs.event_id = p_event_id AND srs.is_active = true
+    LOOP
+        v_unplaced := v_unplaced + (
+            SELECT COUNT(*)::INTEGER
+            FROM fn_preview_session_regeneration(v_session.id, p_company_id) p
+            WHERE p.outcome = 'unplaced'
+        );
+    END LOOP;
+
+    IF v_unplaced > 0 THEN
+        RETURN QUERY SELECT false, 0,
+            format('%s booking(s) cannot be placed in the new slots. Regenerate the affected sessions from the Sessions page to keep or cancel them.', v_unplaced)::TEXT;
+        RETURN;
+    END IF;
+
+    FOR v_session IN
+        SELECT srs.id FROM speed_recruiting_sessions srs
+        WHERE srs.event_id = p_event_id AND srs.is_active = true
+        ORDER BY srs.start_time
+    LOOP
+        SELECT * INTO v_result
+        FROM fn_apply_session_regeneration(v_session.id, '{}'::JSONB, p_company_id);
+
+        IF NOT v_result.success THEN
+            RAISE EXCEPTION '%', v_result.message;
+        END IF;
+
+        v_created := v_created + v_result.slots_created;
+        v_moved := v_moved + v_result.bookings_moved;
+    END LOOP;
+
+    RETURN QUERY SELECT
+        true,
+        v_created,
+        CASE
+            WHEN v_moved > 0 THEN format('%s slots created, %s booking(s) moved to the new times', v_created, v_moved)
+            ELSE format('%s slots created', v_created)
+        END::TEXT;
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION fn_plan_company_session_slots(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION fn_preview_session_regeneration(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_apply_session_regeneration(UUID, JSONB, UUID) TO authenticated;
+
+COMMENT ON FUNCTION fn_plan_company_session_slots IS
+    'Slot layout of one company in one session (overrides, breaks, cap, recruiter-scaled capacity) without writing anything.';
+COMMENT ON FUNCTION fn_preview_session_regeneration IS
+    'Admin only. Dry run of a session regeneration: slots that would disappear and where their confirmed bookings would be moved.';
+COMMENT ON FUNCTION fn_regenerate_company_slots IS
+    'Admin only. Regenerates one company in every active session of an event and moves its bookings as the preview would. Refuses when a booking cannot be placed.';
+COMMENT ON FUNCTION fn_apply_session_regeneration IS
+    'Admin only. Regenerates a session and moves bookings as previewed. Unplaced bookings need a keep/cancel resolution in p_resolutions. Removed slots are deactivated, not deleted.';
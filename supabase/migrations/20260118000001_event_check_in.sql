@@ -0,0 +1,397 @@
+-- Migration: Event-Day Check-In
+-- Created: 2026-01-18
+-- Description: bookings.attended existed but nothing wrote to it. Students get
+-- a check-in pass per event: a QR payload signed with a per-event key and a
+-- short code for typing. Recruiters scan or type it on their Slots page to mark
+-- the student's interview with their company as attended, or mark no-shows by
+-- hand. Admins read live attendance per company from fn_get_event_attendance.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- =====================================================
+-- BOOKING COLUMNS
+-- =====================================================
+
+ALTER TABLE bookings
+    ADD COLUMN IF NOT EXISTS checked_in_at TIMESTAMPTZ,
+    -- No foreign key: a second bookings -> profiles relation would make the
+    -- existing profiles embeds on bookings ambiguous
+    ADD COLUMN IF NOT EXISTS checked_in_by UUID;
+
+COMMENT ON COLUMN bookings.attended IS
+    'true = checked in, false = marked as no-show, NULL = not recorded yet';
+COMMENT ON COLUMN bookings.checked_in_at IS
+    'When the student was checked in (scan, short code or manual)';
+
+-- =====================================================
+-- SIGNING KEYS AND SHORT CODES
+-- =====================================================
+
+-- RLS is enabled without policies: only SECURITY DEFINER functions read keys
+CREATE TABLE IF NOT EXISTS event_check_in_keys (
+    event_id UUID PRIMARY KEY REFERENCES events(id) ON DELETE CASCADE,
+    secret TEXT NOT NULL DEFAULT encode(extensions.gen_random_bytes(32), 'hex'),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE event_check_in_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS check_in_codes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    student_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    short_code TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT unique_check_in_student UNIQUE (event_id, student_id),
+    CONSTRAINT unique_check_in_short_code UNIQUE (event_id, short_code)
+);
+
+ALTER TABLE check_in_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Students can view their check-in codes" ON check_in_codes
+    FOR SELECT USING (student_id = auth.uid());
+
+CREATE POLICY "Admins can view all check-in codes" ON check_in_codes
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+    );
+
+COMMENT ON TABLE check_in_codes IS
+    'Short check-in code per student and event, created on first request by fn_get_student_check_in_passes.';
+
+-- HMAC of event and student with the event key (created on first use)
+CREATE OR REPLACE FUNCTION fn_check_in_signature(p_event_id UUID, p_student_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_secret TEXT;
+BEGIN
+    INSERT INTO event_check_in_keys (event_id)
+    VALUES (p_event_id)
+    ON CONFLICT (event_id) DO NOTHING;
+
+    SELECT secret INTO v_secret
+    FROM event_check_in_keys
+    WHERE event_id = p_event_id;
+
+    RETURN substr(
+        encode(extensions.hmac(p_event_id::TEXT || ':' || p_student_id::TEXT, v_secret, 'sha256'), 'hex'),
+        1,
+        32
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION fn_check_in_signature(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- STUDENT PASSES
+-- =====================================================
+
+-- One pass per event in which the caller has a confirmed interview that has
+-- not finished more than a day ago
+CREATE OR REPLACE FUNCTION fn_get_student_check_in_passes()
+RETURNS TABLE (
+    event_id UUID,
+    event_name TEXT,
+    event_date TIMESTAMPTZ,
+    short_code TEXT,
+    qr_payload TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_student_id UUID := auth.uid();
+    v_event RECORD;
+    v_code TEXT;
+    v_alphabet CONSTANT TEXT := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+    v_attempt INTEGER;
+BEGIN
+    IF v_student_id IS NULL THEN
+        RETURN;
+    END IF;
+
+    FOR v_event IN
+        SELECT DISTINCT e.id, e.name, e.date
+        FROM bookings b
+        JOIN event_slots es ON es.id = b.slot_id
+        JOIN events e ON e.id = es.event_id
+        WHERE b.student_id = v_student_id
+          AND b.status = 'confirmed'
+          AND es.end_time > NOW() - INTERVAL '1 day'
+        ORDER BY e.date
+    LOOP
+        SELECT cic.short_code INTO v_code
+        FROM check_in_codes cic
+        WHERE cic.event_id = v_event.id
+          AND cic.student_id = v_student_id;
+
+        v_attempt := 0;
+        WHILE v_code IS NULL LOOP
+            v_attempt := v_attempt + 1;
+            IF v_attempt > 10 THEN
+                RAISE EXCEPTION 'Could not allocate a check-in code';
+            END IF;
+
+            SELECT string_agg(substr(v_alphabet, 1 + floor(random() * length(v_alphabet))::INTEGER, 1), '')
+            INTO v_code
+            FROM generate_series(1, 6);
+
+            BEGIN
+                INSERT INTO check_in_codes (event_id, student_id, short_code)
+                VALUES (v_event.id, v_student_id, v_code);
+            EXCEPTION WHEN unique_violation THEN
+                -- Either the code is taken or a parallel call created ours
+                SELECT cic.short_code INTO v_code
+                FROM check_in_codes cic
+                WHERE cic.event_id = v_event.id
+                  AND cic.student_id = v_student_id;
+            END;
+        END LOOP;
+
+        event_id := v_event.id;
+        event_name := v_event.name;
+        event_date := v_event.date;
+        short_code := v_code;
+        qr_payload := format('INF1:%s:%s:%s', v_event.id, v_student_id, fn_check_in_signature(v_event.id, v_student_id));
+        RETURN NEXT;
+
+        v_code := NULL;
+    END LOOP;
+END;
+$$;
+
+-- =====================================================
+-- RECRUITER CHECK-IN
+-- =====================================================
+
+-- p_code is either a scanned QR payload or a short code. Marks the student's
+-- confirmed interview with the caller's company in p_event_id as attended.
+CREATE OR REPLACE FUNCTION fn_check_in_student(
+    p_event_id UUID,
+    p_code TEXT
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    booking_id UUID,
+    student_name TEXT,
+    slot_time TIMESTAMPTZ,
+    already_checked_in BOOLEAN,
+    message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_company_id UUID;
+    v_code TEXT := trim(COALESCE(p_code, ''));
+    v_student_id UUID;
+    v_booking RECORD;
+BEGIN
+    SELECT c.id INTO v_company_id
+    FROM companies c
+    WHERE c.profile_id = auth.uid();
+
+    IF v_company_id IS NULL THEN
+        RETURN QUERY SELECT false, NULL::UUID, NULL::TEXT, NULL::TIMESTAMPTZ, false,
+            'Only company accounts can check students in'::TEXT;
+        RETURN;
+    END IF;
+
+    IF upper(v_code) LIKE 'INF1:%' THEN
+        BEGIN
+            IF split_part(v_code, ':', 2)::UUID <> p_event_id THEN
+                RETURN QUERY SELECT false, NULL::UUID, NULL::TEXT, NULL::TIMESTAMPTZ, false,
+                    'This pass belongs to another event'::TEXT;
+                RETURN;
+            END IF;
+            v_student_id := split_part(v_code, ':', 3)::UUID;
+        EXCEPTION WHEN invalid_text_representation THEN
+            v_student_id := NULL;
+        END;
+
+        IF v_student_id IS NULL
+           OR split_part(v_code, ':', 4) <> fn_check_in_signature(p_event_id, v_student_id) THEN
+            RETURN QUERY SELECT false, NULL::UUID, NULL::TEXT, NULL::TIMESTAMPTZ, false,
+                'Invalid check-in pass'::TEXT;
+            RETURN;
+        END IF;
+    ELSE
+        SELECT cic.student_id INTO v_student_id
+        FROM check_in_codes cic
+        WHERE cic.event_id = p_event_id
+          AND cic.short_code = upper(regexp_replace(v_code, '[^A-Za-z0-9]', '', 'g'));
+
+        IF v_student_id IS NULL THEN
+            RETURN QUERY SELECT false, NULL::UUID, NULL::TEXT, NULL::TIMESTAMPTZ, false,
+                'Unknown check-in code'::TEXT;
+            RETURN;
+        END IF;
+    END IF;
+
+    -- The interview with this company closest to now
+    SELECT b.id, b.attended, b.checked_in_at, es.start_time, p.full_name
+    INTO v_booking
+    FROM bookings b
+    JOIN event_slots es ON es.id = b.slot_id
+    JOIN profiles p ON p.id = b.student_id
+    WHERE b.student_id = v_student_id
+      AND b.status = 'confirmed'
+      AND es.event_id = p_event_id
+      AND es.company_id = v_company_id
+    ORDER BY abs(extract(epoch FROM es.start_time - NOW()))
+    LIMIT 1
+    FOR UPDATE OF b;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT false, NULL::UUID,
+            (SELECT full_name FROM profiles WHERE id = v_student_id),
+            NULL::TIMESTAMPTZ, false,
+            'This student has no confirmed interview with your company at this event'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_booking.attended IS TRUE THEN
+        RETURN QUERY SELECT true, v_booking.id, v_booking.full_name, v_booking.start_time, true,
+            format('Already checked in at %s', to_char(v_booking.checked_in_at, 'HH24:MI'))::TEXT;
+        RETURN;
+    END IF;
+
+    UPDATE bookings
+    SET attended = true,
+        checked_in_at = NOW(),
+        checked_in_by = auth.uid()
+    WHERE id = v_booking.id;
+
+    RETURN QUERY SELECT true, v_booking.id, v_booking.full_name, v_booking.start_time, false,
+        format('%s checked in for %s', v_booking.full_name, to_char(v_booking.start_time, 'HH24:MI'))::TEXT;
+END;
+$$;
+
+-- Manual attendance: true = present, false = no-show, NULL = reset
+CREATE OR REPLACE FUNCTION fn_set_booking_attendance(
+    p_booking_id UUID,
+    p_attended BOOLEAN
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_booking RECORD;
+    v_is_admin BOOLEAN;
+BEGIN
+    SELECT b.id, b.status, es.company_id, c.profile_id
+    INTO v_booking
+    FROM bookings b
+    JOIN event_slots es ON es.id = b.slot_id
+    JOIN companies c ON c.id = es.company_id
+    WHERE b.id = p_booking_id;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT false, 'Booking not found'::TEXT;
+        RETURN;
+    END IF;
+
+    v_is_admin := EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin');
+
+    IF NOT v_is_admin AND v_booking.profile_id IS DISTINCT FROM auth.uid() THEN
+        RETURN QUERY SELECT false, 'You can only record attendance for your own interviews'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_booking.status <> 'confirmed' THEN
+        RETURN QUERY SELECT false, 'Only confirmed bookings have attendance'::TEXT;
+        RETURN;
+    END IF;
+
+    UPDATE bookings
+    SET attended = p_attended,
+        checked_in_at = CASE WHEN p_attended IS TRUE THEN COALESCE(checked_in_at, NOW()) ELSE NULL END,
+        checked_in_by = CASE WHEN p_attended IS TRUE THEN COALESCE(checked_in_by, auth.uid()) ELSE NULL END
+    WHERE id = p_booking_id;
+
+    RETURN QUERY SELECT true,
+        CASE
+            WHEN p_attended IS TRUE THEN 'Marked as present'
+            WHEN p_attended IS FALSE THEN 'Marked as no-show'
+            ELSE 'Attendance cleared'
+        END::TEXT;
+END;
+$$;
+
+-- =====================================================
+-- ADMIN ATTENDANCE
+-- =====================================================
+
+-- due = confirmed interviews that have started; the rate is checked_in / due
+CREATE OR REPLACE FUNCTION fn_get_event_attendance(p_event_id UUID)
+RETURNS TABLE (
+    company_id UUID,
+    company_name TEXT,
+    booked INTEGER,
+    due INTEGER,
+    checked_in INTEGER,
+    no_shows INTEGER,
+    attendance_rate NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        RAISE EXCEPTION 'Only admins can view attendance';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        c.id,
+        c.company_name,
+        COUNT(b.id)::INTEGER,
+        COUNT(b.id) FILTER (WHERE es.start_time <= NOW())::INTEGER,
+        COUNT(b.id) FILTER (WHERE b.attended IS TRUE)::INTEGER,
+        COUNT(b.id) FILTER (WHERE b.attended IS FALSE)::INTEGER,
+        ROUND(
+            COUNT(b.id) FILTER (WHERE b.attended IS TRUE) * 100.0
+            / NULLIF(COUNT(b.id) FILTER (WHERE es.start_time <= NOW()), 0),
+            1
+        )
+    FROM event_participants ep
+    JOIN companies c ON c.id = ep.company_id
+    LEFT JOIN event_slots es ON es.company_id = c.id AND es.event_id = p_event_id
+    LEFT JOIN bookings b ON b.slot_id = es.id AND b.status = 'confirmed'
+    WHERE ep.event_id = p_event_id
+    GROUP BY c.id, c.company_name
+    ORDER BY c.company_name;
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+GRANT EXECUTE ON FUNCTION fn_get_student_check_in_passes() TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_check_in_student(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_set_booking_attendance(UUID, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_get_event_attendance(UUID) TO authenticated;
+
+COMMENT ON FUNCTION fn_get_student_check_in_passes IS
+    'Check-in passes (signed QR payload and short code) of the calling student for events with upcoming confirmed interviews.';
+COMMENT ON FUNCTION fn_check_in_student IS
+    'Company only. Verifies a QR payload or short code and marks the student''s interview with the company as attended.';
+COMMENT ON FUNCTION fn_set_booking_attendance IS
+    'Company (own slots) or admin. Records a booking as present, no-show or clears it.';
+COMMENT ON FUNCTION fn_get_event_attendance IS
+    'Admin only. Booked, due, checked-in and no-show counts per participating company of an event.';
@@ -0,0 +1,471 @@
+-- Migration: No-Show Policy
+-- Created: 2026-01-19
+-- Description: profiles.is_deprioritized was only ever set by hand and nothing
+-- recorded why. Events get an optional no-show policy: once a student reaches
+-- the configured number of no-shows (bookings.attended = false) at the event,
+-- they are deprioritized until the next event has taken place. One no-show
+-- before the limit they get a warning notification. Every change of the flag,
+-- whoever makes it, is written to deprioritization_history with its reason,
+-- and admins override it through fn_set_student_deprioritization. When a
+-- penalty ends the flag goes back to what the student had before it, so an
+-- "internship secured" flag survives. Students cannot change the attendance
+-- or check-in of their own bookings.
+
+-- =====================================================
+-- POLICY AND PENALTY COLUMNS
+-- =====================================================
+
+ALTER TABLE events
+    ADD COLUMN IF NOT EXISTS no_show_policy_enabled BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS no_show_threshold INTEGER NOT NULL DEFAULT 2;
+
+ALTER TABLE events
+    ADD CONSTRAINT events_no_show_threshold_check CHECK (no_show_threshold BETWEEN 1 AND 10);
+
+-- Set while a no-show penalty is active: the event whose no-shows caused it,
+-- and the flag to restore when the penalty ends
+ALTER TABLE profiles
+    ADD COLUMN IF NOT EXISTS no_show_penalty_event_id UUID REFERENCES events(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS deprioritized_before_penalty BOOLEAN;
+
+COMMENT ON COLUMN events.no_show_policy_enabled IS 'Deprioritize students who reach no_show_threshold no-shows at this event';
+COMMENT ON COLUMN events.no_show_threshold IS 'Number of no-shows at the event that triggers deprioritization';
+COMMENT ON COLUMN profiles.no_show_penalty_event_id IS 'Event whose no-shows caused the active deprioritization; cleared once the next event has taken place';
+COMMENT ON COLUMN profiles.deprioritized_before_penalty IS 'is_deprioritized as the student set it, restored when the active no-show penalty ends';
+
+-- =====================================================
+-- HISTORY
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS deprioritization_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    student_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    is_deprioritized BOOLEAN NOT NULL,
+    source TEXT NOT NULL CHECK (source IN ('no_show_policy', 'admin', 'student', 'system')),
+    reason TEXT,
+    event_id UUID REFERENCES events(id) ON DELETE SET NULL,
+    changed_by UUID,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_deprioritization_history_student
+    ON deprioritization_history(student_id, created_at DESC);
+
+ALTER TABLE deprioritization_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view deprioritization history"
+    ON deprioritization_history FOR SELECT
+    USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'));
+
+CREATE POLICY "Students can view their own deprioritization history"
+    ON deprioritization_history FOR SELECT
+    USING (student_id = auth.uid());
+
+-- Students deprioritized before the history existed
+INSERT INTO deprioritization_history (student_id, is_deprioritized, source, reason)
+SELECT id, true, 'system', 'Set before deprioritization history was recorded'
+FROM profiles
+WHERE role = 'student'
+  AND is_deprioritized = true;
+
+-- =====================================================
+-- PROFILE TRIGGERS
+-- =====================================================
+
+-- Students may flag themselves (secured internship) but cannot lift a
+-- no-show penalty or touch the penalty markers. During a penalty their change
+-- is kept for when the penalty ends.
+CREATE OR REPLACE FUNCTION fn_guard_no_show_penalty()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() = OLD.id AND OLD.role = 'student' THEN
+        NEW.no_show_penalty_event_id := OLD.no_show_penalty_event_id;
+        IF OLD.no_show_penalty_event_id IS NOT NULL THEN
+            NEW.deprioritized_before_penalty := CASE
+                WHEN NEW.is_deprioritized IS DISTINCT FROM OLD.is_deprioritized THEN NEW.is_deprioritized
+                ELSE OLD.deprioritized_before_penalty
+            END;
+            NEW.is_deprioritized := true;
+        ELSE
+            NEW.deprioritized_before_penalty := OLD.deprioritized_before_penalty;
+        END IF;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_guard_no_show_penalty ON profiles;
+CREATE TRIGGER trg_guard_no_show_penalty
+    BEFORE UPDATE OF is_deprioritized, no_show_penalty_event_id, deprioritized_before_penalty ON profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION fn_guard_no_show_penalty();
+
+-- Functions that change the flag describe the change through the transaction
+-- settings app.deprioritization_source / _reason / _event_id. Direct updates
+-- are attributed to the student or admin making them.
+CREATE OR REPLACE FUNCTION fn_log_deprioritization_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_source TEXT := NULLIF(current_setting('app.deprioritization_source', true), '');
+    v_reason TEXT := NULLIF(current_setting('app.deprioritization_reason', true), '');
+    v_event_id TEXT := NULLIF(current_setting('app.deprioritization_event_id', true), '');
+BEGIN
+    IF v_source IS NULL THEN
+        v_source := CASE
+            WHEN auth.uid() = NEW.id THEN 'student'
+            WHEN EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN 'admin'
+            ELSE 'system'
+        END;
+        IF v_source = 'student' THEN
+            v_reason := CASE WHEN NEW.is_deprioritized THEN 'Marked internship as secured' ELSE 'Marked internship as not secured' END;
+        END IF;
+    END IF;
+
+    INSERT INTO deprioritization_history (student_id, is_deprioritized, source, reason, event_id, changed_by)
+    VALUES (NEW.id, NEW.is_deprioritized, v_source, v_reason, v_event_id::UUID, auth.uid());
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_log_deprioritization_change ON profiles;
+CREATE TRIGGER trg_log_deprioritization_change
+    AFTER UPDATE OF is_deprioritized, no_show_penalty_event_id ON profiles
+    FOR EACH ROW
+    WHEN (OLD.is_deprioritized IS DISTINCT FROM NEW.is_deprioritized
+          OR OLD.no_show_penalty_event_id IS DISTINCT FROM NEW.no_show_penalty_event_id)
+    EXECUTE FUNCTION fn_log_deprioritization_change();
+
+-- =====================================================
+-- POLICY
+-- =====================================================
+
+-- Re-evaluates one student's no-shows at one event. Also lifts a penalty from
+-- this event when attendance is corrected below the limit.
+CREATE OR REPLACE FUNCTION fn_apply_no_show_policy(
+    p_student_id UUID,
+    p_event_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_event RECORD;
+    v_profile RECORD;
+    v_no_shows INTEGER;
+    v_title TEXT;
+BEGIN
+    SELECT e.id, e.name, e.no_show_policy_enabled, e.no_show_threshold
+    INTO v_event
+    FROM events e
+    WHERE e.id = p_event_id;
+
+    IF NOT FOUND OR NOT v_event.no_show_policy_enabled THEN
+        RETURN;
+    END IF;
+
+    SELECT p.id, p.role, p.is_deprioritized, p.no_show_penalty_event_id, p.deprioritized_before_penalty
+    INTO v_profile
+    FROM profiles p
+    WHERE p.id = p_student_id;
+
+    IF NOT FOUND OR v_profile.role <> 'student' THEN
+        RETURN;
+    END IF;
+
+    SELECT COUNT(*)::INTEGER INTO v_no_shows
+    FROM bookings b
+    JOIN event_slots es ON es.id = b.slot_id
+    WHERE es.event_id = p_event_id
+      AND b.student_id = p_student_id
+      AND b.attended IS FALSE;
+
+    IF v_no_shows >= v_event.no_show_threshold THEN
+        IF v_profile.no_show_penalty_event_id IS NOT DISTINCT FROM p_event_id THEN
+            RETURN;
+        END IF;
+
+        PERFORM set_config('app.deprioritization_source', 'no_show_policy', true);
+        PERFORM set_config('app.deprioritization_event_id', p_event_id::TEXT, true);
+        PERFORM set_config(
+            'app.deprioritization_reason',
+            format('%s no-shows at %s', v_no_shows, v_event.name),
+            true
+        );
+
+        -- A penalty from an earlier event already holds the student's own flag
+        UPDATE profiles
+        SET is_deprioritized = true,
+            deprioritized_before_penalty = CASE
+                WHEN v_profile.no_show_penalty_event_id IS NULL THEN v_profile.is_deprioritized
+                ELSE v_profile.deprioritized_before_penalty
+            END,
+            no_show_penalty_event_id = p_event_id,
+            updated_at = NOW()
+        WHERE id = p_student_id;
+
+        INSERT INTO notifications (user_id, title, message, type, action_url)
+        VALUES (
+            p_student_id,
+            'Deprioritized after missed interviews',
+            format(
+                'You missed %s interviews at %s. You will book after other students at the next event. Contact the organizers if this is a mistake.',
+                v_no_shows, v_event.name
+            ),
+            'no_show_penalty',
+            '/student/bookings'
+        );
+    ELSIF v_profile.no_show_penalty_event_id IS NOT DISTINCT FROM p_event_id THEN
+        PERFORM set_config('app.deprioritization_source', 'no_show_policy', true);
+        PERFORM set_config('app.deprioritization_event_id', p_event_id::TEXT, true);
+        PERFORM set_config(
+            'app.deprioritization_reason',
+            format('No-shows at %s corrected to %s', v_event.name, v_no_shows),
+            true
+        );
+
+        UPDATE profiles
+        SET is_deprioritized = COALESCE(v_profile.deprioritized_before_penalty, false),
+            deprioritized_before_penalty = NULL,
+            no_show_penalty_event_id = NULL,
+            updated_at = NOW()
+        WHERE id = p_student_id;
+    ELSIF v_no_shows > 0 AND v_no_shows = v_event.no_show_threshold - 1 THEN
+        v_title := format('Missed interview at %s', v_event.name);
+
+        IF NOT EXISTS (
+            SELECT 1 FROM notifications n
+            WHERE n.user_id = p_student_id
+              AND n.type = 'no_show_warning'
+              AND n.title = v_title
+        ) THEN
+            INSERT INTO notifications (user_id, title, message, type, action_url)
+            VALUES (
+                p_student_id,
+                v_title,
+                format(
+                    'You were marked absent from %s interview(s). One more no-show and you will book after other students at the next event. Cancel bookings you cannot attend.',
+                    v_no_shows
+                ),
+                'no_show_warning',
+                '/student/bookings'
+            );
+        END IF;
+    END IF;
+
+    -- Later updates in the same transaction must not inherit this attribution
+    PERFORM set_config('app.deprioritization_source', '', true);
+    PERFORM set_config('app.deprioritization_reason', '', true);
+    PERFORM set_config('app.deprioritization_event_id', '', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION fn_trg_booking_attendance_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_event_id UUID;
+BEGIN
+    SELECT es.event_id INTO v_event_id
+    FROM event_slots es
+    WHERE es.id = NEW.slot_id;
+
+    IF v_event_id IS NOT NULL THEN
+        PERFORM fn_apply_no_show_policy(NEW.student_id, v_event_id);
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Students keep update access to their own bookings (cancellation, notes),
+-- but attendance and check-in are set by the company only
+CREATE OR REPLACE FUNCTION fn_guard_booking_attendance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() = OLD.student_id THEN
+        NEW.attended := OLD.attended;
+        NEW.checked_in_at := OLD.checked_in_at;
+        NEW.checked_in_by := OLD.checked_in_by;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_guard_booking_attendance ON bookings;
+CREATE TRIGGER trg_guard_booking_attendance
+    BEFORE UPDATE OF attended, checked_in_at, checked_in_by ON bookings
+    FOR EACH ROW
+    EXECUTE FUNCTION fn_guard_booking_attendance();
+
+DROP TRIGGER IF EXISTS trg_booking_attendance_policy ON bookings;
+CREATE TRIGGER trg_booking_attendance_policy
+    AFTER UPDATE OF attended ON bookings
+    FOR EACH ROW
+    WHEN (OLD.attended IS DISTINCT FROM NEW.attended)
+    EXECUTE FUNCTION fn_trg_booking_attendance_policy();
+
+-- =====================================================
+-- PENALTY EXPIRY
+-- =====================================================
+
+-- A penalty covers the next event: it is lifted once an event dated after the
+-- offending one is over. Run by the auto-phase-transitions edge function.
+CREATE OR REPLACE FUNCTION fn_expire_no_show_penalties()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_student RECORD;
+    v_lifted INTEGER := 0;
+BEGIN
+    PERFORM set_config('app.deprioritization_source', 'no_show_policy', true);
+
+    FOR v_student IN
+        SELECT p.id, p.no_show_penalty_event_id, penalty_event.name AS penalty_event_name, next_event.name AS next_event_name
+        FROM profiles p
+        JOIN events penalty_event ON penalty_event.id = p.no_show_penalty_event_id
+        JOIN LATERAL (
+            SELECT e.name
+            FROM events e
+            WHERE e.date > penalty_event.date
+              AND e.date < date_trunc('day', NOW())
+            ORDER BY e.date
+            LIMIT 1
+        ) next_event ON true
+    LOOP
+        PERFORM set_config('app.deprioritization_event_id', v_student.no_show_penalty_event_id::TEXT, true);
+        PERFORM set_config(
+            'app.deprioritization_reason',
+            format('No-show penalty from %s served at %s', v_student.penalty_event_name, v_student.next_event_name),
+            true
+        );
+
+        UPDATE profiles
+        SET is_deprioritized = COALESCE(deprioritized_before_penalty, false),
+            deprioritized_before_penalty = NULL,
+            no_show_penalty_event_id = NULL,
+            updated_at = NOW()
+        WHERE id = v_student.id;
+
+        INSERT INTO notifications (user_id, title, message, type, action_url)
+        VALUES (
+            v_student.id,
+            'Booking priority restored',
+            'Your no-show penalty has ended. You book with the same priority as other students again.',
+            'no_show_penalty',
+            '/student/offers'
+        );
+
+        v_lifted := v_lifted + 1;
+    END LOOP;
+
+    PERFORM set_config('app.deprioritization_source', '', true);
+    PERFORM set_config('app.deprioritization_reason', '', true);
+    PERFORM set_config('app.deprioritization_event_id', '', true);
+
+    RETURN v_lifted;
+END;
+$$;
+
+-- =====================================================
+-- ADMIN OVERRIDE
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_set_student_deprioritization(
+    p_student_id UUID,
+    p_deprioritized BOOLEAN,
+    p_reason TEXT
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_profile RECORD;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        RETURN QUERY SELECT false, 'Only admins can override deprioritization'::TEXT;
+        RETURN;
+    END IF;
+
+    IF p_reason IS NULL OR btrim(p_reason) = '' THEN
+        RETURN QUERY SELECT false, 'A reason is required'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT p.id, p.full_name, p.role, p.is_deprioritized, p.no_show_penalty_event_id
+    INTO v_profile
+    FROM profiles p
+    WHERE p.id = p_student_id;
+
+    IF NOT FOUND OR v_profile.role <> 'student' THEN
+        RETURN QUERY SELECT false, 'Student not found'::TEXT;
+        RETURN;
+    END IF;
+
+    PERFORM set_config('app.deprioritization_source', 'admin', true);
+    PERFORM set_config('app.deprioritization_reason', btrim(p_reason), true);
+
+    -- Lifting by hand also ends a no-show penalty
+    UPDATE profiles
+    SET is_deprioritized = p_deprioritized,
+        no_show_penalty_event_id = CASE WHEN p_deprioritized THEN no_show_penalty_event_id ELSE NULL END,
+        deprioritized_before_penalty = CASE WHEN p_deprioritized THEN deprioritized_before_penalty ELSE NULL END,
+        updated_at = NOW()
+    WHERE id = p_student_id;
+
+    PERFORM log_admin_action(
+        CASE WHEN p_deprioritized THEN 'student_deprioritized' ELSE 'student_prioritized' END,
+        'profiles',
+        p_student_id,
+        jsonb_build_object(
+            'is_deprioritized', v_profile.is_deprioritized,
+            'no_show_penalty_event_id', v_profile.no_show_penalty_event_id
+        ),
+        jsonb_build_object('is_deprioritized', p_deprioritized),
+        format('%s %s: %s', CASE WHEN p_deprioritized THEN 'Deprioritized' ELSE 'Prioritized' END, v_profile.full_name, btrim(p_reason))
+    );
+
+    RETURN QUERY SELECT true,
+        format('%s %s', v_profile.full_name, CASE WHEN p_deprioritized THEN 'deprioritized' ELSE 'prioritized' END);
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION fn_apply_no_show_policy(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION fn_expire_no_show_penalties() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION fn_expire_no_show_penalties() TO service_role;
+GRANT EXECUTE ON FUNCTION fn_set_student_deprioritization(UUID, BOOLEAN, TEXT) TO authenticated;
+
+COMMENT ON TABLE deprioritization_history IS 'Every change of profiles.is_deprioritized with its source and reason';
+COMMENT ON FUNCTION fn_apply_no_show_policy IS
+    'Internal. Warns, deprioritizes or lifts the penalty of a student from their no-shows at an event.';
+COMMENT ON FUNCTION fn_expire_no_show_penalties IS
+    'Service role only. Lifts no-show penalties once the event after the offending one is over.';
+COMMENT ON FUNCTION fn_set_student_deprioritization IS
+    'Admin only. Sets or lifts a student''s deprioritization with a recorded reason.';
@@ -0,0 +1,317 @@
+-- Migration: Notification Center
+-- Created: 2026-01-20
+-- Description: The app now reads notifications (bell, dropdown and full list)
+-- and receives new ones through Supabase realtime. Notifications for booking
+-- confirmed / cancelled, company verified, phase opened and slot changes are
+-- created by triggers instead of by whichever code path happened to remember.
+-- The triggers are deferred to commit so that functions which already send a
+-- more specific message in the same transaction (waitlist promotion, lottery
+-- results, slot regeneration, scheduled phase transitions) are not doubled.
+
+-- =====================================================
+-- REALTIME
+-- =====================================================
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+       AND NOT EXISTS (
+           SELECT 1 FROM pg_publication_tables
+           WHERE pubname = 'supabase_realtime'
+             AND schemaname = 'public'
+             AND tablename = 'notifications'
+       ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created
+    ON notifications(user_id, created_at DESC);
+
+-- =====================================================
+-- HELPERS
+-- =====================================================
+
+-- NOW() is the transaction start, so this finds notifications created earlier
+-- in the current transaction
+CREATE OR REPLACE FUNCTION fn_notified_in_transaction(p_user_id UUID, p_types TEXT[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM notifications n
+        WHERE n.user_id = p_user_id
+          AND n.type = ANY (p_types)
+          AND n.created_at = NOW()
+    );
+$$;
+
+-- =====================================================
+-- BOOKINGS
+-- =====================================================
+
+-- Replaced by trg_notify_booking_change
+DROP TRIGGER IF EXISTS notify_booking ON bookings;
+DROP FUNCTION IF EXISTS create_booking_notification();
+
+CREATE OR REPLACE FUNCTION fn_notify_booking_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_booking RECORD;
+    v_slot RECORD;
+    v_when TEXT;
+BEGIN
+    -- Deferred: act on the booking as it is at commit
+    SELECT b.id, b.student_id, b.status, b.cancelled_reason, p.full_name AS student_name
+    INTO v_booking
+    FROM bookings b
+    JOIN profiles p ON p.id = b.student_id
+    WHERE b.id = NEW.id;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT es.start_time, c.company_name, c.profile_id AS company_profile_id, o.title AS offer_title
+    INTO v_slot
+    FROM event_slots es
+    JOIN companies c ON c.id = es.company_id
+    LEFT JOIN offers o ON o.id = es.offer_id
+    WHERE es.id = NEW.slot_id;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    v_when := to_char(v_slot.start_time, 'DD/MM/YYYY HH24:MI');
+
+    IF v_booking.status = 'confirmed'
+       AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'confirmed') THEN
+        -- Lottery allocations are summarised in one 'lottery_result' notification
+        IF EXISTS (SELECT 1 FROM lottery_allocations la WHERE la.booking_id = v_booking.id) THEN
+            RETURN NULL;
+        END IF;
+
+        IF NOT fn_notified_in_transaction(v_booking.student_id, ARRAY['waitlist_promoted', 'booking_confirmed']) THEN
+            INSERT INTO notifications (user_id, title, message, type, action_url)
+            VALUES (
+                v_booking.student_id,
+                'Booking Confirmed',
+                format('Your interview with %s%s is confirmed for %s',
+                    v_slot.company_name,
+                    COALESCE(' for ' || v_slot.offer_title, ''),
+                    v_when),
+                'booking_confirmed',
+                '/student/bookings'
+            );
+        END IF;
+
+        IF v_slot.company_profile_id IS NOT NULL THEN
+            INSERT INTO notifications (user_id, title, message, type, action_url)
+            VALUES (
+                v_slot.company_profile_id,
+                'New Booking',
+                format('%s booked an interview for %s', v_booking.student_name, v_when),
+                'new_booking',
+                '/company/slots'
+            );
+        END IF;
+    ELSIF v_booking.status = 'cancelled'
+          AND TG_OP = 'UPDATE'
+          AND OLD.status = 'confirmed' THEN
+        -- The student knows they cancelled; fn_apply_session_regeneration
+        -- sends its own explanation
+        IF auth.uid() IS DISTINCT FROM v_booking.student_id
+           AND NOT fn_notified_in_transaction(v_booking.student_id, ARRAY['booking_cancelled']) THEN
+            INSERT INTO notifications (user_id, title, message, type, action_url)
+            VALUES (
+                v_booking.student_id,
+                'Interview Cancelled',
+                format('Your interview with %s on %s was cancelled.%s You can book another slot.',
+                    v_slot.company_name,
+                    v_when,
+                    COALESCE(' Reason: ' || v_booking.cancelled_reason || '.', '')),
+                'booking_cancelled',
+                '/student/offers'
+            );
+        END IF;
+
+        IF v_slot.company_profile_id IS NOT NULL
+           AND auth.uid() IS DISTINCT FROM v_slot.company_profile_id THEN
+            INSERT INTO notifications (user_id, title, message, type, action_url)
+            VALUES (
+                v_slot.company_profile_id,
+                'Booking Cancelled',
+                format('The interview with %s on %s was cancelled.', v_booking.student_name, v_when),
+                'booking_cancelled',
+                '/company/slots'
+            );
+        END IF;
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_notify_booking_change ON bookings;
+CREATE CONSTRAINT TRIGGER trg_notify_booking_change
+    AFTER INSERT OR UPDATE OF status ON bookings
+    DEFERRABLE INITIALLY DEFERRED
+    FOR EACH ROW
+    EXECUTE FUNCTION fn_notify_booking_change();
+
+-- =====================================================
+-- COMPANIES
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_notify_company_verified()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.profile_id IS NULL
+       OR NOT EXISTS (SELECT 1 FROM companies c WHERE c.id = NEW.id AND c.is_verified)
+       -- verify_company() still sends its own 'success' message
+       OR fn_notified_in_transaction(NEW.profile_id, ARRAY['company_verified', 'success']) THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO notifications (user_id, title, message, type, action_url)
+    VALUES (
+        NEW.profile_id,
+        'Company Verified',
+        'Your company has been verified. You can now create offers and take part in events.',
+        'company_verified',
+        '/company'
+    );
+
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_notify_company_verified ON companies;
+CREATE CONSTRAINT TRIGGER trg_notify_company_verified
+    AFTER UPDATE OF is_verified ON companies
+    DEFERRABLE INITIALLY DEFERRED
+    FOR EACH ROW
+    WHEN (OLD.is_verified IS DISTINCT FROM true AND NEW.is_verified = true)
+    EXECUTE FUNCTION fn_notify_company_verified();
+
+-- =====================================================
+-- EVENTS
+-- =====================================================
+
+-- Manual phase changes from the Phases page; fn_auto_transition_event_phases
+-- already notifies for scheduled ones
+CREATE OR REPLACE FUNCTION fn_notify_phase_opened()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_phase_name TEXT;
+BEGIN
+    SELECT ep.name INTO v_phase_name
+    FROM event_phases ep
+    WHERE ep.event_id = NEW.id
+      AND ep.phase_number = NEW.current_phase;
+
+    -- Unconfigured phases take no bookings
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO notifications (user_id, title, message, type, action_url)
+    SELECT
+        p.id,
+        format('%s: Phase %s is open', NEW.name, NEW.current_phase),
+        format('Phase %s%s has started. You can now book interviews.',
+            NEW.current_phase,
+            COALESCE(' (' || v_phase_name || ')', '')),
+        'phase_transition',
+        '/student/offers'
+    FROM profiles p
+    WHERE p.role = 'student'
+      AND (SELECT el.eligible FROM fn_check_phase_eligibility(p.id, NEW.id, NEW.current_phase) el)
+      AND NOT fn_notified_in_transaction(p.id, ARRAY['phase_transition']);
+
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_notify_phase_opened ON events;
+CREATE CONSTRAINT TRIGGER trg_notify_phase_opened
+    AFTER UPDATE OF current_phase ON events
+    DEFERRABLE INITIALLY DEFERRED
+    FOR EACH ROW
+    WHEN (NEW.is_active AND COALESCE(NEW.current_phase, 0) > 0
+          AND OLD.current_phase IS DISTINCT FROM NEW.current_phase)
+    EXECUTE FUNCTION fn_notify_phase_opened();
+
+-- =====================================================
+-- SLOTS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_notify_slot_changed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO notifications (user_id, title, message, type, action_url)
+    SELECT
+        b.student_id,
+        'Interview Details Changed',
+        format('Your interview with %s is now on %s%s.',
+            c.company_name,
+            to_char(es.start_time, 'DD/MM/YYYY HH24:MI'),
+            COALESCE(' at ' || es.location, '')),
+        'slot_changed',
+        '/student/bookings'
+    FROM event_slots es
+    JOIN companies c ON c.id = es.company_id
+    JOIN bookings b ON b.slot_id = es.id AND b.status = 'confirmed'
+    WHERE es.id = NEW.id
+      AND NOT fn_notified_in_transaction(b.student_id, ARRAY['booking_moved', 'slot_changed']);
+
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_notify_slot_changed ON event_slots;
+CREATE CONSTRAINT TRIGGER trg_notify_slot_changed
+    AFTER UPDATE OF start_time, end_time, location ON event_slots
+    DEFERRABLE INITIALLY DEFERRED
+    FOR EACH ROW
+    WHEN (OLD.start_time IS DISTINCT FROM NEW.start_time
+          OR OLD.end_time IS DISTINCT FROM NEW.end_time
+          OR OLD.location IS DISTINCT FROM NEW.location)
+    EXECUTE FUNCTION fn_notify_slot_changed();
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION fn_notified_in_transaction(UUID, TEXT[]) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION fn_notified_in_transaction IS
+    'Internal. Whether the user already received a notification of one of the types in the current transaction.';
+COMMENT ON FUNCTION fn_notify_booking_change IS
+    'Deferred trigger. Notifies student and company when a booking is confirmed or cancelled.';
+COMMENT ON FUNCTION fn_notify_company_verified IS
+    'Deferred trigger. Notifies a company when it is verified.';
+COMMENT ON FUNCTION fn_notify_phase_opened IS
+    'Deferred trigger. Notifies eligible students when an event moves to a booking phase.';
+COMMENT ON FUNCTION fn_notify_slot_changed IS
+    'Deferred trigger. Notifies booked students when a slot''s time or location changes.';
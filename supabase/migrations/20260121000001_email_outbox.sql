@@ -0,0 +1,421 @@
+-- Migration: Email Outbox
+-- Created: 2026-01-21
+-- Description: Transactional emails are queued in email_outbox and delivered
+-- by the send-email edge function, which renders them from its template
+-- registry and retries failures with exponential backoff. Deferred triggers
+-- queue booking confirmation / cancellation, company verified / rejected and
+-- phase opened emails; the payload holds the template data, not the HTML.
+
+-- =====================================================
+-- OUTBOX
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS email_outbox (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    template TEXT NOT NULL,
+    to_email TEXT NOT NULL,
+    to_user_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+    -- Same key is only queued once (e.g. one reminder per booking)
+    dedupe_key TEXT UNIQUE,
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 5 CHECK (max_attempts BETWEEN 1 AND 10),
+    next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    locked_at TIMESTAMPTZ,
+    last_error TEXT,
+    transport TEXT,
+    provider_message_id TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    sent_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_due
+    ON email_outbox(next_attempt_at)
+    WHERE status IN ('pending', 'sending');
+CREATE INDEX IF NOT EXISTS idx_email_outbox_created ON email_outbox(created_at DESC);
+
+ALTER TABLE email_outbox ENABLE ROW LEVEL SECURITY;
+
+-- Only admins read the outbox; rows are written by SECURITY DEFINER functions
+DROP POLICY IF EXISTS "Admins can view email outbox" ON email_outbox;
+CREATE POLICY "Admins can view email outbox" ON email_outbox
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+    );
+
+COMMENT ON TABLE email_outbox IS 'Queued transactional emails, delivered and retried by the send-email edge function';
+
+-- =====================================================
+-- QUEUE FUNCTIONS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_enqueue_email(
+    p_template TEXT,
+    p_to_email TEXT,
+    p_payload JSONB,
+    p_to_user_id UUID DEFAULT NULL,
+    p_dedupe_key TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_id UUID;
+BEGIN
+    IF p_to_email IS NULL OR btrim(p_to_email) = '' THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO email_outbox (template, to_email, to_user_id, payload, dedupe_key)
+    VALUES (p_template, btrim(p_to_email), p_to_user_id, COALESCE(p_payload, '{}'::jsonb), p_dedupe_key)
+    ON CONFLICT (dedupe_key) DO NOTHING
+    RETURNING id INTO v_id;
+
+    RETURN v_id;
+END;
+$$;
+
+-- Rows left in 'sending' by a crashed run are picked up again after 10 minutes
+CREATE OR REPLACE FUNCTION fn_claim_email_batch(p_limit INTEGER DEFAULT 25)
+RETURNS SETOF email_outbox
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE email_outbox o
+    SET status = 'sending',
+        attempts = o.attempts + 1,
+        locked_at = NOW()
+    WHERE o.id IN (
+        SELECT e.id
+        FROM email_outbox e
+        WHERE (e.status = 'pending' AND e.next_attempt_at <= NOW())
+           OR (e.status = 'sending' AND e.locked_at < NOW() - INTERVAL '10 minutes')
+        ORDER BY e.next_attempt_at
+        LIMIT GREATEST(p_limit, 1)
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING o.*;
+END;
+$$;
+
+-- Failed attempts wait 1, 2, 4, 8... minutes, like sendCredentialsEmailWithRetry
+CREATE OR REPLACE FUNCTION fn_complete_email(
+    p_email_id UUID,
+    p_success BOOLEAN,
+    p_transport TEXT DEFAULT NULL,
+    p_provider_message_id TEXT DEFAULT NULL,
+    p_error TEXT DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_email RECORD;
+    v_status TEXT;
+BEGIN
+    SELECT * INTO v_email FROM email_outbox WHERE id = p_email_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    IF p_success THEN
+        v_status := 'sent';
+    ELSIF v_email.attempts >= v_email.max_attempts THEN
+        v_status := 'failed';
+    ELSE
+        v_status := 'pending';
+    END IF;
+
+    UPDATE email_outbox
+    SET status = v_status,
+        locked_at = NULL,
+        transport = COALESCE(p_transport, transport),
+        provider_message_id = CASE WHEN p_success THEN p_provider_message_id ELSE provider_message_id END,
+        last_error = CASE WHEN p_success THEN NULL ELSE left(p_error, 2000) END,
+        sent_at = CASE WHEN p_success THEN NOW() ELSE sent_at END,
+        next_attempt_at = CASE
+            WHEN v_status = 'pending' THEN NOW() + (power(2, v_email.attempts - 1) * INTERVAL '1 minute')
+            ELSE next_attempt_at
+        END
+    WHERE id = p_email_id;
+
+    RETURN v_status;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION fn_retry_email(p_email_id UUID)
+RETURNS TABLE(success BOOLEAN, message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_email RECORD;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        RETURN QUERY SELECT false, 'Only admins can retry emails'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT * INTO v_email FROM email_outbox WHERE id = p_email_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT false, 'Email not found'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_email.status <> 'failed' THEN
+        RETURN QUERY SELECT false, 'Only failed emails can be retried'::TEXT;
+        RETURN;
+    END IF;
+
+    UPDATE email_outbox
+    SET status = 'pending',
+        attempts = 0,
+        next_attempt_at = NOW(),
+        last_error = NULL
+    WHERE id = p_email_id;
+
+    PERFORM log_admin_action(
+        'email_retried',
+        'email_outbox',
+        p_email_id,
+        jsonb_build_object('status', v_email.status, 'attempts', v_email.attempts, 'last_error', v_email.last_error),
+        jsonb_build_object('status', 'pending'),
+        format('Re-queued %s email to %s', v_email.template, v_email.to_email)
+    );
+
+    RETURN QUERY SELECT true, 'Email queued again'::TEXT;
+END;
+$$;
+
+-- =====================================================
+-- BOOKINGS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_email_booking_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_booking RECORD;
+    v_slot RECORD;
+BEGIN
+    -- Deferred: act on the booking as it is at commit
+    SELECT b.id, b.student_id, b.status, b.cancelled_reason, p.full_name, p.email
+    INTO v_booking
+    FROM bookings b
+    JOIN profiles p ON p.id = b.student_id
+    WHERE b.id = NEW.id;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT es.start_time, es.end_time, COALESCE(es.location, es.room_number) AS location,
+           c.company_name, o.title AS offer_title, e.name AS event_name
+    INTO v_slot
+    FROM event_slots es
+    JOIN companies c ON c.id = es.company_id
+    LEFT JOIN offers o ON o.id = es.offer_id
+    LEFT JOIN events e ON e.id = es.event_id
+    WHERE es.id = NEW.slot_id;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    IF v_booking.status = 'confirmed'
+       AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'confirmed') THEN
+        PERFORM fn_enqueue_email(
+            'booking_confirmation',
+            v_booking.email,
+            jsonb_build_object(
+                'studentName', v_booking.full_name,
+                'companyName', v_slot.company_name,
+                'offerTitle', v_slot.offer_title,
+                'eventName', v_slot.event_name,
+                'startTime', v_slot.start_time,
+                'endTime', v_slot.end_time,
+                'location', v_slot.location
+            ),
+            v_booking.student_id
+        );
+    ELSIF v_booking.status = 'cancelled'
+          AND TG_OP = 'UPDATE'
+          AND OLD.status = 'confirmed'
+          -- The student knows they cancelled
+          AND auth.uid() IS DISTINCT FROM v_booking.student_id THEN
+        PERFORM fn_enqueue_email(
+            'booking_cancellation',
+            v_booking.email,
+            jsonb_build_object(
+                'studentName', v_booking.full_name,
+                'companyName', v_slot.company_name,
+                'offerTitle', v_slot.offer_title,
+                'startTime', v_slot.start_time,
+                'reason', v_booking.cancelled_reason
+            ),
+            v_booking.student_id
+        );
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_email_booking_change ON bookings;
+CREATE CONSTRAINT TRIGGER trg_email_booking_change
+    AFTER INSERT OR UPDATE OF status ON bookings
+    DEFERRABLE INITIALLY DEFERRED
+    FOR EACH ROW
+    EXECUTE FUNCTION fn_email_booking_change();
+
+-- =====================================================
+-- COMPANIES
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_email_company_verification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_company RECORD;
+BEGIN
+    SELECT c.id, c.company_name, c.verification_status, c.rejection_reason, c.profile_id,
+           COALESCE(p.email, c.contact_email, c.email) AS email
+    INTO v_company
+    FROM companies c
+    LEFT JOIN profiles p ON p.id = c.profile_id
+    WHERE c.id = NEW.id;
+
+    -- Changed again before commit
+    IF NOT FOUND OR v_company.verification_status IS DISTINCT FROM NEW.verification_status THEN
+        RETURN NULL;
+    END IF;
+
+    IF v_company.verification_status = 'verified' THEN
+        PERFORM fn_enqueue_email(
+            'company_verified',
+            v_company.email,
+            jsonb_build_object('companyName', v_company.company_name),
+            v_company.profile_id
+        );
+    ELSIF v_company.verification_status = 'rejected' THEN
+        PERFORM fn_enqueue_email(
+            'company_rejected',
+            v_company.email,
+            jsonb_build_object(
+                'companyName', v_company.company_name,
+                'reason', v_company.rejection_reason
+            ),
+            v_company.profile_id
+        );
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_email_company_verification ON companies;
+CREATE CONSTRAINT TRIGGER trg_email_company_verification
+    AFTER UPDATE OF verification_status ON companies
+    DEFERRABLE INITIALLY DEFERRED
+    FOR EACH ROW
+    WHEN (OLD.verification_status IS DISTINCT FROM NEW.verification_status
+          AND NEW.verification_status IN ('verified', 'rejected'))
+    EXECUTE FUNCTION fn_email_company_verification();
+
+-- =====================================================
+-- EVENTS
+-- =====================================================
+
+-- Covers manual and scheduled phase changes alike
+CREATE OR REPLACE FUNCTION fn_email_phase_opened()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_phase_name TEXT;
+BEGIN
+    SELECT ep.name INTO v_phase_name
+    FROM event_phases ep
+    WHERE ep.event_id = NEW.id
+      AND ep.phase_number = NEW.current_phase;
+
+    -- Unconfigured phases take no bookings
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    PERFORM fn_enqueue_email(
+        'phase_opened',
+        p.email,
+        jsonb_build_object(
+            'studentName', p.full_name,
+            'eventName', NEW.name,
+            'phaseNumber', NEW.current_phase,
+            'phaseName', v_phase_name
+        ),
+        p.id,
+        format('phase_opened:%s:%s:%s', NEW.id, NEW.current_phase, p.id)
+    )
+    FROM profiles p
+    WHERE p.role = 'student'
+      AND (SELECT el.eligible FROM fn_check_phase_eligibility(p.id, NEW.id, NEW.current_phase) el);
+
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_email_phase_opened ON events;
+CREATE CONSTRAINT TRIGGER trg_email_phase_opened
+    AFTER UPDATE OF current_phase ON events
+    DEFERRABLE INITIALLY DEFERRED
+    FOR EACH ROW
+    WHEN (NEW.is_active AND COALESCE(NEW.current_phase, 0) > 0
+          AND OLD.current_phase IS DISTINCT FROM NEW.current_phase)
+    EXECUTE FUNCTION fn_email_phase_opened();
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION fn_enqueue_email(TEXT, TEXT, JSONB, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION fn_claim_email_batch(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION fn_complete_email(UUID, BOOLEAN, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION fn_enqueue_email(TEXT, TEXT, JSONB, UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION fn_claim_email_batch(INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION fn_complete_email(UUID, BOOLEAN, TEXT, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION fn_retry_email(UUID) TO authenticated;
+
+COMMENT ON FUNCTION fn_enqueue_email IS
+    'Internal. Queues a templated email; a repeated dedupe key is ignored.';
+COMMENT ON FUNCTION fn_claim_email_batch IS
+    'Service role. Marks due emails as sending and returns them to the send-email function.';
+COMMENT ON FUNCTION fn_complete_email IS
+    'Service role. Records a delivery attempt and schedules the next retry with exponential backoff.';
+COMMENT ON FUNCTION fn_retry_email IS
+    'Admin only. Queues a failed email again with a fresh set of attempts.';
+COMMENT ON FUNCTION fn_email_booking_change IS
+    'Deferred trigger. Queues booking confirmation and cancellation emails for the student.';
+COMMENT ON FUNCTION fn_email_company_verification IS
+    'Deferred trigger. Queues the company verified or rejected email.';
+COMMENT ON FUNCTION fn_email_phase_opened IS
+    'Deferred trigger. Queues phase opened emails for eligible students.';
@@ -0,0 +1,163 @@
+-- Migration: Interview Reminders
+-- Created: 2026-01-22
+-- Description: Reminds students of their confirmed interviews a configurable
+-- time before the slot starts (24 hours and 30 minutes by default), with an
+-- in-app notification and an email. Lead times are set per event. Each
+-- reminder is recorded in booking_reminders so it goes out only once per
+-- booking; a moved interview is reminded again for its new time.
+
+-- =====================================================
+-- EVENT SETTINGS
+-- =====================================================
+
+ALTER TABLE events
+    ADD COLUMN IF NOT EXISTS reminder_lead_minutes INTEGER[] NOT NULL DEFAULT ARRAY[1440, 30];
+
+ALTER TABLE events DROP CONSTRAINT IF EXISTS events_reminder_lead_minutes_check;
+ALTER TABLE events ADD CONSTRAINT events_reminder_lead_minutes_check
+    CHECK (
+        cardinality(reminder_lead_minutes) <= 5
+        AND 15 <= ALL (reminder_lead_minutes)
+        AND 10080 >= ALL (reminder_lead_minutes)
+    );
+
+COMMENT ON COLUMN events.reminder_lead_minutes IS
+    'Minutes before a confirmed interview at which the student is reminded (15 minutes to 7 days, empty = no reminders)';
+
+-- =====================================================
+-- SENT REMINDERS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS booking_reminders (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+    lead_minutes INTEGER NOT NULL,
+    -- Slot start the reminder was for; a moved interview is reminded again
+    slot_start_time TIMESTAMPTZ NOT NULL,
+    sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (booking_id, lead_minutes, slot_start_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_reminders_booking ON booking_reminders(booking_id);
+
+ALTER TABLE booking_reminders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view booking reminders" ON booking_reminders;
+CREATE POLICY "Admins can view booking reminders" ON booking_reminders
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+    );
+
+COMMENT ON TABLE booking_reminders IS 'Interview reminders already sent, one per booking, lead time and slot time';
+
+-- =====================================================
+-- SEND REMINDERS
+-- =====================================================
+
+-- A reminder is due once the slot is less than its lead time away. Bookings
+-- made after that point skip it, and when several lead times are due at once
+-- only the closest one is sent.
+CREATE OR REPLACE FUNCTION fn_send_interview_reminders()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_due RECORD;
+    v_when TEXT;
+    v_count INTEGER := 0;
+BEGIN
+    FOR v_due IN
+        SELECT DISTINCT ON (b.id)
+            b.id AS booking_id,
+            b.student_id,
+            p.full_name,
+            p.email,
+            lead.minutes AS lead_minutes,
+            es.start_time,
+            c.company_name,
+            o.title AS offer_title,
+            e.name AS event_name,
+            NULLIF(concat_ws(', ',
+                NULLIF(es.location, ''),
+                'Room ' || NULLIF(es.room_number, ''),
+                'Booth ' || NULLIF(ep.booth_location, '')), '') AS location
+        FROM bookings b
+        JOIN profiles p ON p.id = b.student_id
+        JOIN event_slots es ON es.id = b.slot_id
+        JOIN events e ON e.id = es.event_id
+        JOIN companies c ON c.id = es.company_id
+        LEFT JOIN offers o ON o.id = es.offer_id
+        LEFT JOIN event_participants ep ON ep.event_id = e.id AND ep.company_id = es.company_id
+        CROSS JOIN LATERAL unnest(e.reminder_lead_minutes) AS lead(minutes)
+        WHERE b.status = 'confirmed'
+          AND es.start_time > NOW()
+          AND es.start_time - make_interval(mins => lead.minutes) <= NOW()
+          AND b.created_at <= es.start_time - make_interval(mins => lead.minutes)
+          AND NOT EXISTS (
+              SELECT 1 FROM booking_reminders br
+              WHERE br.booking_id = b.id
+                AND br.lead_minutes = lead.minutes
+                AND br.slot_start_time = es.start_time
+          )
+        ORDER BY b.id, lead.minutes
+    LOOP
+        -- Longer lead times that are also due are covered by this reminder
+        INSERT INTO booking_reminders (booking_id, lead_minutes, slot_start_time)
+        SELECT v_due.booking_id, lead.minutes, v_due.start_time
+        FROM events e
+        JOIN event_slots es ON es.event_id = e.id
+        JOIN bookings b ON b.slot_id = es.id
+        CROSS JOIN LATERAL unnest(e.reminder_lead_minutes) AS lead(minutes)
+        WHERE b.id = v_due.booking_id
+          AND lead.minutes >= v_due.lead_minutes
+        ON CONFLICT (booking_id, lead_minutes, slot_start_time) DO NOTHING;
+
+        v_when := to_char(v_due.start_time, 'DD/MM/YYYY HH24:MI');
+
+        INSERT INTO notifications (user_id, title, message, type, action_url)
+        VALUES (
+            v_due.student_id,
+            'Interview Reminder',
+            format('Your interview with %s%s is on %s%s.',
+                v_due.company_name,
+                COALESCE(' for ' || v_due.offer_title, ''),
+                v_when,
+                COALESCE(' (' || v_due.location || ')', '')),
+            'interview_reminder',
+            '/student/bookings'
+        );
+
+        PERFORM fn_enqueue_email(
+            'interview_reminder',
+            v_due.email,
+            jsonb_build_object(
+                'studentName', v_due.full_name,
+                'companyName', v_due.company_name,
+                'offerTitle', v_due.offer_title,
+                'eventName', v_due.event_name,
+                'startTime', v_due.start_time,
+                'location', v_due.location
+            ),
+            v_due.student_id,
+            format('interview_reminder:%s:%s:%s',
+                v_due.booking_id, v_due.lead_minutes, extract(epoch FROM v_due.start_time)::BIGINT)
+        );
+
+        v_count := v_count + 1;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION fn_send_interview_reminders() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION fn_send_interview_reminders() TO service_role;
+
+COMMENT ON FUNCTION fn_send_interview_reminders IS
+    'Service role. Sends due interview reminders (notification and email) and returns how many were sent.';
@@ -0,0 +1,222 @@
+-- Migration: Announcements
+-- Created: 2026-01-23
+-- Description: Admin announcements shown as a dismissible banner in the
+-- student, company and admin layouts. Each announcement targets an audience
+-- (everyone, students, companies, one event's participants or deprioritized
+-- students), runs between a start and an optional end, and can also be
+-- emailed. Replaces event_config.announcement_message, which was never shown;
+-- an existing message is carried over as an announcement to everyone.
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS announcements (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    title TEXT NOT NULL CHECK (length(btrim(title)) BETWEEN 1 AND 120),
+    message TEXT NOT NULL CHECK (length(btrim(message)) BETWEEN 1 AND 2000),
+    audience TEXT NOT NULL DEFAULT 'all'
+        CHECK (audience IN ('all', 'students', 'companies', 'event_participants', 'deprioritized_students')),
+    event_id UUID REFERENCES events(id) ON DELETE CASCADE,
+    severity TEXT NOT NULL DEFAULT 'info' CHECK (severity IN ('info', 'warning', 'urgent')),
+    starts_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    ends_at TIMESTAMPTZ,
+    send_email BOOLEAN NOT NULL DEFAULT false,
+    emailed_at TIMESTAMPTZ,
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT announcements_event_audience CHECK ((audience = 'event_participants') = (event_id IS NOT NULL)),
+    CONSTRAINT announcements_valid_window CHECK (ends_at IS NULL OR ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_announcements_window ON announcements(starts_at, ends_at);
+
+CREATE TRIGGER update_announcements_updated_at BEFORE UPDATE ON announcements
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS announcement_dismissals (
+    announcement_id UUID NOT NULL REFERENCES announcements(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    dismissed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (announcement_id, user_id)
+);
+
+ALTER TABLE announcements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE announcement_dismissals ENABLE ROW LEVEL SECURITY;
+
+-- Everyone else reads their announcements through fn_get_my_announcements
+DROP POLICY IF EXISTS "Admins can manage announcements" ON announcements;
+CREATE POLICY "Admins can manage announcements" ON announcements
+    FOR ALL USING (
+        EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+    );
+
+DROP POLICY IF EXISTS "Users can view own dismissals" ON announcement_dismissals;
+CREATE POLICY "Users can view own dismissals" ON announcement_dismissals
+    FOR SELECT USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can dismiss announcements" ON announcement_dismissals;
+CREATE POLICY "Users can dismiss announcements" ON announcement_dismissals
+    FOR INSERT WITH CHECK (user_id = auth.uid());
+
+COMMENT ON TABLE announcements IS 'Admin announcements shown as a banner to their audience between starts_at and ends_at';
+COMMENT ON TABLE announcement_dismissals IS 'Announcements a user has dismissed';
+
+-- =====================================================
+-- AUDIENCE
+-- =====================================================
+
+-- Event participants are the students booked at the event and its companies
+CREATE OR REPLACE FUNCTION fn_announcement_audience_includes(
+    p_audience TEXT,
+    p_event_id UUID,
+    p_user_id UUID
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT CASE p_audience
+        WHEN 'all' THEN
+            EXISTS (SELECT 1 FROM profiles p WHERE p.id = p_user_id)
+        WHEN 'students' THEN
+            EXISTS (SELECT 1 FROM profiles p WHERE p.id = p_user_id AND p.role = 'student')
+        WHEN 'companies' THEN
+            EXISTS (SELECT 1 FROM profiles p WHERE p.id = p_user_id AND p.role = 'company')
+        WHEN 'deprioritized_students' THEN
+            EXISTS (SELECT 1 FROM profiles p WHERE p.id = p_user_id AND p.role = 'student' AND p.is_deprioritized)
+        WHEN 'event_participants' THEN
+            EXISTS (
+                SELECT 1
+                FROM bookings b
+                JOIN event_slots es ON es.id = b.slot_id
+                WHERE es.event_id = p_event_id
+                  AND b.student_id = p_user_id
+                  AND b.status = 'confirmed'
+            )
+            OR EXISTS (
+                SELECT 1
+                FROM event_participants ep
+                JOIN companies c ON c.id = ep.company_id
+                WHERE ep.event_id = p_event_id
+                  AND c.profile_id = p_user_id
+            )
+        ELSE false
+    END;
+$$;
+
+CREATE OR REPLACE FUNCTION fn_get_my_announcements()
+RETURNS TABLE(
+    id UUID,
+    title TEXT,
+    message TEXT,
+    severity TEXT,
+    starts_at TIMESTAMPTZ,
+    ends_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT a.id, a.title, a.message, a.severity, a.starts_at, a.ends_at
+    FROM announcements a
+    WHERE a.starts_at <= NOW()
+      AND (a.ends_at IS NULL OR a.ends_at > NOW())
+      AND fn_announcement_audience_includes(a.audience, a.event_id, auth.uid())
+      AND NOT EXISTS (
+          SELECT 1 FROM announcement_dismissals d
+          WHERE d.announcement_id = a.id AND d.user_id = auth.uid()
+      )
+    ORDER BY
+        CASE a.severity WHEN 'urgent' THEN 0 WHEN 'warning' THEN 1 ELSE 2 END,
+        a.starts_at DESC;
+$$;
+
+-- =====================================================
+-- EMAIL
+-- =====================================================
+
+-- Emails go out once, at the first scheduled run after the announcement starts
+CREATE OR REPLACE FUNCTION fn_send_due_announcement_emails()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_announcement RECORD;
+    v_event_name TEXT;
+    v_queued INTEGER;
+    v_count INTEGER := 0;
+BEGIN
+    FOR v_announcement IN
+        SELECT a.*
+        FROM announcements a
+        WHERE a.send_email
+          AND a.emailed_at IS NULL
+          AND a.starts_at <= NOW()
+          AND (a.ends_at IS NULL OR a.ends_at > NOW())
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        SELECT e.name INTO v_event_name FROM events e WHERE e.id = v_announcement.event_id;
+
+        WITH queued AS (
+            SELECT fn_enqueue_email(
+                'announcement',
+                p.email,
+                jsonb_build_object(
+                    'recipientName', p.full_name,
+                    'title', v_announcement.title,
+                    'message', v_announcement.message,
+                    'severity', v_announcement.severity,
+                    'eventName', v_event_name
+                ),
+                p.id,
+                format('announcement:%s:%s', v_announcement.id, p.id)
+            ) AS email_id
+            FROM profiles p
+            WHERE fn_announcement_audience_includes(v_announcement.audience, v_announcement.event_id, p.id)
+        )
+        SELECT COUNT(email_id) INTO v_queued FROM queued;
+
+        UPDATE announcements SET emailed_at = NOW() WHERE id = v_announcement.id;
+        v_count := v_count + v_queued;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$;
+
+-- =====================================================
+-- LEGACY MESSAGE
+-- =====================================================
+
+INSERT INTO announcements (title, message, audience)
+SELECT 'Announcement', btrim(ec.announcement_message), 'all'
+FROM event_config ec
+WHERE ec.id = 1
+  AND NULLIF(btrim(ec.announcement_message), '') IS NOT NULL
+  AND length(btrim(ec.announcement_message)) <= 2000;
+
+COMMENT ON COLUMN event_config.announcement_message IS
+    'Deprecated. Superseded by the announcements table; the value at migration time was copied there.';
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION fn_announcement_audience_includes(TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION fn_send_due_announcement_emails() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION fn_send_due_announcement_emails() TO service_role;
+GRANT EXECUTE ON FUNCTION fn_get_my_announcements() TO authenticated;
+
+COMMENT ON FUNCTION fn_announcement_audience_includes IS
+    'Internal. Whether a user belongs to an announcement audience.';
+COMMENT ON FUNCTION fn_get_my_announcements IS
+    'Active announcements for the current user that they have not dismissed, most urgent first.';
+COMMENT ON FUNCTION fn_send_due_announcement_emails IS
+    'Service role. Queues the emails of announcements that have started and returns how many were queued.';
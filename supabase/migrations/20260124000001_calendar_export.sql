@@ -0,0 +1,242 @@
+-- Migration: Calendar Export
+-- Created: 2026-01-24
+-- Description: Interviews as calendar entries, for .ics downloads in the app
+-- and for a tokenized read-only feed served by the calendar-feed edge
+-- function. Students get their bookings (cancelled ones stay in the feed as
+-- cancelled so calendars remove them), companies their interview slots with
+-- the booked students. Events get a timezone, in which the entries are
+-- written.
+
+-- =====================================================
+-- EVENT TIMEZONE
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_is_valid_timezone(p_timezone TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone);
+$$;
+
+ALTER TABLE events
+    ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'Africa/Casablanca';
+
+ALTER TABLE events DROP CONSTRAINT IF EXISTS events_timezone_check;
+ALTER TABLE events ADD CONSTRAINT events_timezone_check
+    CHECK (fn_is_valid_timezone(timezone));
+
+COMMENT ON COLUMN events.timezone IS 'IANA timezone the event takes place in, e.g. Africa/Casablanca';
+
+-- =====================================================
+-- FEED TOKENS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS calendar_feed_tokens (
+    user_id UUID PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+    token TEXT NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(24), 'hex'),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    last_used_at TIMESTAMPTZ
+);
+
+ALTER TABLE calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Tokens are created and reset through the functions below
+DROP POLICY IF EXISTS "Users can view own calendar feed token" ON calendar_feed_tokens;
+CREATE POLICY "Users can view own calendar feed token" ON calendar_feed_tokens
+    FOR SELECT USING (user_id = auth.uid());
+
+COMMENT ON TABLE calendar_feed_tokens IS 'Secret token of each user''s read-only calendar feed';
+
+CREATE OR REPLACE FUNCTION fn_get_calendar_feed_token(p_reset BOOLEAN DEFAULT false)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_token TEXT;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    IF p_reset THEN
+        DELETE FROM calendar_feed_tokens WHERE user_id = auth.uid();
+    END IF;
+
+    INSERT INTO calendar_feed_tokens (user_id)
+    VALUES (auth.uid())
+    ON CONFLICT (user_id) DO NOTHING;
+
+    SELECT token INTO v_token FROM calendar_feed_tokens WHERE user_id = auth.uid();
+    RETURN v_token;
+END;
+$$;
+
+-- =====================================================
+-- CALENDAR ENTRIES
+-- =====================================================
+
+-- uid stays the same across reschedules so calendars update the entry
+CREATE OR REPLACE FUNCTION fn_calendar_entries(
+    p_user_id UUID,
+    p_booking_id UUID DEFAULT NULL,
+    p_event_id UUID DEFAULT NULL,
+    p_since TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE(
+    uid TEXT,
+    summary TEXT,
+    description TEXT,
+    location TEXT,
+    start_time TIMESTAMPTZ,
+    end_time TIMESTAMPTZ,
+    status TEXT,
+    timezone TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    -- Student: own bookings
+    SELECT
+        'booking-' || b.id::TEXT,
+        'Interview with ' || c.company_name,
+        concat_ws(E'\n',
+            o.title,
+            e.name,
+            CASE WHEN b.status = 'cancelled'
+                 THEN 'Cancelled' || COALESCE(': ' || b.cancelled_reason, '') END),
+        NULLIF(concat_ws(', ',
+            NULLIF(es.location, ''),
+            'Room ' || NULLIF(es.room_number, ''),
+            'Booth ' || NULLIF(ep.booth_location, '')), ''),
+        es.start_time,
+        es.end_time,
+        CASE WHEN b.status = 'confirmed' THEN 'CONFIRMED' ELSE 'CANCELLED' END,
+        COALESCE(e.timezone, 'Africa/Casablanca')
+    FROM bookings b
+    JOIN profiles p ON p.id = b.student_id AND p.role = 'student'
+    JOIN event_slots es ON es.id = b.slot_id
+    JOIN companies c ON c.id = es.company_id
+    LEFT JOIN offers o ON o.id = es.offer_id
+    LEFT JOIN events e ON e.id = es.event_id
+    LEFT JOIN event_participants ep ON ep.event_id = es.event_id AND ep.company_id = es.company_id
+    WHERE b.student_id = p_user_id
+      AND (p_booking_id IS NULL OR b.id = p_booking_id)
+      AND (p_event_id IS NULL OR es.event_id = p_event_id)
+      AND (p_since IS NULL OR es.start_time >= p_since)
+
+    UNION ALL
+
+    -- Company: own interview slots with the booked students
+    SELECT
+        'slot-' || es.id::TEXT,
+        CASE WHEN COUNT(b.id) = 0
+             THEN 'Open interview slot'
+             ELSE 'Interview: ' || string_agg(sp.full_name, ', ' ORDER BY sp.full_name) END,
+        concat_ws(E'\n',
+            o.title,
+            e.name,
+            string_agg(sp.full_name || ' <' || sp.email || '>', E'\n' ORDER BY sp.full_name)),
+        NULLIF(concat_ws(', ',
+            NULLIF(es.location, ''),
+            'Room ' || NULLIF(es.room_number, ''),
+            'Booth ' || NULLIF(ep.booth_location, '')), ''),
+        es.start_time,
+        es.end_time,
+        CASE WHEN es.is_active THEN 'CONFIRMED' ELSE 'CANCELLED' END,
+        COALESCE(e.timezone, 'Africa/Casablanca')
+    FROM event_slots es
+    JOIN companies c ON c.id = es.company_id AND c.profile_id = p_user_id
+    LEFT JOIN offers o ON o.id = es.offer_id
+    LEFT JOIN events e ON e.id = es.event_id
+    LEFT JOIN event_participants ep ON ep.event_id = es.event_id AND ep.company_id = es.company_id
+    LEFT JOIN bookings b ON b.slot_id = es.id AND b.status = 'confirmed'
+    LEFT JOIN profiles sp ON sp.id = b.student_id
+    WHERE p_booking_id IS NULL
+      AND (p_event_id IS NULL OR es.event_id = p_event_id)
+      AND (p_since IS NULL OR es.start_time >= p_since)
+    GROUP BY es.id, o.title, e.name, e.timezone, ep.booth_location
+
+    ORDER BY 5;
+$$;
+
+CREATE OR REPLACE FUNCTION fn_get_my_calendar_entries(
+    p_booking_id UUID DEFAULT NULL,
+    p_event_id UUID DEFAULT NULL
+)
+RETURNS TABLE(
+    uid TEXT,
+    summary TEXT,
+    description TEXT,
+    location TEXT,
+    start_time TIMESTAMPTZ,
+    end_time TIMESTAMPTZ,
+    status TEXT,
+    timezone TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT * FROM fn_calendar_entries(auth.uid(), p_booking_id, p_event_id, NULL);
+$$;
+
+-- The feed keeps the last 90 days so recently cancelled interviews disappear
+-- from calendars
+CREATE OR REPLACE FUNCTION fn_get_calendar_feed(p_token TEXT)
+RETURNS TABLE(
+    uid TEXT,
+    summary TEXT,
+    description TEXT,
+    location TEXT,
+    start_time TIMESTAMPTZ,
+    end_time TIMESTAMPTZ,
+    status TEXT,
+    timezone TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID;
+BEGIN
+    UPDATE calendar_feed_tokens
+    SET last_used_at = NOW()
+    WHERE token = p_token
+    RETURNING user_id INTO v_user_id;
+
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Invalid calendar feed token' USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN QUERY
+    SELECT * FROM fn_calendar_entries(v_user_id, NULL, NULL, NOW() - INTERVAL '90 days');
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION fn_calendar_entries(UUID, UUID, UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION fn_get_calendar_feed(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION fn_get_calendar_feed(TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION fn_get_calendar_feed_token(BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_get_my_calendar_entries(UUID, UUID) TO authenticated;
+
+COMMENT ON FUNCTION fn_is_valid_timezone IS
+    'Whether the name is a timezone PostgreSQL knows, e.g. Africa/Casablanca.';
+COMMENT ON FUNCTION fn_get_calendar_feed_token IS
+    'Returns the current user''s calendar feed token, creating it or replacing it (p_reset) as needed.';
+COMMENT ON FUNCTION fn_calendar_entries IS
+    'Internal. Calendar entries of a student (bookings) or company (interview slots).';
+COMMENT ON FUNCTION fn_get_my_calendar_entries IS
+    'Calendar entries of the current user, optionally for one booking or one event.';
+COMMENT ON FUNCTION fn_get_calendar_feed IS
+    'Service role. Calendar entries behind a feed token, used by the calendar-feed edge function.';
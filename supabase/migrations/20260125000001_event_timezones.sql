@@ -0,0 +1,827 @@
+-- Migration: Event Timezones
+-- Created: 2026-01-25
+-- Description: Interview times in notifications (booking, reminder, waitlist,
+-- reschedule and regeneration messages), emails and the student bookings
+-- list follow the event's timezone (events.timezone, added with the
+-- calendar export) instead of the database's UTC. The admin pages enter and
+-- show session, slot, phase and schedule times in that zone too; that part
+-- is client-side.
+
+-- =====================================================
+-- FORMATTING
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_format_event_time(p_time TIMESTAMPTZ, p_timezone TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT to_char(p_time AT TIME ZONE COALESCE(p_timezone, 'Africa/Casablanca'), 'DD/MM/YYYY HH24:MI');
+$$;
+
+-- =====================================================
+-- STUDENT BOOKINGS
+-- =====================================================
+
+-- Adds the event and its timezone
+DROP FUNCTION IF EXISTS fn_get_student_bookings(UUID);
+
+CREATE OR REPLACE FUNCTION fn_get_student_bookings(
+    p_student_id UUID
+)
+RETURNS TABLE (
+    booking_id UUID,
+    slot_id UUID,
+    slot_time TIMESTAMPTZ,
+    offer_title TEXT,
+    company_name TEXT,
+    event_name TEXT,
+    status TEXT,
+    notes TEXT,
+    can_cancel BOOLEAN,
+    event_id UUID,
+    event_timezone TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        b.id as booking_id,
+        b.slot_id,
+        es.start_time as slot_time,
+        COALESCE(o.title, 'Unknown Offer') as offer_title,
+        c.company_name,
+        e.name as event_name,
+        b.status::TEXT,
+        b.student_notes as notes,
+        (es.start_time > NOW() + INTERVAL '24 hours' AND b.status = 'confirmed') as can_cancel,
+        e.id as event_id,
+        e.timezone as event_timezone
+    FROM bookings b
+    JOIN event_slots es ON es.id = b.slot_id
+    LEFT JOIN offers o ON o.id = es.offer_id
+    JOIN companies c ON c.id = es.company_id
+    JOIN events e ON e.id = es.event_id
+    WHERE b.student_id = p_student_id
+    ORDER BY es.start_time DESC;
+END;
+$$;
+
+-- =====================================================
+-- NOTIFICATIONS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_notify_booking_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_booking RECORD;
+    v_slot RECORD;
+    v_when TEXT;
+BEGIN
+    -- Deferred: act on the booking as it is at commit
+    SELECT b.id, b.student_id, b.status, b.cancelled_reason, p.full_name AS student_name
+    INTO v_booking
+    FROM bookings b
+    JOIN profiles p ON p.id = b.student_id
+    WHERE b.id = NEW.id;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT es.start_time, c.company_name, c.profile_id AS company_profile_id, o.title AS offer_title,
+           e.timezone
+    INTO v_slot
+    FROM event_slots es
+    JOIN companies c ON c.id = es.company_id
+    LEFT JOIN offers o ON o.id = es.offer_id
+    LEFT JOIN events e ON e.id = es.event_id
+    WHERE es.id = NEW.slot_id;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    v_when := fn_format_event_time(v_slot.start_time, v_slot.timezone);
+
+    IF v_booking.status = 'confirmed'
+       AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'confirmed') THEN
+        -- Lottery allocations are summarised in one 'lottery_result' notification
+        IF EXISTS (SELECT 1 FROM lottery_allocations la WHERE la.booking_id = v_booking.id) THEN
+            RETURN NULL;
+        END IF;
+
+        IF NOT fn_notified_in_transaction(v_booking.student_id, ARRAY['waitlist_promoted', 'booking_confirmed']) THEN
+            INSERT INTO notifications (user_id, title, message, type, action_url)
+            VALUES (
+                v_booking.student_id,
+                'Booking Confirmed',
+                format('Your interview with %s%s is confirmed for %s',
+                    v_slot.company_name,
+                    COALESCE(' for ' || v_slot.offer_title, ''),
+                    v_when),
+                'booking_confirmed',
+                '/student/bookings'
+            );
+        END IF;
+
+        IF v_slot.company_profile_id IS NOT NULL THEN
+            INSERT INTO notifications (user_id, title, message, type, action_url)
+            VALUES (
+                v_slot.company_profile_id,
+                'New Booking',
+                format('%s booked an interview for %s', v_booking.student_name, v_when),
+                'new_booking',
+                '/company/slots'
+            );
+        END IF;
+    ELSIF v_booking.status = 'cancelled'
+          AND TG_OP = 'UPDATE'
+          AND OLD.status = 'confirmed' THEN
+        -- The student knows they cancelled; fn_apply_session_regeneration
+        -- sends its own explanation
+        IF auth.uid() IS DISTINCT FROM v_booking.student_id
+           AND NOT fn_notified_in_transaction(v_booking.student_id, ARRAY['booking_cancelled']) THEN
+            INSERT INTO notifications (user_id, title, message, type, action_url)
+            VALUES (
+                v_booking.student_id,
+                'Interview Cancelled',
+                format('Your interview with %s on %s was cancelled.%s You can book another slot.',
+                    v_slot.company_name,
+                    v_when,
+                    COALESCE(' Reason: ' || v_booking.cancelled_reason || '.', '')),
+                'booking_cancelled',
+                '/student/offers'
+            );
+        END IF;
+
+        IF v_slot.company_profile_id IS NOT NULL
+           AND auth.uid() IS DISTINCT FROM v_slot.company_profile_id THEN
+            INSERT INTO notifications (user_id, title, message, type, action_url)
+            VALUES (
+                v_slot.company_profile_id,
+                'Booking Cancelled',
+                format('The interview with %s on %s was cancelled.', v_booking.student_name, v_when),
+                'booking_cancelled',
+                '/company/slots'
+            );
+        END IF;
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION fn_notify_slot_changed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO notifications (user_id, title, message, type, action_url)
+    SELECT
+        b.student_id,
+        'Interview Details Changed',
+        format('Your interview with %s is now on %s%s.',
+            c.company_name,
+            fn_format_event_time(es.start_time, e.timezone),
+            COALESCE(' at ' || es.location, '')),
+        'slot_changed',
+        '/student/bookings'
+    FROM event_slots es
+    JOIN companies c ON c.id = es.company_id
+    LEFT JOIN events e ON e.id = es.event_id
+    JOIN bookings b ON b.slot_id = es.id AND b.status = 'confirmed'
+    WHERE es.id = NEW.id
+      AND NOT fn_notified_in_transaction(b.student_id, ARRAY['booking_moved', 'slot_changed']);
+
+    RETURN NULL;
+END;
+$$;
+
+-- =====================================================
+-- EMAILS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_email_booking_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_booking RECORD;
+    v_slot RECORD;
+BEGIN
+    -- Deferred: act on the booking as it is at commit
+    SELECT b.id, b.student_id, b.status, b.cancelled_reason, p.full_name, p.email
+    INTO v_booking
+    FROM bookings b
+    JOIN profiles p ON p.id = b.student_id
+    WHERE b.id = NEW.id;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT es.start_time, es.end_time, COALESCE(es.location, es.room_number) AS location,
+           c.company_name, o.title AS offer_title, e.name AS event_name,
+           COALESCE(e.timezone, 'Africa/Casablanca') AS timezone
+    INTO v_slot
+    FROM event_slots es
+    JOIN companies c ON c.id = es.company_id
+    LEFT JOIN offers o ON o.id = es.offer_id
+    LEFT JOIN events e ON e.id = es.event_id
+    WHERE es.id = NEW.slot_id;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    IF v_booking.status = 'confirmed'
+       AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'confirmed') THEN
+        PERFORM fn_enqueue_email(
+            'booking_confirmation',
+            v_booking.email,
+            jsonb_build_object(
+                'studentName', v_booking.full_name,
+                'companyName', v_slot.company_name,
+                'offerTitle', v_slot.offer_title,
+                'eventName', v_slot.event_name,
+                'startTime', v_slot.start_time,
+                'endTime', v_slot.end_time,
+                'location', v_slot.location,
+                'timeZone', v_slot.timezone
+            ),
+            v_booking.student_id
+        );
+    ELSIF v_booking.status = 'cancelled'
+          AND TG_OP = 'UPDATE'
+          AND OLD.status = 'confirmed'
+          -- The student knows they cancelled
+          AND auth.uid() IS DISTINCT FROM v_booking.student_id THEN
+        PERFORM fn_enqueue_email(
+            'booking_cancellation',
+            v_booking.email,
+            jsonb_build_object(
+                'studentName', v_booking.full_name,
+                'companyName', v_slot.company_name,
+                'offerTitle', v_slot.offer_title,
+                'startTime', v_slot.start_time,
+                'reason', v_booking.cancelled_reason,
+                'timeZone', v_slot.timezone
+            ),
+            v_booking.student_id
+        );
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+-- =====================================================
+-- REMINDERS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_send_interview_reminders()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_due RECORD;
+    v_when TEXT;
+    v_count INTEGER := 0;
+BEGIN
+    FOR v_due IN
+        SELECT DISTINCT ON (b.id)
+            b.id AS booking_id,
+            b.student_id,
+            p.full_name,
+            p.email,
+            lead.minutes AS lead_minutes,
+            es.start_time,
+            c.company_name,
+            o.title AS offer_title,
+            e.name AS event_name,
+            e.timezone,
+            NULLIF(concat_ws(', ',
+                NULLIF(es.location, ''),
+                'Room ' || NULLIF(es.room_number, ''),
+                'Booth ' || NULLIF(ep.booth_location, '')), '') AS location
+        FROM bookings b
+        JOIN profiles p ON p.id = b.student_id
+        JOIN event_slots es ON es.id = b.slot_id
+        JOIN events e ON e.id = es.event_id
+        JOIN companies c ON c.id = es.company_id
+        LEFT JOIN offers o ON o.id = es.offer_id
+        LEFT JOIN event_participants ep ON ep.event_id = e.id AND ep.company_id = es.company_id
+        CROSS JOIN LATERAL unnest(e.reminder_lead_minutes) AS lead(minutes)
+        WHERE b.status = 'confirmed'
+          AND es.start_time > NOW()
+          AND es.start_time - make_interval(mins => lead.minutes) <= NOW()
+          AND b.created_at <= es.start_time - make_interval(mins => lead.minutes)
+          AND NOT EXISTS (
+              SELECT 1 FROM booking_reminders br
+              WHERE br.booking_id = b.id
+                AND br.lead_minutes = lead.minutes
+                AND br.slot_start_time = es.start_time
+          )
+        ORDER BY b.id, lead.minutes
+    LOOP
+        -- Longer lead times that are also due are covered by this reminder
+        INSERT INTO booking_reminders (booking_id, lead_minutes, slot_start_time)
+        SELECT v_due.booking_id, lead.minutes, v_due.start_time
+        FROM events e
+        JOIN event_slots es ON es.event_id = e.id
+        JOIN bookings b ON b.slot_id = es.id
+        CROSS JOIN LATERAL unnest(e.reminder_lead_minutes) AS lead(minutes)
+        WHERE b.id = v_due.booking_id
+          AND lead.minutes >= v_due.lead_minutes
+        ON CONFLICT (booking_id, lead_minutes, slot_start_time) DO NOTHING;
+
+        v_when := fn_format_event_time(v_due.start_time, v_due.timezone);
+
+        INSERT INTO notifications (user_id, title, message, type, action_url)
+        VALUES (
+            v_due.student_id,
+            'Interview Reminder',
+            format('Your interview with %s%s is on %s%s.',
+                v_due.company_name,
+                COALESCE(' for ' || v_due.offer_title, ''),
+                v_when,
+                COALESCE(' (' || v_due.location || ')', '')),
+            'interview_reminder',
+            '/student/bookings'
+        );
+
+        PERFORM fn_enqueue_email(
+            'interview_reminder',
+            v_due.email,
+            jsonb_build_object(
+                'studentName', v_due.full_name,
+                'companyName', v_due.company_name,
+                'offerTitle', v_due.offer_title,
+                'eventName', v_due.event_name,
+                'startTime', v_due.start_time,
+                'location', v_due.location,
+                'timeZone', v_due.timezone
+            ),
+            v_due.student_id,
+            format('interview_reminder:%s:%s:%s',
+                v_due.booking_id, v_due.lead_minutes, extract(epoch FROM v_due.start_time)::BIGINT)
+        );
+
+        v_count := v_count + 1;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$;
+
+-- =====================================================
+-- WAITLIST, RESCHEDULING AND REGENERATION
+-- =====================================================
+
+-- Same as in 20260110000001_booking_waitlist.sql, with the promotion
+-- notification in the event's timezone
+CREATE OR REPLACE FUNCTION fn_promote_from_waitlist(p_slot_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_slot RECORD;
+    v_candidate RECORD;
+    v_confirmed INTEGER;
+    v_can_book BOOLEAN;
+    v_phase INTEGER;
+    v_booking_id UUID;
+BEGIN
+    SELECT es.id, es.event_id, es.company_id, es.capacity, es.start_time, es.end_time, es.is_active,
+           e.timezone
+    INTO v_slot
+    FROM event_slots es
+    LEFT JOIN events e ON e.id = es.event_id
+    WHERE es.id = p_slot_id
+    FOR UPDATE OF es;
+
+    IF NOT FOUND OR NOT v_slot.is_active OR v_slot.start_time <= NOW() THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT COUNT(*) INTO v_confirmed
+    FROM bookings
+    WHERE slot_id = p_slot_id AND status = 'confirmed';
+
+    IF v_confirmed >= v_slot.capacity THEN
+        RETURN NULL;
+    END IF;
+
+    FOR v_candidate IN
+        SELECT w.id, w.student_id, w.offer_id
+        FROM booking_waitlist w
+        WHERE w.status = 'waiting'
+          AND w.company_id = v_slot.company_id
+          AND w.event_id = v_slot.event_id
+          AND (w.slot_id = p_slot_id OR w.slot_id IS NULL)
+        ORDER BY w.created_at ASC
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        -- One booking per company per event
+        CONTINUE WHEN EXISTS (
+            SELECT 1
+            FROM bookings b
+            JOIN event_slots es ON es.id = b.slot_id
+            WHERE b.student_id = v_candidate.student_id
+              AND es.company_id = v_slot.company_id
+              AND es.event_id = v_slot.event_id
+              AND b.status = 'confirmed'
+        );
+
+        -- Phase booking limit (also blocks deprioritized students in Phase 1)
+        SELECT l.can_book, l.current_phase INTO v_can_book, v_phase
+        FROM fn_check_student_booking_limit(v_candidate.student_id, v_slot.event_id) l;
+        CONTINUE WHEN NOT COALESCE(v_can_book, false);
+
+        -- Time conflicts with the student's other interviews
+        CONTINUE WHEN EXISTS (
+            SELECT 1
+            FROM bookings b
+            JOIN event_slots es ON es.id = b.slot_id
+            WHERE b.student_id = v_candidate.student_id
+              AND b.status = 'confirmed'
+              AND es.start_time < v_slot.end_time
+              AND es.end_time > v_slot.start_time
+        );
+
+        -- A cancelled row for the same slot would violate unique_student_slot
+        DELETE FROM bookings
+        WHERE student_id = v_candidate.student_id
+          AND slot_id = p_slot_id
+          AND status = 'cancelled';
+
+        INSERT INTO bookings (student_id, slot_id, offer_id, status, booking_phase)
+        VALUES (v_candidate.student_id, p_slot_id, v_candidate.offer_id, 'confirmed', v_phase)
+        RETURNING id INTO v_booking_id;
+
+        UPDATE booking_waitlist
+        SET status = 'promoted',
+            promoted_booking_id = v_booking_id,
+            promoted_at = NOW()
+        WHERE id = v_candidate.id;
+
+        -- The student's other waiting entries for this company are now moot
+        UPDATE booking_waitlist
+        SET status = 'cancelled'
+        WHERE student_id = v_candidate.student_id
+          AND company_id = v_slot.company_id
+          AND event_id = v_slot.event_id
+          AND status = 'waiting';
+
+        INSERT INTO notifications (user_id, title, message, type, action_url)
+        SELECT
+            v_candidate.student_id,
+            'Promoted from Waitlist',
+            'A seat opened up with ' || c.company_name || ' and you have been booked for ' || fn_format_event_time(v_slot.start_time, v_slot.timezone),
+            'waitlist_promoted',
+            '/student/bookings'
+        FROM companies c
+        WHERE c.id = v_slot.company_id;
+
+        RETURN v_booking_id;
+    END LOOP;
+
+    RETURN NULL;
+END;
+$$;
+
+-- Same as in 20260111000001_reschedule_booking.sql, with the confirmation
+-- message in the event's timezone
+CREATE OR REPLACE FUNCTION fn_reschedule_booking(
+    p_booking_id UUID,
+    p_new_slot_id UUID
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_booking RECORD;
+    v_old_slot RECORD;
+    v_new_slot RECORD;
+    v_is_admin BOOLEAN;
+    v_confirmed INTEGER;
+BEGIN
+    v_is_admin := EXISTS (
+        SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'
+    );
+
+    SELECT b.id, b.student_id, b.slot_id, b.status
+    INTO v_booking
+    FROM bookings b
+    WHERE b.id = p_booking_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR (v_booking.student_id IS DISTINCT FROM auth.uid() AND NOT v_is_admin) THEN
+        RETURN QUERY SELECT false, 'Booking not found or you are not authorized'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_booking.status <> 'confirmed' THEN
+        RETURN QUERY SELECT false, 'Only confirmed bookings can be rescheduled'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_booking.slot_id = p_new_slot_id THEN
+        RETURN QUERY SELECT false, 'The booking is already in this slot'::TEXT;
+        RETURN;
+    END IF;
+
+    -- Lock both slots in a stable order so two concurrent reschedules in
+    -- opposite directions cannot deadlock
+    PERFORM 1
+    FROM event_slots
+    WHERE id IN (v_booking.slot_id, p_new_slot_id)
+    ORDER BY id
+    FOR UPDATE;
+
+    SELECT es.id, es.event_id, es.company_id, es.start_time
+    INTO v_old_slot
+    FROM event_slots es
+    WHERE es.id = v_booking.slot_id;
+
+    SELECT es.id, es.event_id, es.company_id, es.capacity, es.start_time, es.end_time, es.is_active,
+           e.timezone
+    INTO v_new_slot
+    FROM event_slots es
+    LEFT JOIN events e ON e.id = es.event_id
+    WHERE es.id = p_new_slot_id;
+
+    IF NOT FOUND OR NOT v_new_slot.is_active THEN
+        RETURN QUERY SELECT false, 'Slot not found'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_new_slot.company_id <> v_old_slot.company_id OR v_new_slot.event_id <> v_old_slot.event_id THEN
+        RETURN QUERY SELECT false, 'You can only move to another slot of the same company and event'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_new_slot.start_time <= NOW() THEN
+        RETURN QUERY SELECT false, 'This slot has already started'::TEXT;
+        RETURN;
+    END IF;
+
+    IF NOT v_is_admin AND v_old_slot.start_time <= NOW() THEN
+        RETURN QUERY SELECT false, 'This interview has already started'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT COUNT(*) INTO v_confirmed
+    FROM bookings
+    WHERE slot_id = p_new_slot_id AND status = 'confirmed';
+
+    IF v_confirmed >= v_new_slot.capacity THEN
+        RETURN QUERY SELECT false, 'This slot is fully booked'::TEXT;
+        RETURN;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM bookings b
+        JOIN event_slots es ON es.id = b.slot_id
+        WHERE b.student_id = v_booking.student_id
+          AND b.status = 'confirmed'
+          AND b.id <> p_booking_id
+          AND es.start_time < v_new_slot.end_time
+          AND es.end_time > v_new_slot.start_time
+    ) THEN
+        RETURN QUERY SELECT false, 'This time slot conflicts with another booking'::TEXT;
+        RETURN;
+    END IF;
+
+    -- A cancelled row for the target slot would violate unique_student_slot
+    DELETE FROM bookings
+    WHERE student_id = v_booking.student_id
+      AND slot_id = p_new_slot_id
+      AND status = 'cancelled';
+
+    -- booking_phase, offer_id and created_at stay untouched
+    UPDATE bookings
+    SET slot_id = p_new_slot_id
+    WHERE id = p_booking_id;
+
+    -- The seat we just left can go to the waitlist
+    PERFORM fn_promote_from_waitlist(v_booking.slot_id);
+
+    RETURN QUERY SELECT
+        true,
+        format('Interview moved to %s', fn_format_event_time(v_new_slot.start_time, v_new_slot.timezone))::TEXT;
+END;
+$$;
+
+-- Same as in 20260117000001_slot_regeneration_preview.sql, with the moved and
+-- cancelled notifications in the event's timezone
+CREATE OR REPLACE FUNCTION fn_apply_session_regeneration(
+    p_session_id UUID,
+    p_resolutions JSONB DEFAULT '{}'::JSONB,
+    p_company_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    slots_created INTEGER,
+    slots_removed INTEGER,
+    bookings_moved INTEGER,
+    bookings_cancelled INTEGER,
+    message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_session RECORD;
+    v_timezone TEXT;
+    v_plan JSONB;
+    v_row JSONB;
+    v_unresolved INTEGER;
+    v_keep_slots UUID[];
+    v_remove_slots UUID[];
+    v_company RECORD;
+    v_new_slot_id UUID;
+    v_created INTEGER := 0;
+    v_moved INTEGER := 0;
+    v_cancelled INTEGER := 0;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        RETURN QUERY SELECT false, 0, 0, 0, 0, 'Only admins can regenerate slots'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT * INTO v_session
+    FROM speed_recruiting_sessions
+    WHERE id = p_session_id;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT false, 0, 0, 0, 0, 'Session not found'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT e.timezone INTO v_timezone
+    FROM events e
+    WHERE e.id = v_session.event_id;
+
+    -- Serialise regenerations of the same session
+    PERFORM 1 FROM speed_recruiting_sessions WHERE id = p_session_id FOR UPDATE;
+
+    -- The plan is fixed before anything changes
+    SELECT COALESCE(jsonb_agg(to_jsonb(p)), '[]'::JSONB) INTO v_plan
+    FROM fn_preview_session_regeneration(p_session_id, p_company_id) p;
+
+    SELECT COUNT(*) INTO v_unresolved
+    FROM jsonb_array_elements(v_plan) r
+    WHERE r->>'outcome' = 'unplaced'
+      AND COALESCE(p_resolutions->>(r->>'booking_id'), '') NOT IN ('keep', 'cancel');
+
+    IF v_unresolved > 0 THEN
+        RETURN QUERY SELECT false, 0, 0, 0, 0,
+            format('%s booking(s) cannot be placed in the new slots. Keep their current slot or cancel them before regenerating.', v_unresolved)::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT COALESCE(array_agg(DISTINCT (r->>'old_slot_id')::UUID), '{}') INTO v_keep_slots
+    FROM jsonb_array_elements(v_plan) r
+    WHERE r->>'outcome' = 'unplaced'
+      AND p_resolutions->>(r->>'booking_id') = 'keep';
+
+    SELECT COALESCE(array_agg(DISTINCT (r->>'old_slot_id')::UUID), '{}') INTO v_remove_slots
+    FROM jsonb_array_elements(v_plan) r
+    WHERE NOT ((r->>'old_slot_id')::UUID = ANY (v_keep_slots));
+
+    -- Removed slots are only deactivated: their cancelled bookings and waitlist
+    -- entries stay on record, and inactive slots are skipped by booking and
+    -- waitlist promotion
+    UPDATE event_slots SET is_active = false WHERE id = ANY (v_remove_slots);
+
+    FOR v_company IN
+        SELECT DISTINCT ep.company_id
+        FROM event_participants ep
+        WHERE ep.event_id = v_session.event_id
+          AND (p_company_id IS NULL OR ep.company_id = p_company_id)
+    LOOP
+        v_created := v_created + fn_generate_company_session_slots(p_session_id, v_company.company_id);
+    END LOOP;
+
+    FOR v_row IN
+        SELECT r FROM jsonb_array_elements(v_plan) r WHERE r->>'outcome' = 'moved'
+    LOOP
+        SELECT es.id INTO v_new_slot_id
+        FROM event_slots es
+        WHERE es.session_id = p_session_id
+          AND es.company_id = (v_row->>'company_id')::UUID
+          AND es.start_time = (v_row->>'new_start_time')::TIMESTAMPTZ
+          AND es.end_time = (v_row->>'new_end_time')::TIMESTAMPTZ
+          AND es.is_active = true
+        ORDER BY es.created_at
+        LIMIT 1;
+
+        -- A cancelled row for the target slot would violate unique_student_interview_slot
+        DELETE FROM bookings
+        WHERE student_id = (v_row->>'student_id')::UUID
+          AND slot_id = v_new_slot_id
+          AND status = 'cancelled';
+
+        UPDATE bookings
+        SET slot_id = v_new_slot_id
+        WHERE id = (v_row->>'booking_id')::UUID;
+
+        INSERT INTO notifications (user_id, title, message, type, action_url)
+        VALUES (
+            (v_row->>'student_id')::UUID,
+            'Interview time changed',
+            format('Your interview with %s moved from %s to %s because the schedule was updated.',
+                v_row->>'company_name',
+                fn_format_event_time((v_row->>'old_start_time')::TIMESTAMPTZ, v_timezone),
+                fn_format_event_time((v_row->>'new_start_time')::TIMESTAMPTZ, v_timezone)),
+            'booking_moved',
+            '/student/bookings'
+        );
+
+        v_moved := v_moved + 1;
+    END LOOP;
+
+    FOR v_row IN
+        SELECT r FROM jsonb_array_elements(v_plan) r
+        WHERE r->>'outcome' = 'unplaced'
+          AND p_resolutions->>(r->>'booking_id') = 'cancel'
+    LOOP
+        UPDATE bookings
+        SET status = 'cancelled',
+            cancelled_at = NOW(),
+            cancelled_reason = 'Schedule updated by the organisers'
+        WHERE id = (v_row->>'booking_id')::UUID;
+
+        INSERT INTO notifications (user_id, title, message, type, action_url)
+        VALUES (
+            (v_row->>'student_id')::UUID,
+            'Interview cancelled',
+            format('Your interview with %s on %s was cancelled because the schedule was updated. You can book another slot.',
+                v_row->>'company_name',
+                fn_format_event_time((v_row->>'old_start_time')::TIMESTAMPTZ, v_timezone)),
+            'booking_cancelled',
+            '/student/offers'
+        );
+
+        v_cancelled := v_cancelled + 1;
+    END LOOP;
+
+    PERFORM log_admin_action(
+        'regenerate_session_slots',
+        'speed_recruiting_sessions',
+        p_session_id,
+        NULL,
+        jsonb_build_object(
+            'company_id', p_company_id,
+            'slots_created', v_created,
+            'slots_removed', COALESCE(array_length(v_remove_slots, 1), 0),
+            'bookings_moved', v_moved,
+            'bookings_cancelled', v_cancelled,
+            'slots_kept_for_bookings', COALESCE(array_length(v_keep_slots, 1), 0)
+        ),
+        format('Regenerated slots of session "%s"', v_session.name)
+    );
+
+    RETURN QUERY SELECT
+        true,
+        v_created,
+        COALESCE(array_length(v_remove_slots, 1), 0),
+        v_moved,
+        v_cancelled,
+        format('%s slots created, %s deactivated, %s bookings moved, %s cancelled',
+            v_created, COALESCE(array_length(v_remove_slots, 1), 0), v_moved, v_cancelled)::TEXT;
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+GRANT EXECUTE ON FUNCTION fn_get_student_bookings(UUID) TO authenticated;
+
+COMMENT ON FUNCTION fn_format_event_time IS
+    'Formats a time as DD/MM/YYYY HH24:MI in an event timezone, for notification texts.';
@@ -0,0 +1,330 @@
+-- Migration: Interview Scorecards
+-- Created: 2026-01-26
+-- Description: Companies define a rubric per offer (weighted criteria, each
+-- scored on its own scale) and fill a scorecard per interview, then rank the
+-- candidates of an offer by weighted score.
+-- Scorecards live in their own table rather than in bookings.rating /
+-- feedback / company_notes: students can read their own bookings rows, and
+-- scores must only be visible to the company that interviewed them. Admins
+-- have no access either.
+
+-- =====================================================
+-- RUBRICS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS offer_rubric_criteria (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    offer_id UUID NOT NULL REFERENCES offers(id) ON DELETE CASCADE,
+    label TEXT NOT NULL CHECK (length(trim(label)) > 0),
+    description TEXT,
+    weight NUMERIC(5,2) NOT NULL DEFAULT 1 CHECK (weight > 0),
+    scale_max INTEGER NOT NULL DEFAULT 5 CHECK (scale_max BETWEEN 2 AND 10),
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_offer_rubric_criteria_offer ON offer_rubric_criteria(offer_id, position);
+
+DROP TRIGGER IF EXISTS update_offer_rubric_criteria_updated_at ON offer_rubric_criteria;
+CREATE TRIGGER update_offer_rubric_criteria_updated_at
+    BEFORE UPDATE ON offer_rubric_criteria
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE offer_rubric_criteria IS
+    'Interview rubric of an offer. Each criterion is scored from 1 to scale_max and counts with its weight.';
+
+-- =====================================================
+-- SCORECARDS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS interview_scorecards (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    booking_id UUID NOT NULL UNIQUE REFERENCES bookings(id) ON DELETE CASCADE,
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    offer_id UUID NOT NULL REFERENCES offers(id) ON DELETE CASCADE,
+    student_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    -- { "<criterion id>": score }; scores of deleted criteria are ignored
+    scores JSONB NOT NULL DEFAULT '{}'::JSONB,
+    recommendation TEXT CHECK (recommendation IN ('strong_yes', 'yes', 'no', 'strong_no')),
+    notes TEXT,
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    updated_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT interview_scorecard_scores_object CHECK (jsonb_typeof(scores) = 'object')
+);
+
+CREATE INDEX IF NOT EXISTS idx_interview_scorecards_offer ON interview_scorecards(offer_id);
+CREATE INDEX IF NOT EXISTS idx_interview_scorecards_company ON interview_scorecards(company_id);
+
+DROP TRIGGER IF EXISTS update_interview_scorecards_updated_at ON interview_scorecards;
+CREATE TRIGGER update_interview_scorecards_updated_at
+    BEFORE UPDATE ON interview_scorecards
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE interview_scorecards IS
+    'Company scorecard of one interview. Written through fn_save_scorecard; only the company can read it.';
+
+-- =====================================================
+-- RLS
+-- =====================================================
+
+ALTER TABLE offer_rubric_criteria ENABLE ROW LEVEL SECURITY;
+ALTER TABLE interview_scorecards ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Companies can manage their offer rubrics" ON offer_rubric_criteria;
+CREATE POLICY "Companies can manage their offer rubrics" ON offer_rubric_criteria
+    FOR ALL USING (
+        offer_id IN (
+            SELECT o.id FROM offers o
+            JOIN companies c ON c.id = o.company_id
+            WHERE c.profile_id = auth.uid()
+        )
+    ) WITH CHECK (
+        offer_id IN (
+            SELECT o.id FROM offers o
+            JOIN companies c ON c.id = o.company_id
+            WHERE c.profile_id = auth.uid()
+        )
+    );
+
+DROP POLICY IF EXISTS "Companies can view their scorecards" ON interview_scorecards;
+CREATE POLICY "Companies can view their scorecards" ON interview_scorecards
+    FOR SELECT USING (
+        company_id IN (SELECT id FROM companies WHERE profile_id = auth.uid())
+    );
+
+-- =====================================================
+-- SCORING
+-- =====================================================
+
+-- Weighted score out of 100 over all current criteria, e.g. 4/5 on a weight 2
+-- criterion and 1/2 on a weight 1 criterion gives 70. Unscored criteria count
+-- as 0, so partial scorecards do not outrank complete ones, and scores above a
+-- lowered scale_max count as the maximum. NULL when no current criterion is
+-- scored.
+CREATE OR REPLACE FUNCTION fn_scorecard_total(p_offer_id UUID, p_scores JSONB)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT CASE WHEN bool_or(p_scores ? rc.id::TEXT) THEN
+        ROUND(
+            SUM(rc.weight
+                * CASE WHEN p_scores ? rc.id::TEXT
+                       THEN LEAST(GREATEST((p_scores ->> rc.id::TEXT)::NUMERIC, 1), rc.scale_max)
+                       ELSE 0
+                  END
+                / rc.scale_max) * 100
+            / NULLIF(SUM(rc.weight), 0),
+            1
+        )
+    END
+    FROM offer_rubric_criteria rc
+    WHERE rc.offer_id = p_offer_id;
+$$;
+
+CREATE OR REPLACE FUNCTION fn_save_scorecard(
+    p_booking_id UUID,
+    p_scores JSONB,
+    p_recommendation TEXT DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    scorecard_id UUID,
+    total_score NUMERIC,
+    message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_booking RECORD;
+    v_key TEXT;
+    v_value JSONB;
+    v_scale_max INTEGER;
+    v_scorecard_id UUID;
+BEGIN
+    SELECT b.id, b.status, b.student_id, es.company_id, es.offer_id, es.start_time, c.profile_id
+    INTO v_booking
+    FROM bookings b
+    JOIN event_slots es ON es.id = b.slot_id
+    JOIN companies c ON c.id = es.company_id
+    WHERE b.id = p_booking_id;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT false, NULL::UUID, NULL::NUMERIC, 'Booking not found'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_booking.profile_id IS DISTINCT FROM auth.uid() THEN
+        RETURN QUERY SELECT false, NULL::UUID, NULL::NUMERIC, 'You can only score your own interviews'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_booking.status <> 'confirmed' THEN
+        RETURN QUERY SELECT false, NULL::UUID, NULL::NUMERIC, 'Cancelled interviews cannot be scored'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_booking.offer_id IS NULL THEN
+        RETURN QUERY SELECT false, NULL::UUID, NULL::NUMERIC, 'This interview slot is not linked to an offer'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_booking.start_time > NOW() THEN
+        RETURN QUERY SELECT false, NULL::UUID, NULL::NUMERIC, 'Interviews can be scored once they have started'::TEXT;
+        RETURN;
+    END IF;
+
+    IF p_recommendation IS NOT NULL AND p_recommendation NOT IN ('strong_yes', 'yes', 'no', 'strong_no') THEN
+        RETURN QUERY SELECT false, NULL::UUID, NULL::NUMERIC, 'Invalid recommendation'::TEXT;
+        RETURN;
+    END IF;
+
+    IF p_scores IS NULL OR jsonb_typeof(p_scores) <> 'object' THEN
+        RETURN QUERY SELECT false, NULL::UUID, NULL::NUMERIC, 'Scores must be an object of criterion scores'::TEXT;
+        RETURN;
+    END IF;
+
+    FOR v_key, v_value IN SELECT * FROM jsonb_each(p_scores)
+    LOOP
+        SELECT rc.scale_max INTO v_scale_max
+        FROM offer_rubric_criteria rc
+        WHERE rc.id::TEXT = v_key AND rc.offer_id = v_booking.offer_id;
+
+        IF v_scale_max IS NULL THEN
+            RETURN QUERY SELECT false, NULL::UUID, NULL::NUMERIC,
+                'The rubric changed. Reload the scorecard and try again.'::TEXT;
+            RETURN;
+        END IF;
+
+        IF jsonb_typeof(v_value) <> 'number'
+           OR (v_value #>> '{}')::NUMERIC <> floor((v_value #>> '{}')::NUMERIC)
+           OR (v_value #>> '{}')::NUMERIC NOT BETWEEN 1 AND v_scale_max THEN
+            RETURN QUERY SELECT false, NULL::UUID, NULL::NUMERIC,
+                format('Scores must be whole numbers from 1 to %s', v_scale_max)::TEXT;
+            RETURN;
+        END IF;
+    END LOOP;
+
+    INSERT INTO interview_scorecards (
+        booking_id, company_id, offer_id, student_id,
+        scores, recommendation, notes, created_by, updated_by
+    )
+    VALUES (
+        p_booking_id, v_booking.company_id, v_booking.offer_id, v_booking.student_id,
+        p_scores, p_recommendation, NULLIF(trim(p_notes), ''), auth.uid(), auth.uid()
+    )
+    ON CONFLICT (booking_id) DO UPDATE
+    SET scores = EXCLUDED.scores,
+        recommendation = EXCLUDED.recommendation,
+        notes = EXCLUDED.notes,
+        updated_by = auth.uid()
+    RETURNING id INTO v_scorecard_id;
+
+    RETURN QUERY SELECT true, v_scorecard_id, fn_scorecard_total(v_booking.offer_id, p_scores),
+        'Scorecard saved'::TEXT;
+END;
+$$;
+
+-- =====================================================
+-- CANDIDATE RANKING
+-- =====================================================
+
+-- Every confirmed interview of the offer, scored ones first by weighted score
+CREATE OR REPLACE FUNCTION fn_get_offer_candidates(p_offer_id UUID)
+RETURNS TABLE (
+    booking_id UUID,
+    student_id UUID,
+    full_name TEXT,
+    email TEXT,
+    slot_time TIMESTAMPTZ,
+    attended BOOLEAN,
+    scorecard_id UUID,
+    total_score NUMERIC,
+    criteria_scored INTEGER,
+    criteria_total INTEGER,
+    recommendation TEXT,
+    rank INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_criteria_total INTEGER;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM offers o
+        JOIN companies c ON c.id = o.company_id
+        WHERE o.id = p_offer_id AND c.profile_id = auth.uid()
+    ) THEN
+        RAISE EXCEPTION 'You can only view candidates of your own offers';
+    END IF;
+
+    SELECT COUNT(*)::INTEGER INTO v_criteria_total
+    FROM offer_rubric_criteria
+    WHERE offer_id = p_offer_id;
+
+    RETURN QUERY
+    WITH candidates AS (
+        SELECT
+            b.id AS booking_id,
+            b.student_id,
+            p.full_name,
+            p.email,
+            es.start_time,
+            b.attended,
+            sc.id AS scorecard_id,
+            fn_scorecard_total(p_offer_id, sc.scores) AS total_score,
+            (SELECT COUNT(*)::INTEGER FROM offer_rubric_criteria rc
+             WHERE rc.offer_id = p_offer_id AND sc.scores ? rc.id::TEXT) AS criteria_scored,
+            sc.recommendation
+        FROM bookings b
+        JOIN event_slots es ON es.id = b.slot_id
+        JOIN profiles p ON p.id = b.student_id
+        LEFT JOIN interview_scorecards sc ON sc.booking_id = b.id
+        WHERE es.offer_id = p_offer_id
+          AND b.status = 'confirmed'
+    )
+    SELECT
+        c.booking_id,
+        c.student_id,
+        c.full_name,
+        c.email,
+        c.start_time,
+        c.attended,
+        c.scorecard_id,
+        c.total_score,
+        COALESCE(c.criteria_scored, 0),
+        v_criteria_total,
+        c.recommendation,
+        CASE WHEN c.total_score IS NOT NULL
+             THEN (RANK() OVER (ORDER BY c.total_score DESC NULLS LAST))::INTEGER END
+    FROM candidates c
+    ORDER BY c.total_score DESC NULLS LAST, c.start_time;
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+GRANT EXECUTE ON FUNCTION fn_scorecard_total(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_save_scorecard(UUID, JSONB, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_get_offer_candidates(UUID) TO authenticated;
+
+COMMENT ON FUNCTION fn_scorecard_total IS
+    'Weighted score out of 100 of a set of criterion scores against the offer''s current rubric.';
+COMMENT ON FUNCTION fn_save_scorecard IS
+    'Company only. Creates or updates the scorecard of one of its started interviews.';
+COMMENT ON FUNCTION fn_get_offer_candidates IS
+    'Company only. Interviewed and booked candidates of an offer, ranked by scorecard total.';
@@ -0,0 +1,376 @@
+-- Migration: Candidate Pipeline
+-- Created: 2026-01-27
+-- Description: Post-event follow-up of candidates by companies. Each company
+-- has its own pipeline stages (seeded with shortlisted, second interview,
+-- offer extended, hired, rejected), candidates are tracked per event, and
+-- every stage change is recorded. Each stage maps to an outcome so admins
+-- can report hiring outcomes per event whatever the stages are called.
+
+-- =====================================================
+-- STAGES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS company_pipeline_stages (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+    -- active = still in process, offer = offer extended, hired, rejected
+    outcome TEXT NOT NULL DEFAULT 'active' CHECK (outcome IN ('active', 'offer', 'hired', 'rejected')),
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT unique_company_pipeline_stage_name UNIQUE (company_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_company_pipeline_stages_company ON company_pipeline_stages(company_id, position);
+
+COMMENT ON TABLE company_pipeline_stages IS
+    'Candidate pipeline stages of a company. outcome drives the hiring figures admins see.';
+
+CREATE OR REPLACE FUNCTION fn_seed_pipeline_stages(p_company_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    INSERT INTO company_pipeline_stages (company_id, name, outcome, position)
+    SELECT p_company_id, s.name, s.outcome, s.position
+    FROM (VALUES
+        ('Shortlisted', 'active', 0),
+        ('Second interview', 'active', 1),
+        ('Offer extended', 'offer', 2),
+        ('Hired', 'hired', 3),
+        ('Rejected', 'rejected', 4)
+    ) AS s(name, outcome, position)
+    WHERE NOT EXISTS (SELECT 1 FROM company_pipeline_stages WHERE company_id = p_company_id);
+$$;
+
+CREATE OR REPLACE FUNCTION fn_seed_pipeline_stages_on_company()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM fn_seed_pipeline_stages(NEW.id);
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS seed_pipeline_stages ON companies;
+CREATE TRIGGER seed_pipeline_stages
+    AFTER INSERT ON companies
+    FOR EACH ROW
+    EXECUTE FUNCTION fn_seed_pipeline_stages_on_company();
+
+SELECT fn_seed_pipeline_stages(id) FROM companies;
+
+-- =====================================================
+-- CANDIDATES AND HISTORY
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS pipeline_candidates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    student_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    -- Stages with candidates cannot be deleted
+    stage_id UUID NOT NULL REFERENCES company_pipeline_stages(id) ON DELETE RESTRICT,
+    added_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT unique_pipeline_candidate UNIQUE (company_id, event_id, student_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_candidates_event ON pipeline_candidates(event_id);
+CREATE INDEX IF NOT EXISTS idx_pipeline_candidates_stage ON pipeline_candidates(stage_id);
+
+DROP TRIGGER IF EXISTS update_pipeline_candidates_updated_at ON pipeline_candidates;
+CREATE TRIGGER update_pipeline_candidates_updated_at
+    BEFORE UPDATE ON pipeline_candidates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE pipeline_candidates IS
+    'A student followed up by a company after an event, and the stage they are at.';
+
+-- Stage names are copied so the history stays readable after a stage is
+-- renamed or deleted
+CREATE TABLE IF NOT EXISTS pipeline_stage_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    candidate_id UUID NOT NULL REFERENCES pipeline_candidates(id) ON DELETE CASCADE,
+    from_stage_id UUID REFERENCES company_pipeline_stages(id) ON DELETE SET NULL,
+    from_stage_name TEXT,
+    to_stage_id UUID REFERENCES company_pipeline_stages(id) ON DELETE SET NULL,
+    to_stage_name TEXT NOT NULL,
+    note TEXT,
+    changed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_stage_history_candidate ON pipeline_stage_history(candidate_id, changed_at DESC);
+
+COMMENT ON TABLE pipeline_stage_history IS
+    'Stage changes of pipeline candidates, written by trigger.';
+
+-- fn_move_pipeline_candidates passes its note through the transaction-local
+-- setting app.pipeline_note
+CREATE OR REPLACE FUNCTION fn_record_pipeline_stage_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.stage_id IS NOT DISTINCT FROM OLD.stage_id THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO pipeline_stage_history (
+        candidate_id, from_stage_id, from_stage_name, to_stage_id, to_stage_name, note, changed_by
+    )
+    SELECT
+        NEW.id,
+        CASE WHEN TG_OP = 'UPDATE' THEN OLD.stage_id END,
+        CASE WHEN TG_OP = 'UPDATE' THEN (SELECT name FROM company_pipeline_stages WHERE id = OLD.stage_id) END,
+        NEW.stage_id,
+        (SELECT name FROM company_pipeline_stages WHERE id = NEW.stage_id),
+        NULLIF(current_setting('app.pipeline_note', true), ''),
+        auth.uid();
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_pipeline_stage_change ON pipeline_candidates;
+CREATE TRIGGER record_pipeline_stage_change
+    AFTER INSERT OR UPDATE OF stage_id ON pipeline_candidates
+    FOR EACH ROW
+    EXECUTE FUNCTION fn_record_pipeline_stage_change();
+
+-- =====================================================
+-- RLS
+-- =====================================================
+
+ALTER TABLE company_pipeline_stages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pipeline_candidates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pipeline_stage_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Companies can manage their pipeline stages" ON company_pipeline_stages;
+CREATE POLICY "Companies can manage their pipeline stages" ON company_pipeline_stages
+    FOR ALL USING (
+        company_id IN (SELECT id FROM companies WHERE profile_id = auth.uid())
+    ) WITH CHECK (
+        company_id IN (SELECT id FROM companies WHERE profile_id = auth.uid())
+    );
+
+-- Candidates are added and moved through fn_move_pipeline_candidates
+DROP POLICY IF EXISTS "Companies can view their pipeline" ON pipeline_candidates;
+CREATE POLICY "Companies can view their pipeline" ON pipeline_candidates
+    FOR SELECT USING (
+        company_id IN (SELECT id FROM companies WHERE profile_id = auth.uid())
+    );
+
+DROP POLICY IF EXISTS "Companies can remove pipeline candidates" ON pipeline_candidates;
+CREATE POLICY "Companies can remove pipeline candidates" ON pipeline_candidates
+    FOR DELETE USING (
+        company_id IN (SELECT id FROM companies WHERE profile_id = auth.uid())
+    );
+
+DROP POLICY IF EXISTS "Companies can view their pipeline history" ON pipeline_stage_history;
+CREATE POLICY "Companies can view their pipeline history" ON pipeline_stage_history
+    FOR SELECT USING (
+        candidate_id IN (
+            SELECT pc.id FROM pipeline_candidates pc
+            JOIN companies c ON c.id = pc.company_id
+            WHERE c.profile_id = auth.uid()
+        )
+    );
+
+-- =====================================================
+-- MOVING CANDIDATES
+-- =====================================================
+
+-- Only students the company actually met at the event can be tracked:
+-- a confirmed booking with the company there. 20260131000001 adds accepted
+-- interview invitations and talent directory bookmarks.
+CREATE OR REPLACE FUNCTION fn_is_pipeline_eligible(
+    p_company_id UUID,
+    p_event_id UUID,
+    p_student_id UUID
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN EXISTS (
+        SELECT 1
+        FROM bookings b
+        JOIN event_slots es ON es.id = b.slot_id
+        WHERE b.student_id = p_student_id
+          AND b.status = 'confirmed'
+          AND es.company_id = p_company_id
+          AND es.event_id = p_event_id
+    );
+END;
+$$;
+
+-- Adds the students to the pipeline of the event or moves them, in one go.
+-- Students the company has no link with are skipped.
+CREATE OR REPLACE FUNCTION fn_move_pipeline_candidates(
+    p_event_id UUID,
+    p_student_ids UUID[],
+    p_stage_id UUID,
+    p_note TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    moved INTEGER,
+    message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_company_id UUID;
+    v_stage_name TEXT;
+    v_student_ids UUID[];
+    v_skipped INTEGER;
+    v_moved INTEGER;
+BEGIN
+    SELECT c.id INTO v_company_id
+    FROM companies c
+    WHERE c.profile_id = auth.uid();
+
+    IF v_company_id IS NULL THEN
+        RETURN QUERY SELECT false, 0, 'Only company accounts have a candidate pipeline'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT name INTO v_stage_name
+    FROM company_pipeline_stages
+    WHERE id = p_stage_id AND company_id = v_company_id;
+
+    IF v_stage_name IS NULL THEN
+        RETURN QUERY SELECT false, 0, 'Stage not found'::TEXT;
+        RETURN;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM event_participants
+        WHERE event_id = p_event_id AND company_id = v_company_id
+    ) THEN
+        RETURN QUERY SELECT false, 0, 'Your company did not take part in this event'::TEXT;
+        RETURN;
+    END IF;
+
+    IF p_student_ids IS NULL OR cardinality(p_student_ids) = 0 THEN
+        RETURN QUERY SELECT false, 0, 'No candidates selected'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT COALESCE(array_agg(p.id), '{}') INTO v_student_ids
+    FROM profiles p
+    WHERE p.id = ANY(p_student_ids)
+      AND p.role = 'student'
+      AND fn_is_pipeline_eligible(v_company_id, p_event_id, p.id);
+
+    v_skipped := cardinality(ARRAY(SELECT DISTINCT unnest(p_student_ids))) - cardinality(v_student_ids);
+
+    IF cardinality(v_student_ids) = 0 THEN
+        RETURN QUERY SELECT false, 0,
+            'None of the selected students interviewed with your company at this event, accepted an invitation or is bookmarked'::TEXT;
+        RETURN;
+    END IF;
+
+    PERFORM set_config('app.pipeline_note', COALESCE(trim(p_note), ''), true);
+
+    INSERT INTO pipeline_candidates (company_id, event_id, student_id, stage_id, added_by)
+    SELECT v_company_id, p_event_id, s.id, p_stage_id, auth.uid()
+    FROM unnest(v_student_ids) AS s(id)
+    ON CONFLICT (company_id, event_id, student_id) DO UPDATE
+    SET stage_id = EXCLUDED.stage_id
+    WHERE pipeline_candidates.stage_id IS DISTINCT FROM EXCLUDED.stage_id;
+
+    GET DIAGNOSTICS v_moved = ROW_COUNT;
+
+    PERFORM set_config('app.pipeline_note', '', true);
+
+    RETURN QUERY SELECT true, v_moved,
+        format('%s candidate(s) moved to %s%s', v_moved, v_stage_name,
+            CASE WHEN v_skipped > 0
+                 THEN format('; %s skipped (no interview, accepted invitation or bookmark with your company)', v_skipped)
+                 ELSE '' END)::TEXT;
+END;
+$$;
+
+-- =====================================================
+-- HIRING OUTCOMES
+-- =====================================================
+
+-- Candidates per outcome for each company at the event; a student hired by
+-- two companies counts once in placed_students
+CREATE OR REPLACE FUNCTION fn_get_event_hiring_outcomes(p_event_id UUID)
+RETURNS TABLE (
+    company_id UUID,
+    company_name TEXT,
+    candidates INTEGER,
+    in_progress INTEGER,
+    offers INTEGER,
+    hired INTEGER,
+    rejected INTEGER,
+    placed_students INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        RAISE EXCEPTION 'Only admins can view hiring outcomes';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        c.id,
+        c.company_name,
+        COUNT(pc.id)::INTEGER,
+        COUNT(pc.id) FILTER (WHERE s.outcome = 'active')::INTEGER,
+        COUNT(pc.id) FILTER (WHERE s.outcome = 'offer')::INTEGER,
+        COUNT(pc.id) FILTER (WHERE s.outcome = 'hired')::INTEGER,
+        COUNT(pc.id) FILTER (WHERE s.outcome = 'rejected')::INTEGER,
+        (SELECT COUNT(DISTINCT pc2.student_id)::INTEGER
+         FROM pipeline_candidates pc2
+         JOIN company_pipeline_stages s2 ON s2.id = pc2.stage_id
+         WHERE pc2.event_id = p_event_id AND s2.outcome = 'hired')
+    FROM event_participants ep
+    JOIN companies c ON c.id = ep.company_id
+    LEFT JOIN pipeline_candidates pc ON pc.company_id = c.id AND pc.event_id = p_event_id
+    LEFT JOIN company_pipeline_stages s ON s.id = pc.stage_id
+    WHERE ep.event_id = p_event_id
+    GROUP BY c.id, c.company_name
+    ORDER BY COUNT(pc.id) FILTER (WHERE s.outcome = 'hired') DESC, c.company_name;
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION fn_seed_pipeline_stages(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION fn_is_pipeline_eligible(UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION fn_move_pipeline_candidates(UUID, UUID[], UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_get_event_hiring_outcomes(UUID) TO authenticated;
+
+COMMENT ON FUNCTION fn_seed_pipeline_stages IS
+    'Internal. Creates the default pipeline stages of a company that has none.';
+COMMENT ON FUNCTION fn_is_pipeline_eligible IS
+    'Internal. Whether a company may track the student in its pipeline for the event.';
+COMMENT ON FUNCTION fn_move_pipeline_candidates IS
+    'Company only. Adds students to the event pipeline or moves them to a stage, recording the change.';
+COMMENT ON FUNCTION fn_get_event_hiring_outcomes IS
+    'Admin only. Pipeline candidates per outcome for each company at an event.';
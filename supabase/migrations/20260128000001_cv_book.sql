@@ -0,0 +1,184 @@
+-- Migration: CV Book
+-- Created: 2026-01-28
+-- Description: Bulk CV download for companies. fn_get_cv_book lists the
+-- students a company interviews at an event, optionally narrowed to one offer
+-- or session, leaving out students who never gave or later withdrew their
+-- data processing consent. Every CV handed out, in a CV book or from a
+-- student profile, is written to cv_access_log.
+
+-- =====================================================
+-- ACCESS LOG
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS cv_access_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    student_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    event_id UUID REFERENCES events(id) ON DELETE SET NULL,
+    source TEXT NOT NULL CHECK (source IN ('profile', 'cv_book')),
+    accessed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    accessed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cv_access_log_company ON cv_access_log(company_id, accessed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_cv_access_log_student ON cv_access_log(student_id, accessed_at DESC);
+
+ALTER TABLE cv_access_log ENABLE ROW LEVEL SECURITY;
+
+-- Entries are only written by the functions below
+DROP POLICY IF EXISTS "Companies can view their CV accesses" ON cv_access_log;
+CREATE POLICY "Companies can view their CV accesses" ON cv_access_log
+    FOR SELECT USING (
+        company_id IN (SELECT id FROM companies WHERE profile_id = auth.uid())
+    );
+
+DROP POLICY IF EXISTS "Admins can view all CV accesses" ON cv_access_log;
+CREATE POLICY "Admins can view all CV accesses" ON cv_access_log
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+    );
+
+DROP POLICY IF EXISTS "Students can view accesses to their CV" ON cv_access_log;
+CREATE POLICY "Students can view accesses to their CV" ON cv_access_log
+    FOR SELECT USING (student_id = auth.uid());
+
+COMMENT ON TABLE cv_access_log IS 'Every CV a company opened, from a student profile or in a CV book';
+
+-- =====================================================
+-- CONSENT
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_has_data_consent(p_student_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE id = p_student_id
+          AND consent_given = true
+          AND consent_withdrawn = false
+    );
+$$;
+
+-- =====================================================
+-- CV BOOK
+-- =====================================================
+
+-- One row per student, with their first interview matching the filters.
+-- Students with a resume are logged as accessed.
+CREATE OR REPLACE FUNCTION fn_get_cv_book(
+    p_event_id UUID,
+    p_offer_id UUID DEFAULT NULL,
+    p_session_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    student_id UUID,
+    full_name TEXT,
+    email TEXT,
+    program TEXT,
+    graduation_year INTEGER,
+    profile_photo_url TEXT,
+    resume_url TEXT,
+    cv_url TEXT,
+    slot_time TIMESTAMPTZ,
+    offer_title TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_company_id UUID;
+BEGIN
+    SELECT c.id INTO v_company_id
+    FROM companies c
+    WHERE c.profile_id = auth.uid();
+
+    IF v_company_id IS NULL THEN
+        RAISE EXCEPTION 'Only company accounts can download CV books';
+    END IF;
+
+    RETURN QUERY
+    WITH book AS (
+        SELECT DISTINCT ON (p.id)
+            p.id AS student_id,
+            p.full_name,
+            p.email,
+            p.program,
+            p.graduation_year,
+            p.profile_photo_url,
+            p.resume_url,
+            p.cv_url,
+            es.start_time AS slot_time,
+            o.title AS offer_title
+        FROM bookings b
+        JOIN event_slots es ON es.id = b.slot_id
+        JOIN profiles p ON p.id = b.student_id
+        LEFT JOIN offers o ON o.id = es.offer_id
+        WHERE es.company_id = v_company_id
+          AND es.event_id = p_event_id
+          AND b.status = 'confirmed'
+          AND (p_offer_id IS NULL OR es.offer_id = p_offer_id)
+          AND (p_session_id IS NULL OR es.session_id = p_session_id)
+          AND fn_has_data_consent(p.id)
+        ORDER BY p.id, es.start_time
+    ),
+    logged AS (
+        INSERT INTO cv_access_log (company_id, student_id, event_id, source, accessed_by)
+        SELECT v_company_id, book.student_id, p_event_id, 'cv_book', auth.uid()
+        FROM book
+        WHERE book.resume_url IS NOT NULL OR book.cv_url IS NOT NULL
+    )
+    SELECT book.student_id, book.full_name, book.email, book.program, book.graduation_year,
+           book.profile_photo_url, book.resume_url, book.cv_url, book.slot_time, book.offer_title
+    FROM book
+    ORDER BY book.slot_time, book.full_name;
+END;
+$$;
+
+-- Logs a CV opened from a student profile
+CREATE OR REPLACE FUNCTION fn_log_cv_access(p_student_id UUID)
+RETURNS TABLE (
+    success BOOLEAN,
+    message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_company_id UUID;
+BEGIN
+    SELECT c.id INTO v_company_id
+    FROM companies c
+    WHERE c.profile_id = auth.uid();
+
+    IF v_company_id IS NULL THEN
+        RETURN QUERY SELECT false, 'Only company CV accesses are logged'::TEXT;
+        RETURN;
+    END IF;
+
+    INSERT INTO cv_access_log (company_id, student_id, source, accessed_by)
+    VALUES (v_company_id, p_student_id, 'profile', auth.uid());
+
+    RETURN QUERY SELECT true, 'CV access logged'::TEXT;
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION fn_has_data_consent(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION fn_get_cv_book(UUID, UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_log_cv_access(UUID) TO authenticated;
+
+COMMENT ON FUNCTION fn_has_data_consent IS
+    'Internal. Whether a student gave data processing consent and has not withdrawn it.';
+COMMENT ON FUNCTION fn_get_cv_book IS
+    'Company only. Consenting students interviewed at an event, for a CV book. Logs each CV as accessed.';
+COMMENT ON FUNCTION fn_log_cv_access IS
+    'Company only. Logs a CV opened from a student profile.';
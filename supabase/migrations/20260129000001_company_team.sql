@@ -0,0 +1,1408 @@
+-- Migration: Company Teams
+-- Created: 2026-01-29
+-- Description: Several recruiter logins per company. company_members links
+-- user accounts to a company with a role: company admins edit the company
+-- profile, offers and team; interviewers see the interview slots assigned to
+-- them and score those interviews. The company owner (companies.profile_id)
+-- is always an admin member. Recruiters join through an emailed invitation
+-- and sign up with its token. Company policies and functions now check
+-- membership instead of companies.profile_id.
+
+-- =====================================================
+-- MEMBERS AND INVITATIONS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS company_members (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    -- A user recruits for one company
+    profile_id UUID NOT NULL UNIQUE REFERENCES profiles(id) ON DELETE CASCADE,
+    role TEXT NOT NULL DEFAULT 'interviewer' CHECK (role IN ('admin', 'interviewer')),
+    representative_id UUID REFERENCES company_representatives(id) ON DELETE SET NULL,
+    invited_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_company_members_company ON company_members(company_id);
+
+CREATE TABLE IF NOT EXISTS company_invitations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    email TEXT NOT NULL,
+    full_name TEXT NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('admin', 'interviewer')),
+    representative_id UUID REFERENCES company_representatives(id) ON DELETE SET NULL,
+    token TEXT NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(24), 'hex'),
+    invited_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '14 days',
+    accepted_at TIMESTAMPTZ,
+    accepted_by UUID REFERENCES profiles(id) ON DELETE SET NULL
+);
+
+-- One open invitation per address and company
+CREATE UNIQUE INDEX IF NOT EXISTS idx_company_invitations_pending
+    ON company_invitations(company_id, lower(email))
+    WHERE accepted_at IS NULL;
+
+ALTER TABLE event_slots
+    ADD COLUMN IF NOT EXISTS interviewer_id UUID REFERENCES profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_event_slots_interviewer ON event_slots(interviewer_id)
+    WHERE interviewer_id IS NOT NULL;
+
+COMMENT ON TABLE company_members IS 'Users who recruit for a company, with their company role';
+COMMENT ON TABLE company_invitations IS 'Invitations to join a company team, accepted by signing up with the token';
+COMMENT ON COLUMN event_slots.interviewer_id IS 'Company member who runs the interviews of this slot';
+
+-- =====================================================
+-- MEMBERSHIP CHECKS
+-- =====================================================
+
+-- The variants taking a user are internal; callers only learn about
+-- themselves through the single-argument ones
+CREATE OR REPLACE FUNCTION fn_company_role(p_company_id UUID, p_user_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT role FROM company_members
+    WHERE company_id = p_company_id AND profile_id = p_user_id;
+$$;
+
+CREATE OR REPLACE FUNCTION fn_company_role(p_company_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT fn_company_role(p_company_id, auth.uid());
+$$;
+
+CREATE OR REPLACE FUNCTION fn_my_company_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT company_id FROM company_members WHERE profile_id = auth.uid();
+$$;
+
+-- Company admins handle every slot of the company, interviewers their own
+CREATE OR REPLACE FUNCTION fn_can_handle_slot(p_slot_id UUID, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM event_slots es
+        JOIN company_members cm ON cm.company_id = es.company_id AND cm.profile_id = p_user_id
+        WHERE es.id = p_slot_id
+          AND (cm.role = 'admin' OR es.interviewer_id = p_user_id)
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION fn_can_handle_slot(p_slot_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT fn_can_handle_slot(p_slot_id, auth.uid());
+$$;
+
+-- =====================================================
+-- OWNERS
+-- =====================================================
+
+-- The account a company is linked to is its admin, also when an invited
+-- company links an account that signed up on its own first
+CREATE OR REPLACE FUNCTION fn_sync_company_owner_member()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.profile_id IS NOT NULL THEN
+        INSERT INTO company_members (company_id, profile_id, role)
+        VALUES (NEW.id, NEW.profile_id, 'admin')
+        ON CONFLICT (profile_id) DO UPDATE
+        SET company_id = EXCLUDED.company_id,
+            role = 'admin';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_company_owner_member ON companies;
+CREATE TRIGGER sync_company_owner_member
+    AFTER INSERT OR UPDATE OF profile_id ON companies
+    FOR EACH ROW
+    EXECUTE FUNCTION fn_sync_company_owner_member();
+
+INSERT INTO company_members (company_id, profile_id, role)
+SELECT c.id, c.profile_id, 'admin'
+FROM companies c
+WHERE c.profile_id IS NOT NULL
+ON CONFLICT (profile_id) DO NOTHING;
+
+-- =====================================================
+-- RLS: TEAM TABLES
+-- =====================================================
+
+ALTER TABLE company_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE company_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Members are added, changed and removed through the functions below
+DROP POLICY IF EXISTS "Company members can view their team" ON company_members;
+CREATE POLICY "Company members can view their team" ON company_members
+    FOR SELECT USING (fn_company_role(company_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Admins can view all company members" ON company_members;
+CREATE POLICY "Admins can view all company members" ON company_members
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+    );
+
+DROP POLICY IF EXISTS "Company admins can view invitations" ON company_invitations;
+CREATE POLICY "Company admins can view invitations" ON company_invitations
+    FOR SELECT USING (fn_company_role(company_id) = 'admin');
+
+DROP POLICY IF EXISTS "Company admins can revoke invitations" ON company_invitations;
+CREATE POLICY "Company admins can revoke invitations" ON company_invitations
+    FOR DELETE USING (fn_company_role(company_id) = 'admin' AND accepted_at IS NULL);
+
+-- =====================================================
+-- RLS: COMPANY DATA
+-- =====================================================
+
+-- Company profile
+DROP POLICY IF EXISTS "Companies can see their own profile" ON companies;
+CREATE POLICY "Companies can see their own profile" ON companies
+    FOR SELECT USING (fn_company_role(id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Company owners can view their own company" ON companies;
+CREATE POLICY "Company owners can view their own company" ON companies
+    FOR SELECT USING (fn_company_role(id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Company owners can update their company" ON companies;
+CREATE POLICY "Company owners can update their company" ON companies
+    FOR UPDATE USING (fn_company_role(id) = 'admin');
+
+DROP POLICY IF EXISTS "Companies can upload their own logos" ON storage.objects;
+CREATE POLICY "Companies can upload their own logos" ON storage.objects
+    FOR INSERT WITH CHECK (
+        bucket_id = 'profile-photos'
+        AND (storage.foldername(name))[1] = 'company'
+        AND EXISTS (
+            SELECT 1 FROM companies c
+            WHERE c.id::text = (storage.foldername(name))[2]
+              AND fn_company_role(c.id) = 'admin'
+        )
+    );
+
+DROP POLICY IF EXISTS "Companies can update their own logos" ON storage.objects;
+CREATE POLICY "Companies can update their own logos" ON storage.objects
+    FOR UPDATE USING (
+        bucket_id = 'profile-photos'
+        AND (storage.foldername(name))[1] = 'company'
+        AND EXISTS (
+            SELECT 1 FROM companies c
+            WHERE c.id::text = (storage.foldername(name))[2]
+              AND fn_company_role(c.id) = 'admin'
+        )
+    );
+
+DROP POLICY IF EXISTS "Companies can delete their own logos" ON storage.objects;
+CREATE POLICY "Companies can delete their own logos" ON storage.objects
+    FOR DELETE USING (
+        bucket_id = 'profile-photos'
+        AND (storage.foldername(name))[1] = 'company'
+        AND EXISTS (
+            SELECT 1 FROM companies c
+            WHERE c.id::text = (storage.foldername(name))[2]
+              AND fn_company_role(c.id) = 'admin'
+        )
+    );
+
+-- Representatives
+DROP POLICY IF EXISTS "Companies can view their own representatives" ON company_representatives;
+CREATE POLICY "Companies can view their own representatives" ON company_representatives
+    FOR SELECT USING (fn_company_role(company_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Companies can insert their own representatives" ON company_representatives;
+CREATE POLICY "Companies can insert their own representatives" ON company_representatives
+    FOR INSERT WITH CHECK (fn_company_role(company_id) = 'admin');
+
+DROP POLICY IF EXISTS "Companies can update their own representatives" ON company_representatives;
+CREATE POLICY "Companies can update their own representatives" ON company_representatives
+    FOR UPDATE USING (fn_company_role(company_id) = 'admin');
+
+DROP POLICY IF EXISTS "Companies can delete their own representatives" ON company_representatives;
+CREATE POLICY "Companies can delete their own representatives" ON company_representatives
+    FOR DELETE USING (fn_company_role(company_id) = 'admin');
+
+-- Offers: admins manage them, every member sees them
+DROP POLICY IF EXISTS "Companies can manage their own offers" ON offers;
+CREATE POLICY "Companies can manage their own offers" ON offers
+    FOR ALL USING (fn_company_role(company_id) = 'admin');
+
+DROP POLICY IF EXISTS "Company members can view their offers" ON offers;
+CREATE POLICY "Company members can view their offers" ON offers
+    FOR SELECT USING (fn_company_role(company_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Companies can manage their offer rubrics" ON offer_rubric_criteria;
+CREATE POLICY "Companies can manage their offer rubrics" ON offer_rubric_criteria
+    FOR ALL USING (
+        offer_id IN (SELECT o.id FROM offers o WHERE fn_company_role(o.company_id) = 'admin')
+    ) WITH CHECK (
+        offer_id IN (SELECT o.id FROM offers o WHERE fn_company_role(o.company_id) = 'admin')
+    );
+
+DROP POLICY IF EXISTS "Company members can view their offer rubrics" ON offer_rubric_criteria;
+CREATE POLICY "Company members can view their offer rubrics" ON offer_rubric_criteria
+    FOR SELECT USING (
+        offer_id IN (SELECT o.id FROM offers o WHERE fn_company_role(o.company_id) IS NOT NULL)
+    );
+
+-- Events
+DROP POLICY IF EXISTS "Companies can view their own registrations" ON event_registrations;
+CREATE POLICY "Companies can view their own registrations" ON event_registrations
+    FOR SELECT USING (fn_company_role(company_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Companies can register for events" ON event_registrations;
+CREATE POLICY "Companies can register for events" ON event_registrations
+    FOR INSERT WITH CHECK (fn_company_role(company_id) = 'admin' AND status = 'pending');
+
+DROP POLICY IF EXISTS "Companies can cancel pending registrations" ON event_registrations;
+CREATE POLICY "Companies can cancel pending registrations" ON event_registrations
+    FOR DELETE USING (fn_company_role(company_id) = 'admin' AND status = 'pending');
+
+DROP POLICY IF EXISTS "Companies can view their participations" ON event_participants;
+CREATE POLICY "Companies can view their participations" ON event_participants
+    FOR SELECT USING (fn_company_role(company_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Companies can view their slot overrides" ON company_slot_overrides;
+CREATE POLICY "Companies can view their slot overrides" ON company_slot_overrides
+    FOR SELECT USING (fn_company_role(company_id) IS NOT NULL);
+
+-- Interviews: interviewers only reach the bookings of their slots
+DROP POLICY IF EXISTS "Companies can view bookings for their slots" ON bookings;
+CREATE POLICY "Companies can view bookings for their slots" ON bookings
+    FOR SELECT USING (fn_can_handle_slot(slot_id));
+
+DROP POLICY IF EXISTS "Companies can update their booking notes" ON bookings;
+CREATE POLICY "Companies can update their booking notes" ON bookings
+    FOR UPDATE USING (fn_can_handle_slot(slot_id));
+
+DROP POLICY IF EXISTS "Companies can read resumes of applicants" ON storage.objects;
+CREATE POLICY "Companies can read resumes of applicants" ON storage.objects
+    FOR SELECT USING (
+        bucket_id = 'resumes'
+        AND EXISTS (
+            SELECT 1 FROM bookings b
+            JOIN event_slots es ON es.id = b.slot_id
+            WHERE b.student_id::text = (storage.foldername(name))[1]
+              AND fn_company_role(es.company_id) IS NOT NULL
+        )
+    );
+
+DROP POLICY IF EXISTS "Companies can view their scorecards" ON interview_scorecards;
+CREATE POLICY "Companies can view their scorecards" ON interview_scorecards
+    FOR SELECT USING (fn_company_role(company_id) IS NOT NULL);
+
+-- Pipeline: admins configure the stages, every member follows candidates up
+DROP POLICY IF EXISTS "Companies can manage their pipeline stages" ON company_pipeline_stages;
+CREATE POLICY "Companies can manage their pipeline stages" ON company_pipeline_stages
+    FOR ALL USING (fn_company_role(company_id) = 'admin')
+    WITH CHECK (fn_company_role(company_id) = 'admin');
+
+DROP POLICY IF EXISTS "Company members can view their pipeline stages" ON company_pipeline_stages;
+CREATE POLICY "Company members can view their pipeline stages" ON company_pipeline_stages
+    FOR SELECT USING (fn_company_role(company_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Companies can view their pipeline" ON pipeline_candidates;
+CREATE POLICY "Companies can view their pipeline" ON pipeline_candidates
+    FOR SELECT USING (fn_company_role(company_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Companies can remove pipeline candidates" ON pipeline_candidates;
+CREATE POLICY "Companies can remove pipeline candidates" ON pipeline_candidates
+    FOR DELETE USING (fn_company_role(company_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Companies can view their pipeline history" ON pipeline_stage_history;
+CREATE POLICY "Companies can view their pipeline history" ON pipeline_stage_history
+    FOR SELECT USING (
+        candidate_id IN (
+            SELECT pc.id FROM pipeline_candidates pc
+            WHERE fn_company_role(pc.company_id) IS NOT NULL
+        )
+    );
+
+DROP POLICY IF EXISTS "Companies can view their CV accesses" ON cv_access_log;
+CREATE POLICY "Companies can view their CV accesses" ON cv_access_log
+    FOR SELECT USING (fn_company_role(company_id) IS NOT NULL);
+
+-- =====================================================
+-- COMPANY FUNCTIONS
+-- =====================================================
+-- Same as before, with membership checks instead of companies.profile_id
+
+CREATE OR REPLACE FUNCTION fn_check_in_student(
+    p_event_id UUID,
+    p_code TEXT
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    booking_id UUID,
+    student_name TEXT,
+    slot_time TIMESTAMPTZ,
+    already_checked_in BOOLEAN,
+    message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_company_id UUID;
+    v_code TEXT := trim(COALESCE(p_code, ''));
+    v_student_id UUID;
+    v_booking RECORD;
+BEGIN
+    v_company_id := fn_my_company_id();
+
+    IF v_company_id IS NULL THEN
+        RETURN QUERY SELECT false, NULL::UUID, NULL::TEXT, NULL::TIMESTAMPTZ, false,
+            'Only company accounts can check students in'::TEXT;
+        RETURN;
+    END IF;
+
+    IF upper(v_code) LIKE 'INF1:%' THEN
+        BEGIN
+            IF split_part(v_code, ':', 2)::UUID <> p_event_id THEN
+                RETURN QUERY SELECT false, NULL::UUID, NULL::TEXT, NULL::TIMESTAMPTZ, false,
+                    'This pass belongs to another event'::TEXT;
+                RETURN;
+            END IF;
+            v_student_id := split_part(v_code, ':', 3)::UUID;
+        EXCEPTION WHEN invalid_text_representation THEN
+            v_student_id := NULL;
+        END;
+
+        IF v_student_id IS NULL
+           OR split_part(v_code, ':', 4) <> fn_check_in_signature(p_event_id, v_student_id) THEN
+            RETURN QUERY SELECT false, NULL::UUID, NULL::TEXT, NULL::TIMESTAMPTZ, false,
+                'Invalid check-in pass'::TEXT;
+            RETURN;
+        END IF;
+    ELSE
+        SELECT cic.student_id INTO v_student_id
+        FROM check_in_codes cic
+        WHERE cic.event_id = p_event_id
+          AND cic.short_code = upper(regexp_replace(v_code, '[^A-Za-z0-9]', '', 'g'));
+
+        IF v_student_id IS NULL THEN
+            RETURN QUERY SELECT false, NULL::UUID, NULL::TEXT, NULL::TIMESTAMPTZ, false,
+                'Unknown check-in code'::TEXT;
+            RETURN;
+        END IF;
+    END IF;
+
+    -- The interview with this company closest to now
+    SELECT b.id, b.attended, b.checked_in_at, es.start_time, p.full_name, e.timezone
+    INTO v_booking
+    FROM bookings b
+    JOIN event_slots es ON es.id = b.slot_id
+    JOIN events e ON e.id = es.event_id
+    JOIN profiles p ON p.id = b.student_id
+    WHERE b.student_id = v_student_id
+      AND b.status = 'confirmed'
+      AND es.event_id = p_event_id
+      AND es.company_id = v_company_id
+    ORDER BY abs(extract(epoch FROM es.start_time - NOW()))
+    LIMIT 1
+    FOR UPDATE OF b;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT false, NULL::UUID,
+            (SELECT full_name FROM profiles WHERE id = v_student_id),
+            NULL::TIMESTAMPTZ, false,
+            'This student has no confirmed interview with your company at this event'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_booking.attended IS TRUE THEN
+        RETURN QUERY SELECT true, v_booking.id, v_booking.full_name, v_booking.start_time, true,
+            format('Already checked in at %s', fn_format_event_time(v_booking.checked_in_at, v_booking.timezone))::TEXT;
+        RETURN;
+    END IF;
+
+    UPDATE bookings
+    SET attended = true,
+        checked_in_at = NOW(),
+        checked_in_by = auth.uid()
+    WHERE id = v_booking.id;
+
+    RETURN QUERY SELECT true, v_booking.id, v_booking.full_name, v_booking.start_time, false,
+        format('%s checked in for %s', v_booking.full_name, fn_format_event_time(v_booking.start_time, v_booking.timezone))::TEXT;
+END;
+$$;
+
+-- Manual attendance: true = present, false = no-show, NULL = reset
+CREATE OR REPLACE FUNCTION fn_set_booking_attendance(
+    p_booking_id UUID,
+    p_attended BOOLEAN
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_booking RECORD;
+    v_is_admin BOOLEAN;
+BEGIN
+    SELECT b.id, b.status, b.slot_id
+    INTO v_booking
+    FROM bookings b
+    WHERE b.id = p_booking_id;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT false, 'Booking not found'::TEXT;
+        RETURN;
+    END IF;
+
+    v_is_admin := EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin');
+
+    IF NOT v_is_admin AND NOT fn_can_handle_slot(v_booking.slot_id) THEN
+        RETURN QUERY SELECT false, 'You can only record attendance for your own interviews'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_booking.status <> 'confirmed' THEN
+        RETURN QUERY SELECT false, 'Only confirmed bookings have attendance'::TEXT;
+        RETURN;
+    END IF;
+
+    UPDATE bookings
+    SET attended = p_attended,
+        checked_in_at = CASE WHEN p_attended IS TRUE THEN COALESCE(checked_in_at, NOW()) ELSE NULL END,
+        checked_in_by = CASE WHEN p_attended IS TRUE THEN COALESCE(checked_in_by, auth.uid()) ELSE NULL END
+    WHERE id = p_booking_id;
+
+    RETURN QUERY SELECT true,
+        CASE
+            WHEN p_attended IS TRUE THEN 'Marked as present'
+            WHEN p_attended IS FALSE THEN 'Marked as no-show'
+            ELSE 'Attendance cleared'
+        END::TEXT;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION fn_save_scorecard(
+    p_booking_id UUID,
+    p_scores JSONB,
+    p_recommendation TEXT DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    scorecard_id UUID,
+    total_score NUMERIC,
+    message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_booking RECORD;
+    v_key TEXT;
+    v_value JSONB;
+    v_scale_max INTEGER;
+    v_scorecard_id UUID;
+BEGIN
+    SELECT b.id, b.status, b.student_id, b.slot_id, es.company_id, es.offer_id, es.start_time
+    INTO v_booking
+    FROM bookings b
+    JOIN event_slots es ON es.id = b.slot_id
+    WHERE b.id = p_booking_id;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT false, NULL::UUID, NULL::NUMERIC, 'Booking not found'::TEXT;
+        RETURN;
+    END IF;
+
+    IF NOT fn_can_handle_slot(v_booking.slot_id) THEN
+        RETURN QUERY SELECT false, NULL::UUID, NULL::NUMERIC, 'You can only score your own interviews'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_booking.status <> 'confirmed' THEN
+        RETURN QUERY SELECT false, NULL::UUID, NULL::NUMERIC, 'Cancelled interviews cannot be scored'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_booking.offer_id IS NULL THEN
+        RETURN QUERY SELECT false, NULL::UUID, NULL::NUMERIC, 'This interview slot is not linked to an offer'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_booking.start_time > NOW() THEN
+        RETURN QUERY SELECT false, NULL::UUID, NULL::NUMERIC, 'Interviews can be scored once they have started'::TEXT;
+        RETURN;
+    END IF;
+
+    IF p_recommendation IS NOT NULL AND p_recommendation NOT IN ('strong_yes', 'yes', 'no', 'strong_no') THEN
+        RETURN QUERY SELECT false, NULL::UUID, NULL::NUMERIC, 'Invalid recommendation'::TEXT;
+        RETURN;
+    END IF;
+
+    IF p_scores IS NULL OR jsonb_typeof(p_scores) <> 'object' THEN
+        RETURN QUERY SELECT false, NULL::UUID, NULL::NUMERIC, 'Scores must be an object of criterion scores'::TEXT;
+        RETURN;
+    END IF;
+
+    FOR v_key, v_value IN SELECT * FROM jsonb_each(p_scores)
+    LOOP
+        SELECT rc.scale_max INTO v_scale_max
+        FROM offer_rubric_criteria rc
+        WHERE rc.id::TEXT = v_key AND rc.offer_id = v_booking.offer_id;
+
+        IF v_scale_max IS NULL THEN
+            RETURN QUERY SELECT false, NULL::UUID, NULL::NUMERIC,
+                'The rubric changed. Reload the scorecard and try again.'::TEXT;
+            RETURN;
+        END IF;
+
+        IF jsonb_typeof(v_value) <> 'number'
+           OR (v_value #>> '{}')::NUMERIC <> floor((v_value #>> '{}')::NUMERIC)
+           OR (v_value #>> '{}')::NUMERIC NOT BETWEEN 1 AND v_scale_max THEN
+            RETURN QUERY SELECT false, NULL::UUID, NULL::NUMERIC,
+                format('Scores must be whole numbers from 1 to %s', v_scale_max)::TEXT;
+            RETURN;
+        END IF;
+    END LOOP;
+
+    INSERT INTO interview_scorecards (
+        booking_id, company_id, offer_id, student_id,
+        scores, recommendation, notes, created_by, updated_by
+    )
+    VALUES (
+        p_booking_id, v_booking.company_id, v_booking.offer_id, v_booking.student_id,
+        p_scores, p_recommendation, NULLIF(trim(p_notes), ''), auth.uid(), auth.uid()
+    )
+    ON CONFLICT (booking_id) DO UPDATE
+    SET scores = EXCLUDED.scores,
+        recommendation = EXCLUDED.recommendation,
+        notes = EXCLUDED.notes,
+        updated_by = auth.uid()
+    RETURNING id INTO v_scorecard_id;
+
+    RETURN QUERY SELECT true, v_scorecard_id, fn_scorecard_total(v_booking.offer_id, p_scores),
+        'Scorecard saved'::TEXT;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION fn_get_offer_candidates(p_offer_id UUID)
+RETURNS TABLE (
+    booking_id UUID,
+    student_id UUID,
+    full_name TEXT,
+    email TEXT,
+    slot_time TIMESTAMPTZ,
+    attended BOOLEAN,
+    scorecard_id UUID,
+    total_score NUMERIC,
+    criteria_scored INTEGER,
+    criteria_total INTEGER,
+    recommendation TEXT,
+    rank INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_criteria_total INTEGER;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM offers o
+        WHERE o.id = p_offer_id AND fn_company_role(o.company_id) IS NOT NULL
+    ) THEN
+        RAISE EXCEPTION 'You can only view candidates of your own offers';
+    END IF;
+
+    SELECT COUNT(*)::INTEGER INTO v_criteria_total
+    FROM offer_rubric_criteria
+    WHERE offer_id = p_offer_id;
+
+    RETURN QUERY
+    WITH candidates AS (
+        SELECT
+            b.id AS booking_id,
+            b.student_id,
+            p.full_name,
+            p.email,
+            es.start_time,
+            b.attended,
+            sc.id AS scorecard_id,
+            fn_scorecard_total(p_offer_id, sc.scores) AS total_score,
+            (SELECT COUNT(*)::INTEGER FROM offer_rubric_criteria rc
+             WHERE rc.offer_id = p_offer_id AND sc.scores ? rc.id::TEXT) AS criteria_scored,
+            sc.recommendation
+        FROM bookings b
+        JOIN event_slots es ON es.id = b.slot_id
+        JOIN profiles p ON p.id = b.student_id
+        LEFT JOIN interview_scorecards sc ON sc.booking_id = b.id
+        WHERE es.offer_id = p_offer_id
+          AND b.status = 'confirmed'
+          -- Interviewers only see the candidates of their own slots
+          AND fn_can_handle_slot(es.id)
+    )
+    SELECT
+        c.booking_id,
+        c.student_id,
+        c.full_name,
+        c.email,
+        c.start_time,
+        c.attended,
+        c.scorecard_id,
+        c.total_score,
+        COALESCE(c.criteria_scored, 0),
+        v_criteria_total,
+        c.recommendation,
+        CASE WHEN c.total_score IS NOT NULL
+             THEN (RANK() OVER (ORDER BY c.total_score DESC NULLS LAST))::INTEGER END
+    FROM candidates c
+    ORDER BY c.total_score DESC NULLS LAST, c.start_time;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION fn_move_pipeline_candidates(
+    p_event_id UUID,
+    p_student_ids UUID[],
+    p_stage_id UUID,
+    p_note TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    moved INTEGER,
+    message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_company_id UUID;
+    v_stage_name TEXT;
+    v_student_ids UUID[];
+    v_skipped INTEGER;
+    v_moved INTEGER;
+BEGIN
+    v_company_id := fn_my_company_id();
+
+    IF v_company_id IS NULL THEN
+        RETURN QUERY SELECT false, 0, 'Only company accounts have a candidate pipeline'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT name INTO v_stage_name
+    FROM company_pipeline_stages
+    WHERE id = p_stage_id AND company_id = v_company_id;
+
+    IF v_stage_name IS NULL THEN
+        RETURN QUERY SELECT false, 0, 'Stage not found'::TEXT;
+        RETURN;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM event_participants
+        WHERE event_id = p_event_id AND company_id = v_company_id
+    ) THEN
+        RETURN QUERY SELECT false, 0, 'Your company did not take part in this event'::TEXT;
+        RETURN;
+    END IF;
+
+    IF p_student_ids IS NULL OR cardinality(p_student_ids) = 0 THEN
+        RETURN QUERY SELECT false, 0, 'No candidates selected'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT COALESCE(array_agg(p.id), '{}') INTO v_student_ids
+    FROM profiles p
+    WHERE p.id = ANY(p_student_ids)
+      AND p.role = 'student'
+      AND fn_is_pipeline_eligible(v_company_id, p_event_id, p.id);
+
+    v_skipped := cardinality(ARRAY(SELECT DISTINCT unnest(p_student_ids))) - cardinality(v_student_ids);
+
+    IF cardinality(v_student_ids) = 0 THEN
+        RETURN QUERY SELECT false, 0,
+            'None of the selected students interviewed with your company at this event, accepted an invitation or is bookmarked'::TEXT;
+        RETURN;
+    END IF;
+
+    PERFORM set_config('app.pipeline_note', COALESCE(trim(p_note), ''), true);
+
+    INSERT INTO pipeline_candidates (company_id, event_id, student_id, stage_id, added_by)
+    SELECT v_company_id, p_event_id, s.id, p_stage_id, auth.uid()
+    FROM unnest(v_student_ids) AS s(id)
+    ON CONFLICT (company_id, event_id, student_id) DO UPDATE
+    SET stage_id = EXCLUDED.stage_id
+    WHERE pipeline_candidates.stage_id IS DISTINCT FROM EXCLUDED.stage_id;
+
+    GET DIAGNOSTICS v_moved = ROW_COUNT;
+
+    PERFORM set_config('app.pipeline_note', '', true);
+
+    RETURN QUERY SELECT true, v_moved,
+        format('%s candidate(s) moved to %s%s', v_moved, v_stage_name,
+            CASE WHEN v_skipped > 0
+                 THEN format('; %s skipped (no interview, accepted invitation or bookmark with your company)', v_skipped)
+                 ELSE '' END)::TEXT;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION fn_get_cv_book(
+    p_event_id UUID,
+    p_offer_id UUID DEFAULT NULL,
+    p_session_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    student_id UUID,
+    full_name TEXT,
+    email TEXT,
+    program TEXT,
+    graduation_year INTEGER,
+    profile_photo_url TEXT,
+    resume_url TEXT,
+    cv_url TEXT,
+    slot_time TIMESTAMPTZ,
+    offer_title TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_company_id UUID;
+BEGIN
+    v_company_id := fn_my_company_id();
+
+    IF v_company_id IS NULL THEN
+        RAISE EXCEPTION 'Only company accounts can download CV books';
+    END IF;
+
+    RETURN QUERY
+    WITH book AS (
+        SELECT DISTINCT ON (p.id)
+            p.id AS student_id,
+            p.full_name,
+            p.email,
+            p.program,
+            p.graduation_year,
+            p.profile_photo_url,
+            p.resume_url,
+            p.cv_url,
+            es.start_time AS slot_time,
+            o.title AS offer_title
+        FROM bookings b
+        JOIN event_slots es ON es.id = b.slot_id
+        JOIN profiles p ON p.id = b.student_id
+        LEFT JOIN offers o ON o.id = es.offer_id
+        WHERE es.company_id = v_company_id
+          AND es.event_id = p_event_id
+          AND b.status = 'confirmed'
+          AND (p_offer_id IS NULL OR es.offer_id = p_offer_id)
+          AND (p_session_id IS NULL OR es.session_id = p_session_id)
+          AND fn_has_data_consent(p.id)
+          -- Interviewers only get the students of their own slots
+          AND fn_can_handle_slot(es.id)
+        ORDER BY p.id, es.start_time
+    ),
+    logged AS (
+        INSERT INTO cv_access_log (company_id, student_id, event_id, source, accessed_by)
+        SELECT v_company_id, book.student_id, p_event_id, 'cv_book', auth.uid()
+        FROM book
+        WHERE book.resume_url IS NOT NULL OR book.cv_url IS NOT NULL
+    )
+    SELECT book.student_id, book.full_name, book.email, book.program, book.graduation_year,
+           book.profile_photo_url, book.resume_url, book.cv_url, book.slot_time, book.offer_title
+    FROM book
+    ORDER BY book.slot_time, book.full_name;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION fn_log_cv_access(p_student_id UUID)
+RETURNS TABLE (
+    success BOOLEAN,
+    message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_company_id UUID;
+BEGIN
+    v_company_id := fn_my_company_id();
+
+    IF v_company_id IS NULL THEN
+        RETURN QUERY SELECT false, 'Only company CV accesses are logged'::TEXT;
+        RETURN;
+    END IF;
+
+    INSERT INTO cv_access_log (company_id, student_id, source, accessed_by)
+    VALUES (v_company_id, p_student_id, 'profile', auth.uid());
+
+    RETURN QUERY SELECT true, 'CV access logged'::TEXT;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION fn_calendar_entries(
+    p_user_id UUID,
+    p_booking_id UUID DEFAULT NULL,
+    p_event_id UUID DEFAULT NULL,
+    p_since TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE(
+    uid TEXT,
+    summary TEXT,
+    description TEXT,
+    location TEXT,
+    start_time TIMESTAMPTZ,
+    end_time TIMESTAMPTZ,
+    status TEXT,
+    timezone TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    -- Student: own bookings
+    SELECT
+        'booking-' || b.id::TEXT,
+        'Interview with ' || c.company_name,
+        concat_ws(E'\n',
+            o.title,
+            e.name,
+            CASE WHEN b.status = 'cancelled'
+                 THEN 'Cancelled' || COALESCE(': ' || b.cancelled_reason, '') END),
+        NULLIF(concat_ws(', ',
+            NULLIF(es.location, ''),
+            'Room ' || NULLIF(es.room_number, ''),
+            'Booth ' || NULLIF(ep.booth_location, '')), ''),
+        es.start_time,
+        es.end_time,
+        CASE WHEN b.status = 'confirmed' THEN 'CONFIRMED' ELSE 'CANCELLED' END,
+        COALESCE(e.timezone, 'Africa/Casablanca')
+    FROM bookings b
+    JOIN profiles p ON p.id = b.student_id AND p.role = 'student'
+    JOIN event_slots es ON es.id = b.slot_id
+    JOIN companies c ON c.id = es.company_id
+    LEFT JOIN offers o ON o.id = es.offer_id
+    LEFT JOIN events e ON e.id = es.event_id
+    LEFT JOIN event_participants ep ON ep.event_id = es.event_id AND ep.company_id = es.company_id
+    WHERE b.student_id = p_user_id
+      AND (p_booking_id IS NULL OR b.id = p_booking_id)
+      AND (p_event_id IS NULL OR es.event_id = p_event_id)
+      AND (p_since IS NULL OR es.start_time >= p_since)
+
+    UNION ALL
+
+    -- Company: interview slots the user runs, with the booked students
+    SELECT
+        'slot-' || es.id::TEXT,
+        CASE WHEN COUNT(b.id) = 0
+             THEN 'Open interview slot'
+             ELSE 'Interview: ' || string_agg(sp.full_name, ', ' ORDER BY sp.full_name) END,
+        concat_ws(E'\n',
+            o.title,
+            e.name,
+            string_agg(sp.full_name || ' <' || sp.email || '>', E'\n' ORDER BY sp.full_name)),
+        NULLIF(concat_ws(', ',
+            NULLIF(es.location, ''),
+            'Room ' || NULLIF(es.room_number, ''),
+            'Booth ' || NULLIF(ep.booth_location, '')), ''),
+        es.start_time,
+        es.end_time,
+        CASE WHEN es.is_active THEN 'CONFIRMED' ELSE 'CANCELLED' END,
+        COALESCE(e.timezone, 'Africa/Casablanca')
+    FROM event_slots es
+    JOIN company_members cm ON cm.company_id = es.company_id AND cm.profile_id = p_user_id
+    LEFT JOIN offers o ON o.id = es.offer_id
+    LEFT JOIN events e ON e.id = es.event_id
+    LEFT JOIN event_participants ep ON ep.event_id = es.event_id AND ep.company_id = es.company_id
+    LEFT JOIN bookings b ON b.slot_id = es.id AND b.status = 'confirmed'
+    LEFT JOIN profiles sp ON sp.id = b.student_id
+    WHERE p_booking_id IS NULL
+      AND (cm.role = 'admin' OR es.interviewer_id = p_user_id)
+      AND (p_event_id IS NULL OR es.event_id = p_event_id)
+      AND (p_since IS NULL OR es.start_time >= p_since)
+    GROUP BY es.id, o.title, e.name, e.timezone, ep.booth_location
+
+    ORDER BY 5;
+$$;
+
+CREATE OR REPLACE FUNCTION fn_announcement_audience_includes(
+    p_audience TEXT,
+    p_event_id UUID,
+    p_user_id UUID
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT CASE p_audience
+        WHEN 'all' THEN
+            EXISTS (SELECT 1 FROM profiles p WHERE p.id = p_user_id)
+        WHEN 'students' THEN
+            EXISTS (SELECT 1 FROM profiles p WHERE p.id = p_user_id AND p.role = 'student')
+        WHEN 'companies' THEN
+            EXISTS (SELECT 1 FROM profiles p WHERE p.id = p_user_id AND p.role = 'company')
+        WHEN 'deprioritized_students' THEN
+            EXISTS (SELECT 1 FROM profiles p WHERE p.id = p_user_id AND p.role = 'student' AND p.is_deprioritized)
+        WHEN 'event_participants' THEN
+            EXISTS (
+                SELECT 1
+                FROM bookings b
+                JOIN event_slots es ON es.id = b.slot_id
+                WHERE es.event_id = p_event_id
+                  AND b.student_id = p_user_id
+                  AND b.status = 'confirmed'
+            )
+            OR EXISTS (
+                SELECT 1
+                FROM event_participants ep
+                WHERE ep.event_id = p_event_id
+                  AND fn_company_role(ep.company_id, p_user_id) IS NOT NULL
+            )
+        ELSE false
+    END;
+$$;
+
+-- =====================================================
+-- INVITATIONS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_invite_team_member(
+    p_email TEXT,
+    p_full_name TEXT,
+    p_role TEXT,
+    p_representative_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    invitation_id UUID,
+    message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_company RECORD;
+    v_email TEXT := lower(trim(COALESCE(p_email, '')));
+    v_invitation RECORD;
+BEGIN
+    SELECT c.id, c.company_name INTO v_company
+    FROM companies c
+    WHERE c.id = fn_my_company_id();
+
+    IF NOT FOUND OR fn_company_role(v_company.id) IS DISTINCT FROM 'admin' THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'Only company admins can invite team members'::TEXT;
+        RETURN;
+    END IF;
+
+    IF p_role NOT IN ('admin', 'interviewer') THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'Invalid role'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'Enter a valid email address'::TEXT;
+        RETURN;
+    END IF;
+
+    IF trim(COALESCE(p_full_name, '')) = '' THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'Enter the name of the person you invite'::TEXT;
+        RETURN;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM profiles WHERE lower(email) = v_email) THEN
+        RETURN QUERY SELECT false, NULL::UUID,
+            'This email already has an account. Team members need a new account.'::TEXT;
+        RETURN;
+    END IF;
+
+    IF p_representative_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM company_representatives
+        WHERE id = p_representative_id AND company_id = v_company.id
+    ) THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'Representative not found'::TEXT;
+        RETURN;
+    END IF;
+
+    -- Inviting the same address again renews its invitation
+    INSERT INTO company_invitations (company_id, email, full_name, role, representative_id, invited_by)
+    VALUES (v_company.id, v_email, trim(p_full_name), p_role, p_representative_id, auth.uid())
+    ON CONFLICT (company_id, lower(email)) WHERE accepted_at IS NULL DO UPDATE
+    SET full_name = EXCLUDED.full_name,
+        role = EXCLUDED.role,
+        representative_id = EXCLUDED.representative_id,
+        invited_by = EXCLUDED.invited_by,
+        token = encode(extensions.gen_random_bytes(24), 'hex'),
+        created_at = NOW(),
+        expires_at = NOW() + INTERVAL '14 days'
+    RETURNING id, token, full_name, role INTO v_invitation;
+
+    PERFORM fn_enqueue_email(
+        'team_invitation',
+        v_email,
+        jsonb_build_object(
+            'inviteeName', v_invitation.full_name,
+            'companyName', v_company.company_name,
+            'roleLabel', CASE v_invitation.role WHEN 'admin' THEN 'Company admin' ELSE 'Interviewer' END,
+            'inviterName', (SELECT full_name FROM profiles WHERE id = auth.uid()),
+            'token', v_invitation.token
+        ),
+        NULL,
+        'team_invitation:' || v_invitation.token
+    );
+
+    RETURN QUERY SELECT true, v_invitation.id, format('Invitation sent to %s', v_email)::TEXT;
+END;
+$$;
+
+-- What the join page shows; nothing for unknown, used or expired tokens
+CREATE OR REPLACE FUNCTION fn_get_team_invitation(p_token TEXT)
+RETURNS TABLE (
+    company_name TEXT,
+    email TEXT,
+    full_name TEXT,
+    role TEXT,
+    expires_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT c.company_name, ci.email, ci.full_name, ci.role, ci.expires_at
+    FROM company_invitations ci
+    JOIN companies c ON c.id = ci.company_id
+    WHERE ci.token = p_token
+      AND ci.accepted_at IS NULL
+      AND ci.expires_at > NOW();
+$$;
+
+-- Called when an invited recruiter's account is created
+CREATE OR REPLACE FUNCTION fn_accept_team_invitation(
+    p_user_id UUID,
+    p_email TEXT,
+    p_token TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_invitation RECORD;
+BEGIN
+    IF p_token IS NULL THEN
+        RETURN false;
+    END IF;
+
+    SELECT * INTO v_invitation
+    FROM company_invitations
+    WHERE token = p_token
+      AND accepted_at IS NULL
+      AND expires_at > NOW()
+      AND lower(email) = lower(trim(p_email))
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN false;
+    END IF;
+
+    INSERT INTO company_members (company_id, profile_id, role, representative_id, invited_by)
+    VALUES (v_invitation.company_id, p_user_id, v_invitation.role,
+            v_invitation.representative_id, v_invitation.invited_by)
+    ON CONFLICT (profile_id) DO NOTHING;
+
+    UPDATE company_invitations
+    SET accepted_at = NOW(),
+        accepted_by = p_user_id
+    WHERE id = v_invitation.id;
+
+    RETURN true;
+END;
+$$;
+
+-- Invited recruiters join their team instead of creating a company
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    user_role TEXT;
+    user_full_name TEXT;
+    user_phone TEXT;
+    user_is_deprioritized BOOLEAN;
+    profile_exists BOOLEAN;
+BEGIN
+    -- Check if profile already exists
+    SELECT EXISTS(SELECT 1 FROM public.profiles WHERE id = NEW.id) INTO profile_exists;
+    
+    IF profile_exists THEN
+        RETURN NEW;
+    END IF;
+
+    -- Get metadata
+    user_role := COALESCE(NEW.raw_user_meta_data->>'role', 'student');
+    user_full_name := COALESCE(NEW.raw_user_meta_data->>'full_name', split_part(NEW.email, '@', 1));
+    user_phone := NEW.raw_user_meta_data->>'phone';
+    user_is_deprioritized := COALESCE((NEW.raw_user_meta_data->>'is_deprioritized')::boolean, false);
+
+    -- Create profile with student-specific fields if needed
+    IF user_role = 'student' THEN
+        INSERT INTO public.profiles (
+            id, email, full_name, role, is_deprioritized, phone,
+            student_number, specialization, graduation_year
+        )
+        VALUES (
+            NEW.id,
+            NEW.email,
+            user_full_name,
+            user_role::user_role,
+            user_is_deprioritized,
+            user_phone,
+            -- NULL by default - user fills later in profile
+            (NEW.raw_user_meta_data->>'student_number')::TEXT,
+            (NEW.raw_user_meta_data->>'specialization')::TEXT,
+            (NEW.raw_user_meta_data->>'graduation_year')::INTEGER
+        )
+        ON CONFLICT (id) DO NOTHING;
+    ELSE
+        INSERT INTO public.profiles (id, email, full_name, role, is_deprioritized, phone)
+        VALUES (
+            NEW.id,
+            NEW.email,
+            user_full_name,
+            user_role::user_role,
+            user_is_deprioritized,
+            user_phone
+        )
+        ON CONFLICT (id) DO NOTHING;
+    END IF;
+
+    -- If company, join the team that invited the user or create a company record
+    IF user_role = 'company'
+       AND NOT fn_accept_team_invitation(NEW.id, NEW.email, NEW.raw_user_meta_data->>'team_invite_token') THEN
+        INSERT INTO public.companies (
+            profile_id,
+            company_name,
+            description,
+            website,
+            is_verified,
+            verification_status
+        )
+        VALUES (
+            NEW.id,
+            COALESCE(NEW.raw_user_meta_data->>'company_name', 'Company Name'),
+            NEW.raw_user_meta_data->>'description',
+            NEW.raw_user_meta_data->>'website',
+            false,
+            'pending'
+        )
+        ON CONFLICT (profile_id) DO NOTHING;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- =====================================================
+-- TEAM MANAGEMENT
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_update_team_member_role(
+    p_member_id UUID,
+    p_role TEXT
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_member RECORD;
+BEGIN
+    SELECT cm.id, cm.company_id, cm.profile_id, c.profile_id AS owner_id
+    INTO v_member
+    FROM company_members cm
+    JOIN companies c ON c.id = cm.company_id
+    WHERE cm.id = p_member_id;
+
+    IF NOT FOUND OR fn_company_role(v_member.company_id) IS DISTINCT FROM 'admin' THEN
+        RETURN QUERY SELECT false, 'Only company admins can change roles'::TEXT;
+        RETURN;
+    END IF;
+
+    IF p_role NOT IN ('admin', 'interviewer') THEN
+        RETURN QUERY SELECT false, 'Invalid role'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_member.profile_id = v_member.owner_id THEN
+        RETURN QUERY SELECT false, 'The company account owner is always an admin'::TEXT;
+        RETURN;
+    END IF;
+
+    UPDATE company_members SET role = p_role WHERE id = p_member_id;
+
+    RETURN QUERY SELECT true, 'Role updated'::TEXT;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION fn_remove_team_member(p_member_id UUID)
+RETURNS TABLE (
+    success BOOLEAN,
+    message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_member RECORD;
+BEGIN
+    SELECT cm.id, cm.company_id, cm.profile_id, c.profile_id AS owner_id
+    INTO v_member
+    FROM company_members cm
+    JOIN companies c ON c.id = cm.company_id
+    WHERE cm.id = p_member_id;
+
+    IF NOT FOUND OR fn_company_role(v_member.company_id) IS DISTINCT FROM 'admin' THEN
+        RETURN QUERY SELECT false, 'Only company admins can remove team members'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_member.profile_id = v_member.owner_id THEN
+        RETURN QUERY SELECT false, 'The company account owner cannot be removed'::TEXT;
+        RETURN;
+    END IF;
+
+    UPDATE event_slots
+    SET interviewer_id = NULL
+    WHERE company_id = v_member.company_id
+      AND interviewer_id = v_member.profile_id;
+
+    DELETE FROM company_members WHERE id = p_member_id;
+
+    RETURN QUERY SELECT true, 'Team member removed'::TEXT;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION fn_assign_slot_interviewer(
+    p_slot_id UUID,
+    p_interviewer_id UUID
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_company_id UUID;
+BEGIN
+    SELECT es.company_id INTO v_company_id
+    FROM event_slots es
+    WHERE es.id = p_slot_id;
+
+    IF v_company_id IS NULL OR fn_company_role(v_company_id) IS DISTINCT FROM 'admin' THEN
+        RETURN QUERY SELECT false, 'Only company admins can assign interviewers'::TEXT;
+        RETURN;
+    END IF;
+
+    IF p_interviewer_id IS NOT NULL AND fn_company_role(v_company_id, p_interviewer_id) IS NULL THEN
+        RETURN QUERY SELECT false, 'The interviewer is not a member of your team'::TEXT;
+        RETURN;
+    END IF;
+
+    UPDATE event_slots SET interviewer_id = p_interviewer_id WHERE id = p_slot_id;
+
+    RETURN QUERY SELECT true,
+        CASE WHEN p_interviewer_id IS NULL THEN 'Interviewer unassigned' ELSE 'Interviewer assigned' END::TEXT;
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION fn_sync_company_owner_member() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION fn_accept_team_invitation(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION fn_company_role(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION fn_can_handle_slot(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION fn_company_role(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_my_company_id() TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_can_handle_slot(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_invite_team_member(TEXT, TEXT, TEXT, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_get_team_invitation(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION fn_update_team_member_role(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_remove_team_member(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_assign_slot_interviewer(UUID, UUID) TO authenticated;
+
+COMMENT ON FUNCTION fn_company_role(UUID, UUID) IS
+    'Internal. Role of a user in a company team (admin or interviewer), NULL when not a member.';
+COMMENT ON FUNCTION fn_company_role(UUID) IS
+    'Role of the current user in a company team (admin or interviewer), NULL when not a member.';
+COMMENT ON FUNCTION fn_my_company_id IS
+    'Company the current user recruits for, if any.';
+COMMENT ON FUNCTION fn_can_handle_slot(UUID, UUID) IS
+    'Internal. Whether a user runs the interviews of a slot: company admins always, interviewers when assigned.';
+COMMENT ON FUNCTION fn_can_handle_slot(UUID) IS
+    'Whether the current user runs the interviews of a slot: company admins always, interviewers when assigned.';
+COMMENT ON FUNCTION fn_sync_company_owner_member IS
+    'Internal. Keeps the account a company is linked to as an admin member.';
+COMMENT ON FUNCTION fn_invite_team_member IS
+    'Company admin only. Invites a recruiter by email; inviting again renews the invitation.';
+COMMENT ON FUNCTION fn_get_team_invitation IS
+    'Public. Company, address and role of an open invitation token, for the join page.';
+COMMENT ON FUNCTION fn_accept_team_invitation IS
+    'Internal. Adds a newly created account to the team that invited it.';
+COMMENT ON FUNCTION fn_update_team_member_role IS
+    'Company admin only. Changes the role of a team member other than the account owner.';
+COMMENT ON FUNCTION fn_remove_team_member IS
+    'Company admin only. Removes a team member and unassigns their slots.';
+COMMENT ON FUNCTION fn_assign_slot_interviewer IS
+    'Company admin only. Assigns a slot to a team member, or unassigns it with NULL.';
@@ -0,0 +1,286 @@
+-- Migration: Talent Directory
+-- Created: 2026-01-30
+-- Description: Opt-in talent directory. Students who gave data processing
+-- consent can list themselves from their profile and become searchable by
+-- verified companies, with filters on program, specialization, graduation
+-- year, spoken languages and skills. Company team members bookmark students
+-- for the whole team. Consent is checked on every search, and withdrawing
+-- consent or leaving the directory removes the student's bookmarks.
+
+-- =====================================================
+-- PROFILE FIELDS
+-- =====================================================
+
+ALTER TABLE profiles
+    ADD COLUMN IF NOT EXISTS talent_directory_opt_in BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS talent_directory_opt_in_date TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS skills TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_profiles_talent_directory ON profiles(full_name)
+    WHERE talent_directory_opt_in = true;
+
+COMMENT ON COLUMN profiles.talent_directory_opt_in IS 'Student is listed in the talent directory searched by verified companies';
+COMMENT ON COLUMN profiles.talent_directory_opt_in_date IS 'When the student joined the talent directory';
+COMMENT ON COLUMN profiles.skills IS 'Skills the student lists on their profile';
+
+-- =====================================================
+-- BOOKMARKS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS talent_bookmarks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    student_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (company_id, student_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_talent_bookmarks_student ON talent_bookmarks(student_id);
+
+ALTER TABLE talent_bookmarks ENABLE ROW LEVEL SECURITY;
+
+-- Bookmarks are only written by fn_set_talent_bookmark
+DROP POLICY IF EXISTS "Company members can view their bookmarks" ON talent_bookmarks;
+CREATE POLICY "Company members can view their bookmarks" ON talent_bookmarks
+    FOR SELECT USING (fn_company_role(company_id) IS NOT NULL);
+
+COMMENT ON TABLE talent_bookmarks IS 'Students of the talent directory bookmarked by a company team';
+
+-- =====================================================
+-- CONSENT
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_in_talent_directory(p_student_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE id = p_student_id
+          AND role = 'student'
+          AND talent_directory_opt_in = true
+    ) AND fn_has_data_consent(p_student_id);
+$$;
+
+-- Leaving the directory, or withdrawing consent, unlists the student and
+-- drops every company's bookmark of them
+CREATE OR REPLACE FUNCTION fn_sync_talent_directory_consent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.consent_withdrawn OR NOT NEW.consent_given OR NEW.role <> 'student' THEN
+        NEW.talent_directory_opt_in := false;
+    END IF;
+
+    IF NEW.talent_directory_opt_in AND NOT OLD.talent_directory_opt_in THEN
+        NEW.talent_directory_opt_in_date := NOW();
+    ELSIF NOT NEW.talent_directory_opt_in THEN
+        NEW.talent_directory_opt_in_date := NULL;
+    END IF;
+
+    IF OLD.talent_directory_opt_in AND NOT NEW.talent_directory_opt_in THEN
+        DELETE FROM talent_bookmarks WHERE student_id = NEW.id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_talent_directory_consent ON profiles;
+CREATE TRIGGER sync_talent_directory_consent
+    BEFORE UPDATE OF talent_directory_opt_in, consent_given, consent_withdrawn, role ON profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION fn_sync_talent_directory_consent();
+
+-- =====================================================
+-- SEARCH
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_search_talent_directory(
+    p_search TEXT DEFAULT NULL,
+    p_program TEXT DEFAULT NULL,
+    p_specialization TEXT DEFAULT NULL,
+    p_graduation_year INTEGER DEFAULT NULL,
+    p_language TEXT DEFAULT NULL,
+    p_skill TEXT DEFAULT NULL,
+    p_bookmarked_only BOOLEAN DEFAULT false,
+    p_limit INTEGER DEFAULT 20,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    student_id UUID,
+    full_name TEXT,
+    email TEXT,
+    program TEXT,
+    specialization TEXT,
+    graduation_year INTEGER,
+    year_of_study INTEGER,
+    languages_spoken TEXT[],
+    skills TEXT[],
+    biography TEXT,
+    linkedin_url TEXT,
+    profile_photo_url TEXT,
+    is_bookmarked BOOLEAN,
+    total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_company_id UUID := fn_my_company_id();
+    v_search TEXT := NULLIF(TRIM(p_search), '');
+BEGIN
+    IF v_company_id IS NULL OR NOT EXISTS (
+        SELECT 1 FROM companies WHERE id = v_company_id AND is_verified = true
+    ) THEN
+        RAISE EXCEPTION 'The talent directory is only available to verified companies';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        p.id,
+        p.full_name,
+        p.email,
+        p.program,
+        p.specialization,
+        p.graduation_year,
+        p.year_of_study,
+        COALESCE(p.languages_spoken, '{}'),
+        p.skills,
+        p.biography,
+        p.linkedin_url,
+        p.profile_photo_url,
+        tb.id IS NOT NULL,
+        COUNT(*) OVER ()
+    FROM profiles p
+    LEFT JOIN talent_bookmarks tb ON tb.student_id = p.id AND tb.company_id = v_company_id
+    WHERE p.role = 'student'
+      AND p.talent_directory_opt_in = true
+      AND p.consent_given = true
+      AND p.consent_withdrawn = false
+      AND (NOT p_bookmarked_only OR tb.id IS NOT NULL)
+      AND (p_program IS NULL OR p.program = p_program)
+      AND (p_specialization IS NULL OR p.specialization = p_specialization)
+      AND (p_graduation_year IS NULL OR p.graduation_year = p_graduation_year)
+      AND (p_language IS NULL OR p_language = ANY(p.languages_spoken))
+      AND (p_skill IS NULL OR EXISTS (
+          SELECT 1 FROM unnest(p.skills) AS s(skill) WHERE lower(s.skill) = lower(p_skill)
+      ))
+      AND (v_search IS NULL
+           OR p.full_name ILIKE '%' || v_search || '%'
+           OR p.biography ILIKE '%' || v_search || '%'
+           OR array_to_string(p.skills, ' ') ILIKE '%' || v_search || '%')
+    ORDER BY p.full_name, p.id
+    LIMIT LEAST(GREATEST(p_limit, 1), 100)
+    OFFSET GREATEST(p_offset, 0);
+END;
+$$;
+
+-- Values present in the directory, for the search filters
+CREATE OR REPLACE FUNCTION fn_get_talent_directory_filters()
+RETURNS TABLE (
+    programs TEXT[],
+    specializations TEXT[],
+    graduation_years INTEGER[],
+    languages TEXT[],
+    skills TEXT[]
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_company_id UUID := fn_my_company_id();
+BEGIN
+    IF v_company_id IS NULL OR NOT EXISTS (
+        SELECT 1 FROM companies WHERE id = v_company_id AND is_verified = true
+    ) THEN
+        RAISE EXCEPTION 'The talent directory is only available to verified companies';
+    END IF;
+
+    RETURN QUERY
+    WITH listed AS (
+        SELECT p.program, p.specialization, p.graduation_year, p.languages_spoken, p.skills
+        FROM profiles p
+        WHERE p.role = 'student'
+          AND p.talent_directory_opt_in = true
+          AND p.consent_given = true
+          AND p.consent_withdrawn = false
+    )
+    SELECT
+        COALESCE((SELECT array_agg(DISTINCT l.program ORDER BY l.program) FROM listed l WHERE l.program IS NOT NULL), '{}'),
+        COALESCE((SELECT array_agg(DISTINCT l.specialization ORDER BY l.specialization) FROM listed l WHERE l.specialization IS NOT NULL), '{}'),
+        COALESCE((SELECT array_agg(DISTINCT l.graduation_year ORDER BY l.graduation_year) FROM listed l WHERE l.graduation_year IS NOT NULL), '{}'),
+        COALESCE((SELECT array_agg(DISTINCT lang ORDER BY lang) FROM listed l, unnest(l.languages_spoken) AS lang), '{}'),
+        COALESCE((SELECT array_agg(DISTINCT skill ORDER BY skill) FROM listed l, unnest(l.skills) AS skill), '{}');
+END;
+$$;
+
+-- =====================================================
+-- BOOKMARKING
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_set_talent_bookmark(p_student_id UUID, p_bookmarked BOOLEAN)
+RETURNS TABLE(success BOOLEAN, message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_company_id UUID := fn_my_company_id();
+BEGIN
+    IF v_company_id IS NULL THEN
+        RETURN QUERY SELECT false, 'Only company team members can bookmark students'::TEXT;
+        RETURN;
+    END IF;
+
+    IF NOT p_bookmarked THEN
+        DELETE FROM talent_bookmarks
+        WHERE company_id = v_company_id AND student_id = p_student_id;
+        RETURN QUERY SELECT true, 'Bookmark removed'::TEXT;
+        RETURN;
+    END IF;
+
+    IF NOT fn_in_talent_directory(p_student_id) THEN
+        RETURN QUERY SELECT false, 'This student is no longer in the talent directory'::TEXT;
+        RETURN;
+    END IF;
+
+    INSERT INTO talent_bookmarks (company_id, student_id, created_by)
+    VALUES (v_company_id, p_student_id, auth.uid())
+    ON CONFLICT (company_id, student_id) DO NOTHING;
+
+    RETURN QUERY SELECT true, 'Student bookmarked'::TEXT;
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION fn_in_talent_directory(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION fn_sync_talent_directory_consent() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION fn_search_talent_directory(TEXT, TEXT, TEXT, INTEGER, TEXT, TEXT, BOOLEAN, INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_get_talent_directory_filters() TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_set_talent_bookmark(UUID, BOOLEAN) TO authenticated;
+
+COMMENT ON FUNCTION fn_in_talent_directory IS
+    'Internal. Whether a student is listed in the talent directory and has data processing consent.';
+COMMENT ON FUNCTION fn_sync_talent_directory_consent IS
+    'Internal. Unlists students who withdraw consent and drops their bookmarks.';
+COMMENT ON FUNCTION fn_search_talent_directory IS
+    'Verified company only. Searches consenting students listed in the talent directory.';
+COMMENT ON FUNCTION fn_get_talent_directory_filters IS
+    'Verified company only. Programs, specializations, graduation years, languages and skills in the directory.';
+COMMENT ON FUNCTION fn_set_talent_bookmark IS
+    'Company only. Bookmarks a directory student for the team, or removes the bookmark.';
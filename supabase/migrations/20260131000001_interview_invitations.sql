@@ -0,0 +1,599 @@
+-- Migration: Interview Invitations
+-- Created: 2026-01-31
+-- Description: Companies invite a specific student to interview for one of
+-- their offers in a chosen slot. The student gets a notification and an email
+-- with a link to accept, which books the slot in one step, or decline.
+-- Invitations expire (three days by default, at the latest when the slot
+-- starts) and keep their status: sent, accepted, declined, expired or
+-- cancelled. Admins decide per event whether an accepted invitation may go
+-- over the booking limit and eligibility rules of the active phase.
+-- Accepted invitations, like directory bookmarks, let the company track the
+-- student in its candidate pipeline.
+
+-- =====================================================
+-- EVENT SETTING
+-- =====================================================
+
+ALTER TABLE events
+    ADD COLUMN IF NOT EXISTS invitations_bypass_phase_limit BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN events.invitations_bypass_phase_limit IS
+    'Students accepting a company invitation can book past the limit and eligibility rules of the active phase';
+
+-- =====================================================
+-- INVITATIONS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS interview_invitations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    student_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    offer_id UUID NOT NULL REFERENCES offers(id) ON DELETE CASCADE,
+    slot_id UUID NOT NULL REFERENCES event_slots(id) ON DELETE CASCADE,
+    message TEXT CHECK (message IS NULL OR length(message) <= 1000),
+    status TEXT NOT NULL DEFAULT 'sent'
+        CHECK (status IN ('sent', 'accepted', 'declined', 'expired', 'cancelled')),
+    expires_at TIMESTAMPTZ NOT NULL,
+    booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+    invited_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    responded_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_interview_invitations_company ON interview_invitations(company_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_interview_invitations_student ON interview_invitations(student_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_interview_invitations_pending ON interview_invitations(expires_at)
+    WHERE status = 'sent';
+
+ALTER TABLE interview_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Invitations are only written by the functions below
+DROP POLICY IF EXISTS "Company members can view their invitations" ON interview_invitations;
+CREATE POLICY "Company members can view their invitations" ON interview_invitations
+    FOR SELECT USING (fn_company_role(company_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Students can view their invitations" ON interview_invitations;
+CREATE POLICY "Students can view their invitations" ON interview_invitations
+    FOR SELECT USING (student_id = auth.uid());
+
+DROP POLICY IF EXISTS "Admins can view all invitations" ON interview_invitations;
+CREATE POLICY "Admins can view all invitations" ON interview_invitations
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+    );
+
+COMMENT ON TABLE interview_invitations IS 'Invitations from a company to a student to interview in a given slot';
+
+-- =====================================================
+-- HELPERS
+-- =====================================================
+
+-- Tells the recruiter who sent an invitation that it was answered or expired
+CREATE OR REPLACE FUNCTION fn_notify_invitation_sender(
+    p_invitation_id UUID,
+    p_title TEXT,
+    p_message TEXT,
+    p_type TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_invitation RECORD;
+BEGIN
+    SELECT ii.invited_by, ii.company_id INTO v_invitation
+    FROM interview_invitations ii
+    WHERE ii.id = p_invitation_id;
+
+    IF v_invitation.invited_by IS NULL
+       OR fn_company_role(v_invitation.company_id, v_invitation.invited_by) IS NULL THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO notifications (user_id, title, message, type, action_url)
+    VALUES (v_invitation.invited_by, p_title, p_message, p_type, '/company/students?view=invitations');
+END;
+$$;
+
+-- =====================================================
+-- SEND
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_send_interview_invitation(
+    p_student_id UUID,
+    p_offer_id UUID,
+    p_slot_id UUID,
+    p_message TEXT DEFAULT NULL,
+    p_expires_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE(success BOOLEAN, invitation_id UUID, message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_company_id UUID := fn_my_company_id();
+    v_student RECORD;
+    v_offer RECORD;
+    v_slot RECORD;
+    v_expires_at TIMESTAMPTZ;
+    v_invitation_id UUID;
+    v_company_name TEXT;
+BEGIN
+    IF v_company_id IS NULL THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'Only company team members can invite students'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT p.id, p.full_name, p.email INTO v_student
+    FROM profiles p
+    WHERE p.id = p_student_id AND p.role = 'student';
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'Student not found'::TEXT;
+        RETURN;
+    END IF;
+
+    IF NOT fn_has_data_consent(p_student_id) THEN
+        RETURN QUERY SELECT false, NULL::UUID,
+            'This student has not consented to the processing of their data and cannot be invited'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT o.id, o.title, o.event_id INTO v_offer
+    FROM offers o
+    WHERE o.id = p_offer_id AND o.company_id = v_company_id AND o.is_active = true;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'Offer not found or inactive'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT es.id, es.event_id, es.offer_id, es.start_time, es.capacity, e.name AS event_name, e.timezone
+    INTO v_slot
+    FROM event_slots es
+    JOIN events e ON e.id = es.event_id
+    WHERE es.id = p_slot_id
+      AND es.company_id = v_company_id
+      AND es.is_active = true;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'Slot not found'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_slot.start_time <= NOW() THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'This slot has already started'::TEXT;
+        RETURN;
+    END IF;
+
+    IF (v_slot.offer_id IS NOT NULL AND v_slot.offer_id <> p_offer_id)
+       OR (v_offer.event_id IS NOT NULL AND v_offer.event_id <> v_slot.event_id) THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'This slot is not open for this offer'::TEXT;
+        RETURN;
+    END IF;
+
+    IF (SELECT COUNT(*) FROM bookings WHERE slot_id = p_slot_id AND status = 'confirmed') >= v_slot.capacity THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'This slot is fully booked'::TEXT;
+        RETURN;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM bookings b
+        JOIN event_slots es ON es.id = b.slot_id
+        WHERE b.student_id = p_student_id
+          AND b.status = 'confirmed'
+          AND es.company_id = v_company_id
+          AND es.event_id = v_slot.event_id
+    ) THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'This student already has an interview with your company at this event'::TEXT;
+        RETURN;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM interview_invitations ii
+        WHERE ii.company_id = v_company_id
+          AND ii.student_id = p_student_id
+          AND ii.offer_id = p_offer_id
+          AND ii.status = 'sent'
+          AND ii.expires_at > NOW()
+    ) THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'This student already has an open invitation for this offer'::TEXT;
+        RETURN;
+    END IF;
+
+    v_expires_at := LEAST(COALESCE(p_expires_at, NOW() + INTERVAL '3 days'), v_slot.start_time);
+
+    IF v_expires_at <= NOW() THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'The invitation must expire in the future'::TEXT;
+        RETURN;
+    END IF;
+
+    INSERT INTO interview_invitations (company_id, student_id, offer_id, slot_id, message, expires_at, invited_by)
+    VALUES (v_company_id, p_student_id, p_offer_id, p_slot_id, NULLIF(TRIM(p_message), ''), v_expires_at, auth.uid())
+    RETURNING id INTO v_invitation_id;
+
+    SELECT company_name INTO v_company_name FROM companies WHERE id = v_company_id;
+
+    INSERT INTO notifications (user_id, title, message, type, action_url)
+    VALUES (
+        p_student_id,
+        'Interview Invitation',
+        format('%s invites you to interview for %s on %s. Answer before %s.',
+            v_company_name,
+            v_offer.title,
+            fn_format_event_time(v_slot.start_time, v_slot.timezone),
+            fn_format_event_time(v_expires_at, v_slot.timezone)),
+        'interview_invitation',
+        '/student?invitation=' || v_invitation_id
+    );
+
+    PERFORM fn_enqueue_email(
+        'interview_invitation',
+        v_student.email,
+        jsonb_build_object(
+            'studentName', v_student.full_name,
+            'companyName', v_company_name,
+            'offerTitle', v_offer.title,
+            'eventName', v_slot.event_name,
+            'startTime', v_slot.start_time,
+            'expiresAt', v_expires_at,
+            'message', NULLIF(TRIM(p_message), ''),
+            'invitationId', v_invitation_id,
+            'timeZone', v_slot.timezone
+        ),
+        p_student_id,
+        'interview_invitation:' || v_invitation_id
+    );
+
+    RETURN QUERY SELECT true, v_invitation_id, format('Invitation sent to %s', v_student.full_name)::TEXT;
+END;
+$$;
+
+-- =====================================================
+-- RESPOND
+-- =====================================================
+
+-- Accepting books the invited slot. Capacity, existing bookings with the
+-- company and time conflicts are checked as in fn_book_interview; the phase
+-- limit and eligibility only when the event does not let invitations bypass them.
+CREATE OR REPLACE FUNCTION fn_respond_interview_invitation(p_invitation_id UUID, p_accept BOOLEAN)
+RETURNS TABLE(success BOOLEAN, booking_id UUID, message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_invitation RECORD;
+    v_slot RECORD;
+    v_student_name TEXT;
+    v_current_phase INTEGER;
+    v_can_book BOOLEAN;
+    v_limit_message TEXT;
+    v_booking_id UUID;
+BEGIN
+    SELECT ii.id, ii.company_id, ii.offer_id, ii.slot_id, ii.status, ii.expires_at, o.title AS offer_title
+    INTO v_invitation
+    FROM interview_invitations ii
+    JOIN offers o ON o.id = ii.offer_id
+    WHERE ii.id = p_invitation_id AND ii.student_id = auth.uid()
+    FOR UPDATE OF ii;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'Invitation not found'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_invitation.status <> 'sent' THEN
+        RETURN QUERY SELECT false, NULL::UUID, format('This invitation was already %s', v_invitation.status)::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT full_name INTO v_student_name FROM profiles WHERE id = auth.uid();
+
+    IF v_invitation.expires_at <= NOW() THEN
+        UPDATE interview_invitations SET status = 'expired' WHERE id = p_invitation_id;
+        RETURN QUERY SELECT false, NULL::UUID, 'This invitation has expired'::TEXT;
+        RETURN;
+    END IF;
+
+    IF NOT p_accept THEN
+        UPDATE interview_invitations
+        SET status = 'declined', responded_at = NOW()
+        WHERE id = p_invitation_id;
+
+        PERFORM fn_notify_invitation_sender(
+            p_invitation_id,
+            'Invitation Declined',
+            format('%s declined your invitation to interview for %s.', v_student_name, v_invitation.offer_title),
+            'invitation_declined'
+        );
+
+        RETURN QUERY SELECT true, NULL::UUID, 'Invitation declined'::TEXT;
+        RETURN;
+    END IF;
+
+    -- Lock the slot row so concurrent bookings see accurate counts
+    SELECT es.id, es.event_id, es.company_id, es.capacity, es.start_time, es.end_time, es.is_active,
+           e.invitations_bypass_phase_limit
+    INTO v_slot
+    FROM event_slots es
+    JOIN events e ON e.id = es.event_id
+    WHERE es.id = v_invitation.slot_id
+    FOR UPDATE OF es;
+
+    IF NOT FOUND OR NOT v_slot.is_active OR v_slot.start_time <= NOW() THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'This interview slot is no longer available'::TEXT;
+        RETURN;
+    END IF;
+
+    IF (SELECT COUNT(*) FROM bookings WHERE slot_id = v_slot.id AND status = 'confirmed') >= v_slot.capacity THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'This slot is fully booked. Contact the company for another time.'::TEXT;
+        RETURN;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM bookings b
+        JOIN event_slots es ON es.id = b.slot_id
+        WHERE b.student_id = auth.uid()
+          AND b.status = 'confirmed'
+          AND es.company_id = v_slot.company_id
+          AND es.event_id = v_slot.event_id
+    ) THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'You already have a booking with this company for this event'::TEXT;
+        RETURN;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM bookings b
+        JOIN event_slots es ON es.id = b.slot_id
+        WHERE b.student_id = auth.uid()
+          AND b.status = 'confirmed'
+          AND es.start_time < v_slot.end_time
+          AND es.end_time > v_slot.start_time
+    ) THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'This time slot conflicts with another booking'::TEXT;
+        RETURN;
+    END IF;
+
+    v_current_phase := fn_resolve_event_phase(v_slot.event_id);
+
+    IF v_current_phase = 0 THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'Bookings are currently closed for this event'::TEXT;
+        RETURN;
+    END IF;
+
+    IF NOT v_slot.invitations_bypass_phase_limit THEN
+        SELECT l.can_book, l.message INTO v_can_book, v_limit_message
+        FROM fn_check_student_booking_limit(auth.uid(), v_slot.event_id) l;
+
+        IF NOT COALESCE(v_can_book, false) THEN
+            RETURN QUERY SELECT false, NULL::UUID, COALESCE(v_limit_message, 'You cannot book at the moment')::TEXT;
+            RETURN;
+        END IF;
+    END IF;
+
+    -- A cancelled booking of the same slot would block the unique constraint
+    DELETE FROM bookings
+    WHERE student_id = auth.uid() AND slot_id = v_slot.id AND status = 'cancelled';
+
+    INSERT INTO bookings (student_id, slot_id, offer_id, status, booking_phase)
+    VALUES (auth.uid(), v_slot.id, v_invitation.offer_id, 'confirmed', v_current_phase)
+    RETURNING id INTO v_booking_id;
+
+    UPDATE interview_invitations
+    SET status = 'accepted', responded_at = NOW(), booking_id = v_booking_id
+    WHERE id = p_invitation_id;
+
+    PERFORM fn_notify_invitation_sender(
+        p_invitation_id,
+        'Invitation Accepted',
+        format('%s accepted your invitation to interview for %s.', v_student_name, v_invitation.offer_title),
+        'invitation_accepted'
+    );
+
+    RETURN QUERY SELECT true, v_booking_id, 'Invitation accepted. Your interview is booked.'::TEXT;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION fn_cancel_interview_invitation(p_invitation_id UUID)
+RETURNS TABLE(success BOOLEAN, message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE interview_invitations
+    SET status = 'cancelled', responded_at = NOW()
+    WHERE id = p_invitation_id
+      AND company_id = fn_my_company_id()
+      AND status = 'sent';
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT false, 'Only open invitations of your company can be withdrawn'::TEXT;
+        RETURN;
+    END IF;
+
+    RETURN QUERY SELECT true, 'Invitation withdrawn'::TEXT;
+END;
+$$;
+
+-- =====================================================
+-- LISTING
+-- =====================================================
+
+-- Invitations of the caller: received as a student, or sent by their company.
+-- Open invitations past their expiry are reported as expired.
+CREATE OR REPLACE FUNCTION fn_get_interview_invitations()
+RETURNS TABLE (
+    id UUID,
+    company_id UUID,
+    company_name TEXT,
+    student_id UUID,
+    student_name TEXT,
+    student_email TEXT,
+    offer_id UUID,
+    offer_title TEXT,
+    slot_id UUID,
+    start_time TIMESTAMPTZ,
+    end_time TIMESTAMPTZ,
+    location TEXT,
+    event_name TEXT,
+    event_timezone TEXT,
+    message TEXT,
+    status TEXT,
+    expires_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ,
+    responded_at TIMESTAMPTZ,
+    invited_by_name TEXT,
+    booking_id UUID
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        ii.id,
+        ii.company_id,
+        c.company_name,
+        ii.student_id,
+        sp.full_name,
+        sp.email,
+        ii.offer_id,
+        o.title,
+        ii.slot_id,
+        es.start_time,
+        es.end_time,
+        es.location,
+        e.name,
+        e.timezone,
+        ii.message,
+        CASE WHEN ii.status = 'sent' AND ii.expires_at <= NOW() THEN 'expired' ELSE ii.status END,
+        ii.expires_at,
+        ii.created_at,
+        ii.responded_at,
+        ip.full_name,
+        ii.booking_id
+    FROM interview_invitations ii
+    JOIN companies c ON c.id = ii.company_id
+    JOIN profiles sp ON sp.id = ii.student_id
+    JOIN offers o ON o.id = ii.offer_id
+    JOIN event_slots es ON es.id = ii.slot_id
+    LEFT JOIN events e ON e.id = es.event_id
+    LEFT JOIN profiles ip ON ip.id = ii.invited_by
+    WHERE ii.student_id = auth.uid()
+       OR ii.company_id = fn_my_company_id()
+    ORDER BY ii.created_at DESC;
+$$;
+
+-- =====================================================
+-- EXPIRY
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_expire_interview_invitations()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_expired RECORD;
+    v_count INTEGER := 0;
+BEGIN
+    FOR v_expired IN
+        UPDATE interview_invitations ii
+        SET status = 'expired'
+        FROM profiles p, offers o
+        WHERE ii.status = 'sent'
+          AND ii.expires_at <= NOW()
+          AND p.id = ii.student_id
+          AND o.id = ii.offer_id
+        RETURNING ii.id, p.full_name, o.title
+    LOOP
+        PERFORM fn_notify_invitation_sender(
+            v_expired.id,
+            'Invitation Expired',
+            format('%s did not answer your invitation to interview for %s in time.', v_expired.full_name, v_expired.title),
+            'invitation_expired'
+        );
+        v_count := v_count + 1;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$;
+
+-- =====================================================
+-- PIPELINE
+-- =====================================================
+
+-- Students who accepted an invitation from the company for a slot at the
+-- event, or whom the company bookmarked in the talent directory, can be
+-- tracked in its pipeline too
+CREATE OR REPLACE FUNCTION fn_is_pipeline_eligible(
+    p_company_id UUID,
+    p_event_id UUID,
+    p_student_id UUID
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN EXISTS (
+        SELECT 1
+        FROM bookings b
+        JOIN event_slots es ON es.id = b.slot_id
+        WHERE b.student_id = p_student_id
+          AND b.status = 'confirmed'
+          AND es.company_id = p_company_id
+          AND es.event_id = p_event_id
+    ) OR EXISTS (
+        SELECT 1
+        FROM interview_invitations ii
+        JOIN event_slots es ON es.id = ii.slot_id
+        WHERE ii.student_id = p_student_id
+          AND ii.company_id = p_company_id
+          AND ii.status = 'accepted'
+          AND es.event_id = p_event_id
+    ) OR EXISTS (
+        SELECT 1
+        FROM talent_bookmarks tb
+        WHERE tb.student_id = p_student_id
+          AND tb.company_id = p_company_id
+    );
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION fn_notify_invitation_sender(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION fn_expire_interview_invitations() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION fn_expire_interview_invitations() TO service_role;
+GRANT EXECUTE ON FUNCTION fn_send_interview_invitation(UUID, UUID, UUID, TEXT, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_respond_interview_invitation(UUID, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_cancel_interview_invitation(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_get_interview_invitations() TO authenticated;
+
+COMMENT ON FUNCTION fn_notify_invitation_sender IS
+    'Internal. Notifies the recruiter who sent an interview invitation.';
+COMMENT ON FUNCTION fn_send_interview_invitation IS
+    'Company only. Invites a consenting student to interview for an offer in a slot; notifies and emails them.';
+COMMENT ON FUNCTION fn_respond_interview_invitation IS
+    'Student only. Declines an invitation, or accepts it and books the slot, past the phase limit if the event allows it.';
+COMMENT ON FUNCTION fn_cancel_interview_invitation IS
+    'Company only. Withdraws an open invitation.';
+COMMENT ON FUNCTION fn_get_interview_invitations IS
+    'Invitations received by the calling student or sent by the caller''s company, with offer, slot and event.';
+COMMENT ON FUNCTION fn_expire_interview_invitations IS
+    'Service role only. Marks open invitations past their expiry as expired and tells their senders.';
@@ -0,0 +1,262 @@
+-- Migration: Offer Templates and Duplication
+-- Created: 2026-02-01
+-- Description: Companies repost nearly the same offers every year. Any offer
+-- can now be duplicated to another event, each company keeps a library of
+-- offer templates to start new offers from, and admins can carry a company's
+-- offers over from its previous event when inviting it to a new one. Copied
+-- offers keep their interview rubric and start inactive so they are reviewed
+-- before students see them.
+
+-- =====================================================
+-- OFFER LINEAGE
+-- =====================================================
+
+ALTER TABLE offers
+    ADD COLUMN IF NOT EXISTS copied_from_offer_id UUID REFERENCES offers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_offers_copied_from ON offers(copied_from_offer_id)
+    WHERE copied_from_offer_id IS NOT NULL;
+
+COMMENT ON COLUMN offers.copied_from_offer_id IS
+    'Offer this one was duplicated or carried over from';
+
+-- =====================================================
+-- TEMPLATES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS offer_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+    title TEXT NOT NULL,
+    description TEXT NOT NULL,
+    interest_tag interest_tag NOT NULL,
+    department TEXT,
+    requirements TEXT,
+    skills_required TEXT[],
+    location TEXT,
+    duration_months INTEGER,
+    salary_range TEXT,
+    benefits TEXT,
+    paid BOOLEAN,
+    remote_possible BOOLEAN,
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE(company_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_offer_templates_company ON offer_templates(company_id, name);
+
+DROP TRIGGER IF EXISTS update_offer_templates_updated_at ON offer_templates;
+CREATE TRIGGER update_offer_templates_updated_at
+    BEFORE UPDATE ON offer_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE offer_templates IS
+    'Reusable offer content of a company. New offers can be prefilled from a template.';
+
+ALTER TABLE offer_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Company admins can manage their offer templates" ON offer_templates;
+CREATE POLICY "Company admins can manage their offer templates" ON offer_templates
+    FOR ALL USING (fn_company_role(company_id) = 'admin')
+    WITH CHECK (fn_company_role(company_id) = 'admin');
+
+DROP POLICY IF EXISTS "Company members can view their offer templates" ON offer_templates;
+CREATE POLICY "Company members can view their offer templates" ON offer_templates
+    FOR SELECT USING (fn_company_role(company_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Admins can manage all offer templates" ON offer_templates;
+CREATE POLICY "Admins can manage all offer templates" ON offer_templates
+    FOR ALL USING (
+        EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+    ) WITH CHECK (
+        EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+    );
+
+-- =====================================================
+-- COPY OFFERS TO AN EVENT
+-- =====================================================
+
+-- Copies offers of a single company into an event, inactive and with their
+-- rubric. Callable by platform admins and by admins of that company.
+CREATE OR REPLACE FUNCTION fn_copy_offers_to_event(p_offer_ids UUID[], p_event_id UUID)
+RETURNS TABLE(success BOOLEAN, copied_count INTEGER, offer_ids UUID[], message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_is_admin BOOLEAN;
+    v_company_ids UUID[];
+    v_event RECORD;
+    v_offer RECORD;
+    v_new_id UUID;
+    v_new_ids UUID[] := '{}';
+BEGIN
+    IF p_offer_ids IS NULL OR cardinality(p_offer_ids) = 0 THEN
+        RETURN QUERY SELECT false, 0, '{}'::UUID[], 'Select at least one offer to copy'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT array_agg(DISTINCT o.company_id) INTO v_company_ids
+    FROM offers o
+    WHERE o.id = ANY(p_offer_ids);
+
+    IF v_company_ids IS NULL OR (
+        SELECT COUNT(*) FROM offers WHERE id = ANY(p_offer_ids)
+    ) <> cardinality(ARRAY(SELECT DISTINCT unnest(p_offer_ids))) THEN
+        RETURN QUERY SELECT false, 0, '{}'::UUID[], 'Offer not found'::TEXT;
+        RETURN;
+    END IF;
+
+    IF cardinality(v_company_ids) > 1 THEN
+        RETURN QUERY SELECT false, 0, '{}'::UUID[], 'Offers of different companies cannot be copied together'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') INTO v_is_admin;
+
+    IF NOT v_is_admin AND fn_company_role(v_company_ids[1]) IS DISTINCT FROM 'admin' THEN
+        RETURN QUERY SELECT false, 0, '{}'::UUID[], 'Only company admins can copy offers'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT id, name, is_active INTO v_event FROM events WHERE id = p_event_id;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT false, 0, '{}'::UUID[], 'Event not found'::TEXT;
+        RETURN;
+    END IF;
+
+    IF NOT v_is_admin AND NOT v_event.is_active THEN
+        RETURN QUERY SELECT false, 0, '{}'::UUID[], 'Offers can only be copied to an active event'::TEXT;
+        RETURN;
+    END IF;
+
+    IF NOT v_is_admin
+       AND NOT EXISTS (
+           SELECT 1 FROM event_participants ep
+           WHERE ep.event_id = p_event_id AND ep.company_id = v_company_ids[1]
+       )
+       AND NOT EXISTS (
+           SELECT 1 FROM event_registrations er
+           WHERE er.event_id = p_event_id AND er.company_id = v_company_ids[1] AND er.status = 'approved'
+       ) THEN
+        RETURN QUERY SELECT false, 0, '{}'::UUID[], 'Your company is not taking part in this event'::TEXT;
+        RETURN;
+    END IF;
+
+    FOR v_offer IN
+        SELECT * FROM offers WHERE id = ANY(p_offer_ids) ORDER BY created_at
+    LOOP
+        INSERT INTO offers (
+            company_id, event_id, title, description, interest_tag, department,
+            requirements, skills_required, location, duration_months, salary_range,
+            benefits, paid, remote_possible, is_active, copied_from_offer_id
+        )
+        VALUES (
+            v_offer.company_id, p_event_id, v_offer.title, v_offer.description,
+            v_offer.interest_tag, v_offer.department, v_offer.requirements,
+            v_offer.skills_required, v_offer.location, v_offer.duration_months,
+            v_offer.salary_range, v_offer.benefits, v_offer.paid,
+            v_offer.remote_possible, false, v_offer.id
+        )
+        RETURNING id INTO v_new_id;
+
+        INSERT INTO offer_rubric_criteria (offer_id, label, description, weight, scale_max, position)
+        SELECT v_new_id, rc.label, rc.description, rc.weight, rc.scale_max, rc.position
+        FROM offer_rubric_criteria rc
+        WHERE rc.offer_id = v_offer.id;
+
+        v_new_ids := v_new_ids || v_new_id;
+    END LOOP;
+
+    RETURN QUERY SELECT
+        true,
+        cardinality(v_new_ids),
+        v_new_ids,
+        format('%s offer(s) copied to %s as inactive. Review and activate them when ready.',
+               cardinality(v_new_ids), v_event.name);
+END;
+$$;
+
+-- =====================================================
+-- CARRY OVER FROM THE PREVIOUS EVENT
+-- =====================================================
+
+-- Offers of the company's latest earlier event that has offers, flagged when
+-- they were already copied into the target event
+CREATE OR REPLACE FUNCTION fn_get_carry_over_offers(p_company_id UUID, p_event_id UUID)
+RETURNS TABLE(
+    offer_id UUID,
+    title TEXT,
+    interest_tag interest_tag,
+    is_active BOOLEAN,
+    source_event_id UUID,
+    source_event_name TEXT,
+    source_event_date TIMESTAMPTZ,
+    already_copied BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_target_date TIMESTAMPTZ;
+    v_source_event_id UUID;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+       AND fn_company_role(p_company_id) IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Only admins can carry offers over';
+    END IF;
+
+    SELECT e.date INTO v_target_date FROM events e WHERE e.id = p_event_id;
+
+    SELECT e.id INTO v_source_event_id
+    FROM events e
+    WHERE e.id <> p_event_id
+      AND (v_target_date IS NULL OR e.date < v_target_date)
+      AND EXISTS (SELECT 1 FROM offers o WHERE o.event_id = e.id AND o.company_id = p_company_id)
+    ORDER BY e.date DESC
+    LIMIT 1;
+
+    IF v_source_event_id IS NULL THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        o.id,
+        o.title,
+        o.interest_tag,
+        o.is_active,
+        e.id,
+        e.name,
+        e.date,
+        EXISTS (
+            SELECT 1 FROM offers c
+            WHERE c.copied_from_offer_id = o.id AND c.event_id = p_event_id
+        )
+    FROM offers o
+    JOIN events e ON e.id = o.event_id
+    WHERE o.event_id = v_source_event_id
+      AND o.company_id = p_company_id
+    ORDER BY o.title;
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+GRANT EXECUTE ON FUNCTION fn_copy_offers_to_event(UUID[], UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_get_carry_over_offers(UUID, UUID) TO authenticated;
+
+COMMENT ON FUNCTION fn_copy_offers_to_event IS
+    'Company admins and admins. Copies offers of one company with their rubric into an event, inactive.';
+COMMENT ON FUNCTION fn_get_carry_over_offers IS
+    'Company admins and admins. Offers of the company''s previous event, flagged when already copied into the given one.';
@@ -0,0 +1,135 @@
+-- Migration: Offer Funnel Analytics
+-- Created: 2026-02-02
+-- Description: Track how students move through an offer: viewed (from the
+-- public offers page or the offer detail page), opened the slot picker, and
+-- booked. Views and slot picker opens count once per student per offer per
+-- day. Only signed-in students are counted: an anonymous visitor id would be
+-- chosen by the caller and could inflate the counts at will.
+-- offers.view_count, which nothing incremented so far, now holds the
+-- deduplicated view total. Companies see the funnel per offer.
+
+-- =====================================================
+-- ACTIVITY LOG
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS offer_activity (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    offer_id UUID NOT NULL REFERENCES offers(id) ON DELETE CASCADE,
+    activity_type TEXT NOT NULL CHECK (activity_type IN ('view', 'slot_modal_open')),
+    source TEXT NOT NULL CHECK (source IN ('public_offers', 'offer_detail', 'student_offers')),
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    activity_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE(offer_id, activity_type, user_id, activity_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_offer_activity_offer ON offer_activity(offer_id, activity_type);
+
+COMMENT ON TABLE offer_activity IS
+    'Offer views and slot picker opens, one row per student, offer, kind and day.';
+
+-- Written and read through the functions below only
+ALTER TABLE offer_activity ENABLE ROW LEVEL SECURITY;
+
+-- The trigger function from the initial schema was never attached
+DROP FUNCTION IF EXISTS increment_offer_view_count();
+
+-- =====================================================
+-- TRACKING
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_track_offer_activity(
+    p_offer_id UUID,
+    p_activity_type TEXT,
+    p_source TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_role TEXT;
+BEGIN
+    SELECT role INTO v_role FROM profiles WHERE id = auth.uid();
+
+    -- Only students count; companies and admins browsing offers would skew
+    -- the funnel
+    IF v_role IS DISTINCT FROM 'student' THEN
+        RETURN;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM offers WHERE id = p_offer_id AND is_active = true) THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO offer_activity (offer_id, activity_type, source, user_id)
+    VALUES (p_offer_id, p_activity_type, p_source, auth.uid())
+    ON CONFLICT (offer_id, activity_type, user_id, activity_date) DO NOTHING;
+
+    IF FOUND AND p_activity_type = 'view' THEN
+        UPDATE offers SET view_count = view_count + 1 WHERE id = p_offer_id;
+    END IF;
+END;
+$$;
+
+-- =====================================================
+-- FUNNEL
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_get_offer_funnel(p_company_id UUID, p_event_id UUID DEFAULT NULL)
+RETURNS TABLE(
+    offer_id UUID,
+    title TEXT,
+    is_active BOOLEAN,
+    event_id UUID,
+    views INTEGER,
+    unique_viewers BIGINT,
+    slot_modal_opens BIGINT,
+    confirmed_bookings BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF fn_company_role(p_company_id) IS NULL
+       AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        RAISE EXCEPTION 'Not allowed to view this company''s offers';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        o.id,
+        o.title,
+        o.is_active,
+        o.event_id,
+        o.view_count,
+        (SELECT COUNT(DISTINCT a.user_id) FROM offer_activity a
+         WHERE a.offer_id = o.id AND a.activity_type = 'view'),
+        (SELECT COUNT(*) FROM offer_activity a
+         WHERE a.offer_id = o.id AND a.activity_type = 'slot_modal_open'),
+        (SELECT COUNT(*) FROM bookings b
+         JOIN event_slots es ON es.id = b.slot_id
+         WHERE COALESCE(b.offer_id, es.offer_id) = o.id
+           AND b.status = 'confirmed')
+    FROM offers o
+    WHERE o.company_id = p_company_id
+      AND (p_event_id IS NULL OR o.event_id = p_event_id)
+    ORDER BY o.view_count DESC, o.title;
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION fn_track_offer_activity(UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION fn_track_offer_activity(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_get_offer_funnel(UUID, UUID) TO authenticated;
+
+COMMENT ON FUNCTION fn_track_offer_activity IS
+    'Records an offer view or slot picker open by the signed-in student, once per day.';
+COMMENT ON FUNCTION fn_get_offer_funnel IS
+    'Company members and admins. Views, unique viewers, slot picker opens and confirmed bookings per offer.';
@@ -0,0 +1,883 @@
+-- Migration: Offer Screening Questions
+-- Created: 2026-02-03
+-- Description: Companies can ask up to five screening questions per offer
+-- (short text, yes/no or multiple choice, optionally required), for example
+-- availability dates or work permit status. Students answer them when they
+-- confirm a booking or join the waitlist; fn_book_interview and
+-- fn_join_waitlist check the answers and keep them together with the
+-- question wording, so later edits to the questions do not change what the
+-- student answered. Answers live in booking_screening_answers rather than on
+-- bookings, which students can update: only the student and the company
+-- members who handle the slot can read them, and only the booking functions
+-- write them. Accepting a company invitation asks for the answers as well.
+
+-- =====================================================
+-- QUESTIONS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS offer_screening_questions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    offer_id UUID NOT NULL REFERENCES offers(id) ON DELETE CASCADE,
+    question TEXT NOT NULL CHECK (length(trim(question)) BETWEEN 1 AND 300),
+    question_type TEXT NOT NULL CHECK (question_type IN ('short_text', 'yes_no', 'multiple_choice')),
+    options TEXT[] NOT NULL DEFAULT '{}',
+    is_required BOOLEAN NOT NULL DEFAULT false,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK (question_type <> 'multiple_choice' OR cardinality(options) >= 2)
+);
+
+CREATE INDEX IF NOT EXISTS idx_offer_screening_questions_offer ON offer_screening_questions(offer_id, position);
+
+DROP TRIGGER IF EXISTS update_offer_screening_questions_updated_at ON offer_screening_questions;
+CREATE TRIGGER update_offer_screening_questions_updated_at
+    BEFORE UPDATE ON offer_screening_questions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE offer_screening_questions IS
+    'Questions students answer when booking an interview for an offer. At most five per offer.';
+
+CREATE OR REPLACE FUNCTION fn_enforce_screening_question_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF (SELECT COUNT(*) FROM offer_screening_questions WHERE offer_id = NEW.offer_id) >= 5 THEN
+        RAISE EXCEPTION 'An offer can have at most 5 screening questions';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_screening_question_limit ON offer_screening_questions;
+CREATE TRIGGER enforce_screening_question_limit
+    BEFORE INSERT ON offer_screening_questions
+    FOR EACH ROW
+    EXECUTE FUNCTION fn_enforce_screening_question_limit();
+
+ALTER TABLE offer_screening_questions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Company admins can manage their screening questions" ON offer_screening_questions;
+CREATE POLICY "Company admins can manage their screening questions" ON offer_screening_questions
+    FOR ALL USING (
+        offer_id IN (SELECT o.id FROM offers o WHERE fn_company_role(o.company_id) = 'admin')
+    ) WITH CHECK (
+        offer_id IN (SELECT o.id FROM offers o WHERE fn_company_role(o.company_id) = 'admin')
+    );
+
+DROP POLICY IF EXISTS "Company members can view their screening questions" ON offer_screening_questions;
+CREATE POLICY "Company members can view their screening questions" ON offer_screening_questions
+    FOR SELECT USING (
+        offer_id IN (SELECT o.id FROM offers o WHERE fn_company_role(o.company_id) IS NOT NULL)
+    );
+
+DROP POLICY IF EXISTS "Students can view screening questions of active offers" ON offer_screening_questions;
+CREATE POLICY "Students can view screening questions of active offers" ON offer_screening_questions
+    FOR SELECT USING (
+        auth.uid() IS NOT NULL
+        AND offer_id IN (SELECT o.id FROM offers o WHERE o.is_active = true)
+    );
+
+DROP POLICY IF EXISTS "Admins can view all screening questions" ON offer_screening_questions;
+CREATE POLICY "Admins can view all screening questions" ON offer_screening_questions
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+    );
+
+-- =====================================================
+-- ANSWERS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS booking_screening_answers (
+    booking_id UUID PRIMARY KEY REFERENCES bookings(id) ON DELETE CASCADE,
+    answers JSONB NOT NULL DEFAULT '[]'::JSONB,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE booking_screening_answers IS
+    'Screening answers given at booking: [{ question_id, question, question_type, answer }]. Written by fn_book_interview and waitlist promotion only.';
+
+ALTER TABLE booking_screening_answers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Students can view their screening answers" ON booking_screening_answers;
+CREATE POLICY "Students can view their screening answers" ON booking_screening_answers
+    FOR SELECT USING (
+        booking_id IN (SELECT b.id FROM bookings b WHERE b.student_id = auth.uid())
+    );
+
+DROP POLICY IF EXISTS "Interviewers can view screening answers of their slots" ON booking_screening_answers;
+CREATE POLICY "Interviewers can view screening answers of their slots" ON booking_screening_answers
+    FOR SELECT USING (
+        booking_id IN (SELECT b.id FROM bookings b WHERE fn_can_handle_slot(b.slot_id))
+    );
+
+-- Answers given when joining the waitlist, carried over on promotion
+ALTER TABLE booking_waitlist
+    ADD COLUMN IF NOT EXISTS screening_answers JSONB NOT NULL DEFAULT '[]'::JSONB;
+
+COMMENT ON COLUMN booking_waitlist.screening_answers IS
+    'Screening answers given when joining, in the booking_screening_answers format';
+
+-- Checks the answers ({ "<question id>": "answer" }) against the questions of
+-- an offer and returns them in the stored format. Unknown ids are ignored.
+CREATE OR REPLACE FUNCTION fn_validate_screening_answers(p_offer_id UUID, p_answers JSONB)
+RETURNS TABLE(valid BOOLEAN, answers JSONB, message TEXT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_question RECORD;
+    v_answer TEXT;
+    v_answers JSONB := '[]'::JSONB;
+BEGIN
+    FOR v_question IN
+        SELECT * FROM offer_screening_questions q
+        WHERE q.offer_id = p_offer_id
+        ORDER BY q.position
+    LOOP
+        v_answer := NULLIF(trim(COALESCE(p_answers ->> v_question.id::TEXT, '')), '');
+
+        IF v_answer IS NULL THEN
+            IF v_question.is_required THEN
+                RETURN QUERY SELECT false, NULL::JSONB, format('Please answer: %s', v_question.question);
+                RETURN;
+            END IF;
+            CONTINUE;
+        END IF;
+
+        IF (v_question.question_type = 'yes_no' AND v_answer NOT IN ('yes', 'no'))
+           OR (v_question.question_type = 'multiple_choice' AND NOT v_answer = ANY(v_question.options))
+           OR (v_question.question_type = 'short_text' AND length(v_answer) > 500) THEN
+            RETURN QUERY SELECT false, NULL::JSONB, format('Invalid answer to: %s', v_question.question);
+            RETURN;
+        END IF;
+
+        v_answers := v_answers || jsonb_build_object(
+            'question_id', v_question.id,
+            'question', v_question.question,
+            'question_type', v_question.question_type,
+            'answer', v_answer
+        );
+    END LOOP;
+
+    RETURN QUERY SELECT true, v_answers, NULL::TEXT;
+END;
+$$;
+
+-- =====================================================
+-- BOOKING WITH ANSWERS
+-- =====================================================
+
+-- Same checks as the 2026-01-14 version; the screening answers are validated
+-- once the slot and limits pass and are stored with the booking.
+DROP FUNCTION IF EXISTS public.fn_book_interview(uuid, uuid, uuid);
+
+CREATE OR REPLACE FUNCTION public.fn_book_interview(
+    p_student_id uuid,
+    p_slot_id uuid,
+    p_offer_id uuid,
+    p_screening_answers jsonb DEFAULT '{}'::jsonb
+)
+RETURNS TABLE(success boolean, booking_id uuid, message text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_booking_id UUID;
+    v_can_book BOOLEAN;
+    v_event_id UUID;
+    v_current_count INTEGER;
+    v_max_allowed INTEGER;
+    v_available_spots INTEGER;
+    v_company_id UUID;
+    v_slot_capacity INTEGER;
+    v_current_bookings INTEGER;
+    v_current_phase INTEGER;
+    v_limit_message TEXT;
+    v_answers_valid BOOLEAN;
+    v_answers JSONB;
+    v_answers_message TEXT;
+BEGIN
+    -- Lock the slot row so concurrent bookings see accurate counts
+    SELECT event_id, company_id, capacity INTO v_event_id, v_company_id, v_slot_capacity
+    FROM event_slots
+    WHERE id = p_slot_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'Slot not found'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT COUNT(*) INTO v_current_bookings
+    FROM bookings
+    WHERE slot_id = p_slot_id AND status = 'confirmed';
+
+    IF v_current_bookings >= v_slot_capacity THEN
+        RETURN QUERY SELECT false, NULL::UUID,
+            format('This slot is fully booked (%s/%s spots taken)', v_current_bookings, v_slot_capacity)::TEXT;
+        RETURN;
+    END IF;
+
+    -- Check if student already has a booking for this slot (including cancelled ones due to unique constraint)
+    IF EXISTS (
+        SELECT 1 FROM bookings
+        WHERE student_id = p_student_id AND slot_id = p_slot_id
+    ) THEN
+        DELETE FROM bookings
+        WHERE student_id = p_student_id
+          AND slot_id = p_slot_id
+          AND status = 'cancelled';
+
+        IF EXISTS (
+            SELECT 1 FROM bookings
+            WHERE student_id = p_student_id AND slot_id = p_slot_id
+        ) THEN
+            RETURN QUERY SELECT false, NULL::UUID, 'You already have a booking for this time slot'::TEXT;
+            RETURN;
+        END IF;
+    END IF;
+
+    -- Check if student already has a booking with this company for this event
+    IF EXISTS (
+        SELECT 1
+        FROM bookings b
+        JOIN event_slots es ON es.id = b.slot_id
+        WHERE b.student_id = p_student_id
+          AND es.company_id = v_company_id
+          AND es.event_id = v_event_id
+          AND b.status = 'confirmed'
+    ) THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'You already have a booking with this company for this event'::TEXT;
+        RETURN;
+    END IF;
+
+    -- Active phase, its limit and its eligibility rule
+    SELECT l.can_book, l.current_count, l.max_allowed, l.current_phase, l.message
+    INTO v_can_book, v_current_count, v_max_allowed, v_current_phase, v_limit_message
+    FROM fn_check_student_booking_limit(p_student_id, v_event_id) l;
+
+    IF NOT COALESCE(v_can_book, false) THEN
+        IF v_max_allowed > 0 THEN
+            RETURN QUERY SELECT
+                false,
+                NULL::UUID,
+                format('You have reached your booking limit (%s/%s bookings)', v_current_count, v_max_allowed)::TEXT;
+        ELSE
+            RETURN QUERY SELECT false, NULL::UUID, COALESCE(v_limit_message, 'Bookings are currently closed for this event')::TEXT;
+        END IF;
+        RETURN;
+    END IF;
+
+    -- Verify offer exists and is active
+    IF NOT EXISTS (
+        SELECT 1 FROM offers
+        WHERE id = p_offer_id AND is_active = true
+    ) THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'Offer not found or inactive'::TEXT;
+        RETURN;
+    END IF;
+
+    -- Check for time conflicts with existing bookings
+    IF EXISTS (
+        SELECT 1
+        FROM bookings b
+        JOIN event_slots es_existing ON es_existing.id = b.slot_id
+        JOIN event_slots es_new ON es_new.id = p_slot_id
+        WHERE b.student_id = p_student_id
+          AND b.status = 'confirmed'
+          AND es_existing.start_time < es_new.end_time
+          AND es_existing.end_time > es_new.start_time
+    ) THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'This time slot conflicts with another booking'::TEXT;
+        RETURN;
+    END IF;
+
+    -- Screening questions of the offer
+    SELECT v.valid, v.answers, v.message
+    INTO v_answers_valid, v_answers, v_answers_message
+    FROM fn_validate_screening_answers(p_offer_id, COALESCE(p_screening_answers, '{}'::JSONB)) v;
+
+    IF NOT v_answers_valid THEN
+        RETURN QUERY SELECT false, NULL::UUID, v_answers_message;
+        RETURN;
+    END IF;
+
+    INSERT INTO bookings (
+        student_id,
+        slot_id,
+        offer_id,
+        status,
+        booking_phase
+    ) VALUES (
+        p_student_id,
+        p_slot_id,
+        p_offer_id,
+        'confirmed',
+        v_current_phase
+    ) RETURNING id INTO v_booking_id;
+
+    IF jsonb_array_length(v_answers) > 0 THEN
+        INSERT INTO booking_screening_answers (booking_id, answers)
+        VALUES (v_booking_id, v_answers);
+    END IF;
+
+    v_available_spots := v_slot_capacity - v_current_bookings - 1;
+
+    RETURN QUERY SELECT
+        true,
+        v_booking_id,
+        format('Interview booked successfully! %s spot(s) remaining', v_available_spots)::TEXT;
+END;
+$$;
+
+-- =====================================================
+-- WAITLIST WITH ANSWERS
+-- =====================================================
+
+-- Same as the 2026-01-10 version, with the screening answers checked and
+-- kept on the waitlist entry
+DROP FUNCTION IF EXISTS fn_join_waitlist(UUID, UUID, UUID);
+
+CREATE OR REPLACE FUNCTION fn_join_waitlist(
+    p_student_id UUID,
+    p_offer_id UUID,
+    p_slot_id UUID DEFAULT NULL,
+    p_screening_answers JSONB DEFAULT '{}'::JSONB
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    waitlist_id UUID,
+    queue_position INTEGER,
+    message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_company_id UUID;
+    v_event_id UUID;
+    v_waitlist_id UUID;
+    v_position INTEGER;
+    v_answers_valid BOOLEAN;
+    v_answers JSONB;
+    v_answers_message TEXT;
+BEGIN
+    IF p_student_id IS DISTINCT FROM auth.uid() THEN
+        RETURN QUERY SELECT false, NULL::UUID, NULL::INTEGER, 'You can only join the waitlist for yourself'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT o.company_id, o.event_id INTO v_company_id, v_event_id
+    FROM offers o
+    WHERE o.id = p_offer_id AND o.is_active = true;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT false, NULL::UUID, NULL::INTEGER, 'Offer not found or inactive'::TEXT;
+        RETURN;
+    END IF;
+
+    IF p_slot_id IS NOT NULL THEN
+        SELECT es.event_id INTO v_event_id
+        FROM event_slots es
+        WHERE es.id = p_slot_id
+          AND es.company_id = v_company_id
+          AND es.is_active = true
+          AND es.start_time > NOW();
+
+        IF NOT FOUND THEN
+            RETURN QUERY SELECT false, NULL::UUID, NULL::INTEGER, 'Slot not found or already started'::TEXT;
+            RETURN;
+        END IF;
+
+        -- Only full slots have a queue; a free seat is booked directly
+        IF (
+            SELECT COUNT(*) FROM bookings b
+            WHERE b.slot_id = p_slot_id AND b.status = 'confirmed'
+        ) < (SELECT es.capacity FROM event_slots es WHERE es.id = p_slot_id) THEN
+            RETURN QUERY SELECT false, NULL::UUID, NULL::INTEGER, 'This slot still has free seats. Book it directly instead.'::TEXT;
+            RETURN;
+        END IF;
+    END IF;
+
+    IF v_event_id IS NULL THEN
+        RETURN QUERY SELECT false, NULL::UUID, NULL::INTEGER, 'This offer is not attached to an event'::TEXT;
+        RETURN;
+    END IF;
+
+    -- No point waiting for a company the student already has an interview with
+    IF EXISTS (
+        SELECT 1
+        FROM bookings b
+        JOIN event_slots es ON es.id = b.slot_id
+        WHERE b.student_id = p_student_id
+          AND es.company_id = v_company_id
+          AND es.event_id = v_event_id
+          AND b.status = 'confirmed'
+    ) THEN
+        RETURN QUERY SELECT false, NULL::UUID, NULL::INTEGER, 'You already have a booking with this company for this event'::TEXT;
+        RETURN;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM booking_waitlist w
+        WHERE w.student_id = p_student_id
+          AND w.company_id = v_company_id
+          AND w.event_id = v_event_id
+          AND w.status = 'waiting'
+          AND (w.slot_id IS NULL OR w.slot_id IS NOT DISTINCT FROM p_slot_id)
+    ) THEN
+        RETURN QUERY SELECT false, NULL::UUID, NULL::INTEGER, 'You are already on the waitlist'::TEXT;
+        RETURN;
+    END IF;
+
+    -- Promotion books without the student, so the answers are taken now
+    SELECT v.valid, v.answers, v.message
+    INTO v_answers_valid, v_answers, v_answers_message
+    FROM fn_validate_screening_answers(p_offer_id, COALESCE(p_screening_answers, '{}'::JSONB)) v;
+
+    IF NOT v_answers_valid THEN
+        RETURN QUERY SELECT false, NULL::UUID, NULL::INTEGER, v_answers_message;
+        RETURN;
+    END IF;
+
+    INSERT INTO booking_waitlist (student_id, event_id, company_id, offer_id, slot_id, screening_answers)
+    VALUES (p_student_id, v_event_id, v_company_id, p_offer_id, p_slot_id, v_answers)
+    RETURNING id INTO v_waitlist_id;
+
+    SELECT fn_get_waitlist_position(v_waitlist_id) INTO v_position;
+
+    RETURN QUERY SELECT
+        true,
+        v_waitlist_id,
+        v_position,
+        format('You joined the waitlist (position %s). We will book you automatically if a seat frees up.', v_position)::TEXT;
+END;
+$$;
+
+-- Same as the 2026-01-25 version, storing the answers given on joining with
+-- the promoted booking
+CREATE OR REPLACE FUNCTION fn_promote_from_waitlist(p_slot_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_slot RECORD;
+    v_candidate RECORD;
+    v_confirmed INTEGER;
+    v_can_book BOOLEAN;
+    v_phase INTEGER;
+    v_booking_id UUID;
+BEGIN
+    SELECT es.id, es.event_id, es.company_id, es.capacity, es.start_time, es.end_time, es.is_active,
+           e.timezone
+    INTO v_slot
+    FROM event_slots es
+    LEFT JOIN events e ON e.id = es.event_id
+    WHERE es.id = p_slot_id
+    FOR UPDATE OF es;
+
+    IF NOT FOUND OR NOT v_slot.is_active OR v_slot.start_time <= NOW() THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT COUNT(*) INTO v_confirmed
+    FROM bookings
+    WHERE slot_id = p_slot_id AND status = 'confirmed';
+
+    IF v_confirmed >= v_slot.capacity THEN
+        RETURN NULL;
+    END IF;
+
+    FOR v_candidate IN
+        SELECT w.id, w.student_id, w.offer_id, w.screening_answers
+        FROM booking_waitlist w
+        WHERE w.status = 'waiting'
+          AND w.company_id = v_slot.company_id
+          AND w.event_id = v_slot.event_id
+          AND (w.slot_id = p_slot_id OR w.slot_id IS NULL)
+        ORDER BY w.created_at ASC
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        -- One booking per company per event
+        CONTINUE WHEN EXISTS (
+            SELECT 1
+            FROM bookings b
+            JOIN event_slots es ON es.id = b.slot_id
+            WHERE b.student_id = v_candidate.student_id
+              AND es.company_id = v_slot.company_id
+              AND es.event_id = v_slot.event_id
+              AND b.status = 'confirmed'
+        );
+
+        -- Phase booking limit (also blocks deprioritized students in Phase 1)
+        SELECT l.can_book, l.current_phase INTO v_can_book, v_phase
+        FROM fn_check_student_booking_limit(v_candidate.student_id, v_slot.event_id) l;
+        CONTINUE WHEN NOT COALESCE(v_can_book, false);
+
+        -- Time conflicts with the student's other interviews
+        CONTINUE WHEN EXISTS (
+            SELECT 1
+            FROM bookings b
+            JOIN event_slots es ON es.id = b.slot_id
+            WHERE b.student_id = v_candidate.student_id
+              AND b.status = 'confirmed'
+              AND es.start_time < v_slot.end_time
+              AND es.end_time > v_slot.start_time
+        );
+
+        -- A cancelled row for the same slot would violate unique_student_slot
+        DELETE FROM bookings
+        WHERE student_id = v_candidate.student_id
+          AND slot_id = p_slot_id
+          AND status = 'cancelled';
+
+        INSERT INTO bookings (student_id, slot_id, offer_id, status, booking_phase)
+        VALUES (v_candidate.student_id, p_slot_id, v_candidate.offer_id, 'confirmed', v_phase)
+        RETURNING id INTO v_booking_id;
+
+        IF jsonb_array_length(v_candidate.screening_answers) > 0 THEN
+            INSERT INTO booking_screening_answers (booking_id, answers)
+            VALUES (v_booking_id, v_candidate.screening_answers);
+        END IF;
+
+        UPDATE booking_waitlist
+        SET status = 'promoted',
+            promoted_booking_id = v_booking_id,
+            promoted_at = NOW()
+        WHERE id = v_candidate.id;
+
+        -- The student's other waiting entries for this company are now moot
+        UPDATE booking_waitlist
+        SET status = 'cancelled'
+        WHERE student_id = v_candidate.student_id
+          AND company_id = v_slot.company_id
+          AND event_id = v_slot.event_id
+          AND status = 'waiting';
+
+        INSERT INTO notifications (user_id, title, message, type, action_url)
+        SELECT
+            v_candidate.student_id,
+            'Promoted from Waitlist',
+            'A seat opened up with ' || c.company_name || ' and you have been booked for ' || fn_format_event_time(v_slot.start_time, v_slot.timezone),
+            'waitlist_promoted',
+            '/student/bookings'
+        FROM companies c
+        WHERE c.id = v_slot.company_id;
+
+        RETURN v_booking_id;
+    END LOOP;
+
+    RETURN NULL;
+END;
+$$;
+
+-- =====================================================
+-- INVITATIONS WITH ANSWERS
+-- =====================================================
+
+-- Same as the 2026-01-31 version; accepting validates the screening answers
+-- like fn_book_interview and stores them with the booking.
+DROP FUNCTION IF EXISTS fn_respond_interview_invitation(UUID, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION fn_respond_interview_invitation(
+    p_invitation_id UUID,
+    p_accept BOOLEAN,
+    p_screening_answers JSONB DEFAULT '{}'::JSONB
+)
+RETURNS TABLE(success BOOLEAN, booking_id UUID, message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_invitation RECORD;
+    v_slot RECORD;
+    v_student_name TEXT;
+    v_current_phase INTEGER;
+    v_can_book BOOLEAN;
+    v_limit_message TEXT;
+    v_booking_id UUID;
+    v_answers_valid BOOLEAN;
+    v_answers JSONB;
+    v_answers_message TEXT;
+BEGIN
+    SELECT ii.id, ii.company_id, ii.offer_id, ii.slot_id, ii.status, ii.expires_at, o.title AS offer_title
+    INTO v_invitation
+    FROM interview_invitations ii
+    JOIN offers o ON o.id = ii.offer_id
+    WHERE ii.id = p_invitation_id AND ii.student_id = auth.uid()
+    FOR UPDATE OF ii;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'Invitation not found'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_invitation.status <> 'sent' THEN
+        RETURN QUERY SELECT false, NULL::UUID, format('This invitation was already %s', v_invitation.status)::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT full_name INTO v_student_name FROM profiles WHERE id = auth.uid();
+
+    IF v_invitation.expires_at <= NOW() THEN
+        UPDATE interview_invitations SET status = 'expired' WHERE id = p_invitation_id;
+        RETURN QUERY SELECT false, NULL::UUID, 'This invitation has expired'::TEXT;
+        RETURN;
+    END IF;
+
+    IF NOT p_accept THEN
+        UPDATE interview_invitations
+        SET status = 'declined', responded_at = NOW()
+        WHERE id = p_invitation_id;
+
+        PERFORM fn_notify_invitation_sender(
+            p_invitation_id,
+            'Invitation Declined',
+            format('%s declined your invitation to interview for %s.', v_student_name, v_invitation.offer_title),
+            'invitation_declined'
+        );
+
+        RETURN QUERY SELECT true, NULL::UUID, 'Invitation declined'::TEXT;
+        RETURN;
+    END IF;
+
+    -- Lock the slot row so concurrent bookings see accurate counts
+    SELECT es.id, es.event_id, es.company_id, es.capacity, es.start_time, es.end_time, es.is_active,
+           e.invitations_bypass_phase_limit
+    INTO v_slot
+    FROM event_slots es
+    JOIN events e ON e.id = es.event_id
+    WHERE es.id = v_invitation.slot_id
+    FOR UPDATE OF es;
+
+    IF NOT FOUND OR NOT v_slot.is_active OR v_slot.start_time <= NOW() THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'This interview slot is no longer available'::TEXT;
+        RETURN;
+    END IF;
+
+    IF (SELECT COUNT(*) FROM bookings WHERE slot_id = v_slot.id AND status = 'confirmed') >= v_slot.capacity THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'This slot is fully booked. Contact the company for another time.'::TEXT;
+        RETURN;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM bookings b
+        JOIN event_slots es ON es.id = b.slot_id
+        WHERE b.student_id = auth.uid()
+          AND b.status = 'confirmed'
+          AND es.company_id = v_slot.company_id
+          AND es.event_id = v_slot.event_id
+    ) THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'You already have a booking with this company for this event'::TEXT;
+        RETURN;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM bookings b
+        JOIN event_slots es ON es.id = b.slot_id
+        WHERE b.student_id = auth.uid()
+          AND b.status = 'confirmed'
+          AND es.start_time < v_slot.end_time
+          AND es.end_time > v_slot.start_time
+    ) THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'This time slot conflicts with another booking'::TEXT;
+        RETURN;
+    END IF;
+
+    v_current_phase := fn_resolve_event_phase(v_slot.event_id);
+
+    IF v_current_phase = 0 THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'Bookings are currently closed for this event'::TEXT;
+        RETURN;
+    END IF;
+
+    IF NOT v_slot.invitations_bypass_phase_limit THEN
+        SELECT l.can_book, l.message INTO v_can_book, v_limit_message
+        FROM fn_check_student_booking_limit(auth.uid(), v_slot.event_id) l;
+
+        IF NOT COALESCE(v_can_book, false) THEN
+            RETURN QUERY SELECT false, NULL::UUID, COALESCE(v_limit_message, 'You cannot book at the moment')::TEXT;
+            RETURN;
+        END IF;
+    END IF;
+
+    -- Screening questions of the offer
+    SELECT v.valid, v.answers, v.message
+    INTO v_answers_valid, v_answers, v_answers_message
+    FROM fn_validate_screening_answers(v_invitation.offer_id, COALESCE(p_screening_answers, '{}'::JSONB)) v;
+
+    IF NOT v_answers_valid THEN
+        RETURN QUERY SELECT false, NULL::UUID, v_answers_message;
+        RETURN;
+    END IF;
+
+    -- A cancelled booking of the same slot would block the unique constraint
+    DELETE FROM bookings
+    WHERE student_id = auth.uid() AND slot_id = v_slot.id AND status = 'cancelled';
+
+    INSERT INTO bookings (student_id, slot_id, offer_id, status, booking_phase)
+    VALUES (auth.uid(), v_slot.id, v_invitation.offer_id, 'confirmed', v_current_phase)
+    RETURNING id INTO v_booking_id;
+
+    IF jsonb_array_length(v_answers) > 0 THEN
+        INSERT INTO booking_screening_answers (booking_id, answers)
+        VALUES (v_booking_id, v_answers);
+    END IF;
+
+    UPDATE interview_invitations
+    SET status = 'accepted', responded_at = NOW(), booking_id = v_booking_id
+    WHERE id = p_invitation_id;
+
+    PERFORM fn_notify_invitation_sender(
+        p_invitation_id,
+        'Invitation Accepted',
+        format('%s accepted your invitation to interview for %s.', v_student_name, v_invitation.offer_title),
+        'invitation_accepted'
+    );
+
+    RETURN QUERY SELECT true, v_booking_id, 'Invitation accepted. Your interview is booked.'::TEXT;
+END;
+$$;
+
+-- =====================================================
+-- OFFER COPIES KEEP THEIR QUESTIONS
+-- =====================================================
+
+-- Same as the 2026-02-01 version, copying the screening questions as well
+CREATE OR REPLACE FUNCTION fn_copy_offers_to_event(p_offer_ids UUID[], p_event_id UUID)
+RETURNS TABLE(success BOOLEAN, copied_count INTEGER, offer_ids UUID[], message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_is_admin BOOLEAN;
+    v_company_ids UUID[];
+    v_event RECORD;
+    v_offer RECORD;
+    v_new_id UUID;
+    v_new_ids UUID[] := '{}';
+BEGIN
+    IF p_offer_ids IS NULL OR cardinality(p_offer_ids) = 0 THEN
+        RETURN QUERY SELECT false, 0, '{}'::UUID[], 'Select at least one offer to copy'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT array_agg(DISTINCT o.company_id) INTO v_company_ids
+    FROM offers o
+    WHERE o.id = ANY(p_offer_ids);
+
+    IF v_company_ids IS NULL OR (
+        SELECT COUNT(*) FROM offers WHERE id = ANY(p_offer_ids)
+    ) <> cardinality(ARRAY(SELECT DISTINCT unnest(p_offer_ids))) THEN
+        RETURN QUERY SELECT false, 0, '{}'::UUID[], 'Offer not found'::TEXT;
+        RETURN;
+    END IF;
+
+    IF cardinality(v_company_ids) > 1 THEN
+        RETURN QUERY SELECT false, 0, '{}'::UUID[], 'Offers of different companies cannot be copied together'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') INTO v_is_admin;
+
+    IF NOT v_is_admin AND fn_company_role(v_company_ids[1]) IS DISTINCT FROM 'admin' THEN
+        RETURN QUERY SELECT false, 0, '{}'::UUID[], 'Only company admins can copy offers'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT id, name, is_active INTO v_event FROM events WHERE id = p_event_id;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT false, 0, '{}'::UUID[], 'Event not found'::TEXT;
+        RETURN;
+    END IF;
+
+    IF NOT v_is_admin AND NOT v_event.is_active THEN
+        RETURN QUERY SELECT false, 0, '{}'::UUID[], 'Offers can only be copied to an active event'::TEXT;
+        RETURN;
+    END IF;
+
+    IF NOT v_is_admin
+       AND NOT EXISTS (
+           SELECT 1 FROM event_participants ep
+           WHERE ep.event_id = p_event_id AND ep.company_id = v_company_ids[1]
+       )
+       AND NOT EXISTS (
+           SELECT 1 FROM event_registrations er
+           WHERE er.event_id = p_event_id AND er.company_id = v_company_ids[1] AND er.status = 'approved'
+       ) THEN
+        RETURN QUERY SELECT false, 0, '{}'::UUID[], 'Your company is not taking part in this event'::TEXT;
+        RETURN;
+    END IF;
+
+    FOR v_offer IN
+        SELECT * FROM offers WHERE id = ANY(p_offer_ids) ORDER BY created_at
+    LOOP
+        INSERT INTO offers (
+            company_id, event_id, title, description, interest_tag, department,
+            requirements, skills_required, location, duration_months, salary_range,
+            benefits, paid, remote_possible, is_active, copied_from_offer_id
+        )
+        VALUES (
+            v_offer.company_id, p_event_id, v_offer.title, v_offer.description,
+            v_offer.interest_tag, v_offer.department, v_offer.requirements,
+            v_offer.skills_required, v_offer.location, v_offer.duration_months,
+            v_offer.salary_range, v_offer.benefits, v_offer.paid,
+            v_offer.remote_possible, false, v_offer.id
+        )
+        RETURNING id INTO v_new_id;
+
+        INSERT INTO offer_rubric_criteria (offer_id, label, description, weight, scale_max, position)
+        SELECT v_new_id, rc.label, rc.description, rc.weight, rc.scale_max, rc.position
+        FROM offer_rubric_criteria rc
+        WHERE rc.offer_id = v_offer.id;
+
+        INSERT INTO offer_screening_questions (offer_id, question, question_type, options, is_required, position)
+        SELECT v_new_id, sq.question, sq.question_type, sq.options, sq.is_required, sq.position
+        FROM offer_screening_questions sq
+        WHERE sq.offer_id = v_offer.id;
+
+        v_new_ids := v_new_ids || v_new_id;
+    END LOOP;
+
+    RETURN QUERY SELECT
+        true,
+        cardinality(v_new_ids),
+        v_new_ids,
+        format('%s offer(s) copied to %s as inactive. Review and activate them when ready.',
+               cardinality(v_new_ids), v_event.name);
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION fn_validate_screening_answers(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.fn_book_interview(UUID, UUID, UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_join_waitlist(UUID, UUID, UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_respond_interview_invitation(UUID, BOOLEAN, JSONB) TO authenticated;
+
+COMMENT ON FUNCTION fn_validate_screening_answers IS
+    'Internal. Checks screening answers against the questions of an offer and returns them in the stored format.';
+COMMENT ON FUNCTION public.fn_book_interview IS
+'Book interview slot with row-level locking. Enforces the active event phase (limit and eligibility), records it as booking_phase and stores the screening answers.';
+COMMENT ON FUNCTION fn_join_waitlist IS
+    'Adds the calling student to the waitlist for a full slot (p_slot_id) or for any slot of the offer''s company (p_slot_id NULL), with their screening answers.';
+COMMENT ON FUNCTION fn_respond_interview_invitation IS
+    'Student only. Declines an invitation, or accepts it with the screening answers and books the slot, past the phase limit if the event allows it.';
+COMMENT ON FUNCTION fn_copy_offers_to_event IS
+    'Company admins and admins. Copies offers of one company with their rubric and screening questions into an event, inactive.';